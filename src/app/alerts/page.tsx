@@ -0,0 +1,299 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import Card from '@/components/ui/Card';
+import StatusBadge from '@/components/ui/StatusBadge';
+import SignInPrompt from '@/components/auth/SignInPrompt';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { usePreferences } from '@/components/preferences/PreferencesProvider';
+import { ALERT_RULE_TYPES, describeAlertRule } from '@/lib/alerts/alerts';
+import { MARKET_EXCHANGES } from '@/lib/preferences/preferences';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import type { AlertDirection, AlertRule, AlertRuleType } from '@/types/alerts';
+import type { IndustrySectorResponse } from '@/types/settrade';
+
+const TYPE_LABELS: Record<AlertRuleType, string> = {
+  price: 'Price level',
+  regime: 'Market regime change',
+  foreignFlow: 'Foreign flow flip',
+  sectorChange: 'Sector % change',
+  canslimScore: 'CAN SLIM score',
+};
+
+const THRESHOLD_HINTS: Partial<Record<AlertRuleType, string>> = {
+  price: 'Price, e.g. 35.50',
+  sectorChange: '% change, e.g. 2 or -2',
+  canslimScore: 'Score 0-100, e.g. 70',
+};
+
+const inputClass =
+  'w-full px-3 py-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]';
+
+export default function AlertsPage() {
+  const { user, loading: authLoading, authFetch } = useAuth();
+  const { preferences } = usePreferences();
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [sectors, setSectors] = useState<IndustrySectorResponse['sectors']>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [type, setType] = useState<AlertRuleType>('price');
+  const [symbol, setSymbol] = useState('');
+  const [sectorId, setSectorId] = useState('');
+  const [direction, setDirection] = useState<AlertDirection>('above');
+  const [threshold, setThreshold] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const res = await authFetch('/api/alerts');
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Failed to load alert rules');
+      setRules(data.rules);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchRules();
+  }, [user, fetchRules]);
+
+  useEffect(() => {
+    async function fetchSectors() {
+      try {
+        const res = await fetch('/api/settrade/industry-sector');
+        if (!res.ok) return;
+        const data: IndustrySectorResponse = await res.json();
+        setSectors(data.sectors);
+      } catch (err) {
+        console.error('Error fetching sectors:', err);
+      }
+    }
+    fetchSectors();
+  }, []);
+
+  const needsThreshold = type === 'price' || type === 'sectorChange' || type === 'canslimScore';
+
+  const handleTypeChange = (next: AlertRuleType) => {
+    setType(next);
+    setFormError(null);
+    // A score of 70 is the usual CAN SLIM buy-candidate cut-off
+    setThreshold(next === 'canslimScore' ? '70' : '');
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const body: Record<string, unknown> = { type };
+    if (type === 'price' || type === 'canslimScore') {
+      const input = symbol.trim();
+      body.symbol = input ? normalizeSymbol(input, MARKET_EXCHANGES[preferences.defaultMarket]) ?? input : '';
+    }
+    if (type === 'sectorChange' && sectorId) body.sectorId = sectorId;
+    if (needsThreshold) {
+      body.direction = direction;
+      body.threshold = threshold.trim() === '' ? NaN : Number(threshold);
+    }
+
+    try {
+      setSaving(true);
+      setFormError(null);
+      const res = await authFetch('/api/alerts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const created = await res.json();
+      if (!res.ok) throw new Error(created.details || created.error || 'Failed to create alert');
+
+      setRules((prev) => [...prev, created]);
+      setSymbol('');
+      setThreshold('');
+    } catch (err) {
+      setFormError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    try {
+      setError(null);
+      const res = await authFetch(`/api/alerts/${rule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      const updated = await res.json();
+      if (!res.ok) throw new Error(updated.details || updated.error || 'Failed to update alert');
+
+      setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, enabled: updated.enabled } : r)));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!window.confirm(`Delete alert "${describeAlertRule(rule)}"?`)) return;
+
+    try {
+      setError(null);
+      const res = await authFetch(`/api/alerts/${rule.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete alert');
+
+      setRules((prev) => prev.filter((r) => r.id !== rule.id));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100 mb-6">Alerts</h1>
+        <SignInPrompt feature="alerts" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">Alerts</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Rules are checked on a schedule during market hours; triggered alerts appear under the bell in the header
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card title="New Alert">
+          <form onSubmit={handleCreate} className="space-y-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Alert on</label>
+              <select value={type} onChange={(e) => handleTypeChange(e.target.value as AlertRuleType)} className={inputClass}>
+                {ALERT_RULE_TYPES.map((key) => (
+                  <option key={key} value={key}>
+                    {TYPE_LABELS[key]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {(type === 'price' || type === 'canslimScore') && (
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Symbol</label>
+                <input
+                  type="text"
+                  value={symbol}
+                  onChange={(e) => setSymbol(e.target.value)}
+                  placeholder={type === 'canslimScore' ? 'Blank = every watchlisted stock' : 'e.g. PTT.BK'}
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            {type === 'sectorChange' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Sector</label>
+                <select value={sectorId} onChange={(e) => setSectorId(e.target.value)} className={inputClass}>
+                  <option value="">Any sector</option>
+                  {sectors.map((sector) => (
+                    <option key={sector.id} value={sector.id}>
+                      {sector.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {needsThreshold && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Crosses</label>
+                  <select
+                    value={direction}
+                    onChange={(e) => setDirection(e.target.value as AlertDirection)}
+                    className={inputClass}
+                  >
+                    <option value="above">Above</option>
+                    <option value="below">Below</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">Threshold</label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                    placeholder={THRESHOLD_HINTS[type]}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+
+            {formError && <p className="text-xs text-red-600">{formError}</p>}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="w-full px-4 py-2 text-sm font-medium text-white bg-[#1e3a5f] rounded-md hover:bg-[#2a4a73] disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Create Alert'}
+            </button>
+          </form>
+        </Card>
+
+        <div className="lg:col-span-2">
+          <Card title="Alert Rules" subtitle={`${rules.length} rule${rules.length === 1 ? '' : 's'}`}>
+            {error && <p className="text-xs text-red-600 mb-3">{error}</p>}
+            {loading && rules.length === 0 ? (
+              <div className="animate-pulse space-y-3">
+                {[...Array(3)].map((_, i) => (
+                  <div key={i} className="h-10 bg-gray-200 dark:bg-gray-800 rounded"></div>
+                ))}
+              </div>
+            ) : rules.length > 0 ? (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                {rules.map((rule) => (
+                  <li key={rule.id} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{describeAlertRule(rule)}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {rule.lastTriggeredAt
+                          ? `Last triggered ${new Date(rule.lastTriggeredAt).toLocaleString()}`
+                          : 'Not triggered yet'}
+                      </p>
+                    </div>
+                    <button type="button" onClick={() => handleToggle(rule)} aria-label={rule.enabled ? 'Pause alert' : 'Resume alert'}>
+                      <StatusBadge status={rule.enabled ? 'success' : 'neutral'}>{rule.enabled ? 'Active' : 'Paused'}</StatusBadge>
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(rule)}
+                      className="p-1.5 text-gray-400 hover:text-red-600"
+                      aria-label={`Delete ${describeAlertRule(rule)}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No alert rules yet. Create one to get notified.</p>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * API Route: /api/alerts/[id]
+ * PATCH  - enable or disable a rule (body: { enabled })
+ * DELETE - delete a rule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { deleteAlertRule, setAlertRuleEnabled } from '@/lib/firebase/alerts';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use alerts' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+
+    if (!/^[A-Za-z0-9_-]+$/.test(id) || typeof body?.enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', details: 'A valid rule id and enabled (boolean) are required' },
+        { status: 400 }
+      );
+    }
+
+    const rule = await setAlertRuleEnabled(session, id, body.enabled);
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'Alert rule not found', details: `No alert rule with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('Error in /api/alerts/[id]:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alert rule', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use alerts' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', details: 'Invalid alert rule id' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteAlertRule(session, id);
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Alert rule not found', details: `No alert rule with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id, deleted: true });
+  } catch (error) {
+    console.error('Error in /api/alerts/[id]:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alert rule', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * API Route: /api/alerts/evaluate
+ * GET  - scheduled run: evaluate every user's alert rules
+ *        (Authorization: Bearer <CRON_SECRET>; needs FIREBASE_DATABASE_SECRET)
+ * POST - evaluate the signed-in user's rules now
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSession, getUserSession, isCronRequest } from '@/lib/firebase/session';
+import { getUserIds } from '@/lib/firebase/alerts';
+import { runAlerts } from '@/lib/alerts/runner';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'A valid CRON_SECRET bearer token is required' },
+        { status: 401 }
+      );
+    }
+
+    const root = getServiceSession('');
+    if (!root) {
+      return NextResponse.json(
+        { error: 'Alerts not configured', details: 'FIREBASE_DATABASE_SECRET is required for scheduled alerts' },
+        { status: 500 }
+      );
+    }
+
+    const uids = await getUserIds(root);
+    let evaluated = 0;
+    let triggered = 0;
+    const failed: string[] = [];
+
+    // One user at a time; quotes and scores are cached across users
+    for (const uid of uids) {
+      try {
+        const result = await runAlerts(getServiceSession(uid)!);
+        evaluated += result.evaluated;
+        triggered += result.notifications.length;
+      } catch (error) {
+        console.error(`Alerts: evaluation failed for ${uid}:`, error);
+        failed.push(uid);
+      }
+    }
+
+    return NextResponse.json({ users: uids.length, evaluated, triggered, failed: failed.length, timestamp: Date.now() });
+  } catch (error) {
+    console.error('Error in /api/alerts/evaluate:', error);
+    return NextResponse.json(
+      { error: 'Failed to evaluate alerts', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use alerts' },
+        { status: 401 }
+      );
+    }
+
+    const result = await runAlerts(session);
+    return NextResponse.json({ ...result, timestamp: Date.now() });
+  } catch (error) {
+    console.error('Error in /api/alerts/evaluate:', error);
+    return NextResponse.json(
+      { error: 'Failed to evaluate alerts', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
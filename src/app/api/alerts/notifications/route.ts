@@ -0,0 +1,64 @@
+/**
+ * API Route: /api/alerts/notifications
+ * GET   - triggered notifications, newest first, with the unread count
+ * PATCH - mark notifications read (body: { ids? }; all when ids is omitted)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { getNotifications, markNotificationsRead } from '@/lib/firebase/alerts';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use alerts' },
+        { status: 401 }
+      );
+    }
+
+    const notifications = await getNotifications(session);
+    return NextResponse.json({
+      notifications,
+      unread: notifications.filter((notification) => !notification.read).length,
+    });
+  } catch (error) {
+    console.error('Error in /api/alerts/notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch notifications', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use alerts' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const ids = body?.ids;
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id) => typeof id === 'string'))) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: 'ids must be an array of notification ids' },
+        { status: 400 }
+      );
+    }
+
+    await markNotificationsRead(session, ids);
+    return NextResponse.json({ read: true });
+  } catch (error) {
+    console.error('Error in /api/alerts/notifications:', error);
+    return NextResponse.json(
+      { error: 'Failed to update notifications', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * API Route: /api/alerts
+ * GET  - list alert rules
+ * POST - create an alert rule (body: { type, symbol?, sectorId?, direction?, threshold? })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { createAlertRule, getAlertRules } from '@/lib/firebase/alerts';
+import { parseAlertRuleInput } from '@/lib/alerts/alerts';
+
+const MAX_RULES = 50;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use alerts' },
+        { status: 401 }
+      );
+    }
+
+    const rules = await getAlertRules(session);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Error in /api/alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch alert rules', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use alerts' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { rule: input, error } = parseAlertRuleInput(body);
+
+    if (!input) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', details: error },
+        { status: 400 }
+      );
+    }
+
+    if ((await getAlertRules(session)).length >= MAX_RULES) {
+      return NextResponse.json(
+        { error: 'Invalid alert rule', details: `At most ${MAX_RULES} alert rules are allowed` },
+        { status: 400 }
+      );
+    }
+
+    const rule = await createAlertRule(session, input);
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error('Error in /api/alerts:', error);
+    return NextResponse.json(
+      { error: 'Failed to create alert rule', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
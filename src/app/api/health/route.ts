@@ -5,15 +5,19 @@
  * Use this endpoint to verify:
  * - API is reachable
  * - Environment is configured correctly
- * - Stock API provider is ready
+ * - Stock API provider is ready (fallback chain and circuit breaker states)
+ * - Cache backend and hit/miss stats (per server instance)
  */
 
 import { NextResponse } from 'next/server';
 import { getApiValidationStatus, getApiProvider, validateApiKey } from '@/lib/api/stock-api';
+import { getCacheStats } from '@/lib/api/cache';
+import { getProviderStatus } from '@/lib/api/providers';
 
 export async function GET() {
   const validationStatus = getApiValidationStatus();
   const provider = getApiProvider();
+  const cache = await getCacheStats();
 
   return NextResponse.json({
     status: 'ok',
@@ -22,7 +26,9 @@ export async function GET() {
       provider,
       configured: validationStatus.valid,
       message: validationStatus.message,
+      chain: getProviderStatus(),
     },
+    cache,
     endpoints: {
       stockQuote: '/api/stock/[symbol]/quote',
       stockFundamentals: '/api/stock/[symbol]/fundamentals',
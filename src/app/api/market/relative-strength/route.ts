@@ -0,0 +1,37 @@
+/**
+ * API Route: /api/market/relative-strength
+ * GET - latest stored RS ratings for the screener universe, highest first
+ *
+ * Query params:
+ * - minRS: lowest RS rating to include (1-99)
+ * - newHigh: true to keep only symbols whose RS line is at a 52-week high
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLatestRelativeStrength } from '@/lib/firebase/relative-strength';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const minRS = params.get('minRS')?.trim() ? Number(params.get('minRS')) : NaN;
+    const newHigh = params.get('newHigh') === 'true' || params.get('newHigh') === '1';
+
+    const entries = (await getLatestRelativeStrength()).filter(
+      (entry) =>
+        (!isFinite(minRS) || (entry.rsRating !== null && entry.rsRating >= minRS)) &&
+        (!newHigh || entry.rsLineNewHigh)
+    );
+
+    return NextResponse.json({
+      entries,
+      date: entries.reduce<string | null>((latest, entry) => (!latest || entry.date > latest ? entry.date : latest), null),
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Error in /api/market/relative-strength:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch relative strength', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * API Route: /api/market/relative-strength/update
+ * GET - scheduled run: rate the screener universe and store the day's RS values
+ *       (Authorization: Bearer <CRON_SECRET>; needs FIREBASE_DATABASE_SECRET)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServiceSession, isCronRequest } from '@/lib/firebase/session';
+import { runRelativeStrengthUpdate } from '@/lib/screener/relative-strength';
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'A valid CRON_SECRET bearer token is required' },
+        { status: 401 }
+      );
+    }
+
+    const root = getServiceSession('');
+    if (!root) {
+      return NextResponse.json(
+        { error: 'Relative strength not configured', details: 'FIREBASE_DATABASE_SECRET is required to store ratings' },
+        { status: 500 }
+      );
+    }
+
+    const result = await runRelativeStrengthUpdate(root);
+    return NextResponse.json({
+      rated: result.rated,
+      stored: result.stored,
+      failed: result.failed,
+      timestamp: Date.now(),
+    });
+  } catch (error) {
+    console.error('Error in /api/market/relative-strength/update:', error);
+    return NextResponse.json(
+      { error: 'Failed to update relative strength', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
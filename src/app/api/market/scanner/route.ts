@@ -1,92 +1,133 @@
 /**
  * API Route: Stock scanner
  * GET /api/market/scanner
- * Query params:
- * - marketCap: micro, small, mid, large, mega
- * - sector: technology, healthcare, finance, etc.
- * - minPE, maxPE: P/E ratio range
- * - minDiv, maxDiv: Dividend yield range
+ * POST /api/market/scanner  (body: ScreenerQuery)
+ *
+ * Screens a universe of SET stocks (sector peer groups + SETTRADE top rankings,
+ * or an explicit `symbols` list, bare codes read as SET) against StockScreenerCriteria.
+ * Fundamentals, CAN SLIM / SPEA scores, the trend template, the Weinstein stage
+ * and the stored RS rating are precomputed and cached per symbol;
+ * prices come from a live batch quote.
+ *
+ * GET query params:
+ * - marketCap: micro, small, mid, large, mega (or minMarketCap / maxMarketCap)
+ * - sector, industry: comma-separated
+ * - minPE, maxPE, minPB, maxPB, minDiv, maxDiv, minROE, maxROE, minDE, maxDE
+ * - minRevenueGrowth, maxRevenueGrowth, minEpsGrowth, maxEpsGrowth (percent)
+ * - minCanslim, minSpea
+ * - trendTemplate: true to keep only stocks passing the Minervini trend template
+ * - stage: comma-separated Weinstein stages (1-4), e.g. stage=2
+ * - minRS: lowest RS rating (1-99); rsNewHigh: true to keep RS lines at a 52-week high
+ * - sort: ScreenerSortKey, or gainers / losers; order: asc / desc
+ * - page, pageSize, symbols
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { validateApiKey } from '@/lib/api/stock-api';
+import { getQuotes } from '@/lib/api/quotes';
+import { getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { getLatestTopRankings } from '@/lib/firebase/settrade';
+import { getLatestRelativeStrength } from '@/lib/firebase/relative-strength';
+import { isScreenerSortKey, parseScreenerCriteria, parseScreenerParams, screenStocks } from '@/lib/screener/screener';
+import { buildScreenerUniverse, loadScreenerSnapshots, MAX_UNIVERSE_SIZE } from '@/lib/screener/universe';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import type { Quote, ScreenerQuery } from '@/types/market';
 
-// MVP: Placeholder screener data
-// Production: This would query actual database or API screener endpoint
+/**
+ * Resolve the universe, load snapshots and quotes, and run the screen
+ */
+async function runScreener(query: ScreenerQuery) {
+  const symbols = query.symbols?.length
+    ? Array.from(new Set(query.symbols.map((s) => normalizeSymbol(s, 'SET')).filter((s): s is string => s !== null)))
+        .slice(0, MAX_UNIVERSE_SIZE)
+    : buildScreenerUniverse(await getLatestTopRankings());
+
+  const ratings = await getLatestRelativeStrength();
+  const relativeStrength = Object.fromEntries(ratings.map((entry) => [entry.symbol, entry]));
+
+  const [snapshots, quotes] = await Promise.all([
+    loadScreenerSnapshots(symbols, relativeStrength),
+    getQuotes(symbols).catch((error): Quote[] => {
+      console.warn('Screener: batch quote failed:', (error as Error).message);
+      return [];
+    }),
+  ]);
+
+  const quotesBySymbol = new Map(quotes.map((quote) => [quote.symbol.toUpperCase(), quote]));
+  return screenStocks(snapshots, quotesBySymbol, query);
+}
+
+function configurationError() {
+  const validationStatus = getApiValidationStatus();
+  if (validationStatus.valid) return null;
+
+  return NextResponse.json(
+    {
+      error: 'Stock API configuration error',
+      details: validationStatus.message,
+      provider: getApiProvider(),
+    },
+    { status: 500 }
+  );
+}
+
+function screenerError(error: unknown) {
+  console.error('Error running scanner:', error);
+  return NextResponse.json(
+    {
+      error: 'Failed to run scanner',
+      details: (error as Error).message,
+      provider: getApiProvider(),
+    },
+    { status: 500 }
+  );
+}
 
 export async function GET(request: NextRequest) {
   try {
-    // Validate API key
-    if (!validateApiKey()) {
-      return NextResponse.json(
-        { error: 'API key not configured' },
-        { status: 500 }
-      );
-    }
-
-    const searchParams = request.nextUrl.searchParams;
-    const marketCap = searchParams.get('marketCap');
-    const sector = searchParams.get('sector');
-    const minPE = searchParams.get('minPE');
-    const maxPE = searchParams.get('maxPE');
+    const configError = configurationError();
+    if (configError) return configError;
 
-    // MVP: Return placeholder screener results
-    // In production, this would use Financial Modeling Prep's screener API
-    const results = [
-      {
-        symbol: 'AAPL',
-        name: 'Apple Inc.',
-        price: 178.50,
-        changePercent: 1.25,
-        marketCap: 2800000000000,
-        peRatio: 28.5,
-        volume: 52000000,
-      },
-      {
-        symbol: 'MSFT',
-        name: 'Microsoft Corporation',
-        price: 378.90,
-        changePercent: 0.95,
-        marketCap: 2750000000000,
-        peRatio: 35.2,
-        volume: 22000000,
-      },
-      {
-        symbol: 'GOOGL',
-        name: 'Alphabet Inc.',
-        price: 141.80,
-        changePercent: -0.45,
-        marketCap: 1780000000000,
-        peRatio: 25.1,
-        volume: 18000000,
-      },
-    ];
+    const query = parseScreenerParams(request.nextUrl.searchParams);
+    return NextResponse.json(await runScreener(query));
+  } catch (error) {
+    return screenerError(error);
+  }
+}
 
-    // Apply basic filters (MVP implementation)
-    let filtered = results;
+export async function POST(request: NextRequest) {
+  try {
+    const configError = configurationError();
+    if (configError) return configError;
 
-    if (minPE) {
-      filtered = filtered.filter((r) => r.peRatio >= parseFloat(minPE));
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json(
+        {
+          error: 'Invalid request',
+          details: 'Body must be a JSON object with a criteria object',
+        },
+        { status: 400 }
+      );
     }
-    if (maxPE) {
-      filtered = filtered.filter((r) => r.peRatio <= parseFloat(maxPE));
+
+    const { criteria, error } = parseScreenerCriteria(body.criteria);
+    if (!criteria) {
+      return NextResponse.json({ error: 'Invalid criteria', details: error }, { status: 400 });
     }
 
-    return NextResponse.json({
-      results: filtered,
-      total: filtered.length,
-      filters: {
-        marketCap,
-        sector,
-        minPE,
-        maxPE,
-      },
-    });
+    const query: ScreenerQuery = {
+      criteria,
+      sort: isScreenerSortKey(body.sort) ? body.sort : undefined,
+      order: body.order === 'asc' || body.order === 'desc' ? body.order : undefined,
+      page: typeof body.page === 'number' ? body.page : undefined,
+      pageSize: typeof body.pageSize === 'number' ? body.pageSize : undefined,
+      symbols: Array.isArray(body.symbols)
+        ? body.symbols.filter((s: unknown): s is string => typeof s === 'string' && s.trim() !== '')
+        : undefined,
+    };
+
+    return NextResponse.json(await runScreener(query));
   } catch (error) {
-    console.error('Error running scanner:', error);
-    return NextResponse.json(
-      { error: 'Failed to run scanner', details: (error as Error).message },
-      { status: 500 }
-    );
+    return screenerError(error);
   }
 }
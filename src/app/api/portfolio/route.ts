@@ -0,0 +1,54 @@
+/**
+ * API Route: /api/portfolio
+ * GET - holdings derived from the transaction log, revalued at live quotes
+ *
+ * Query params:
+ * - currency: base currency for totals (THB | USD | HKD | CNY | JPY); defaults to
+ *   the user's currency preference
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { getApiProvider } from '@/lib/api/stock-api';
+import { getTransactions } from '@/lib/firebase/portfolio';
+import { getPreferences } from '@/lib/firebase/preferences';
+import { CURRENCIES } from '@/lib/portfolio/portfolio';
+import { loadPortfolioSummary } from '@/lib/portfolio/valuation';
+import type { Currency, PortfolioResponse } from '@/types/portfolio';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use the portfolio' },
+        { status: 401 }
+      );
+    }
+
+    const requested = request.nextUrl.searchParams.get('currency');
+    const currency = (requested ? requested.toUpperCase() : (await getPreferences(session)).currency) as Currency;
+
+    if (!CURRENCIES.includes(currency)) {
+      return NextResponse.json(
+        { error: 'Invalid currency', details: `currency must be one of: ${CURRENCIES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const transactions = await getTransactions(session);
+    const response: PortfolioResponse = {
+      summary: await loadPortfolioSummary(transactions, currency),
+      transactions,
+      provider: getApiProvider(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in /api/portfolio:', error);
+    return NextResponse.json(
+      { error: 'Failed to load portfolio', details: (error as Error).message, provider: getApiProvider() },
+      { status: 500 }
+    );
+  }
+}
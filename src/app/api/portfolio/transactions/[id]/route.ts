@@ -0,0 +1,61 @@
+/**
+ * API Route: /api/portfolio/transactions/[id]
+ * DELETE - remove a transaction
+ *
+ * Rejected with 400 when a later sell would then exceed the shares held
+ * (e.g. deleting the buy a sell depends on).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { deleteTransaction, getTransactions } from '@/lib/firebase/portfolio';
+import { findLedgerError } from '@/lib/portfolio/portfolio';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use the portfolio' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid transaction', details: 'Invalid transaction id' },
+        { status: 400 }
+      );
+    }
+
+    const transactions = await getTransactions(session);
+    if (!transactions.some((tx) => tx.id === id)) {
+      return NextResponse.json(
+        { error: 'Transaction not found', details: `No transaction with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const ledgerError = findLedgerError(transactions.filter((tx) => tx.id !== id));
+    if (ledgerError) {
+      return NextResponse.json(
+        { error: 'Cannot delete transaction', details: ledgerError },
+        { status: 400 }
+      );
+    }
+
+    await deleteTransaction(session, id);
+    return NextResponse.json({ id, deleted: true });
+  } catch (error) {
+    console.error('Error in /api/portfolio/transactions/[id]:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete transaction', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
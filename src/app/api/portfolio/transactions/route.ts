@@ -0,0 +1,57 @@
+/**
+ * API Route: /api/portfolio/transactions
+ * POST - record a transaction
+ *   body: { symbol, type: buy|sell|dividend|split, date: YYYY-MM-DD,
+ *           shares?, price?, fees?, amount?, ratio?, notes? }
+ *
+ * Rejected with 400 when it would sell more shares than held at that date.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { addTransaction, getTransactions } from '@/lib/firebase/portfolio';
+import { findLedgerError, parseTransactionInput } from '@/lib/portfolio/portfolio';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use the portfolio' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { transaction: input, error } = parseTransactionInput(body);
+
+    if (!input) {
+      return NextResponse.json(
+        { error: 'Invalid transaction', details: error },
+        { status: 400 }
+      );
+    }
+
+    const candidate = { ...input, createdAt: Date.now() };
+    const ledgerError = findLedgerError([
+      ...(await getTransactions(session)),
+      { ...candidate, id: 'new' },
+    ]);
+
+    if (ledgerError) {
+      return NextResponse.json(
+        { error: 'Invalid transaction', details: ledgerError },
+        { status: 400 }
+      );
+    }
+
+    const transaction = await addTransaction(session, candidate);
+    return NextResponse.json(transaction);
+  } catch (error) {
+    console.error('Error in /api/portfolio/transactions:', error);
+    return NextResponse.json(
+      { error: 'Failed to save transaction', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
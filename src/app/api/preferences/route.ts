@@ -0,0 +1,62 @@
+/**
+ * API Route: /api/preferences
+ * GET   - the signed-in user's preferences (defaults for unsaved fields)
+ * PATCH - update preferences (body: { defaultMarket?, currency?, theme? })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { getPreferences, updatePreferences } from '@/lib/firebase/preferences';
+import { parsePreferencesUpdate } from '@/lib/preferences/preferences';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use preferences' },
+        { status: 401 }
+      );
+    }
+
+    const preferences = await getPreferences(session);
+    return NextResponse.json(preferences);
+  } catch (error) {
+    console.error('Error in /api/preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch preferences', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use preferences' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { update, error } = parsePreferencesUpdate(body);
+
+    if (!update) {
+      return NextResponse.json(
+        { error: 'Invalid preferences', details: error },
+        { status: 400 }
+      );
+    }
+
+    const preferences = await updatePreferences(session, update);
+    return NextResponse.json(preferences);
+  } catch (error) {
+    console.error('Error in /api/preferences:', error);
+    return NextResponse.json(
+      { error: 'Failed to save preferences', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API Route: /api/screener/screens/[id]
+ * DELETE - remove a saved screen
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { deleteScreen } from '@/lib/firebase/screens';
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use saved screens' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!/^[A-Za-z0-9_-]+$/.test(id)) {
+      return NextResponse.json(
+        { error: 'Invalid screen', details: 'Invalid screen id' },
+        { status: 400 }
+      );
+    }
+
+    await deleteScreen(session, id);
+    return NextResponse.json({ id, deleted: true });
+  } catch (error) {
+    console.error('Error in /api/screener/screens/[id]:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete screen', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
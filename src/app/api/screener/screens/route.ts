@@ -0,0 +1,95 @@
+/**
+ * API Route: /api/screener/screens
+ * GET  - list saved screens
+ * POST - create or update a saved screen (body: { id?, name, criteria, sort?, order? });
+ *        400 for criteria the screener would reject, 404 when `id` names a
+ *        screen that does not exist
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { getSavedScreens, saveScreen } from '@/lib/firebase/screens';
+import { isScreenerSortKey, parseScreenerCriteria } from '@/lib/screener/screener';
+
+const MAX_NAME_LENGTH = 80;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use saved screens' },
+        { status: 401 }
+      );
+    }
+
+    const screens = await getSavedScreens(session);
+    return NextResponse.json({ screens });
+  } catch (error) {
+    console.error('Error in /api/screener/screens:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch saved screens' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use saved screens' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (!name || name.length > MAX_NAME_LENGTH || body.criteria === undefined) {
+      return NextResponse.json(
+        {
+          error: 'Invalid screen',
+          details: `A name (max ${MAX_NAME_LENGTH} characters) and a criteria object are required`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { criteria, error } = parseScreenerCriteria(body.criteria);
+    if (!criteria) {
+      return NextResponse.json({ error: 'Invalid criteria', details: error }, { status: 400 });
+    }
+
+    if (body.id !== undefined && (typeof body.id !== 'string' || !/^[A-Za-z0-9_-]+$/.test(body.id))) {
+      return NextResponse.json(
+        { error: 'Invalid screen', details: 'Invalid screen id' },
+        { status: 400 }
+      );
+    }
+
+    const screen = await saveScreen(session, {
+      id: body.id,
+      name,
+      criteria,
+      sort: isScreenerSortKey(body.sort) ? body.sort : undefined,
+      order: body.order === 'asc' || body.order === 'desc' ? body.order : undefined,
+    });
+
+    if (!screen) {
+      return NextResponse.json(
+        { error: 'Screen not found', details: `No saved screen with id ${body.id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(screen);
+  } catch (error) {
+    console.error('Error in /api/screener/screens:', error);
+    return NextResponse.json(
+      { error: 'Failed to save screen', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
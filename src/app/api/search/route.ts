@@ -0,0 +1,57 @@
+/**
+ * API Route: /api/search
+ * GET ?q=ptt&limit=8&market=TH
+ * Returns symbols matching a symbol or company name, from the local symbol
+ * master first and Yahoo Finance search after
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchAllSymbols } from '@/lib/search/search';
+import { MARKET_EXCHANGE } from '@/lib/search/symbols';
+import type { SearchMarket, SymbolSearchResponse } from '@/types/search';
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 20;
+const MAX_QUERY_LENGTH = 50;
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (!query || query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json(
+        { error: 'Invalid query', details: `q is required (up to ${MAX_QUERY_LENGTH} characters)` },
+        { status: 400 }
+      );
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam ? parseInt(limitParam, 10) : DEFAULT_LIMIT;
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: 'Invalid limit', details: `limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      );
+    }
+
+    const market = searchParams.get('market') as SearchMarket | null;
+    if (market && !Object.prototype.hasOwnProperty.call(MARKET_EXCHANGE, market)) {
+      return NextResponse.json(
+        { error: 'Invalid market', details: `market must be one of: ${Object.keys(MARKET_EXCHANGE).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const results = await searchAllSymbols(query, { limit, preferredMarket: market ?? undefined });
+    const response: SymbolSearchResponse = { query, results };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in /api/search:', error);
+    return NextResponse.json(
+      { error: 'Failed to search symbols', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
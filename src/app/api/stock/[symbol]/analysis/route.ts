@@ -3,18 +3,31 @@
  * GET /api/stock/[symbol]/analysis
  *
  * Returns CAN SLIM, SPEA, Value, Growth, and Quality scores
+ *
+ * Query params:
+ * - weights: optional framework weight overrides, e.g. "canslim:40,value:20"
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getQuote } from '@/lib/api/quotes';
 import { getCompanyMetrics, getCompanyProfile } from '@/lib/api/fundamentals';
-import { getFinancialStatements } from '@/lib/api/statements';
+import { getFinancialStatements, getQuarterlyEarnings, type FinancialStatements } from '@/lib/api/statements';
+import { getHistoricalPrices } from '@/lib/api/historical';
 import { validateApiKey } from '@/lib/api/stock-api';
 import { calculateCanslimScore } from '@/lib/analysis/canslim';
 import { calculateSpeaScore } from '@/lib/analysis/spea';
 import { calculateValueMetrics } from '@/lib/analysis/value-scoring';
 import { calculateGrowthMetrics } from '@/lib/analysis/growth-scoring';
-import { calculateQualityMetrics } from '@/lib/analysis/quality-scoring';
+import { calculateQualityMetrics, scoreQualityMetrics } from '@/lib/analysis/quality-scoring';
+import { analyzePatterns } from '@/lib/technical/patterns';
+import { getRelativeStrength } from '@/lib/firebase/relative-strength';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import {
+  aggregateFrameworkScores,
+  parseFrameworkWeights,
+  scoreGrowthMetrics,
+  scoreValueMetrics,
+} from '@/lib/decision/aggregators/framework-aggregator';
 import type { AnalysisSummary } from '@/types/analysis';
 import type { AnnualData, QuarterlyData } from '@/types/financials';
 
@@ -32,14 +45,46 @@ export async function GET(
     }
 
     const { symbol } = await params;
-    const upperSymbol = symbol.toUpperCase();
+    const upperSymbol = normalizeSymbol(symbol);
+    if (!upperSymbol) {
+      return NextResponse.json(
+        { error: 'Invalid symbol', details: `Not a valid stock symbol: ${symbol}` },
+        { status: 400 }
+      );
+    }
+
+    const weights = parseFrameworkWeights(request.nextUrl.searchParams.get('weights'));
+    if (!weights) {
+      return NextResponse.json(
+        { error: 'Invalid weights', details: 'Use framework:weight pairs, e.g. canslim:40,value:20' },
+        { status: 400 }
+      );
+    }
 
     // Fetch all necessary data
-    const [quote, metrics, profile, statements] = await Promise.all([
+    // Statements are optional: without them the annual frameworks score on metrics alone
+    // Quarterly earnings are optional: without them CAN SLIM "C" scores 0
+    // Prices are optional too: without them CAN SLIM sees no base breakout
+    // The RS rating comes from the daily update; unrated symbols score "L" on quality proxies
+    const [quote, metrics, profile, statements, quarterlyData, historical, relativeStrength] = await Promise.all([
       getQuote(upperSymbol),
       getCompanyMetrics(upperSymbol),
       getCompanyProfile(upperSymbol),
-      getFinancialStatements(upperSymbol),
+      getFinancialStatements(upperSymbol).catch((error): FinancialStatements => {
+        console.warn(`Financial statements unavailable for ${upperSymbol}:`, (error as Error).message);
+        return { incomeStatement: [], balanceSheet: [], cashFlow: [] };
+      }),
+      getQuarterlyEarnings(upperSymbol)
+        .then((result) => result.data)
+        .catch((error): QuarterlyData[] => {
+          console.warn(`Quarterly earnings unavailable for ${upperSymbol}:`, (error as Error).message);
+          return [];
+        }),
+      getHistoricalPrices(upperSymbol, '2y').catch((error) => {
+        console.warn(`Historical prices unavailable for ${upperSymbol}:`, (error as Error).message);
+        return null;
+      }),
+      getRelativeStrength(upperSymbol),
     ]);
 
     // Convert financial statements to AnnualData format
@@ -57,10 +102,6 @@ export async function GET(
       };
     });
 
-    // For quarterly data, we'd need a separate call
-    // For now, use empty array
-    const quarterlyData: QuarterlyData[] = [];
-
     // Calculate CAN SLIM score
     const canslimInput = {
       symbol: upperSymbol,
@@ -78,6 +119,8 @@ export async function GET(
       hasRecentNews: false, // Would need news API for this
       institutionalOwnership: undefined, // Would need additional data source
       marketTrend: 'neutral' as const, // Would need market data
+      basePattern: historical ? analyzePatterns(historical.data).current : null,
+      rsRating: relativeStrength?.rsRating ?? null,
     };
     const canslim = calculateCanslimScore(canslimInput);
 
@@ -115,13 +158,17 @@ export async function GET(
     };
     const qualityMetrics = calculateQualityMetrics(qualityInput);
 
-    // Calculate overall score (weighted average)
-    const overallScore =
-      canslim.totalScore * 0.35 +
-      spea.totalScore * 0.35 +
-      growthMetrics.consistencyScore * 0.15 +
-      // Using quality as proxy for value + quality
-      qualityMetrics.altmanZScore > 2.7 ? 85 * 0.15 : 50 * 0.15;
+    // Calculate overall score (weighted average of all frameworks)
+    const { overallScore, contributions } = aggregateFrameworkScores(
+      {
+        canslim: canslim.totalScore,
+        spea: spea.totalScore,
+        value: scoreValueMetrics(valueMetrics),
+        growth: scoreGrowthMetrics(growthMetrics),
+        quality: scoreQualityMetrics(qualityMetrics),
+      },
+      weights
+    );
 
     const analysis: AnalysisSummary = {
       symbol: upperSymbol,
@@ -130,7 +177,8 @@ export async function GET(
       valueMetrics,
       growthMetrics,
       qualityMetrics,
-      overallScore: Math.round(overallScore),
+      overallScore,
+      scoreBreakdown: contributions,
     };
 
     return NextResponse.json(analysis);
@@ -0,0 +1,158 @@
+/**
+ * API Route: Strategy backtest
+ * GET  /api/stock/[symbol]/backtest?strategy=value-timing&period=5y&capital=1000000&commission=0.15
+ * POST /api/stock/[symbol]/backtest
+ *   Body: { preset?: string, strategy?: BacktestStrategy, period?: string, options?: BacktestOptions }
+ *
+ * Replays a preset (value-timing, canslim, decision-rating) or a custom strategy
+ * day by day over the symbol's price history with the decision engine and
+ * returns trades, the equity curve and performance metrics (lib/backtest).
+ * Returns 400 for an invalid strategy, option or period, or too little history
+ * to get past the warm-up; 404 when no provider has prices for the symbol.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { BACKTEST_DEFAULTS, runBacktest } from '@/lib/backtest/backtest';
+import { BACKTEST_PERIODS, loadBacktestContext } from '@/lib/backtest/loader';
+import { STRATEGY_PRESETS, parseBacktestOptions, parseBacktestStrategy } from '@/lib/backtest/strategy';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import type { BacktestOptions, BacktestStrategy } from '@/types/backtest';
+import type { HistoricalPeriod } from '@/types/market';
+
+const DEFAULT_PERIOD: HistoricalPeriod = '5y';
+
+function badRequest(error: string, details: string) {
+  return NextResponse.json({ error, details }, { status: 400 });
+}
+
+function numberParam(value: string | null): number | undefined {
+  return value === null || value === '' ? undefined : Number(value);
+}
+
+async function backtest(
+  symbol: string,
+  strategy: BacktestStrategy,
+  period: unknown,
+  options: BacktestOptions
+) {
+  const validationStatus = getApiValidationStatus();
+  if (!validationStatus.valid) {
+    return NextResponse.json(
+      {
+        error: 'Stock API configuration error',
+        details: validationStatus.message,
+        provider: getApiProvider(),
+      },
+      { status: 500 }
+    );
+  }
+
+  const upperSymbol = normalizeSymbol(symbol) ?? '';
+  if (!upperSymbol) {
+    return badRequest('Invalid symbol', `Not a valid stock symbol: ${symbol}`);
+  }
+
+  const historyPeriod = (period ?? DEFAULT_PERIOD) as HistoricalPeriod;
+  if (!BACKTEST_PERIODS.includes(historyPeriod)) {
+    return badRequest('Invalid period', `period must be one of: ${BACKTEST_PERIODS.join(', ')}`);
+  }
+
+  const loaded = await loadBacktestContext(upperSymbol, historyPeriod);
+  if (!loaded) {
+    return NextResponse.json(
+      {
+        error: 'No price history',
+        details: `No provider has historical prices for ${upperSymbol}`,
+      },
+      { status: 404 }
+    );
+  }
+
+  const warmupBars = options.warmupBars ?? BACKTEST_DEFAULTS.warmupBars;
+  if (loaded.context.bars.length <= warmupBars + 1) {
+    return badRequest(
+      'Not enough history',
+      `${upperSymbol} has ${loaded.context.bars.length} bars for ${historyPeriod}; the backtest needs more than ${warmupBars + 1}`
+    );
+  }
+
+  return NextResponse.json({
+    ...runBacktest(loaded.context, strategy, options),
+    period: historyPeriod,
+    provider: loaded.provider,
+  });
+}
+
+function presetStrategy(preset: string): BacktestStrategy | null {
+  return Object.prototype.hasOwnProperty.call(STRATEGY_PRESETS, preset) ? STRATEGY_PRESETS[preset] : null;
+}
+
+function failed(error: unknown) {
+  const errorMessage = (error as Error).message;
+  console.error('Error running backtest:', errorMessage);
+  return NextResponse.json(
+    {
+      error: 'Failed to run backtest',
+      details: errorMessage,
+      provider: getApiProvider(),
+    },
+    { status: 500 }
+  );
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params;
+    const { searchParams } = request.nextUrl;
+
+    const preset = searchParams.get('strategy') ?? 'value-timing';
+    const strategy = presetStrategy(preset);
+    if (!strategy) {
+      return badRequest('Invalid strategy', `strategy must be one of: ${Object.keys(STRATEGY_PRESETS).join(', ')}`);
+    }
+
+    const { options, error } = parseBacktestOptions({
+      initialCapital: numberParam(searchParams.get('capital')),
+      commissionPct: numberParam(searchParams.get('commission')),
+      positionSizePct: numberParam(searchParams.get('positionSize')),
+    });
+    if (!options) return badRequest('Invalid options', error ?? '');
+
+    return await backtest(symbol, strategy, searchParams.get('period') ?? undefined, options);
+  } catch (error) {
+    return failed(error);
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const { symbol } = await params;
+    const body = await request.json().catch(() => null);
+
+    let strategy: BacktestStrategy | null;
+    if (typeof body?.preset === 'string') {
+      strategy = presetStrategy(body.preset);
+      if (!strategy) {
+        return badRequest('Invalid strategy', `preset must be one of: ${Object.keys(STRATEGY_PRESETS).join(', ')}`);
+      }
+    } else {
+      const parsed = parseBacktestStrategy(body?.strategy ?? null);
+      if (!parsed.strategy) return badRequest('Invalid strategy', parsed.error ?? '');
+      strategy = parsed.strategy;
+    }
+
+    const { options, error } = parseBacktestOptions(body?.options ?? null);
+    if (!options) return badRequest('Invalid options', error ?? '');
+
+    return await backtest(symbol, strategy, body?.period, options);
+  } catch (error) {
+    return failed(error);
+  }
+}
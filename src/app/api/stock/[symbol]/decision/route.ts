@@ -0,0 +1,62 @@
+/**
+ * API Route: Decision Summary
+ * GET /api/stock/[symbol]/decision
+ *
+ * Returns the decision engine's DecisionSummary (quality, growth, valuation,
+ * timing, risk, action plan) with evidence links.
+ *
+ * Data loading lives in lib/decision/loader so other features (watchlist
+ * scoring) run the same pipeline.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { loadDecision } from '@/lib/decision/loader';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    // Validate API configuration
+    const validationStatus = getApiValidationStatus();
+    if (!validationStatus.valid) {
+      return NextResponse.json(
+        {
+          error: 'Stock API configuration error',
+          details: validationStatus.message,
+          provider: getApiProvider(),
+        },
+        { status: 500 }
+      );
+    }
+
+    const { symbol } = await params;
+    const upperSymbol = normalizeSymbol(symbol) ?? '';
+
+    if (!upperSymbol || upperSymbol.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid symbol',
+          details: `Not a valid stock symbol: ${symbol}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const response = await loadDecision(upperSymbol);
+    return NextResponse.json(response);
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    console.error('Error calculating decision:', errorMessage);
+    return NextResponse.json(
+      {
+        error: 'Failed to calculate decision',
+        details: errorMessage,
+        provider: getApiProvider(),
+      },
+      { status: 500 }
+    );
+  }
+}
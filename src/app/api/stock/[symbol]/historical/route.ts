@@ -1,11 +1,15 @@
 /**
  * API Route: Historical price data
  * GET /api/stock/[symbol]/historical?period=1y
+ * Returns an empty series (provider: null) when no provider has prices for the symbol
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getHistoricalPricesYahoo } from '@/lib/api/yahoo-finance';
+import { getHistoricalPrices } from '@/lib/api/historical';
+import { isNotFoundError } from '@/lib/api/providers';
 import { getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import type { HistoricalPrice, ProviderResult } from '@/types/market';
 
 export async function GET(
   request: NextRequest,
@@ -26,13 +30,13 @@ export async function GET(
     }
 
     const { symbol } = await params;
-    const upperSymbol = symbol.toUpperCase();
+    const upperSymbol = normalizeSymbol(symbol) ?? '';
 
     if (!upperSymbol || upperSymbol.length === 0) {
       return NextResponse.json(
         {
           error: 'Invalid symbol',
-          details: 'Stock symbol is required',
+          details: `Not a valid stock symbol: ${symbol}`,
         },
         { status: 400 }
       );
@@ -41,12 +45,18 @@ export async function GET(
     const searchParams = request.nextUrl.searchParams;
     const period = (searchParams.get('period') as any) || '1y';
 
-    const historical = await getHistoricalPricesYahoo(upperSymbol, period);
+    let historical: ProviderResult<HistoricalPrice[]> | null = null;
+    try {
+      historical = await getHistoricalPrices(upperSymbol, period);
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+    }
 
     return NextResponse.json({
       symbol: upperSymbol,
       period,
-      data: historical,
+      data: historical?.data ?? [],
+      provider: historical?.provider ?? null,
     });
   } catch (error) {
     const errorMessage = (error as Error).message;
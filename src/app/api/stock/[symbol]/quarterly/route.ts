@@ -0,0 +1,85 @@
+/**
+ * API Route: Quarterly earnings
+ * GET /api/stock/[symbol]/quarterly
+ *
+ * Returns quarterly EPS, revenue and net margin (newest first) with
+ * year-over-year growth against the same quarter a year earlier, and the
+ * provider that served them.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getQuarterlyEarnings } from '@/lib/api/statements';
+import { getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import type { QuarterlyData } from '@/types/financials';
+
+/**
+ * Percent change vs the same quarter last year, null when not comparable
+ */
+function yearOverYear(
+  quarters: QuarterlyData[],
+  quarter: QuarterlyData,
+  field: 'eps' | 'revenue'
+): number | null {
+  const previous = quarters.find(
+    (q) => q.fiscalYear === quarter.fiscalYear - 1 && q.fiscalQuarter === quarter.fiscalQuarter
+  );
+  if (!previous || previous[field] === 0) return null;
+  return ((quarter[field] - previous[field]) / Math.abs(previous[field])) * 100;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    // Validate API configuration
+    const validationStatus = getApiValidationStatus();
+    if (!validationStatus.valid) {
+      return NextResponse.json(
+        {
+          error: 'Stock API configuration error',
+          details: validationStatus.message,
+          provider: getApiProvider(),
+        },
+        { status: 500 }
+      );
+    }
+
+    const { symbol } = await params;
+    const upperSymbol = normalizeSymbol(symbol) ?? '';
+
+    if (!upperSymbol || upperSymbol.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid symbol',
+          details: `Not a valid stock symbol: ${symbol}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const { data: quarters, provider } = await getQuarterlyEarnings(upperSymbol);
+
+    return NextResponse.json({
+      symbol: upperSymbol,
+      provider,
+      quarters: quarters.map((quarter) => ({
+        ...quarter,
+        epsGrowthYoY: yearOverYear(quarters, quarter, 'eps'),
+        revenueGrowthYoY: yearOverYear(quarters, quarter, 'revenue'),
+      })),
+    });
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    console.error('Error fetching quarterly earnings:', errorMessage);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch quarterly earnings',
+        details: errorMessage,
+        provider: getApiProvider(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getQuote } from '@/lib/api/quotes';
 import { getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
 
 export async function GET(
   request: NextRequest,
@@ -26,13 +27,13 @@ export async function GET(
     }
 
     const { symbol } = await params;
-    const upperSymbol = symbol.toUpperCase();
+    const upperSymbol = normalizeSymbol(symbol) ?? '';
 
     if (!upperSymbol || upperSymbol.length === 0) {
       return NextResponse.json(
         {
           error: 'Invalid symbol',
-          details: 'Stock symbol is required',
+          details: `Not a valid stock symbol: ${symbol}`,
         },
         { status: 400 }
       );
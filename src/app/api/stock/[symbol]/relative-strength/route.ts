@@ -0,0 +1,102 @@
+/**
+ * API Route: Relative strength
+ * GET /api/stock/[symbol]/relative-strength
+ * Returns the stored RS rating and its daily history, plus the RS line against the
+ * symbol's benchmark (^SET.BK for Thai symbols, ^GSPC otherwise) computed from two
+ * years of daily prices. The RS line is null when the benchmark has no prices.
+ * Returns 404 when no provider has prices for the symbol.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoricalPrices } from '@/lib/api/historical';
+import { isNotFoundError } from '@/lib/api/providers';
+import { getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { getRelativeStrength, getRelativeStrengthHistory } from '@/lib/firebase/relative-strength';
+import { calculateRsLine, isRsLineNewHigh, rsBenchmarkFor } from '@/lib/technical/relative-strength';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import type { HistoricalPrice, ProviderResult } from '@/types/market';
+import type { RelativeStrengthResponse } from '@/types/technical';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const validationStatus = getApiValidationStatus();
+    if (!validationStatus.valid) {
+      return NextResponse.json(
+        {
+          error: 'Stock API configuration error',
+          details: validationStatus.message,
+          provider: getApiProvider(),
+        },
+        { status: 500 }
+      );
+    }
+
+    const { symbol } = await params;
+    const upperSymbol = normalizeSymbol(symbol) ?? '';
+
+    if (!upperSymbol) {
+      return NextResponse.json(
+        {
+          error: 'Invalid symbol',
+          details: `Not a valid stock symbol: ${symbol}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const benchmark = rsBenchmarkFor(upperSymbol);
+    const [latest, history, benchmarkPrices] = await Promise.all([
+      getRelativeStrength(upperSymbol),
+      getRelativeStrengthHistory(upperSymbol),
+      getHistoricalPrices(benchmark, '2y').catch((error) => {
+        console.warn(`Relative strength: no benchmark prices for ${benchmark}:`, (error as Error).message);
+        return null;
+      }),
+    ]);
+
+    let historical: ProviderResult<HistoricalPrice[]> | null = null;
+    try {
+      historical = await getHistoricalPrices(upperSymbol, '2y');
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+    }
+
+    if (!historical) {
+      return NextResponse.json(
+        {
+          error: 'No price history',
+          details: `No provider has historical prices for ${upperSymbol}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    const rsLine = benchmarkPrices ? calculateRsLine(historical.data, benchmarkPrices.data) : null;
+    const response: RelativeStrengthResponse = {
+      symbol: upperSymbol,
+      benchmark,
+      rsRating: latest?.rsRating ?? null,
+      rsScore: latest?.rsScore ?? null,
+      ratedAt: latest?.date ?? null,
+      rsLine,
+      rsLineNewHigh: rsLine ? isRsLineNewHigh(rsLine) : false,
+      history,
+    };
+
+    return NextResponse.json({ ...response, provider: historical.provider });
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    console.error('Error fetching relative strength:', errorMessage);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch relative strength',
+        details: errorMessage,
+        provider: getApiProvider(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -7,8 +7,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getQuote } from '@/lib/api/quotes';
 import { getCompanyMetrics, getCompanyProfile } from '@/lib/api/fundamentals';
-import { getFinancialStatements } from '@/lib/api/statements';
+import { getFinancialStatements, type FinancialStatements } from '@/lib/api/statements';
 import { validateApiKey, getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
 
 export async function GET(
   request: NextRequest,
@@ -31,23 +32,27 @@ export async function GET(
     }
 
     const { symbol } = await params;
-    upperSymbol = symbol.toUpperCase();
+    upperSymbol = normalizeSymbol(symbol) ?? '';
 
     if (!upperSymbol || upperSymbol.length === 0) {
       return NextResponse.json(
         {
           error: 'Invalid symbol',
-          details: 'Stock symbol is required',
+          details: `Not a valid stock symbol: ${symbol}`,
         },
         { status: 400 }
       );
     }
 
+    // Statements are optional: symbols without filings (ETFs, indices) still get a quote
     const [quote, metrics, profile, statements] = await Promise.all([
       getQuote(upperSymbol),
       getCompanyMetrics(upperSymbol),
       getCompanyProfile(upperSymbol),
-      getFinancialStatements(upperSymbol),
+      getFinancialStatements(upperSymbol).catch((error): FinancialStatements => {
+        console.warn(`Financial statements unavailable for ${upperSymbol}:`, (error as Error).message);
+        return { incomeStatement: [], balanceSheet: [], cashFlow: [] };
+      }),
     ]);
 
     return NextResponse.json({
@@ -57,7 +62,13 @@ export async function GET(
       metrics,
       statements,
       _meta: {
-        provider: getApiProvider(),
+        provider: quote.provider ?? getApiProvider(),
+        providers: {
+          quote: quote.provider,
+          metrics: metrics.provider,
+          profile: profile.provider,
+          statements: statements.provider,
+        },
         timestamp: Date.now(),
       },
     });
@@ -0,0 +1,85 @@
+/**
+ * API Route: Trend template and stage analysis
+ * GET /api/stock/[symbol]/trend
+ * Evaluates the Minervini trend template and the Weinstein stage on two years of daily prices;
+ * the RS criterion uses the stored RS rating when the daily update has rated the symbol.
+ * Returns 404 when no provider has prices for the symbol.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getHistoricalPrices } from '@/lib/api/historical';
+import { isNotFoundError } from '@/lib/api/providers';
+import { getApiValidationStatus, getApiProvider } from '@/lib/api/stock-api';
+import { evaluateTrendTemplate } from '@/lib/technical/trend-template';
+import { classifyStage } from '@/lib/technical/stage';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import { getRelativeStrength } from '@/lib/firebase/relative-strength';
+import type { HistoricalPrice, ProviderResult } from '@/types/market';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ symbol: string }> }
+) {
+  try {
+    const validationStatus = getApiValidationStatus();
+    if (!validationStatus.valid) {
+      return NextResponse.json(
+        {
+          error: 'Stock API configuration error',
+          details: validationStatus.message,
+          provider: getApiProvider(),
+        },
+        { status: 500 }
+      );
+    }
+
+    const { symbol } = await params;
+    const upperSymbol = normalizeSymbol(symbol) ?? '';
+
+    if (!upperSymbol) {
+      return NextResponse.json(
+        {
+          error: 'Invalid symbol',
+          details: `Not a valid stock symbol: ${symbol}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    let historical: ProviderResult<HistoricalPrice[]> | null = null;
+    const relativeStrength = getRelativeStrength(upperSymbol);
+    try {
+      historical = await getHistoricalPrices(upperSymbol, '2y');
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+    }
+
+    if (!historical) {
+      return NextResponse.json(
+        {
+          error: 'No price history',
+          details: `No provider has historical prices for ${upperSymbol}`,
+        },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      symbol: upperSymbol,
+      trendTemplate: evaluateTrendTemplate(historical.data, { rsRating: (await relativeStrength)?.rsRating }),
+      stage: classifyStage(historical.data),
+      provider: historical.provider,
+    });
+  } catch (error) {
+    const errorMessage = (error as Error).message;
+    console.error('Error evaluating trend:', errorMessage);
+    return NextResponse.json(
+      {
+        error: 'Failed to evaluate trend',
+        details: errorMessage,
+        provider: getApiProvider(),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * API Route: /api/watchlist/[id]/items/[symbol]
+ * PATCH  - replace an item's notes (body: { notes }); empty notes are removed
+ * DELETE - remove a symbol from a watchlist
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import {
+  normalizeWatchlistSymbol,
+  removeFromWatchlist,
+  updateWatchlistNotes,
+} from '@/lib/firebase/watchlist';
+
+const MAX_NOTES_LENGTH = 500;
+
+type RouteParams = { params: Promise<{ id: string; symbol: string }> };
+
+/**
+ * Validate route params, returning the normalized symbol or null
+ */
+async function parseParams({ params }: RouteParams): Promise<{ id: string; symbol: string } | null> {
+  const { id, symbol } = await params;
+  const normalized = normalizeWatchlistSymbol(decodeURIComponent(symbol));
+  return /^[A-Za-z0-9_-]+$/.test(id) && normalized ? { id, symbol: normalized } : null;
+}
+
+export async function PATCH(request: NextRequest, context: RouteParams) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use watchlists' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = await parseParams(context);
+    const body = await request.json().catch(() => null);
+    const notes = typeof body?.notes === 'string' ? body.notes.trim() : null;
+
+    if (!parsed || notes === null || notes.length > MAX_NOTES_LENGTH) {
+      return NextResponse.json(
+        {
+          error: 'Invalid watchlist item',
+          details: `A valid watchlist id, symbol and notes (max ${MAX_NOTES_LENGTH} characters) are required`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const item = await updateWatchlistNotes(session, parsed.id, parsed.symbol, notes);
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Watchlist item not found', details: `${parsed.symbol} is not on watchlist ${parsed.id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(item);
+  } catch (error) {
+    console.error('Error in /api/watchlist/[id]/items/[symbol]:', error);
+    return NextResponse.json(
+      { error: 'Failed to update watchlist notes', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteParams) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use watchlists' },
+        { status: 401 }
+      );
+    }
+
+    const parsed = await parseParams(context);
+
+    if (!parsed) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist item', details: 'A valid watchlist id and symbol are required' },
+        { status: 400 }
+      );
+    }
+
+    const removed = await removeFromWatchlist(session, parsed.id, parsed.symbol);
+    if (!removed) {
+      return NextResponse.json(
+        { error: 'Watchlist item not found', details: `${parsed.symbol} is not on watchlist ${parsed.id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ id: parsed.id, symbol: parsed.symbol, deleted: true });
+  } catch (error) {
+    console.error('Error in /api/watchlist/[id]/items/[symbol]:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove from watchlist', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
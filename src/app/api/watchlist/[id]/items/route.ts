@@ -0,0 +1,58 @@
+/**
+ * API Route: /api/watchlist/[id]/items
+ * POST - add a symbol to a watchlist (body: { symbol, notes? })
+ *
+ * Adding to the "default" list creates it on first use.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { addToWatchlist, normalizeWatchlistSymbol } from '@/lib/firebase/watchlist';
+
+const MAX_NOTES_LENGTH = 500;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use watchlists' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const symbol = normalizeWatchlistSymbol(body?.symbol);
+    const notes = typeof body?.notes === 'string' ? body.notes.trim() : undefined;
+
+    if (!/^[A-Za-z0-9_-]+$/.test(id) || !symbol || (notes !== undefined && notes.length > MAX_NOTES_LENGTH)) {
+      return NextResponse.json(
+        {
+          error: 'Invalid watchlist item',
+          details: `A valid watchlist id, a symbol and optional notes (max ${MAX_NOTES_LENGTH} characters) are required`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const item = await addToWatchlist(session, id, symbol, notes);
+    if (!item) {
+      return NextResponse.json(
+        { error: 'Watchlist not found', details: `No watchlist with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(item);
+  } catch (error) {
+    console.error('Error in /api/watchlist/[id]/items:', error);
+    return NextResponse.json(
+      { error: 'Failed to add to watchlist', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * API Route: /api/watchlist/[id]
+ * GET    - watchlist rows with live quotes and decision / CAN SLIM / SPEA scores
+ * PATCH  - rename a watchlist (body: { name })
+ * DELETE - delete a watchlist and its items
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { getApiProvider } from '@/lib/api/stock-api';
+import { deleteWatchlist, getWatchlist, renameWatchlist } from '@/lib/firebase/watchlist';
+import { loadWatchlistRows } from '@/lib/watchlist/scores';
+import type { WatchlistResponse } from '@/types/watchlist';
+
+const MAX_NAME_LENGTH = 60;
+
+function isValidId(id: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use watchlists' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!isValidId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', details: 'Invalid watchlist id' },
+        { status: 400 }
+      );
+    }
+
+    const watchlist = await getWatchlist(session, id);
+    if (!watchlist) {
+      return NextResponse.json(
+        { error: 'Watchlist not found', details: `No watchlist with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const { items, ...meta } = watchlist;
+    const response: WatchlistResponse = {
+      watchlist: meta,
+      rows: await loadWatchlistRows(items),
+      provider: getApiProvider(),
+      timestamp: Date.now(),
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in /api/watchlist/[id]:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlist', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use watchlists' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+    const body = await request.json().catch(() => null);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (!isValidId(id) || !name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', details: `A valid id and a name (max ${MAX_NAME_LENGTH} characters) are required` },
+        { status: 400 }
+      );
+    }
+
+    const watchlist = await renameWatchlist(session, id, name);
+    if (!watchlist) {
+      return NextResponse.json(
+        { error: 'Watchlist not found', details: `No watchlist with id ${id}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(watchlist);
+  } catch (error) {
+    console.error('Error in /api/watchlist/[id]:', error);
+    return NextResponse.json(
+      { error: 'Failed to rename watchlist', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use watchlists' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!isValidId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', details: 'Invalid watchlist id' },
+        { status: 400 }
+      );
+    }
+
+    await deleteWatchlist(session, id);
+    return NextResponse.json({ id, deleted: true });
+  } catch (error) {
+    console.error('Error in /api/watchlist/[id]:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete watchlist', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * API Route: /api/watchlist
+ * GET  - list watchlists with their items (no quotes)
+ * POST - create a named watchlist (body: { name })
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserSession } from '@/lib/firebase/session';
+import { createWatchlist, getWatchlists } from '@/lib/firebase/watchlist';
+
+const MAX_NAME_LENGTH = 60;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use watchlists' },
+        { status: 401 }
+      );
+    }
+
+    const watchlists = await getWatchlists(session);
+    return NextResponse.json({ watchlists });
+  } catch (error) {
+    console.error('Error in /api/watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch watchlists' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = getUserSession(request);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Unauthorized', details: 'Sign in to use watchlists' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = typeof body?.name === 'string' ? body.name.trim() : '';
+
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: 'Invalid watchlist', details: `A name (max ${MAX_NAME_LENGTH} characters) is required` },
+        { status: 400 }
+      );
+    }
+
+    const watchlist = await createWatchlist(session, name);
+    return NextResponse.json(watchlist);
+  } catch (error) {
+    console.error('Error in /api/watchlist:', error);
+    return NextResponse.json(
+      { error: 'Failed to create watchlist', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Inter } from "next/font/google";
 import "./globals.css";
 import LayoutWrapper from "@/components/layout/LayoutWrapper";
+import { PREFERENCES_STORAGE_KEY } from "@/lib/preferences/preferences";
 
 const inter = Inter({ subsets: ["latin"] });
 
@@ -10,13 +11,19 @@ export const metadata: Metadata = {
   description: "Make better stock-picking decisions with real-time market data and portfolio tracking",
 };
 
+// Apply the cached theme before first paint to avoid a light flash in dark mode
+const themeScript = `try{var p=JSON.parse(localStorage.getItem(${JSON.stringify(PREFERENCES_STORAGE_KEY)})||"{}");if(p.theme==="dark")document.documentElement.classList.add("dark")}catch(e){}`;
+
 export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="en" suppressHydrationWarning>
+      <head>
+        <script dangerouslySetInnerHTML={{ __html: themeScript }} />
+      </head>
       <body className={inter.className}>
         <LayoutWrapper>{children}</LayoutWrapper>
       </body>
@@ -9,6 +9,7 @@ import InvestorFlowCard from '@/components/settrade/InvestorFlowCard';
 import TopRankingsCard from '@/components/settrade/TopRankingsCard';
 import { MultiTrendChart, InvestorFlowTrendChart, InvestorFlowDataPoint } from '@/components/settrade/TrendChart';
 import { formatPercent, getChangeColor } from '@/lib/format';
+import { isThaiSymbol } from '@/lib/symbols/symbols';
 
 interface MarketIndex {
   symbol: string;
@@ -308,10 +309,10 @@ export default function MarketPage() {
       <div className="mb-6">
         <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">Market Overview</h1>
-            <p className="text-sm text-gray-500 mt-1">Real-time market data and analysis</p>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Market Overview</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Real-time market data and analysis</p>
             {indicesError && (
-              <div className="mt-2 p-2 bg-yellow-100 border border-yellow-400 rounded text-yellow-700 text-xs">
+              <div className="mt-2 p-2 bg-yellow-100 dark:bg-yellow-900/40 border border-yellow-400 rounded text-yellow-700 dark:text-yellow-300 text-xs">
                 ⚠️ {indicesError}
               </div>
             )}
@@ -321,7 +322,7 @@ export default function MarketPage() {
       </div>
 
       {/* Mobile-First Tab Navigation */}
-      <div className="mb-6 border-b border-gray-200 overflow-x-auto">
+      <div className="mb-6 border-b border-gray-200 dark:border-gray-800 overflow-x-auto">
         <nav
           className="flex gap-6 min-w-max scrollbar-hide"
           style={{ WebkitOverflowScrolling: 'touch', scrollbarWidth: 'none', msOverflowStyle: 'none' }}
@@ -333,7 +334,7 @@ export default function MarketPage() {
               className={`py-3 px-1 border-b-2 font-medium text-sm whitespace-nowrap transition-colors ${
                 activeTab === tab.key
                   ? 'border-[#1e3a5f] text-[#1e3a5f]'
-                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                  : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 hover:border-gray-300 dark:hover:border-gray-600'
               }`}
             >
               <span className="mr-1">{tab.icon}</span>
@@ -348,11 +349,11 @@ export default function MarketPage() {
         <div className="space-y-6">
           {/* Market Indices - Responsive */}
           <section>
-            <h2 className="text-sm font-semibold text-gray-700 mb-3">Global Indices</h2>
+            <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Global Indices</h2>
             {loadingIndices ? (
               <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                 {[1, 2, 3, 4].map((i) => (
-                  <div key={i} className="animate-pulse h-28 bg-gray-200 rounded-lg"></div>
+                  <div key={i} className="animate-pulse h-28 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
                 ))}
               </div>
             ) : (
@@ -365,7 +366,7 @@ export default function MarketPage() {
                     change={index.change}
                     changePercent={index.changePercent}
                     market={
-                      index.symbol.includes('.BK')
+                      isThaiSymbol(index.symbol)
                         ? '🇹🇭'
                         : index.symbol.includes('^GSPC') || index.symbol.includes('^DJI') || index.symbol.includes('^IXIC')
                         ? '🇺🇸'
@@ -381,14 +382,14 @@ export default function MarketPage() {
 
           {/* Thailand Market - Mobile First */}
           <section>
-            <h2 className="text-sm font-semibold text-gray-700 mb-3">🇹🇭 Thailand Market</h2>
+            <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">🇹🇭 Thailand Market</h2>
             {settradeLoading ? (
               <div className="space-y-4">
-                <div className="animate-pulse h-48 bg-gray-200 rounded-lg"></div>
-                <div className="animate-pulse h-48 bg-gray-200 rounded-lg"></div>
+                <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
+                <div className="animate-pulse h-48 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
               </div>
             ) : settradeError ? (
-              <div className="p-4 bg-yellow-50 border border-yellow-200 rounded text-yellow-800 text-sm">
+              <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-yellow-800 dark:text-yellow-300 text-sm">
                 ⚠️ {settradeError} — Check Firebase configuration and database permissions
               </div>
             ) : (
@@ -430,9 +431,9 @@ export default function MarketPage() {
         <div className="space-y-6">
           {/* Today's Sector Flow */}
           {settradeLoading ? (
-            <div className="animate-pulse h-96 bg-gray-200 rounded-lg"></div>
+            <div className="animate-pulse h-96 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
           ) : settradeError ? (
-            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded text-yellow-800 text-sm">
+            <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-yellow-800 dark:text-yellow-300 text-sm">
               ⚠️ {settradeError}
             </div>
           ) : sectorData ? (
@@ -447,13 +448,13 @@ export default function MarketPage() {
             </Card>
           ) : (
             <Card title="Industry Sector Performance" subtitle="No data available">
-              <p className="text-gray-500">No sector data available at this time.</p>
+              <p className="text-gray-500 dark:text-gray-400">No sector data available at this time.</p>
             </Card>
           )}
 
           {/* Sector Trend (4 weeks) */}
           {historyLoading ? (
-            <div className="animate-pulse h-64 bg-gray-200 rounded-lg"></div>
+            <div className="animate-pulse h-64 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
           ) : sectorHistory.length > 0 ? (
             <MultiTrendChart
               title="Sector Value Trend (4 Weeks)"
@@ -476,9 +477,9 @@ export default function MarketPage() {
         <div className="space-y-6">
           {/* Today's Investor Flow */}
           {settradeLoading ? (
-            <div className="animate-pulse h-96 bg-gray-200 rounded-lg"></div>
+            <div className="animate-pulse h-96 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
           ) : settradeError ? (
-            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded text-yellow-800 text-sm">
+            <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-yellow-800 dark:text-yellow-300 text-sm">
               ⚠️ {settradeError}
             </div>
           ) : investorData ? (
@@ -487,13 +488,13 @@ export default function MarketPage() {
             </Card>
           ) : (
             <Card title="Investor Type Analysis" subtitle="No data available">
-              <p className="text-gray-500">No investor data available at this time.</p>
+              <p className="text-gray-500 dark:text-gray-400">No investor data available at this time.</p>
             </Card>
           )}
 
           {/* Investor Flow Trend (4 weeks) */}
           {historyLoading ? (
-            <div className="animate-pulse h-64 bg-gray-200 rounded-lg"></div>
+            <div className="animate-pulse h-64 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
           ) : investorHistory.length > 0 ? (
             <InvestorFlowTrendChart
               title="Investor Flow Trend (4 Weeks)"
@@ -510,15 +511,15 @@ export default function MarketPage() {
       {activeTab === 'indices' && (
         <div className="space-y-4">
           {/* Main Indices */}
-          <h2 className="text-sm font-semibold text-gray-700 mb-3">Market Indices</h2>
+          <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">Market Indices</h2>
           {loadingIndices ? (
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
               {[1, 2, 3, 4].map((i) => (
-                <div key={i} className="animate-pulse h-28 bg-gray-200 rounded-lg"></div>
+                <div key={i} className="animate-pulse h-28 bg-gray-200 dark:bg-gray-700 rounded-lg"></div>
               ))}
             </div>
           ) : indicesError ? (
-            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded text-yellow-800 text-sm">
+            <div className="p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded text-yellow-800 dark:text-yellow-300 text-sm">
               ⚠️ {indicesError}
             </div>
           ) : (
@@ -531,7 +532,7 @@ export default function MarketPage() {
                   change={index.change}
                   changePercent={index.changePercent}
                   market={
-                    index.symbol.includes('.BK')
+                    isThaiSymbol(index.symbol)
                       ? '🇹🇭'
                       : index.symbol.includes('^GSPC') || index.symbol.includes('^DJI') || index.symbol.includes('^IXIC')
                       ? '🇺🇸'
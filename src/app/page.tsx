@@ -7,6 +7,7 @@ import Card from "@/components/ui/Card";
 import SectorFlowDashboard from "@/components/settrade/SectorFlowDashboard";
 import InvestorFlowCard from "@/components/settrade/InvestorFlowCard";
 import SETIndexCard from "@/components/settrade/SETIndexCard";
+import { isThaiSymbol } from "@/lib/symbols/symbols";
 
 interface MarketIndex {
   symbol: string;
@@ -337,11 +338,11 @@ export default function DashboardPage() {
     return (
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
         <div className="mb-6">
-          <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Dashboard</h1>
         </div>
         <div className="animate-pulse space-y-4">
-          <div className="h-32 bg-gray-200 rounded"></div>
-          <div className="h-64 bg-gray-200 rounded"></div>
+          <div className="h-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+          <div className="h-64 bg-gray-200 dark:bg-gray-700 rounded"></div>
         </div>
       </div>
     );
@@ -370,19 +371,19 @@ export default function DashboardPage() {
       <div className="mb-6">
         <div className="flex items-center justify-between">
           <div>
-            <h1 className="text-2xl font-bold text-gray-900">Dashboard</h1>
-            <p className="text-sm text-gray-500 mt-1">
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Dashboard</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
               Thailand Stock Market Overview
             </p>
             {error && (
-              <div className="mt-2 p-2 bg-yellow-100 border border-yellow-400 rounded text-yellow-700 text-xs">
+              <div className="mt-2 p-2 bg-yellow-100 dark:bg-yellow-900/40 border border-yellow-400 rounded text-yellow-700 dark:text-yellow-300 text-xs">
                 {error}
               </div>
             )}
           </div>
           <button
             onClick={() => window.location.reload()}
-            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded hover:bg-gray-50 dark:hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
           >
             Refresh
           </button>
@@ -391,7 +392,7 @@ export default function DashboardPage() {
 
       {/* SET Index Summary - Hero Section */}
       {settradeLoading ? (
-        <div className="animate-pulse h-24 bg-gray-200 rounded-lg mb-6"></div>
+        <div className="animate-pulse h-24 bg-gray-200 dark:bg-gray-700 rounded-lg mb-6"></div>
       ) : setSummary ? (
         <SETIndexCard {...setSummary} />
       ) : null}
@@ -401,9 +402,9 @@ export default function DashboardPage() {
         <Card>
           {settradeLoading ? (
             <div className="animate-pulse space-y-4">
-              <div className="h-8 bg-gray-200 rounded"></div>
-              <div className="h-32 bg-gray-200 rounded"></div>
-              <div className="h-32 bg-gray-200 rounded"></div>
+              <div className="h-8 bg-gray-200 dark:bg-gray-700 rounded"></div>
+              <div className="h-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
+              <div className="h-32 bg-gray-200 dark:bg-gray-700 rounded"></div>
             </div>
           ) : sectorData ? (
             <SectorFlowDashboard
@@ -420,7 +421,7 @@ export default function DashboardPage() {
               }
             />
           ) : (
-            <div className="text-center py-8 text-sm text-gray-500">
+            <div className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
               No sector data available
             </div>
           )}
@@ -438,7 +439,7 @@ export default function DashboardPage() {
           {settradeLoading ? (
             <div className="animate-pulse space-y-3">
               {[...Array(4)].map((_, i) => (
-                <div key={i} className="h-12 bg-gray-200 rounded"></div>
+                <div key={i} className="h-12 bg-gray-200 dark:bg-gray-700 rounded"></div>
               ))}
             </div>
           ) : investorData ? (
@@ -447,7 +448,7 @@ export default function DashboardPage() {
               showTitle={false}
             />
           ) : (
-            <div className="text-center py-8 text-sm text-gray-500">
+            <div className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
               No investor data available
             </div>
           )}
@@ -456,7 +457,7 @@ export default function DashboardPage() {
 
       {/* Market Indices - Compact */}
       <div className="mt-6">
-        <h2 className="text-sm font-semibold text-gray-700 mb-3">
+        <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
           Global Indices
         </h2>
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
@@ -468,7 +469,7 @@ export default function DashboardPage() {
               change={index.change}
               changePercent={index.changePercent}
               market={
-                index.symbol.includes(".BK")
+                isThaiSymbol(index.symbol)
                   ? "🇹🇭"
                   : index.symbol.includes("^GSPC") ||
                       index.symbol.includes("^DJI") ||
@@ -487,7 +488,7 @@ export default function DashboardPage() {
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 mt-6">
         {/* Top Gainers */}
         <div>
-          <h2 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+          <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3 flex items-center gap-2">
             <span className="text-green-500">▲</span> Top Gainers
           </h2>
           <div className="space-y-2">
@@ -499,7 +500,7 @@ export default function DashboardPage() {
 
         {/* Top Losers */}
         <div>
-          <h2 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+          <h2 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3 flex items-center gap-2">
             <span className="text-red-500">▼</span> Top Losers
           </h2>
           <div className="space-y-2">
@@ -511,7 +512,7 @@ export default function DashboardPage() {
       </div>
 
       {/* Footer Info */}
-      <div className="mt-8 pt-4 border-t border-gray-200 text-xs text-gray-400 text-center">
+      <div className="mt-8 pt-4 border-t border-gray-200 dark:border-gray-800 text-xs text-gray-400 text-center">
         {sectorData && (
           <p>
             Data updated:{" "}
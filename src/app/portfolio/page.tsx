@@ -0,0 +1,250 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import Card from '@/components/ui/Card';
+import SignInPrompt from '@/components/auth/SignInPrompt';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { usePreferences } from '@/components/preferences/PreferencesProvider';
+import MarketDistributionChart from '@/components/charts/MarketDistributionChart';
+import HoldingsTable from '@/components/portfolio/HoldingsTable';
+import TransactionForm from '@/components/portfolio/TransactionForm';
+import { formatCurrency, formatMoney, formatPercent, getChangeColor } from '@/lib/format';
+import { CURRENCIES } from '@/lib/portfolio/portfolio';
+import type { Currency, PortfolioResponse, PortfolioTransaction } from '@/types/portfolio';
+
+const ALLOCATION_COLORS = ['#1e3a5f', '#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#84cc16', '#9ca3af'];
+
+function describeTransaction(tx: PortfolioTransaction): string {
+  switch (tx.type) {
+    case 'buy':
+    case 'sell':
+      return `${tx.shares?.toLocaleString('en-US')} @ ${formatMoney(tx.price ?? 0, tx.currency)}${
+        tx.fees ? ` + ${formatMoney(tx.fees, tx.currency)} fees` : ''
+      }`;
+    case 'dividend':
+      return formatMoney(tx.amount ?? 0, tx.currency);
+    case 'split':
+      return `${tx.ratio}-for-1`;
+  }
+}
+
+export default function PortfolioPage() {
+  const { user, loading: authLoading, authFetch } = useAuth();
+  const { preferences, updatePreferences } = usePreferences();
+  const currency = preferences.currency;
+  const [data, setData] = useState<PortfolioResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const fetchPortfolio = useCallback(async (baseCurrency: Currency) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const res = await authFetch(`/api/portfolio?currency=${baseCurrency}`);
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.details || json.error || 'Failed to load portfolio');
+
+      setData(json);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchPortfolio(currency);
+  }, [user, currency, fetchPortfolio]);
+
+  const handleAddTransaction = async (body: Record<string, unknown>) => {
+    const res = await authFetch('/api/portfolio/transactions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.details || json.error || 'Failed to save transaction');
+
+    await fetchPortfolio(currency);
+  };
+
+  const handleDeleteTransaction = async (tx: PortfolioTransaction) => {
+    if (!window.confirm(`Delete ${tx.type} of ${tx.symbol} on ${tx.date}?`)) return;
+
+    try {
+      setActionError(null);
+      const res = await authFetch(`/api/portfolio/transactions/${tx.id}`, { method: 'DELETE' });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.details || json.error || 'Failed to delete transaction');
+
+      await fetchPortfolio(currency);
+    } catch (err) {
+      setActionError((err as Error).message);
+    }
+  };
+
+  const summary = data?.summary;
+  const allocationData = (summary?.allocation ?? []).map((slice, index) => ({
+    name: slice.sector,
+    value: slice.weight,
+    color: ALLOCATION_COLORS[index % ALLOCATION_COLORS.length],
+  }));
+
+  if (!authLoading && !user) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100 mb-6">Portfolio</h1>
+        <SignInPrompt feature="portfolio transactions" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">Portfolio</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">Holdings derived from your transactions, revalued at live quotes</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={currency}
+            onChange={(e) =>
+              updatePreferences({ currency: e.target.value as Currency }).catch((err) =>
+                setActionError((err as Error).message)
+              )
+            }
+            aria-label="Base currency"
+            className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+          >
+            {CURRENCIES.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => fetchPortfolio(currency)}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+          <p className="text-sm text-red-700 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {summary && summary.warnings.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+          {summary.warnings.map((warning) => (
+            <p key={warning} className="text-sm text-yellow-800 dark:text-yellow-300">
+              {warning}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {[
+          { label: 'Market Value', value: summary?.totalValue, colored: false },
+          { label: 'Unrealized P&L', value: summary?.totalGainLoss, percent: summary?.totalGainLossPercent, colored: true },
+          { label: 'Realized P&L', value: summary?.realizedGain, colored: true },
+          { label: 'Dividends', value: summary?.dividendIncome, colored: false },
+        ].map((stat) => (
+          <div key={stat.label} className="card p-4">
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{stat.label}</p>
+            {summary && stat.value !== undefined ? (
+              <p className={`text-xl font-bold mt-1 ${stat.colored ? getChangeColor(stat.value) : 'text-gray-900 dark:text-gray-100'}`}>
+                {formatCurrency(stat.value, { currency: summary.baseCurrency })}
+                {stat.percent !== undefined && <span className="text-sm font-medium ml-2">{formatPercent(stat.percent)}</span>}
+              </p>
+            ) : (
+              <div className="h-7 mt-1 bg-gray-200 dark:bg-gray-700 rounded animate-pulse"></div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        <div className="lg:col-span-2">
+          <Card
+            title="Holdings"
+            subtitle={summary ? `Cost basis ${formatMoney(summary.totalCost, summary.baseCurrency)} · average-cost method` : undefined}
+          >
+            <div className={loading ? 'opacity-50' : ''}>
+              <HoldingsTable holdings={summary?.holdings ?? []} baseCurrency={summary?.baseCurrency ?? currency} />
+            </div>
+          </Card>
+        </div>
+        <Card title="Sector Allocation" subtitle="By SET sector peer group">
+          {allocationData.length > 0 ? (
+            <MarketDistributionChart data={allocationData} />
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">No open positions</p>
+          )}
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <TransactionForm onSubmit={handleAddTransaction} />
+        <div className="lg:col-span-2">
+          <Card title="Transactions" subtitle="Newest first">
+            {actionError && <p className="text-xs text-red-600 dark:text-red-400 mb-3">{actionError}</p>}
+            {data && data.transactions.length > 0 ? (
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-800 text-gray-600 dark:text-gray-400">
+                      <th scope="col" className="px-3 py-2 text-left font-medium">Date</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium">Type</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium">Symbol</th>
+                      <th scope="col" className="px-3 py-2 text-left font-medium">Details</th>
+                      <th scope="col" className="px-3 py-2"><span className="sr-only">Delete</span></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {data.transactions.map((tx) => (
+                      <tr key={tx.id} className="hover:bg-gray-50 dark:hover:bg-gray-800">
+                        <td className="px-3 py-2 text-gray-700 dark:text-gray-300 whitespace-nowrap">{tx.date}</td>
+                        <td className="px-3 py-2 capitalize text-gray-700 dark:text-gray-300">{tx.type}</td>
+                        <td className="px-3 py-2 font-medium text-gray-900 dark:text-gray-100">{tx.symbol}</td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                          {describeTransaction(tx)}
+                          {tx.notes && <p className="text-xs text-gray-400">{tx.notes}</p>}
+                        </td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleDeleteTransaction(tx)}
+                            className="text-gray-400 hover:text-red-600"
+                            aria-label={`Delete ${tx.type} of ${tx.symbol} on ${tx.date}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400 py-8 text-center">No transactions yet</p>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import Card from '@/components/ui/Card';
+import { useAuth } from '@/components/auth/AuthProvider';
+import ScreenerFilters from '@/components/screener/ScreenerFilters';
+import ScreenerResultsTable from '@/components/screener/ScreenerResultsTable';
+import {
+  criteriaToFilters,
+  defaultFilterValues,
+  defaultTrendFilters,
+  filtersToCriteria,
+  type ScreenerFilterKey,
+  type ScreenerFilterValues,
+  type ScreenerTrendFilters,
+} from '@/lib/screener/filters';
+import type { SavedScreen, ScreenerResponse, ScreenerSortKey, StockScreenerCriteria } from '@/types/market';
+
+const PAGE_SIZE = 25;
+
+export default function ScreenerPage() {
+  const { user, authFetch } = useAuth();
+  const [values, setValues] = useState<ScreenerFilterValues>(defaultFilterValues);
+  const [sectors, setSectors] = useState<string[]>([]);
+  const [trend, setTrend] = useState<ScreenerTrendFilters>(defaultTrendFilters);
+  const [sort, setSort] = useState<ScreenerSortKey>('score');
+  const [order, setOrder] = useState<'asc' | 'desc'>('desc');
+  const [page, setPage] = useState(1);
+
+  const [response, setResponse] = useState<ScreenerResponse | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [savedScreens, setSavedScreens] = useState<SavedScreen[]>([]);
+  const [activeScreenId, setActiveScreenId] = useState<string | null>(null);
+  const [screenName, setScreenName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const runScreen = useCallback(
+    async (options: { criteria: StockScreenerCriteria; sort: ScreenerSortKey; order: 'asc' | 'desc'; page: number }) => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const res = await fetch('/api/market/scanner', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            criteria: options.criteria,
+            sort: options.sort,
+            order: options.order,
+            page: options.page,
+            pageSize: PAGE_SIZE,
+          }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.details || data.error || 'Failed to run screen');
+
+        setResponse(data);
+      } catch (err) {
+        setError((err as Error).message);
+      } finally {
+        setLoading(false);
+      }
+    },
+    []
+  );
+
+  // Initial run with no criteria
+  useEffect(() => {
+    runScreen({ criteria: {}, sort: 'score', order: 'desc', page: 1 });
+  }, [runScreen]);
+
+  useEffect(() => {
+    if (!user) {
+      setSavedScreens([]);
+      return;
+    }
+
+    async function fetchSavedScreens() {
+      try {
+        const res = await authFetch('/api/screener/screens');
+        if (!res.ok) return;
+        const data = await res.json();
+        setSavedScreens(data.screens || []);
+      } catch (err) {
+        console.error('Error fetching saved screens:', err);
+      }
+    }
+    fetchSavedScreens();
+  }, [user, authFetch]);
+
+  const criteria = filtersToCriteria(values, sectors, trend);
+
+  const handleRun = () => {
+    setPage(1);
+    runScreen({ criteria, sort, order, page: 1 });
+  };
+
+  const handleSort = (key: ScreenerSortKey) => {
+    const nextOrder = key === sort ? (order === 'desc' ? 'asc' : 'desc') : key === 'symbol' ? 'asc' : 'desc';
+    setSort(key);
+    setOrder(nextOrder);
+    setPage(1);
+    runScreen({ criteria, sort: key, order: nextOrder, page: 1 });
+  };
+
+  const handlePage = (nextPage: number) => {
+    setPage(nextPage);
+    runScreen({ criteria, sort, order, page: nextPage });
+  };
+
+  const handleValueChange = (key: ScreenerFilterKey, value: number) => {
+    setValues((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleReset = () => {
+    setValues(defaultFilterValues());
+    setSectors([]);
+    setTrend(defaultTrendFilters());
+    setActiveScreenId(null);
+    setScreenName('');
+  };
+
+  const handleLoadScreen = (screen: SavedScreen) => {
+    const restored = criteriaToFilters(screen.criteria);
+    setValues(restored.values);
+    setSectors(restored.sectors);
+    setTrend(restored.trend);
+    setSort(screen.sort ?? 'score');
+    setOrder(screen.order ?? 'desc');
+    setActiveScreenId(screen.id);
+    setScreenName(screen.name);
+    setPage(1);
+    runScreen({ criteria: screen.criteria, sort: screen.sort ?? 'score', order: screen.order ?? 'desc', page: 1 });
+  };
+
+  const handleSave = async () => {
+    const name = screenName.trim();
+    if (!name) {
+      setSaveError('Enter a name for this screen');
+      return;
+    }
+
+    // Saving under the loaded screen's name updates it; a new name creates a copy
+    const active = savedScreens.find((s) => s.id === activeScreenId);
+    const id = active && active.name === name ? active.id : undefined;
+
+    try {
+      setSaving(true);
+      setSaveError(null);
+
+      const res = await authFetch('/api/screener/screens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, name, criteria, sort, order }),
+      });
+      const saved = await res.json();
+      if (!res.ok) throw new Error(saved.details || saved.error || 'Failed to save screen');
+
+      setSavedScreens((prev) =>
+        [...prev.filter((s) => s.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      setActiveScreenId(saved.id);
+    } catch (err) {
+      setSaveError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (screen: SavedScreen) => {
+    if (!window.confirm(`Delete saved screen "${screen.name}"?`)) return;
+
+    try {
+      const res = await authFetch(`/api/screener/screens/${screen.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete screen');
+
+      setSavedScreens((prev) => prev.filter((s) => s.id !== screen.id));
+      if (activeScreenId === screen.id) setActiveScreenId(null);
+    } catch (err) {
+      setSaveError((err as Error).message);
+    }
+  };
+
+  const totalPages = response ? Math.max(1, Math.ceil(response.total / response.pageSize)) : 1;
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">Stock Screener</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Screen SET sector peers and today&apos;s most active stocks by fundamentals and CAN SLIM / SPEA scores
+        </p>
+      </div>
+
+      {/* Saved screens */}
+      <Card title="Saved Screens" className="mb-6">
+        {!user ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Sign in to save screens to your account.</p>
+        ) : (
+          <>
+            {savedScreens.length > 0 ? (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {savedScreens.map((screen) => (
+                  <span
+                    key={screen.id}
+                    className={`inline-flex items-center rounded-full border text-xs font-medium ${
+                      screen.id === activeScreenId
+                        ? 'bg-[#1e3a5f] text-white border-[#1e3a5f]'
+                        : 'bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-700'
+                    }`}
+                  >
+                    <button type="button" onClick={() => handleLoadScreen(screen)} className="pl-3 pr-2 py-1">
+                      {screen.name}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(screen)}
+                      className="pr-2 py-1 opacity-60 hover:opacity-100"
+                      aria-label={`Delete ${screen.name}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">No saved screens yet. Set your criteria and save them below.</p>
+            )}
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <input
+                type="text"
+                value={screenName}
+                onChange={(e) => setScreenName(e.target.value)}
+                placeholder='e.g. "Thai banks ROE>12, PB<1"'
+                maxLength={80}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+              />
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={saving}
+                className="inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-medium text-white bg-[#1e3a5f] rounded-md hover:bg-[#2a4a73] disabled:opacity-50"
+              >
+                <Save className="w-4 h-4" />
+                {saving ? 'Saving...' : 'Save Screen'}
+              </button>
+            </div>
+            {saveError && <p className="text-xs text-red-600 dark:text-red-400 mt-2">{saveError}</p>}
+          </>
+        )}
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-1 space-y-4">
+          <ScreenerFilters
+            values={values}
+            sectors={sectors}
+            onValueChange={handleValueChange}
+            onSectorsChange={setSectors}
+            trend={trend}
+            onTrendChange={setTrend}
+            onReset={handleReset}
+          />
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={loading}
+            className="w-full px-4 py-2 text-sm font-medium text-white bg-[#1e3a5f] rounded-md hover:bg-[#2a4a73] disabled:opacity-50"
+          >
+            {loading ? 'Screening...' : 'Run Screen'}
+          </button>
+        </div>
+
+        <div className="lg:col-span-2">
+          <Card
+            title="Results"
+            subtitle={
+              response
+                ? `${response.total} of ${response.universeSize} stocks match`
+                : 'Loading universe...'
+            }
+          >
+            {error ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            ) : loading && !response ? (
+              <div className="animate-pulse space-y-3">
+                {[...Array(6)].map((_, i) => (
+                  <div key={i} className="h-8 bg-gray-200 dark:bg-gray-700 rounded"></div>
+                ))}
+              </div>
+            ) : (
+              <div className={loading ? 'opacity-50' : ''}>
+                <ScreenerResultsTable
+                  results={response?.results ?? []}
+                  sort={sort}
+                  order={order}
+                  onSort={handleSort}
+                />
+                {totalPages > 1 && (
+                  <div className="flex items-center justify-between mt-4 text-sm">
+                    <button
+                      type="button"
+                      onClick={() => handlePage(page - 1)}
+                      disabled={page <= 1 || loading}
+                      className="px-3 py-1 rounded border border-gray-300 dark:border-gray-700 disabled:opacity-40"
+                    >
+                      Previous
+                    </button>
+                    <span className="text-gray-600 dark:text-gray-400">
+                      Page {page} of {totalPages}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handlePage(page + 1)}
+                      disabled={page >= totalPages || loading}
+                      className="px-3 py-1 rounded border border-gray-300 dark:border-gray-700 disabled:opacity-40"
+                    >
+                      Next
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { Moon, Sun } from 'lucide-react';
+import Card from '@/components/ui/Card';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { usePreferences } from '@/components/preferences/PreferencesProvider';
+import { CURRENCIES } from '@/lib/portfolio/portfolio';
+import { MARKETS, MARKET_SUFFIXES } from '@/lib/preferences/preferences';
+import type { UserPreferences } from '@/lib/types';
+
+const MARKET_LABELS: Record<UserPreferences['defaultMarket'], string> = {
+  SET: '🇹🇭 Thailand (SET)',
+  MAI: '🇹🇭 Thailand (MAI)',
+  US: '🇺🇸 United States',
+  HK: '🇭🇰 Hong Kong',
+  CN: '🇨🇳 China',
+};
+
+const CURRENCY_LABELS: Record<UserPreferences['currency'], string> = {
+  THB: 'Thai Baht (฿)',
+  USD: 'US Dollar ($)',
+  HKD: 'Hong Kong Dollar (HK$)',
+  CNY: 'Chinese Yuan (¥)',
+  JPY: 'Japanese Yen (JP¥)',
+};
+
+export default function SettingsPage() {
+  const { user } = useAuth();
+  const { preferences, updatePreferences } = usePreferences();
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (update: Partial<UserPreferences>) => {
+    try {
+      setError(null);
+      await updatePreferences(update);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const optionClass = (selected: boolean) =>
+    `px-4 py-2 rounded-lg text-sm font-medium border transition-colors ${
+      selected
+        ? 'bg-[#1e3a5f] text-white border-[#1e3a5f]'
+        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100 dark:bg-gray-800 dark:text-gray-200 dark:border-gray-700 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="mb-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">Settings</h1>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          {user
+            ? `Saved to your account (${user.email || user.displayName || 'signed in'}) and applied on every device`
+            : 'Saved in this browser. Sign in to keep them on every device.'}
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        <Card title="Default Market" subtitle="Preselected in the stock search market picker">
+          <div className="flex flex-wrap gap-2">
+            {MARKETS.map((market) => (
+              <button
+                key={market}
+                type="button"
+                onClick={() => save({ defaultMarket: market })}
+                aria-pressed={preferences.defaultMarket === market}
+                className={optionClass(preferences.defaultMarket === market)}
+              >
+                {MARKET_LABELS[market]}
+                {MARKET_SUFFIXES[market] && (
+                  <span className="ml-1 font-mono text-xs opacity-70">{MARKET_SUFFIXES[market]}</span>
+                )}
+              </button>
+            ))}
+          </div>
+        </Card>
+
+        <Card title="Currency" subtitle="Base currency for portfolio valuation and currency amounts">
+          <select
+            value={preferences.currency}
+            onChange={(e) => save({ currency: e.target.value as UserPreferences['currency'] })}
+            aria-label="Currency"
+            className="w-full sm:w-72 px-3 py-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+          >
+            {CURRENCIES.map((currency) => (
+              <option key={currency} value={currency}>
+                {CURRENCY_LABELS[currency]}
+              </option>
+            ))}
+          </select>
+        </Card>
+
+        <Card title="Theme">
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() => save({ theme: 'light' })}
+              aria-pressed={preferences.theme === 'light'}
+              className={`inline-flex items-center gap-2 ${optionClass(preferences.theme === 'light')}`}
+            >
+              <Sun className="w-4 h-4" />
+              Light
+            </button>
+            <button
+              type="button"
+              onClick={() => save({ theme: 'dark' })}
+              aria-pressed={preferences.theme === 'dark'}
+              className={`inline-flex items-center gap-2 ${optionClass(preferences.theme === 'dark')}`}
+            >
+              <Moon className="w-4 h-4" />
+              Dark
+            </button>
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -5,17 +5,24 @@ import { useParams, useRouter } from "next/navigation";
 import { ArrowLeft } from "lucide-react";
 import type { Quote } from "@/types/market";
 import type { FinancialMetrics } from "@/types/financials";
+import type { DecisionResponse } from "@/types/decision";
+import type { RelativeStrengthResponse } from "@/types/technical";
 import Card from "@/components/ui/Card";
 import StatusBadge from "@/components/ui/StatusBadge";
 import PriceChart from "@/components/stock/PriceChart";
+import TrendTemplateCard from "@/components/stock/TrendTemplateCard";
+import RelativeStrengthCard from "@/components/stock/RelativeStrengthCard";
 import ValuationCard from "@/components/stock/ValuationCard";
 import PeerComparison from "@/components/stock/PeerComparison";
 import StandardBenchmarks from "@/components/stock/StandardBenchmarks";
+import DecisionPanel from "@/components/stock/DecisionPanel";
+import WatchlistButton from "@/components/stock/WatchlistButton";
 import {
   formatPercent,
   formatTradingValueMn,
   getChangeColor,
 } from "@/lib/format";
+import { normalizeSymbol } from "@/lib/symbols/symbols";
 
 const DATA_FRESHNESS_THRESHOLD = {
   FRESH: 5 * 60 * 1000,
@@ -154,7 +161,8 @@ function getActionableErrorMessage(error: ApiError): string {
 export default function StockDetailPage() {
   const params = useParams();
   const router = useRouter();
-  const symbol = (params.symbol as string)?.toUpperCase();
+  const rawSymbol = decodeURIComponent((params.symbol as string) ?? "");
+  const symbol = normalizeSymbol(rawSymbol) ?? rawSymbol.toUpperCase();
 
   const [quote, setQuote] = useState<Quote | null>(null);
   const [metrics, setMetrics] = useState<FinancialMetrics | null>(null);
@@ -162,6 +170,7 @@ export default function StockDetailPage() {
   const [historicalData, setHistoricalData] = useState<
     Array<{
       date: string;
+      open: number;
       close: number;
       high: number;
       low: number;
@@ -170,6 +179,12 @@ export default function StockDetailPage() {
   >([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<ApiError | null>(null);
+  const [decision, setDecision] = useState<DecisionResponse | null>(null);
+  const [decisionLoading, setDecisionLoading] = useState(true);
+  const [decisionError, setDecisionError] = useState<string | null>(null);
+  const [relativeStrength, setRelativeStrength] =
+    useState<RelativeStrengthResponse | null>(null);
+  const [relativeStrengthLoading, setRelativeStrengthLoading] = useState(true);
 
   useEffect(() => {
     if (!symbol) return;
@@ -226,6 +241,7 @@ export default function StockDetailPage() {
         setHistoricalData(
           validHistorical.map((h: any) => ({
             date: h.date,
+            open: h.open || h.close,
             close: h.close,
             high: h.high || h.close,
             low: h.low || h.close,
@@ -250,6 +266,67 @@ export default function StockDetailPage() {
     fetchData();
   }, [symbol]);
 
+  // Decision summary loads independently so a slow engine never blocks the page
+  useEffect(() => {
+    if (!symbol) return;
+
+    async function fetchDecision() {
+      try {
+        setDecisionLoading(true);
+        setDecisionError(null);
+
+        const res = await fetch("/api/stock/" + symbol + "/decision");
+        const data = await res.json();
+
+        if (!res.ok || data.error) {
+          throw new Error(data.details || data.error || "Failed to load decision");
+        }
+
+        setDecision(data);
+      } catch (err) {
+        setDecision(null);
+        setDecisionError(
+          err instanceof Error ? err.message : "Failed to load decision",
+        );
+      } finally {
+        setDecisionLoading(false);
+      }
+    }
+
+    fetchDecision();
+  }, [symbol]);
+
+  // Relative strength is optional: the card shows "unavailable" on failure
+  useEffect(() => {
+    if (!symbol) return;
+
+    async function fetchRelativeStrength() {
+      try {
+        setRelativeStrengthLoading(true);
+
+        const res = await fetch("/api/stock/" + symbol + "/relative-strength");
+        const data = await res.json();
+        setRelativeStrength(res.ok && !data.error ? data : null);
+      } catch {
+        setRelativeStrength(null);
+      } finally {
+        setRelativeStrengthLoading(false);
+      }
+    }
+
+    fetchRelativeStrength();
+  }, [symbol]);
+
+  // Action plan levels drawn on the price chart
+  const planLevels = useMemo(() => {
+    if (!decision || decision.plan.stopLoss <= 0) return null;
+    return {
+      entry: decision.plan.entryZone.optimal,
+      stop: decision.plan.stopLoss,
+      target: decision.plan.targetPrice.base,
+    };
+  }, [decision]);
+
   // Calculate 52-week high/low from historical data (must be before early returns)
   const week52Data = useMemo(() => {
     if (historicalData.length === 0 || !quote) return null;
@@ -475,6 +552,15 @@ export default function StockDetailPage() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
+        {/* Decision Summary */}
+        <div className="mb-6">
+          <DecisionPanel
+            decision={decision}
+            loading={decisionLoading}
+            error={decisionError}
+          />
+        </div>
+
         {/* Quote & Key Stats - Compact */}
         <div className="mb-6">
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
@@ -606,12 +692,28 @@ export default function StockDetailPage() {
         {/* Charts Row */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
           {/* Price Chart with Moving Averages */}
-          <div className="lg:col-span-2">
-            <PriceChart historicalData={historicalData} symbol={symbol} />
+          <div id="technical" className="lg:col-span-2 scroll-mt-4">
+            <PriceChart
+              historicalData={historicalData}
+              symbol={symbol}
+              planLevels={planLevels}
+            />
           </div>
 
           {/* Quick Stats */}
           <div className="space-y-4">
+            {/* Trend Template */}
+            <TrendTemplateCard
+              historicalData={historicalData}
+              rsRating={relativeStrength?.rsRating}
+            />
+
+            {/* Relative Strength */}
+            <RelativeStrengthCard
+              relativeStrength={relativeStrength}
+              loading={relativeStrengthLoading}
+            />
+
             {/* Analysis Status */}
             <Card title="Analysis Status" subtitle="Available analysis tools">
               <div className="space-y-3">
@@ -645,12 +747,7 @@ export default function StockDetailPage() {
             {/* Quick Actions */}
             <Card title="Quick Actions">
               <div className="space-y-2">
-                <button
-                  disabled
-                  className="w-full px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-left"
-                >
-                  📋 Add to Watchlist (Coming Soon)
-                </button>
+                <WatchlistButton symbol={symbol} />
                 <button
                   disabled
                   className="w-full px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-left"
@@ -669,7 +766,7 @@ export default function StockDetailPage() {
         </div>
 
         {/* Financial Metrics */}
-        <div className="mb-6">
+        <div id="financials" className="mb-6 scroll-mt-4">
           <Card title="Financial Metrics" subtitle="Key fundamental indicators">
             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
               <MetricCard
@@ -780,7 +877,7 @@ export default function StockDetailPage() {
         </div>
 
         {/* Valuation Analysis */}
-        <div className="mb-6">
+        <div id="frameworks" className="mb-6 scroll-mt-4">
           <ValuationCard
             symbol={symbol}
             currentPrice={quote.price}
@@ -796,7 +893,7 @@ export default function StockDetailPage() {
         </div>
 
         {/* Peer Comparison */}
-        <div className="mb-6">
+        <div id="peers" className="mb-6 scroll-mt-4">
           <PeerComparison
             symbol={symbol}
             sector={profile?.sector}
@@ -1,55 +1,47 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-
-// Market configuration with symbol suffixes
-const MARKETS = [
-  { code: 'US', name: 'United States', suffix: '', flag: '🇺🇸', placeholder: 'AAPL, GOOGL, MSFT' },
-  { code: 'TH', name: 'Thailand', suffix: '.BK', flag: '🇹🇭', placeholder: 'PTT, KBANK, CPF' },
-  { code: 'HK', name: 'Hong Kong', suffix: '.HK', flag: '🇭🇰', placeholder: '0700, 9988, 0941' },
-  { code: 'JP', name: 'Japan', suffix: '.T', flag: '🇯🇵', placeholder: '7203, 6758, 4755' },
-  { code: 'CN', name: 'China', suffix: '.SS', flag: '🇨🇳', placeholder: '600519, 601318, 600036' },
+import { usePreferences } from '@/components/preferences/PreferencesProvider';
+import { MARKET_EXCHANGES } from '@/lib/preferences/preferences';
+import { POPULAR_SYMBOLS } from '@/lib/search/symbols';
+import { EXCHANGES, normalizeSymbol } from '@/lib/symbols/symbols';
+import type { SearchMarket } from '@/types/search';
+import type { Exchange } from '@/types/symbols';
+
+// Market configuration; bare symbols are normalized for the market's exchange
+const MARKETS: Market[] = [
+  { code: 'US', name: 'United States', exchange: 'US', flag: '🇺🇸', placeholder: 'AAPL, GOOGL, MSFT' },
+  { code: 'TH', name: 'Thailand', exchange: 'SET', flag: '🇹🇭', placeholder: 'PTT, KBANK, CPF' },
+  { code: 'HK', name: 'Hong Kong', exchange: 'HK', flag: '🇭🇰', placeholder: '0700, 9988, 0941' },
+  { code: 'JP', name: 'Japan', exchange: 'JP', flag: '🇯🇵', placeholder: '7203, 6758, 4755' },
+  { code: 'CN', name: 'China', exchange: 'CN-SS', flag: '🇨🇳', placeholder: '600519, 601318, 000858' },
 ];
 
-// Popular symbols by market
-const POPULAR_SYMBOLS: Record<string, string[]> = {
-  US: ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'NVDA', 'TSLA', 'META', 'BRK.B'],
-  TH: ['PTT', 'KBANK', 'CPF', 'ADVANC', 'AOT', 'BDMS', 'SCC', 'TRUE'],
-  HK: ['0700', '9988', '0941', '1299', '0968', '0883', '0005', '0017'],
-  JP: ['7203', '6758', '4755', '6702', '8604', '6954', '6954', '4519'],
-  CN: ['600519', '601318', '600036', '000858', '601012', '600276', '601888', '000002'],
-};
-
-type MarketCode = keyof typeof POPULAR_SYMBOLS;
-
 interface Market {
-  code: string;
+  code: SearchMarket;
   name: string;
-  suffix: string;
+  exchange: Exchange;
   flag: string;
   placeholder: string;
 }
 
 export default function StocksPage() {
   const router = useRouter();
+  const { preferences } = usePreferences();
   const [selectedMarket, setSelectedMarket] = useState<Market>(MARKETS[0]);
   const [symbolInput, setSymbolInput] = useState('');
   const [isSearching, setIsSearching] = useState(false);
 
+  // Preselect the market of the default market preference
+  useEffect(() => {
+    const country = EXCHANGES[MARKET_EXCHANGES[preferences.defaultMarket]].country;
+    setSelectedMarket(MARKETS.find((market) => market.code === country) ?? MARKETS[0]);
+  }, [preferences.defaultMarket]);
+
   // Format symbol based on selected market
   const formatSymbol = (input: string): string => {
-    const cleaned = input.trim().toUpperCase();
-    if (!cleaned) return '';
-
-    // If already has suffix, return as is
-    if (cleaned.endsWith('.BK') || cleaned.endsWith('.HK') ||
-        cleaned.endsWith('.T') || cleaned.endsWith('.SS')) {
-      return cleaned;
-    }
-
-    // Add market suffix
-    return cleaned + selectedMarket.suffix;
+    return normalizeSymbol(input, selectedMarket.exchange) ?? '';
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -57,20 +49,20 @@ export default function StocksPage() {
     const formatted = formatSymbol(symbolInput);
     if (formatted) {
       setIsSearching(true);
-      router.push(`/stocks/${formatted}`);
+      router.push(`/stocks/${encodeURIComponent(formatted)}`);
     }
   };
 
   const handleQuickSearch = (symbol: string) => {
-    const formatted = symbol + selectedMarket.suffix;
+    const formatted = formatSymbol(symbol);
     setIsSearching(true);
-    router.push(`/stocks/${formatted}`);
+    router.push(`/stocks/${encodeURIComponent(formatted)}`);
   };
 
-  const currentPopular = POPULAR_SYMBOLS[selectedMarket.code as MarketCode] || POPULAR_SYMBOLS.US;
+  const currentPopular = POPULAR_SYMBOLS[selectedMarket.code];
 
   return (
-    <div className="min-h-screen bg-gray-50">
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-950">
       {/* Hero Section */}
       <div className="bg-[#1e3a5f] text-white py-12 sm:py-16">
         <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 text-center">
@@ -83,10 +75,10 @@ export default function StocksPage() {
 
       {/* Search Section */}
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 -mt-8">
-        <div className="bg-white rounded-xl shadow-lg p-6 sm:p-8">
+        <div className="bg-white dark:bg-gray-900 rounded-xl shadow-lg p-6 sm:p-8">
           {/* Market Selector */}
           <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-700 mb-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Select Market
             </label>
             <div className="flex flex-wrap gap-2">
@@ -97,7 +89,7 @@ export default function StocksPage() {
                   className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
                     selectedMarket.code === market.code
                       ? 'bg-[#1e3a5f] text-white shadow-md'
-                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
                   }`}
                 >
                   <span className="mr-1">{market.flag}</span>
@@ -110,7 +102,7 @@ export default function StocksPage() {
           {/* Search Form */}
           <form onSubmit={handleSubmit} className="space-y-4">
             <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                 Stock Symbol
               </label>
               <div className="flex gap-3">
@@ -120,7 +112,7 @@ export default function StocksPage() {
                     value={symbolInput}
                     onChange={(e) => setSymbolInput(e.target.value)}
                     placeholder={selectedMarket.placeholder}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] focus:border-transparent text-sm"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg bg-white dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] focus:border-transparent text-sm"
                     disabled={isSearching}
                     autoFocus
                   />
@@ -152,20 +144,20 @@ export default function StocksPage() {
             </div>
 
             {/* Search Tip */}
-            <div className="flex items-start gap-2 text-xs text-gray-500 bg-gray-50 p-3 rounded-lg">
+            <div className="flex items-start gap-2 text-xs text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 p-3 rounded-lg">
               <span className="text-lg">💡</span>
               <p>
                 Symbol will be auto-formatted: <span className="font-mono font-semibold">
-                  PTT → PTT{selectedMarket.suffix}
+                  {currentPopular[0]} → {formatSymbol(currentPopular[0])}
                 </span>
-                {selectedMarket.suffix && ` for ${selectedMarket.name}`}
+                {` for ${selectedMarket.name}`}
               </p>
             </div>
           </form>
 
           {/* Popular Symbols */}
-          <div className="mt-6 pt-6 border-t border-gray-200">
-            <p className="text-sm font-medium text-gray-700 mb-3">
+          <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-800">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-3">
               Popular {selectedMarket.name} Stocks
             </p>
             <div className="flex flex-wrap gap-2">
@@ -173,7 +165,7 @@ export default function StocksPage() {
                 <button
                   key={symbol}
                   onClick={() => handleQuickSearch(symbol)}
-                  className="px-3 py-1.5 bg-gray-100 hover:bg-[#1e3a5f] hover:text-white text-gray-700 text-sm font-medium rounded-lg transition-all duration-200"
+                  className="px-3 py-1.5 bg-gray-100 dark:bg-gray-800 hover:bg-[#1e3a5f] hover:text-white text-gray-700 dark:text-gray-300 text-sm font-medium rounded-lg transition-all duration-200"
                 >
                   {symbol}
                 </button>
@@ -185,40 +177,40 @@ export default function StocksPage() {
         {/* Info Cards */}
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6">
           {/* Analysis Features */}
-          <div className="bg-white rounded-lg p-5 shadow-sm border border-gray-100">
+          <div className="bg-white dark:bg-gray-900 rounded-lg p-5 shadow-sm border border-gray-100 dark:border-gray-800">
             <div className="text-2xl mb-2">📊</div>
-            <h3 className="text-sm font-semibold text-gray-900 mb-1">CAN SLIM Analysis</h3>
-            <p className="text-xs text-gray-600">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">CAN SLIM Analysis</h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
               Growth stock evaluation with 7-factor scoring system
             </p>
           </div>
 
-          <div className="bg-white rounded-lg p-5 shadow-sm border border-gray-100">
+          <div className="bg-white dark:bg-gray-900 rounded-lg p-5 shadow-sm border border-gray-100 dark:border-gray-800">
             <div className="text-2xl mb-2">🎯</div>
-            <h3 className="text-sm font-semibold text-gray-900 mb-1">SPEA Framework</h3>
-            <p className="text-xs text-gray-600">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">SPEA Framework</h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
               4-quadrant analysis: Strategy, Finance, Earnings, Valuation
             </p>
           </div>
 
-          <div className="bg-white rounded-lg p-5 shadow-sm border border-gray-100">
+          <div className="bg-white dark:bg-gray-900 rounded-lg p-5 shadow-sm border border-gray-100 dark:border-gray-800">
             <div className="text-2xl mb-2">💰</div>
-            <h3 className="text-sm font-semibold text-gray-900 mb-1">Value Metrics</h3>
-            <p className="text-xs text-gray-600">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Value Metrics</h3>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
               Graham Number, Piotroski F-Score, Margin of Safety
             </p>
           </div>
         </div>
 
         {/* Market Info */}
-        <div className="mt-6 bg-blue-50 rounded-lg p-4 border border-blue-100">
+        <div className="mt-6 bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4 border border-blue-100 dark:border-blue-900">
           <div className="flex items-start gap-3">
             <span className="text-xl">🌍</span>
             <div className="flex-1">
-              <p className="text-sm font-semibold text-blue-900 mb-1">
+              <p className="text-sm font-semibold text-blue-900 dark:text-blue-200 mb-1">
                 Multi-Market Support
               </p>
-              <p className="text-xs text-blue-800">
+              <p className="text-xs text-blue-800 dark:text-blue-300">
                 <strong>US Stocks:</strong> Full analysis with Yahoo Finance data<br />
                 <strong>Thai Stocks:</strong> Use Thai format (PTT, KBANK) - auto-converts to PTT.BK<br />
                 <strong>Other Markets:</strong> Hong Kong, Japan, China supported
@@ -0,0 +1,286 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Plus, RefreshCw, Trash2 } from 'lucide-react';
+import Card from '@/components/ui/Card';
+import SignInPrompt from '@/components/auth/SignInPrompt';
+import { useAuth } from '@/components/auth/AuthProvider';
+import { usePreferences } from '@/components/preferences/PreferencesProvider';
+import WatchlistTable from '@/components/watchlist/WatchlistTable';
+import { MARKET_EXCHANGES } from '@/lib/preferences/preferences';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import type { Watchlist, WatchlistResponse, WatchlistRow } from '@/types/watchlist';
+
+const DEFAULT_WATCHLIST_ID = 'default';
+
+export default function WatchlistPage() {
+  const { user, loading: authLoading, authFetch } = useAuth();
+  const { preferences } = usePreferences();
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [activeId, setActiveId] = useState<string>(DEFAULT_WATCHLIST_ID);
+  const [rows, setRows] = useState<WatchlistRow[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<number | null>(null);
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const [newListName, setNewListName] = useState('');
+  const [newSymbol, setNewSymbol] = useState('');
+
+  const fetchWatchlists = useCallback(async () => {
+    try {
+      const res = await authFetch('/api/watchlist');
+      if (!res.ok) return;
+      const data = await res.json();
+      setWatchlists(data.watchlists || []);
+    } catch (err) {
+      console.error('Error fetching watchlists:', err);
+    }
+  }, [authFetch]);
+
+  const fetchRows = useCallback(async (id: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const res = await authFetch(`/api/watchlist/${id}`);
+      // The default list does not exist until its first symbol is added
+      if (res.status === 404) {
+        setRows([]);
+        setLastUpdated(null);
+        return;
+      }
+
+      const data: WatchlistResponse & { error?: string; details?: string } = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Failed to load watchlist');
+
+      setRows(data.rows);
+      setLastUpdated(data.timestamp);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchWatchlists();
+  }, [user, fetchWatchlists]);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchRows(activeId);
+  }, [user, activeId, fetchRows]);
+
+  // Show the default list as a tab even before it has been created
+  const tabs: Array<Pick<Watchlist, 'id' | 'name'>> = watchlists.some((w) => w.id === DEFAULT_WATCHLIST_ID)
+    ? watchlists
+    : [{ id: DEFAULT_WATCHLIST_ID, name: 'My Watchlist' }, ...watchlists];
+  const activeList = tabs.find((w) => w.id === activeId);
+
+  const handleCreateList = async () => {
+    const name = newListName.trim();
+    if (!name) return;
+
+    try {
+      setActionError(null);
+      const res = await authFetch('/api/watchlist', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      });
+      const created = await res.json();
+      if (!res.ok) throw new Error(created.details || created.error || 'Failed to create watchlist');
+
+      setWatchlists((prev) => [...prev, created]);
+      setNewListName('');
+      setActiveId(created.id);
+    } catch (err) {
+      setActionError((err as Error).message);
+    }
+  };
+
+  const handleDeleteList = async () => {
+    if (!activeList || !window.confirm(`Delete watchlist "${activeList.name}" and all of its stocks?`)) return;
+
+    try {
+      setActionError(null);
+      const res = await authFetch(`/api/watchlist/${activeList.id}`, { method: 'DELETE' });
+      if (!res.ok) throw new Error('Failed to delete watchlist');
+
+      setWatchlists((prev) => prev.filter((w) => w.id !== activeList.id));
+      setActiveId(DEFAULT_WATCHLIST_ID);
+    } catch (err) {
+      setActionError((err as Error).message);
+    }
+  };
+
+  const handleAddSymbol = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input = newSymbol.trim();
+    if (!input) return;
+    // Bare codes get the default market's suffix; invalid input is left for the API to reject
+    const symbol = normalizeSymbol(input, MARKET_EXCHANGES[preferences.defaultMarket]) ?? input;
+
+    try {
+      setActionError(null);
+      const res = await authFetch(`/api/watchlist/${activeId}/items`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ symbol }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Failed to add symbol');
+
+      setNewSymbol('');
+      await Promise.all([fetchRows(activeId), fetchWatchlists()]);
+    } catch (err) {
+      setActionError((err as Error).message);
+    }
+  };
+
+  const handleRemove = async (symbol: string) => {
+    try {
+      setActionError(null);
+      const res = await authFetch(`/api/watchlist/${activeId}/items/${encodeURIComponent(symbol)}`, {
+        method: 'DELETE',
+      });
+      if (!res.ok) throw new Error(`Failed to remove ${symbol}`);
+
+      setRows((prev) => prev.filter((row) => row.symbol !== symbol));
+    } catch (err) {
+      setActionError((err as Error).message);
+    }
+  };
+
+  const handleSaveNotes = async (symbol: string, notes: string) => {
+    const res = await authFetch(`/api/watchlist/${activeId}/items/${encodeURIComponent(symbol)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ notes }),
+    });
+    const item = await res.json();
+    if (!res.ok) {
+      setActionError(item.details || item.error || 'Failed to save notes');
+      throw new Error('Failed to save notes');
+    }
+
+    setActionError(null);
+    setRows((prev) => prev.map((row) => (row.symbol === symbol ? { ...row, notes: item.notes } : row)));
+  };
+
+  if (!authLoading && !user) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100 mb-6">Watchlist</h1>
+        <SignInPrompt feature="watchlists" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="flex items-start justify-between mb-6">
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-gray-100">Watchlist</h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Live quotes with decision, CAN SLIM and SPEA scores for the stocks you follow
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => fetchRows(activeId)}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 border border-gray-300 dark:border-gray-700 rounded-md hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {/* List tabs */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {tabs.map((list) => (
+          <button
+            key={list.id}
+            type="button"
+            onClick={() => setActiveId(list.id)}
+            aria-pressed={list.id === activeId}
+            className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+              list.id === activeId
+                ? 'bg-[#1e3a5f] text-white border-[#1e3a5f]'
+                : 'bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800'
+            }`}
+          >
+            {list.name}
+          </button>
+        ))}
+        <div className="flex items-center gap-1">
+          <input
+            type="text"
+            value={newListName}
+            onChange={(e) => setNewListName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateList()}
+            placeholder="New list name"
+            maxLength={60}
+            className="w-36 px-2 py-1.5 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+          />
+          <button
+            type="button"
+            onClick={handleCreateList}
+            className="p-1.5 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            aria-label="Create watchlist"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <Card
+        title={activeList?.name ?? 'Watchlist'}
+        subtitle={lastUpdated ? `Updated ${new Date(lastUpdated).toLocaleTimeString()}` : undefined}
+      >
+        <form onSubmit={handleAddSymbol} className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={newSymbol}
+            onChange={(e) => setNewSymbol(e.target.value)}
+            placeholder="Add symbol, e.g. PTT.BK"
+            className="flex-1 max-w-xs px-3 py-2 text-sm border border-gray-300 rounded-md bg-white dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm font-medium text-white bg-[#1e3a5f] rounded-md hover:bg-[#2a4a73]"
+          >
+            Add
+          </button>
+          <button
+            type="button"
+            onClick={handleDeleteList}
+            className="ml-auto inline-flex items-center gap-1 text-xs font-medium text-gray-500 dark:text-gray-400 hover:text-red-600"
+          >
+            <Trash2 className="w-3 h-3" />
+            Delete list
+          </button>
+        </form>
+        {actionError && <p className="text-xs text-red-600 dark:text-red-400 mb-3">{actionError}</p>}
+
+        {error ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        ) : loading && rows.length === 0 ? (
+          <div className="animate-pulse space-y-3">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="h-10 bg-gray-200 dark:bg-gray-700 rounded"></div>
+            ))}
+          </div>
+        ) : (
+          <div className={loading ? 'opacity-50' : ''}>
+            <WatchlistTable rows={rows} onSaveNotes={handleSaveNotes} onRemove={handleRemove} />
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Notification Center Component
+ * Bell in the header listing triggered alerts for the signed-in user
+ * Features:
+ * - Unread count badge, refreshed every few minutes
+ * - Mark all as read when the list is opened
+ * - "Check now" evaluates the user's rules immediately
+ */
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Bell, RefreshCw } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import type { AlertNotification } from '@/types/alerts';
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+function timeAgo(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+export default function NotificationCenter() {
+  const { user, authFetch } = useAuth();
+  const [notifications, setNotifications] = useState<AlertNotification[]>([]);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState<string[]>([]);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchNotifications = useCallback(async () => {
+    try {
+      const res = await authFetch('/api/alerts/notifications');
+      if (!res.ok) return;
+      const data = await res.json();
+      setNotifications(data.notifications || []);
+    } catch (err) {
+      console.error('Error fetching notifications:', err);
+    }
+  }, [authFetch]);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      return;
+    }
+
+    fetchNotifications();
+    const timer = setInterval(fetchNotifications, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [user, fetchNotifications]);
+
+  if (!user) return null;
+
+  const unread = notifications.filter((n) => !n.read).length;
+
+  const handleOpen = async () => {
+    const next = !open;
+    setOpen(next);
+    if (!next || unread === 0) return;
+
+    try {
+      await authFetch('/api/alerts/notifications', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      // The badge clears now; the newly read ones stay highlighted while open
+      setHighlighted(notifications.filter((n) => !n.read).map((n) => n.id));
+      setNotifications((prev) => prev.map((n) => ({ ...n, read: true })));
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+    }
+  };
+
+  const handleCheckNow = async () => {
+    try {
+      setChecking(true);
+      setError(null);
+      const res = await authFetch('/api/alerts/evaluate', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Failed to check alerts');
+      await fetchNotifications();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleOpen}
+        className="relative p-2 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 dark:text-gray-300 dark:hover:text-white dark:hover:bg-gray-800 transition-colors"
+        aria-label={unread > 0 ? `Notifications (${unread} unread)` : 'Notifications'}
+      >
+        <Bell className="w-5 h-5" />
+        {unread > 0 && (
+          <span className="absolute top-1 right-1 min-w-[16px] h-4 px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-4 text-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 dark:bg-gray-900 dark:border-gray-800 rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Alerts</h3>
+            <button
+              onClick={handleCheckNow}
+              disabled={checking}
+              className="inline-flex items-center gap-1 text-xs font-medium text-[#1e3a5f] dark:text-blue-300 hover:underline disabled:opacity-50"
+            >
+              <RefreshCw className={`w-3 h-3 ${checking ? 'animate-spin' : ''}`} />
+              Check now
+            </button>
+          </div>
+
+          {error && <p className="px-4 pt-3 text-xs text-red-600">{error}</p>}
+
+          {notifications.length > 0 ? (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800">
+              {notifications.slice(0, 20).map((notification) => (
+                <li
+                  key={notification.id}
+                  className={`px-4 py-3 ${highlighted.includes(notification.id) ? 'bg-blue-50 dark:bg-gray-800' : ''}`}
+                >
+                  <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{notification.title}</p>
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">{notification.message}</p>
+                  <p className="text-[11px] text-gray-400 mt-1">{timeAgo(notification.triggeredAt)}</p>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No alerts triggered yet</p>
+          )}
+
+          <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-800">
+            <Link
+              href="/alerts"
+              onClick={() => setOpen(false)}
+              className="text-xs font-medium text-[#1e3a5f] dark:text-blue-300 hover:underline"
+            >
+              Manage alert rules
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
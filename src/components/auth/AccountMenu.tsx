@@ -0,0 +1,141 @@
+/**
+ * Account Menu Component
+ * Sign-in / sign-out control shown on the right of the header
+ * Features:
+ * - Signed out: dropdown with Google sign-in and an email link form
+ * - Signed in: avatar (or initial) with the account email and Sign out
+ */
+
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { LogIn, LogOut, Mail } from 'lucide-react';
+import { useAuth } from './AuthProvider';
+
+export default function AccountMenu() {
+  const { user, loading, signInWithGoogle, sendSignInLink, signOut } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [linkSent, setLinkSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (loading) {
+    return <div className="w-8 h-8 rounded-full bg-gray-100 animate-pulse" />;
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleEmailLink = (e: FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+    run(async () => {
+      await sendSignInLink(email.trim());
+      setLinkSent(true);
+    });
+  };
+
+  const label = user?.email || user?.displayName || 'Account';
+
+  return (
+    <div className="relative">
+      {user ? (
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          aria-label="Account menu"
+        >
+          {user.photoURL ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={user.photoURL} alt="" className="w-8 h-8 rounded-full" referrerPolicy="no-referrer" />
+          ) : (
+            <span className="w-8 h-8 rounded-full bg-[#1e3a5f] text-white text-sm font-semibold flex items-center justify-center">
+              {label.charAt(0).toUpperCase()}
+            </span>
+          )}
+        </button>
+      ) : (
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-1.5 px-3 py-2 bg-[#1e3a5f] text-white text-sm font-medium rounded-lg hover:bg-[#2a4a73] transition-colors"
+        >
+          <LogIn className="w-4 h-4" />
+          <span className="hidden sm:inline">Sign in</span>
+        </button>
+      )}
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border border-gray-200 dark:bg-gray-900 dark:border-gray-800 rounded-lg shadow-lg p-4 z-50">
+          {user ? (
+            <div className="space-y-3">
+              <div>
+                <p className="text-xs text-gray-500">Signed in as</p>
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{label}</p>
+              </div>
+              <button
+                onClick={() => run(async () => {
+                  await signOut();
+                  setOpen(false);
+                })}
+                className="w-full flex items-center justify-center gap-2 px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <LogOut className="w-4 h-4" />
+                Sign out
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <button
+                onClick={() => run(async () => {
+                  await signInWithGoogle();
+                  setOpen(false);
+                })}
+                className="w-full px-3 py-2 text-sm font-medium text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Continue with Google
+              </button>
+
+              <div className="flex items-center gap-2 text-xs text-gray-400">
+                <div className="flex-1 border-t border-gray-200" />
+                or
+                <div className="flex-1 border-t border-gray-200" />
+              </div>
+
+              {linkSent ? (
+                <p className="text-sm text-gray-600">
+                  Check <span className="font-medium">{email}</span> for a sign-in link.
+                </p>
+              ) : (
+                <form onSubmit={handleEmailLink} className="space-y-2">
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                    className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] focus:border-transparent"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!email.trim()}
+                    className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-[#1e3a5f] text-white text-sm font-medium rounded-lg hover:bg-[#2a4a73] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <Mail className="w-4 h-4" />
+                    Email me a sign-in link
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+
+          {error && <p className="mt-3 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * Auth Provider
+ * Firebase Auth state for the whole app, exposed through useAuth()
+ * Features:
+ * - Google sign-in (popup) and passwordless email link sign-in
+ * - Completes an email link sign-in when the app is opened from the link
+ * - authFetch: fetch with the user's ID token as a Bearer header, used by
+ *   the per-user API routes (watchlists, portfolio, saved screens)
+ */
+
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  GoogleAuthProvider,
+  isSignInWithEmailLink,
+  onAuthStateChanged,
+  sendSignInLinkToEmail,
+  signInWithEmailLink,
+  signInWithPopup,
+  signOut as firebaseSignOut,
+  type User,
+} from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+
+const EMAIL_STORAGE_KEY = 'ministock:emailForSignIn';
+
+interface AuthContextValue {
+  user: User | null;
+  loading: boolean;
+  signInWithGoogle: () => Promise<void>;
+  sendSignInLink: (email: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  authFetch: (input: string, init?: RequestInit) => Promise<Response>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export default function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (nextUser) => {
+      setUser(nextUser);
+      setLoading(false);
+    });
+
+    // Finish an email link sign-in; the email is remembered from sendSignInLink,
+    // otherwise (link opened on another device) ask for it again
+    const href = window.location.href;
+    if (isSignInWithEmailLink(auth, href)) {
+      const email =
+        window.localStorage.getItem(EMAIL_STORAGE_KEY) ||
+        window.prompt('Confirm your email to finish signing in');
+
+      if (email) {
+        signInWithEmailLink(auth, email, href)
+          .then(() => {
+            window.localStorage.removeItem(EMAIL_STORAGE_KEY);
+            window.history.replaceState(null, '', window.location.pathname);
+          })
+          .catch((err) => console.error('Error completing email link sign-in:', err));
+      }
+    }
+
+    return unsubscribe;
+  }, []);
+
+  const signInWithGoogle = useCallback(async () => {
+    await signInWithPopup(auth, new GoogleAuthProvider());
+  }, []);
+
+  const sendSignInLink = useCallback(async (email: string) => {
+    await sendSignInLinkToEmail(auth, email, {
+      url: window.location.href,
+      handleCodeInApp: true,
+    });
+    window.localStorage.setItem(EMAIL_STORAGE_KEY, email);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    await firebaseSignOut(auth);
+  }, []);
+
+  const authFetch = useCallback(async (input: string, init: RequestInit = {}) => {
+    const headers = new Headers(init.headers);
+    const token = await auth.currentUser?.getIdToken();
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+    return fetch(input, { ...init, headers });
+  }, []);
+
+  const value = useMemo(
+    () => ({ user, loading, signInWithGoogle, sendSignInLink, signOut, authFetch }),
+    [user, loading, signInWithGoogle, sendSignInLink, signOut, authFetch]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
+
+/**
+ * Current auth state and actions; must be used inside <AuthProvider>
+ */
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
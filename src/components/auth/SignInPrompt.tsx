@@ -0,0 +1,34 @@
+/**
+ * Sign In Prompt Component
+ * Placeholder shown on per-user pages (watchlists, portfolio) when signed out
+ */
+
+'use client';
+
+import { Lock } from 'lucide-react';
+import { useAuth } from './AuthProvider';
+
+interface SignInPromptProps {
+  feature: string;
+}
+
+export default function SignInPrompt({ feature }: SignInPromptProps) {
+  const { signInWithGoogle } = useAuth();
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-10 text-center">
+      <Lock className="w-8 h-8 text-gray-400 mx-auto mb-3" />
+      <h2 className="text-lg font-semibold text-gray-900">Sign in to use {feature}</h2>
+      <p className="text-sm text-gray-500 mt-1 mb-4">
+        Your {feature} are saved to your account and only visible to you.
+      </p>
+      <button
+        onClick={() => signInWithGoogle().catch((err) => console.error('Error signing in:', err))}
+        className="px-4 py-2 bg-[#1e3a5f] text-white text-sm font-medium rounded-lg hover:bg-[#2a4a73] transition-colors"
+      >
+        Continue with Google
+      </button>
+      <p className="text-xs text-gray-400 mt-3">Or use Sign in in the header for an email link.</p>
+    </div>
+  );
+}
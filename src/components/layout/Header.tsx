@@ -2,7 +2,10 @@
 
 import Link from 'next/link';
 import MinistockIcon from './MinistockIcon';
-import { useState, FormEvent } from 'react';
+import AccountMenu from '@/components/auth/AccountMenu';
+import NotificationCenter from '@/components/alerts/NotificationCenter';
+import SymbolAutocomplete from '@/components/search/SymbolAutocomplete';
+import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Search, X } from 'lucide-react';
 
@@ -12,27 +15,15 @@ interface HeaderProps {
 
 export default function Header({ onMenuClick }: HeaderProps) {
   const [searchOpen, setSearchOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const router = useRouter();
 
-  const handleSearch = (e: FormEvent) => {
-    e.preventDefault();
-    if (searchQuery.trim()) {
-      const symbol = searchQuery.trim().toUpperCase();
-      router.push(`/stocks/${symbol}`);
-      setSearchQuery('');
-      setSearchOpen(false);
-    }
-  };
-
-  const handleClear = () => {
-    setSearchQuery('');
-    const input = document.getElementById('header-search-input') as HTMLInputElement;
-    if (input) input.focus();
+  const handleSelect = (symbol: string) => {
+    router.push(`/stocks/${encodeURIComponent(symbol)}`);
+    setSearchOpen(false);
   };
 
   return (
-    <header className="bg-white border-b border-gray-200 sticky top-0 z-50">
+    <header className="bg-white border-b border-gray-200 sticky top-0 z-50 dark:bg-gray-900 dark:border-gray-800">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center h-16">
           {/* Left side - Mobile menu button and Logo */}
@@ -40,7 +31,7 @@ export default function Header({ onMenuClick }: HeaderProps) {
             {/* Mobile menu button */}
             <button
               onClick={onMenuClick}
-              className="lg:hidden p-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+              className="lg:hidden p-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-100 dark:text-gray-300 dark:hover:text-white dark:hover:bg-gray-800 transition-colors"
               aria-label="Open menu"
             >
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -51,7 +42,7 @@ export default function Header({ onMenuClick }: HeaderProps) {
             {/* Logo */}
             <Link href="/" className="flex items-center space-x-2">
               <MinistockIcon />
-              <span className="text-xl font-semibold text-gray-900">ministock</span>
+              <span className="text-xl font-semibold text-gray-900 dark:text-gray-100">ministock</span>
             </Link>
           </div>
 
@@ -60,54 +51,29 @@ export default function Header({ onMenuClick }: HeaderProps) {
             {!searchOpen ? (
               <button
                 onClick={() => setSearchOpen(true)}
-                className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-500 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                className="w-full flex items-center gap-2 px-4 py-2 text-sm text-gray-500 bg-gray-100 rounded-lg hover:bg-gray-200 dark:text-gray-400 dark:bg-gray-800 dark:hover:bg-gray-700 transition-colors"
               >
                 <Search className="w-4 h-4" />
                 <span>Search stocks...</span>
               </button>
             ) : (
-              <form onSubmit={handleSearch} className="relative w-full flex items-center gap-2">
-                <div className="relative flex-1">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
-                  <input
-                    id="header-search-input"
-                    type="text"
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    placeholder="Search stocks (e.g., AAPL, PTT.BK)"
-                    className="w-full pl-9 pr-20 py-2 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] focus:border-transparent transition-all"
-                    autoFocus
-                  />
-                  {searchQuery && (
-                    <button
-                      type="button"
-                      onClick={handleClear}
-                      className="absolute right-16 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600 transition-colors"
-                      aria-label="Clear search"
-                    >
-                      <X className="w-3.5 h-3.5" />
-                    </button>
-                  )}
-                </div>
-                <button
-                  type="submit"
-                  disabled={!searchQuery.trim()}
-                  className="px-3 py-2 bg-[#1e3a5f] text-white text-sm font-medium rounded-lg hover:bg-[#2a4a6f] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  Analyze
-                </button>
+              <div className="w-full flex items-center gap-2">
+                <SymbolAutocomplete
+                  onSelect={handleSelect}
+                  placeholder="Search stocks (e.g., AAPL, PTT, Toyota)"
+                  submitLabel="Analyze"
+                  className="flex-1"
+                  autoFocus
+                />
                 <button
                   type="button"
-                  onClick={() => {
-                    setSearchOpen(false);
-                    setSearchQuery('');
-                  }}
+                  onClick={() => setSearchOpen(false)}
                   className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
                   aria-label="Close search"
                 >
                   <X className="w-4 h-4" />
                 </button>
-              </form>
+              </div>
             )}
           </div>
 
@@ -115,74 +81,53 @@ export default function Header({ onMenuClick }: HeaderProps) {
           <nav className="hidden md:flex space-x-1">
             <Link
               href="/"
-              className="text-gray-600 hover:text-gray-900 px-3 py-2 text-sm font-medium transition-colors"
+              className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white px-3 py-2 text-sm font-medium transition-colors"
             >
               Dashboard
             </Link>
             <Link
               href="/market"
-              className="text-gray-600 hover:text-gray-900 px-3 py-2 text-sm font-medium transition-colors"
+              className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white px-3 py-2 text-sm font-medium transition-colors"
             >
               Market
             </Link>
             <Link
               href="/watchlist"
-              className="text-gray-600 hover:text-gray-900 px-3 py-2 text-sm font-medium transition-colors"
+              className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white px-3 py-2 text-sm font-medium transition-colors"
             >
               Watchlist
             </Link>
             <Link
               href="/portfolio"
-              className="text-gray-600 hover:text-gray-900 px-3 py-2 text-sm font-medium transition-colors"
+              className="text-gray-600 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white px-3 py-2 text-sm font-medium transition-colors"
             >
               Portfolio
             </Link>
           </nav>
 
-          {/* Right side - Mobile Search */}
+          {/* Right side - Mobile Search and Account */}
           <div className="flex items-center space-x-2 md:space-x-4">
             <button
               onClick={() => setSearchOpen(!searchOpen)}
-              className="md:hidden p-2 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+              className="md:hidden p-2 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 dark:text-gray-300 dark:hover:text-white dark:hover:bg-gray-800 transition-colors"
               aria-label="Search stocks"
             >
               <Search className="w-5 h-5" />
             </button>
+            <NotificationCenter />
+            <AccountMenu />
           </div>
         </div>
 
         {/* Mobile Search Overlay */}
         {searchOpen && (
-          <div className="md:hidden py-3 border-t border-gray-200">
-            <form onSubmit={handleSearch} className="relative">
-              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
-              <input
-                id="header-search-input-mobile"
-                type="text"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search stocks (e.g., AAPL, PTT.BK)"
-                className="w-full pl-9 pr-20 py-2.5 text-sm bg-white border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] focus:border-transparent"
-                autoFocus
-              />
-              {searchQuery && (
-                <button
-                  type="button"
-                  onClick={handleClear}
-                  className="absolute right-16 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600"
-                  aria-label="Clear search"
-                >
-                  <X className="w-3.5 h-3.5" />
-                </button>
-              )}
-              <button
-                type="submit"
-                disabled={!searchQuery.trim()}
-                className="absolute right-2 top-1/2 -translate-y-1/2 px-3 py-1.5 bg-[#1e3a5f] text-white text-xs font-medium rounded-lg hover:bg-[#2a4a6f] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-              >
-                Analyze
-              </button>
-            </form>
+          <div className="md:hidden py-3 border-t border-gray-200 dark:border-gray-800">
+            <SymbolAutocomplete
+              onSelect={handleSelect}
+              placeholder="Search stocks (e.g., AAPL, PTT, Toyota)"
+              submitLabel="Analyze"
+              autoFocus
+            />
           </div>
         )}
       </div>
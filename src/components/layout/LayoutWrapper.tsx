@@ -1,6 +1,8 @@
 'use client';
 
 import { useState } from 'react';
+import AuthProvider from '@/components/auth/AuthProvider';
+import PreferencesProvider from '@/components/preferences/PreferencesProvider';
 import Header from './Header';
 import Sidebar from './Sidebar';
 
@@ -15,12 +17,16 @@ export default function LayoutWrapper({
   const closeSidebar = () => setIsSidebarOpen(false);
 
   return (
-    <div className="flex flex-col lg:flex-row min-h-screen">
-      <Sidebar isOpen={isSidebarOpen} onClose={closeSidebar} />
-      <div className="flex-1 flex flex-col">
-        <Header onMenuClick={toggleSidebar} />
-        <main className="flex-1 bg-gray-50">{children}</main>
-      </div>
-    </div>
+    <AuthProvider>
+      <PreferencesProvider>
+        <div className="flex flex-col lg:flex-row min-h-screen">
+          <Sidebar isOpen={isSidebarOpen} onClose={closeSidebar} />
+          <div className="flex-1 flex flex-col">
+            <Header onMenuClick={toggleSidebar} />
+            <main className="flex-1 bg-gray-50 dark:bg-gray-950">{children}</main>
+          </div>
+        </div>
+      </PreferencesProvider>
+    </AuthProvider>
   );
 }
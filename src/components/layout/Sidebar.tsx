@@ -9,8 +9,11 @@ const navItems = [
   { href: '/', label: 'Dashboard', icon: '📊' },
   { href: '/market', label: 'Market', icon: '📈' },
   { href: '/stocks', label: 'Stocks', icon: '📋' },
+  { href: '/screener', label: 'Screener', icon: '🔍' },
   { href: '/watchlist', label: 'Watchlist', icon: '⭐' },
   { href: '/portfolio', label: 'Portfolio', icon: '💼' },
+  { href: '/alerts', label: 'Alerts', icon: '🔔' },
+  { href: '/settings', label: 'Settings', icon: '⚙️' },
 ];
 
 interface SidebarProps {
@@ -56,7 +59,7 @@ export default function Sidebar({ isOpen = false, onClose }: SidebarProps) {
       <aside
         className={`
           fixed lg:sticky top-0 left-0 z-50 h-screen
-          w-64 bg-gray-50 border-r border-gray-200
+          w-64 bg-gray-50 border-r border-gray-200 dark:bg-gray-900 dark:border-gray-800
           transform transition-transform duration-300 ease-in-out
           lg:transform-none
           ${isOpen ? 'translate-x-0' : '-translate-x-full lg:translate-x-0'}
@@ -67,7 +70,7 @@ export default function Sidebar({ isOpen = false, onClose }: SidebarProps) {
           <div className="flex justify-end p-4 lg:hidden">
             <button
               onClick={onClose}
-              className="p-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-200 transition-colors"
+              className="p-2 rounded-md text-gray-600 hover:text-gray-900 hover:bg-gray-200 dark:text-gray-300 dark:hover:text-white dark:hover:bg-gray-800 transition-colors"
               aria-label="Close menu"
             >
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -77,7 +80,7 @@ export default function Sidebar({ isOpen = false, onClose }: SidebarProps) {
           </div>
 
           <div className="p-6 pt-0 lg:pt-6">
-            <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-4">
+            <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-4">
               Menu
             </h2>
             <nav className="space-y-1">
@@ -92,7 +95,7 @@ export default function Sidebar({ isOpen = false, onClose }: SidebarProps) {
                       flex items-center space-x-3 px-3 py-2 rounded-md text-sm font-medium transition-colors
                       ${isActive
                         ? 'bg-navy-700 text-white'
-                        : 'text-gray-700 hover:bg-gray-200'
+                        : 'text-gray-700 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-800'
                       }
                     `}
                   >
@@ -108,21 +111,21 @@ export default function Sidebar({ isOpen = false, onClose }: SidebarProps) {
           <SidebarSearch />
 
           {/* Market Selector */}
-          <div className="p-6 border-t border-gray-200">
-            <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
+          <div className="p-6 border-t border-gray-200 dark:border-gray-800">
+            <h2 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-3">
               Markets
             </h2>
             <div className="space-y-2">
-              <button className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-200 rounded-md transition-colors">
+              <button className="w-full text-left px-3 py-2 text-sm text-gray-700 hover:bg-gray-200 dark:text-gray-300 dark:hover:bg-gray-800 rounded-md transition-colors">
                 🇹🇭 Thailand (SET/MAI)
               </button>
-              <button className="w-full text-left px-3 py-2 text-sm text-gray-600 hover:bg-gray-200 rounded-md transition-colors">
+              <button className="w-full text-left px-3 py-2 text-sm text-gray-600 hover:bg-gray-200 dark:text-gray-400 dark:hover:bg-gray-800 rounded-md transition-colors">
                 🇺🇸 United States
               </button>
-              <button className="w-full text-left px-3 py-2 text-sm text-gray-600 hover:bg-gray-200 rounded-md transition-colors">
+              <button className="w-full text-left px-3 py-2 text-sm text-gray-600 hover:bg-gray-200 dark:text-gray-400 dark:hover:bg-gray-800 rounded-md transition-colors">
                 🇭🇰 Hong Kong
               </button>
-              <button className="w-full text-left px-3 py-2 text-sm text-gray-600 hover:bg-gray-200 rounded-md transition-colors">
+              <button className="w-full text-left px-3 py-2 text-sm text-gray-600 hover:bg-gray-200 dark:text-gray-400 dark:hover:bg-gray-800 rounded-md transition-colors">
                 🇨🇳 China
               </button>
             </div>
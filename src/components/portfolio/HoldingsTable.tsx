@@ -0,0 +1,92 @@
+/**
+ * Holdings Table Component
+ * Open positions with average cost, market value and gains
+ * Features:
+ * - Prices and cost in the stock's own currency
+ * - Value and unrealized gain converted to the base currency
+ * - Flags holdings valued at cost when no quote is available
+ * - Flags holdings left unconverted when their currency has no FX rate
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { formatMoney, formatPercent, getChangeColor } from '@/lib/format';
+import { displaySymbol } from '@/lib/symbols/symbols';
+import type { Currency, PortfolioPosition } from '@/types/portfolio';
+
+interface HoldingsTableProps {
+  holdings: PortfolioPosition[];
+  baseCurrency: Currency;
+}
+
+export default function HoldingsTable({ holdings, baseCurrency }: HoldingsTableProps) {
+  if (holdings.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No open positions. Record a buy to get started.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-gray-600">
+            <th scope="col" className="px-3 py-2 text-left font-medium">Symbol</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Shares</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Avg Cost</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Price</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Value ({baseCurrency})</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Unrealized</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Realized</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Weight</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {holdings.map((holding) => (
+            <tr key={holding.symbol} className="hover:bg-gray-50">
+              <td className="px-3 py-2">
+                <Link href={`/stocks/${holding.symbol}`} className="font-semibold text-[#1e3a5f] hover:underline">
+                  {displaySymbol(holding.symbol)}
+                </Link>
+                <p className="text-xs text-gray-500 truncate max-w-[12rem]">
+                  {holding.name} · {holding.sector}
+                </p>
+              </td>
+              <td className="px-3 py-2 text-right text-gray-700">{holding.shares.toLocaleString('en-US')}</td>
+              <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                {formatMoney(holding.averagePrice, holding.currency)}
+              </td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">
+                {holding.quoteAvailable ? (
+                  formatMoney(holding.currentPrice, holding.currency)
+                ) : (
+                  <span className="text-gray-400" title="No quote available, valued at cost">
+                    n/a
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-900 whitespace-nowrap">
+                {holding.totalValueBase !== null ? (
+                  formatMoney(holding.totalValueBase, baseCurrency)
+                ) : (
+                  <span className="text-gray-400" title={`No ${holding.currency}→${baseCurrency} FX rate`}>
+                    {formatMoney(holding.totalValue, holding.currency)}
+                  </span>
+                )}
+              </td>
+              <td className={`px-3 py-2 text-right whitespace-nowrap ${getChangeColor(holding.gainLoss)}`}>
+                {holding.gainLossBase !== null
+                  ? formatMoney(holding.gainLossBase, baseCurrency)
+                  : formatMoney(holding.gainLoss, holding.currency)}
+                <p className="text-xs">{formatPercent(holding.gainLossPercent)}</p>
+              </td>
+              <td className={`px-3 py-2 text-right whitespace-nowrap ${getChangeColor(holding.realizedGain)}`}>
+                {holding.realizedGain !== 0 ? formatMoney(holding.realizedGain, holding.currency) : '-'}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-700">{holding.weight.toFixed(1)}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+/**
+ * Transaction Form Component
+ * Records a buy, sell, dividend or split in the portfolio log
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Card from '@/components/ui/Card';
+import { usePreferences } from '@/components/preferences/PreferencesProvider';
+import { MARKET_EXCHANGES } from '@/lib/preferences/preferences';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
+import type { TransactionType } from '@/types/portfolio';
+
+interface TransactionFormProps {
+  onSubmit: (body: Record<string, unknown>) => Promise<void>;
+}
+
+const TYPE_LABELS: Record<TransactionType, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  dividend: 'Dividend',
+  split: 'Split',
+};
+
+const inputClass =
+  'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]';
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export default function TransactionForm({ onSubmit }: TransactionFormProps) {
+  const { preferences } = usePreferences();
+  const [type, setType] = useState<TransactionType>('buy');
+  const [symbol, setSymbol] = useState('');
+  const [date, setDate] = useState(today);
+  const [shares, setShares] = useState('');
+  const [price, setPrice] = useState('');
+  const [fees, setFees] = useState('');
+  const [amount, setAmount] = useState('');
+  const [ratio, setRatio] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = symbol.trim();
+    const normalized = normalizeSymbol(input, MARKET_EXCHANGES[preferences.defaultMarket]) ?? input;
+    const body: Record<string, unknown> = { type, symbol: normalized, date, notes };
+    if (type === 'buy' || type === 'sell') {
+      body.shares = Number(shares);
+      body.price = Number(price);
+      body.fees = fees ? Number(fees) : 0;
+    } else if (type === 'dividend') {
+      body.amount = Number(amount);
+    } else {
+      body.ratio = Number(ratio);
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onSubmit(body);
+      setShares('');
+      setPrice('');
+      setFees('');
+      setAmount('');
+      setRatio('');
+      setNotes('');
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card title="Record Transaction" subtitle="Amounts in the stock's trading currency">
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <div className="grid grid-cols-4 gap-1 p-1 bg-gray-100 rounded-lg">
+          {(Object.keys(TYPE_LABELS) as TransactionType[]).map((key) => (
+            <button
+              key={key}
+              type="button"
+              onClick={() => setType(key)}
+              aria-pressed={type === key}
+              className={`py-1.5 text-xs font-medium rounded-md transition-colors ${
+                type === key ? 'bg-white text-[#1e3a5f] shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {TYPE_LABELS[key]}
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <label className="block text-xs text-gray-600">
+            Symbol
+            <input
+              type="text"
+              required
+              value={symbol}
+              onChange={(e) => setSymbol(e.target.value)}
+              placeholder="PTT.BK"
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            Date
+            <input
+              type="date"
+              required
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className={`mt-1 ${inputClass}`}
+            />
+          </label>
+        </div>
+
+        {(type === 'buy' || type === 'sell') && (
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block text-xs text-gray-600">
+              Shares
+              <input type="number" required min="0" step="any" value={shares} onChange={(e) => setShares(e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-xs text-gray-600">
+              Price
+              <input type="number" required min="0" step="any" value={price} onChange={(e) => setPrice(e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+            <label className="block text-xs text-gray-600">
+              Fees
+              <input type="number" min="0" step="any" value={fees} onChange={(e) => setFees(e.target.value)} className={`mt-1 ${inputClass}`} />
+            </label>
+          </div>
+        )}
+
+        {type === 'dividend' && (
+          <label className="block text-xs text-gray-600">
+            Total cash received
+            <input type="number" required min="0" step="any" value={amount} onChange={(e) => setAmount(e.target.value)} className={`mt-1 ${inputClass}`} />
+          </label>
+        )}
+
+        {type === 'split' && (
+          <label className="block text-xs text-gray-600">
+            New shares per old share (2 = 2-for-1, 0.1 = 1-for-10)
+            <input type="number" required min="0" step="any" value={ratio} onChange={(e) => setRatio(e.target.value)} className={`mt-1 ${inputClass}`} />
+          </label>
+        )}
+
+        <label className="block text-xs text-gray-600">
+          Notes
+          <input type="text" maxLength={500} value={notes} onChange={(e) => setNotes(e.target.value)} className={`mt-1 ${inputClass}`} />
+        </label>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full px-4 py-2 text-sm font-medium text-white bg-[#1e3a5f] rounded-md hover:bg-[#2a4a73] disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : `Record ${TYPE_LABELS[type]}`}
+        </button>
+      </form>
+    </Card>
+  );
+}
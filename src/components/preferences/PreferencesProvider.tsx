@@ -0,0 +1,107 @@
+/**
+ * Preferences Provider
+ * User preferences (default market, currency, theme) exposed through usePreferences()
+ * Features:
+ * - Cached in localStorage so they survive reloads, signed in or not
+ * - Loaded from and saved to /api/preferences for the signed-in user
+ * - Applies the theme as the `dark` class on <html> (Tailwind class strategy)
+ */
+
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import {
+  DEFAULT_PREFERENCES,
+  PREFERENCES_STORAGE_KEY,
+  normalizePreferences,
+} from '@/lib/preferences/preferences';
+import type { UserPreferences } from '@/lib/types';
+
+interface PreferencesContextValue {
+  preferences: UserPreferences;
+  updatePreferences: (update: Partial<UserPreferences>) => Promise<void>;
+}
+
+const PreferencesContext = createContext<PreferencesContextValue | null>(null);
+
+function cachePreferences(preferences: UserPreferences) {
+  try {
+    window.localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Storage unavailable (private mode); preferences still apply for this visit
+  }
+}
+
+export default function PreferencesProvider({ children }: { children: React.ReactNode }) {
+  const { user, authFetch } = useAuth();
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+
+  // Cached preferences first, so the page does not wait on the network
+  useEffect(() => {
+    try {
+      const cached = window.localStorage.getItem(PREFERENCES_STORAGE_KEY);
+      if (cached) setPreferences(normalizePreferences(JSON.parse(cached)));
+    } catch {
+      // Ignore unreadable cache; defaults apply
+    }
+  }, []);
+
+  // The signed-in user's saved preferences win over the local cache
+  useEffect(() => {
+    if (!user) return;
+
+    async function fetchPreferences() {
+      try {
+        const res = await authFetch('/api/preferences');
+        if (!res.ok) return;
+        const saved = normalizePreferences(await res.json());
+        setPreferences(saved);
+        cachePreferences(saved);
+      } catch (err) {
+        console.error('Error fetching preferences:', err);
+      }
+    }
+    fetchPreferences();
+  }, [user, authFetch]);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle('dark', preferences.theme === 'dark');
+  }, [preferences.theme]);
+
+  const updatePreferences = useCallback(
+    async (update: Partial<UserPreferences>) => {
+      const next = normalizePreferences({ ...preferences, ...update });
+      setPreferences(next);
+      cachePreferences(next);
+
+      if (!user) return;
+
+      const res = await authFetch('/api/preferences', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.details || data.error || 'Failed to save preferences');
+      }
+    },
+    [preferences, user, authFetch]
+  );
+
+  const value = useMemo(() => ({ preferences, updatePreferences }), [preferences, updatePreferences]);
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>;
+}
+
+/**
+ * Current preferences and an updater; must be used inside <PreferencesProvider>
+ */
+export function usePreferences(): PreferencesContextValue {
+  const context = useContext(PreferencesContext);
+  if (!context) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+}
@@ -0,0 +1,151 @@
+/**
+ * Screener Filters Component
+ * Range sliders, sector chips and trend toggles that build StockScreenerCriteria
+ */
+
+'use client';
+
+import Card from '@/components/ui/Card';
+import {
+  SCREENER_FILTERS,
+  SECTOR_OPTIONS,
+  STAGE_OPTIONS,
+  formatFilterValue,
+  isFilterActive,
+  type ScreenerFilterKey,
+  type ScreenerFilterValues,
+  type ScreenerTrendFilters,
+} from '@/lib/screener/filters';
+import type { WeinsteinStage } from '@/types/technical';
+
+interface ScreenerFiltersProps {
+  values: ScreenerFilterValues;
+  sectors: string[];
+  onValueChange: (key: ScreenerFilterKey, value: number) => void;
+  onSectorsChange: (sectors: string[]) => void;
+  trend: ScreenerTrendFilters;
+  onTrendChange: (trend: ScreenerTrendFilters) => void;
+  onReset: () => void;
+}
+
+function chipClass(selected: boolean): string {
+  return `px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+    selected ? 'bg-[#1e3a5f] text-white border-[#1e3a5f]' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+  }`;
+}
+
+export default function ScreenerFilters({
+  values,
+  sectors,
+  onValueChange,
+  onSectorsChange,
+  trend,
+  onTrendChange,
+  onReset,
+}: ScreenerFiltersProps) {
+  const toggleSector = (sector: string) => {
+    onSectorsChange(sectors.includes(sector) ? sectors.filter((s) => s !== sector) : [...sectors, sector]);
+  };
+
+  const toggleStage = (stage: WeinsteinStage) => {
+    const stages = trend.stages.includes(stage) ? trend.stages.filter((s) => s !== stage) : [...trend.stages, stage];
+    onTrendChange({ ...trend, stages });
+  };
+
+  return (
+    <Card title="Criteria" subtitle="Sliders at their loosest end are ignored">
+      {/* Sector chips */}
+      <div className="mb-5">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Sectors</p>
+        <div className="flex flex-wrap gap-2">
+          {SECTOR_OPTIONS.map((sector) => {
+            const selected = sectors.includes(sector);
+            return (
+              <button
+                key={sector}
+                type="button"
+                onClick={() => toggleSector(sector)}
+                aria-pressed={selected}
+                className={chipClass(selected)}
+              >
+                {sector}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Trend template, stage and RS line chips */}
+      <div className="mb-5">
+        <p className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">Trend</p>
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={() => onTrendChange({ ...trend, trendTemplate: !trend.trendTemplate })}
+            aria-pressed={trend.trendTemplate}
+            className={chipClass(trend.trendTemplate)}
+          >
+            Passes trend template
+          </button>
+          {STAGE_OPTIONS.map(({ stage, label }) => {
+            const selected = trend.stages.includes(stage);
+            return (
+              <button
+                key={stage}
+                type="button"
+                onClick={() => toggleStage(stage)}
+                aria-pressed={selected}
+                className={chipClass(selected)}
+              >
+                Stage {label}
+              </button>
+            );
+          })}
+          <button
+            type="button"
+            onClick={() => onTrendChange({ ...trend, rsLineNewHigh: !trend.rsLineNewHigh })}
+            aria-pressed={trend.rsLineNewHigh}
+            className={chipClass(trend.rsLineNewHigh)}
+          >
+            RS line at new high
+          </button>
+        </div>
+      </div>
+
+      {/* Range sliders */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-4">
+        {SCREENER_FILTERS.map((config) => {
+          const value = values[config.key];
+          const active = isFilterActive(config, value);
+          return (
+            <label key={config.key} className="block">
+              <span className="flex justify-between text-sm">
+                <span className="text-gray-700">{config.label}</span>
+                <span className={active ? 'font-semibold text-[#1e3a5f]' : 'text-gray-400'}>
+                  {formatFilterValue(config, value)}
+                </span>
+              </span>
+              <input
+                type="range"
+                min={config.min}
+                max={config.max}
+                step={config.step}
+                value={value}
+                onChange={(e) => onValueChange(config.key, Number(e.target.value))}
+                className="w-full mt-1 accent-[#1e3a5f]"
+              />
+            </label>
+          );
+        })}
+      </div>
+
+      <button
+        type="button"
+        onClick={onReset}
+        className="mt-5 text-xs font-medium text-gray-500 hover:text-gray-800"
+      >
+        Reset all criteria
+      </button>
+    </Card>
+  );
+}
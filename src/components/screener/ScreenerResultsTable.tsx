@@ -0,0 +1,159 @@
+/**
+ * Screener Results Table Component
+ * Sortable screener matches with CAN SLIM / SPEA score badges, Weinstein stage and RS rating
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { formatMarketCap, formatPercent, getChangeColor } from '@/lib/format';
+import { displaySymbol } from '@/lib/symbols/symbols';
+import type { ScreenerResult, ScreenerSortKey } from '@/types/market';
+
+interface ScreenerResultsTableProps {
+  results: ScreenerResult[];
+  sort: ScreenerSortKey;
+  order: 'asc' | 'desc';
+  onSort: (key: ScreenerSortKey) => void;
+}
+
+const COLUMNS: Array<{ key: ScreenerSortKey; label: string; align?: 'right' }> = [
+  { key: 'symbol', label: 'Symbol' },
+  { key: 'changePercent', label: 'Price', align: 'right' },
+  { key: 'marketCap', label: 'Mkt Cap', align: 'right' },
+  { key: 'peRatio', label: 'P/E', align: 'right' },
+  { key: 'pbRatio', label: 'P/B', align: 'right' },
+  { key: 'roe', label: 'ROE', align: 'right' },
+  { key: 'dividendYield', label: 'Yield', align: 'right' },
+  { key: 'canslimScore', label: 'CAN SLIM', align: 'right' },
+  { key: 'speaScore', label: 'SPEA', align: 'right' },
+  { key: 'stage', label: 'Stage', align: 'right' },
+  { key: 'rsRating', label: 'RS', align: 'right' },
+  { key: 'score', label: 'Score', align: 'right' },
+];
+
+function getScoreBadgeClass(score: number): string {
+  if (score >= 65) return 'bg-green-100 text-green-800';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+}
+
+function ScoreBadge({ score }: { score?: number }) {
+  if (score === undefined) return <span className="text-gray-400">-</span>;
+  return (
+    <span className={`inline-block min-w-[2.5rem] text-center text-xs font-semibold px-2 py-0.5 rounded ${getScoreBadgeClass(score)}`}>
+      {score}
+    </span>
+  );
+}
+
+function StageBadge({ stage, trendTemplate }: { stage?: number | null; trendTemplate?: boolean | null }) {
+  if (!stage) return <span className="text-gray-400">-</span>;
+  return (
+    <span
+      className={`inline-block text-xs font-semibold px-2 py-0.5 rounded ${
+        stage === 2 ? 'bg-green-100 text-green-800' : stage === 4 ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'
+      }`}
+      title={trendTemplate ? 'Passes the trend template' : undefined}
+    >
+      {stage}
+      {trendTemplate && ' ✓'}
+    </span>
+  );
+}
+
+function RsBadge({ rating, newHigh }: { rating?: number | null; newHigh?: boolean | null }) {
+  if (rating === null || rating === undefined) return <span className="text-gray-400">-</span>;
+  return (
+    <span
+      className={`inline-block min-w-[2.5rem] text-center text-xs font-semibold px-2 py-0.5 rounded ${
+        rating >= 80 ? 'bg-green-100 text-green-800' : rating >= 50 ? 'bg-gray-100 text-gray-700' : 'bg-red-100 text-red-800'
+      }`}
+      title={newHigh ? 'RS line at a 52-week high' : undefined}
+    >
+      {rating}
+      {newHigh && ' ▲'}
+    </span>
+  );
+}
+
+function formatRatio(value: number | null | undefined, suffix: string): string {
+  return value === null || value === undefined || !isFinite(value) || value === 0
+    ? '-'
+    : `${value.toFixed(suffix === '%' ? 1 : 2)}${suffix}`;
+}
+
+export default function ScreenerResultsTable({ results, sort, order, onSort }: ScreenerResultsTableProps) {
+  if (results.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No stocks match these criteria.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200">
+            {COLUMNS.map((column) => {
+              const active = sort === column.key;
+              return (
+                <th
+                  key={column.key}
+                  scope="col"
+                  aria-sort={active ? (order === 'asc' ? 'ascending' : 'descending') : 'none'}
+                  className={`px-3 py-2 font-medium text-gray-600 whitespace-nowrap ${
+                    column.align === 'right' ? 'text-right' : 'text-left'
+                  }`}
+                >
+                  <button
+                    type="button"
+                    onClick={() => onSort(column.key)}
+                    className={`inline-flex items-center gap-1 hover:text-gray-900 ${active ? 'text-[#1e3a5f]' : ''}`}
+                  >
+                    {column.label}
+                    {active && (order === 'asc' ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />)}
+                  </button>
+                </th>
+              );
+            })}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {results.map((result) => (
+            <tr key={result.symbol} className="hover:bg-gray-50">
+              <td className="px-3 py-2">
+                <Link href={`/stocks/${result.symbol}`} className="font-semibold text-[#1e3a5f] hover:underline">
+                  {displaySymbol(result.symbol)}
+                </Link>
+                <p className="text-xs text-gray-500 truncate max-w-[12rem]">
+                  {result.name}
+                  {result.sector && ` · ${result.sector}`}
+                </p>
+              </td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">
+                <span className="text-gray-900">{result.price > 0 ? result.price.toFixed(2) : '-'}</span>
+                <p className={`text-xs ${getChangeColor(result.changePercent)}`}>{formatPercent(result.changePercent)}</p>
+              </td>
+              <td className="px-3 py-2 text-right text-gray-700 whitespace-nowrap">
+                {result.marketCap > 0 ? formatMarketCap(result.marketCap) : '-'}
+              </td>
+              <td className="px-3 py-2 text-right text-gray-700">{formatRatio(result.peRatio, 'x')}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{formatRatio(result.pbRatio, 'x')}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{formatRatio(result.roe, '%')}</td>
+              <td className="px-3 py-2 text-right text-gray-700">{formatRatio(result.dividendYield, '%')}</td>
+              <td className="px-3 py-2 text-right"><ScoreBadge score={result.canslimScore} /></td>
+              <td className="px-3 py-2 text-right"><ScoreBadge score={result.speaScore} /></td>
+              <td className="px-3 py-2 text-right">
+                <StageBadge stage={result.stage} trendTemplate={result.trendTemplate} />
+              </td>
+              <td className="px-3 py-2 text-right">
+                <RsBadge rating={result.rsRating} newHigh={result.rsLineNewHigh} />
+              </td>
+              <td className="px-3 py-2 text-right"><ScoreBadge score={result.score} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Symbol Autocomplete Component
+ * Search input suggesting symbols by symbol or company name
+ * Features:
+ * - Instant suggestions from the local symbol master, refined by /api/search
+ * - Keyboard navigation (↑ ↓ Enter Esc)
+ * - Enter without a highlighted suggestion resolves the market suffix
+ *   ("ptt" → "PTT.BK") using the default market preference
+ */
+
+'use client';
+
+import { useEffect, useId, useMemo, useRef, useState, FormEvent, KeyboardEvent } from 'react';
+import { Search, X } from 'lucide-react';
+import { usePreferences } from '@/components/preferences/PreferencesProvider';
+import { MARKET_EXCHANGES } from '@/lib/preferences/preferences';
+import { buildSymbolMaster, mergeSymbolEntries, resolveSymbol, searchSymbols } from '@/lib/search/symbols';
+import { EXCHANGES } from '@/lib/symbols/symbols';
+import type { SearchMarket, SymbolEntry, SymbolSearchResponse } from '@/types/search';
+
+const DEBOUNCE_MS = 200;
+const SUGGESTION_LIMIT = 8;
+
+const MARKET_FLAGS: Record<SearchMarket, string> = {
+  US: '🇺🇸',
+  TH: '🇹🇭',
+  HK: '🇭🇰',
+  JP: '🇯🇵',
+  CN: '🇨🇳',
+};
+
+// Static seeds only; the server adds SETTRADE rankings and Yahoo results
+const LOCAL_SYMBOLS = buildSymbolMaster();
+
+interface SymbolAutocompleteProps {
+  onSelect: (symbol: string) => void;
+  placeholder?: string;
+  submitLabel?: string; // renders a submit button when set
+  autoFocus?: boolean;
+  className?: string;
+}
+
+export default function SymbolAutocomplete({
+  onSelect,
+  placeholder = 'Search symbol or company',
+  submitLabel,
+  autoFocus = false,
+  className = '',
+}: SymbolAutocompleteProps) {
+  const { preferences } = usePreferences();
+  const preferredMarket = EXCHANGES[MARKET_EXCHANGES[preferences.defaultMarket]].country;
+  const listId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [query, setQuery] = useState('');
+  const [remote, setRemote] = useState<SymbolEntry[] | null>(null);
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  // Local matches show immediately; server results replace them when they arrive
+  const suggestions = useMemo(
+    () => remote ?? searchSymbols(LOCAL_SYMBOLS, query, { limit: SUGGESTION_LIMIT, preferredMarket }),
+    [remote, query, preferredMarket]
+  );
+
+  useEffect(() => {
+    setRemote(null);
+    setHighlighted(-1);
+    const q = query.trim();
+    if (!q) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q, limit: String(SUGGESTION_LIMIT), market: preferredMarket });
+        const res = await fetch(`/api/search?${params}`, { signal: controller.signal });
+        if (!res.ok) return;
+        const data: SymbolSearchResponse = await res.json();
+        setRemote(data.results);
+      } catch (err) {
+        if ((err as Error).name !== 'AbortError') {
+          console.error('Error searching symbols:', err);
+        }
+      }
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query, preferredMarket]);
+
+  const select = (symbol: string) => {
+    if (!symbol) return;
+    onSelect(symbol);
+    setQuery('');
+    setOpen(false);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (highlighted >= 0 && suggestions[highlighted]) {
+      select(suggestions[highlighted].symbol);
+    } else {
+      select(resolveSymbol(query, mergeSymbolEntries(suggestions, LOCAL_SYMBOLS), preferredMarket));
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted((index) => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setHighlighted((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      setHighlighted(-1);
+    }
+  };
+
+  const showList = open && query.trim() !== '' && suggestions.length > 0;
+
+  return (
+    <form onSubmit={handleSubmit} className={`relative flex items-center gap-2 ${className}`}>
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+        <input
+          ref={inputRef}
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          autoComplete="off"
+          role="combobox"
+          aria-label="Search stocks"
+          aria-expanded={showList}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+          className="w-full pl-9 pr-8 py-2 text-sm bg-white border border-gray-300 dark:bg-gray-800 dark:border-gray-700 dark:text-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#1e3a5f] focus:border-transparent"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={() => {
+              setQuery('');
+              inputRef.current?.focus();
+            }}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors"
+            aria-label="Clear search"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        )}
+
+        {showList && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="absolute left-0 right-0 mt-1 max-h-80 overflow-y-auto bg-white border border-gray-200 dark:bg-gray-900 dark:border-gray-800 rounded-lg shadow-lg z-50"
+          >
+            {suggestions.map((entry, index) => (
+              <li
+                key={entry.symbol}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === highlighted}
+                // mousedown fires before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  select(entry.symbol);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex items-center gap-3 px-3 py-2 cursor-pointer ${
+                  index === highlighted ? 'bg-gray-100 dark:bg-gray-800' : ''
+                }`}
+              >
+                <span className="font-mono text-sm font-semibold text-gray-900 dark:text-gray-100 min-w-[5.5rem]">
+                  {entry.symbol}
+                </span>
+                <span className="flex-1 min-w-0 truncate text-xs text-gray-600 dark:text-gray-400">
+                  {entry.name !== entry.symbol ? entry.name : entry.sector ?? ''}
+                </span>
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap" title={entry.market}>
+                  {MARKET_FLAGS[entry.market]} {entry.market}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {submitLabel && (
+        <button
+          type="submit"
+          disabled={!query.trim()}
+          className="px-3 py-2 bg-[#1e3a5f] text-white text-sm font-medium rounded-lg hover:bg-[#2a4a73] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {submitLabel}
+        </button>
+      )}
+    </form>
+  );
+}
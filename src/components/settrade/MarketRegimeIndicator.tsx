@@ -17,6 +17,7 @@ import {
   formatTradingValueMn,
   formatPercent,
 } from '@/lib/format';
+import { calculateMarketRegime } from '@/lib/analysis/market-regime';
 
 interface SectorData {
   id: string;
@@ -69,84 +70,21 @@ export default function MarketRegimeIndicator({
   sectors,
   investors,
 }: MarketRegimeIndicatorProps) {
-  // Calculate breadth metrics
-  const advancingSectors = sectors.filter(s => s.chgPct > 0).length;
-  const decliningSectors = sectors.filter(s => s.chgPct < 0).length;
-  const breadthPct = (advancingSectors / sectors.length) * 100;
-  const avgChange = sectors.reduce((sum, s) => sum + s.chgPct, 0) / sectors.length;
+  // Breadth, money flow and regime classification
+  const regime = calculateMarketRegime(sectors, investors);
+  const {
+    advancingSectors,
+    decliningSectors,
+    breadthPct,
+    avgChange,
+    totalValue,
+    smartMoneyNet,
+    regimeScore,
+  } = regime;
 
-  // Calculate participation (total value traded)
-  const totalValue = sectors.reduce((sum, s) => sum + s.valMn, 0);
-
-  // Smart money flow
+  // Individual smart money components for the breakdown
   const foreign = investors.find(i => i.id === 'FOREIGN');
   const institute = investors.find(i => i.id === 'LOCAL_INST');
-  const smartMoneyNet = (foreign?.netValue || 0) + (institute?.netValue || 0);
-
-  // Determine market regime
-  const getRegime = () => {
-    // Strong Bull conditions
-    if (breadthPct >= 70 && avgChange >= 1 && smartMoneyNet > 0) {
-      return {
-        regime: 'STRONG BULL',
-        icon: '🚀',
-        description: 'Strong uptrend with broad participation',
-        recommendation: 'Aggressive risk-on, maximize equity exposure',
-        riskLevel: 'HIGH RISK / HIGH REWARD',
-        positionSize: '100%+ (can use leverage)',
-      };
-    }
-    // Bull conditions
-    if (breadthPct >= 55 && avgChange >= 0.3 && smartMoneyNet >= 0) {
-      return {
-        regime: 'BULL',
-        icon: '📈',
-        description: 'Positive trend with good breadth',
-        recommendation: 'Risk-on, accumulate quality positions',
-        riskLevel: 'MODERATE RISK',
-        positionSize: '80-100% of capital',
-      };
-    }
-    // Strong Bear conditions
-    if (breadthPct <= 30 && avgChange <= -0.5 && smartMoneyNet < 0) {
-      return {
-        regime: 'STRONG BEAR',
-        icon: '🔻',
-        description: 'Strong downtrend, panic selling',
-        recommendation: 'Defensive, preserve capital, wait for bottom',
-        riskLevel: 'HIGH RISK TO THE DOWNSIDE',
-        positionSize: '0-20% (hold cash or shorts)',
-      };
-    }
-    // Bear conditions
-    if (breadthPct <= 45 && avgChange <= -0.2) {
-      return {
-        regime: 'BEAR',
-        icon: '📉',
-        description: 'Negative trend, weak participation',
-        recommendation: 'Risk-off, reduce positions, selective only',
-        riskLevel: 'ELEVATED RISK',
-        positionSize: '20-40% of capital',
-      };
-    }
-    // Neutral
-    return {
-      regime: 'NEUTRAL',
-      icon: '➡️',
-      description: 'Mixed signals, direction unclear',
-      recommendation: 'Wait for clarity, maintain balanced approach',
-      riskLevel: 'MODERATE RISK',
-      positionSize: '40-60% of capital',
-    };
-  };
-
-  const regime = getRegime();
-
-  // Calculate regime score (-100 to +100)
-  const breadthScore = (breadthPct - 50) * 2; // -100 to +100
-  const flowScore = smartMoneyNet > 0 ? 30 : smartMoneyNet < 0 ? -30 : 0;
-  const trendScore = avgChange * 20; // Scale change
-  const regimeScore = breadthScore + flowScore + trendScore;
 
   // Regime meter segments
   const getMeterSegments = () => {
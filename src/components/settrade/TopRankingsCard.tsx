@@ -7,6 +7,7 @@
 'use client';
 
 import { formatPercent, getChangeColor } from '@/lib/format';
+import { formatSymbol } from '@/lib/symbols/symbols';
 
 interface TopStock {
   symbol: string;
@@ -38,7 +39,7 @@ export default function TopRankingsCard({ topByValue, topByVolume }: TopRankings
             <div
               key={`value-${stock.symbol}`}
               className="flex items-center justify-between py-1.5 px-2 bg-white border border-gray-100 rounded hover:border-gray-200 transition-colors cursor-pointer group"
-              onClick={() => window.location.href = `/stocks/${stock.symbol}.BK`}
+              onClick={() => window.location.href = `/stocks/${formatSymbol(stock.symbol, 'SET')}`}
             >
               <div className="flex items-center gap-2 flex-1 min-w-0">
                 <span
@@ -75,7 +76,7 @@ export default function TopRankingsCard({ topByValue, topByVolume }: TopRankings
             <div
               key={`volume-${stock.symbol}`}
               className="flex items-center justify-between py-1.5 px-2 bg-white border border-gray-100 rounded hover:border-gray-200 transition-colors cursor-pointer group"
-              onClick={() => window.location.href = `/stocks/${stock.symbol}.BK`}
+              onClick={() => window.location.href = `/stocks/${formatSymbol(stock.symbol, 'SET')}`}
             >
               <div className="flex items-center gap-2 flex-1 min-w-0">
                 <span
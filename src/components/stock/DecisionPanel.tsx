@@ -0,0 +1,274 @@
+/**
+ * Decision Panel Component
+ * Answers the six decision questions for a stock in one place
+ * Features:
+ * - Overall action rating, score and confidence
+ * - Collapsible section per question with key points
+ * - Action plan numbers with their rationale
+ * - Evidence links that jump to the supporting cards on the page
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import Card from '@/components/ui/Card';
+import StatusBadge from '@/components/ui/StatusBadge';
+import type { ActionRating, DecisionResponse, EvidenceLinks } from '@/types/decision';
+
+interface DecisionPanelProps {
+  decision: DecisionResponse | null;
+  loading?: boolean;
+  error?: string | null;
+}
+
+type SectionKey = 'quality' | 'growth' | 'valuation' | 'timing' | 'risk' | 'plan';
+
+interface SectionConfig {
+  key: SectionKey;
+  question: string;
+  evidence: keyof EvidenceLinks;
+  evidenceLabel: string;
+}
+
+const SECTIONS: SectionConfig[] = [
+  { key: 'quality', question: 'Is this stock GOOD?', evidence: 'financials', evidenceLabel: 'Financial metrics' },
+  { key: 'growth', question: 'Does it really GROW?', evidence: 'financials', evidenceLabel: 'Financial metrics' },
+  { key: 'valuation', question: 'Is it EXPENSIVE?', evidence: 'frameworks', evidenceLabel: 'Valuation analysis' },
+  { key: 'timing', question: 'Is the TIMING right?', evidence: 'technical', evidenceLabel: 'Price chart' },
+  { key: 'risk', question: 'What are the RISKS?', evidence: 'peers', evidenceLabel: 'Peer comparison' },
+  { key: 'plan', question: "What's the PLAN?", evidence: 'technical', evidenceLabel: 'Plan on chart' },
+];
+
+function getRatingStatus(rating: ActionRating): 'success' | 'warning' | 'danger' {
+  if (rating === 'Strong Buy' || rating === 'Buy') return 'success';
+  if (rating === 'Hold') return 'warning';
+  return 'danger';
+}
+
+function getScoreColor(score: number): string {
+  if (score >= 65) return 'text-green-600';
+  if (score >= 50) return 'text-yellow-600';
+  return 'text-red-600';
+}
+
+const SEVERITY_COLORS = {
+  critical: 'bg-red-100 text-red-800',
+  high: 'bg-orange-100 text-orange-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-gray-100 text-gray-700',
+};
+
+/**
+ * Section header label and badge text for each question
+ */
+function getSectionSummary(decision: DecisionResponse, key: SectionKey): { badge: string; score?: number } {
+  switch (key) {
+    case 'quality':
+      return { badge: decision.quality.rating, score: decision.quality.score };
+    case 'growth':
+      return { badge: decision.growth.rating, score: decision.growth.score };
+    case 'valuation':
+      return { badge: decision.valuation.status, score: decision.valuation.score };
+    case 'timing':
+      return { badge: `${decision.timing.rating} · ${decision.timing.regime}`, score: decision.timing.score };
+    case 'risk':
+      return { badge: `${decision.risk.level} risk`, score: decision.risk.score };
+    case 'plan':
+      return { badge: decision.plan.rating };
+  }
+}
+
+function KeyPoints({ points }: { points: string[] }) {
+  if (points.length === 0) return null;
+  return (
+    <ul className="space-y-1">
+      {points.map((point, i) => (
+        <li key={i} className="text-sm text-gray-700 flex gap-2">
+          <span className="text-gray-400">•</span>
+          <span>{point}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function PlanRow({ label, value, rationale }: { label: string; value: string; rationale: string }) {
+  return (
+    <div className="py-2 border-b border-gray-100 last:border-b-0">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">{label}</span>
+        <span className="font-semibold text-gray-900">{value}</span>
+      </div>
+      <p className="text-xs text-gray-500 mt-0.5">{rationale}</p>
+    </div>
+  );
+}
+
+function SectionBody({ decision, sectionKey }: { decision: DecisionResponse; sectionKey: SectionKey }) {
+  switch (sectionKey) {
+    case 'quality':
+    case 'growth':
+    case 'valuation':
+    case 'timing':
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-800">{decision[sectionKey].summary}</p>
+          <KeyPoints points={decision[sectionKey].keyPoints} />
+        </div>
+      );
+    case 'risk':
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-800">{decision.risk.summary}</p>
+          {decision.risk.riskFactors.length > 0 && (
+            <ul className="space-y-1">
+              {decision.risk.riskFactors.map((factor, i) => (
+                <li key={i} className="flex items-start gap-2 text-sm text-gray-700">
+                  <span className={`text-xs px-1.5 py-0.5 rounded font-medium ${SEVERITY_COLORS[factor.severity]}`}>
+                    {factor.severity}
+                  </span>
+                  <span>{factor.description}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      );
+    case 'plan': {
+      const { plan } = decision;
+      return (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-800">{plan.reasoning}</p>
+          <div>
+            <PlanRow
+              label="Entry Zone"
+              value={`${plan.entryZone.min.toFixed(2)} - ${plan.entryZone.max.toFixed(2)}`}
+              rationale={plan.rationale.entryZone}
+            />
+            <PlanRow label="Stop-Loss" value={plan.stopLoss.toFixed(2)} rationale={plan.rationale.stopLoss} />
+            <PlanRow
+              label="Targets (bear / base / bull)"
+              value={`${plan.targetPrice.bearish.toFixed(2)} / ${plan.targetPrice.base.toFixed(2)} / ${plan.targetPrice.bullish.toFixed(2)}`}
+              rationale={plan.rationale.targetPrice}
+            />
+            <PlanRow
+              label="Position Size"
+              value={`${plan.positionSizing.minPercent}-${plan.positionSizing.maxPercent}% (${plan.positionSizing.optimalPercent}% optimal)`}
+              rationale={plan.rationale.positionSizing}
+            />
+          </div>
+          <p className="text-xs text-gray-500">Time horizon: {plan.timeHorizon}</p>
+          {plan.invalidationTriggers.length > 0 && (
+            <div>
+              <p className="text-xs font-semibold text-gray-700 mb-1">Invalidation triggers</p>
+              <KeyPoints points={plan.invalidationTriggers} />
+            </div>
+          )}
+        </div>
+      );
+    }
+  }
+}
+
+export default function DecisionPanel({ decision, loading = false, error = null }: DecisionPanelProps) {
+  const [openSections, setOpenSections] = useState<Set<SectionKey>>(new Set(['plan']));
+
+  const toggleSection = (key: SectionKey) => {
+    setOpenSections((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <Card title="Decision Summary" subtitle="Six questions before you buy">
+        <div className="animate-pulse space-y-3">
+          <div className="h-10 bg-gray-200 rounded w-1/3"></div>
+          <div className="h-4 bg-gray-200 rounded w-2/3"></div>
+          <div className="h-24 bg-gray-200 rounded"></div>
+        </div>
+      </Card>
+    );
+  }
+
+  if (error || !decision) {
+    return (
+      <Card title="Decision Summary" subtitle="Six questions before you buy">
+        <p className="text-sm text-gray-500">{error || 'Decision summary is not available for this stock.'}</p>
+      </Card>
+    );
+  }
+
+  const { overall } = decision;
+  const missingSources = Object.entries(decision.dataSources)
+    .filter(([, available]) => !available)
+    .map(([source]) => source);
+
+  return (
+    <Card title="Decision Summary" subtitle="Six questions before you buy">
+      {/* Overall verdict */}
+      <div className="flex flex-col sm:flex-row sm:items-center gap-4 mb-4">
+        <div className="flex items-center gap-3">
+          <StatusBadge status={getRatingStatus(overall.rating)} className="text-base px-3 py-1">
+            {overall.rating}
+          </StatusBadge>
+          <span className={`text-3xl font-bold ${getScoreColor(overall.score)}`}>{overall.score}</span>
+          <span className="text-sm text-gray-500">/ 100</span>
+        </div>
+        <div className="flex-1">
+          <p className="text-sm text-gray-800">{overall.summary}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Confidence: <span className="font-semibold capitalize">{overall.confidence}</span>
+            {missingSources.length > 0 && ` · Missing data: ${missingSources.join(', ')}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Questions */}
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+        {SECTIONS.map((section, i) => {
+          const isOpen = openSections.has(section.key);
+          const { badge, score } = getSectionSummary(decision, section.key);
+          return (
+            <div key={section.key}>
+              <button
+                type="button"
+                onClick={() => toggleSection(section.key)}
+                aria-expanded={isOpen}
+                className="w-full flex items-center justify-between gap-3 px-4 py-3 text-left hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-sm font-medium text-gray-900">
+                  Q{i + 1}. {section.question}
+                </span>
+                <span className="flex items-center gap-3">
+                  <span className="text-xs text-gray-600">{badge}</span>
+                  {score !== undefined && (
+                    <span className={`text-sm font-bold ${getScoreColor(score)}`}>{score}</span>
+                  )}
+                  <ChevronDown
+                    className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`}
+                  />
+                </span>
+              </button>
+              {isOpen && (
+                <div className="px-4 pb-4">
+                  <SectionBody decision={decision} sectionKey={section.key} />
+                  <a
+                    href={decision.evidence[section.evidence]}
+                    className="inline-block mt-3 text-xs font-medium text-[#1e3a5f] hover:underline"
+                  >
+                    View evidence: {section.evidenceLabel} →
+                  </a>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -12,45 +12,13 @@ import { useEffect, useState, useRef, useMemo, useCallback } from 'react';
 import Card from '@/components/ui/Card';
 import { formatPercent, formatNumber, getChangeColor } from '@/lib/format';
 import { getPeerStocks, getSectorForSymbol, getSectorName } from '@/lib/sectorStandards';
+import { normalizeSymbol } from '@/lib/symbols/symbols';
 
 /**
- * Normalize a stock symbol to a consistent format
- * - Trims whitespace
- * - Converts to uppercase
- * - Appends .BK suffix for Thai stocks if not already present
- */
-function normalizeSymbol(symbol: string): string {
-  const trimmed = symbol.trim();
-  const upperSymbol = trimmed.toUpperCase();
-
-  // If symbol already contains a dot, assume it has a market suffix
-  if (upperSymbol.includes('.')) {
-    return upperSymbol;
-  }
-
-  // For Thai stocks, append .BK suffix (typical Thai stock symbols are 2-6 letters)
-  const thaiStockPattern = /^[A-Z]{2,6}$/;
-  if (thaiStockPattern.test(upperSymbol)) {
-    return `${upperSymbol}.BK`;
-  }
-
-  return upperSymbol;
-}
-
-/**
- * Extract base symbol without market suffix (for duplicate checking)
- */
-function getBaseSymbol(symbol: string): string {
-  const normalized = normalizeSymbol(symbol);
-  const parts = normalized.split('.');
-  return parts[0].toUpperCase();
-}
-
-/**
- * Compare two symbols, normalizing both for comparison
+ * Compare two symbols; bare codes are read as SET symbols ("PTT" = "PTT.BK")
  */
 function symbolsEqual(symbol1: string, symbol2: string): boolean {
-  return getBaseSymbol(symbol1) === getBaseSymbol(symbol2);
+  return normalizeSymbol(symbol1, 'SET') === normalizeSymbol(symbol2, 'SET');
 }
 
 interface PeerData {
@@ -206,7 +174,12 @@ export default function PeerComparison({ symbol, sector, currentMetrics }: PeerC
     const inputSymbol = customInput.trim();
     if (!inputSymbol) return;
 
-    const normalizedSymbol = normalizeSymbol(inputSymbol);
+    const normalizedSymbol = normalizeSymbol(inputSymbol, 'SET');
+    if (!normalizedSymbol) {
+      setAddError('Invalid symbol');
+      setTimeout(() => setAddError(null), 2000);
+      return;
+    }
 
     // Check if already in comparison (either in peers or custom) using normalized comparison
     const allSymbols = [symbol, ...peers.map(p => p.symbol), ...customSymbols];
@@ -249,7 +222,7 @@ export default function PeerComparison({ symbol, sector, currentMetrics }: PeerC
   // Remove a stock from comparison (works for both custom and standard peers)
   const removeStock = useCallback((stockSymbol: string) => {
     // If it's a custom stock, also remove from custom symbols
-    setCustomSymbols(prev => prev.filter(s => symbolsEqual(s, stockSymbol)));
+    setCustomSymbols(prev => prev.filter(s => !symbolsEqual(s, stockSymbol)));
     // Remove from peers
     setPeers(prev => prev.filter(p => !symbolsEqual(p.symbol, stockSymbol)));
   }, []);
@@ -1,44 +1,303 @@
 /**
- * Price Chart Component with Moving Averages
- * Displays price chart with MA50 and MA200
+ * Price Chart Component with Technical Indicators
+ * Candlesticks (or a close line) with selectable overlays (SMA 50/150/200,
+ * EMA 21, Bollinger Bands, VWAP), a volume pane and selectable oscillator
+ * panes (RSI, MACD, Stochastic, ATR, OBV), all computed by src/lib/technical
+ * Detected bases (cup-with-handle, flat base, double bottom, VCP) are shaded
+ * with their buy points
+ * Optionally draws action plan levels (entry / stop / target) as reference lines
  */
 
 'use client';
 
-import { useMemo } from 'react';
+import { useMemo, useState, type ReactNode } from 'react';
 import Card from '@/components/ui/Card';
-import { LineChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis, CartesianGrid, Legend } from 'recharts';
+import {
+  Bar,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { atr, bollingerBands, ema, macd, obv, rsi, sma, stochastic, vwap } from '@/lib/technical/indicators';
+import { analyzePatterns } from '@/lib/technical/patterns';
+import type { BasePatternType, PriceBar } from '@/types/technical';
 
 interface PriceDataPoint {
   date: string;
   close: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+}
+
+interface PlanLevels {
+  entry?: number;
+  stop?: number;
+  target?: number;
 }
 
 interface PriceChartProps {
   historicalData: PriceDataPoint[];
   symbol: string;
+  planLevels?: PlanLevels | null;
 }
 
-// Calculate Simple Moving Average
-function calculateSMA(data: PriceDataPoint[], period: number): Array<{ date: string; ma: number }> {
-  const sma: Array<{ date: string; ma: number }> = [];
+/**
+ * Bar shape props recharts passes to Candle (its shape callback is typed as unknown)
+ */
+interface CandleProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  payload?: ChartRow;
+}
 
-  for (let i = period - 1; i < data.length; i++) {
-    let sum = 0;
-    for (let j = 0; j < period; j++) {
-      sum += data[i - j].close;
-    }
-    sma.push({
-      date: data[i].date,
-      ma: sum / period,
-    });
+type ChartType = 'candles' | 'line';
+type OverlayKey = 'sma50' | 'sma150' | 'sma200' | 'ema21' | 'bollinger' | 'vwap' | 'bases';
+type OscillatorKey = 'rsi' | 'macd' | 'stochastic' | 'atr' | 'obv';
+
+interface ChartRow {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  range: [number, number]; // low-high span drawn as a candle
+  up: boolean;
+  sma50: number | null;
+  sma150: number | null;
+  sma200: number | null;
+  ema21: number | null;
+  bbUpper: number | null;
+  bbMiddle: number | null;
+  bbLower: number | null;
+  vwap: number | null;
+  rsi: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHistogram: number | null;
+  stochK: number | null;
+  stochD: number | null;
+  atr: number | null;
+  obv: number;
+}
+
+const PLAN_LINES: Array<{ key: keyof PlanLevels; label: string; color: string }> = [
+  { key: 'target', label: 'Target', color: '#16a34a' },
+  { key: 'entry', label: 'Entry', color: '#2563eb' },
+  { key: 'stop', label: 'Stop', color: '#dc2626' },
+];
+
+const OVERLAYS: Array<{ key: OverlayKey; label: string; color: string; minBars: number }> = [
+  { key: 'sma50', label: 'SMA 50', color: '#fbbf24', minBars: 50 },
+  { key: 'sma150', label: 'SMA 150', color: '#f97316', minBars: 150 },
+  { key: 'sma200', label: 'SMA 200', color: '#ef4444', minBars: 200 },
+  { key: 'ema21', label: 'EMA 21', color: '#8b5cf6', minBars: 21 },
+  { key: 'bollinger', label: 'Bollinger (20, 2)', color: '#0ea5e9', minBars: 20 },
+  { key: 'vwap', label: 'VWAP', color: '#14b8a6', minBars: 1 },
+  { key: 'bases', label: 'Bases', color: '#6366f1', minBars: 50 },
+];
+
+const BASE_LABELS: Record<BasePatternType, string> = {
+  'cup-with-handle': 'Cup with handle',
+  'flat-base': 'Flat base',
+  'double-bottom': 'Double bottom',
+  vcp: 'VCP',
+};
+
+const BASE_COLOR = '#6366f1';
+
+const OSCILLATORS: Array<{ key: OscillatorKey; label: string }> = [
+  { key: 'rsi', label: 'RSI (14)' },
+  { key: 'macd', label: 'MACD (12, 26, 9)' },
+  { key: 'stochastic', label: 'Stochastic (14, 3, 3)' },
+  { key: 'atr', label: 'ATR (14)' },
+  { key: 'obv', label: 'OBV' },
+];
+
+const UP_COLOR = '#16a34a';
+const DOWN_COLOR = '#dc2626';
+const SYNC_ID = 'price-chart';
+const Y_AXIS_WIDTH = 60;
+
+const tickStyle = { fontSize: 11, fill: '#6b7280' };
+
+const tooltipStyle = {
+  backgroundColor: 'rgba(30, 58, 95, 0.95)',
+  border: '1px solid #e5e7eb',
+  borderRadius: '4px',
+  color: '#fff',
+};
+
+function formatDateTick(value: string): string {
+  return new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function formatCompact(value: number): string {
+  return Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 1 }).format(value);
+}
+
+function formatTooltipValue(
+  value: number | string | ReadonlyArray<number | string> | undefined,
+  name: number | string | undefined,
+  item: { payload?: ChartRow }
+): [string, string] {
+  const row = item.payload;
+  if (Array.isArray(value) && row) {
+    return [
+      `O ${row.open.toFixed(2)} H ${row.high.toFixed(2)} L ${row.low.toFixed(2)} C ${row.close.toFixed(2)}`,
+      String(name),
+    ];
   }
+  if (typeof value !== 'number') return [String(value ?? ''), String(name)];
+  return [Math.abs(value) >= 100_000 ? formatCompact(value) : value.toFixed(2), String(name)];
+}
+
+/**
+ * Candle drawn in the band recharts gives a [low, high] ranged bar
+ */
+function Candle({ x, y, width = 0, height = 0, payload: row }: CandleProps) {
+  if (!row || x == null || y == null) return <g />;
+
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const pixel = (value: number) =>
+    row.high > row.low ? top + ((row.high - value) / (row.high - row.low)) * span : top;
+
+  const color = row.up ? UP_COLOR : DOWN_COLOR;
+  const center = x + width / 2;
+  const bodyWidth = Math.max(width * 0.7, 1);
+  const bodyTop = pixel(Math.max(row.open, row.close));
+  const bodyHeight = Math.max(Math.abs(pixel(row.open) - pixel(row.close)), 1);
+
+  return (
+    <g>
+      <line x1={center} x2={center} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+      <rect x={center - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+    </g>
+  );
+}
+
+/**
+ * Indicator values for every bar; missing OHLC fields fall back to the close
+ */
+function buildRows(data: PriceDataPoint[]): ChartRow[] {
+  const bars: Array<PriceBar & { date: string; open: number }> = data.map((point) => ({
+    date: point.date,
+    open: point.open || point.close,
+    high: point.high || point.close,
+    low: point.low || point.close,
+    close: point.close,
+    volume: point.volume || 0,
+  }));
+  const closes = bars.map((b) => b.close);
+
+  const sma50 = sma(closes, 50);
+  const sma150 = sma(closes, 150);
+  const sma200 = sma(closes, 200);
+  const ema21 = ema(closes, 21);
+  const bands = bollingerBands(closes, 20, 2);
+  const vwapSeries = vwap(bars);
+  const rsiSeries = rsi(closes, 14);
+  const macdSeries = macd(closes, 12, 26, 9);
+  const stoch = stochastic(bars, 14, 3, 3);
+  const atrSeries = atr(bars, 14);
+  const obvSeries = obv(bars);
 
-  return sma;
+  return bars.map((b, i) => ({
+    ...b,
+    range: [b.low, b.high],
+    up: b.close >= b.open,
+    sma50: sma50[i],
+    sma150: sma150[i],
+    sma200: sma200[i],
+    ema21: ema21[i],
+    bbUpper: bands.upper[i],
+    bbMiddle: bands.middle[i],
+    bbLower: bands.lower[i],
+    vwap: vwapSeries[i],
+    rsi: rsiSeries[i],
+    macd: macdSeries.macd[i],
+    macdSignal: macdSeries.signal[i],
+    macdHistogram: macdSeries.histogram[i],
+    stochK: stoch.k[i],
+    stochD: stoch.d[i],
+    atr: atrSeries[i],
+    obv: obvSeries[i],
+  }));
 }
 
-export default function PriceChart({ historicalData, symbol }: PriceChartProps) {
+function Toggle({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+        active
+          ? 'bg-[#1e3a5f] text-white border-[#1e3a5f]'
+          : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Small chart under the price pane, sharing its x axis and tooltip
+ */
+function IndicatorPane({
+  title,
+  rows,
+  domain,
+  tickFormatter,
+  children,
+}: {
+  title: string;
+  rows: ChartRow[];
+  domain?: [number, number];
+  tickFormatter?: (value: number) => string;
+  children: ReactNode;
+}) {
+  return (
+    <div className="mt-2">
+      <p className="text-xs font-semibold text-gray-500 mb-1">{title}</p>
+      <div className="h-28">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={rows} syncId={SYNC_ID} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+            <XAxis dataKey="date" hide />
+            <YAxis
+              width={Y_AXIS_WIDTH}
+              tick={tickStyle}
+              domain={domain ?? ['auto', 'auto']}
+              tickFormatter={tickFormatter ?? ((v) => v.toFixed(1))}
+            />
+            <Tooltip contentStyle={tooltipStyle} labelFormatter={(v) => new Date(v).toLocaleDateString()} formatter={formatTooltipValue} />
+            {children}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+export default function PriceChart({ historicalData, symbol, planLevels }: PriceChartProps) {
   const dataPointCount = historicalData.length;
+  const [chartType, setChartType] = useState<ChartType>('candles');
+  const [overlays, setOverlays] = useState<OverlayKey[]>(['sma50', 'sma150', 'sma200', 'bases']);
+  const [oscillators, setOscillators] = useState<OscillatorKey[]>([]);
 
   // Determine what data we have available
   const hasDataForMA200 = dataPointCount >= 200;
@@ -46,49 +305,38 @@ export default function PriceChart({ historicalData, symbol }: PriceChartProps)
   const hasDataForMA50 = dataPointCount >= 50;
   const hasMinimumData = dataPointCount >= 10;
 
-  // Calculate moving averages based on available data
-  const ma50Data = useMemo(() => {
-    return hasDataForMA50 ? calculateSMA(historicalData, 50) : [];
-  }, [historicalData, hasDataForMA50]);
+  const allRows = useMemo(() => buildRows(historicalData), [historicalData]);
+  const patterns = useMemo(() => analyzePatterns(allRows), [allRows]);
 
-  const ma150Data = useMemo(() => {
-    return hasDataForMA150 ? calculateSMA(historicalData, 150) : [];
-  }, [historicalData, hasDataForMA150]);
-
-  const ma200Data = useMemo(() => {
-    return hasDataForMA200 ? calculateSMA(historicalData, 200) : [];
-  }, [historicalData, hasDataForMA200]);
-
-  // Combine data for chart (need to align dates)
+  // Show the stretch where the longest available moving average is defined
   const chartData = useMemo(() => {
-    // Start from appropriate index based on available data
     const startIndex = hasDataForMA200 ? 200 - 1 : hasDataForMA150 ? 150 - 1 : hasDataForMA50 ? 50 - 1 : 0;
+    return allRows.slice(startIndex);
+  }, [allRows, hasDataForMA200, hasDataForMA150, hasDataForMA50]);
 
-    return historicalData.slice(startIndex).map((point) => {
-      const ma50 = ma50Data.find(m => m.date === point.date);
-      const ma150 = ma150Data.find(m => m.date === point.date);
-      const ma200 = ma200Data.find(m => m.date === point.date);
+  const toggleOverlay = (key: OverlayKey) =>
+    setOverlays((current) => (current.includes(key) ? current.filter((k) => k !== key) : [...current, key]));
+  const toggleOscillator = (key: OscillatorKey) =>
+    setOscillators((current) => (current.includes(key) ? current.filter((k) => k !== key) : [...current, key]));
 
-      return {
-        date: point.date,
-        price: point.close,
-        ma50: ma50?.ma || null,
-        ma150: ma150?.ma || null,
-        ma200: ma200?.ma || null,
-      };
-    });
-  }, [historicalData, ma50Data, ma150Data, ma200Data, hasDataForMA200, hasDataForMA150, hasDataForMA50]);
+  const showOverlay = (key: OverlayKey) =>
+    overlays.includes(key) && dataPointCount >= (OVERLAYS.find((o) => o.key === key)?.minBars ?? 0);
+
+  // Bases ending inside the visible stretch, clipped to its first date
+  const firstVisibleDate = chartData[0]?.date ?? '';
+  const visibleBases = showOverlay('bases') ? patterns.bases.filter((base) => base.endDate >= firstVisibleDate) : [];
+  const currentBase = showOverlay('bases') ? patterns.current : null;
 
   // Determine trend based on price vs moving averages
   const getTrend = () => {
     if (chartData.length === 0) return null;
     const latest = chartData[chartData.length - 1];
 
-    if (!latest.ma50 || !latest.ma200) return null;
+    if (!latest.sma50 || !latest.sma200) return null;
 
-    if (latest.price > latest.ma50 && latest.ma50 > latest.ma200) {
+    if (latest.close > latest.sma50 && latest.sma50 > latest.sma200) {
       return { status: 'bullish', text: 'Uptrend (Price > MA50 > MA200)', color: 'text-green-600' };
-    } else if (latest.price < latest.ma50 && latest.ma50 < latest.ma200) {
+    } else if (latest.close < latest.sma50 && latest.sma50 < latest.sma200) {
       return { status: 'bearish', text: 'Downtrend (Price < MA50 < MA200)', color: 'text-red-600' };
     } else {
       return { status: 'neutral', text: 'Consolidating', color: 'text-yellow-600' };
@@ -107,35 +355,26 @@ export default function PriceChart({ historicalData, symbol }: PriceChartProps)
     }
     if (!hasDataForMA50) {
       return {
-        subtitle: 'Price chart available',
+        subtitle: `${symbol} price and volume`,
         message: `Showing ${dataPointCount} days of price data. Not enough history for MA50 yet.`,
       };
     }
-    if (!hasDataForMA150) {
-      return {
-        subtitle: 'Price chart with MA50',
-        message: `Showing ${dataPointCount} days of price data. Not enough history for MA150 yet (need 150 trading days).`,
-      };
-    }
     if (!hasDataForMA200) {
       return {
-        subtitle: 'Price chart with MA50 & MA150',
+        subtitle: `${symbol} price, volume and indicators`,
         message: `Showing ${dataPointCount} days of price data. Not enough history for MA200 yet (need 200 trading days).`,
       };
     }
     return {
-      subtitle: 'Price chart with MA50, MA150 & MA200',
-      message: `Showing MA50, MA150, and MA200 based on ${dataPointCount} trading days.`,
+      subtitle: `${symbol} price, volume and indicators`,
+      message: `Indicators are based on ${dataPointCount} trading days.`,
     };
   };
 
   const chartInfo = getChartInfo();
 
   return (
-    <Card
-      title="Price Chart with Moving Averages"
-      subtitle={chartInfo.subtitle}
-    >
+    <Card title="Price Chart" subtitle={chartInfo.subtitle}>
       {hasMinimumData ? (
         <div>
           {/* Trend Indicator */}
@@ -157,100 +396,238 @@ export default function PriceChart({ historicalData, symbol }: PriceChartProps)
             </div>
           )}
 
-          {/* Chart */}
+          {/* Indicator selection */}
+          <div className="mb-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider w-20">Chart</span>
+              <Toggle active={chartType === 'candles'} onClick={() => setChartType('candles')}>Candles</Toggle>
+              <Toggle active={chartType === 'line'} onClick={() => setChartType('line')}>Line</Toggle>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider w-20">Overlays</span>
+              {OVERLAYS.filter((o) => dataPointCount >= o.minBars).map((o) => (
+                <Toggle key={o.key} active={overlays.includes(o.key)} onClick={() => toggleOverlay(o.key)}>
+                  {o.label}
+                </Toggle>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-semibold text-gray-500 uppercase tracking-wider w-20">Panes</span>
+              {OSCILLATORS.map((o) => (
+                <Toggle key={o.key} active={oscillators.includes(o.key)} onClick={() => toggleOscillator(o.key)}>
+                  {o.label}
+                </Toggle>
+              ))}
+            </div>
+          </div>
+
+          {currentBase && (
+            <p className="mb-2 text-xs text-gray-600">
+              <span className="font-semibold" style={{ color: BASE_COLOR }}>
+                {BASE_LABELS[currentBase.type]}
+              </span>
+              {` · depth ${currentBase.depthPct.toFixed(1)}% · buy point ${currentBase.buyPoint.toFixed(2)} · `}
+              <span className="font-semibold capitalize">{currentBase.status}</span>
+              {currentBase.breakoutVolumeRatio !== null &&
+                ` on ${currentBase.breakoutVolumeRatio.toFixed(1)}× average volume`}
+            </p>
+          )}
+
+          {/* Price pane */}
           <div className="h-72 sm:h-80">
             <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
+              <ComposedChart data={chartData} syncId={SYNC_ID} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
-                <XAxis
-                  dataKey="date"
-                  tickFormatter={(v) => new Date(v).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
-                  tick={{ fontSize: 11, fill: '#6b7280' }}
-                  interval="preserveStartEnd"
-                />
+                <XAxis dataKey="date" hide />
                 <YAxis
+                  width={Y_AXIS_WIDTH}
                   tickFormatter={(v) => v.toFixed(2)}
-                  tick={{ fontSize: 11, fill: '#6b7280' }}
+                  tick={tickStyle}
                   domain={['auto', 'auto']}
                 />
                 <Tooltip
-                  contentStyle={{
-                    backgroundColor: 'rgba(30, 58, 95, 0.95)',
-                    border: '1px solid #e5e7eb',
-                    borderRadius: '4px',
-                  }}
+                  contentStyle={tooltipStyle}
                   labelFormatter={(v) => new Date(v).toLocaleDateString()}
-                  formatter={(value: any, name?: string) => {
-                    if (name === 'price') return [`$${value.toFixed(2)}`, 'Price'];
-                    if (name === 'ma50') return [`$${value.toFixed(2)}`, 'MA50'];
-                    if (name === 'ma150') return [`$${value.toFixed(2)}`, 'MA150'];
-                    if (name === 'ma200') return [`$${value.toFixed(2)}`, 'MA200'];
-                    return [value, name || ''];
-                  }}
-                />
-                <Legend
-                  wrapperStyle={{ fontSize: '12px', paddingTop: '10px' }}
-                  iconType="line"
+                  formatter={formatTooltipValue}
                 />
-                {/* Price Line */}
-                <Line
-                  type="monotone"
-                  dataKey="price"
-                  stroke="#1e3a5f"
-                  strokeWidth={2.5}
-                  dot={false}
-                  activeDot={{ r: 5 }}
-                  name="Price"
-                />
-                {/* MA50 Line */}
-                {hasDataForMA50 && (
-                  <Line
-                    type="monotone"
-                    dataKey="ma50"
-                    stroke="#fbbf24"
-                    strokeWidth={1.5}
-                    dot={false}
-                    name="MA50"
-                    strokeDasharray="5 5"
-                  />
-                )}
-                {/* MA150 Line */}
-                {hasDataForMA150 && (
-                  <Line
-                    type="monotone"
-                    dataKey="ma150"
-                    stroke="#f97316"
-                    strokeWidth={1.5}
-                    dot={false}
-                    name="MA150"
-                    strokeDasharray="5 5"
+                {chartType === 'candles' ? (
+                  <Bar
+                    dataKey="range"
+                    name="Price"
+                    shape={(props: unknown) => <Candle {...(props as CandleProps)} />}
+                    isAnimationActive={false}
                   />
-                )}
-                {/* MA200 Line */}
-                {hasDataForMA200 && (
+                ) : (
                   <Line
                     type="monotone"
-                    dataKey="ma200"
-                    stroke="#ef4444"
-                    strokeWidth={1.5}
+                    dataKey="close"
+                    stroke="#1e3a5f"
+                    strokeWidth={2.5}
                     dot={false}
-                    name="MA200"
-                    strokeDasharray="5 5"
+                    activeDot={{ r: 5 }}
+                    name="Price"
                   />
                 )}
-              </LineChart>
+                {/* Moving average overlays */}
+                {(['sma50', 'sma150', 'sma200', 'ema21', 'vwap'] as const).filter(showOverlay).map((key) => {
+                  const overlay = OVERLAYS.find((o) => o.key === key)!;
+                  return (
+                    <Line
+                      key={key}
+                      type="monotone"
+                      dataKey={key}
+                      stroke={overlay.color}
+                      strokeWidth={1.5}
+                      dot={false}
+                      name={overlay.label}
+                      strokeDasharray={key === 'vwap' ? undefined : '5 5'}
+                      isAnimationActive={false}
+                    />
+                  );
+                })}
+                {/* Bollinger Bands */}
+                {showOverlay('bollinger') &&
+                  (['bbUpper', 'bbMiddle', 'bbLower'] as const).map((key) => (
+                    <Line
+                      key={key}
+                      type="monotone"
+                      dataKey={key}
+                      stroke="#0ea5e9"
+                      strokeWidth={1}
+                      strokeOpacity={key === 'bbMiddle' ? 0.5 : 1}
+                      dot={false}
+                      name={key === 'bbUpper' ? 'BB Upper' : key === 'bbMiddle' ? 'BB Middle' : 'BB Lower'}
+                      isAnimationActive={false}
+                    />
+                  ))}
+                {/* Detected bases and their buy points */}
+                {visibleBases.map((base) => {
+                  const start = base.startDate < firstVisibleDate ? firstVisibleDate : base.startDate;
+                  return [
+                    <ReferenceArea
+                      key={`${base.startDate}-area`}
+                      x1={start}
+                      x2={base.endDate}
+                      fill={BASE_COLOR}
+                      fillOpacity={0.06}
+                      stroke={BASE_COLOR}
+                      strokeOpacity={0.3}
+                      label={{
+                        value: `${BASE_LABELS[base.type]} ${base.depthPct.toFixed(0)}%`,
+                        position: 'insideTopLeft',
+                        fontSize: 10,
+                        fill: BASE_COLOR,
+                      }}
+                    />,
+                    <ReferenceLine
+                      key={`${base.startDate}-buy`}
+                      segment={[
+                        { x: start, y: base.buyPoint },
+                        { x: base.breakoutDate ?? base.endDate, y: base.buyPoint },
+                      ]}
+                      stroke={BASE_COLOR}
+                      strokeDasharray="3 3"
+                      label={{ value: `Buy ${base.buyPoint.toFixed(2)}`, position: 'insideBottomRight', fontSize: 10, fill: BASE_COLOR }}
+                    />,
+                  ];
+                })}
+                {/* Action Plan Levels */}
+                {planLevels &&
+                  PLAN_LINES.map(({ key, label, color }) => {
+                    const value = planLevels[key];
+                    if (!value || value <= 0) return null;
+                    return (
+                      <ReferenceLine
+                        key={key}
+                        y={value}
+                        stroke={color}
+                        strokeDasharray="4 2"
+                        ifOverflow="extendDomain"
+                        label={{ value: `${label} ${value.toFixed(2)}`, position: 'insideRight', fontSize: 10, fill: color }}
+                      />
+                    );
+                  })}
+              </ComposedChart>
             </ResponsiveContainer>
           </div>
 
+          {/* Volume pane */}
+          <div className="h-24 mt-1">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} syncId={SYNC_ID} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={formatDateTick}
+                  tick={tickStyle}
+                  interval="preserveStartEnd"
+                />
+                <YAxis width={Y_AXIS_WIDTH} tick={tickStyle} tickFormatter={formatCompact} />
+                <Tooltip contentStyle={tooltipStyle} labelFormatter={(v) => new Date(v).toLocaleDateString()} formatter={formatTooltipValue} />
+                <Bar dataKey="volume" name="Volume" isAnimationActive={false}>
+                  {chartData.map((row) => (
+                    <Cell key={row.date} fill={row.up ? UP_COLOR : DOWN_COLOR} fillOpacity={0.5} />
+                  ))}
+                </Bar>
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Oscillator panes, in selection order */}
+          {oscillators.map((key) => {
+            switch (key) {
+              case 'rsi':
+                return (
+                  <IndicatorPane key={key} title="RSI (14)" rows={chartData} domain={[0, 100]} tickFormatter={(v) => v.toFixed(0)}>
+                    <ReferenceLine y={70} stroke={DOWN_COLOR} strokeDasharray="3 3" />
+                    <ReferenceLine y={30} stroke={UP_COLOR} strokeDasharray="3 3" />
+                    <Line type="monotone" dataKey="rsi" name="RSI" stroke="#1e3a5f" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </IndicatorPane>
+                );
+              case 'macd':
+                return (
+                  <IndicatorPane key={key} title="MACD (12, 26, 9)" rows={chartData} tickFormatter={(v) => v.toFixed(2)}>
+                    <ReferenceLine y={0} stroke="#9ca3af" />
+                    <Bar dataKey="macdHistogram" name="Histogram" isAnimationActive={false}>
+                      {chartData.map((row) => (
+                        <Cell key={row.date} fill={(row.macdHistogram ?? 0) >= 0 ? UP_COLOR : DOWN_COLOR} fillOpacity={0.6} />
+                      ))}
+                    </Bar>
+                    <Line type="monotone" dataKey="macd" name="MACD" stroke="#1e3a5f" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="macdSignal" name="Signal" stroke="#f97316" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </IndicatorPane>
+                );
+              case 'stochastic':
+                return (
+                  <IndicatorPane key={key} title="Stochastic (14, 3, 3)" rows={chartData} domain={[0, 100]} tickFormatter={(v) => v.toFixed(0)}>
+                    <ReferenceLine y={80} stroke={DOWN_COLOR} strokeDasharray="3 3" />
+                    <ReferenceLine y={20} stroke={UP_COLOR} strokeDasharray="3 3" />
+                    <Line type="monotone" dataKey="stochK" name="%K" stroke="#1e3a5f" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                    <Line type="monotone" dataKey="stochD" name="%D" stroke="#f97316" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </IndicatorPane>
+                );
+              case 'atr':
+                return (
+                  <IndicatorPane key={key} title="ATR (14)" rows={chartData} tickFormatter={(v) => v.toFixed(2)}>
+                    <Line type="monotone" dataKey="atr" name="ATR" stroke="#8b5cf6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </IndicatorPane>
+                );
+              case 'obv':
+                return (
+                  <IndicatorPane key={key} title="On-Balance Volume" rows={chartData} tickFormatter={formatCompact}>
+                    <Line type="monotone" dataKey="obv" name="OBV" stroke="#14b8a6" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  </IndicatorPane>
+                );
+            }
+          })}
+
           {/* Info message */}
           <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-3">
             <p className="text-xs text-blue-800">
-              <strong>Moving Averages:</strong>{' '}
+              <strong>Indicators:</strong>{' '}
               {chartInfo.message}
-              {hasDataForMA50 && ' MA50 (yellow) shows short-term trend.'}
-              {hasDataForMA150 && ' MA150 (orange) shows medium-term trend.'}
-              {hasDataForMA200 && ' MA200 (red) shows long-term trend.'}
               {hasDataForMA200 && ' When price crosses above MA50 = Bullish signal. Below MA200 = Bearish signal.'}
+              {' '}Candles and volume bars are green on up days and red on down days.
+              {planLevels && ' Dashed horizontal lines mark the decision plan entry (blue), stop (red) and base target (green).'}
             </p>
           </div>
         </div>
@@ -0,0 +1,95 @@
+/**
+ * Relative Strength Card Component
+ * RS rating from the daily universe update and a year of the RS line
+ * against the symbol's benchmark index
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import Card from '@/components/ui/Card';
+import { RS_BENCHMARKS, RS_RULES } from '@/lib/technical/relative-strength';
+import type { RelativeStrengthResponse } from '@/types/technical';
+
+interface RelativeStrengthCardProps {
+  relativeStrength: RelativeStrengthResponse | null;
+  loading: boolean;
+}
+
+const BENCHMARK_NAMES: Record<string, string> = {
+  [RS_BENCHMARKS.TH]: 'SET Index',
+  [RS_BENCHMARKS.US]: 'S&P 500',
+};
+
+function ratingClass(rating: number): string {
+  if (rating >= 80) return 'bg-green-100 text-green-700';
+  if (rating >= 50) return 'bg-gray-100 text-gray-700';
+  return 'bg-red-100 text-red-700';
+}
+
+export default function RelativeStrengthCard({ relativeStrength, loading }: RelativeStrengthCardProps) {
+  const line = useMemo(
+    () => (relativeStrength?.rsLine ?? []).slice(-RS_RULES.newHighBars),
+    [relativeStrength]
+  );
+
+  // Stored daily ratings: the rating about a month (21 trading days) ago
+  const history = relativeStrength?.history ?? [];
+  const monthAgo = history.length > 21 ? history[history.length - 22].rsRating : null;
+
+  const benchmark = relativeStrength
+    ? BENCHMARK_NAMES[relativeStrength.benchmark] ?? relativeStrength.benchmark
+    : 'the market';
+
+  return (
+    <Card title="Relative Strength" subtitle={`RS rating and RS line vs ${benchmark}`}>
+      {loading ? (
+        <p className="text-sm text-gray-400">Loading relative strength…</p>
+      ) : !relativeStrength ? (
+        <p className="text-sm text-gray-400">Relative strength unavailable</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-3">
+            {relativeStrength.rsRating !== null ? (
+              <span
+                className={`px-2 py-1 rounded text-xs font-semibold ${ratingClass(relativeStrength.rsRating)}`}
+                title={relativeStrength.ratedAt ? `Rated ${relativeStrength.ratedAt}` : undefined}
+              >
+                RS {relativeStrength.rsRating}
+              </span>
+            ) : (
+              <span className="px-2 py-1 rounded text-xs font-semibold bg-gray-100 text-gray-500">Not rated yet</span>
+            )}
+            {monthAgo !== null && (
+              <span className="text-xs text-gray-400">a month ago: {monthAgo}</span>
+            )}
+            {relativeStrength.rsLineNewHigh && (
+              <span className="px-2 py-1 rounded text-xs font-semibold bg-green-100 text-green-700">
+                RS line at new high
+              </span>
+            )}
+          </div>
+          {line.length > 1 ? (
+            <div className="h-28">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={line} margin={{ top: 4, right: 4, bottom: 0, left: 0 }}>
+                  <XAxis dataKey="date" hide />
+                  <YAxis hide domain={['auto', 'auto']} />
+                  <Tooltip
+                    formatter={(value) => [Number(value).toFixed(2), 'RS line']}
+                    labelStyle={{ fontSize: 12 }}
+                    contentStyle={{ fontSize: 12 }}
+                  />
+                  <Line type="monotone" dataKey="value" stroke="#1e3a5f" strokeWidth={1.5} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">No benchmark prices for the RS line</p>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+/**
+ * Trend Template Card Component
+ * Minervini trend template pass/fail checklist and the Weinstein stage,
+ * computed from the daily prices the stock page already loads; the RS
+ * criterion uses the stored RS rating when there is one
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import Card from '@/components/ui/Card';
+import { evaluateTrendTemplate } from '@/lib/technical/trend-template';
+import { classifyStage } from '@/lib/technical/stage';
+import type { HistoricalPrice } from '@/types/market';
+import type { TrendCriterion, WeinsteinStage } from '@/types/technical';
+
+interface TrendTemplateCardProps {
+  historicalData: Array<Pick<HistoricalPrice, 'date' | 'high' | 'low' | 'close'>>;
+  rsRating?: number | null;
+}
+
+const STAGE_STYLES: Record<WeinsteinStage, string> = {
+  1: 'bg-gray-100 text-gray-700',
+  2: 'bg-green-100 text-green-700',
+  3: 'bg-yellow-100 text-yellow-700',
+  4: 'bg-red-100 text-red-700',
+};
+
+function CriterionRow({ criterion }: { criterion: TrendCriterion }) {
+  const mark = criterion.passed === null ? '–' : criterion.passed ? '✓' : '✗';
+  const color = criterion.passed === null ? 'text-gray-400' : criterion.passed ? 'text-green-600' : 'text-red-600';
+
+  return (
+    <li className="flex items-start gap-2 text-sm">
+      <span className={`w-4 shrink-0 font-bold ${color}`} aria-label={criterion.passed === null ? 'n/a' : criterion.passed ? 'pass' : 'fail'}>
+        {mark}
+      </span>
+      <span className="min-w-0">
+        <span className="block text-gray-700">{criterion.label}</span>
+        <span className="block text-xs text-gray-400">{criterion.detail}</span>
+      </span>
+    </li>
+  );
+}
+
+export default function TrendTemplateCard({ historicalData, rsRating }: TrendTemplateCardProps) {
+  const { template, stage } = useMemo(
+    () => ({ template: evaluateTrendTemplate(historicalData, { rsRating }), stage: classifyStage(historicalData) }),
+    [historicalData, rsRating]
+  );
+
+  return (
+    <Card title="Trend Template" subtitle="Minervini criteria and Weinstein stage">
+      <div className="flex items-center justify-between mb-3">
+        <span
+          className={`px-2 py-1 rounded text-xs font-semibold ${
+            template.passed ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+          }`}
+        >
+          {template.passed ? 'PASS' : 'FAIL'} · {template.passedCount}/{template.evaluatedCount}
+        </span>
+        <span
+          className={`px-2 py-1 rounded text-xs font-semibold ${stage.stage ? STAGE_STYLES[stage.stage] : 'bg-gray-100 text-gray-500'}`}
+          title={stage.description}
+        >
+          {stage.stage ? `Stage ${stage.stage} · ${stage.label}` : 'Stage unknown'}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {template.criteria.map((criterion) => (
+          <CriterionRow key={criterion.id} criterion={criterion} />
+        ))}
+      </ul>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+/**
+ * Watchlist Button Component
+ * Adds or removes a stock from watchlists on the stock detail page
+ * Features:
+ * - One click toggles the default watchlist
+ * - Menu with every named list when more than one exists
+ * - Signed out: the button signs in instead
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, ChevronDown } from 'lucide-react';
+import { useAuth } from '@/components/auth/AuthProvider';
+import type { Watchlist } from '@/types/watchlist';
+
+interface WatchlistButtonProps {
+  symbol: string;
+}
+
+type WatchlistOption = Pick<Watchlist, 'id' | 'name' | 'items'>;
+
+const DEFAULT_WATCHLIST_ID = 'default';
+
+export default function WatchlistButton({ symbol }: WatchlistButtonProps) {
+  const { user, signInWithGoogle, authFetch } = useAuth();
+  const [watchlists, setWatchlists] = useState<WatchlistOption[]>([]);
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setWatchlists([]);
+      return;
+    }
+
+    async function fetchWatchlists() {
+      try {
+        const res = await authFetch('/api/watchlist');
+        if (!res.ok) return;
+        const data = await res.json();
+        setWatchlists(data.watchlists || []);
+      } catch (err) {
+        console.error('Error fetching watchlists:', err);
+      }
+    }
+    fetchWatchlists();
+  }, [user, authFetch]);
+
+  // Before the default list exists, offer it so the first add creates it
+  const lists: WatchlistOption[] = watchlists.some((w) => w.id === DEFAULT_WATCHLIST_ID)
+    ? watchlists
+    : [{ id: DEFAULT_WATCHLIST_ID, name: 'My Watchlist', items: [] }, ...watchlists];
+
+  const isOnList = (listId: string) =>
+    lists.find((w) => w.id === listId)?.items.some((item) => item.symbol === symbol) ?? false;
+
+  const onAnyList = lists.some((w) => isOnList(w.id));
+
+  const toggle = async (listId: string) => {
+    const remove = isOnList(listId);
+
+    try {
+      setPending(listId);
+      setError(null);
+
+      const res = remove
+        ? await authFetch(`/api/watchlist/${listId}/items/${encodeURIComponent(symbol)}`, { method: 'DELETE' })
+        : await authFetch(`/api/watchlist/${listId}/items`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ symbol }),
+          });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.details || data.error || 'Failed to update watchlist');
+
+      setWatchlists(
+        lists.map((w) =>
+          w.id !== listId
+            ? w
+            : { ...w, items: remove ? w.items.filter((item) => item.symbol !== symbol) : [data, ...w.items] }
+        )
+      );
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const buttonClass =
+    'px-3 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  if (!user) {
+    return (
+      <button
+        type="button"
+        onClick={() => signInWithGoogle().catch((err) => console.error('Error signing in:', err))}
+        className={`w-full text-left ${buttonClass} text-gray-700 bg-gray-100 hover:bg-gray-200`}
+      >
+        📋 Sign in to use Watchlists
+      </button>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex">
+        <button
+          type="button"
+          onClick={() => toggle(DEFAULT_WATCHLIST_ID)}
+          disabled={pending !== null}
+          className={`flex-1 text-left ${buttonClass} ${lists.length > 1 ? 'rounded-r-none' : ''} ${
+            onAnyList ? 'text-[#1e3a5f] bg-blue-50 hover:bg-blue-100' : 'text-gray-700 bg-gray-100 hover:bg-gray-200'
+          }`}
+        >
+          {isOnList(DEFAULT_WATCHLIST_ID) ? '⭐ On Watchlist' : '📋 Add to Watchlist'}
+        </button>
+        {lists.length > 1 && (
+          <button
+            type="button"
+            onClick={() => setMenuOpen((open) => !open)}
+            aria-expanded={menuOpen}
+            aria-label="Choose watchlists"
+            className={`${buttonClass} rounded-l-none border-l border-white text-gray-700 bg-gray-100 hover:bg-gray-200`}
+          >
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {menuOpen && (
+        <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+          {lists.map((list) => (
+            <button
+              key={list.id}
+              type="button"
+              onClick={() => toggle(list.id)}
+              disabled={pending !== null}
+              className="w-full flex items-center justify-between px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <span className="truncate">{list.name}</span>
+              {isOnList(list.id) && <Check className="w-4 h-4 text-[#1e3a5f]" />}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
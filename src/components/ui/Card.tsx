@@ -11,9 +11,9 @@ export default function Card({ children, className = '', title, subtitle }: Card
   return (
     <div className={`card ${className}`}>
       {(title || subtitle) && (
-        <div className="px-6 py-4 border-b border-gray-200">
-          {title && <h3 className="text-lg font-semibold text-gray-900">{title}</h3>}
-          {subtitle && <p className="text-sm text-gray-500 mt-1">{subtitle}</p>}
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          {title && <h3 className="text-lg font-semibold text-gray-900 dark:text-gray-100">{title}</h3>}
+          {subtitle && <p className="text-sm text-gray-500 mt-1 dark:text-gray-400">{subtitle}</p>}
         </div>
       )}
       <div className="p-6">
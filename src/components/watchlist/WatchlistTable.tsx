@@ -0,0 +1,176 @@
+/**
+ * Watchlist Table Component
+ * One row per watched stock with live quote, decision rating and framework scores
+ * Features:
+ * - Decision score with action rating badge
+ * - CAN SLIM / SPEA score badges
+ * - Inline notes editing
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Pencil, Trash2 } from 'lucide-react';
+import StatusBadge from '@/components/ui/StatusBadge';
+import { formatPercent, getChangeColor } from '@/lib/format';
+import { displaySymbol } from '@/lib/symbols/symbols';
+import type { ActionRating } from '@/types/decision';
+import type { WatchlistRow } from '@/types/watchlist';
+
+interface WatchlistTableProps {
+  rows: WatchlistRow[];
+  onSaveNotes: (symbol: string, notes: string) => Promise<void>;
+  onRemove: (symbol: string) => void;
+}
+
+function getRatingStatus(rating: ActionRating): 'success' | 'warning' | 'danger' {
+  if (rating === 'Strong Buy' || rating === 'Buy') return 'success';
+  if (rating === 'Hold') return 'warning';
+  return 'danger';
+}
+
+function getScoreBadgeClass(score: number): string {
+  if (score >= 65) return 'bg-green-100 text-green-800';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-red-100 text-red-800';
+}
+
+function ScoreBadge({ score }: { score?: number }) {
+  if (score === undefined) return <span className="text-gray-400">-</span>;
+  return (
+    <span className={`inline-block min-w-[2.5rem] text-center text-xs font-semibold px-2 py-0.5 rounded ${getScoreBadgeClass(score)}`}>
+      {score}
+    </span>
+  );
+}
+
+function NotesCell({ row, onSave }: { row: WatchlistRow; onSave: (notes: string) => Promise<void> }) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(row.notes ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft.trim());
+      setEditing(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!editing) {
+    return (
+      <button
+        type="button"
+        onClick={() => {
+          setDraft(row.notes ?? '');
+          setEditing(true);
+        }}
+        className="group flex items-start gap-1 text-left text-xs text-gray-600 hover:text-gray-900 max-w-[16rem]"
+      >
+        <span className={row.notes ? 'line-clamp-2' : 'italic text-gray-400'}>{row.notes || 'Add note'}</span>
+        <Pencil className="w-3 h-3 mt-0.5 shrink-0 opacity-0 group-hover:opacity-100" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-1 min-w-[12rem]">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={2}
+        maxLength={500}
+        autoFocus
+        className="w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-[#1e3a5f]"
+      />
+      <div className="flex gap-2 text-xs">
+        <button type="button" onClick={save} disabled={saving} className="font-medium text-[#1e3a5f] disabled:opacity-50">
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button type="button" onClick={() => setEditing(false)} className="text-gray-500">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function WatchlistTable({ rows, onSaveNotes, onRemove }: WatchlistTableProps) {
+  if (rows.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 py-8 text-center">
+        This watchlist is empty. Add a symbol above or use &quot;Add to Watchlist&quot; on any stock page.
+      </p>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-gray-600">
+            <th scope="col" className="px-3 py-2 text-left font-medium">Symbol</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">Price</th>
+            <th scope="col" className="px-3 py-2 text-left font-medium">Decision</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">CAN SLIM</th>
+            <th scope="col" className="px-3 py-2 text-right font-medium">SPEA</th>
+            <th scope="col" className="px-3 py-2 text-left font-medium">Notes</th>
+            <th scope="col" className="px-3 py-2"><span className="sr-only">Remove</span></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {rows.map((row) => (
+            <tr key={row.symbol} className="hover:bg-gray-50 align-top">
+              <td className="px-3 py-2">
+                <Link href={`/stocks/${row.symbol}`} className="font-semibold text-[#1e3a5f] hover:underline">
+                  {displaySymbol(row.symbol)}
+                </Link>
+                <p className="text-xs text-gray-500 truncate max-w-[12rem]">{row.quote?.name ?? row.symbol}</p>
+              </td>
+              <td className="px-3 py-2 text-right whitespace-nowrap">
+                {row.quote ? (
+                  <>
+                    <span className="text-gray-900">{row.quote.price.toFixed(2)}</span>
+                    <p className={`text-xs ${getChangeColor(row.quote.changePercent)}`}>
+                      {formatPercent(row.quote.changePercent)}
+                    </p>
+                  </>
+                ) : (
+                  <span className="text-gray-400">-</span>
+                )}
+              </td>
+              <td className="px-3 py-2 whitespace-nowrap">
+                {row.scores ? (
+                  <div className="flex items-center gap-2">
+                    <ScoreBadge score={row.scores.decisionScore} />
+                    <StatusBadge status={getRatingStatus(row.scores.rating)}>{row.scores.rating}</StatusBadge>
+                  </div>
+                ) : (
+                  <span className="text-xs text-gray-400">Unavailable</span>
+                )}
+              </td>
+              <td className="px-3 py-2 text-right"><ScoreBadge score={row.scores?.canslimScore} /></td>
+              <td className="px-3 py-2 text-right"><ScoreBadge score={row.scores?.speaScore} /></td>
+              <td className="px-3 py-2">
+                <NotesCell row={row} onSave={(notes) => onSaveNotes(row.symbol, notes)} />
+              </td>
+              <td className="px-3 py-2 text-right">
+                <button
+                  type="button"
+                  onClick={() => onRemove(row.symbol)}
+                  className="text-gray-400 hover:text-red-600"
+                  aria-label={`Remove ${row.symbol}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+/**
+ * Alert Rules Engine Tests
+ *
+ * Tests cover:
+ * - Rule input validation
+ * - First observation records without triggering
+ * - Threshold crossings fire once per crossing (price, sector, CAN SLIM)
+ * - Regime changes and foreign flow sign flips
+ * - Disabled rules and snapshot requirements
+ */
+
+import { describe, test, expect } from 'vitest';
+import { evaluateRule, evaluateRules, parseAlertRuleInput, snapshotNeeds, subjectKey } from './alerts';
+import type { AlertRule, AlertSnapshot } from '@/types/alerts';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const NOW = 1_700_000_000_000;
+
+function buildRule(overrides: Partial<AlertRule>): AlertRule {
+  return {
+    id: 'rule-1',
+    type: 'price',
+    enabled: true,
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+function buildSnapshot(overrides: Partial<AlertSnapshot> = {}): AlertSnapshot {
+  return {
+    prices: {},
+    regime: null,
+    foreignNet: null,
+    sectors: [],
+    canslimScores: {},
+    watchlistSymbols: [],
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// RULE INPUT
+// ============================================================================
+
+describe('parseAlertRuleInput', () => {
+  test('accepts a price rule and normalizes the symbol', () => {
+    const { rule, error } = parseAlertRuleInput({ type: 'price', symbol: ' ptt.bk ', direction: 'above', threshold: 35 });
+    expect(error).toBeNull();
+    expect(rule).toEqual({ type: 'price', symbol: 'PTT.BK', direction: 'above', threshold: 35, enabled: true });
+  });
+
+  test('rejects unknown types, missing symbols and bad thresholds', () => {
+    expect(parseAlertRuleInput({ type: 'volume' }).error).toMatch(/type must be/);
+    expect(parseAlertRuleInput({ type: 'price', direction: 'above', threshold: 1 }).error).toMatch(/symbol/);
+    expect(parseAlertRuleInput({ type: 'price', symbol: 'PTT.BK', direction: 'up', threshold: 1 }).error).toMatch(
+      /direction/
+    );
+    expect(parseAlertRuleInput({ type: 'price', symbol: 'PTT.BK', direction: 'above', threshold: 0 }).error).toMatch(
+      /positive/
+    );
+    expect(parseAlertRuleInput({ type: 'canslimScore', direction: 'above', threshold: 120 }).error).toMatch(/0 and 100/);
+  });
+
+  test('regime and foreign flow rules need no threshold; optional subjects may be omitted', () => {
+    expect(parseAlertRuleInput({ type: 'regime' }).rule).toEqual({ type: 'regime', enabled: true });
+    expect(parseAlertRuleInput({ type: 'foreignFlow', enabled: false }).rule).toEqual({
+      type: 'foreignFlow',
+      enabled: false,
+    });
+    expect(parseAlertRuleInput({ type: 'canslimScore', direction: 'above', threshold: 70 }).rule?.symbol).toBeUndefined();
+    expect(
+      parseAlertRuleInput({ type: 'sectorChange', sectorId: 'bank', direction: 'below', threshold: -2 }).rule?.sectorId
+    ).toBe('BANK');
+  });
+
+  test('subject keys are safe for the database', () => {
+    expect(subjectKey('PTT.BK')).toBe('PTT_BK');
+    expect(subjectKey('^SET.BK')).toBe('^SET_BK');
+  });
+});
+
+// ============================================================================
+// THRESHOLD RULES
+// ============================================================================
+
+describe('evaluateRule — thresholds', () => {
+  const rule = buildRule({ symbol: 'PTT.BK', direction: 'above', threshold: 35 });
+
+  test('first observation only records the value', () => {
+    const result = evaluateRule(rule, buildSnapshot({ prices: { 'PTT.BK': 36 } }), NOW);
+    expect(result.notifications).toHaveLength(0);
+    expect(result.state.lastObserved).toEqual({ PTT_BK: 36 });
+    expect(result.state.lastTriggeredAt).toBeUndefined();
+  });
+
+  test('fires when the price crosses above, not while it stays above', () => {
+    const crossed = evaluateRule(
+      { ...rule, lastObserved: { PTT_BK: 34.5 } },
+      buildSnapshot({ prices: { 'PTT.BK': 35.25 } }),
+      NOW
+    );
+    expect(crossed.notifications).toHaveLength(1);
+    expect(crossed.notifications[0]).toMatchObject({ ruleId: 'rule-1', subject: 'PTT.BK', value: 35.25, read: false });
+    expect(crossed.state.lastTriggeredAt).toBe(NOW);
+
+    const still = evaluateRule(
+      { ...rule, ...crossed.state },
+      buildSnapshot({ prices: { 'PTT.BK': 36 } }),
+      NOW + 1
+    );
+    expect(still.notifications).toHaveLength(0);
+    expect(still.state.lastTriggeredAt).toBe(NOW);
+  });
+
+  test('fires when the price crosses below', () => {
+    const below = buildRule({ symbol: 'PTT.BK', direction: 'below', threshold: 30, lastObserved: { PTT_BK: 31 } });
+    expect(evaluateRule(below, buildSnapshot({ prices: { 'PTT.BK': 30 } }), NOW).notifications).toHaveLength(1);
+  });
+
+  test('a missing quote keeps the previous observation', () => {
+    const result = evaluateRule({ ...rule, lastObserved: { PTT_BK: 34 } }, buildSnapshot(), NOW);
+    expect(result.notifications).toHaveLength(0);
+    expect(result.state.lastObserved).toEqual({ PTT_BK: 34 });
+  });
+
+  test('sector rules watch one sector or every sector', () => {
+    const sectors = [
+      { id: 'BANK', name: 'Banking', chgPct: 2.5 },
+      { id: 'ENERG', name: 'Energy', chgPct: 3.1 },
+    ];
+    const lastObserved = { BANK: 1, ENERG: 1 };
+
+    const any = buildRule({ type: 'sectorChange', direction: 'above', threshold: 2, lastObserved });
+    expect(evaluateRule(any, buildSnapshot({ sectors }), NOW).notifications.map((n) => n.subject)).toEqual([
+      'BANK',
+      'ENERG',
+    ]);
+
+    const bank = { ...any, sectorId: 'BANK' };
+    expect(evaluateRule(bank, buildSnapshot({ sectors }), NOW).notifications.map((n) => n.subject)).toEqual(['BANK']);
+  });
+
+  test('CAN SLIM rules without a symbol watch every watchlisted stock', () => {
+    const scoreRule = buildRule({
+      type: 'canslimScore',
+      direction: 'above',
+      threshold: 70,
+      lastObserved: { PTT_BK: 65, AOT_BK: 72 },
+    });
+    const snapshot = buildSnapshot({
+      watchlistSymbols: ['PTT.BK', 'AOT.BK', 'CPALL.BK'],
+      canslimScores: { 'PTT.BK': 71, 'AOT.BK': 75, 'CPALL.BK': 80 },
+    });
+
+    const result = evaluateRule(scoreRule, snapshot, NOW);
+    expect(result.notifications.map((n) => n.subject)).toEqual(['PTT.BK']);
+    expect(result.state.lastObserved).toEqual({ PTT_BK: 71, AOT_BK: 75, CPALL_BK: 80 });
+  });
+});
+
+// ============================================================================
+// REGIME AND FLOW RULES
+// ============================================================================
+
+describe('evaluateRule — regime and foreign flow', () => {
+  test('regime rules fire on a label change', () => {
+    const rule = buildRule({ type: 'regime', lastObserved: { SET: 'NEUTRAL' } });
+    expect(evaluateRule(rule, buildSnapshot({ regime: 'NEUTRAL' }), NOW).notifications).toHaveLength(0);
+
+    const changed = evaluateRule(rule, buildSnapshot({ regime: 'BULL' }), NOW);
+    expect(changed.notifications).toHaveLength(1);
+    expect(changed.notifications[0].message).toContain('from NEUTRAL to BULL');
+  });
+
+  test('foreign flow rules fire on a sign flip and ignore zero', () => {
+    const rule = buildRule({ type: 'foreignFlow', lastObserved: { FOREIGN: -1200 } });
+
+    const flipped = evaluateRule(rule, buildSnapshot({ foreignNet: 800 }), NOW);
+    expect(flipped.notifications).toHaveLength(1);
+    expect(flipped.notifications[0].title).toContain('net buying');
+
+    expect(evaluateRule(rule, buildSnapshot({ foreignNet: -50 }), NOW).notifications).toHaveLength(0);
+    expect(evaluateRule(rule, buildSnapshot({ foreignNet: 0 }), NOW).notifications).toHaveLength(0);
+  });
+});
+
+// ============================================================================
+// RULE SETS
+// ============================================================================
+
+describe('evaluateRules and snapshotNeeds', () => {
+  const rules = [
+    buildRule({ id: 'a', symbol: 'PTT.BK', direction: 'above', threshold: 35, lastObserved: { PTT_BK: 34 } }),
+    buildRule({ id: 'b', symbol: 'AOT.BK', direction: 'above', threshold: 60, enabled: false, lastObserved: { AOT_BK: 50 } }),
+    buildRule({ id: 'c', type: 'canslimScore', direction: 'above', threshold: 70 }),
+  ];
+
+  test('disabled rules are skipped', () => {
+    const { states, notifications } = evaluateRules(
+      rules,
+      buildSnapshot({ prices: { 'PTT.BK': 36, 'AOT.BK': 65 } }),
+      NOW
+    );
+    expect(Object.keys(states)).toEqual(['a', 'c']);
+    expect(notifications.map((n) => n.ruleId)).toEqual(['a']);
+  });
+
+  test('snapshotNeeds lists only what enabled rules use', () => {
+    expect(snapshotNeeds(rules)).toEqual({
+      priceSymbols: ['PTT.BK'],
+      scoreSymbols: [],
+      watchlistScores: true,
+      market: false,
+    });
+    expect(snapshotNeeds([buildRule({ type: 'foreignFlow' })]).market).toBe(true);
+  });
+});
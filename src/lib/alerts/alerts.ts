@@ -0,0 +1,282 @@
+/**
+ * Alert Rules Engine
+ *
+ * Evaluates alert rules against a snapshot of market data. Rules are
+ * edge-triggered: a threshold rule fires when the value crosses the threshold
+ * since the previous evaluation, a regime rule when the label changes and a
+ * flow rule when the sign flips. The first evaluation of a subject only
+ * records its value.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type {
+  AlertDirection,
+  AlertRule,
+  AlertRuleState,
+  AlertRuleType,
+  AlertSnapshot,
+  NewAlertNotification,
+  NewAlertRule,
+} from '@/types/alerts';
+import { normalizeSymbol, symbolKey } from '@/lib/symbols/symbols';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ALERT_RULE_TYPES: AlertRuleType[] = ['price', 'regime', 'foreignFlow', 'sectorChange', 'canslimScore'];
+
+export const ALERT_DIRECTIONS: AlertDirection[] = ['above', 'below'];
+
+const REGIME_SUBJECT = 'SET';
+const FOREIGN_SUBJECT = 'FOREIGN';
+
+// ============================================================================
+// RULE INPUT
+// ============================================================================
+
+/**
+ * RTDB key for a rule subject (symbol, sector id, "SET" or "FOREIGN")
+ */
+export function subjectKey(subject: string): string {
+  return symbolKey(subject);
+}
+
+function hasThreshold(type: AlertRuleType): boolean {
+  return type === 'price' || type === 'sectorChange' || type === 'canslimScore';
+}
+
+/**
+ * Validate a new rule from a request body
+ */
+export function parseAlertRuleInput(
+  body: Record<string, unknown> | null
+): { rule: NewAlertRule | null; error: string | null } {
+  const invalid = (error: string) => ({ rule: null, error });
+  if (!body) return invalid('Request body is required');
+
+  const type = body.type as AlertRuleType;
+  if (!ALERT_RULE_TYPES.includes(type)) return invalid(`type must be one of: ${ALERT_RULE_TYPES.join(', ')}`);
+
+  const rule: NewAlertRule = { type, enabled: body.enabled !== false };
+
+  if (type === 'price' || type === 'canslimScore') {
+    const raw = typeof body.symbol === 'string' ? body.symbol.trim() : '';
+    const symbol = raw ? normalizeSymbol(raw) : '';
+    if (symbol === null) return invalid('symbol is not valid');
+    if (!symbol && type === 'price') return invalid('A valid symbol is required');
+    if (symbol) rule.symbol = symbol;
+  }
+
+  if (type === 'sectorChange' && typeof body.sectorId === 'string' && body.sectorId.trim()) {
+    const sectorId = body.sectorId.trim().toUpperCase();
+    if (!/^[A-Z0-9_-]{1,20}$/.test(sectorId)) return invalid('sectorId is not valid');
+    rule.sectorId = sectorId;
+  }
+
+  if (hasThreshold(type)) {
+    const direction = body.direction as AlertDirection;
+    if (!ALERT_DIRECTIONS.includes(direction)) return invalid('direction must be above or below');
+
+    const threshold = body.threshold;
+    if (typeof threshold !== 'number' || !isFinite(threshold)) return invalid('threshold must be a number');
+    if (type === 'price' && threshold <= 0) return invalid('price threshold must be positive');
+    if (type === 'canslimScore' && (threshold < 0 || threshold > 100)) {
+      return invalid('score threshold must be between 0 and 100');
+    }
+
+    rule.direction = direction;
+    rule.threshold = threshold;
+  }
+
+  return { rule, error: null };
+}
+
+/**
+ * Human-readable rule summary, e.g. "PTT.BK price crosses above 35"
+ */
+export function describeAlertRule(rule: Pick<AlertRule, 'type' | 'symbol' | 'sectorId' | 'direction' | 'threshold'>): string {
+  const crosses = `crosses ${rule.direction ?? 'above'} ${rule.threshold ?? 0}`;
+  switch (rule.type) {
+    case 'price':
+      return `${rule.symbol} price ${crosses}`;
+    case 'regime':
+      return 'SET market regime changes';
+    case 'foreignFlow':
+      return 'Foreign net flow flips between buying and selling';
+    case 'sectorChange':
+      return `${rule.sectorId ?? 'Any sector'} % change ${crosses}%`;
+    case 'canslimScore':
+      return `${rule.symbol ?? 'Any watchlisted stock'} CAN SLIM score ${crosses}`;
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+interface Observation {
+  subject: string;
+  label: string;
+  value: number | string;
+}
+
+/**
+ * Current value of every subject a rule watches; subjects missing from the
+ * snapshot (e.g. a failed quote) are left out and keep their previous value
+ */
+function observe(rule: AlertRule, snapshot: AlertSnapshot): Observation[] {
+  switch (rule.type) {
+    case 'price': {
+      const price = rule.symbol ? snapshot.prices[rule.symbol] : undefined;
+      return price !== undefined ? [{ subject: rule.symbol!, label: rule.symbol!, value: price }] : [];
+    }
+    case 'regime':
+      return snapshot.regime ? [{ subject: REGIME_SUBJECT, label: 'SET market', value: snapshot.regime }] : [];
+    case 'foreignFlow':
+      return snapshot.foreignNet !== null
+        ? [{ subject: FOREIGN_SUBJECT, label: 'Foreign investors', value: snapshot.foreignNet }]
+        : [];
+    case 'sectorChange':
+      return snapshot.sectors
+        .filter((sector) => !rule.sectorId || sector.id === rule.sectorId)
+        .map((sector) => ({ subject: sector.id, label: sector.name, value: sector.chgPct }));
+    case 'canslimScore': {
+      const symbols = rule.symbol ? [rule.symbol] : snapshot.watchlistSymbols;
+      return symbols
+        .filter((symbol) => snapshot.canslimScores[symbol] !== undefined)
+        .map((symbol) => ({ subject: symbol, label: symbol, value: snapshot.canslimScores[symbol] }));
+    }
+  }
+}
+
+function isBeyond(rule: AlertRule, value: number): boolean {
+  const threshold = rule.threshold ?? 0;
+  return rule.direction === 'below' ? value <= threshold : value >= threshold;
+}
+
+function formatValue(rule: AlertRule, value: number): string {
+  if (rule.type === 'sectorChange') return `${value > 0 ? '+' : ''}${value.toFixed(2)}%`;
+  if (rule.type === 'canslimScore') return value.toFixed(0);
+  if (rule.type === 'foreignFlow') return `${value > 0 ? '+' : ''}${value.toLocaleString('en-US')} MB`;
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+}
+
+/**
+ * Notification text when an observation triggers the rule, or null
+ */
+function trigger(
+  rule: AlertRule,
+  observation: Observation,
+  previous: number | string
+): Pick<NewAlertNotification, 'title' | 'message'> | null {
+  const { label, value } = observation;
+
+  if (rule.type === 'regime') {
+    return value !== previous
+      ? { title: `Market regime: ${value}`, message: `SET market regime changed from ${previous} to ${value}` }
+      : null;
+  }
+
+  if (typeof value !== 'number' || typeof previous !== 'number') return null;
+
+  if (rule.type === 'foreignFlow') {
+    if (Math.sign(value) === 0 || Math.sign(previous) === 0 || Math.sign(value) === Math.sign(previous)) return null;
+    const side = value > 0 ? 'net buying' : 'net selling';
+    return {
+      title: `Foreign investors turned ${side}`,
+      message: `Foreign net flow flipped from ${formatValue(rule, previous)} to ${formatValue(rule, value)}`,
+    };
+  }
+
+  if (!isBeyond(rule, value) || isBeyond(rule, previous)) return null;
+
+  const what = rule.type === 'price' ? 'price' : rule.type === 'sectorChange' ? '% change' : 'CAN SLIM score';
+  return {
+    title: `${label} ${what} ${rule.direction} ${rule.threshold}`,
+    message: `${label} ${what} crossed ${rule.direction} ${rule.threshold} (now ${formatValue(rule, value)})`,
+  };
+}
+
+/**
+ * Evaluate one rule: its new state and any notifications it triggers
+ */
+export function evaluateRule(
+  rule: AlertRule,
+  snapshot: AlertSnapshot,
+  now: number
+): { state: AlertRuleState; notifications: NewAlertNotification[] } {
+  const lastObserved = { ...(rule.lastObserved ?? {}) };
+  const notifications: NewAlertNotification[] = [];
+
+  for (const observation of observe(rule, snapshot)) {
+    const key = subjectKey(observation.subject);
+    const previous = lastObserved[key];
+    lastObserved[key] = observation.value;
+
+    if (previous === undefined) continue;
+
+    const text = trigger(rule, observation, previous);
+    if (text) {
+      notifications.push({
+        ruleId: rule.id,
+        type: rule.type,
+        subject: observation.subject,
+        ...text,
+        value: observation.value,
+        triggeredAt: now,
+        read: false,
+      });
+    }
+  }
+
+  return {
+    state: {
+      lastObserved,
+      lastTriggeredAt: notifications.length > 0 ? now : rule.lastTriggeredAt,
+    },
+    notifications,
+  };
+}
+
+/**
+ * Evaluate every enabled rule
+ */
+export function evaluateRules(
+  rules: AlertRule[],
+  snapshot: AlertSnapshot,
+  now: number
+): { states: Record<string, AlertRuleState>; notifications: NewAlertNotification[] } {
+  const states: Record<string, AlertRuleState> = {};
+  const notifications: NewAlertNotification[] = [];
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const result = evaluateRule(rule, snapshot, now);
+    states[rule.id] = result.state;
+    notifications.push(...result.notifications);
+  }
+
+  return { states, notifications };
+}
+
+/**
+ * What a snapshot must load for these rules
+ */
+export function snapshotNeeds(rules: AlertRule[]): {
+  priceSymbols: string[];
+  scoreSymbols: string[];
+  watchlistScores: boolean;
+  market: boolean;
+} {
+  const enabled = rules.filter((rule) => rule.enabled);
+  const unique = (values: Array<string | undefined>) => [...new Set(values.filter((v): v is string => !!v))];
+
+  return {
+    priceSymbols: unique(enabled.filter((r) => r.type === 'price').map((r) => r.symbol)),
+    scoreSymbols: unique(enabled.filter((r) => r.type === 'canslimScore').map((r) => r.symbol)),
+    watchlistScores: enabled.some((r) => r.type === 'canslimScore' && !r.symbol),
+    market: enabled.some((r) => r.type === 'regime' || r.type === 'foreignFlow' || r.type === 'sectorChange'),
+  };
+}
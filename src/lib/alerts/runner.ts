@@ -0,0 +1,118 @@
+/**
+ * Alert Runner
+ *
+ * Loads the market snapshot a user's rules need (quotes, SETTRADE sector and
+ * investor data, CAN SLIM scores), evaluates the rules and stores the rule
+ * state and triggered notifications. Used by /api/alerts/evaluate, both for
+ * the scheduled run over every user and for a signed-in user's "check now".
+ */
+
+import { getQuotes } from '@/lib/api/quotes';
+import { calculateMarketRegime } from '@/lib/analysis/market-regime';
+import { getLatestIndustrySector, getLatestInvestorType } from '@/lib/firebase/settrade';
+import { getWatchlists } from '@/lib/firebase/watchlist';
+import { addNotifications, getAlertRules, saveAlertRuleStates } from '@/lib/firebase/alerts';
+import type { UserSession } from '@/lib/firebase/rest';
+import { getWatchlistScores } from '@/lib/watchlist/scores';
+import type { AlertRule, AlertSnapshot, NewAlertNotification } from '@/types/alerts';
+import { evaluateRules, snapshotNeeds } from './alerts';
+
+/**
+ * Decision pipelines run in parallel per batch (keeps provider rate limits happy)
+ */
+const SCORE_CONCURRENCY = 4;
+
+export interface AlertRunResult {
+  evaluated: number; // enabled rules evaluated
+  notifications: NewAlertNotification[];
+}
+
+async function loadScores(symbols: string[]): Promise<Record<string, number>> {
+  const scores: Record<string, number> = {};
+
+  for (let i = 0; i < symbols.length; i += SCORE_CONCURRENCY) {
+    const batch = symbols.slice(i, i + SCORE_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map((symbol) => getWatchlistScores(symbol)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        scores[batch[index]] = result.value.canslimScore;
+      } else {
+        console.warn(`Alerts: scores unavailable for ${batch[index]}:`, (result.reason as Error)?.message);
+      }
+    });
+  }
+
+  return scores;
+}
+
+/**
+ * Load only what the rules need. Failed sources are left empty so the
+ * affected subjects keep their previous observation.
+ */
+export async function loadAlertSnapshot(rules: AlertRule[], watchlistSymbols: string[]): Promise<AlertSnapshot> {
+  const needs = snapshotNeeds(rules);
+  const snapshot: AlertSnapshot = {
+    prices: {},
+    regime: null,
+    foreignNet: null,
+    sectors: [],
+    canslimScores: {},
+    watchlistSymbols,
+  };
+
+  const [quotes, sectors, investors] = await Promise.allSettled([
+    needs.priceSymbols.length > 0 ? getQuotes(needs.priceSymbols) : Promise.resolve([]),
+    needs.market ? getLatestIndustrySector() : Promise.resolve(null),
+    needs.market ? getLatestInvestorType() : Promise.resolve(null),
+  ]);
+
+  if (quotes.status === 'fulfilled') {
+    for (const quote of quotes.value) {
+      if (quote.price > 0) snapshot.prices[quote.symbol.toUpperCase()] = quote.price;
+    }
+  } else {
+    console.warn('Alerts: quotes unavailable:', (quotes.reason as Error)?.message);
+  }
+
+  const sectorData = sectors.status === 'fulfilled' ? sectors.value : null;
+  const investorData = investors.status === 'fulfilled' ? investors.value : null;
+
+  if (sectorData) {
+    snapshot.sectors = sectorData.sectors.map(({ id, name, chgPct }) => ({ id, name, chgPct }));
+    snapshot.regime = calculateMarketRegime(sectorData.sectors, investorData?.investors ?? []).regime;
+  }
+  if (investorData) {
+    const foreign = investorData.investors.find((investor) => investor.id === 'FOREIGN');
+    snapshot.foreignNet = foreign ? foreign.netValue : null;
+  }
+
+  const scoreSymbols = [...new Set([...needs.scoreSymbols, ...(needs.watchlistScores ? watchlistSymbols : [])])];
+  if (scoreSymbols.length > 0) {
+    snapshot.canslimScores = await loadScores(scoreSymbols);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Evaluate one user's rules and store the results
+ */
+export async function runAlerts(session: UserSession, now: number = Date.now()): Promise<AlertRunResult> {
+  const rules = (await getAlertRules(session)).filter((rule) => rule.enabled);
+  if (rules.length === 0) {
+    return { evaluated: 0, notifications: [] };
+  }
+
+  const watchlistSymbols = snapshotNeeds(rules).watchlistScores
+    ? [...new Set((await getWatchlists(session)).flatMap((list) => list.items.map((item) => item.symbol)))]
+    : [];
+
+  const snapshot = await loadAlertSnapshot(rules, watchlistSymbols);
+  const { states, notifications } = evaluateRules(rules, snapshot, now);
+
+  await saveAlertRuleStates(session, states);
+  await addNotifications(session, notifications);
+
+  return { evaluated: rules.length, notifications };
+}
@@ -0,0 +1,90 @@
+/**
+ * CAN SLIM Tests
+ *
+ * Tests cover:
+ * - Base breakouts in N (new highs) and S (supply & demand)
+ * - Scores unchanged without a detected base
+ * - RS rating in L (leader), blended with the quality proxies
+ */
+
+import { describe, test, expect } from 'vitest';
+import { calculateCanslimScore, type CanslimInput } from './canslim';
+import type { BasePattern } from '@/types/technical';
+
+function buildInput(overrides: Partial<CanslimInput> = {}): CanslimInput {
+  return {
+    symbol: 'TEST',
+    currentPrice: 80,
+    fiftyTwoWeekHigh: 100,
+    fiftyTwoWeekLow: 60,
+    marketCap: 5e9,
+    volume: 1000,
+    avgVolume: 1000,
+    quarterlyEarnings: [],
+    annualEarnings: [],
+    financialMetrics: {} as never,
+    industry: '',
+    sector: '',
+    hasRecentNews: false,
+    marketTrend: 'neutral',
+    ...overrides,
+  };
+}
+
+function buildBase(overrides: Partial<BasePattern> = {}): BasePattern {
+  return {
+    type: 'cup-with-handle',
+    startIndex: 0,
+    endIndex: 60,
+    startDate: '2024-01-02',
+    endDate: '2024-04-01',
+    buyPoint: 78,
+    depthPct: 25,
+    baseLow: 60,
+    contractions: [25, 8],
+    breakoutIndex: 61,
+    breakoutDate: '2024-04-02',
+    breakoutVolumeRatio: 1.6,
+    status: 'breakout',
+    ...overrides,
+  };
+}
+
+describe('base breakouts in CAN SLIM', () => {
+  test('should leave N and S alone without a base', () => {
+    const score = calculateCanslimScore(buildInput());
+    expect(score.newProducts).toBe(40);
+    expect(score.supplyDemand).toBe(70);
+    expect(calculateCanslimScore(buildInput({ basePattern: null })).supplyDemand).toBe(70);
+  });
+
+  test('should reward a breakout on volume in N and S', () => {
+    const score = calculateCanslimScore(buildInput({ basePattern: buildBase() }));
+    expect(score.newProducts).toBe(70);
+    expect(score.supplyDemand).toBe(90);
+
+    const quiet = calculateCanslimScore(buildInput({ basePattern: buildBase({ breakoutVolumeRatio: 1.1 }) }));
+    expect(quiet.supplyDemand).toBe(80);
+  });
+
+  test('should credit a forming base and penalize a failed breakout', () => {
+    expect(calculateCanslimScore(buildInput({ basePattern: buildBase({ status: 'forming' }) })).supplyDemand).toBe(75);
+    expect(calculateCanslimScore(buildInput({ basePattern: buildBase({ status: 'failed' }) })).supplyDemand).toBe(60);
+    expect(calculateCanslimScore(buildInput({ basePattern: buildBase({ status: 'extended' }) })).newProducts).toBe(40);
+  });
+});
+
+describe('RS rating in CAN SLIM', () => {
+  const metrics = { roe: 20, profitMargin: 10 } as never;
+
+  test('should keep the quality proxy without a rating', () => {
+    expect(calculateCanslimScore(buildInput({ financialMetrics: metrics })).leader).toBe(80);
+    expect(calculateCanslimScore(buildInput({ financialMetrics: metrics, rsRating: null })).leader).toBe(80);
+  });
+
+  test('should weight the RS rating over the proxy', () => {
+    expect(calculateCanslimScore(buildInput({ financialMetrics: metrics, rsRating: 95 })).leader).toBe(92);
+    expect(calculateCanslimScore(buildInput({ financialMetrics: metrics, rsRating: 82 })).leader).toBe(83);
+    expect(calculateCanslimScore(buildInput({ financialMetrics: metrics, rsRating: 30 })).leader).toBe(38);
+  });
+});
@@ -8,6 +8,7 @@
 
 import type { FinancialMetrics, QuarterlyData, AnnualData } from '@/types/financials';
 import type { CanslimScore } from '@/types/analysis';
+import type { BasePattern } from '@/types/technical';
 
 export interface CanslimInput {
   symbol: string;
@@ -25,6 +26,8 @@ export interface CanslimInput {
   hasRecentNews: boolean;
   institutionalOwnership?: number;
   marketTrend?: 'bull' | 'bear' | 'neutral';
+  basePattern?: BasePattern | null; // current base (lib/technical/patterns analyzePatterns)
+  rsRating?: number | null; // 1-99 RS rating across the universe (lib/technical/relative-strength)
 }
 
 /**
@@ -149,14 +152,15 @@ function scoreAnnualEarnings(input: CanslimInput): number {
 /**
  * N - New Products/Management (10% weight)
  * New products, management changes, or price highs
+ * (a breakout from a sound base counts like news)
  */
 function scoreNewProducts(input: CanslimInput): number {
-  const { hasRecentNews, currentPrice, fiftyTwoWeekHigh } = input;
+  const { hasRecentNews, currentPrice, fiftyTwoWeekHigh, basePattern } = input;
 
   let score = 0;
 
   // Recent news about new products or management (30 points)
-  if (hasRecentNews) {
+  if (hasRecentNews || basePattern?.status === 'breakout') {
     score += 30;
   }
 
@@ -175,10 +179,10 @@ function scoreNewProducts(input: CanslimInput): number {
 
 /**
  * S - Supply & Demand (10% weight)
- * Market cap, float, and trading volume
+ * Market cap, float, trading volume and base breakouts
  */
 function scoreSupplyDemand(input: CanslimInput): number {
-  const { marketCap, volume, avgVolume } = input;
+  const { marketCap, volume, avgVolume, basePattern } = input;
 
   let score = 0;
 
@@ -211,18 +215,24 @@ function scoreSupplyDemand(input: CanslimInput): number {
     else score += 10;
   }
 
-  return Math.min(100, score);
+  // Base breakout (up to 20 points): demand shows as volume 40%+ above average
+  // on the breakout day; a failed breakout is supply
+  if (basePattern) {
+    if (basePattern.status === 'breakout') score += (basePattern.breakoutVolumeRatio ?? 0) >= 1.4 ? 20 : 10;
+    else if (basePattern.status === 'forming') score += 5;
+    else if (basePattern.status === 'failed') score -= 10;
+  }
+
+  return Math.max(0, Math.min(100, score));
 }
 
 /**
  * L - Leader vs Laggard (15% weight)
- * Relative strength vs sector/market
+ * Relative strength vs the market: the RS rating when one is available
+ * (leaders rate 80+), blended with ROE and profit margin as quality proxies
  */
 function scoreLeader(input: CanslimInput): number {
-  const { financialMetrics, industry, sector } = input;
-
-  // This would ideally compare against industry averages
-  // For now, use ROE and profit margin as proxies
+  const { financialMetrics, rsRating } = input;
 
   let score = 0;
 
@@ -241,7 +251,16 @@ function scoreLeader(input: CanslimInput): number {
   else if (profitMargin >= 10) score += 30;
   else if (profitMargin >= 5) score += 15;
 
-  return Math.min(100, score);
+  score = Math.min(100, score);
+  if (rsRating === undefined || rsRating === null) return score;
+
+  let rsScore = 10;
+  if (rsRating >= 90) rsScore = 100;
+  else if (rsRating >= 80) rsScore = 85;
+  else if (rsRating >= 70) rsScore = 65;
+  else if (rsRating >= 50) rsScore = 40;
+
+  return Math.round(rsScore * 0.6 + score * 0.4);
 }
 
 /**
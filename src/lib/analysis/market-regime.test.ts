@@ -0,0 +1,78 @@
+/**
+ * Market Regime Tests
+ *
+ * Tests cover:
+ * - Regime classification thresholds
+ * - Breadth, average change and smart money aggregation
+ * - Empty input handling
+ */
+
+import { describe, test, expect } from 'vitest';
+import { calculateMarketRegime, classifyRegime, getRegimeDirection } from './market-regime';
+
+describe('classifyRegime', () => {
+  test('should require positive smart money for STRONG BULL', () => {
+    expect(classifyRegime(75, 1.2, 100)).toBe('STRONG BULL');
+    expect(classifyRegime(75, 1.2, 0)).toBe('BULL');
+  });
+
+  test('should classify BEAR without requiring negative flow', () => {
+    expect(classifyRegime(40, -0.3, 200)).toBe('BEAR');
+  });
+
+  test('should classify STRONG BEAR with broad selling and outflow', () => {
+    expect(classifyRegime(20, -0.8, -50)).toBe('STRONG BEAR');
+  });
+
+  test('should default to NEUTRAL for mixed signals', () => {
+    expect(classifyRegime(50, 0.1, 0)).toBe('NEUTRAL');
+  });
+});
+
+describe('calculateMarketRegime', () => {
+  test('should aggregate breadth, change and smart money', () => {
+    const result = calculateMarketRegime(
+      [
+        { chgPct: 1, valMn: 1000 },
+        { chgPct: 2, valMn: 2000 },
+        { chgPct: -1, valMn: 500 },
+        { chgPct: 0, valMn: 500 },
+      ],
+      [
+        { id: 'FOREIGN', netValue: 300 },
+        { id: 'LOCAL_INST', netValue: -100 },
+        { id: 'LOCAL_INDIVIDUAL', netValue: -200 },
+      ]
+    );
+
+    expect(result.advancingSectors).toBe(2);
+    expect(result.decliningSectors).toBe(1);
+    expect(result.breadthPct).toBe(50);
+    expect(result.avgChange).toBe(0.5);
+    expect(result.totalValue).toBe(4000);
+    expect(result.smartMoneyNet).toBe(200);
+    // breadth 0 + flow 30 + trend 10
+    expect(result.regimeScore).toBe(40);
+  });
+
+  test('should attach the profile text for the regime', () => {
+    const result = calculateMarketRegime([{ chgPct: 2, valMn: 1 }], [{ id: 'FOREIGN', netValue: 1 }]);
+    expect(result.regime).toBe('STRONG BULL');
+    expect(result.positionSize).toBe('100%+ (can use leverage)');
+  });
+
+  test('should be NEUTRAL with no data', () => {
+    const result = calculateMarketRegime([], []);
+    expect(result.regime).toBe('NEUTRAL');
+    expect(result.breadthPct).toBe(50);
+    expect(result.regimeScore).toBe(0);
+  });
+});
+
+describe('getRegimeDirection', () => {
+  test('should collapse labels into directions', () => {
+    expect(getRegimeDirection('STRONG BULL')).toBe('bullish');
+    expect(getRegimeDirection('BEAR')).toBe('bearish');
+    expect(getRegimeDirection('NEUTRAL')).toBe('neutral');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Market Regime Classification
+ * Phase 2: Analysis Systems
+ *
+ * Identifies the SET market regime (Bull/Bear/Neutral) from SETTRADE data:
+ * 1. Market Breadth (advancing vs declining sectors)
+ * 2. Money Flow (foreign + local institution net flow)
+ * 3. Average sector change
+ *
+ * Shared by MarketRegimeIndicator and the decision engine timing scorer.
+ */
+
+import type { MarketRegime, MarketRegimeLabel } from '@/types/market';
+
+export interface RegimeSectorInput {
+  chgPct: number;
+  valMn: number;
+}
+
+export interface RegimeInvestorInput {
+  id: string;
+  netValue: number;
+}
+
+const REGIME_PROFILES: Record<
+  MarketRegimeLabel,
+  Pick<MarketRegime, 'icon' | 'description' | 'recommendation' | 'riskLevel' | 'positionSize'>
+> = {
+  'STRONG BULL': {
+    icon: '🚀',
+    description: 'Strong uptrend with broad participation',
+    recommendation: 'Aggressive risk-on, maximize equity exposure',
+    riskLevel: 'HIGH RISK / HIGH REWARD',
+    positionSize: '100%+ (can use leverage)',
+  },
+  BULL: {
+    icon: '📈',
+    description: 'Positive trend with good breadth',
+    recommendation: 'Risk-on, accumulate quality positions',
+    riskLevel: 'MODERATE RISK',
+    positionSize: '80-100% of capital',
+  },
+  'STRONG BEAR': {
+    icon: '🔻',
+    description: 'Strong downtrend, panic selling',
+    recommendation: 'Defensive, preserve capital, wait for bottom',
+    riskLevel: 'HIGH RISK TO THE DOWNSIDE',
+    positionSize: '0-20% (hold cash or shorts)',
+  },
+  BEAR: {
+    icon: '📉',
+    description: 'Negative trend, weak participation',
+    recommendation: 'Risk-off, reduce positions, selective only',
+    riskLevel: 'ELEVATED RISK',
+    positionSize: '20-40% of capital',
+  },
+  NEUTRAL: {
+    icon: '➡️',
+    description: 'Mixed signals, direction unclear',
+    recommendation: 'Wait for clarity, maintain balanced approach',
+    riskLevel: 'MODERATE RISK',
+    positionSize: '40-60% of capital',
+  },
+};
+
+/**
+ * Classify the regime label from breadth, average change and smart money flow
+ */
+export function classifyRegime(
+  breadthPct: number,
+  avgChange: number,
+  smartMoneyNet: number
+): MarketRegimeLabel {
+  if (breadthPct >= 70 && avgChange >= 1 && smartMoneyNet > 0) return 'STRONG BULL';
+  if (breadthPct >= 55 && avgChange >= 0.3 && smartMoneyNet >= 0) return 'BULL';
+  if (breadthPct <= 30 && avgChange <= -0.5 && smartMoneyNet < 0) return 'STRONG BEAR';
+  if (breadthPct <= 45 && avgChange <= -0.2) return 'BEAR';
+  return 'NEUTRAL';
+}
+
+/**
+ * Calculate market regime from sector and investor type data
+ * With no sector data the regime is NEUTRAL (breadth treated as 50%)
+ */
+export function calculateMarketRegime(
+  sectors: RegimeSectorInput[],
+  investors: RegimeInvestorInput[]
+): MarketRegime {
+  const advancingSectors = sectors.filter((s) => s.chgPct > 0).length;
+  const decliningSectors = sectors.filter((s) => s.chgPct < 0).length;
+  const breadthPct = sectors.length > 0 ? (advancingSectors / sectors.length) * 100 : 50;
+  const avgChange =
+    sectors.length > 0 ? sectors.reduce((sum, s) => sum + s.chgPct, 0) / sectors.length : 0;
+
+  // Participation (total value traded)
+  const totalValue = sectors.reduce((sum, s) => sum + s.valMn, 0);
+
+  // Smart money flow
+  const foreign = investors.find((i) => i.id === 'FOREIGN');
+  const institute = investors.find((i) => i.id === 'LOCAL_INST');
+  const smartMoneyNet = (foreign?.netValue || 0) + (institute?.netValue || 0);
+
+  const regime = classifyRegime(breadthPct, avgChange, smartMoneyNet);
+
+  // Regime score (-100 to +100)
+  const breadthScore = (breadthPct - 50) * 2;
+  const flowScore = smartMoneyNet > 0 ? 30 : smartMoneyNet < 0 ? -30 : 0;
+  const trendScore = avgChange * 20;
+  const regimeScore = breadthScore + flowScore + trendScore;
+
+  return {
+    regime,
+    ...REGIME_PROFILES[regime],
+    breadthPct,
+    avgChange,
+    advancingSectors,
+    decliningSectors,
+    totalValue,
+    smartMoneyNet,
+    regimeScore,
+  };
+}
+
+/**
+ * Collapse the 5-level regime into a simple direction
+ */
+export function getRegimeDirection(regime: MarketRegimeLabel): 'bullish' | 'neutral' | 'bearish' {
+  if (regime === 'STRONG BULL' || regime === 'BULL') return 'bullish';
+  if (regime === 'STRONG BEAR' || regime === 'BEAR') return 'bearish';
+  return 'neutral';
+}
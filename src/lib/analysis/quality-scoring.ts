@@ -105,8 +105,13 @@ export function getFCFConversionRating(ratio: number): string {
  * Calculate overall quality score (0-100)
  */
 export function calculateQualityScore(input: QualityInput): number {
-  const metrics = calculateQualityMetrics(input);
+  return scoreQualityMetrics(calculateQualityMetrics(input));
+}
 
+/**
+ * Score already-calculated quality metrics (0-100)
+ */
+export function scoreQualityMetrics(metrics: QualityMetrics): number {
   let score = 0;
 
   // Gross margin scoring
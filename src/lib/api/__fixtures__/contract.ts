@@ -0,0 +1,83 @@
+/**
+ * Provider Contract Helpers
+ *
+ * Shared by the provider adapter tests: every adapter must return the same
+ * Quote and HistoricalPrice shapes as the Yahoo Finance adapter, whatever the
+ * provider's field names. Responses come from the recorded JSON fixtures in
+ * this directory through a stubbed fetch.
+ */
+
+import { expect, vi } from 'vitest';
+import type { HistoricalPrice, Quote } from '@/types/market';
+
+const QUOTE_NUMBER_FIELDS = [
+  'price',
+  'change',
+  'changePercent',
+  'high',
+  'low',
+  'open',
+  'previousClose',
+  'volume',
+  'avgVolume',
+  'marketCap',
+  'timestamp',
+] as const;
+
+const HISTORICAL_NUMBER_FIELDS = ['open', 'high', 'low', 'close', 'volume'] as const;
+
+/**
+ * A quote has exactly the Quote fields, all numbers finite
+ */
+export function expectQuoteContract(quote: Quote): void {
+  expect(Object.keys(quote).sort()).toEqual(['name', 'symbol', ...QUOTE_NUMBER_FIELDS].sort());
+  expect(quote.symbol).toMatch(/^\S+$/);
+  expect(quote.name).not.toBe('');
+  for (const field of QUOTE_NUMBER_FIELDS) {
+    expect(Number.isFinite(quote[field]), `${quote.symbol} ${field}`).toBe(true);
+  }
+}
+
+/**
+ * A series is oldest first with one row per ISO date and HistoricalPrice fields only
+ */
+export function expectHistoricalContract(prices: HistoricalPrice[]): void {
+  expect(prices.length).toBeGreaterThan(0);
+  prices.forEach((price, i) => {
+    const fields = Object.keys(price).filter((key) => key !== 'adjClose');
+    expect(fields.sort()).toEqual(['date', ...HISTORICAL_NUMBER_FIELDS].sort());
+    expect(price.date).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    if (i > 0) expect(price.date > prices[i - 1].date).toBe(true);
+    for (const field of HISTORICAL_NUMBER_FIELDS) {
+      expect(Number.isFinite(price[field]), `${price.date} ${field}`).toBe(true);
+    }
+    if (price.adjClose !== undefined) expect(Number.isFinite(price.adjClose)).toBe(true);
+    expect(price.close).toBeGreaterThan(0);
+    expect(price.low).toBeLessThanOrEqual(price.high);
+  });
+}
+
+/**
+ * Stub fetch with a fixture chosen by URL; unmatched URLs are a 404
+ * Returns the mock so tests can check the requested URLs.
+ */
+export function stubFetch(route: (url: URL) => unknown) {
+  const fetchMock = vi.fn(async (input: string | URL) => {
+    const body = route(new URL(String(input)));
+    return {
+      ok: body !== undefined,
+      status: body !== undefined ? 200 : 404,
+      statusText: body !== undefined ? 'OK' : 'Not Found',
+      json: async () => body,
+    };
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+/**
+ * URLs fetched so far, in order
+ */
+export function requestedUrls(fetchMock: ReturnType<typeof stubFetch>): URL[] {
+  return fetchMock.mock.calls.map(([input]) => new URL(String(input)));
+}
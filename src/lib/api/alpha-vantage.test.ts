@@ -0,0 +1,257 @@
+/**
+ * Alpha Vantage Adapter Tests
+ *
+ * Contract tests against recorded Alpha Vantage responses
+ * (src/lib/api/__fixtures__/alphavantage):
+ * - Numbered string fields mapped to the shared Quote shape
+ * - TIME_SERIES_DAILY mapped to HistoricalPrice, oldest first, within the period
+ * - OVERVIEW metrics and profile, "None" values as missing
+ * - Statements joined with EARNINGS, cash flows signed like the Yahoo adapter
+ * - Gainers and losers from TOP_GAINERS_LOSERS
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getBalanceSheetAlphaVantage,
+  getCashFlowStatementAlphaVantage,
+  getCompanyMetricsAlphaVantage,
+  getCompanyProfileAlphaVantage,
+  getHistoricalPricesAlphaVantage,
+  getIncomeStatementAlphaVantage,
+  getMoversAlphaVantage,
+  getQuoteAlphaVantage,
+  getQuotesAlphaVantage,
+} from './alpha-vantage';
+import { setCacheBackend } from './cache';
+import { MemoryCacheBackend } from '@/lib/cache/memory';
+import { expectHistoricalContract, expectQuoteContract, requestedUrls, stubFetch } from './__fixtures__/contract';
+import globalQuoteFixture from './__fixtures__/alphavantage/global-quote.json';
+import timeSeriesFixture from './__fixtures__/alphavantage/time-series-daily.json';
+import overviewFixture from './__fixtures__/alphavantage/overview.json';
+import incomeFixture from './__fixtures__/alphavantage/income-statement.json';
+import earningsFixture from './__fixtures__/alphavantage/earnings.json';
+import balanceSheetFixture from './__fixtures__/alphavantage/balance-sheet.json';
+import cashFlowFixture from './__fixtures__/alphavantage/cash-flow.json';
+import moversFixture from './__fixtures__/alphavantage/top-gainers-losers.json';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const FIXTURES: Record<string, unknown> = {
+  GLOBAL_QUOTE: globalQuoteFixture,
+  TIME_SERIES_DAILY: timeSeriesFixture,
+  OVERVIEW: overviewFixture,
+  INCOME_STATEMENT: incomeFixture,
+  EARNINGS: earningsFixture,
+  BALANCE_SHEET: balanceSheetFixture,
+  CASH_FLOW: cashFlowFixture,
+  TOP_GAINERS_LOSERS: moversFixture,
+};
+
+/**
+ * Route ?function=<NAME> to its fixture; Alpha Vantage answers an unknown
+ * symbol with an empty object
+ */
+function alphaVantageRoute(url: URL): unknown {
+  const symbol = url.searchParams.get('symbol');
+  if (symbol && symbol !== 'IBM') return url.searchParams.get('function') === 'GLOBAL_QUOTE' ? { 'Global Quote': {} } : {};
+  return FIXTURES[url.searchParams.get('function') || ''];
+}
+
+beforeEach(() => {
+  setCacheBackend(new MemoryCacheBackend());
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+describe('Alpha Vantage quotes', () => {
+  test('maps GLOBAL_QUOTE to the shared Quote shape', async () => {
+    stubFetch(alphaVantageRoute);
+    const quote = await getQuoteAlphaVantage('IBM');
+
+    expectQuoteContract(quote);
+    expect(quote).toEqual({
+      symbol: 'IBM',
+      name: 'IBM',
+      price: 185.03,
+      change: -0.27,
+      changePercent: -0.1457,
+      high: 188.38,
+      low: 185.18,
+      open: 185.49,
+      previousClose: 185.3,
+      volume: 4287211,
+      avgVolume: 0,
+      marketCap: 0,
+      timestamp: Date.now(),
+    });
+  });
+
+  test('batches are one request per symbol', async () => {
+    const fetchMock = stubFetch(alphaVantageRoute);
+    const quotes = await getQuotesAlphaVantage(['IBM']);
+    quotes.forEach(expectQuoteContract);
+
+    await expect(getQuotesAlphaVantage(['IBM', 'ZZZZ'])).rejects.toThrow('No data found for symbol: ZZZZ');
+    expect(requestedUrls(fetchMock).map((url) => url.searchParams.get('symbol'))).toEqual(['IBM', 'ZZZZ']);
+  });
+
+  test('an empty Global Quote is a not-found error', async () => {
+    stubFetch(alphaVantageRoute);
+    await expect(getQuoteAlphaVantage('ZZZZ')).rejects.toThrow('No data found for symbol: ZZZZ');
+  });
+});
+
+// ============================================================================
+// HISTORICAL PRICES
+// ============================================================================
+
+describe('Alpha Vantage historical prices', () => {
+  test('returns daily OHLCV oldest first, within the period', async () => {
+    const fetchMock = stubFetch(alphaVantageRoute);
+    const prices = await getHistoricalPricesAlphaVantage('IBM', '1mo');
+
+    expectHistoricalContract(prices);
+    expect(requestedUrls(fetchMock)[0].searchParams.get('outputsize')).toBe('compact');
+    expect(prices.map((price) => price.date)).toEqual(['2024-02-27', '2024-02-28', '2024-02-29']);
+    expect(prices[2]).toEqual({
+      date: '2024-02-29',
+      open: 185.49,
+      high: 188.38,
+      low: 185.18,
+      close: 185.03,
+      volume: 6458487,
+    });
+  });
+
+  test('longer periods request the full series', async () => {
+    const fetchMock = stubFetch(alphaVantageRoute);
+    const prices = await getHistoricalPricesAlphaVantage('IBM', '1y');
+
+    expect(requestedUrls(fetchMock)[0].searchParams.get('outputsize')).toBe('full');
+    expect(prices[0].date).toBe('2024-01-02');
+    expect(await getHistoricalPricesAlphaVantage('ZZZZ', '1y')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// FUNDAMENTALS
+// ============================================================================
+
+describe('Alpha Vantage fundamentals', () => {
+  test('maps OVERVIEW to metrics, with what it lacks as null', async () => {
+    stubFetch(alphaVantageRoute);
+    const metrics = await getCompanyMetricsAlphaVantage('IBM');
+
+    expect(metrics).toMatchObject({
+      revenue: 61860000000,
+      revenueGrowth: 0.041,
+      profitMargin: 0.12,
+      operatingMargin: 0.183,
+      peRatio: 22.79,
+      pbRatio: 7.44,
+      roe: 0.334,
+      deRatio: null,
+      interestCoverage: null,
+      eps: 8.14,
+      epsGrowth: 0.219,
+      freeCashFlow: null,
+      dividendYield: 0.0359,
+      marketCap: 169613402000,
+    });
+    expect(metrics.netIncome).toBeCloseTo(7423200000, 0);
+    expect(metrics.grossMargin).toBeCloseTo(0.5284, 4);
+  });
+
+  test('maps the profile, title-casing sector and industry', async () => {
+    stubFetch(alphaVantageRoute);
+    expect(await getCompanyProfileAlphaVantage('IBM')).toMatchObject({
+      symbol: 'IBM',
+      name: 'International Business Machines',
+      sector: 'Technology',
+      industry: 'Computer & Office Equipment',
+      website: 'https://www.ibm.com',
+      marketCap: 169613402000,
+      country: 'USA',
+    });
+    await expect(getCompanyProfileAlphaVantage('ZZZZ')).rejects.toThrow('No overview data found for symbol: ZZZZ');
+  });
+});
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+describe('Alpha Vantage statements', () => {
+  test('joins income statements with reported EPS by period', async () => {
+    stubFetch(alphaVantageRoute);
+    const annual = await getIncomeStatementAlphaVantage('IBM', 'annual');
+    expect(annual[0]).toEqual({
+      fiscalDate: '2023-12-31',
+      fiscalYear: 2023,
+      fiscalPeriod: 'FY',
+      revenue: 61860000000,
+      costOfRevenue: 27560000000,
+      grossProfit: 34300000000,
+      operatingExpenses: 25166000000,
+      operatingIncome: 9134000000,
+      netIncome: 7502000000,
+      eps: 9.61,
+      epsDiluted: 0,
+    });
+
+    const quarterly = await getIncomeStatementAlphaVantage('IBM', 'quarter');
+    expect(quarterly.map((stmt) => [stmt.fiscalPeriod, stmt.eps, stmt.netIncome])).toEqual([
+      ['Q4', 3.87, 3288000000],
+      ['Q3', 2.2, 0],
+    ]);
+  });
+
+  test('maps balance sheets and signs cash flows like the Yahoo adapter', async () => {
+    stubFetch(alphaVantageRoute);
+    const [balance] = await getBalanceSheetAlphaVantage('IBM');
+    expect(balance).toMatchObject({
+      totalAssets: 135241000000,
+      totalDebt: 56548000000,
+      totalEquity: 22533000000,
+      cashAndEquivalents: 13068000000,
+    });
+    expect(await getBalanceSheetAlphaVantage('IBM', 'quarter')).toEqual([]);
+
+    const [cashFlow] = await getCashFlowStatementAlphaVantage('IBM');
+    expect(cashFlow).toMatchObject({
+      operatingCashFlow: 13931000000,
+      capitalExpenditure: -1685000000,
+      freeCashFlow: 12246000000,
+      dividendPayments: -6040000000,
+      stockBuybacks: 0,
+    });
+  });
+});
+
+// ============================================================================
+// MOVERS
+// ============================================================================
+
+describe('Alpha Vantage movers', () => {
+  test('gainers and losers come from one response in the Quote shape', async () => {
+    stubFetch(alphaVantageRoute);
+    const [gainer] = await getMoversAlphaVantage('gainers');
+    const [loser] = await getMoversAlphaVantage('losers');
+
+    expectQuoteContract(gainer);
+    expectQuoteContract(loser);
+    expect(gainer).toMatchObject({ symbol: 'SMCI', price: 860.01, changePercent: 8.3282, volume: 10836458 });
+    expect(loser).toMatchObject({ symbol: 'NYCB', change: -0.89, changePercent: -19.1 });
+  });
+});
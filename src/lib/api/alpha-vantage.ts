@@ -0,0 +1,343 @@
+/**
+ * Alpha Vantage API Integration
+ * Quotes, historical prices, fundamentals, statements and movers from the
+ * Alpha Vantage query API, mapped to the same shapes as the Yahoo Finance adapter.
+ *
+ * Alpha Vantage reports numbers as strings, "None" when it has no value:
+ * missing prices and statement lines read as 0, missing metrics as null.
+ * There is no batch quote endpoint, so batches are one request per symbol.
+ */
+
+import { apiRequest, getPeriodStartDate } from './stock-api';
+import { withCache, CACHE_TTL } from './cache';
+import type { HistoricalPeriod, HistoricalPrice, MoverDirection, Quote } from '@/types/market';
+import type {
+  BalanceSheet,
+  CashFlowStatement,
+  CompanyProfile,
+  FinancialMetrics,
+  FinancialStatements,
+  IncomeStatement,
+} from '@/types/financials';
+
+type StatementPeriod = 'annual' | 'quarter';
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+/**
+ * Fetch real-time quote from GLOBAL_QUOTE
+ * The endpoint has no company name, average volume or market cap.
+ */
+export async function getQuoteAlphaVantage(symbol: string): Promise<Quote> {
+  const data = await apiRequest<any>('GLOBAL_QUOTE', { symbol }, 'alphavantage');
+
+  const quote = data?.['Global Quote'];
+  if (!quote || !quote['01. symbol']) {
+    throw new Error(`No data found for symbol: ${symbol}`);
+  }
+
+  return {
+    symbol: quote['01. symbol'],
+    name: quote['01. symbol'],
+    price: toNumber(quote['05. price']),
+    change: toNumber(quote['09. change']),
+    changePercent: toNumber(String(quote['10. change percent'] ?? '').replace('%', '')),
+    high: toNumber(quote['03. high']),
+    low: toNumber(quote['04. low']),
+    open: toNumber(quote['02. open']),
+    previousClose: toNumber(quote['08. previous close']),
+    volume: toNumber(quote['06. volume']),
+    avgVolume: 0,
+    marketCap: 0,
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Fetch multiple quotes, one GLOBAL_QUOTE request each
+ */
+export async function getQuotesAlphaVantage(symbols: string[]): Promise<Quote[]> {
+  return Promise.all(symbols.map((symbol) => getQuoteAlphaVantage(symbol)));
+}
+
+// ============================================================================
+// HISTORICAL PRICES
+// ============================================================================
+
+/**
+ * Fetch daily OHLCV from TIME_SERIES_DAILY, oldest first
+ * The compact series (last 100 days) covers periods up to 3 months.
+ */
+export async function getHistoricalPricesAlphaVantage(
+  symbol: string,
+  period: HistoricalPeriod = '2y'
+): Promise<HistoricalPrice[]> {
+  const cacheKey = 'alphavantage:historical:' + symbol + ':' + period;
+
+  return withCache(cacheKey, CACHE_TTL.HISTORICAL, async () => {
+    const outputsize = ['1d', '5d', '1mo', '3mo'].includes(period) ? 'compact' : 'full';
+    const data = await apiRequest<any>('TIME_SERIES_DAILY', { symbol, outputsize }, 'alphavantage');
+
+    const from = getPeriodStartDate(period).toISOString().split('T')[0];
+    const series: Record<string, any> = data?.['Time Series (Daily)'] || {};
+
+    return Object.entries(series)
+      .filter(([date, row]) => date >= from && toNumber(row['4. close']) > 0)
+      .map(([date, row]) => ({
+        date,
+        open: toNumber(row['1. open']),
+        high: toNumber(row['2. high']),
+        low: toNumber(row['3. low']),
+        close: toNumber(row['4. close']),
+        volume: toNumber(row['5. volume']),
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  });
+}
+
+// ============================================================================
+// FUNDAMENTALS
+// ============================================================================
+
+/**
+ * Fetch company metrics from OVERVIEW
+ * Growth is the latest quarter year over year; OVERVIEW has no D/E, interest
+ * coverage or free cash flow.
+ */
+export async function getCompanyMetricsAlphaVantage(symbol: string): Promise<FinancialMetrics> {
+  const data = await getOverview(symbol);
+
+  const revenue = toNullableNumber(data.RevenueTTM);
+  const profitMargin = toNullableNumber(data.ProfitMargin);
+  const grossProfit = toNullableNumber(data.GrossProfitTTM);
+
+  return {
+    revenue,
+    revenueGrowth: toNullableNumber(data.QuarterlyRevenueGrowthYOY),
+    netIncome: profitMargin !== null && revenue !== null ? profitMargin * revenue : null,
+    profitMargin,
+    grossMargin: grossProfit !== null && revenue ? grossProfit / revenue : null,
+    operatingMargin: toNullableNumber(data.OperatingMarginTTM),
+    peRatio: toNullableNumber(data.PERatio),
+    pbRatio: toNullableNumber(data.PriceToBookRatio),
+    roe: toNullableNumber(data.ReturnOnEquityTTM),
+    deRatio: null,
+    interestCoverage: null,
+    eps: toNullableNumber(data.EPS),
+    epsGrowth: toNullableNumber(data.QuarterlyEarningsGrowthYOY),
+    freeCashFlow: null,
+    dividendYield: toNullableNumber(data.DividendYield),
+    marketCap: toNullableNumber(data.MarketCapitalization),
+  };
+}
+
+/**
+ * Fetch company profile from OVERVIEW
+ */
+export async function getCompanyProfileAlphaVantage(symbol: string): Promise<CompanyProfile> {
+  const data = await getOverview(symbol);
+
+  return {
+    symbol: data.Symbol,
+    name: data.Name || symbol,
+    description: data.Description || '',
+    industry: titleCase(data.Industry),
+    sector: titleCase(data.Sector),
+    website: data.OfficialSite || '',
+    marketCap: toNumber(data.MarketCapitalization),
+    country: data.Country || '',
+    currency: data.Currency || 'USD',
+  };
+}
+
+async function getOverview(symbol: string): Promise<any> {
+  const cacheKey = 'alphavantage:overview:' + symbol;
+
+  return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
+    const data = await apiRequest<any>('OVERVIEW', { symbol }, 'alphavantage');
+    if (!data || !data.Symbol) {
+      throw new Error(`No overview data found for symbol: ${symbol}`);
+    }
+    return data;
+  });
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+/**
+ * Fetch income statements, newest first
+ * INCOME_STATEMENT has no EPS, so it is joined with EARNINGS by fiscal date ending.
+ */
+export async function getIncomeStatementAlphaVantage(
+  symbol: string,
+  period: StatementPeriod = 'annual'
+): Promise<IncomeStatement[]> {
+  const [income, earnings] = await Promise.all([
+    apiRequest<any>('INCOME_STATEMENT', { symbol }, 'alphavantage'),
+    apiRequest<any>('EARNINGS', { symbol }, 'alphavantage'),
+  ]);
+
+  const reports = statementReports(income, period);
+  const earningsRows: any[] = (period === 'quarter' ? earnings?.quarterlyEarnings : earnings?.annualEarnings) || [];
+  const epsByDate = new Map<string, number>(
+    earningsRows.map((item: any) => [item.fiscalDateEnding, toNumber(item.reportedEPS)])
+  );
+
+  return reports.map((item) => ({
+    ...statementDate(item, period),
+    revenue: toNumber(item.totalRevenue),
+    costOfRevenue: toNumber(item.costOfRevenue),
+    grossProfit: toNumber(item.grossProfit),
+    operatingExpenses: toNumber(item.operatingExpenses),
+    operatingIncome: toNumber(item.operatingIncome),
+    netIncome: toNumber(item.netIncome),
+    eps: epsByDate.get(item.fiscalDateEnding) ?? 0,
+    epsDiluted: 0,
+  }));
+}
+
+/**
+ * Fetch balance sheets, newest first
+ */
+export async function getBalanceSheetAlphaVantage(
+  symbol: string,
+  period: StatementPeriod = 'annual'
+): Promise<BalanceSheet[]> {
+  const data = await apiRequest<any>('BALANCE_SHEET', { symbol }, 'alphavantage');
+
+  return statementReports(data, period).map((item) => ({
+    ...statementDate(item, period),
+    totalAssets: toNumber(item.totalAssets),
+    totalCurrentAssets: toNumber(item.totalCurrentAssets),
+    totalLiabilities: toNumber(item.totalLiabilities),
+    totalCurrentLiabilities: toNumber(item.totalCurrentLiabilities),
+    totalDebt: toNumber(item.shortLongTermDebtTotal),
+    totalEquity: toNumber(item.totalShareholderEquity),
+    cashAndEquivalents: toNumber(item.cashAndCashEquivalentsAtCarryingValue),
+    inventory: toNumber(item.inventory),
+  }));
+}
+
+/**
+ * Fetch cash flow statements, newest first
+ * Alpha Vantage reports capex, dividends and buybacks as positive amounts;
+ * capex and dividends are flipped to negative (cash out) as in the Yahoo adapter.
+ */
+export async function getCashFlowStatementAlphaVantage(
+  symbol: string,
+  period: StatementPeriod = 'annual'
+): Promise<CashFlowStatement[]> {
+  const data = await apiRequest<any>('CASH_FLOW', { symbol }, 'alphavantage');
+
+  return statementReports(data, period).map((item) => {
+    const operatingCashFlow = toNumber(item.operatingCashflow);
+    const capitalExpenditure = -Math.abs(toNumber(item.capitalExpenditures));
+    return {
+      ...statementDate(item, period),
+      netIncome: toNumber(item.netIncome),
+      depreciation: toNumber(item.depreciationDepletionAndAmortization),
+      operatingCashFlow,
+      capitalExpenditure,
+      freeCashFlow: operatingCashFlow + capitalExpenditure,
+      dividendPayments: -Math.abs(toNumber(item.dividendPayout)),
+      stockBuybacks: Math.abs(toNumber(item.paymentsForRepurchaseOfCommonStock)),
+    };
+  });
+}
+
+/**
+ * Fetch annual income statements, balance sheets and cash flows
+ */
+export async function getFinancialStatementsAlphaVantage(symbol: string): Promise<FinancialStatements> {
+  const cacheKey = 'alphavantage:statements:' + symbol;
+
+  return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
+    const [incomeStatement, balanceSheet, cashFlow] = await Promise.all([
+      getIncomeStatementAlphaVantage(symbol, 'annual'),
+      getBalanceSheetAlphaVantage(symbol, 'annual'),
+      getCashFlowStatementAlphaVantage(symbol, 'annual'),
+    ]);
+    return { incomeStatement, balanceSheet, cashFlow };
+  });
+}
+
+function statementReports(data: any, period: StatementPeriod): any[] {
+  const reports: any[] = (period === 'quarter' ? data?.quarterlyReports : data?.annualReports) || [];
+  return reports.slice(0, period === 'quarter' ? 12 : 10);
+}
+
+function statementDate(item: any, period: StatementPeriod): Pick<IncomeStatement, 'fiscalDate' | 'fiscalYear' | 'fiscalPeriod'> {
+  const date = new Date(item.fiscalDateEnding);
+  return {
+    fiscalDate: item.fiscalDateEnding,
+    fiscalYear: date.getFullYear(),
+    fiscalPeriod: period === 'quarter' ? `Q${Math.floor(date.getMonth() / 3) + 1}` : 'FY',
+  };
+}
+
+// ============================================================================
+// MOVERS
+// ============================================================================
+
+/**
+ * Fetch the day's biggest gainers or losers from TOP_GAINERS_LOSERS (US market)
+ * The endpoint has no name or day range, so those fields fall back to the
+ * ticker and 0.
+ */
+export async function getMoversAlphaVantage(direction: MoverDirection, limit = 10): Promise<Quote[]> {
+  const data = await apiRequest<any>('TOP_GAINERS_LOSERS', {}, 'alphavantage');
+
+  const rows = data?.[direction === 'gainers' ? 'top_gainers' : 'top_losers'];
+  if (!Array.isArray(rows)) {
+    throw new Error(`No ${direction} data found`);
+  }
+
+  return rows.slice(0, limit).map((item: any) => {
+    const price = toNumber(item.price);
+    const change = toNumber(item.change_amount);
+    return {
+      symbol: item.ticker,
+      name: item.ticker,
+      price,
+      change,
+      changePercent: toNumber(String(item.change_percentage ?? '').replace('%', '')),
+      high: 0,
+      low: 0,
+      open: 0,
+      previousClose: price - change,
+      volume: toNumber(item.volume),
+      avgVolume: 0,
+      marketCap: 0,
+      timestamp: Date.now(),
+    };
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toNumber(value: unknown): number {
+  return toNullableNumber(value) ?? 0;
+}
+
+/**
+ * Parse an Alpha Vantage numeric string; "None", "-" and empty values are null
+ */
+function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '' || value === 'None' || value === '-') return null;
+  const num = Number(value);
+  return isFinite(num) ? num : null;
+}
+
+/**
+ * OVERVIEW reports sector and industry in capitals ("TECHNOLOGY")
+ */
+function titleCase(value: unknown): string {
+  if (typeof value !== 'string' || value === 'None') return '';
+  return value.toLowerCase().replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
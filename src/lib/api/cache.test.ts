@@ -0,0 +1,195 @@
+/**
+ * Cache Layer Tests
+ *
+ * Tests cover:
+ * - Fresh hits, stale-while-revalidate and expiry
+ * - Coalescing concurrent misses into one fetch
+ * - Falling back to the fetch when the backend fails
+ * - Hit/miss stats and backend selection from the environment
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { clearCache, createCacheBackend, getCacheStats, setCacheBackend, withCache } from './cache';
+import { MemoryCacheBackend } from '@/lib/cache/memory';
+import { FileCacheBackend } from '@/lib/cache/filesystem';
+import { RedisCacheBackend } from '@/lib/cache/redis';
+import type { CacheBackend } from '@/types/cache';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const START = new Date('2024-06-03T03:00:00Z').getTime();
+
+function counter(values: string[] = ['first', 'second', 'third']) {
+  let calls = 0;
+  const fn = vi.fn(async () => values[calls++]);
+  return fn;
+}
+
+/**
+ * Let queued background refreshes settle
+ */
+async function flush() {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(START);
+  setCacheBackend(new MemoryCacheBackend());
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ============================================================================
+// FRESHNESS
+// ============================================================================
+
+describe('withCache', () => {
+  test('serves fresh entries without fetching again', async () => {
+    const fn = counter();
+    expect(await withCache('k', 60, fn)).toBe('first');
+    vi.setSystemTime(START + 60_000);
+    expect(await withCache('k', 60, fn)).toBe('first');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('serves stale entries while one background fetch refreshes them', async () => {
+    const fn = counter();
+    await withCache('k', 60, fn, { staleTtl: 60 });
+
+    vi.setSystemTime(START + 90_000);
+    expect(await withCache('k', 60, fn, { staleTtl: 60 })).toBe('first');
+    expect(await withCache('k', 60, fn, { staleTtl: 60 })).toBe('first');
+    await flush();
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    expect(await withCache('k', 60, fn, { staleTtl: 60 })).toBe('second');
+  });
+
+  test('keeps the stale value when the background refresh fails', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    await withCache('k', 60, async () => 'first');
+
+    vi.setSystemTime(START + 90_000);
+    const failing = vi.fn(async () => {
+      throw new Error('provider down');
+    });
+    expect(await withCache('k', 60, failing)).toBe('first');
+    await flush();
+    expect(failing).toHaveBeenCalledTimes(1);
+    expect(await withCache('k', 60, failing)).toBe('first');
+    await flush();
+    expect(warn).toHaveBeenCalledWith('Cache: background refresh failed for k:', 'provider down');
+    warn.mockRestore();
+  });
+
+  test('fetches before responding once past the stale window', async () => {
+    const fn = counter();
+    await withCache('k', 60, fn, { staleTtl: 30 });
+    vi.setSystemTime(START + 91_000);
+    expect(await withCache('k', 60, fn, { staleTtl: 30 })).toBe('second');
+  });
+
+  test('propagates fetch errors on a miss and caches nothing', async () => {
+    await expect(withCache('k', 60, async () => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(await withCache('k', 60, async () => 'ok')).toBe('ok');
+  });
+});
+
+// ============================================================================
+// COALESCING
+// ============================================================================
+
+describe('request coalescing', () => {
+  test('concurrent misses share one fetch', async () => {
+    let release: (value: string) => void = () => undefined;
+    const fn = vi.fn(() => new Promise<string>((resolve) => (release = resolve)));
+
+    const requests = [withCache('k', 60, fn), withCache('k', 60, fn), withCache('k', 60, fn)];
+    await flush();
+    release('shared');
+
+    expect(await Promise.all(requests)).toEqual(['shared', 'shared', 'shared']);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect((await getCacheStats()).coalesced).toBe(2);
+  });
+
+  test('a failed fetch is not reused by later calls', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValueOnce('ok');
+    await expect(withCache('k', 60, fn)).rejects.toThrow('boom');
+    expect(await withCache('k', 60, fn)).toBe('ok');
+  });
+});
+
+// ============================================================================
+// BACKEND FAILURES AND STATS
+// ============================================================================
+
+describe('backend failures', () => {
+  test('treats a failing backend as a miss', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const broken: CacheBackend = {
+      name: 'redis',
+      get: async () => Promise.reject(new Error('ECONNREFUSED')),
+      set: async () => Promise.reject(new Error('ECONNREFUSED')),
+      delete: async () => undefined,
+      clear: async () => undefined,
+      size: async () => null,
+    };
+    setCacheBackend(broken);
+
+    expect(await withCache('k', 60, async () => 'live')).toBe('live');
+    expect(await getCacheStats()).toMatchObject({ backend: 'redis', size: null, misses: 1, errors: 2 });
+    warn.mockRestore();
+  });
+});
+
+describe('getCacheStats', () => {
+  test('counts hits, stale hits and misses', async () => {
+    expect((await getCacheStats()).hitRate).toBeNull();
+
+    const fn = counter();
+    await withCache('a', 60, fn);
+    await withCache('a', 60, fn);
+    vi.setSystemTime(START + 90_000);
+    await withCache('a', 60, fn);
+    await flush();
+
+    expect(await getCacheStats()).toEqual({
+      backend: 'memory',
+      size: 1,
+      hits: 1,
+      staleHits: 1,
+      misses: 1,
+      coalesced: 0,
+      errors: 0,
+      hitRate: 2 / 3,
+    });
+  });
+
+  test('clearCache empties the backend', async () => {
+    await withCache('a', 60, async () => 1);
+    await clearCache();
+    expect((await getCacheStats()).size).toBe(0);
+  });
+});
+
+describe('createCacheBackend', () => {
+  test('picks the backend from CACHE_BACKEND', () => {
+    expect(createCacheBackend({})).toBeInstanceOf(MemoryCacheBackend);
+    expect(createCacheBackend({ CACHE_BACKEND: 'filesystem' })).toBeInstanceOf(FileCacheBackend);
+    expect(createCacheBackend({ CACHE_BACKEND: 'redis', REDIS_URL: 'redis://localhost:6379' })).toBeInstanceOf(
+      RedisCacheBackend
+    );
+  });
+
+  test('falls back to memory when Redis is not configured', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(createCacheBackend({ CACHE_BACKEND: 'redis' })).toBeInstanceOf(MemoryCacheBackend);
+    warn.mockRestore();
+  });
+});
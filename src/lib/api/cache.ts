@@ -1,71 +1,58 @@
 /**
- * In-memory caching utility for Phase 1
- * MVP: Simple in-memory cache with TTL
- * Production: Replace with Redis or Upstash
+ * Caching layer for API calls
+ *
+ * withCache stores results in a pluggable backend chosen by CACHE_BACKEND:
+ * - memory (default): LRU bounded by CACHE_MAX_ENTRIES, lost on cold start
+ * - filesystem: JSON files under CACHE_DIR, shared by workers on one machine
+ * - redis: any Redis-protocol server at REDIS_URL, shared by all instances
+ *
+ * Fresh entries are served directly. Once past their TTL they are served
+ * stale for up to staleTtl more seconds while one background fetch refreshes
+ * them (stale-while-revalidate). Concurrent misses for a key share a single
+ * fetch. A failing backend is treated as a miss so requests still succeed.
  */
 
-interface CacheEntry<T> {
-  data: T;
-  timestamp: number;
-  ttl: number;
-}
-
-class Cache {
-  private cache: Map<string, CacheEntry<unknown>> = new Map();
-
-  /**
-   * Get data from cache if valid
-   */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    const now = Date.now();
-    const age = (now - entry.timestamp) / 1000; // seconds
-
-    if (age > entry.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
+import { MemoryCacheBackend, DEFAULT_MAX_ENTRIES } from '@/lib/cache/memory';
+import { FileCacheBackend } from '@/lib/cache/filesystem';
+import { RedisCacheBackend } from '@/lib/cache/redis';
+import type { CacheBackend, CacheEntry, CacheStats } from '@/types/cache';
 
-    return entry.data as T;
-  }
-
-  /**
-   * Set data in cache with TTL
-   */
-  set<T>(key: string, data: T, ttl: number): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl,
-    });
-  }
+// ============================================================================
+// BACKEND
+// ============================================================================
 
-  /**
-   * Clear specific cache entry
-   */
-  delete(key: string): void {
-    this.cache.delete(key);
+/**
+ * Backend from environment variables; falls back to memory when the chosen
+ * backend isn't configured
+ */
+export function createCacheBackend(env: Record<string, string | undefined> = process.env): CacheBackend {
+  switch (env.CACHE_BACKEND) {
+    case 'filesystem':
+      return new FileCacheBackend(env.CACHE_DIR || undefined);
+    case 'redis':
+      if (env.REDIS_URL) return new RedisCacheBackend(env.REDIS_URL);
+      console.warn('Cache: CACHE_BACKEND=redis but REDIS_URL is not set, using memory');
+      break;
   }
+  const maxEntries = parseInt(env.CACHE_MAX_ENTRIES || '', 10);
+  return new MemoryCacheBackend(maxEntries > 0 ? maxEntries : DEFAULT_MAX_ENTRIES);
+}
 
-  /**
-   * Clear all cache
-   */
-  clear(): void {
-    this.cache.clear();
-  }
+let backend: CacheBackend | null = null;
 
-  /**
-   * Get cache size
-   */
-  size(): number {
-    return this.cache.size;
-  }
+export function getCacheBackend(): CacheBackend {
+  backend ??= createCacheBackend();
+  return backend;
 }
 
-// Singleton instance
-export const cache = new Cache();
+/**
+ * Swap the backend (tests, or a custom store); resets stats
+ */
+export function setCacheBackend(next: CacheBackend): void {
+  backend = next;
+  inFlight.clear();
+  resetCacheStats();
+}
 
 /**
  * Cache TTL constants (in seconds)
@@ -76,22 +63,128 @@ export const CACHE_TTL = {
   HISTORICAL: parseInt(process.env.CACHE_TTL_HISTORICAL || '86400', 10),
 } as const;
 
+// ============================================================================
+// STATS
+// ============================================================================
+
+const counters = { hits: 0, staleHits: 0, misses: 0, coalesced: 0, errors: 0 };
+
+export function resetCacheStats(): void {
+  counters.hits = 0;
+  counters.staleHits = 0;
+  counters.misses = 0;
+  counters.coalesced = 0;
+  counters.errors = 0;
+}
+
+/**
+ * Hit/miss counters since startup (per server instance) and backend size
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  const current = getCacheBackend();
+  let size: number | null = null;
+  try {
+    size = await current.size();
+  } catch (error) {
+    console.warn(`Cache: ${current.name} size failed:`, (error as Error).message);
+  }
+
+  const lookups = counters.hits + counters.staleHits + counters.misses;
+  return {
+    backend: current.name,
+    size,
+    ...counters,
+    hitRate: lookups > 0 ? (counters.hits + counters.staleHits) / lookups : null,
+  };
+}
+
+// ============================================================================
+// CACHED CALLS
+// ============================================================================
+
+export interface CacheOptions {
+  /** Seconds past the TTL a stale value may be served while refreshing (default: the TTL) */
+  staleTtl?: number;
+}
+
+const inFlight: Map<string, Promise<unknown>> = new Map();
+
+async function readEntry<T>(store: CacheBackend, key: string): Promise<CacheEntry<T> | null> {
+  try {
+    return (await store.get(key)) as CacheEntry<T> | null;
+  } catch (error) {
+    counters.errors++;
+    console.warn(`Cache: ${store.name} read failed for ${key}:`, (error as Error).message);
+    return null;
+  }
+}
+
+/**
+ * Fetch and store, joining a fetch already running for the key
+ */
+function refresh<T>(store: CacheBackend, key: string, ttl: number, staleTtl: number, fn: () => Promise<T>): Promise<T> {
+  const running = inFlight.get(key);
+  if (running) {
+    counters.coalesced++;
+    return running as Promise<T>;
+  }
+
+  const promise = Promise.resolve()
+    .then(fn)
+    .then(async (data) => {
+      const entry: CacheEntry<T> = { data, timestamp: Date.now(), ttl, staleTtl };
+      try {
+        await store.set(key, entry, ttl + staleTtl);
+      } catch (error) {
+        counters.errors++;
+        console.warn(`Cache: ${store.name} write failed for ${key}:`, (error as Error).message);
+      }
+      return data;
+    })
+    .finally(() => inFlight.delete(key));
+
+  inFlight.set(key, promise);
+  return promise;
+}
+
 /**
  * Wrapper function for cached API calls
  */
 export async function withCache<T>(
   key: string,
   ttl: number,
-  fn: () => Promise<T>
+  fn: () => Promise<T>,
+  options: CacheOptions = {}
 ): Promise<T> {
-  // Try cache first
-  const cached = cache.get<T>(key);
-  if (cached !== null) {
-    return cached;
+  const store = getCacheBackend();
+  const staleTtl = options.staleTtl ?? ttl;
+
+  const entry = await readEntry<T>(store, key);
+  if (entry) {
+    const age = (Date.now() - entry.timestamp) / 1000; // seconds
+    if (age <= entry.ttl) {
+      counters.hits++;
+      return entry.data;
+    }
+    if (age <= entry.ttl + entry.staleTtl) {
+      counters.staleHits++;
+      // Keep serving the stale value if the refresh fails
+      refresh(store, key, ttl, staleTtl, fn).catch((error) => {
+        console.warn(`Cache: background refresh failed for ${key}:`, (error as Error).message);
+      });
+      return entry.data;
+    }
   }
 
   // Cache miss - fetch data
-  const data = await fn();
-  cache.set(key, data, ttl);
-  return data;
+  counters.misses++;
+  return refresh(store, key, ttl, staleTtl, fn);
+}
+
+/**
+ * Clear all cached data in the current backend
+ */
+export async function clearCache(): Promise<void> {
+  inFlight.clear();
+  await getCacheBackend().clear();
 }
@@ -0,0 +1,252 @@
+/**
+ * Financial Modeling Prep Adapter Tests
+ *
+ * Contract tests against recorded FMP responses (src/lib/api/__fixtures__/fmp):
+ * - Quotes and batch quotes in the shared Quote shape
+ * - Daily OHLCV oldest first in the shared HistoricalPrice shape
+ * - Metrics, profile and statements field mapping
+ * - Gainers and losers from their own endpoints
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  getBalanceSheetFMP,
+  getCashFlowStatementFMP,
+  getCompanyMetricsFMP,
+  getCompanyProfileFMP,
+  getHistoricalPricesFMP,
+  getIncomeStatementFMP,
+  getMoversFMP,
+  getQuoteFMP,
+  getQuotesFMP,
+} from './fmp';
+import { setCacheBackend } from './cache';
+import { MemoryCacheBackend } from '@/lib/cache/memory';
+import { expectHistoricalContract, expectQuoteContract, requestedUrls, stubFetch } from './__fixtures__/contract';
+import quoteFixture from './__fixtures__/fmp/quote.json';
+import historicalFixture from './__fixtures__/fmp/historical-price-full.json';
+import ratiosFixture from './__fixtures__/fmp/ratios-ttm.json';
+import incomeFixture from './__fixtures__/fmp/income-statement.json';
+import balanceSheetFixture from './__fixtures__/fmp/balance-sheet-statement.json';
+import cashFlowFixture from './__fixtures__/fmp/cash-flow-statement.json';
+import profileFixture from './__fixtures__/fmp/profile.json';
+import gainersFixture from './__fixtures__/fmp/gainers.json';
+import losersFixture from './__fixtures__/fmp/losers.json';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const FIXTURES: Record<string, unknown> = {
+  quote: quoteFixture,
+  'historical-price-full': historicalFixture,
+  'ratios-ttm': ratiosFixture,
+  'income-statement': incomeFixture,
+  'balance-sheet-statement': balanceSheetFixture,
+  'cash-flow-statement': cashFlowFixture,
+  profile: profileFixture,
+  'stock_market/gainers': gainersFixture,
+  'stock_market/losers': losersFixture,
+};
+
+/**
+ * Route /api/v3/<endpoint>/<symbol> to the endpoint's fixture; a single-symbol
+ * quote gets only that symbol's row
+ */
+function fmpRoute(url: URL): unknown {
+  const path = url.pathname.replace(/^\/api\/v3\//, '');
+  if (FIXTURES[path]) return FIXTURES[path];
+
+  const [endpoint, symbols] = [path.slice(0, path.lastIndexOf('/')), path.slice(path.lastIndexOf('/') + 1)];
+  if (endpoint === 'quote') {
+    const wanted = decodeURIComponent(symbols).split(',');
+    return quoteFixture.filter((row) => wanted.includes(row.symbol));
+  }
+  return FIXTURES[endpoint];
+}
+
+beforeEach(() => {
+  setCacheBackend(new MemoryCacheBackend());
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+describe('FMP quotes', () => {
+  test('maps a quote to the shared Quote shape', async () => {
+    stubFetch(fmpRoute);
+    const quote = await getQuoteFMP('AAPL');
+
+    expectQuoteContract(quote);
+    expect(quote).toEqual({
+      symbol: 'AAPL',
+      name: 'Apple Inc.',
+      price: 182.52,
+      change: -1.68,
+      changePercent: -0.9119,
+      high: 185.04,
+      low: 182.43,
+      open: 184.35,
+      previousClose: 184.2,
+      volume: 49120341,
+      avgVolume: 53874398,
+      marketCap: 2818147272000,
+      timestamp: Date.now(),
+    });
+  });
+
+  test('batches symbols into one request and reads missing numbers as 0', async () => {
+    const fetchMock = stubFetch(fmpRoute);
+    const quotes = await getQuotesFMP(['AAPL', 'MSFT']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(requestedUrls(fetchMock)[0].pathname).toBe('/api/v3/quote/AAPL,MSFT');
+    quotes.forEach(expectQuoteContract);
+    expect(quotes.map((quote) => quote.symbol)).toEqual(['AAPL', 'MSFT']);
+    expect(quotes[1].avgVolume).toBe(0);
+  });
+
+  test('an unknown symbol is a not-found error', async () => {
+    stubFetch(fmpRoute);
+    await expect(getQuoteFMP('ZZZZ')).rejects.toThrow('No data found for symbol: ZZZZ');
+  });
+});
+
+// ============================================================================
+// HISTORICAL PRICES
+// ============================================================================
+
+describe('FMP historical prices', () => {
+  test('returns daily OHLCV oldest first with the adjusted close', async () => {
+    const fetchMock = stubFetch(fmpRoute);
+    const prices = await getHistoricalPricesFMP('AAPL', '1mo');
+
+    expectHistoricalContract(prices);
+    expect(requestedUrls(fetchMock)[0].searchParams.get('from')).toBe('2024-01-31');
+    expect(prices.map((price) => price.date)).toEqual(['2024-02-26', '2024-02-27', '2024-02-28', '2024-02-29']);
+    expect(prices[3]).toEqual({
+      date: '2024-02-29',
+      open: 181.27,
+      high: 182.57,
+      low: 179.53,
+      close: 180.75,
+      volume: 136682600,
+      adjClose: 180.25,
+    });
+  });
+
+  test('a symbol without history is an empty series', async () => {
+    stubFetch(() => ({}));
+    expect(await getHistoricalPricesFMP('ZZZZ', '1y')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// FUNDAMENTALS
+// ============================================================================
+
+describe('FMP fundamentals', () => {
+  test('combines TTM ratios, annual statements and the profile', async () => {
+    stubFetch(fmpRoute);
+    const metrics = await getCompanyMetricsFMP('AAPL');
+
+    expect(metrics).toMatchObject({
+      revenue: 383285000000,
+      netIncome: 96995000000,
+      profitMargin: 0.2616,
+      grossMargin: 0.4518,
+      operatingMargin: 0.3076,
+      peRatio: 28.39,
+      pbRatio: 38.56,
+      roe: 1.5427,
+      deRatio: 1.4,
+      interestCoverage: 29.06,
+      eps: 6.16,
+      freeCashFlow: 99584000000,
+      dividendYield: 0.0052,
+      marketCap: 2818147272000,
+    });
+    expect(metrics.revenueGrowth).toBeCloseTo(-0.028, 3);
+    expect(metrics.epsGrowth).toBeCloseTo(0.0016, 4);
+  });
+
+  test('maps the profile', async () => {
+    stubFetch(fmpRoute);
+    expect(await getCompanyProfileFMP('AAPL')).toMatchObject({
+      symbol: 'AAPL',
+      name: 'Apple Inc.',
+      industry: 'Consumer Electronics',
+      sector: 'Technology',
+      website: 'https://www.apple.com',
+      marketCap: 2818147272000,
+      currency: 'USD',
+    });
+  });
+});
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+describe('FMP statements', () => {
+  test('maps income statements and requests quarters by period', async () => {
+    const fetchMock = stubFetch(fmpRoute);
+    const [latest] = await getIncomeStatementFMP('AAPL', 'annual');
+    expect(latest).toEqual({
+      fiscalDate: '2023-09-30',
+      fiscalYear: 2023,
+      fiscalPeriod: 'FY',
+      revenue: 383285000000,
+      costOfRevenue: 214137000000,
+      grossProfit: 169148000000,
+      operatingExpenses: 54847000000,
+      operatingIncome: 114301000000,
+      netIncome: 96995000000,
+      eps: 6.16,
+      epsDiluted: 6.13,
+    });
+
+    await getIncomeStatementFMP('AAPL', 'quarter');
+    expect(requestedUrls(fetchMock).at(-1)?.searchParams.get('period')).toBe('quarter');
+  });
+
+  test('maps balance sheets and signs cash flows like the Yahoo adapter', async () => {
+    stubFetch(fmpRoute);
+    const [balance] = await getBalanceSheetFMP('AAPL');
+    expect(balance).toMatchObject({ totalAssets: 352583000000, totalEquity: 62146000000, totalDebt: 111088000000 });
+
+    const [cashFlow] = await getCashFlowStatementFMP('AAPL');
+    expect(cashFlow).toMatchObject({
+      capitalExpenditure: -10959000000,
+      freeCashFlow: 99584000000,
+      dividendPayments: -15025000000,
+      stockBuybacks: 77550000000,
+    });
+  });
+});
+
+// ============================================================================
+// MOVERS
+// ============================================================================
+
+describe('FMP movers', () => {
+  test('gainers and losers come from separate endpoints in the Quote shape', async () => {
+    stubFetch(fmpRoute);
+    const gainers = await getMoversFMP('gainers');
+    const losers = await getMoversFMP('losers');
+
+    [...gainers, ...losers].forEach(expectQuoteContract);
+    expect(gainers.map((quote) => quote.symbol)).toEqual(['SMCI', 'NVDA']);
+    expect(losers).toHaveLength(1);
+    expect(losers[0]).toMatchObject({ symbol: 'NYCB', changePercent: -19.1 });
+    expect(losers[0].previousClose).toBeCloseTo(4.66, 2);
+  });
+});
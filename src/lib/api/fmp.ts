@@ -0,0 +1,356 @@
+/**
+ * Financial Modeling Prep API Integration
+ * Quotes, historical prices, fundamentals, statements and movers from the
+ * FMP v3 REST API, mapped to the same shapes as the Yahoo Finance adapter.
+ *
+ * FMP returns JSON numbers, null or absent when it has no value: missing
+ * prices and statement lines read as 0, missing metrics as null. Ratios are
+ * decimals (0.25 = 25%) and D/E is a multiple.
+ */
+
+import { apiRequest, getPeriodStartDate } from './stock-api';
+import { withCache, CACHE_TTL } from './cache';
+import type { HistoricalPeriod, HistoricalPrice, MoverDirection, Quote } from '@/types/market';
+import type {
+  BalanceSheet,
+  CashFlowStatement,
+  CompanyProfile,
+  FinancialMetrics,
+  FinancialStatements,
+  IncomeStatement,
+} from '@/types/financials';
+
+type StatementPeriod = 'annual' | 'quarter';
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+/**
+ * Fetch real-time quote for a single stock from FMP
+ */
+export async function getQuoteFMP(symbol: string): Promise<Quote> {
+  const data = await apiRequest<any[]>(`quote/${symbol}`, {}, 'fmp');
+
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error(`No data found for symbol: ${symbol}`);
+  }
+  return parseQuote(data[0]);
+}
+
+/**
+ * Fetch multiple quotes in one request from FMP
+ * Unknown symbols are left out of the response.
+ */
+export async function getQuotesFMP(symbols: string[]): Promise<Quote[]> {
+  if (symbols.length === 0) return [];
+
+  const data = await apiRequest<any[]>(`quote/${symbols.join(',')}`, {}, 'fmp');
+
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error(`No data found for symbols: ${symbols.join(', ')}`);
+  }
+  return data.map(parseQuote);
+}
+
+function parseQuote(quote: any): Quote {
+  return {
+    symbol: quote.symbol,
+    name: quote.name || quote.symbol,
+    price: toNumber(quote.price),
+    change: toNumber(quote.change),
+    changePercent: toNumber(quote.changesPercentage),
+    high: toNumber(quote.dayHigh),
+    low: toNumber(quote.dayLow),
+    open: toNumber(quote.open),
+    previousClose: toNumber(quote.previousClose),
+    volume: toNumber(quote.volume),
+    avgVolume: toNumber(quote.avgVolume),
+    marketCap: toNumber(quote.marketCap),
+    timestamp: Date.now(),
+  };
+}
+
+// ============================================================================
+// HISTORICAL PRICES
+// ============================================================================
+
+/**
+ * Fetch daily OHLCV from FMP, oldest first
+ * adjClose is the split/dividend-adjusted close.
+ */
+export async function getHistoricalPricesFMP(
+  symbol: string,
+  period: HistoricalPeriod = '2y'
+): Promise<HistoricalPrice[]> {
+  const cacheKey = 'fmp:historical:' + symbol + ':' + period;
+
+  return withCache(cacheKey, CACHE_TTL.HISTORICAL, async () => {
+    const from = getPeriodStartDate(period).toISOString().split('T')[0];
+    const data = await apiRequest<any>(`historical-price-full/${symbol}`, { from }, 'fmp');
+
+    const rows: any[] = Array.isArray(data?.historical) ? data.historical : [];
+    const prices = new Map<string, HistoricalPrice>();
+    for (const row of rows) {
+      const close = toNumber(row.close);
+      if (!row.date || close <= 0 || row.date < from) continue;
+      prices.set(row.date, {
+        date: row.date,
+        open: toNumber(row.open),
+        high: toNumber(row.high),
+        low: toNumber(row.low),
+        close,
+        volume: toNumber(row.volume),
+        ...(row.adjClose != null && { adjClose: toNumber(row.adjClose) }),
+      });
+    }
+
+    // FMP lists newest first
+    return Array.from(prices.values()).sort((a, b) => a.date.localeCompare(b.date));
+  });
+}
+
+// ============================================================================
+// FUNDAMENTALS
+// ============================================================================
+
+/**
+ * Fetch company metrics from FMP
+ * Margins and valuation ratios come from ratios-ttm; revenue, net income, EPS
+ * and their growth from the last two annual income statements; free cash
+ * flow from the last cash flow statement; market cap from the profile.
+ */
+export async function getCompanyMetricsFMP(symbol: string): Promise<FinancialMetrics> {
+  const cacheKey = 'fmp:metrics:' + symbol;
+
+  return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
+    const [ratios, income, cashFlow, profiles] = await Promise.all([
+      apiRequest<any[]>(`ratios-ttm/${symbol}`, {}, 'fmp'),
+      getIncomeStatementFMP(symbol, 'annual', 2),
+      getCashFlowStatementFMP(symbol, 'annual', 1),
+      apiRequest<any[]>(`profile/${symbol}`, {}, 'fmp'),
+    ]);
+
+    const ratio = (Array.isArray(ratios) && ratios[0]) || null;
+    if (!ratio && income.length === 0) {
+      throw new Error(`No metrics data found for symbol: ${symbol}`);
+    }
+
+    const r = ratio || {};
+    const [latest, prior] = income;
+    const profile = (Array.isArray(profiles) && profiles[0]) || {};
+
+    return {
+      revenue: latest ? latest.revenue : null,
+      revenueGrowth: latest && prior ? growth(latest.revenue, prior.revenue) : null,
+      netIncome: latest ? latest.netIncome : null,
+      profitMargin: toNullableNumber(r.netProfitMarginTTM),
+      grossMargin: toNullableNumber(r.grossProfitMarginTTM),
+      operatingMargin: toNullableNumber(r.operatingProfitMarginTTM),
+      peRatio: toNullableNumber(r.peRatioTTM),
+      pbRatio: toNullableNumber(r.priceToBookRatioTTM),
+      roe: toNullableNumber(r.returnOnEquityTTM),
+      deRatio: toNullableNumber(r.debtEquityRatioTTM),
+      interestCoverage: toNullableNumber(r.interestCoverageTTM),
+      eps: latest ? latest.eps : null,
+      epsGrowth: latest && prior ? growth(latest.eps, prior.eps) : null,
+      freeCashFlow: cashFlow[0] ? cashFlow[0].freeCashFlow : null,
+      // FMP spells the TTM field "dividendYielTTM"
+      dividendYield: toNullableNumber(r.dividendYielTTM ?? r.dividendYieldTTM),
+      marketCap: toNullableNumber(profile.mktCap),
+    };
+  });
+}
+
+/**
+ * Fetch company profile from FMP
+ */
+export async function getCompanyProfileFMP(symbol: string): Promise<CompanyProfile> {
+  const cacheKey = 'fmp:profile:' + symbol;
+
+  return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
+    const profiles = await apiRequest<any[]>(`profile/${symbol}`, {}, 'fmp');
+    if (!Array.isArray(profiles) || profiles.length === 0) {
+      throw new Error(`No profile data found for symbol: ${symbol}`);
+    }
+
+    const profile = profiles[0];
+    return {
+      symbol: profile.symbol || symbol,
+      name: profile.companyName || symbol,
+      description: profile.description || '',
+      industry: profile.industry || '',
+      sector: profile.sector || '',
+      website: profile.website || '',
+      marketCap: toNumber(profile.mktCap),
+      country: profile.country || '',
+      currency: profile.currency || 'USD',
+    };
+  });
+}
+
+// ============================================================================
+// STATEMENTS
+// ============================================================================
+
+/**
+ * Fetch income statements from FMP, newest first
+ */
+export async function getIncomeStatementFMP(
+  symbol: string,
+  period: StatementPeriod = 'annual',
+  limit = period === 'quarter' ? 12 : 10
+): Promise<IncomeStatement[]> {
+  const rows = await getStatementRows('income-statement', symbol, period, limit);
+
+  return rows.map((item) => ({
+    ...statementDate(item),
+    revenue: toNumber(item.revenue),
+    costOfRevenue: toNumber(item.costOfRevenue),
+    grossProfit: toNumber(item.grossProfit),
+    operatingExpenses: toNumber(item.operatingExpenses),
+    operatingIncome: toNumber(item.operatingIncome),
+    netIncome: toNumber(item.netIncome),
+    eps: toNumber(item.eps),
+    epsDiluted: toNumber(item.epsdiluted),
+  }));
+}
+
+/**
+ * Fetch balance sheets from FMP, newest first
+ */
+export async function getBalanceSheetFMP(
+  symbol: string,
+  period: StatementPeriod = 'annual',
+  limit = 10
+): Promise<BalanceSheet[]> {
+  const rows = await getStatementRows('balance-sheet-statement', symbol, period, limit);
+
+  return rows.map((item) => ({
+    ...statementDate(item),
+    totalAssets: toNumber(item.totalAssets),
+    totalCurrentAssets: toNumber(item.totalCurrentAssets),
+    totalLiabilities: toNumber(item.totalLiabilities),
+    totalCurrentLiabilities: toNumber(item.totalCurrentLiabilities),
+    totalDebt: toNumber(item.totalDebt),
+    totalEquity: toNumber(item.totalStockholdersEquity ?? item.totalEquity),
+    cashAndEquivalents: toNumber(item.cashAndCashEquivalents),
+    inventory: toNumber(item.inventory),
+  }));
+}
+
+/**
+ * Fetch cash flow statements from FMP, newest first
+ * Capex and dividends are negative (cash out), buybacks positive, as in the Yahoo adapter.
+ */
+export async function getCashFlowStatementFMP(
+  symbol: string,
+  period: StatementPeriod = 'annual',
+  limit = 10
+): Promise<CashFlowStatement[]> {
+  const rows = await getStatementRows('cash-flow-statement', symbol, period, limit);
+
+  return rows.map((item) => ({
+    ...statementDate(item),
+    netIncome: toNumber(item.netIncome),
+    depreciation: toNumber(item.depreciationAndAmortization),
+    operatingCashFlow: toNumber(item.operatingCashFlow),
+    capitalExpenditure: -Math.abs(toNumber(item.capitalExpenditure)),
+    freeCashFlow: toNumber(item.freeCashFlow),
+    dividendPayments: -Math.abs(toNumber(item.dividendsPaid)),
+    stockBuybacks: Math.abs(toNumber(item.commonStockRepurchased)),
+  }));
+}
+
+/**
+ * Fetch annual income statements, balance sheets and cash flows from FMP
+ */
+export async function getFinancialStatementsFMP(symbol: string): Promise<FinancialStatements> {
+  const cacheKey = 'fmp:statements:' + symbol;
+
+  return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
+    const [incomeStatement, balanceSheet, cashFlow] = await Promise.all([
+      getIncomeStatementFMP(symbol, 'annual'),
+      getBalanceSheetFMP(symbol, 'annual'),
+      getCashFlowStatementFMP(symbol, 'annual'),
+    ]);
+    return { incomeStatement, balanceSheet, cashFlow };
+  });
+}
+
+async function getStatementRows(
+  endpoint: string,
+  symbol: string,
+  period: StatementPeriod,
+  limit: number
+): Promise<any[]> {
+  const params: Record<string, string | number> = period === 'quarter' ? { period: 'quarter', limit } : { limit };
+  const data = await apiRequest<any[]>(`${endpoint}/${symbol}`, params, 'fmp');
+  return Array.isArray(data) ? data.slice(0, limit) : [];
+}
+
+function statementDate(item: any): Pick<IncomeStatement, 'fiscalDate' | 'fiscalYear' | 'fiscalPeriod'> {
+  const fiscalDate = item.date || item.fillingDate || '';
+  return {
+    fiscalDate,
+    fiscalYear: Number(item.calendarYear) || new Date(fiscalDate).getFullYear(),
+    fiscalPeriod: item.period || 'FY',
+  };
+}
+
+// ============================================================================
+// MOVERS
+// ============================================================================
+
+/**
+ * Fetch the day's biggest gainers or losers from FMP (US market)
+ * The endpoint has no day range or volume, so those fields are 0.
+ */
+export async function getMoversFMP(direction: MoverDirection, limit = 10): Promise<Quote[]> {
+  const data = await apiRequest<any[]>(`stock_market/${direction}`, {}, 'fmp');
+
+  if (!Array.isArray(data)) {
+    throw new Error(`No ${direction} data found`);
+  }
+
+  return data.slice(0, limit).map((item) => {
+    const price = toNumber(item.price);
+    const change = toNumber(item.change);
+    return {
+      symbol: item.symbol,
+      name: item.name || item.symbol,
+      price,
+      change,
+      changePercent: toNumber(item.changesPercentage),
+      high: 0,
+      low: 0,
+      open: 0,
+      previousClose: price - change,
+      volume: toNumber(item.volume),
+      avgVolume: 0,
+      marketCap: toNumber(item.marketCap),
+      timestamp: Date.now(),
+    };
+  });
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function toNumber(value: unknown): number {
+  return toNullableNumber(value) ?? 0;
+}
+
+function toNullableNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = Number(value);
+  return isFinite(num) ? num : null;
+}
+
+/**
+ * Year-over-year change as a decimal, null without a positive base
+ */
+function growth(current: number, previous: number): number | null {
+  return previous > 0 ? (current - previous) / previous : null;
+}
@@ -0,0 +1,32 @@
+/**
+ * Historical Prices API
+ * Daily OHLCV from the first provider in the fallback chain with data
+ */
+
+import { withProviderFallback } from './providers';
+import { getHistoricalPricesYahoo } from './yahoo-finance';
+import { getHistoricalPricesFMP } from './fmp';
+import { getHistoricalPricesAlphaVantage } from './alpha-vantage';
+import type { HistoricalPeriod, HistoricalPrice, ProviderResult } from '@/types/market';
+
+/**
+ * Fetch daily prices (oldest first) and the provider that served them.
+ * An empty series counts as "no data" so the next provider is tried.
+ */
+export async function getHistoricalPrices(
+  symbol: string,
+  period: HistoricalPeriod = '2y'
+): Promise<ProviderResult<HistoricalPrice[]>> {
+  return withProviderFallback(`historical ${symbol}`, {
+    yahoo: async () => nonEmpty(await getHistoricalPricesYahoo(symbol, period), symbol),
+    fmp: async () => nonEmpty(await getHistoricalPricesFMP(symbol, period), symbol),
+    alphavantage: async () => nonEmpty(await getHistoricalPricesAlphaVantage(symbol, period), symbol),
+  });
+}
+
+function nonEmpty<T>(prices: T[], symbol: string): T[] {
+  if (prices.length === 0) {
+    throw new Error(`No historical data found for symbol: ${symbol}`);
+  }
+  return prices;
+}
@@ -0,0 +1,248 @@
+/**
+ * Provider Fallback Tests
+ *
+ * Tests cover:
+ * - Provider order from STOCK_API_PROVIDERS
+ * - Circuit breaker trips, backoff and half-open probes
+ * - Falling back through the chain and reporting the serving provider
+ * - A throttled Yahoo Finance adapter falling back to FMP
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  CircuitBreaker,
+  getProviderStatus,
+  isNotFoundError,
+  resetCircuitBreakers,
+  withProviderFallback,
+} from './providers';
+import { parseProviderOrder } from './stock-api';
+import { setCacheBackend } from './cache';
+import { getHistoricalPricesYahoo } from './yahoo-finance';
+import { getHistoricalPricesFMP } from './fmp';
+import { MemoryCacheBackend } from '@/lib/cache/memory';
+import historicalFixture from './__fixtures__/fmp/historical-price-full.json';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const OPTIONS = { failureThreshold: 3, cooldownMs: 1000, maxCooldownMs: 5000 };
+
+function fail(message = 'API request failed: 503 Service Unavailable') {
+  return vi.fn(async (): Promise<string> => {
+    throw new Error(message);
+  });
+}
+
+beforeEach(() => {
+  resetCircuitBreakers();
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// ============================================================================
+// PROVIDER ORDER
+// ============================================================================
+
+describe('parseProviderOrder', () => {
+  test('defaults to the primary provider, then the others', () => {
+    expect(parseProviderOrder(undefined, 'fmp')).toEqual(['fmp', 'yahoo', 'alphavantage']);
+    expect(parseProviderOrder('', 'yahoo')).toEqual(['yahoo', 'fmp', 'alphavantage']);
+  });
+
+  test('reads a comma-separated list, dropping unknown names and duplicates', () => {
+    expect(parseProviderOrder(' FMP, yahoo ,finnhub,fmp', 'yahoo')).toEqual(['fmp', 'yahoo']);
+    expect(parseProviderOrder('finnhub', 'alphavantage')).toEqual(['alphavantage', 'yahoo', 'fmp']);
+  });
+});
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+describe('CircuitBreaker', () => {
+  test('opens after the failure threshold and half-opens after the cooldown', () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    expect(breaker.state(0)).toBe('closed');
+
+    breaker.recordFailure(0);
+    expect(breaker.state(999)).toBe('open');
+    expect(breaker.canRequest(999)).toBe(false);
+    expect(breaker.retryAt(999)).toBe(1000);
+    expect(breaker.state(1000)).toBe('half-open');
+    expect(breaker.canRequest(1000)).toBe(true);
+  });
+
+  test('a success resets the failure count', () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+    breaker.recordSuccess();
+    breaker.recordFailure(0);
+    expect(breaker.state(0)).toBe('closed');
+  });
+
+  test('a failed probe reopens with a doubled cooldown, capped', () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+
+    breaker.recordFailure(1000); // probe fails: 2s
+    expect(breaker.retryAt(1000)).toBe(3000);
+    breaker.recordFailure(3000); // 4s
+    expect(breaker.retryAt(3000)).toBe(7000);
+    breaker.recordFailure(7000); // 8s capped at 5s
+    expect(breaker.retryAt(7000)).toBe(12000);
+  });
+
+  test('a successful probe closes the breaker', () => {
+    const breaker = new CircuitBreaker(OPTIONS);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+    breaker.recordSuccess();
+    expect(breaker.state(0)).toBe('closed');
+    expect(breaker.retryAt(0)).toBeNull();
+  });
+});
+
+// ============================================================================
+// FALLBACK
+// ============================================================================
+
+describe('withProviderFallback', () => {
+  test('returns the first success and the provider that served it', async () => {
+    const yahoo = vi.fn(async () => 'from yahoo');
+    const fmp = vi.fn(async () => 'from fmp');
+    expect(await withProviderFallback('quote', { yahoo, fmp }, ['yahoo', 'fmp'])).toEqual({
+      data: 'from yahoo',
+      provider: 'yahoo',
+    });
+    expect(fmp).not.toHaveBeenCalled();
+  });
+
+  test('falls back in chain order, skipping providers without an adapter', async () => {
+    const result = await withProviderFallback(
+      'quote',
+      { yahoo: fail(), alphavantage: async () => 'from alphavantage' },
+      ['yahoo', 'fmp', 'alphavantage']
+    );
+    expect(result).toEqual({ data: 'from alphavantage', provider: 'alphavantage' });
+  });
+
+  test('skips a provider while its breaker is open', async () => {
+    const yahoo = fail();
+    const fmp = vi.fn(async () => 'from fmp');
+    for (let i = 0; i < 3; i++) await withProviderFallback('quote', { yahoo, fmp }, ['yahoo', 'fmp']);
+
+    expect(getProviderStatus(['yahoo', 'fmp'])).toMatchObject([
+      { provider: 'yahoo', state: 'open' },
+      { provider: 'fmp', state: 'closed', retryAt: null },
+    ]);
+    await withProviderFallback('quote', { yahoo, fmp }, ['yahoo', 'fmp']);
+    expect(yahoo).toHaveBeenCalledTimes(3);
+    expect(fmp).toHaveBeenCalledTimes(4);
+  });
+
+  test('not-found errors fall through without tripping the breaker', async () => {
+    const yahoo = fail('Quote not found for symbol: XYZ');
+    for (let i = 0; i < 5; i++) {
+      await withProviderFallback('quote', { yahoo, fmp: async () => 'ok' }, ['yahoo', 'fmp']);
+    }
+    expect(yahoo).toHaveBeenCalledTimes(5);
+    expect(getProviderStatus(['yahoo'])[0].state).toBe('closed');
+  });
+
+  test('reports every failure when all providers fail', async () => {
+    await expect(
+      withProviderFallback('quote PTT.BK', { yahoo: fail('timeout'), fmp: fail('API rate limit exceeded') }, [
+        'yahoo',
+        'fmp',
+      ])
+    ).rejects.toThrow('All providers failed for quote PTT.BK (yahoo: timeout; fmp: API rate limit exceeded)');
+  });
+
+  test('names open circuits and unsupported operations', async () => {
+    const yahoo = fail();
+    for (let i = 0; i < 3; i++) await withProviderFallback('quote', { yahoo }, ['yahoo']).catch(() => undefined);
+
+    await expect(withProviderFallback('quote', { yahoo }, ['yahoo'])).rejects.toThrow(
+      'All providers failed for quote (circuit open for yahoo)'
+    );
+    await expect(withProviderFallback('historical', { fmp: async () => [] }, ['yahoo'])).rejects.toThrow(
+      'No configured provider supports historical'
+    );
+  });
+});
+
+describe('isNotFoundError', () => {
+  test('recognizes missing-data errors but not outages', () => {
+    expect(isNotFoundError(new Error('No data found for symbol: XYZ'))).toBe(true);
+    expect(isNotFoundError(new Error('No historical data found for symbol: XYZ'))).toBe(true);
+    expect(isNotFoundError(new Error('API request failed: 404 Not Found'))).toBe(true);
+    expect(isNotFoundError(new Error('API request failed: 429 Too Many Requests'))).toBe(false);
+    expect(isNotFoundError(new Error('fetch failed'))).toBe(false);
+  });
+});
+
+// ============================================================================
+// ADAPTERS
+// ============================================================================
+
+describe('withProviderFallback over the provider adapters', () => {
+  /** Yahoo Finance answers 429 to everything; FMP serves its recorded history */
+  function stubThrottledYahoo() {
+    const fetchMock = vi.fn(async (input: string | URL | Request) => {
+      const url = new URL(input instanceof Request ? input.url : String(input));
+      if (url.hostname.endsWith('financialmodelingprep.com')) {
+        return new Response(JSON.stringify(historicalFixture), { status: 200 });
+      }
+      return new Response('Too Many Requests', { status: 429, statusText: 'Too Many Requests' });
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    return fetchMock;
+  }
+
+  function historical(symbol: string) {
+    return withProviderFallback(
+      `historical ${symbol}`,
+      {
+        yahoo: () => getHistoricalPricesYahoo(symbol, '1mo'),
+        fmp: () => getHistoricalPricesFMP(symbol, '1mo'),
+      },
+      ['yahoo', 'fmp']
+    );
+  }
+
+  beforeEach(() => {
+    setCacheBackend(new MemoryCacheBackend());
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('serves from FMP when Yahoo Finance rejects', async () => {
+    stubThrottledYahoo();
+    const { data, provider } = await historical('AAPL');
+
+    expect(provider).toBe('fmp');
+    expect(data.map((price) => price.date)).toEqual(['2024-02-26', '2024-02-27', '2024-02-28', '2024-02-29']);
+  });
+
+  test('counts Yahoo Finance throttling against its breaker', async () => {
+    stubThrottledYahoo();
+    for (const symbol of ['AAPL', 'MSFT', 'NVDA']) await historical(symbol);
+
+    expect(getProviderStatus(['yahoo', 'fmp'])).toMatchObject([
+      { provider: 'yahoo', state: 'open' },
+      { provider: 'fmp', state: 'closed' },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Market Data Provider Fallback
+ *
+ * Data functions (quotes, fundamentals, statements, historical prices) pass
+ * one adapter per provider to withProviderFallback, which tries them in
+ * getProviderChain() order and returns the first success with the provider
+ * that served it.
+ *
+ * Each provider has a circuit breaker: after three consecutive failures it
+ * is skipped for a cooldown that doubles on every repeated trip
+ * (30s, 1m, 2m … capped at 10m). After the cooldown it is half-open: the next
+ * success closes the breaker, a failure reopens it for a longer cooldown.
+ *
+ * "Not found" errors (unknown symbol, no data) fall through to the next
+ * provider but don't count against the breaker: they say nothing about
+ * whether the provider is up.
+ *
+ * Adapters must throw rather than return empty data when a request fails:
+ * an empty result counts as a success, stops the chain and gets cached.
+ */
+
+import { getProviderChain } from './stock-api';
+import type { ApiProvider, ProviderResult } from '@/types/market';
+
+// ============================================================================
+// CIRCUIT BREAKER
+// ============================================================================
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+  maxCooldownMs: number;
+}
+
+export const DEFAULT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 30_000,
+  maxCooldownMs: 10 * 60_000,
+};
+
+export class CircuitBreaker {
+  private failures = 0;
+  private trips = 0;
+  private openUntil = 0;
+
+  constructor(private readonly options: CircuitBreakerOptions = DEFAULT_BREAKER_OPTIONS) {}
+
+  state(now: number = Date.now()): CircuitState {
+    if (this.trips === 0) return 'closed';
+    return now < this.openUntil ? 'open' : 'half-open';
+  }
+
+  /**
+   * Whether a request may go to the provider now
+   */
+  canRequest(now: number = Date.now()): boolean {
+    return this.state(now) !== 'open';
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trips = 0;
+    this.openUntil = 0;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.failures++;
+    // A failed half-open probe reopens at once; a closed breaker waits for the threshold
+    if (this.trips > 0 || this.failures >= this.options.failureThreshold) {
+      this.trips++;
+      this.failures = 0;
+      const cooldown = this.options.cooldownMs * Math.pow(2, this.trips - 1);
+      this.openUntil = now + Math.min(cooldown, this.options.maxCooldownMs);
+    }
+  }
+
+  /**
+   * When an open breaker allows the next probe (ms), or null
+   */
+  retryAt(now: number = Date.now()): number | null {
+    return this.state(now) === 'open' ? this.openUntil : null;
+  }
+}
+
+const breakers: Partial<Record<ApiProvider, CircuitBreaker>> = {};
+
+function breakerFor(provider: ApiProvider): CircuitBreaker {
+  breakers[provider] ??= new CircuitBreaker();
+  return breakers[provider];
+}
+
+/**
+ * Reset all breakers (tests)
+ */
+export function resetCircuitBreakers(): void {
+  for (const provider of Object.keys(breakers) as ApiProvider[]) delete breakers[provider];
+}
+
+export interface ProviderStatus {
+  provider: ApiProvider;
+  state: CircuitState;
+  retryAt: number | null;
+}
+
+/**
+ * Breaker state of each provider in the chain, for /api/health
+ */
+export function getProviderStatus(chain: ApiProvider[] = getProviderChain()): ProviderStatus[] {
+  return chain.map((provider) => {
+    const breaker = breakerFor(provider);
+    return { provider, state: breaker.state(), retryAt: breaker.retryAt() };
+  });
+}
+
+// ============================================================================
+// FALLBACK
+// ============================================================================
+
+export type ProviderAdapters<T> = Partial<Record<ApiProvider, () => Promise<T>>>;
+
+/**
+ * Errors that mean "this provider has no such data" rather than "this provider is down"
+ */
+export function isNotFoundError(error: unknown): boolean {
+  const message = (error as Error)?.message ?? '';
+  return /not found|no .*data|invalid symbol|\b404\b/i.test(message);
+}
+
+/**
+ * Try each provider in the chain that has an adapter and a closed (or probing)
+ * breaker; return the first success. Throws with every provider's error when
+ * all fail.
+ */
+export async function withProviderFallback<T>(
+  operation: string,
+  adapters: ProviderAdapters<T>,
+  chain: ApiProvider[] = getProviderChain()
+): Promise<ProviderResult<T>> {
+  const failures: string[] = [];
+  const skipped: ApiProvider[] = [];
+
+  for (const provider of chain) {
+    const adapter = adapters[provider];
+    if (!adapter) continue;
+
+    const breaker = breakerFor(provider);
+    if (!breaker.canRequest()) {
+      skipped.push(provider);
+      continue;
+    }
+
+    try {
+      const data = await adapter();
+      breaker.recordSuccess();
+      return { data, provider };
+    } catch (error) {
+      const message = (error as Error).message;
+      if (!isNotFoundError(error)) breaker.recordFailure();
+      failures.push(`${provider}: ${message}`);
+      console.warn(`Provider ${provider} failed for ${operation}:`, message);
+    }
+  }
+
+  const parts = [...failures];
+  if (skipped.length > 0) parts.push(`circuit open for ${skipped.join(', ')}`);
+  throw new Error(
+    parts.length > 0
+      ? `All providers failed for ${operation} (${parts.join('; ')})`
+      : `No configured provider supports ${operation}`
+  );
+}
@@ -3,9 +3,47 @@
  * Phase 1: Data Layer Foundation
  */
 
-import { apiRequest, getApiProvider } from './stock-api';
-import { getFinancialStatementsYahoo } from './yahoo-finance';
-import type { IncomeStatement, BalanceSheet, CashFlowStatement } from '@/types/financials';
+import { withProviderFallback } from './providers';
+import { getFinancialStatementsYahoo, getQuarterlyIncomeStatementYahoo } from './yahoo-finance';
+import {
+  getBalanceSheetFMP,
+  getCashFlowStatementFMP,
+  getFinancialStatementsFMP,
+  getIncomeStatementFMP,
+} from './fmp';
+import {
+  getBalanceSheetAlphaVantage,
+  getCashFlowStatementAlphaVantage,
+  getFinancialStatementsAlphaVantage,
+  getIncomeStatementAlphaVantage,
+} from './alpha-vantage';
+import type {
+  IncomeStatement,
+  BalanceSheet,
+  CashFlowStatement,
+  FinancialStatements,
+  QuarterlyData,
+} from '@/types/financials';
+import type { ProviderResult } from '@/types/market';
+
+export type { FinancialStatements } from '@/types/financials';
+
+/**
+ * Fetch income statements and the provider that served them
+ */
+function fetchIncomeStatement(
+  symbol: string,
+  period: 'annual' | 'quarter'
+): Promise<ProviderResult<IncomeStatement[]>> {
+  return withProviderFallback(`income statement ${symbol}`, {
+    yahoo: async () =>
+      period === 'quarter'
+        ? getQuarterlyIncomeStatementYahoo(symbol)
+        : (await getFinancialStatementsYahoo(symbol)).incomeStatement,
+    fmp: () => getIncomeStatementFMP(symbol, period),
+    alphavantage: () => getIncomeStatementAlphaVantage(symbol, period),
+  });
+}
 
 /**
  * Fetch income statement
@@ -14,171 +52,94 @@ export async function getIncomeStatement(
   symbol: string,
   period: 'annual' | 'quarter' = 'annual'
 ): Promise<IncomeStatement[]> {
-  const provider = getApiProvider();
-
-  if (provider === 'yahoo') {
-    const statements = await getFinancialStatementsYahoo(symbol);
-    return statements.incomeStatement;
-  } else if (provider === 'fmp') {
-    return getIncomeStatementFMP(symbol, period);
-  } else {
-    // Alpha Vantage - limited support
-    return [];
-  }
+  const { data } = await fetchIncomeStatement(symbol, period);
+  return data;
 }
 
 /**
  * Fetch balance sheet
+ * Yahoo Finance only has annual balance sheets.
  */
 export async function getBalanceSheet(
   symbol: string,
   period: 'annual' | 'quarter' = 'annual'
 ): Promise<BalanceSheet[]> {
-  const provider = getApiProvider();
-
-  if (provider === 'yahoo') {
-    const statements = await getFinancialStatementsYahoo(symbol);
-    return statements.balanceSheet;
-  } else if (provider === 'fmp') {
-    return getBalanceSheetFMP(symbol, period);
-  } else {
-    // Alpha Vantage - limited support
-    return [];
-  }
+  const { data } = await withProviderFallback(`balance sheet ${symbol}`, {
+    yahoo: async () => (await getFinancialStatementsYahoo(symbol)).balanceSheet,
+    fmp: () => getBalanceSheetFMP(symbol, period),
+    alphavantage: () => getBalanceSheetAlphaVantage(symbol, period),
+  });
+  return data;
 }
 
 /**
  * Fetch cash flow statement
+ * Yahoo Finance only has annual cash flow statements.
  */
 export async function getCashFlowStatement(
   symbol: string,
   period: 'annual' | 'quarter' = 'annual'
 ): Promise<CashFlowStatement[]> {
-  const provider = getApiProvider();
-
-  if (provider === 'yahoo') {
-    const statements = await getFinancialStatementsYahoo(symbol);
-    return statements.cashFlow;
-  } else if (provider === 'fmp') {
-    return getCashFlowStatementFMP(symbol, period);
-  } else {
-    // Alpha Vantage - limited support
-    return [];
-  }
+  const { data } = await withProviderFallback(`cash flow ${symbol}`, {
+    yahoo: async () => (await getFinancialStatementsYahoo(symbol)).cashFlow,
+    fmp: () => getCashFlowStatementFMP(symbol, period),
+    alphavantage: () => getCashFlowStatementAlphaVantage(symbol, period),
+  });
+  return data;
 }
 
 /**
- * Fetch all financial statements
+ * Fetch all annual financial statements
  */
-export async function getFinancialStatements(symbol: string) {
-  const provider = getApiProvider();
-
-  if (provider === 'yahoo') {
-    return getFinancialStatementsYahoo(symbol);
-  } else if (provider === 'fmp') {
-    const [incomeStatement, balanceSheet, cashFlow] = await Promise.all([
-      getIncomeStatementFMP(symbol, 'annual'),
-      getBalanceSheetFMP(symbol, 'annual'),
-      getCashFlowStatementFMP(symbol, 'annual'),
-    ]);
-
-    return {
-      incomeStatement,
-      balanceSheet,
-      cashFlow,
-    };
-  } else {
-    // Alpha Vantage - limited support
-    return {
-      incomeStatement: [],
-      balanceSheet: [],
-      cashFlow: [],
-    };
-  }
+export async function getFinancialStatements(symbol: string): Promise<FinancialStatements> {
+  const { data, provider } = await withProviderFallback<FinancialStatements>(`statements ${symbol}`, {
+    yahoo: () => getFinancialStatementsYahoo(symbol),
+    fmp: () => getFinancialStatementsFMP(symbol),
+    alphavantage: () => getFinancialStatementsAlphaVantage(symbol),
+  });
+  return { ...data, provider };
 }
 
 /**
- * Financial Modeling Prep: Income statement
+ * Fetch quarterly earnings normalized to QuarterlyData (newest first) and the
+ * provider that served them
+ * Feeds the CAN SLIM "C" (current quarterly earnings) score
  */
-async function getIncomeStatementFMP(
-  symbol: string,
-  period: 'annual' | 'quarter' = 'annual'
-): Promise<IncomeStatement[]> {
-  const endpoint = period === 'annual' ? 'income-statement' : 'income-statement-as-reported';
-  const data = await apiRequest<any[]>(`${endpoint}/${symbol}`);
-
-  if (!data || data.length === 0) {
-    return [];
-  }
-
-  return data.slice(0, 10).map((item) => ({
-    fiscalDate: item.date || item.filingDate,
-    fiscalYear: item.calendarYear || new Date(item.date).getFullYear(),
-    fiscalPeriod: item.period || 'FY',
-    revenue: item.revenue || 0,
-    costOfRevenue: item.costOfRevenue || 0,
-    grossProfit: item.grossProfit || 0,
-    operatingExpenses: item.operatingExpenses || 0,
-    operatingIncome: item.operatingIncome || 0,
-    netIncome: item.netIncome || 0,
-    eps: item.eps || 0,
-    epsDiluted: item.epsdiluted || 0,
-  }));
+export async function getQuarterlyEarnings(symbol: string): Promise<ProviderResult<QuarterlyData[]>> {
+  const { data, provider } = await fetchIncomeStatement(symbol, 'quarter');
+  return { data: toQuarterlyData(data), provider };
 }
 
 /**
- * Financial Modeling Prep: Balance sheet
+ * Convert quarterly income statements to QuarterlyData
+ * Quarter comes from the fiscal period ("Q3") when present, otherwise from the period end month.
+ * Sorted newest first with duplicate quarters removed.
  */
-async function getBalanceSheetFMP(
-  symbol: string,
-  period: 'annual' | 'quarter' = 'annual'
-): Promise<BalanceSheet[]> {
-  const endpoint = period === 'annual' ? 'balance-sheet-statement' : 'balance-sheet-statement-as-reported';
-  const data = await apiRequest<any[]>(`${endpoint}/${symbol}`);
-
-  if (!data || data.length === 0) {
-    return [];
-  }
-
-  return data.slice(0, 10).map((item) => ({
-    fiscalDate: item.date || item.filingDate,
-    fiscalYear: item.calendarYear || new Date(item.date).getFullYear(),
-    fiscalPeriod: item.period || 'FY',
-    totalAssets: item.totalAssets || 0,
-    totalCurrentAssets: item.totalCurrentAssets || 0,
-    totalLiabilities: item.totalLiabilities || 0,
-    totalCurrentLiabilities: item.totalCurrentLiabilities || 0,
-    totalDebt: item.totalDebt || 0,
-    totalEquity: item.totalEquity || 0,
-    cashAndEquivalents: item.cashAndCashEquivalents || 0,
-    inventory: item.inventory || 0,
-  }));
-}
-
-/**
- * Financial Modeling Prep: Cash flow statement
- */
-async function getCashFlowStatementFMP(
-  symbol: string,
-  period: 'annual' | 'quarter' = 'annual'
-): Promise<CashFlowStatement[]> {
-  const endpoint = period === 'annual' ? 'cash-flow-statement' : 'cash-flow-statement-as-reported';
-  const data = await apiRequest<any[]>(`${endpoint}/${symbol}`);
-
-  if (!data || data.length === 0) {
-    return [];
-  }
-
-  return data.slice(0, 10).map((item) => ({
-    fiscalDate: item.date || item.filingDate,
-    fiscalYear: item.calendarYear || new Date(item.date).getFullYear(),
-    fiscalPeriod: item.period || 'FY',
-    netIncome: item.netIncome || 0,
-    depreciation: item.depreciationAndAmortization || 0,
-    operatingCashFlow: item.operatingCashFlow || 0,
-    capitalExpenditure: item.capex || 0,
-    freeCashFlow: item.freeCashFlow || 0,
-    dividendPayments: item.dividendPayments || 0,
-    stockBuybacks: item.stockBuyback || 0,
-  }));
+export function toQuarterlyData(statements: IncomeStatement[]): QuarterlyData[] {
+  const seen = new Set<string>();
+
+  return statements
+    .filter((stmt) => stmt.fiscalDate && !isNaN(new Date(stmt.fiscalDate).getTime()))
+    .sort((a, b) => b.fiscalDate.localeCompare(a.fiscalDate))
+    .map((stmt) => {
+      const periodMatch = /^Q([1-4])$/i.exec(stmt.fiscalPeriod || '');
+      const fiscalQuarter = periodMatch
+        ? Number(periodMatch[1])
+        : Math.floor(new Date(stmt.fiscalDate).getMonth() / 3) + 1;
+
+      return {
+        fiscalYear: stmt.fiscalYear,
+        fiscalQuarter,
+        earningsDate: stmt.fiscalDate,
+        eps: stmt.eps,
+        revenue: stmt.revenue,
+        margin: stmt.revenue ? (stmt.netIncome / stmt.revenue) * 100 : 0,
+      };
+    })
+    .filter((quarter) => {
+      const key = `${quarter.fiscalYear}-Q${quarter.fiscalQuarter}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
 }
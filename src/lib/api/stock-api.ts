@@ -2,42 +2,53 @@
  * Main Stock API Client
  * Phase 1: Data Layer Foundation
  * Supports Yahoo Finance, Financial Modeling Prep (FMP), and Alpha Vantage
+ *
+ * NEXT_PUBLIC_API_PROVIDER is the primary provider; STOCK_API_PROVIDERS
+ * (e.g. "yahoo,fmp") sets the fallback order used by src/lib/api/providers.ts.
  */
 
-import { cache, CACHE_TTL, withCache } from './cache';
+import { CACHE_TTL, withCache } from './cache';
+import type { ApiProvider, HistoricalPeriod } from '@/types/market';
 
-export type ApiProvider = 'yahoo' | 'fmp' | 'alphavantage';
+export type { ApiProvider } from '@/types/market';
+
+export const ALL_PROVIDERS: ApiProvider[] = ['yahoo', 'fmp', 'alphavantage'];
 
 // API Configuration from environment
 const API_PROVIDER = (process.env.NEXT_PUBLIC_API_PROVIDER || 'yahoo') as ApiProvider;
 const STOCK_API_KEY = process.env.NEXT_PUBLIC_STOCK_API_KEY || '';
+const PROVIDER_API_KEYS: Record<ApiProvider, string> = {
+  yahoo: '',
+  fmp: process.env.FMP_API_KEY || '',
+  alphavantage: process.env.ALPHA_VANTAGE_API_KEY || '',
+};
 const YAHOO_API_URL = process.env.NEXT_PUBLIC_YAHOO_API_URL || '';
 const FMP_API_URL = process.env.NEXT_PUBLIC_FMP_API_URL || 'https://financialmodelingprep.com/api/v3';
 const ALPHA_VANTAGE_API_URL = process.env.NEXT_PUBLIC_ALPHA_VANTAGE_API_URL || 'https://www.alphavantage.co/query';
 const RATE_LIMIT = parseInt(process.env.STOCK_API_RATE_LIMIT || '300', 10);
 
-// Rate limiting (simple in-memory)
-let requestCount = 0;
-let requestResetTime = Date.now() + 60000; // Reset every minute
+// Rate limiting (simple in-memory, per provider)
+const rateWindows: Partial<Record<ApiProvider, { count: number; resetTime: number }>> = {};
 
 /**
  * Check rate limit and wait if necessary
  */
-async function checkRateLimit(): Promise<void> {
+async function checkRateLimit(provider: ApiProvider): Promise<void> {
   const now = Date.now();
-  if (now > requestResetTime) {
-    requestCount = 0;
-    requestResetTime = now + 60000;
+  let window = rateWindows[provider];
+  if (!window || now > window.resetTime) {
+    window = { count: 0, resetTime: now + 60000 }; // Reset every minute
+    rateWindows[provider] = window;
   }
 
-  if (requestCount >= RATE_LIMIT) {
-    const waitTime = requestResetTime - now;
+  if (window.count >= RATE_LIMIT) {
+    const waitTime = window.resetTime - now;
     await new Promise((resolve) => setTimeout(resolve, waitTime));
-    requestCount = 0;
-    requestResetTime = Date.now() + 60000;
+    window.count = 0;
+    window.resetTime = Date.now() + 60000;
   }
 
-  requestCount++;
+  window.count++;
 }
 
 /**
@@ -53,12 +64,14 @@ function buildCacheKey(endpoint: string, params: Record<string, string | number>
 
 /**
  * Make HTTP request with error handling and retry logic
+ * Client errors other than 429 aren't retried; the fallback chain moves on instead.
  */
 async function fetchWithRetry<T>(
   url: string,
+  provider: ApiProvider,
   retries = 3
 ): Promise<T> {
-  await checkRateLimit();
+  await checkRateLimit(provider);
 
   let lastError: Error | null = null;
 
@@ -69,7 +82,11 @@ async function fetchWithRetry<T>(
       });
 
       if (!response.ok) {
-        throw new Error(`API request failed: ${response.status} ${response.statusText}`);
+        const error = new Error(`API request failed: ${response.status} ${response.statusText}`);
+        if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+          throw Object.assign(error, { retryable: false });
+        }
+        throw error;
       }
 
       const data = await response.json();
@@ -88,6 +105,7 @@ async function fetchWithRetry<T>(
       return data as T;
     } catch (error) {
       lastError = error as Error;
+      if ((error as { retryable?: boolean }).retryable === false || i === retries - 1) break;
       // Exponential backoff
       await new Promise((resolve) => setTimeout(resolve, Math.pow(2, i) * 1000));
     }
@@ -101,14 +119,14 @@ async function fetchWithRetry<T>(
  */
 async function fetchFMP<T>(endpoint: string, params: Record<string, string | number> = {}): Promise<T> {
   const queryParams = new URLSearchParams({
-    apikey: STOCK_API_KEY,
+    apikey: getProviderApiKey('fmp'),
     ...Object.fromEntries(
       Object.entries(params).map(([k, v]) => [k, String(v)])
     ) as Record<string, string>,
   });
 
   const url = `${FMP_API_URL}/${endpoint}?${queryParams}`;
-  return fetchWithRetry<T>(url);
+  return fetchWithRetry<T>(url, 'fmp');
 }
 
 /**
@@ -117,12 +135,12 @@ async function fetchFMP<T>(endpoint: string, params: Record<string, string | num
 async function fetchAlphaVantage<T>(functionName: string, params: Record<string, string> = {}): Promise<T> {
   const queryParams = new URLSearchParams({
     function: functionName,
-    apikey: STOCK_API_KEY,
+    apikey: getProviderApiKey('alphavantage'),
     ...params,
   });
 
   const url = `${ALPHA_VANTAGE_API_URL}?${queryParams}`;
-  return fetchWithRetry<T>(url);
+  return fetchWithRetry<T>(url, 'alphavantage');
 }
 
 /**
@@ -133,7 +151,7 @@ export async function apiRequest<T>(
   params: Record<string, string | number> = {},
   provider: ApiProvider = API_PROVIDER
 ): Promise<T> {
-  const cacheKey = buildCacheKey(endpoint, params);
+  const cacheKey = provider + ':' + buildCacheKey(endpoint, params);
 
   return withCache(cacheKey, CACHE_TTL.QUOTE, async () => {
     if (provider === 'yahoo') {
@@ -149,44 +167,104 @@ export async function apiRequest<T>(
 }
 
 /**
- * Get current API provider
+ * Get the primary API provider (first in the default fallback order)
  */
 export function getApiProvider(): ApiProvider {
   return API_PROVIDER;
 }
 
+/**
+ * API key for a provider: its own variable (FMP_API_KEY, ALPHA_VANTAGE_API_KEY),
+ * or NEXT_PUBLIC_STOCK_API_KEY for the primary provider
+ */
+export function getProviderApiKey(provider: ApiProvider): string {
+  const key = PROVIDER_API_KEYS[provider] || (provider === API_PROVIDER ? STOCK_API_KEY : '');
+  return key === 'your_api_key_here' ? '' : key;
+}
+
+/**
+ * Whether a provider can be called (Yahoo Finance doesn't require an API key)
+ */
+export function isProviderConfigured(provider: ApiProvider): boolean {
+  return provider === 'yahoo' || !!getProviderApiKey(provider);
+}
+
+/**
+ * Provider order from a comma-separated list; unknown names and duplicates are
+ * dropped. Without a list: the primary provider, then the others.
+ */
+export function parseProviderOrder(value: string | undefined, primary: ApiProvider = API_PROVIDER): ApiProvider[] {
+  const listed = (value || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is ApiProvider => (ALL_PROVIDERS as string[]).includes(name));
+  const order = listed.length > 0 ? listed : [primary, ...ALL_PROVIDERS];
+  return Array.from(new Set(order));
+}
+
+/**
+ * Configured providers in fallback order (STOCK_API_PROVIDERS)
+ */
+export function getProviderChain(): ApiProvider[] {
+  return parseProviderOrder(process.env.STOCK_API_PROVIDERS).filter(isProviderConfigured);
+}
+
 /**
  * Validate API key is configured
  * Note: Yahoo Finance doesn't require an API key
  */
 export function validateApiKey(): boolean {
-  // Yahoo Finance doesn't require an API key
-  if (API_PROVIDER === 'yahoo') {
-    return true;
-  }
-  // FMP and Alpha Vantage require an API key
-  return !!STOCK_API_KEY && STOCK_API_KEY !== 'your_api_key_here';
+  return getProviderChain().length > 0;
 }
 
 /**
  * Get API validation status for error messages
  */
 export function getApiValidationStatus(): { valid: boolean; message: string } {
-  if (API_PROVIDER === 'yahoo') {
-    return { valid: true, message: 'Using Yahoo Finance (no API key required)' };
-  }
-  if (!STOCK_API_KEY || STOCK_API_KEY === 'your_api_key_here') {
+  const chain = getProviderChain();
+  if (chain.length === 0) {
     return {
       valid: false,
       message: `Missing NEXT_PUBLIC_STOCK_API_KEY environment variable for ${API_PROVIDER.toUpperCase()} provider`,
     };
   }
-  return { valid: true, message: `Using ${API_PROVIDER.toUpperCase()} provider` };
+  if (chain.length === 1 && chain[0] === 'yahoo') {
+    return { valid: true, message: 'Using Yahoo Finance (no API key required)' };
+  }
+  return { valid: true, message: `Using ${chain.map((provider) => provider.toUpperCase()).join(' → ')} providers` };
 }
 
 /**
- * Clear all cached data
+ * First date covered by a historical period, relative to now
  */
-export function clearCache(): void {
-  cache.clear();
+export function getPeriodStartDate(period: HistoricalPeriod, now: Date = new Date()): Date {
+  const DAY = 24 * 60 * 60 * 1000;
+  switch (period) {
+    case '1d':
+      return new Date(now.getTime() - 1 * DAY);
+    case '5d':
+      return new Date(now.getTime() - 5 * DAY);
+    case '1mo':
+      return new Date(now.getTime() - 30 * DAY);
+    case '3mo':
+      return new Date(now.getTime() - 90 * DAY);
+    case '6mo':
+      return new Date(now.getTime() - 180 * DAY);
+    case '1y':
+      return new Date(now.getTime() - 365 * DAY);
+    case '2y':
+      return new Date(now.getTime() - 2 * 365 * DAY);
+    case '5y':
+      return new Date(now.getTime() - 5 * 365 * DAY);
+    case '10y':
+      return new Date(now.getTime() - 10 * 365 * DAY);
+    case 'ytd':
+      return new Date(now.getFullYear(), 0, 1);
+    case 'max':
+      return new Date(2000, 0, 1);
+    default:
+      return new Date(now.getTime() - 365 * DAY);
+  }
 }
+
+export { clearCache } from './cache';
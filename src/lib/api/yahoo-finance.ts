@@ -5,10 +5,13 @@
  */
 
 import YahooFinance from 'yahoo-finance2';
-import type { Quote } from '@/types/market';
+import type { HistoricalPeriod, HistoricalPrice, Quote } from '@/types/market';
 import type { FinancialMetrics } from '@/types/financials';
 import type { IncomeStatement, BalanceSheet, CashFlowStatement } from '@/types/financials';
+import type { SymbolEntry } from '@/types/search';
 import { withCache, CACHE_TTL } from './cache';
+import { getPeriodStartDate } from './stock-api';
+import { marketOfSymbol } from '@/lib/search/symbols';
 
 // Initialize Yahoo Finance instance with configuration
 const yahooFinance = new YahooFinance({
@@ -30,32 +33,76 @@ export async function getFinancialStatementsYahoo(symbol: string): Promise<{
   const cacheKey = 'yahoo:statements:' + symbol;
 
   return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
-    try {
-      const [incomeData, balanceData, cashFlowData] = await Promise.all([
-        yahooFinance.quoteSummary(symbol, { modules: ['incomeStatementHistory'] }) as any,
-        yahooFinance.quoteSummary(symbol, { modules: ['balanceSheetHistory'] }) as any,
-        yahooFinance.quoteSummary(symbol, { modules: ['cashflowStatementHistory'] }) as any,
-      ]);
+    const [incomeData, balanceData, cashFlowData] = await Promise.all([
+      yahooFinance.quoteSummary(symbol, { modules: ['incomeStatementHistory'] }) as any,
+      yahooFinance.quoteSummary(symbol, { modules: ['balanceSheetHistory'] }) as any,
+      yahooFinance.quoteSummary(symbol, { modules: ['cashflowStatementHistory'] }) as any,
+    ]);
 
-      const incomeStatement = parseIncomeStatement(incomeData);
-      const balanceSheet = parseBalanceSheet(balanceData);
-      const cashFlow = parseCashFlowStatement(cashFlowData);
+    const incomeStatement = parseIncomeStatement(incomeData);
+    const balanceSheet = parseBalanceSheet(balanceData);
+    const cashFlow = parseCashFlowStatement(cashFlowData);
+
+    return {
+      incomeStatement,
+      balanceSheet,
+      cashFlow,
+    };
+  });
+}
+
+/**
+ * Fetch quarterly income statements from Yahoo Finance
+ * Uses fundamentalsTimeSeries, which carries quarterly EPS (quoteSummary's
+ * quarterly history does not). Returns newest first.
+ */
+export async function getQuarterlyIncomeStatementYahoo(symbol: string): Promise<IncomeStatement[]> {
+  const cacheKey = 'yahoo:statements:quarterly:' + symbol;
+
+  return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
+    // 3 years covers the same quarter a year earlier plus a trend
+    const period1 = new Date();
+    period1.setFullYear(period1.getFullYear() - 3);
+
+    const rows = await yahooFinance.fundamentalsTimeSeries(symbol, {
+      period1,
+      type: 'quarterly',
+      module: 'financials',
+    }) as any[];
+
+    return parseQuarterlyIncomeStatement(rows);
+  });
+}
+
+/**
+ * Parse quarterly income statement rows from fundamentalsTimeSeries
+ */
+function parseQuarterlyIncomeStatement(rows: any[]): IncomeStatement[] {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return [];
+  }
+
+  return rows
+    .filter((row) => row?.date)
+    .map((row) => {
+      const dateObj = new Date(row.date);
 
       return {
-        incomeStatement,
-        balanceSheet,
-        cashFlow,
-      };
-    } catch (error) {
-      console.warn(`Yahoo Finance statements not available for ${symbol}:`, (error as Error).message);
-      // Return empty arrays if Yahoo Finance doesn't have statement data
-      return {
-        incomeStatement: [],
-        balanceSheet: [],
-        cashFlow: [],
+        fiscalDate: dateObj.toISOString().split('T')[0],
+        fiscalYear: dateObj.getFullYear(),
+        fiscalPeriod: `Q${Math.floor(dateObj.getMonth() / 3) + 1}`,
+        revenue: row.totalRevenue || 0,
+        costOfRevenue: row.costOfRevenue || 0,
+        grossProfit: row.grossProfit || 0,
+        operatingExpenses: row.operatingExpense || 0,
+        operatingIncome: row.operatingIncome || 0,
+        netIncome: row.netIncome || 0,
+        eps: row.basicEPS || 0,
+        epsDiluted: row.dilutedEPS || 0,
       };
-    }
-  });
+    })
+    .sort((a, b) => b.fiscalDate.localeCompare(a.fiscalDate))
+    .slice(0, 12);
 }
 
 /**
@@ -215,103 +262,80 @@ export async function getCompanyMetricsYahoo(symbol: string): Promise<FinancialM
   const cacheKey = 'yahoo:metrics:' + symbol;
 
   return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
-    try {
-      const [result, summary] = await Promise.all([
-        yahooFinance.quote(symbol) as any,
-        yahooFinance.quoteSummary(symbol, {
-          modules: ['defaultKeyStatistics', 'financialData', 'summaryDetail']
-        }) as any,
-      ]);
-
-      const stats = summary?.defaultKeyStatistics || {};
-      const financialData = summary?.financialData || {};
-      const summaryDetail = summary?.summaryDetail || {};
-
-      // Helper to safely extract numbers, returning null for missing/invalid values
-      const safeNum = (val: any): number | null => {
-        if (val === null || val === undefined || !isFinite(val)) return null;
-        return Number(val);
-      };
+    const [result, summary] = await Promise.all([
+      yahooFinance.quote(symbol) as any,
+      yahooFinance.quoteSummary(symbol, {
+        modules: ['defaultKeyStatistics', 'financialData', 'summaryDetail']
+      }) as any,
+    ]);
+
+    const stats = summary?.defaultKeyStatistics || {};
+    const financialData = summary?.financialData || {};
+    const summaryDetail = summary?.summaryDetail || {};
+
+    // Helper to safely extract numbers, returning null for missing/invalid values
+    const safeNum = (val: any): number | null => {
+      if (val === null || val === undefined || !isFinite(val)) return null;
+      return Number(val);
+    };
 
-      // Revenue growth is already a percentage from Yahoo (e.g., 0.05 = 5%)
-      const revenueGrowth = safeNum(financialData.revenueGrowth);
+    // Revenue growth is already a percentage from Yahoo (e.g., 0.05 = 5%)
+    const revenueGrowth = safeNum(financialData.revenueGrowth);
 
-      // Profit margins from Yahoo are decimals (e.g., 0.25 = 25%)
-      const profitMargin = safeNum(financialData.profitMargins);
-      const operatingMargin = safeNum(financialData.operatingMargins);
-      const grossMargin = safeNum(financialData.grossMargins);
+    // Profit margins from Yahoo are decimals (e.g., 0.25 = 25%)
+    const profitMargin = safeNum(financialData.profitMargins);
+    const operatingMargin = safeNum(financialData.operatingMargins);
+    const grossMargin = safeNum(financialData.grossMargins);
 
-      // ROE from Yahoo is a decimal (e.g., 0.15 = 15%)
-      const roe = safeNum(stats.returnOnEquity);
+    // ROE from Yahoo is a decimal (e.g., 0.15 = 15%)
+    const roe = safeNum(stats.returnOnEquity);
 
-      // Debt-to-Equity ratio
-      const deRatio = safeNum(stats.debtToEquity);
+    // Debt-to-Equity ratio
+    const deRatio = safeNum(stats.debtToEquity);
 
-      // Interest coverage ratio
-      const interestCoverage = safeNum(stats.interestCoverage);
+    // Interest coverage ratio
+    const interestCoverage = safeNum(stats.interestCoverage);
 
-      // P/E ratio - can be negative for unprofitable companies
-      const peRatio = safeNum(result.trailingPE);
+    // P/E ratio - can be negative for unprofitable companies
+    const peRatio = safeNum(result.trailingPE);
 
-      // P/B ratio
-      const pbRatio = safeNum(result.priceToBook);
+    // P/B ratio
+    const pbRatio = safeNum(result.priceToBook);
 
-      // Dividend yield from Yahoo is a decimal (e.g., 0.02 = 2%)
-      const dividendYield = safeNum(summaryDetail.dividendYield);
+    // Dividend yield from Yahoo is a decimal (e.g., 0.02 = 2%)
+    const dividendYield = safeNum(summaryDetail.dividendYield);
 
-      // EPS Growth - Yahoo provides earningsQuarterlyGrowth as a decimal
-      // Also try earningsPreview and earningsTrend for more accurate YoY growth
-      let epsGrowth: number | null = safeNum(stats.earningsQuarterlyGrowth);
+    // EPS Growth - Yahoo provides earningsQuarterlyGrowth as a decimal
+    // Also try earningsPreview and earningsTrend for more accurate YoY growth
+    let epsGrowth: number | null = safeNum(stats.earningsQuarterlyGrowth);
 
-      // If quarterly growth is not available, try to get from earnings trend
-      if (epsGrowth === null) {
-        const earningsTrend = stats?.earningsTrend;
-        if (earningsTrend?.trend && earningsTrend.trend.length > 0) {
-          // Get the most recent earnings growth estimate
-          epsGrowth = safeNum(earningsTrend.trend[0]?.growth);
-        }
+    // If quarterly growth is not available, try to get from earnings trend
+    if (epsGrowth === null) {
+      const earningsTrend = stats?.earningsTrend;
+      if (earningsTrend?.trend && earningsTrend.trend.length > 0) {
+        // Get the most recent earnings growth estimate
+        epsGrowth = safeNum(earningsTrend.trend[0]?.growth);
       }
-
-      return {
-        revenue: safeNum(financialData.totalRevenue),
-        revenueGrowth,
-        netIncome: safeNum(financialData.netIncomeToCommon),
-        profitMargin,
-        grossMargin,
-        operatingMargin,
-        peRatio,
-        pbRatio,
-        roe,
-        deRatio,
-        interestCoverage,
-        eps: safeNum(result.epsTrailingTwelveMonths),
-        epsGrowth,
-        freeCashFlow: safeNum(financialData.freeCashflow),
-        dividendYield,
-        marketCap: safeNum(result.marketCap),
-      };
-    } catch (error) {
-      console.warn(`Company metrics not available for ${symbol}:`, (error as Error).message);
-      // Return all null values if data is unavailable
-      return {
-        revenue: null,
-        revenueGrowth: null,
-        netIncome: null,
-        profitMargin: null,
-        grossMargin: null,
-        operatingMargin: null,
-        peRatio: null,
-        pbRatio: null,
-        roe: null,
-        deRatio: null,
-        interestCoverage: null,
-        eps: null,
-        epsGrowth: null,
-        freeCashFlow: null,
-        dividendYield: null,
-        marketCap: null,
-      };
     }
+
+    return {
+      revenue: safeNum(financialData.totalRevenue),
+      revenueGrowth,
+      netIncome: safeNum(financialData.netIncomeToCommon),
+      profitMargin,
+      grossMargin,
+      operatingMargin,
+      peRatio,
+      pbRatio,
+      roe,
+      deRatio,
+      interestCoverage,
+      eps: safeNum(result.epsTrailingTwelveMonths),
+      epsGrowth,
+      freeCashFlow: safeNum(financialData.freeCashflow),
+      dividendYield,
+      marketCap: safeNum(result.marketCap),
+    };
   });
 }
 
@@ -353,6 +377,35 @@ export async function getCompanyProfileYahoo(symbol: string): Promise<{
   });
 }
 
+/**
+ * Search Yahoo Finance for stocks and ETFs matching a symbol or company name
+ * Results outside the supported markets are dropped
+ */
+export async function searchSymbolsYahoo(query: string): Promise<SymbolEntry[]> {
+  const cacheKey = 'yahoo:search:' + query.trim().toUpperCase();
+
+  return withCache(cacheKey, CACHE_TTL.FUNDAMENTALS, async () => {
+    const result = await yahooFinance.search(query, { quotesCount: 10, newsCount: 0 }) as any;
+
+    const entries: SymbolEntry[] = [];
+    for (const quote of result?.quotes || []) {
+      if (!quote.symbol || (quote.quoteType !== 'EQUITY' && quote.quoteType !== 'ETF')) continue;
+
+      const symbol = String(quote.symbol).toUpperCase();
+      const market = marketOfSymbol(symbol);
+      if (!market) continue;
+
+      entries.push({
+        symbol,
+        name: quote.longname || quote.shortname || symbol,
+        market,
+        source: 'yahoo',
+      });
+    }
+    return entries;
+  });
+}
+
 /**
  * Fetch historical price data from Yahoo Finance
  * Using chart() instead of historical() as recommended by yahoo-finance2 v3
@@ -360,91 +413,46 @@ export async function getCompanyProfileYahoo(symbol: string): Promise<{
  */
 export async function getHistoricalPricesYahoo(
   symbol: string,
-  period: '1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '2y' | '5y' | '10y' | 'ytd' | 'max' = '2y'
-): Promise<Array<{
-  date: string;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
-}>> {
+  period: HistoricalPeriod = '2y'
+): Promise<HistoricalPrice[]> {
   const cacheKey = 'yahoo:historical:' + symbol + ':' + period;
 
   return withCache(cacheKey, CACHE_TTL.HISTORICAL, async () => {
-    try {
-      const result = await yahooFinance.chart(symbol, {
-        period1: getStartDate(period),
-        period2: new Date(),
-        interval: '1d', // Always use daily interval for MA200 calculation
-      });
+    const result = await yahooFinance.chart(symbol, {
+      period1: getPeriodStartDate(period),
+      period2: new Date(),
+      interval: '1d', // Always use daily interval for MA200 calculation
+    });
 
-      if (!result || !result.quotes || result.quotes.length === 0) {
-        return [];
-      }
-
-      // Filter to only valid trading days with close prices
-      // Persist only dates that actually have a price (skip null/empty days)
-      const validQuotes = result.quotes
-        .filter((item: any) => {
-          // Must have date and valid close price
-          return item.date && item.close != null && isFinite(item.close) && item.close > 0;
-        })
-        .map((item: any) => ({
-          date: item.date.toISOString().split('T')[0],
-          open: item.open ?? null,
-          high: item.high ?? null,
-          low: item.low ?? null,
-          close: item.close,
-          volume: item.volume ?? null,
-        }));
-
-      // Deduplicate by date (keep last entry if duplicates exist)
-      const dedupedMap = new Map<string, typeof validQuotes[0]>();
-      for (const quote of validQuotes) {
-        dedupedMap.set(quote.date, quote);
-      }
-
-      // Sort ascending by date
-      return Array.from(dedupedMap.values()).sort((a, b) => a.date.localeCompare(b.date));
-    } catch (error) {
-      console.warn(`Historical price data not available for ${symbol}:`, (error as Error).message);
+    if (!result || !result.quotes || result.quotes.length === 0) {
       return [];
     }
-  });
-}
 
-/**
- * Helper function to calculate start date based on period
- */
-function getStartDate(period: string): Date {
-  const now = new Date();
-  switch (period) {
-    case '1d':
-      return new Date(now.getTime() - 1 * 24 * 60 * 60 * 1000);
-    case '5d':
-      return new Date(now.getTime() - 5 * 24 * 60 * 60 * 1000);
-    case '1mo':
-      return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-    case '3mo':
-      return new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-    case '6mo':
-      return new Date(now.getTime() - 180 * 24 * 60 * 60 * 1000);
-    case '1y':
-      return new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
-    case '2y':
-      return new Date(now.getTime() - 2 * 365 * 24 * 60 * 60 * 1000);
-    case '5y':
-      return new Date(now.getTime() - 5 * 365 * 24 * 60 * 60 * 1000);
-    case '10y':
-      return new Date(now.getTime() - 10 * 365 * 24 * 60 * 60 * 1000);
-    case 'ytd':
-      return new Date(now.getFullYear(), 0, 1);
-    case 'max':
-      return new Date(2000, 0, 1);
-    default:
-      return new Date(now.getTime() - 365 * 24 * 60 * 60 * 1000);
-  }
+    // Filter to only valid trading days with close prices
+    // Persist only dates that actually have a price (skip null/empty days)
+    const validQuotes = result.quotes
+      .filter((item: any) => {
+        // Must have date and valid close price
+        return item.date && item.close != null && isFinite(item.close) && item.close > 0;
+      })
+      .map((item: any) => ({
+        date: item.date.toISOString().split('T')[0],
+        open: item.open ?? null,
+        high: item.high ?? null,
+        low: item.low ?? null,
+        close: item.close,
+        volume: item.volume ?? null,
+      }));
+
+    // Deduplicate by date (keep last entry if duplicates exist)
+    const dedupedMap = new Map<string, typeof validQuotes[0]>();
+    for (const quote of validQuotes) {
+      dedupedMap.set(quote.date, quote);
+    }
+
+    // Sort ascending by date
+    return Array.from(dedupedMap.values()).sort((a, b) => a.date.localeCompare(b.date));
+  });
 }
 
 /**
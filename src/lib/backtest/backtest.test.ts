@@ -0,0 +1,261 @@
+/**
+ * Backtest Engine Tests
+ *
+ * Replays strategies over a committed fixture (__fixtures__/daily-ohlcv.json):
+ * 550 synthetic daily bars generated once from a seeded random walk through an
+ * advance, a correction, a second advance, a range, a decline and a recovery,
+ * plus fixed fundamentals and annual figures. Results are reproducible offline.
+ *
+ * Tests cover:
+ * - Deterministic results and the simulated window after warm-up
+ * - No look-ahead: signals use bars up to the day, orders fill at the next open
+ * - Stop loss, take profit, holding limit and end-of-data exits
+ * - Commission, position sizing and equity curve consistency
+ * - Price-multiple rescaling and benchmark trends
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { BacktestStrategy } from '@/types/backtest';
+import type { DecisionInput } from '@/types/decision';
+import fixture from './__fixtures__/daily-ohlcv.json';
+import { BACKTEST_DEFAULTS, benchmarkTrends, fundamentalsAt, runBacktest, type BacktestContext } from './backtest';
+import { STRATEGY_PRESETS } from './strategy';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const context: BacktestContext = {
+  symbol: fixture.symbol,
+  bars: fixture.bars,
+  base: fixture.base as DecisionInput,
+};
+
+const warmup = BACKTEST_DEFAULTS.warmupBars;
+
+/** Enters at every opportunity, so exits come only from levels and limits */
+const alwaysIn: BacktestStrategy = {
+  name: 'Always in',
+  entry: [{ signal: 'overallScore', operator: '>=', value: 0 }],
+};
+
+function barIndex(date: string): number {
+  return fixture.bars.findIndex((bar) => bar.date === date);
+}
+
+function dateAt(i: number): string {
+  return new Date(Date.UTC(2022, 0, 3 + i)).toISOString().slice(0, 10);
+}
+
+// ============================================================================
+// FIXTURE REPLAY
+// ============================================================================
+
+describe('runBacktest', () => {
+  const result = runBacktest(context, STRATEGY_PRESETS['value-timing']);
+
+  test('is deterministic over the fixture', () => {
+    expect(runBacktest(context, STRATEGY_PRESETS['value-timing'])).toEqual(result);
+    expect(result.metrics.trades).toBe(result.trades.length);
+    expect(result.trades.length).toBeGreaterThan(0);
+  });
+
+  test('simulates every bar after the warm-up', () => {
+    const simulated = fixture.bars.length - warmup;
+    expect(result.startDate).toBe(fixture.bars[warmup].date);
+    expect(result.endDate).toBe(fixture.bars[fixture.bars.length - 1].date);
+    expect(result.signals).toHaveLength(simulated);
+    expect(result.equityCurve).toHaveLength(simulated);
+    expect(result.equityCurve[0].date).toBe(result.startDate);
+  });
+
+  test('buys only after a bullish close with valuation above 70', () => {
+    for (const trade of result.trades) {
+      const signal = result.signals.find((point) => point.date === fixture.bars[barIndex(trade.entryDate) - 1].date)!;
+      expect(signal.timingRegime).toBe('bullish');
+      expect(signal.valuationScore).toBeGreaterThan(70);
+    }
+  });
+
+  test('returns an empty result without bars', () => {
+    const empty = runBacktest({ symbol: 'EMPTY', bars: [] }, alwaysIn);
+    expect(empty.trades).toEqual([]);
+    expect(empty.equityCurve).toEqual([]);
+    expect(empty.startDate).toBe('');
+    expect(empty.metrics.finalEquity).toBe(BACKTEST_DEFAULTS.initialCapital);
+  });
+});
+
+describe('runBacktest look-ahead', () => {
+  test('scores each day on bars up to that day only', () => {
+    const cut = warmup + 60;
+    const full = runBacktest(context, alwaysIn);
+    const truncated = runBacktest({ ...context, bars: fixture.bars.slice(0, cut + 1) }, alwaysIn);
+
+    expect(truncated.signals).toEqual(full.signals.slice(0, truncated.signals.length));
+  });
+
+  test('fills entries at the next bar open', () => {
+    const { trades } = runBacktest(context, alwaysIn);
+    expect(trades[0].entryDate).toBe(fixture.bars[warmup + 1].date);
+    expect(trades[0].entryPrice).toBe(fixture.bars[warmup + 1].open);
+  });
+
+  test('closes a position still open at the last close', () => {
+    const { trades } = runBacktest(context, alwaysIn);
+    const last = fixture.bars[fixture.bars.length - 1];
+    expect(trades).toHaveLength(1);
+    expect(trades[0]).toMatchObject({ exitReason: 'end', exitDate: last.date, exitPrice: last.close });
+  });
+});
+
+// ============================================================================
+// EXITS
+// ============================================================================
+
+describe('runBacktest exits', () => {
+  test('stops out at the stop, or at the open on a gap through it', () => {
+    const { trades } = runBacktest(context, { ...alwaysIn, stopLoss: 3, maxHoldingDays: 15 });
+    const stops = trades.filter((trade) => trade.exitReason === 'stopLoss');
+    expect(stops.length).toBeGreaterThan(0);
+
+    for (const trade of stops) {
+      const bar = fixture.bars[barIndex(trade.exitDate)];
+      expect(trade.stopLoss).toBeCloseTo(trade.entryPrice * 0.97, 6);
+      expect(bar.low).toBeLessThanOrEqual(trade.stopLoss!);
+      expect(trade.exitPrice).toBeCloseTo(Math.min(bar.open, trade.stopLoss!), 6);
+    }
+  });
+
+  test('takes profit at the target, or at the open on a gap above it', () => {
+    const { trades } = runBacktest(context, { ...alwaysIn, takeProfit: 5 });
+    const targets = trades.filter((trade) => trade.exitReason === 'takeProfit');
+    expect(targets.length).toBeGreaterThan(0);
+
+    for (const trade of targets) {
+      const bar = fixture.bars[barIndex(trade.exitDate)];
+      expect(trade.takeProfit).toBeCloseTo(trade.entryPrice * 1.05, 6);
+      expect(trade.exitPrice).toBeCloseTo(Math.max(bar.open, trade.takeProfit!), 6);
+      expect(trade.pnl).toBeGreaterThan(0);
+    }
+  });
+
+  test('uses the action plan stop when asked', () => {
+    const { trades } = runBacktest(context, { ...alwaysIn, stopLoss: 'plan' });
+    for (const trade of trades) {
+      expect(trade.stopLoss).not.toBeNull();
+      expect(trade.stopLoss!).toBeLessThan(trade.entryPrice);
+    }
+  });
+
+  test('exits after the holding limit at the next open', () => {
+    const { trades } = runBacktest(context, { ...alwaysIn, maxHoldingDays: 10 });
+    const limited = trades.filter((trade) => trade.exitReason === 'maxHolding');
+    expect(limited.length).toBeGreaterThan(10);
+
+    for (const trade of limited) {
+      expect(trade.holdingDays).toBe(10);
+      expect(trade.exitPrice).toBe(fixture.bars[barIndex(trade.exitDate)].open);
+    }
+  });
+
+  test('exits on the strategy exit signal', () => {
+    const { trades, signals } = runBacktest(context, STRATEGY_PRESETS['value-timing']);
+    for (const trade of trades.filter((t) => t.exitReason === 'signal')) {
+      const signalDay = fixture.bars[barIndex(trade.exitDate) - 1].date;
+      expect(signals.find((point) => point.date === signalDay)!.timingRegime).toBe('bearish');
+    }
+  });
+});
+
+// ============================================================================
+// CASH AND EQUITY
+// ============================================================================
+
+describe('runBacktest cash and equity', () => {
+  const strategy: BacktestStrategy = { ...alwaysIn, maxHoldingDays: 20 };
+
+  test('ends at the initial capital plus closed trade P&L', () => {
+    const { trades, metrics, equityCurve } = runBacktest(context, strategy);
+    const pnl = trades.reduce((sum, trade) => sum + trade.pnl, 0);
+
+    expect(equityCurve[equityCurve.length - 1].equity).toBeCloseTo(BACKTEST_DEFAULTS.initialCapital + pnl, 4);
+    expect(metrics.finalEquity).toBeCloseTo(BACKTEST_DEFAULTS.initialCapital + pnl, 2);
+    expect(Math.max(...equityCurve.map((point) => point.drawdownPct))).toBeCloseTo(metrics.maxDrawdownPct, 2);
+  });
+
+  test('charges commission on both sides', () => {
+    const free = runBacktest(context, strategy, { commissionPct: 0 });
+    const charged = runBacktest(context, strategy, { commissionPct: 0.5 });
+
+    for (const trade of free.trades) {
+      expect(trade.pnl).toBeCloseTo(trade.shares * (trade.exitPrice - trade.entryPrice), 6);
+    }
+    const first = charged.trades[0];
+    const cost = first.shares * first.entryPrice * 1.005;
+    expect(first.pnl).toBeCloseTo(first.shares * first.exitPrice * 0.995 - cost, 6);
+    expect(charged.metrics.finalEquity).toBeLessThan(free.metrics.finalEquity);
+  });
+
+  test('sizes whole-share positions from the allocation', () => {
+    const capital = 100_000;
+    const { trades } = runBacktest(context, strategy, { initialCapital: capital, positionSizePct: 50 });
+    const first = trades[0];
+
+    expect(Number.isInteger(first.shares)).toBe(true);
+    expect(first.shares).toBe(Math.floor((capital * 0.5) / (first.entryPrice * 1.0015)));
+  });
+
+  test('marks exposure on days a position is held', () => {
+    const { equityCurve, metrics } = runBacktest(context, alwaysIn);
+    expect(equityCurve[0].inPosition).toBe(false);
+    expect(equityCurve[1].inPosition).toBe(true);
+    expect(metrics.exposurePct).toBeGreaterThan(99);
+  });
+});
+
+// ============================================================================
+// DAILY INPUT
+// ============================================================================
+
+describe('fundamentalsAt', () => {
+  test('rescales price multiples and yields to the close', () => {
+    const scaled = fundamentalsAt({ peRatio: 20, pbRatio: 3, marketCap: 1000, dividendYield: 2, roe: 15 }, 50, 100);
+    expect(scaled).toEqual({ peRatio: 10, pbRatio: 1.5, marketCap: 500, dividendYield: 4, roe: 15 });
+  });
+
+  test('leaves fundamentals alone without a reference price', () => {
+    const fundamentals = { peRatio: 20, dividendYield: null };
+    expect(fundamentalsAt(fundamentals, 50, null)).toBe(fundamentals);
+    expect(fundamentalsAt(fundamentals, 50, 100)).toEqual({ peRatio: 10, dividendYield: null });
+    expect(fundamentalsAt(undefined, 50, 100)).toBeUndefined();
+  });
+});
+
+describe('benchmarkTrends', () => {
+  const bars = Array.from({ length: 260 }, (_, i) => ({ date: dateAt(i) }));
+
+  test('reads uptrends and downtrends from the 50 / 200-day MAs', () => {
+    const rising = bars.map((bar, i) => ({ date: bar.date, close: 100 + i }));
+    const falling = bars.map((bar, i) => ({ date: bar.date, close: 400 - i }));
+
+    const up = benchmarkTrends(bars, rising);
+    expect(up[198]).toBeUndefined();
+    expect(up[199]).toBe('uptrend');
+    expect(benchmarkTrends(bars, falling)[259]).toBe('downtrend');
+  });
+
+  test('carries the benchmark forward over days it did not trade', () => {
+    const benchmark = bars.filter((_, i) => i !== 230).map((bar, i) => ({ date: bar.date, close: 100 + i }));
+    const trends = benchmarkTrends(bars, benchmark);
+    expect(trends[230]).toBe(trends[229]);
+    expect(trends).toHaveLength(bars.length);
+  });
+
+  test('feeds the market trend into the daily decision input', () => {
+    const benchmark = fixture.bars.map((bar, i) => ({ date: bar.date, close: 1000 - i }));
+    const withIndex = runBacktest({ ...context, benchmark }, alwaysIn);
+    const without = runBacktest(context, alwaysIn);
+    expect(withIndex.signals).not.toEqual(without.signals);
+  });
+});
@@ -0,0 +1,325 @@
+/**
+ * Backtest Engine
+ *
+ * Replays a strategy day by day over daily OHLCV (oldest first). At each
+ * close the decision engine scores the stock on the bars up to that day
+ * only; entries and signal exits fill at the next bar's open. Stops and
+ * targets are checked intraday against each bar's low and high (a gap
+ * through the level fills at the open; with both in one bar the stop is
+ * assumed first). A position still open at the end is closed at the last
+ * close.
+ *
+ * Point-in-time limits: fundamentals, statements and the SETTRADE market
+ * regime are only known as of today. Fundamentals are held fixed apart from
+ * the price multiples (P/E, P/B, market cap, dividend yield), which are
+ * rescaled to each day's close; the regime is dropped, and the benchmark
+ * index trend (when given) stands in for the market direction. Fundamental
+ * scores therefore carry some look-ahead; price-driven signals (timing,
+ * patterns, CAN SLIM N/S) do not.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type {
+  BacktestExitReason,
+  BacktestOptions,
+  BacktestResult,
+  BacktestSignalPoint,
+  BacktestStrategy,
+  BacktestTrade,
+  EquityPoint,
+} from '@/types/backtest';
+import type { DecisionInput, DecisionSummary } from '@/types/decision';
+import type { HistoricalPrice } from '@/types/market';
+import { analyzeDecision } from '@/lib/decision/engine';
+import { sma } from '@/lib/technical/indicators';
+import { calculateBacktestMetrics, calculateDrawdowns } from './metrics';
+import { shouldEnter, shouldExit } from './strategy';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BACKTEST_DEFAULTS: Required<BacktestOptions> = {
+  initialCapital: 1_000_000,
+  positionSizePct: 100,
+  commissionPct: 0.15,
+  riskFreeRatePct: 0,
+  warmupBars: 200,
+};
+
+/**
+ * Bars of history the decision engine sees each day (a year plus the
+ * 200-day MA warm-up); keeps long backtests linear in their length
+ */
+const HISTORY_WINDOW = 300;
+
+/**
+ * Fundamentals that move with the share price: value × (close / reference)
+ */
+const PRICE_MULTIPLES = ['peRatio', 'pbRatio', 'marketCap'] as const;
+
+/**
+ * Fundamentals that move against it: value × (reference / close)
+ */
+const PRICE_YIELDS = ['dividendYield'] as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type BacktestBar = Pick<HistoricalPrice, 'date' | 'open' | 'high' | 'low' | 'close' | 'volume'>;
+
+export interface BacktestContext {
+  symbol: string;
+  bars: BacktestBar[]; // daily, oldest first
+  base?: DecisionInput; // today's fundamentals, financials and sector (quote and history are ignored)
+  benchmark?: Array<Pick<HistoricalPrice, 'date' | 'close'>>; // index bars for the market trend
+}
+
+interface OpenPosition {
+  entryIndex: number;
+  entryPrice: number;
+  shares: number;
+  cost: number; // shares × price + commission
+  stopLoss: number | null;
+  takeProfit: number | null;
+}
+
+interface PendingEntry {
+  planStop: number;
+  planTarget: number;
+}
+
+// ============================================================================
+// DAILY INPUT
+// ============================================================================
+
+/**
+ * Rescale price-dependent fundamentals from the reference price to a day's close
+ */
+export function fundamentalsAt(
+  fundamentals: DecisionInput['fundamentals'],
+  close: number,
+  referencePrice: number | null
+): DecisionInput['fundamentals'] {
+  if (!fundamentals || !referencePrice || referencePrice <= 0 || close <= 0) return fundamentals;
+
+  const scaled = { ...fundamentals };
+  const ratio = close / referencePrice;
+  for (const field of PRICE_MULTIPLES) {
+    const value = scaled[field];
+    if (typeof value === 'number') scaled[field] = value * ratio;
+  }
+  for (const field of PRICE_YIELDS) {
+    const value = scaled[field];
+    if (typeof value === 'number') scaled[field] = value / ratio;
+  }
+  return scaled;
+}
+
+/**
+ * Benchmark trend per stock bar ('uptrend' above a rising 200-day MA
+ * structure, 'downtrend' below a falling one, otherwise 'sideways'), carried
+ * forward over days the benchmark did not trade; undefined before it has a
+ * 200-day MA
+ */
+export function benchmarkTrends(
+  bars: ReadonlyArray<Pick<HistoricalPrice, 'date'>>,
+  benchmark: ReadonlyArray<Pick<HistoricalPrice, 'date' | 'close'>>
+): Array<string | undefined> {
+  const closes = benchmark.map((bar) => bar.close);
+  const ma50 = sma(closes, 50);
+  const ma200 = sma(closes, 200);
+  const trends: Array<string | undefined> = [];
+  let j = -1;
+
+  for (const bar of bars) {
+    while (j + 1 < benchmark.length && benchmark[j + 1].date <= bar.date) j++;
+    const close = closes[j];
+    const fast = ma50[j];
+    const slow = ma200[j];
+
+    if (j < 0 || fast === null || slow === null) trends.push(undefined);
+    else if (close > slow && fast > slow) trends.push('uptrend');
+    else if (close < slow && fast < slow) trends.push('downtrend');
+    else trends.push('sideways');
+  }
+
+  return trends;
+}
+
+function inputAt(
+  context: BacktestContext,
+  index: number,
+  referencePrice: number | null,
+  indexTrend: string | undefined
+): DecisionInput {
+  const bar = context.bars[index];
+  const base = context.base ?? {};
+
+  return {
+    quote: { price: bar.close, volume: bar.volume },
+    fundamentals: fundamentalsAt(base.fundamentals, bar.close, referencePrice),
+    financials: base.financials,
+    history: { prices: context.bars.slice(Math.max(0, index - HISTORY_WINDOW + 1), index + 1) },
+    market: { sector: base.market?.sector, industry: base.market?.industry, indexTrend },
+  };
+}
+
+function toSignalPoint(date: string, summary: DecisionSummary): BacktestSignalPoint {
+  return {
+    date,
+    overallScore: summary.overall.score,
+    rating: summary.overall.rating,
+    timingRegime: summary.timing.regime,
+    valuationScore: summary.valuation.score,
+    canslimScore: summary.frameworkScores.canslim,
+  };
+}
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+function resolveLevel(
+  level: BacktestStrategy['stopLoss'],
+  entryPrice: number,
+  planLevel: number,
+  direction: 1 | -1
+): number | null {
+  if (level === undefined) return null;
+  if (level === 'plan') return planLevel > 0 ? planLevel : null;
+  return entryPrice * (1 + (direction * level) / 100);
+}
+
+/**
+ * Run a strategy over a symbol's history.
+ *
+ * @param context - Bars plus today's fundamentals and an optional benchmark
+ * @param strategy - Entry / exit conditions and stop, target and holding limits
+ * @param options - Capital, sizing, commission and warm-up (BACKTEST_DEFAULTS)
+ */
+export function runBacktest(
+  context: BacktestContext,
+  strategy: BacktestStrategy,
+  options: BacktestOptions = {}
+): BacktestResult {
+  const settings = { ...BACKTEST_DEFAULTS, ...options };
+  const { bars } = context;
+  const commission = settings.commissionPct / 100;
+  const warmup = Math.max(0, Math.min(settings.warmupBars, bars.length - 1));
+  const referencePrice = context.base?.quote?.price ?? (bars.length > 0 ? bars[bars.length - 1].close : null);
+  const trends = context.benchmark ? benchmarkTrends(bars, context.benchmark) : [];
+
+  const trades: BacktestTrade[] = [];
+  const curve: Array<Omit<EquityPoint, 'drawdownPct'>> = [];
+  const signals: BacktestSignalPoint[] = [];
+  let cash = settings.initialCapital;
+  let position: OpenPosition | null = null;
+  let pendingEntry: PendingEntry | null = null;
+  let pendingExit: BacktestExitReason | null = null;
+
+  const closePosition = (index: number, price: number, reason: BacktestExitReason) => {
+    if (!position) return;
+    const proceeds = position.shares * price * (1 - commission);
+    const pnl = proceeds - position.cost;
+    cash += proceeds;
+    trades.push({
+      entryDate: bars[position.entryIndex].date,
+      entryPrice: position.entryPrice,
+      exitDate: bars[index].date,
+      exitPrice: price,
+      shares: position.shares,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      exitReason: reason,
+      holdingDays: index - position.entryIndex,
+      pnl,
+      returnPct: (pnl / position.cost) * 100,
+    });
+    position = null;
+  };
+
+  for (let i = warmup; i < bars.length; i++) {
+    const bar = bars[i];
+    const open = bar.open > 0 ? bar.open : bar.close;
+
+    // Orders from yesterday's close fill at today's open
+    if (pendingExit && position) closePosition(i, open, pendingExit);
+    if (pendingEntry && !position) {
+      const budget = cash * (settings.positionSizePct / 100);
+      const shares = Math.floor(budget / (open * (1 + commission)));
+      if (shares > 0) {
+        const cost = shares * open * (1 + commission);
+        cash -= cost;
+        position = {
+          entryIndex: i,
+          entryPrice: open,
+          shares,
+          cost,
+          stopLoss: resolveLevel(strategy.stopLoss, open, pendingEntry.planStop, -1),
+          takeProfit: resolveLevel(strategy.takeProfit, open, pendingEntry.planTarget, 1),
+        };
+      }
+    }
+    pendingEntry = null;
+    pendingExit = null;
+
+    // Intraday stop and target
+    if (position) {
+      const held: OpenPosition = position;
+      if (held.stopLoss !== null && bar.low <= held.stopLoss) {
+        closePosition(i, Math.min(open, held.stopLoss), 'stopLoss');
+      } else if (held.takeProfit !== null && bar.high >= held.takeProfit) {
+        closePosition(i, Math.max(open, held.takeProfit), 'takeProfit');
+      }
+    }
+
+    // Signals at the close
+    const summary = analyzeDecision(context.symbol, inputAt(context, i, referencePrice, trends[i]));
+    signals.push(toSignalPoint(bar.date, summary));
+
+    const isLastBar = i === bars.length - 1;
+    if (position && !isLastBar) {
+      const held: OpenPosition = position;
+      if (strategy.maxHoldingDays !== undefined && i + 1 - held.entryIndex >= strategy.maxHoldingDays) {
+        pendingExit = 'maxHolding';
+      } else if (shouldExit(summary, strategy)) {
+        pendingExit = 'signal';
+      }
+    } else if (!position && !isLastBar && shouldEnter(summary, strategy)) {
+      pendingEntry = { planStop: summary.plan.stopLoss, planTarget: summary.plan.targetPrice.base };
+    }
+
+    if (position && isLastBar) closePosition(i, bar.close, 'end');
+
+    const held = position as OpenPosition | null;
+    curve.push({
+      date: bar.date,
+      equity: cash + (held ? held.shares * bar.close : 0),
+      inPosition: held !== null || trades[trades.length - 1]?.exitDate === bar.date,
+    });
+  }
+
+  const drawdowns = calculateDrawdowns(curve.map((point) => point.equity));
+  const equityCurve: EquityPoint[] = curve.map((point, i) => ({ ...point, drawdownPct: drawdowns[i] }));
+  const simulated = bars.slice(warmup);
+
+  return {
+    symbol: context.symbol,
+    strategy,
+    startDate: simulated[0]?.date ?? '',
+    endDate: simulated[simulated.length - 1]?.date ?? '',
+    metrics: calculateBacktestMetrics(
+      settings.initialCapital,
+      equityCurve,
+      trades,
+      simulated.map((bar) => bar.close),
+      settings.riskFreeRatePct
+    ),
+    trades,
+    equityCurve,
+    signals,
+  };
+}
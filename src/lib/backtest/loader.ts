@@ -0,0 +1,74 @@
+/**
+ * Backtest Loader
+ *
+ * Fetches price history, today's fundamentals and statements, and the
+ * benchmark index for one symbol and assembles a BacktestContext.
+ *
+ * Price history is required: a symbol no provider knows returns null and
+ * other history failures throw. The remaining sources are optional and are
+ * logged and left out when they fail, as in the decision loader.
+ */
+
+import { getQuote } from '@/lib/api/quotes';
+import { getCompanyMetrics, getCompanyProfile } from '@/lib/api/fundamentals';
+import { getFinancialStatements } from '@/lib/api/statements';
+import { getHistoricalPrices } from '@/lib/api/historical';
+import { isNotFoundError } from '@/lib/api/providers';
+import { getApiProvider } from '@/lib/api/stock-api';
+import { buildDecisionInput } from '@/lib/decision/input-builder';
+import { rsBenchmarkFor } from '@/lib/technical/relative-strength';
+import type { ApiProvider, HistoricalPeriod } from '@/types/market';
+import type { BacktestContext } from './backtest';
+
+export const BACKTEST_PERIODS: HistoricalPeriod[] = ['1y', '2y', '5y', '10y', 'max'];
+
+function settledValue<T>(result: PromiseSettledResult<T>, source: string, symbol: string): T | null {
+  if (result.status === 'fulfilled') return result.value;
+  console.warn(`Backtest: ${source} unavailable for ${symbol}:`, (result.reason as Error)?.message);
+  return null;
+}
+
+/**
+ * Load a symbol's backtest context, or null when it has no price history.
+ *
+ * @param symbol - Upper-case stock symbol (e.g. "PTT.BK", "AAPL")
+ * @param period - History to replay, warm-up included
+ */
+export async function loadBacktestContext(
+  symbol: string,
+  period: HistoricalPeriod
+): Promise<{ context: BacktestContext; provider: ApiProvider } | null> {
+  const [history, quote, metrics, profile, statements, benchmark] = await Promise.allSettled([
+    getHistoricalPrices(symbol, period),
+    getQuote(symbol),
+    getCompanyMetrics(symbol),
+    getCompanyProfile(symbol),
+    getFinancialStatements(symbol),
+    getHistoricalPrices(rsBenchmarkFor(symbol), period).then((result) => result.data),
+  ]);
+
+  if (history.status === 'rejected') {
+    if (isNotFoundError(history.reason)) return null;
+    throw history.reason;
+  }
+
+  // Point-in-time: no stored RS rating or SETTRADE regime, and the engine
+  // supplies each day's quote and price window itself
+  const { input } = buildDecisionInput({
+    provider: getApiProvider(),
+    quote: settledValue(quote, 'quote', symbol),
+    metrics: settledValue(metrics, 'fundamentals', symbol),
+    profile: settledValue(profile, 'profile', symbol),
+    statements: settledValue(statements, 'financial statements', symbol),
+  });
+
+  return {
+    context: {
+      symbol,
+      bars: history.value.data,
+      base: input,
+      benchmark: settledValue(benchmark, 'benchmark prices', symbol) ?? undefined,
+    },
+    provider: history.value.provider,
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Backtest Metrics Tests
+ *
+ * Tests cover:
+ * - CAGR over calendar time, short spans and wiped-out equity
+ * - Running-peak drawdowns
+ * - Annualized Sharpe, flat curves and the risk-free rate
+ * - Trade statistics, exposure and the buy-and-hold comparison
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { BacktestTrade, EquityPoint } from '@/types/backtest';
+import {
+  TRADING_DAYS_PER_YEAR,
+  calculateBacktestMetrics,
+  calculateCagr,
+  calculateDrawdowns,
+  calculateSharpe,
+} from './metrics';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function curveFrom(equity: number[], inPosition: boolean[] = []): EquityPoint[] {
+  const drawdowns = calculateDrawdowns(equity);
+  return equity.map((value, i) => ({
+    date: new Date(Date.UTC(2023, 0, 2 + i)).toISOString().slice(0, 10),
+    equity: value,
+    drawdownPct: drawdowns[i],
+    inPosition: inPosition[i] ?? false,
+  }));
+}
+
+function trade(pnl: number, returnPct: number): BacktestTrade {
+  return {
+    entryDate: '2023-01-02',
+    entryPrice: 10,
+    exitDate: '2023-01-10',
+    exitPrice: 10 * (1 + returnPct / 100),
+    shares: 100,
+    stopLoss: null,
+    takeProfit: null,
+    exitReason: 'signal',
+    holdingDays: 6,
+    pnl,
+    returnPct,
+  };
+}
+
+// ============================================================================
+// CAGR AND DRAWDOWN
+// ============================================================================
+
+describe('calculateCagr', () => {
+  test('annualizes over calendar years', () => {
+    expect(calculateCagr(100, 121, '2020-01-01', '2022-01-01')).toBeCloseTo(10, 1);
+    expect(calculateCagr(100, 100, '2020-01-01', '2021-01-01')).toBeCloseTo(0, 6);
+  });
+
+  test('returns null for less than a day and -100 when equity is gone', () => {
+    expect(calculateCagr(100, 110, '2023-01-02', '2023-01-02')).toBeNull();
+    expect(calculateCagr(100, 0, '2020-01-01', '2021-01-01')).toBe(-100);
+  });
+});
+
+describe('calculateDrawdowns', () => {
+  test('measures each point below the running peak', () => {
+    const drawdowns = calculateDrawdowns([100, 120, 90, 110, 130, 65]);
+    expect(drawdowns[0]).toBe(0);
+    expect(drawdowns[1]).toBe(0);
+    expect(drawdowns[2]).toBeCloseTo(25, 6);
+    expect(drawdowns[3]).toBeCloseTo(8.333, 2);
+    expect(drawdowns[4]).toBe(0);
+    expect(drawdowns[5]).toBeCloseTo(50, 6);
+  });
+});
+
+// ============================================================================
+// SHARPE
+// ============================================================================
+
+describe('calculateSharpe', () => {
+  test('annualizes mean over sample deviation of daily returns', () => {
+    // Returns alternate +2% / -1%: mean 0.5%, sample deviation ~1.604%
+    const equity = [100];
+    for (let i = 0; i < 20; i++) equity.push(equity[i] * (i % 2 === 0 ? 1.02 : 0.99));
+
+    const sharpe = calculateSharpe(equity)!;
+    expect(sharpe).toBeCloseTo((0.005 / 0.01604) * Math.sqrt(TRADING_DAYS_PER_YEAR), 0);
+    expect(calculateSharpe(equity, 5)!).toBeLessThan(sharpe);
+  });
+
+  test('returns null without enough returns or variance', () => {
+    expect(calculateSharpe([100, 101])).toBeNull();
+    expect(calculateSharpe([100, 100, 100, 100])).toBeNull();
+  });
+});
+
+// ============================================================================
+// FULL METRIC SET
+// ============================================================================
+
+describe('calculateBacktestMetrics', () => {
+  test('summarizes returns, trades and exposure', () => {
+    const curve = curveFrom([1000, 1100, 990, 1050, 1200], [false, true, true, false, false]);
+    const trades = [trade(150, 15), trade(-50, -5), trade(100, 10)];
+
+    const metrics = calculateBacktestMetrics(1000, curve, trades, [10, 11, 9.9, 10.5, 12.5]);
+    expect(metrics.finalEquity).toBe(1200);
+    expect(metrics.totalReturnPct).toBe(20);
+    expect(metrics.maxDrawdownPct).toBe(10);
+    expect(metrics.trades).toBe(3);
+    expect(metrics.winRatePct).toBe(66.67);
+    expect(metrics.avgWinPct).toBe(12.5);
+    expect(metrics.avgLossPct).toBe(-5);
+    expect(metrics.profitFactor).toBe(5);
+    expect(metrics.exposurePct).toBe(40);
+    expect(metrics.buyAndHoldReturnPct).toBe(25);
+    expect(metrics.cagrPct).not.toBeNull();
+    expect(metrics.sharpeRatio).not.toBeNull();
+  });
+
+  test('leaves trade statistics empty without trades', () => {
+    const metrics = calculateBacktestMetrics(1000, curveFrom([1000, 1000, 1000]), [], [10, 11, 12]);
+    expect(metrics.totalReturnPct).toBe(0);
+    expect(metrics.winRatePct).toBeNull();
+    expect(metrics.avgWinPct).toBeNull();
+    expect(metrics.avgLossPct).toBeNull();
+    expect(metrics.profitFactor).toBeNull();
+    expect(metrics.sharpeRatio).toBeNull();
+    expect(metrics.exposurePct).toBe(0);
+    expect(metrics.buyAndHoldReturnPct).toBe(20);
+  });
+
+  test('counts a break-even trade as a loss', () => {
+    const metrics = calculateBacktestMetrics(1000, curveFrom([1000, 1000]), [trade(0, 0)], [10, 10]);
+    expect(metrics.winRatePct).toBe(0);
+    expect(metrics.profitFactor).toBeNull();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Backtest Performance Metrics
+ *
+ * Summary statistics over an equity curve and its closed trades:
+ * - CAGR over calendar time between the first and last equity points
+ * - Max drawdown: deepest fall below the running equity peak
+ * - Sharpe: mean daily excess return / its standard deviation × √252
+ * - Win rate, average win / loss and profit factor over closed trades
+ *
+ * Percentages are in percent (12.5 = 12.5%).
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { BacktestMetrics, BacktestTrade, EquityPoint } from '@/types/backtest';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TRADING_DAYS_PER_YEAR = 252;
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function roundOrNull(value: number | null, decimals = 2): number | null {
+  return value === null ? null : round(value, decimals);
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/**
+ * Compound annual growth rate (%); null when the curve spans less than a day
+ */
+export function calculateCagr(initial: number, final: number, startDate: string, endDate: string): number | null {
+  const years = (Date.parse(endDate) - Date.parse(startDate)) / MS_PER_YEAR;
+  if (!(years > 0) || initial <= 0) return null;
+  if (final <= 0) return -100;
+  return ((final / initial) ** (1 / years) - 1) * 100;
+}
+
+/**
+ * Drawdown below the running peak at each point (%)
+ */
+export function calculateDrawdowns(equity: number[]): number[] {
+  let peak = -Infinity;
+  return equity.map((value) => {
+    peak = Math.max(peak, value);
+    return peak > 0 ? ((peak - value) / peak) * 100 : 0;
+  });
+}
+
+/**
+ * Annualized Sharpe ratio of daily equity returns; null with fewer than two
+ * returns or no variance
+ *
+ * @param riskFreeRatePct - Annual risk-free rate (%)
+ */
+export function calculateSharpe(equity: number[], riskFreeRatePct = 0): number | null {
+  const dailyRiskFree = riskFreeRatePct / 100 / TRADING_DAYS_PER_YEAR;
+  const returns: number[] = [];
+  for (let i = 1; i < equity.length; i++) {
+    if (equity[i - 1] > 0) returns.push(equity[i] / equity[i - 1] - 1 - dailyRiskFree);
+  }
+  if (returns.length < 2) return null;
+
+  const average = mean(returns);
+  const variance = returns.reduce((sum, value) => sum + (value - average) ** 2, 0) / (returns.length - 1);
+  const deviation = Math.sqrt(variance);
+  if (deviation < 1e-12) return null;
+  return (average / deviation) * Math.sqrt(TRADING_DAYS_PER_YEAR);
+}
+
+/**
+ * Full metric set for a finished backtest.
+ *
+ * @param curve - Daily equity, oldest first
+ * @param trades - Closed trades
+ * @param closes - Closes over the same days, for the buy-and-hold comparison
+ */
+export function calculateBacktestMetrics(
+  initialCapital: number,
+  curve: EquityPoint[],
+  trades: BacktestTrade[],
+  closes: number[],
+  riskFreeRatePct = 0
+): BacktestMetrics {
+  const equity = curve.map((point) => point.equity);
+  const finalEquity = equity.length > 0 ? equity[equity.length - 1] : initialCapital;
+  const wins = trades.filter((trade) => trade.pnl > 0);
+  const losses = trades.filter((trade) => trade.pnl <= 0);
+  const grossProfit = wins.reduce((sum, trade) => sum + trade.pnl, 0);
+  const grossLoss = -losses.reduce((sum, trade) => sum + trade.pnl, 0);
+  const firstClose = closes[0];
+  const lastClose = closes[closes.length - 1];
+
+  return {
+    initialCapital,
+    finalEquity: round(finalEquity),
+    totalReturnPct: round(((finalEquity - initialCapital) / initialCapital) * 100),
+    cagrPct: roundOrNull(
+      curve.length > 0 ? calculateCagr(initialCapital, finalEquity, curve[0].date, curve[curve.length - 1].date) : null
+    ),
+    maxDrawdownPct: round(Math.max(0, ...calculateDrawdowns(equity))),
+    sharpeRatio: roundOrNull(calculateSharpe(equity, riskFreeRatePct)),
+    winRatePct: trades.length > 0 ? round((wins.length / trades.length) * 100) : null,
+    trades: trades.length,
+    avgWinPct: wins.length > 0 ? round(mean(wins.map((trade) => trade.returnPct))) : null,
+    avgLossPct: losses.length > 0 ? round(mean(losses.map((trade) => trade.returnPct))) : null,
+    profitFactor: grossLoss > 0 ? round(grossProfit / grossLoss) : null,
+    exposurePct: curve.length > 0 ? round((curve.filter((point) => point.inPosition).length / curve.length) * 100) : 0,
+    buyAndHoldReturnPct: firstClose > 0 && lastClose !== undefined ? round(((lastClose - firstClose) / firstClose) * 100) : 0,
+  };
+}
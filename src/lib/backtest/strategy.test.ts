@@ -0,0 +1,183 @@
+/**
+ * Backtest Strategy Tests
+ *
+ * Tests cover:
+ * - Reading signals from a DecisionSummary
+ * - Numeric and text conditions, entry (all) and exit (any)
+ * - Preset definitions
+ * - Request validation: conditions, stop / target levels, holding limits and options
+ */
+
+import { describe, test, expect } from 'vitest';
+import type { DecisionSummary } from '@/types/decision';
+import {
+  STRATEGY_PRESETS,
+  matchesCondition,
+  parseBacktestOptions,
+  parseBacktestStrategy,
+  shouldEnter,
+  shouldExit,
+  signalValue,
+} from './strategy';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+interface SummaryValues {
+  overall?: number;
+  rating?: DecisionSummary['overall']['rating'];
+  valuation?: number;
+  regime?: DecisionSummary['timing']['regime'];
+  canslim?: number;
+}
+
+function summaryWith(values: SummaryValues = {}): DecisionSummary {
+  return {
+    overall: { score: values.overall ?? 60, rating: values.rating ?? 'Hold' },
+    quality: { score: 55 },
+    growth: { score: 50 },
+    valuation: { score: values.valuation ?? 60 },
+    timing: { score: 58, regime: values.regime ?? 'neutral' },
+    risk: { score: 40 },
+    frameworkScores: { canslim: values.canslim ?? 50, spea: 45, value: 60, growth: 50, quality: 55 },
+  } as unknown as DecisionSummary;
+}
+
+// ============================================================================
+// SIGNALS AND CONDITIONS
+// ============================================================================
+
+describe('signalValue', () => {
+  test('reads scores, framework scores, the regime and the rating', () => {
+    const summary = summaryWith({ overall: 72, rating: 'Buy', regime: 'bullish', canslim: 81 });
+    expect(signalValue(summary, 'overallScore')).toBe(72);
+    expect(signalValue(summary, 'riskScore')).toBe(40);
+    expect(signalValue(summary, 'canslimScore')).toBe(81);
+    expect(signalValue(summary, 'speaScore')).toBe(45);
+    expect(signalValue(summary, 'timingRegime')).toBe('bullish');
+    expect(signalValue(summary, 'rating')).toBe('Buy');
+  });
+});
+
+describe('matchesCondition', () => {
+  const summary = summaryWith({ valuation: 70, regime: 'bullish' });
+
+  test('compares numeric signals', () => {
+    expect(matchesCondition(summary, { signal: 'valuationScore', operator: '>', value: 70 })).toBe(false);
+    expect(matchesCondition(summary, { signal: 'valuationScore', operator: '>=', value: 70 })).toBe(true);
+    expect(matchesCondition(summary, { signal: 'valuationScore', operator: '<', value: 71 })).toBe(true);
+    expect(matchesCondition(summary, { signal: 'valuationScore', operator: '<=', value: 69 })).toBe(false);
+    expect(matchesCondition(summary, { signal: 'valuationScore', operator: '=', value: 70 })).toBe(true);
+  });
+
+  test('compares text signals by equality only', () => {
+    expect(matchesCondition(summary, { signal: 'timingRegime', operator: '=', value: 'bullish' })).toBe(true);
+    expect(matchesCondition(summary, { signal: 'timingRegime', operator: '!=', value: 'bearish' })).toBe(true);
+    expect(matchesCondition(summary, { signal: 'timingRegime', operator: '>', value: 'bearish' })).toBe(false);
+  });
+});
+
+describe('shouldEnter / shouldExit', () => {
+  const strategy = STRATEGY_PRESETS['value-timing'];
+
+  test('enters only when every entry condition holds', () => {
+    expect(shouldEnter(summaryWith({ regime: 'bullish', valuation: 75 }), strategy)).toBe(true);
+    expect(shouldEnter(summaryWith({ regime: 'bullish', valuation: 70 }), strategy)).toBe(false);
+    expect(shouldEnter(summaryWith({ regime: 'neutral', valuation: 90 }), strategy)).toBe(false);
+  });
+
+  test('exits when any exit condition holds', () => {
+    expect(shouldExit(summaryWith({ regime: 'bearish' }), strategy)).toBe(true);
+    expect(shouldExit(summaryWith({ regime: 'neutral' }), strategy)).toBe(false);
+    expect(shouldExit(summaryWith({ regime: 'bearish' }), { name: 'No exits', entry: strategy.entry })).toBe(false);
+  });
+
+  test('never enters without entry conditions', () => {
+    expect(shouldEnter(summaryWith(), { name: 'Empty', entry: [] })).toBe(false);
+  });
+});
+
+describe('STRATEGY_PRESETS', () => {
+  test('defines the value-timing, CAN SLIM and rating strategies', () => {
+    expect(STRATEGY_PRESETS['value-timing'].stopLoss).toBe('plan');
+    expect(STRATEGY_PRESETS.canslim).toMatchObject({ stopLoss: 8, takeProfit: 25 });
+    expect(shouldEnter(summaryWith({ canslim: 75, regime: 'bullish' }), STRATEGY_PRESETS.canslim)).toBe(true);
+    expect(shouldEnter(summaryWith({ overall: 65 }), STRATEGY_PRESETS['decision-rating'])).toBe(true);
+    expect(shouldExit(summaryWith({ overall: 49 }), STRATEGY_PRESETS['decision-rating'])).toBe(true);
+  });
+});
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('parseBacktestStrategy', () => {
+  const entry = [{ signal: 'overallScore', operator: '>=', value: 65 }];
+
+  test('accepts a full strategy', () => {
+    const { strategy, error } = parseBacktestStrategy({
+      name: '  Rating with stops ',
+      entry,
+      exit: [{ signal: 'rating', operator: '=', value: 'Sell' }],
+      stopLoss: 7,
+      takeProfit: 'plan',
+      maxHoldingDays: 60,
+    });
+    expect(error).toBeNull();
+    expect(strategy).toEqual({
+      name: 'Rating with stops',
+      entry,
+      exit: [{ signal: 'rating', operator: '=', value: 'Sell' }],
+      stopLoss: 7,
+      takeProfit: 'plan',
+      maxHoldingDays: 60,
+    });
+  });
+
+  test('defaults the name and leaves optional fields out', () => {
+    const { strategy } = parseBacktestStrategy({ entry });
+    expect(strategy).toEqual({ name: 'Custom strategy', entry });
+  });
+
+  test('rejects missing or malformed conditions', () => {
+    expect(parseBacktestStrategy(null).error).toBe('strategy is required');
+    expect(parseBacktestStrategy({}).error).toBe('entry needs at least one condition');
+    expect(parseBacktestStrategy({ entry: 'overallScore > 65' }).error).toMatch(/array/);
+    expect(parseBacktestStrategy({ entry: [{ signal: 'pe', operator: '>', value: 1 }] }).error).toMatch(/signal/);
+    expect(parseBacktestStrategy({ entry: [{ signal: 'overallScore', operator: '=>', value: 1 }] }).error).toMatch(
+      /operator/
+    );
+    expect(parseBacktestStrategy({ entry: [{ signal: 'overallScore', operator: '>', value: '65' }] }).error).toMatch(
+      /number/
+    );
+    expect(
+      parseBacktestStrategy({ entry: [{ signal: 'timingRegime', operator: '>', value: 'neutral' }] }).error
+    ).toMatch(/= or !=/);
+  });
+
+  test('rejects out-of-range stops, targets and holding limits', () => {
+    expect(parseBacktestStrategy({ entry, stopLoss: 0 }).error).toMatch(/stopLoss/);
+    expect(parseBacktestStrategy({ entry, stopLoss: 100 }).error).toMatch(/stopLoss/);
+    expect(parseBacktestStrategy({ entry, takeProfit: 'atr' }).error).toMatch(/takeProfit/);
+    expect(parseBacktestStrategy({ entry, maxHoldingDays: 2.5 }).error).toMatch(/maxHoldingDays/);
+    expect(parseBacktestStrategy({ entry, maxHoldingDays: 0 }).error).toMatch(/maxHoldingDays/);
+  });
+});
+
+describe('parseBacktestOptions', () => {
+  test('keeps the given options and leaves the rest to defaults', () => {
+    expect(parseBacktestOptions(null)).toEqual({ options: {}, error: null });
+    expect(parseBacktestOptions({ initialCapital: 500_000, commissionPct: 0, warmupBars: 250 })).toEqual({
+      options: { initialCapital: 500_000, commissionPct: 0, warmupBars: 250 },
+      error: null,
+    });
+  });
+
+  test('rejects out-of-range and non-numeric options', () => {
+    expect(parseBacktestOptions({ initialCapital: 0 }).error).toMatch(/initialCapital/);
+    expect(parseBacktestOptions({ positionSizePct: 150 }).error).toMatch(/positionSizePct/);
+    expect(parseBacktestOptions({ commissionPct: '0.1' }).error).toMatch(/commissionPct/);
+    expect(parseBacktestOptions({ warmupBars: 20.5 }).error).toMatch(/whole number/);
+  });
+});
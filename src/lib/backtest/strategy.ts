@@ -0,0 +1,260 @@
+/**
+ * Backtest Strategies
+ *
+ * Reads strategy signals from a DecisionSummary, evaluates entry and exit
+ * conditions, and validates strategies and options sent to the backtest API.
+ *
+ * Presets:
+ * - value-timing: bullish timing regime and valuation score above 70, stop at
+ *   the action plan's stop loss, out when the regime turns bearish
+ * - canslim: CAN SLIM 70+ in a bullish regime, O'Neil's 8% stop and 25% target
+ * - decision-rating: overall score in the Buy range (65+), out below 50
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type {
+  BacktestCondition,
+  BacktestOperator,
+  BacktestOptions,
+  BacktestSignal,
+  BacktestStrategy,
+} from '@/types/backtest';
+import type { DecisionSummary } from '@/types/decision';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const BACKTEST_SIGNALS: BacktestSignal[] = [
+  'overallScore',
+  'qualityScore',
+  'growthScore',
+  'valuationScore',
+  'timingScore',
+  'riskScore',
+  'canslimScore',
+  'speaScore',
+  'timingRegime',
+  'rating',
+];
+
+export const BACKTEST_OPERATORS: BacktestOperator[] = ['>', '>=', '<', '<=', '=', '!='];
+
+const TEXT_SIGNALS: BacktestSignal[] = ['timingRegime', 'rating'];
+
+/**
+ * Accepted option ranges: [min, max], inclusive
+ */
+const OPTION_RANGES: Record<keyof BacktestOptions, [number, number]> = {
+  initialCapital: [1, 1e12],
+  positionSizePct: [1, 100],
+  commissionPct: [0, 5],
+  riskFreeRatePct: [0, 20],
+  warmupBars: [0, 500],
+};
+
+export const STRATEGY_PRESETS: Record<string, BacktestStrategy> = {
+  'value-timing': {
+    name: 'Bullish timing, valuation > 70',
+    entry: [
+      { signal: 'timingRegime', operator: '=', value: 'bullish' },
+      { signal: 'valuationScore', operator: '>', value: 70 },
+    ],
+    exit: [{ signal: 'timingRegime', operator: '=', value: 'bearish' }],
+    stopLoss: 'plan',
+  },
+  canslim: {
+    name: 'CAN SLIM 70+ in a bullish regime',
+    entry: [
+      { signal: 'canslimScore', operator: '>=', value: 70 },
+      { signal: 'timingRegime', operator: '=', value: 'bullish' },
+    ],
+    exit: [{ signal: 'timingRegime', operator: '=', value: 'bearish' }],
+    stopLoss: 8,
+    takeProfit: 25,
+  },
+  'decision-rating': {
+    name: 'Overall score 65+, out below 50',
+    entry: [{ signal: 'overallScore', operator: '>=', value: 65 }],
+    exit: [{ signal: 'overallScore', operator: '<', value: 50 }],
+    stopLoss: 'plan',
+  },
+};
+
+// ============================================================================
+// SIGNALS
+// ============================================================================
+
+/**
+ * Value of a signal in a decision summary
+ */
+export function signalValue(summary: DecisionSummary, signal: BacktestSignal): number | string {
+  switch (signal) {
+    case 'overallScore':
+      return summary.overall.score;
+    case 'qualityScore':
+      return summary.quality.score;
+    case 'growthScore':
+      return summary.growth.score;
+    case 'valuationScore':
+      return summary.valuation.score;
+    case 'timingScore':
+      return summary.timing.score;
+    case 'riskScore':
+      return summary.risk.score;
+    case 'canslimScore':
+      return summary.frameworkScores.canslim;
+    case 'speaScore':
+      return summary.frameworkScores.spea;
+    case 'timingRegime':
+      return summary.timing.regime;
+    case 'rating':
+      return summary.overall.rating;
+  }
+}
+
+/**
+ * Whether a condition holds; text signals only support = and !=
+ */
+export function matchesCondition(summary: DecisionSummary, condition: BacktestCondition): boolean {
+  const actual = signalValue(summary, condition.signal);
+  const expected = condition.value;
+
+  if (condition.operator === '=') return actual === expected;
+  if (condition.operator === '!=') return actual !== expected;
+  if (typeof actual !== 'number' || typeof expected !== 'number') return false;
+
+  switch (condition.operator) {
+    case '>':
+      return actual > expected;
+    case '>=':
+      return actual >= expected;
+    case '<':
+      return actual < expected;
+    case '<=':
+      return actual <= expected;
+  }
+}
+
+/**
+ * Every entry condition holds (a strategy without entry conditions never enters)
+ */
+export function shouldEnter(summary: DecisionSummary, strategy: BacktestStrategy): boolean {
+  return strategy.entry.length > 0 && strategy.entry.every((condition) => matchesCondition(summary, condition));
+}
+
+/**
+ * Any exit condition holds
+ */
+export function shouldExit(summary: DecisionSummary, strategy: BacktestStrategy): boolean {
+  return (strategy.exit ?? []).some((condition) => matchesCondition(summary, condition));
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function parseConditions(value: unknown, field: string): { conditions: BacktestCondition[]; error: string | null } {
+  if (value === undefined) return { conditions: [], error: null };
+  if (!Array.isArray(value)) return { conditions: [], error: `${field} must be an array of conditions` };
+
+  const conditions: BacktestCondition[] = [];
+  for (const item of value as Array<Record<string, unknown>>) {
+    const signal = item?.signal as BacktestSignal;
+    const operator = item?.operator as BacktestOperator;
+    if (!BACKTEST_SIGNALS.includes(signal)) {
+      return { conditions: [], error: `${field} signal must be one of: ${BACKTEST_SIGNALS.join(', ')}` };
+    }
+    if (!BACKTEST_OPERATORS.includes(operator)) {
+      return { conditions: [], error: `${field} operator must be one of: ${BACKTEST_OPERATORS.join(' ')}` };
+    }
+
+    const text = TEXT_SIGNALS.includes(signal);
+    if (text && (typeof item.value !== 'string' || (operator !== '=' && operator !== '!='))) {
+      return { conditions: [], error: `${field} ${signal} compares a text value with = or !=` };
+    }
+    if (!text && (typeof item.value !== 'number' || !isFinite(item.value))) {
+      return { conditions: [], error: `${field} ${signal} value must be a number` };
+    }
+
+    conditions.push({ signal, operator, value: item.value as number | string });
+  }
+
+  return { conditions, error: null };
+}
+
+function parseLevel(
+  value: unknown,
+  field: string,
+  maxPercent: number
+): { level: 'plan' | number | undefined; error: string | null } {
+  if (value === undefined || value === null) return { level: undefined, error: null };
+  if (value === 'plan') return { level: 'plan', error: null };
+  if (typeof value === 'number' && value > 0 && value < maxPercent) return { level: value, error: null };
+  return { level: undefined, error: `${field} must be "plan" or a percent between 0 and ${maxPercent}` };
+}
+
+/**
+ * Validate a strategy from a request body
+ */
+export function parseBacktestStrategy(
+  body: Record<string, unknown> | null
+): { strategy: BacktestStrategy | null; error: string | null } {
+  const invalid = (error: string) => ({ strategy: null, error });
+  if (!body) return invalid('strategy is required');
+
+  const entry = parseConditions(body.entry, 'entry');
+  if (entry.error) return invalid(entry.error);
+  if (entry.conditions.length === 0) return invalid('entry needs at least one condition');
+
+  const exit = parseConditions(body.exit, 'exit');
+  if (exit.error) return invalid(exit.error);
+
+  const stopLoss = parseLevel(body.stopLoss, 'stopLoss', 100);
+  if (stopLoss.error) return invalid(stopLoss.error);
+  const takeProfit = parseLevel(body.takeProfit, 'takeProfit', 1000);
+  if (takeProfit.error) return invalid(takeProfit.error);
+
+  const maxHoldingDays = body.maxHoldingDays;
+  if (
+    maxHoldingDays !== undefined &&
+    (typeof maxHoldingDays !== 'number' || !Number.isInteger(maxHoldingDays) || maxHoldingDays < 1)
+  ) {
+    return invalid('maxHoldingDays must be a positive whole number');
+  }
+
+  const strategy: BacktestStrategy = {
+    name: typeof body.name === 'string' && body.name.trim() ? body.name.trim() : 'Custom strategy',
+    entry: entry.conditions,
+  };
+  if (exit.conditions.length > 0) strategy.exit = exit.conditions;
+  if (stopLoss.level !== undefined) strategy.stopLoss = stopLoss.level;
+  if (takeProfit.level !== undefined) strategy.takeProfit = takeProfit.level;
+  if (maxHoldingDays !== undefined) strategy.maxHoldingDays = maxHoldingDays as number;
+
+  return { strategy, error: null };
+}
+
+/**
+ * Validate backtest options from a request; missing fields keep their defaults
+ */
+export function parseBacktestOptions(
+  body: Record<string, unknown> | null
+): { options: BacktestOptions | null; error: string | null } {
+  const options: BacktestOptions = {};
+
+  for (const [field, [min, max]] of Object.entries(OPTION_RANGES) as Array<[keyof BacktestOptions, [number, number]]>) {
+    const value = body?.[field];
+    if (value === undefined || value === null) continue;
+    if (typeof value !== 'number' || !isFinite(value) || value < min || value > max) {
+      return { options: null, error: `${field} must be a number from ${min} to ${max}` };
+    }
+    if (field === 'warmupBars' && !Number.isInteger(value)) {
+      return { options: null, error: 'warmupBars must be a whole number' };
+    }
+    options[field] = value;
+  }
+
+  return { options, error: null };
+}
@@ -0,0 +1,76 @@
+/**
+ * Filesystem Cache Backend Tests
+ *
+ * Tests cover:
+ * - Round-tripping entries through JSON files
+ * - Expiry, corrupt files, delete and clear
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { FileCacheBackend } from './filesystem';
+import type { CacheEntry } from '@/types/cache';
+
+let dir: string;
+
+function entry(data: unknown): CacheEntry {
+  return { data, timestamp: Date.now(), ttl: 60, staleTtl: 60 };
+}
+
+beforeEach(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'ministock-cache-test-'));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('FileCacheBackend', () => {
+  test('stores entries as files and reads them back', async () => {
+    const backend = new FileCacheBackend(dir);
+    const stored = entry({ symbol: 'PTT.BK', prices: [1, 2, 3] });
+    await backend.set('yahoo:quote:PTT.BK', stored, 60);
+
+    expect(await backend.get('yahoo:quote:PTT.BK')).toEqual(stored);
+    expect(await backend.get('yahoo:quote:KBANK.BK')).toBeNull();
+    expect(await backend.size()).toBe(1);
+    expect(await new FileCacheBackend(dir).get('yahoo:quote:PTT.BK')).toEqual(stored);
+  });
+
+  test('drops expired entries on read', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+    const backend = new FileCacheBackend(dir);
+    await backend.set('a', entry(1), 10);
+
+    vi.setSystemTime(10_000);
+    expect(await backend.get('a')).toBeNull();
+    expect(await backend.size()).toBe(0);
+  });
+
+  test('treats a corrupt file as a miss', async () => {
+    const backend = new FileCacheBackend(dir);
+    await backend.set('a', entry(1), 60);
+    const [file] = await readdir(dir);
+    await writeFile(path.join(dir, file), '{"key":', 'utf8');
+
+    expect(await backend.get('a')).toBeNull();
+    expect(await backend.size()).toBe(0);
+  });
+
+  test('delete and clear, including a missing directory', async () => {
+    const backend = new FileCacheBackend(dir);
+    await backend.set('a', entry(1), 60);
+    await backend.set('b', entry(2), 60);
+    await backend.delete('a');
+    await backend.delete('a');
+    expect(await backend.size()).toBe(1);
+
+    await backend.clear();
+    expect(await backend.size()).toBe(0);
+    expect(await backend.get('b')).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Filesystem cache backend
+ *
+ * One JSON file per key (named by SHA-1 of the key) under a cache directory,
+ * so entries survive restarts of a long-running server and are shared by
+ * workers on the same machine. Data must be JSON-serializable.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { CacheBackend, CacheEntry } from '@/types/cache';
+
+interface CacheFile {
+  key: string;
+  entry: CacheEntry;
+  expiresAt: number; // ms
+}
+
+export const DEFAULT_CACHE_DIR = path.join(tmpdir(), 'ministock-cache');
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+export class FileCacheBackend implements CacheBackend {
+  readonly name = 'filesystem' as const;
+
+  constructor(private readonly dir: string = DEFAULT_CACHE_DIR) {}
+
+  private fileFor(key: string): string {
+    return path.join(this.dir, createHash('sha1').update(key).digest('hex') + '.json');
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const file = this.fileFor(key);
+    let stored: CacheFile;
+    try {
+      stored = JSON.parse(await readFile(file, 'utf8')) as CacheFile;
+    } catch (error) {
+      if (isMissing(error)) return null;
+      // A partial or corrupt file is a miss; drop it so it gets rewritten
+      if (error instanceof SyntaxError) {
+        await this.delete(key);
+        return null;
+      }
+      throw error;
+    }
+
+    if (stored.key !== key) return null;
+    if (Date.now() >= stored.expiresAt) {
+      await this.delete(key);
+      return null;
+    }
+    return stored.entry;
+  }
+
+  async set(key: string, entry: CacheEntry, expiresIn: number): Promise<void> {
+    const file = this.fileFor(key);
+    const stored: CacheFile = { key, entry, expiresAt: Date.now() + expiresIn * 1000 };
+
+    // Write then rename so readers never see a half-written file
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(temp, JSON.stringify(stored), 'utf8');
+    await rename(temp, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.fileFor(key));
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  async size(): Promise<number> {
+    try {
+      const files = await readdir(this.dir);
+      return files.filter((file) => file.endsWith('.json')).length;
+    } catch (error) {
+      if (isMissing(error)) return 0;
+      throw error;
+    }
+  }
+}
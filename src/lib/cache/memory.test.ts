@@ -0,0 +1,67 @@
+/**
+ * Memory Cache Backend Tests
+ *
+ * Tests cover:
+ * - Expiry on read
+ * - LRU eviction past the maximum size
+ */
+
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import { MemoryCacheBackend } from './memory';
+import type { CacheEntry } from '@/types/cache';
+
+function entry(data: unknown): CacheEntry {
+  return { data, timestamp: Date.now(), ttl: 60, staleTtl: 60 };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('MemoryCacheBackend', () => {
+  test('returns stored entries until they expire', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(0);
+    const backend = new MemoryCacheBackend();
+    await backend.set('a', entry(1), 10);
+
+    vi.setSystemTime(9_999);
+    expect((await backend.get('a'))?.data).toBe(1);
+    vi.setSystemTime(10_000);
+    expect(await backend.get('a')).toBeNull();
+    expect(await backend.size()).toBe(0);
+  });
+
+  test('evicts the least recently used entry past maxEntries', async () => {
+    const backend = new MemoryCacheBackend(2);
+    await backend.set('a', entry(1), 60);
+    await backend.set('b', entry(2), 60);
+    await backend.get('a'); // "b" is now least recently used
+    await backend.set('c', entry(3), 60);
+
+    expect(await backend.size()).toBe(2);
+    expect(await backend.get('b')).toBeNull();
+    expect((await backend.get('a'))?.data).toBe(1);
+    expect((await backend.get('c'))?.data).toBe(3);
+  });
+
+  test('overwriting a key does not evict another', async () => {
+    const backend = new MemoryCacheBackend(2);
+    await backend.set('a', entry(1), 60);
+    await backend.set('b', entry(2), 60);
+    await backend.set('a', entry(10), 60);
+
+    expect((await backend.get('a'))?.data).toBe(10);
+    expect((await backend.get('b'))?.data).toBe(2);
+  });
+
+  test('delete and clear', async () => {
+    const backend = new MemoryCacheBackend();
+    await backend.set('a', entry(1), 60);
+    await backend.set('b', entry(2), 60);
+    await backend.delete('a');
+    expect(await backend.get('a')).toBeNull();
+    await backend.clear();
+    expect(await backend.size()).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * In-memory cache backend
+ *
+ * LRU map bounded by entry count: reads move an entry to the back, writes past
+ * maxEntries evict from the front, and expired entries are dropped when read.
+ * Entries are held by reference (no serialization) and are lost on restart.
+ */
+
+import type { CacheBackend, CacheEntry } from '@/types/cache';
+
+interface StoredEntry {
+  entry: CacheEntry;
+  expiresAt: number; // ms
+}
+
+export const DEFAULT_MAX_ENTRIES = 1000;
+
+export class MemoryCacheBackend implements CacheBackend {
+  readonly name = 'memory' as const;
+  private entries: Map<string, StoredEntry> = new Map();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const stored = this.entries.get(key);
+    if (!stored) return null;
+
+    this.entries.delete(key);
+    if (Date.now() >= stored.expiresAt) return null;
+
+    // Re-insert so Map order stays least → most recently used
+    this.entries.set(key, stored);
+    return stored.entry;
+  }
+
+  async set(key: string, entry: CacheEntry, expiresIn: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry, expiresAt: Date.now() + expiresIn * 1000 });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async size(): Promise<number> {
+    return this.entries.size;
+  }
+}
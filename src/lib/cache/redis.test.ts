@@ -0,0 +1,54 @@
+/**
+ * Redis Protocol Tests
+ *
+ * Tests cover:
+ * - Encoding commands as RESP arrays
+ * - Parsing each reply type, including partial buffers
+ */
+
+import { describe, test, expect } from 'vitest';
+import { encodeCommand, parseReply } from './redis';
+
+function parse(raw: string) {
+  return parseReply(Buffer.from(raw));
+}
+
+describe('encodeCommand', () => {
+  test('encodes arguments as bulk strings with byte lengths', () => {
+    expect(encodeCommand(['GET', 'ministock:k'])).toBe('*2\r\n$3\r\nGET\r\n$11\r\nministock:k\r\n');
+    expect(encodeCommand(['SET', 'k', 'ปตท'])).toBe('*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$9\r\nปตท\r\n');
+  });
+});
+
+describe('parseReply', () => {
+  test('parses simple strings, integers and errors', () => {
+    expect(parse('+OK\r\n')).toEqual({ value: 'OK', offset: 5 });
+    expect(parse(':42\r\n')).toEqual({ value: 42, offset: 5 });
+    const error = parse('-ERR unknown command\r\n')?.value;
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe('ERR unknown command');
+  });
+
+  test('parses bulk strings by byte length, and nulls', () => {
+    expect(parse('$9\r\nปตท\r\n')).toEqual({ value: 'ปตท', offset: 15 });
+    expect(parse('$5\r\na\r\nbc\r\n')?.value).toBe('a\r\nbc');
+    expect(parse('$-1\r\n')).toEqual({ value: null, offset: 5 });
+  });
+
+  test('parses nested arrays such as SCAN replies', () => {
+    expect(parse('*2\r\n$1\r\n0\r\n*2\r\n$3\r\nk:a\r\n$3\r\nk:b\r\n')?.value).toEqual(['0', ['k:a', 'k:b']]);
+    expect(parse('*0\r\n')?.value).toEqual([]);
+  });
+
+  test('returns null until the reply is complete', () => {
+    expect(parse('+OK')).toBeNull();
+    expect(parse('$5\r\nab')).toBeNull();
+    expect(parse('*2\r\n$1\r\na\r\n')).toBeNull();
+  });
+
+  test('parses from an offset for pipelined replies', () => {
+    const buffer = Buffer.from('+OK\r\n:1\r\n');
+    const first = parseReply(buffer)!;
+    expect(parseReply(buffer, first.offset)).toEqual({ value: 1, offset: 9 });
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Redis cache backend
+ *
+ * Speaks the Redis protocol (RESP2) over a single lazily opened socket, so it
+ * works with Redis, Valkey, KeyDB and hosted services (Upstash, ElastiCache)
+ * without a client dependency. URL format: redis[s]://[:password@]host[:port][/db]
+ *
+ * Keys are namespaced with a prefix; entries are JSON and expire with PX.
+ */
+
+import net, { type Socket } from 'net';
+import tls from 'tls';
+import type { CacheBackend, CacheEntry } from '@/types/cache';
+
+// ============================================================================
+// PROTOCOL
+// ============================================================================
+
+export type RespValue = string | number | null | Error | RespValue[];
+
+const CRLF = '\r\n';
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: string[]): string {
+  return `*${args.length}${CRLF}` + args.map((arg) => `$${Buffer.byteLength(arg)}${CRLF}${arg}${CRLF}`).join('');
+}
+
+/**
+ * Parse one reply starting at offset. Returns null when the buffer doesn't
+ * hold a complete reply yet. Error replies are returned as Error values.
+ */
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected Redis reply type "${type}"`);
+  }
+}
+
+// ============================================================================
+// CONNECTION
+// ============================================================================
+
+const COMMAND_TIMEOUT_MS = 2000;
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Pipelined connection: replies arrive in command order, so each one settles
+ * the oldest pending command. Reconnects on the next command after a failure.
+ */
+class RedisConnection {
+  private socket: Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  constructor(private readonly url: URL) {}
+
+  command(args: string[]): Promise<RespValue> {
+    const socket = this.socket ?? this.connect();
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Socket {
+    const port = Number(this.url.port) || 6379;
+    const host = this.url.hostname;
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: host })
+      : net.connect({ host, port });
+
+    socket.unref(); // never keep the process alive for the cache
+    socket.setTimeout(COMMAND_TIMEOUT_MS, () => {
+      if (this.pending.length > 0) socket.destroy(new Error('Redis command timed out'));
+      else socket.end();
+    });
+    socket.on('data', (chunk: Buffer) => this.onData(chunk));
+    socket.on('error', (error) => this.failPending(error));
+    socket.on('close', () => {
+      if (this.socket === socket) this.socket = null;
+      this.failPending(new Error('Redis connection closed'));
+    });
+
+    this.socket = socket;
+    this.buffer = Buffer.alloc(0);
+
+    // Pipelined ahead of the first command; a failure surfaces on that command
+    const password = decodeURIComponent(this.url.password);
+    const username = decodeURIComponent(this.url.username);
+    if (password) this.handshake(username ? ['AUTH', username, password] : ['AUTH', password]);
+    const db = this.url.pathname.slice(1);
+    if (db) this.handshake(['SELECT', db]);
+
+    return socket;
+  }
+
+  private handshake(args: string[]): void {
+    this.command(args).catch(() => undefined);
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let reply = parseReply(this.buffer);
+    while (reply) {
+      const command = this.pending.shift();
+      if (command) {
+        if (reply.value instanceof Error) command.reject(reply.value);
+        else command.resolve(reply.value);
+      }
+      this.buffer = this.buffer.subarray(reply.offset);
+      reply = this.buffer.length > 0 ? parseReply(this.buffer) : null;
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) command.reject(error);
+  }
+}
+
+// ============================================================================
+// BACKEND
+// ============================================================================
+
+export const DEFAULT_KEY_PREFIX = 'ministock:';
+
+export class RedisCacheBackend implements CacheBackend {
+  readonly name = 'redis' as const;
+  private connection: RedisConnection;
+
+  constructor(url: string, private readonly prefix: string = DEFAULT_KEY_PREFIX) {
+    this.connection = new RedisConnection(new URL(url));
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const value = await this.connection.command(['GET', this.prefix + key]);
+    return typeof value === 'string' ? (JSON.parse(value) as CacheEntry) : null;
+  }
+
+  async set(key: string, entry: CacheEntry, expiresIn: number): Promise<void> {
+    const ms = Math.max(1, Math.round(expiresIn * 1000));
+    await this.connection.command(['SET', this.prefix + key, JSON.stringify(entry), 'PX', String(ms)]);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.connection.command(['DEL', this.prefix + key]);
+  }
+
+  /**
+   * Delete this app's keys only (SCAN by prefix), never FLUSHDB a shared server
+   */
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const reply = await this.connection.command(['SCAN', cursor, 'MATCH', this.prefix + '*', 'COUNT', '500']);
+      const [nextCursor, keys] = reply as [string, string[]];
+      if (keys.length > 0) await this.connection.command(['DEL', ...keys]);
+      cursor = nextCursor;
+    } while (cursor !== '0');
+  }
+
+  async size(): Promise<null> {
+    return null;
+  }
+}
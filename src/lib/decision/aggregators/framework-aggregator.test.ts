@@ -0,0 +1,125 @@
+/**
+ * Framework Aggregator Tests
+ *
+ * Phase 1.8: Aggregators test suite
+ *
+ * Tests cover:
+ * - Weighted average with the default weights
+ * - Re-normalization when frameworks are missing
+ * - Per-framework contribution breakdown
+ * - Weight overrides and parsing
+ * - Value / growth metric scoring
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  aggregateFrameworkScores,
+  DEFAULT_FRAMEWORK_WEIGHTS,
+  parseFrameworkWeights,
+  scoreGrowthMetrics,
+  scoreValueMetrics,
+} from './framework-aggregator';
+
+const SCORES = { canslim: 80, spea: 60, value: 40, growth: 70, quality: 90 };
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+describe('aggregateFrameworkScores', () => {
+  test('should weight all five frameworks with the defaults', () => {
+    // 80×0.30 + 60×0.30 + 40×0.15 + 70×0.10 + 90×0.15 = 68.5
+    expect(aggregateFrameworkScores(SCORES).overallScore).toBe(69);
+  });
+
+  test('should include value and quality in the score', () => {
+    const weak = aggregateFrameworkScores({ ...SCORES, value: 0, quality: 0 });
+    const strong = aggregateFrameworkScores({ ...SCORES, value: 100, quality: 100 });
+    expect(strong.overallScore - weak.overallScore).toBe(30);
+  });
+
+  test('should break the score down per framework', () => {
+    const { contributions } = aggregateFrameworkScores(SCORES);
+
+    expect(contributions.map((c) => c.framework)).toEqual(['canslim', 'spea', 'value', 'growth', 'quality']);
+    expect(contributions[0]).toEqual({
+      framework: 'canslim',
+      score: 80,
+      weight: 0.30,
+      effectiveWeight: 0.3,
+      contribution: 24,
+    });
+    const total = contributions.reduce((sum, c) => sum + c.contribution, 0);
+    expect(total).toBeCloseTo(68.5);
+  });
+
+  test('should re-normalize weights over available frameworks', () => {
+    const { overallScore, contributions } = aggregateFrameworkScores({ canslim: 80, spea: 60, value: null });
+
+    expect(overallScore).toBe(70);
+    expect(contributions.find((c) => c.framework === 'value')).toMatchObject({
+      score: null,
+      effectiveWeight: 0,
+      contribution: 0,
+    });
+    expect(contributions.find((c) => c.framework === 'canslim')?.effectiveWeight).toBe(0.5);
+  });
+
+  test('should return 0 when no framework is available', () => {
+    expect(aggregateFrameworkScores({}).overallScore).toBe(0);
+  });
+
+  test('should apply custom weights', () => {
+    const weights = { ...DEFAULT_FRAMEWORK_WEIGHTS, canslim: 1, spea: 0, value: 0, growth: 0, quality: 0 };
+    expect(aggregateFrameworkScores(SCORES, weights).overallScore).toBe(80);
+  });
+});
+
+// ============================================================================
+// WEIGHT PARSING
+// ============================================================================
+
+describe('parseFrameworkWeights', () => {
+  test('should return defaults without overrides', () => {
+    expect(parseFrameworkWeights(null)).toEqual(DEFAULT_FRAMEWORK_WEIGHTS);
+  });
+
+  test('should merge overrides onto the defaults', () => {
+    expect(parseFrameworkWeights('canslim:40, value:20')).toEqual({
+      ...DEFAULT_FRAMEWORK_WEIGHTS,
+      canslim: 40,
+      value: 20,
+    });
+  });
+
+  test.each(['pe:10', 'canslim', 'canslim:abc', 'canslim:-1', 'canslim:0,spea:0,value:0,growth:0,quality:0'])(
+    'should reject %s',
+    (raw) => {
+      expect(parseFrameworkWeights(raw)).toBeNull();
+    }
+  );
+});
+
+// ============================================================================
+// METRIC SCORES
+// ============================================================================
+
+describe('framework metric scores', () => {
+  test('should combine Piotroski and margin of safety for value', () => {
+    const base = { grahamNumber: 0, grahamNumberPrice: 0 };
+    expect(scoreValueMetrics({ ...base, piotroskiFScore: 9, marginOfSafety: 50, intrinsicValue: 150 })).toBe(100);
+    expect(scoreValueMetrics({ ...base, piotroskiFScore: 9, marginOfSafety: -50, intrinsicValue: 50 })).toBe(50);
+  });
+
+  test('should ignore margin of safety without an intrinsic value', () => {
+    expect(
+      scoreValueMetrics({ grahamNumber: 0, grahamNumberPrice: 0, piotroskiFScore: 6, marginOfSafety: 0, intrinsicValue: 0 })
+    ).toBe(67);
+  });
+
+  test('should combine consistency and CAGR for growth', () => {
+    const metrics = { revenueCagr3y: 10, revenueCagr5y: 0, epsCagr3y: 10, epsCagr5y: 0, roeTrend: 0, consistencyScore: 100 };
+    // CAGR 10% → 50 on the -10..30 range
+    expect(scoreGrowthMetrics(metrics)).toBe(75);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Framework Aggregator
+ *
+ * Phase 1.8: Aggregators - Combines the analysis framework scores into one overall score
+ *
+ * Frameworks and default weights:
+ * - CAN SLIM 30%, SPEA 30%, Value 15%, Growth 10%, Quality 15%
+ *
+ * Value and growth come back from lib/analysis as raw metrics, so they are
+ * first mapped onto 0-100 scores here (quality uses scoreQualityMetrics).
+ * Frameworks without a score are skipped and the remaining weights
+ * re-normalized, so the breakdown always explains how the overall score
+ * was reached.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type {
+  FrameworkContribution,
+  FrameworkKey,
+  FrameworkWeights,
+  GrowthMetrics,
+  ValueMetrics,
+} from '@/types/analysis';
+import { scaleToScore } from '../scorers/utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Default framework weights - must sum to 1.0
+ */
+export const DEFAULT_FRAMEWORK_WEIGHTS: FrameworkWeights = {
+  canslim: 0.30,
+  spea: 0.30,
+  value: 0.15,
+  growth: 0.10,
+  quality: 0.15,
+};
+
+export const FRAMEWORK_KEYS = Object.keys(DEFAULT_FRAMEWORK_WEIGHTS) as FrameworkKey[];
+
+/**
+ * Score ranges for mapping raw metrics onto 0-100
+ */
+const VALUE_RANGES = {
+  marginOfSafety: { low: -50, high: 50 }, // percent
+  piotroskiMax: 9,
+} as const;
+
+const GROWTH_RANGES = {
+  cagr: { low: -10, high: 30 }, // percent per year
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FrameworkScores = Partial<Record<FrameworkKey, number | null>>;
+
+export interface FrameworkAggregation {
+  overallScore: number;
+  contributions: FrameworkContribution[];
+}
+
+// ============================================================================
+// FRAMEWORK SCORES
+// ============================================================================
+
+/**
+ * Value score: Piotroski F-Score and DCF margin of safety, equally weighted.
+ * Margin of safety is ignored when no intrinsic value could be estimated.
+ */
+export function scoreValueMetrics(metrics: ValueMetrics): number {
+  const piotroski = (metrics.piotroskiFScore / VALUE_RANGES.piotroskiMax) * 100;
+  if (metrics.intrinsicValue <= 0) return Math.round(piotroski);
+
+  const { low, high } = VALUE_RANGES.marginOfSafety;
+  const safety = scaleToScore(metrics.marginOfSafety, low, high);
+  return Math.round((piotroski + safety) / 2);
+}
+
+/**
+ * Growth score: growth consistency and 3-year revenue / EPS CAGR, equally weighted.
+ */
+export function scoreGrowthMetrics(metrics: GrowthMetrics): number {
+  const { low, high } = GROWTH_RANGES.cagr;
+  const cagr = scaleToScore((metrics.revenueCagr3y + metrics.epsCagr3y) / 2, low, high);
+  return Math.round((metrics.consistencyScore + cagr) / 2);
+}
+
+// ============================================================================
+// WEIGHTS
+// ============================================================================
+
+/**
+ * Parse weight overrides such as "canslim:40,value:20" on top of the defaults.
+ * Weights are relative, so percentages and fractions both work.
+ *
+ * @returns merged weights, or null if the string is malformed
+ */
+export function parseFrameworkWeights(
+  raw: string | null | undefined,
+  defaults: FrameworkWeights = DEFAULT_FRAMEWORK_WEIGHTS
+): FrameworkWeights | null {
+  const weights = { ...defaults };
+  if (!raw) return weights;
+
+  for (const part of raw.split(',')) {
+    const [key, value] = part.split(':').map((s) => s.trim());
+    const weight = Number(value);
+    if (!FRAMEWORK_KEYS.includes(key as FrameworkKey) || !value || !isFinite(weight) || weight < 0) {
+      return null;
+    }
+    weights[key as FrameworkKey] = weight;
+  }
+
+  return FRAMEWORK_KEYS.some((key) => weights[key] > 0) ? weights : null;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Weighted average of the framework scores with a per-framework breakdown.
+ *
+ * @param scores - 0-100 score per framework; null or missing when unavailable
+ * @param weights - Relative weights (defaults to DEFAULT_FRAMEWORK_WEIGHTS)
+ * @returns Overall score (0 when nothing is available) and each framework's contribution
+ */
+export function aggregateFrameworkScores(
+  scores: FrameworkScores,
+  weights: FrameworkWeights = DEFAULT_FRAMEWORK_WEIGHTS
+): FrameworkAggregation {
+  const available = FRAMEWORK_KEYS.filter((key) => {
+    const score = scores[key];
+    return typeof score === 'number' && isFinite(score) && weights[key] > 0;
+  });
+  const totalWeight = available.reduce((sum, key) => sum + weights[key], 0);
+
+  const contributions: FrameworkContribution[] = FRAMEWORK_KEYS.map((framework) => {
+    const raw = scores[framework];
+    const score = typeof raw === 'number' && isFinite(raw) ? raw : null;
+    const effectiveWeight =
+      available.includes(framework) && totalWeight > 0 ? weights[framework] / totalWeight : 0;
+
+    return {
+      framework,
+      score,
+      weight: weights[framework],
+      effectiveWeight: Math.round(effectiveWeight * 1000) / 1000,
+      contribution: Math.round((score ?? 0) * effectiveWeight * 10) / 10,
+    };
+  });
+
+  const overallScore = available.reduce(
+    (sum, key) => sum + (scores[key] as number) * (weights[key] / totalWeight),
+    0
+  );
+
+  return {
+    overallScore: Math.round(overallScore),
+    contributions,
+  };
+}
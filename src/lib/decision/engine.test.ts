@@ -0,0 +1,176 @@
+/**
+ * Decision Engine Tests
+ *
+ * Phase 1: Foundation - End-to-end tests for analyzeDecision
+ *
+ * Tests cover:
+ * - Every DecisionSummary field is populated
+ * - Quarterly earnings feeding the CAN SLIM score
+ * - Overall rating for strong vs weak inputs
+ * - Confidence from data coverage
+ * - Action plan sanity (stop < entry < target)
+ */
+
+import { describe, test, expect } from 'vitest';
+import { analyzeDecision } from './engine';
+import type { DecisionInput } from '@/types/decision';
+import type { AnnualData, QuarterlyData } from '@/types/financials';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function buildHistory(days: number, start: number, dailyGrowth: number) {
+  const prices = [];
+  let close = start;
+  for (let i = 0; i < days; i++) {
+    close *= 1 + dailyGrowth + (i % 2 === 0 ? 0.004 : -0.004);
+    prices.push({ date: `day-${i}`, close, volume: 1_000_000 });
+  }
+  return prices;
+}
+
+function buildAnnual(growth: number): AnnualData[] {
+  return [0, 1, 2, 3, 4, 5].map((i) => {
+    const factor = Math.pow(1 + growth, 5 - i);
+    return {
+      fiscalYear: 2024 - i,
+      eps: 2 * factor,
+      revenue: 1000 * factor,
+      netIncome: 150 * factor,
+      totalAssets: 2000,
+      totalDebt: 200,
+      totalLiabilities: 600,
+      equity: 1400,
+    };
+  });
+}
+
+function strongInput(): DecisionInput {
+  const prices = buildHistory(260, 60, 0.002);
+  const price = prices[prices.length - 1].close;
+  return {
+    quote: { price, volume: 1_200_000 },
+    fundamentals: {
+      roe: 24,
+      profitMargin: 20,
+      freeCashFlow: 180,
+      netIncome: 150,
+      grossMargin: 50,
+      operatingMargin: 28,
+      peRatio: 14,
+      pbRatio: 2,
+      peHistoricalAvg: 20,
+      pbHistoricalAvg: 3,
+      intrinsicValue: price * 1.4,
+      deRatio: 0.3,
+      interestCoverage: 15,
+      marketCap: 5e9,
+    },
+    financials: { annual: buildAnnual(0.18) },
+    history: { prices },
+    market: { indexTrend: 'bullish' },
+  };
+}
+
+// ============================================================================
+// STRUCTURE
+// ============================================================================
+
+describe('summary structure', () => {
+  test('should populate every section of the summary', () => {
+    const summary = analyzeDecision('TEST', strongInput());
+
+    expect(summary.symbol).toBe('TEST');
+    expect(summary.timestamp).toBeGreaterThan(0);
+    for (const key of ['quality', 'growth', 'valuation', 'timing', 'risk', 'plan', 'overall', 'frameworkScores'] as const) {
+      expect(summary[key]).toBeDefined();
+    }
+    expect(summary.overall.summary.length).toBeGreaterThan(0);
+    expect(summary.frameworkScores.value).toBe(summary.valuation.score);
+    expect(summary.frameworkScores.growth).toBe(summary.growth.score);
+    expect(summary.frameworkScores.quality).toBe(summary.quality.score);
+  });
+
+  test('should handle completely empty input', () => {
+    const summary = analyzeDecision('EMPTY', {});
+
+    expect(summary.overall.confidence).toBe('low');
+    expect(summary.plan.stopLoss).toBe(0);
+    expect(summary.frameworkScores.canslim).toBe(0);
+    expect(summary.overall.score).toBeGreaterThanOrEqual(0);
+    expect(summary.overall.score).toBeLessThanOrEqual(100);
+  });
+
+  test('should score CAN SLIM current earnings from quarterly figures', () => {
+    // Latest quarter EPS up 40% on the same quarter a year earlier
+    const quarterly: QuarterlyData[] = [
+      { fiscalYear: 2024, fiscalQuarter: 2, earningsDate: '2024-06-30', eps: 0.7, revenue: 300, margin: 15 },
+      { fiscalYear: 2024, fiscalQuarter: 1, earningsDate: '2024-03-31', eps: 0.6, revenue: 280, margin: 15 },
+      { fiscalYear: 2023, fiscalQuarter: 2, earningsDate: '2023-06-30', eps: 0.5, revenue: 250, margin: 14 },
+    ];
+    const input = strongInput();
+    const withQuarterly = analyzeDecision('TEST', { ...input, financials: { ...input.financials, quarterly } });
+    const without = analyzeDecision('TEST', input);
+
+    // "C" carries 15% of CAN SLIM: 0 without quarters, 100 at 25%+ growth
+    expect(withQuarterly.frameworkScores.canslim - without.frameworkScores.canslim).toBe(15);
+  });
+});
+
+// ============================================================================
+// VERDICT
+// ============================================================================
+
+describe('overall verdict', () => {
+  test('should rate a strong, cheap, trending stock as Buy or better', () => {
+    const summary = analyzeDecision('STRONG', strongInput());
+
+    expect(['Buy', 'Strong Buy']).toContain(summary.overall.rating);
+    expect(summary.overall.confidence).toBe('high');
+    expect(summary.plan.rating).toBe(summary.overall.rating);
+  });
+
+  test('should rate a weak, expensive, falling stock as Sell or worse', () => {
+    const prices = buildHistory(260, 100, -0.003);
+    const price = prices[prices.length - 1].close;
+    const summary = analyzeDecision('WEAK', {
+      quote: { price },
+      fundamentals: {
+        roe: -8,
+        profitMargin: -5,
+        fcfConversion: -0.5,
+        altmanZScore: 1.1,
+        peRatio: 60,
+        pbRatio: 5,
+        intrinsicValue: price * 0.5,
+        deRatio: 3,
+        interestCoverage: 1.1,
+      },
+      financials: { annual: buildAnnual(-0.1) },
+      history: { prices },
+      market: { indexTrend: 'bearish' },
+    });
+
+    expect(['Sell', 'Strong Sell']).toContain(summary.overall.rating);
+    expect(summary.plan.positionSizing.optimalPercent).toBe(0);
+  });
+});
+
+// ============================================================================
+// ACTION PLAN
+// ============================================================================
+
+describe('action plan', () => {
+  test('should order stop, entry and target sensibly', () => {
+    const { plan } = analyzeDecision('PLAN', strongInput());
+
+    expect(plan.stopLoss).toBeLessThan(plan.entryZone.min);
+    expect(plan.entryZone.min).toBeLessThanOrEqual(plan.entryZone.optimal);
+    expect(plan.entryZone.optimal).toBeLessThanOrEqual(plan.entryZone.max);
+    expect(plan.targetPrice.base).toBeGreaterThan(plan.entryZone.optimal);
+    expect(plan.targetPrice.bullish).toBeGreaterThan(plan.targetPrice.base);
+    expect(plan.targetPrice.bearish).toBeLessThan(plan.entryZone.optimal);
+    expect(plan.invalidationTriggers.length).toBeGreaterThan(0);
+  });
+});
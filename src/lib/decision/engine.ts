@@ -0,0 +1,207 @@
+/**
+ * Decision Engine - Core
+ *
+ * Phase 1: Foundation - Combines the scorer answers into a DecisionSummary
+ *
+ * Pipeline:
+ * 1. Score the five questions (quality, growth, valuation, timing, risk)
+ * 2. Aggregate into an overall score, action rating and confidence (rules/action-rating)
+ * 3. Build the action plan (rules/action-plan, rules/position-sizing)
+ * 4. Attach framework scores (CAN SLIM, SPEA, value, growth, quality)
+ *
+ * All functions are pure and deterministic (apart from the timestamp).
+ */
+
+import type {
+  ActionRating,
+  DecisionAnswers,
+  DecisionInput,
+  DecisionSummary,
+} from '@/types/decision';
+import { calculateCanslimScore } from '@/lib/analysis/canslim';
+import { calculateSpeaScore } from '@/lib/analysis/spea';
+import { analyzePatterns } from '@/lib/technical/patterns';
+import { computeQualityAnswer } from './scorers/quality';
+import { computeGrowthAnswer } from './scorers/growth';
+import { computeValuationAnswer } from './scorers/valuation';
+import { computeTimingAnswer } from './scorers/timing';
+import { computeRiskAnswer } from './scorers/risk';
+import { extractBars, extractCloses, extractMetric, toFinancialMetrics } from './scorers/utils';
+import { calculateActionRating, calculateOverallScore } from './rules/action-rating';
+import { buildActionPlan } from './rules/action-plan';
+
+// ============================================================================
+// OVERALL VERDICT
+// ============================================================================
+
+/**
+ * Confidence reflects how much of the input was actually available.
+ */
+function calculateConfidence(input: DecisionInput): DecisionSummary['overall']['confidence'] {
+  const hasPrice = typeof input.quote?.price === 'number' && input.quote.price > 0;
+  const numericFundamentals = Object.values(input.fundamentals ?? {}).filter(
+    (v) => typeof v === 'number' && isFinite(v)
+  ).length;
+  const hasFundamentals = numericFundamentals >= 3;
+  const hasAnnual = (input.financials?.annual?.length ?? 0) >= 3;
+  const hasHistory = extractCloses(input).length >= 200;
+
+  const available = [hasPrice, hasFundamentals, hasAnnual, hasHistory].filter(Boolean).length;
+  if (available === 4) return 'high';
+  if (available >= 2) return 'medium';
+  return 'low';
+}
+
+function generateOverallSummary(
+  rating: ActionRating,
+  score: number,
+  answers: DecisionAnswers
+): string {
+  const strengths: string[] = [];
+  const concerns: string[] = [];
+
+  if (answers.quality.score >= 65) strengths.push('quality business');
+  else if (answers.quality.score < 35) concerns.push('weak fundamentals');
+  if (answers.growth.score >= 65) strengths.push('solid growth');
+  else if (answers.growth.score < 35) concerns.push('poor growth');
+  if (answers.valuation.status === 'Undervalued') strengths.push('attractive valuation');
+  else if (answers.valuation.status === 'Overvalued') concerns.push('rich valuation');
+  if (answers.timing.regime === 'bullish') strengths.push('supportive trend');
+  else if (answers.timing.regime === 'bearish') concerns.push('bearish trend');
+  if (answers.risk.level === 'High' || answers.risk.level === 'Very High') {
+    concerns.push(`${answers.risk.level.toLowerCase()} risk`);
+  }
+
+  const thesis = strengths.length > 0 ? `Backed by ${strengths.join(', ')}` : 'No standout strengths';
+  const caveat = concerns.length > 0 ? `; watch ${concerns.join(', ')}.` : '.';
+  return `${rating} (${score}/100). ${thesis}${caveat}`;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function extractCurrentPrice(input: DecisionInput): number | null {
+  const price = input.quote?.price;
+  if (typeof price === 'number' && price > 0) return price;
+  const closes = extractCloses(input);
+  return closes.length > 0 ? closes[closes.length - 1] : null;
+}
+
+// ============================================================================
+// FRAMEWORK SCORES
+// ============================================================================
+
+/**
+ * CAN SLIM and SPEA scores from the existing lib/analysis calculators.
+ * Explicit canslimScore / speaScore fundamentals take precedence.
+ */
+function calculateFrameworkScores(
+  input: DecisionInput,
+  answers: DecisionAnswers
+): DecisionSummary['frameworkScores'] {
+  const price = extractCurrentPrice(input);
+  const financialMetrics = toFinancialMetrics(input);
+  const annualData = input.financials?.annual ?? [];
+  const quarterlyData = input.financials?.quarterly ?? [];
+  const closes = extractCloses(input).slice(-252);
+
+  let canslim = extractMetric(input.fundamentals, ['canslimScore']);
+  let spea = extractMetric(input.fundamentals, ['speaScore']);
+
+  if (canslim === null) {
+    canslim =
+      price !== null
+        ? calculateCanslimScore({
+            symbol: '',
+            currentPrice: price,
+            fiftyTwoWeekHigh: closes.length > 0 ? Math.max(...closes, price) : price,
+            fiftyTwoWeekLow: closes.length > 0 ? Math.min(...closes, price) : price,
+            marketCap: financialMetrics.marketCap ?? 0,
+            volume: input.quote?.volume ?? 0,
+            avgVolume: extractMetric(input.fundamentals, ['avgVolume']) ?? input.quote?.volume ?? 0,
+            quarterlyEarnings: quarterlyData,
+            annualEarnings: annualData,
+            financialMetrics,
+            industry: input.market?.industry ?? '',
+            sector: input.market?.sector ?? '',
+            hasRecentNews: false,
+            marketTrend:
+              answers.timing.regime === 'bullish'
+                ? 'bull'
+                : answers.timing.regime === 'bearish'
+                  ? 'bear'
+                  : 'neutral',
+            basePattern: analyzePatterns(extractBars(input)).current,
+            rsRating: extractMetric(input.fundamentals, ['rsRating']),
+          }).totalScore
+        : 0;
+  }
+
+  if (spea === null) {
+    spea =
+      price !== null
+        ? calculateSpeaScore({
+            financialMetrics,
+            annualData,
+            industry: input.market?.industry ?? '',
+            sector: input.market?.sector ?? '',
+            currentPrice: price,
+          }).totalScore
+        : 0;
+  }
+
+  return {
+    canslim: Math.round(canslim),
+    spea: Math.round(spea),
+    value: answers.valuation.score,
+    growth: answers.growth.score,
+    quality: answers.quality.score,
+  };
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Run the full decision pipeline for one stock.
+ *
+ * @param symbol - Stock symbol (e.g. "PTT.BK", "AAPL")
+ * @param input - Quote, fundamentals, financials, history and market context
+ * @returns DecisionSummary answering all six questions
+ *
+ * @example
+ * ```ts
+ * const summary = analyzeDecision('AAPL', {
+ *   quote: { price: 190 },
+ *   fundamentals: { roe: 150, profitMargin: 25, peRatio: 30 },
+ * });
+ * ```
+ */
+export function analyzeDecision(symbol: string, input: DecisionInput): DecisionSummary {
+  const answers: DecisionAnswers = {
+    quality: computeQualityAnswer(input),
+    growth: computeGrowthAnswer(input),
+    valuation: computeValuationAnswer(input),
+    timing: computeTimingAnswer(input),
+    risk: computeRiskAnswer(input),
+  };
+
+  const score = calculateOverallScore(answers);
+  const rating = calculateActionRating(score, answers);
+
+  return {
+    symbol,
+    timestamp: Date.now(),
+    ...answers,
+    plan: buildActionPlan(input, rating, answers),
+    overall: {
+      score,
+      rating,
+      confidence: calculateConfidence(input),
+      summary: generateOverallSummary(rating, score, answers),
+    },
+    frameworkScores: calculateFrameworkScores(input, answers),
+  };
+}
@@ -20,21 +20,30 @@ export type {
   ActionPlan,
   RiskFactor,
   EvidenceLinks,
+  DecisionAnswers,
+  DecisionDataSource,
+  DecisionResponse,
 } from '@/types/decision';
 
 // Core engine
 export { analyzeDecision } from './engine';
+export { buildDecisionInput, buildEvidenceLinks } from './input-builder';
 
 // Scorers
 export { computeQualityAnswer } from './scorers/quality';
 export { computeGrowthAnswer } from './scorers/growth';
 export { computeValuationAnswer } from './scorers/valuation';
-// export { calculateTimingScore } from './scorers/timing';
-// export { calculateRiskScore } from './scorers/risk';
+export { computeTimingAnswer } from './scorers/timing';
+export { computeRiskAnswer } from './scorers/risk';
 
-// Rules (to be implemented in Phase 1.7)
-// export { calculateActionRating } from './rules/action-rating';
-// export { calculatePositionSizing } from './rules/position-sizing';
+// Rules
+export { calculateActionRating, calculateOverallScore } from './rules/action-rating';
+export { calculatePositionSizing } from './rules/position-sizing';
+export { buildActionPlan } from './rules/action-plan';
 
-// Aggregators (to be implemented in Phase 1.8)
-// export { aggregateFrameworkScores } from './aggregators/framework-aggregator';
+// Aggregators
+export {
+  aggregateFrameworkScores,
+  parseFrameworkWeights,
+  DEFAULT_FRAMEWORK_WEIGHTS,
+} from './aggregators/framework-aggregator';
@@ -0,0 +1,232 @@
+/**
+ * Decision Input Builder Tests
+ *
+ * Tests cover:
+ * - Unit conversion from provider metrics
+ * - Statement → AnnualData mapping
+ * - Partial sources and the resulting data source flags / confidence
+ * - SETTRADE market regime attachment
+ * - Evidence links
+ */
+
+import { describe, test, expect } from 'vitest';
+import { buildDecisionInput, buildEvidenceLinks, normalizeFundamentals } from './input-builder';
+import { analyzeDecision } from './engine';
+import type { FinancialMetrics } from '@/types/financials';
+import type { Quote } from '@/types/market';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const METRICS: FinancialMetrics = {
+  revenue: 1000,
+  revenueGrowth: 0.12,
+  netIncome: 150,
+  profitMargin: 0.15,
+  grossMargin: 0.4,
+  operatingMargin: 0.2,
+  peRatio: 14,
+  pbRatio: 2,
+  roe: 0.18,
+  deRatio: 45,
+  interestCoverage: 12,
+  eps: 3,
+  epsGrowth: 0.1,
+  freeCashFlow: 160,
+  dividendYield: 0.03,
+  marketCap: 2100,
+};
+
+const QUOTE: Quote = {
+  symbol: 'PTT.BK',
+  name: 'PTT',
+  price: 42,
+  change: 0.5,
+  changePercent: 1.2,
+  high: 43,
+  low: 41,
+  open: 41.5,
+  previousClose: 41.5,
+  volume: 1_000_000,
+  avgVolume: 900_000,
+  marketCap: 2100,
+  timestamp: 0,
+};
+
+const STATEMENTS = {
+  incomeStatement: [2024, 2023, 2022].map((fiscalYear, i) => ({
+    fiscalDate: `${fiscalYear}-12-31`,
+    fiscalYear,
+    fiscalPeriod: 'FY',
+    revenue: 1000 - i * 100,
+    costOfRevenue: 0,
+    grossProfit: 0,
+    operatingExpenses: 0,
+    operatingIncome: 0,
+    netIncome: 150 - i * 10,
+    eps: 3 - i * 0.2,
+    epsDiluted: 0,
+  })),
+  balanceSheet: [2024, 2023].map((fiscalYear) => ({
+    fiscalDate: `${fiscalYear}-12-31`,
+    fiscalYear,
+    fiscalPeriod: 'FY',
+    totalAssets: 2000,
+    totalCurrentAssets: 0,
+    totalLiabilities: 600,
+    totalCurrentLiabilities: 0,
+    totalDebt: 200,
+    totalEquity: 1400,
+    cashAndEquivalents: 0,
+    inventory: 0,
+  })),
+  cashFlow: [],
+};
+
+function buildHistory(days: number) {
+  return Array.from({ length: days }, (_, i) => ({
+    date: `day-${i}`,
+    open: 40,
+    high: 41 + i * 0.01,
+    low: 39,
+    close: 40 + i * 0.01,
+    volume: null,
+  }));
+}
+
+// ============================================================================
+// UNIT CONVERSION
+// ============================================================================
+
+describe('normalizeFundamentals', () => {
+  test('should convert decimal ratios to percent', () => {
+    const result = normalizeFundamentals(METRICS, 'fmp');
+    expect(result.roe).toBeCloseTo(18);
+    expect(result.profitMargin).toBeCloseTo(15);
+    expect(result.revenueGrowth).toBeCloseTo(12);
+    expect(result.dividendYield).toBeCloseTo(3);
+    expect(result.peRatio).toBe(14);
+  });
+
+  test('should convert Yahoo debt-to-equity from percent to a multiple', () => {
+    expect(normalizeFundamentals(METRICS, 'yahoo').deRatio).toBeCloseTo(0.45);
+    expect(normalizeFundamentals(METRICS, 'fmp').deRatio).toBe(45);
+  });
+
+  test('should keep nulls as nulls', () => {
+    const result = normalizeFundamentals({ ...METRICS, roe: null, deRatio: null }, 'yahoo');
+    expect(result.roe).toBeNull();
+    expect(result.deRatio).toBeNull();
+  });
+});
+
+// ============================================================================
+// ASSEMBLY
+// ============================================================================
+
+describe('buildDecisionInput', () => {
+  test('should assemble every section when all sources are available', () => {
+    const { input, dataSources } = buildDecisionInput({
+      provider: 'yahoo',
+      quote: QUOTE,
+      metrics: METRICS,
+      profile: { sector: 'Energy', industry: 'Oil & Gas' },
+      statements: STATEMENTS,
+      history: buildHistory(250),
+      sectors: {
+        date: '2024-01-01',
+        capturedAt: '',
+        sectors: [
+          { id: 'ENERG', name: 'Energy', last: 0, chg: 0, chgPct: 1.5, volK: 0, valMn: 100 },
+          { id: 'BANK', name: 'Banking', last: 0, chg: 0, chgPct: 1.2, volK: 0, valMn: 100 },
+        ],
+      },
+      investors: {
+        date: '2024-01-01',
+        capturedAt: '',
+        investors: [{ id: 'FOREIGN', name: 'Foreign', buyValue: 0, sellValue: 0, netValue: 500, buyPct: 0, sellPct: 0 }],
+      },
+    });
+
+    expect(dataSources).toEqual({
+      quote: true,
+      fundamentals: true,
+      financials: true,
+      history: true,
+      market: true,
+    });
+    expect(input.quote?.price).toBe(42);
+    expect(input.fundamentals?.avgVolume).toBe(900_000);
+    expect(input.financials?.annual).toHaveLength(3);
+    expect(input.financials?.annual?.[2].totalAssets).toBe(0);
+    expect(input.history?.prices?.[0].volume).toBeUndefined();
+    expect(input.market?.regime?.regime).toBe('STRONG BULL');
+    expect(input.market?.sector).toBe('Energy');
+  });
+
+  test('should add a DCF intrinsic value when computable', () => {
+    const { input } = buildDecisionInput({
+      provider: 'yahoo',
+      quote: QUOTE,
+      metrics: METRICS,
+      statements: STATEMENTS,
+    });
+    expect(input.fundamentals?.intrinsicValue).toBeGreaterThan(0);
+  });
+
+  test('should carry the RS rating with the fundamentals', () => {
+    const { input } = buildDecisionInput({ provider: 'yahoo', quote: QUOTE, metrics: METRICS, rsRating: 88 });
+    expect(input.fundamentals?.rsRating).toBe(88);
+    expect(buildDecisionInput({ provider: 'yahoo', metrics: METRICS }).input.fundamentals).not.toHaveProperty('rsRating');
+  });
+
+  test('should carry quarterly earnings with the financials', () => {
+    const quarterly = [{ fiscalYear: 2024, fiscalQuarter: 2, earningsDate: '2024-06-30', eps: 1.1, revenue: 500, margin: 12 }];
+    const { input } = buildDecisionInput({ provider: 'yahoo', statements: STATEMENTS, quarterly });
+    expect(input.financials?.quarterly).toEqual(quarterly);
+    expect(input.financials?.annual).toHaveLength(3);
+    expect(buildDecisionInput({ provider: 'yahoo', quarterly: [] }).input.financials).toBeUndefined();
+  });
+
+  test('should treat all-null metrics as missing fundamentals', () => {
+    const empty = Object.fromEntries(Object.keys(METRICS).map((k) => [k, null])) as unknown as FinancialMetrics;
+    const { input, dataSources } = buildDecisionInput({ provider: 'yahoo', metrics: empty });
+
+    expect(dataSources.fundamentals).toBe(false);
+    expect(input.fundamentals).toBeUndefined();
+  });
+
+  test('should skip the regime without SETTRADE sector data', () => {
+    const { input, dataSources } = buildDecisionInput({ provider: 'yahoo', quote: QUOTE, sectors: null });
+    expect(dataSources.market).toBe(false);
+    expect(input.market?.regime).toBeUndefined();
+  });
+
+  test('should lower confidence instead of failing when sources are missing', () => {
+    const full = buildDecisionInput({
+      provider: 'yahoo',
+      quote: QUOTE,
+      metrics: METRICS,
+      statements: STATEMENTS,
+      history: buildHistory(250),
+    });
+    const partial = buildDecisionInput({ provider: 'yahoo', quote: QUOTE, history: buildHistory(250) });
+    const none = buildDecisionInput({ provider: 'yahoo' });
+
+    expect(analyzeDecision('PTT.BK', full.input).overall.confidence).toBe('high');
+    expect(analyzeDecision('PTT.BK', partial.input).overall.confidence).toBe('medium');
+    expect(analyzeDecision('PTT.BK', none.input).overall.confidence).toBe('low');
+  });
+});
+
+describe('buildEvidenceLinks', () => {
+  test('should link to stock page sections', () => {
+    expect(buildEvidenceLinks('PTT.BK')).toEqual({
+      financials: '/stocks/PTT.BK#financials',
+      technical: '/stocks/PTT.BK#technical',
+      peers: '/stocks/PTT.BK#peers',
+      frameworks: '/stocks/PTT.BK#frameworks',
+    });
+  });
+});
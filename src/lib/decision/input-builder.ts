@@ -0,0 +1,225 @@
+/**
+ * Decision Input Builder
+ *
+ * Phase 2: Data source integration - Assembles DecisionInput from API data
+ *
+ * Every source is optional: a missing or failed source simply leaves its
+ * part of the input empty, which lowers the engine's confidence.
+ *
+ * Unit conversion (decision scorers use percent units and D/E as a multiple):
+ * - roe, margins, growth and dividend yield arrive as decimals → × 100
+ * - Yahoo reports debtToEquity as a percent (45 = 0.45x) → ÷ 100
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { DecisionDataSource, DecisionInput, EvidenceLinks } from '@/types/decision';
+import type {
+  AnnualData,
+  BalanceSheet,
+  CashFlowStatement,
+  FinancialMetrics,
+  IncomeStatement,
+  QuarterlyData,
+} from '@/types/financials';
+import type { Quote } from '@/types/market';
+import type { IndustrySectorResponse, InvestorTypeResponse } from '@/types/settrade';
+import type { ApiProvider } from '@/lib/api/stock-api';
+import { calculateDCFIntrinsicValue } from '@/lib/analysis/spea';
+import { calculateMarketRegime } from '@/lib/analysis/market-regime';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DecisionSources {
+  provider: ApiProvider;
+  quote?: Quote | null;
+  metrics?: FinancialMetrics | null;
+  profile?: { sector: string; industry: string } | null;
+  statements?: {
+    incomeStatement: IncomeStatement[];
+    balanceSheet: BalanceSheet[];
+    cashFlow: CashFlowStatement[];
+  } | null;
+  quarterly?: QuarterlyData[] | null; // quarterly earnings, newest first (lib/api/statements)
+  history?: Array<{
+    date: string;
+    open: number | null;
+    high: number | null;
+    low: number | null;
+    close: number;
+    volume: number | null;
+  }> | null;
+  sectors?: IndustrySectorResponse | null;
+  investors?: InvestorTypeResponse | null;
+  rsRating?: number | null; // stored RS rating (lib/firebase/relative-strength)
+}
+
+/**
+ * FinancialMetrics fields reported as decimals by every provider
+ */
+const DECIMAL_RATIO_FIELDS = [
+  'roe',
+  'profitMargin',
+  'grossMargin',
+  'operatingMargin',
+  'revenueGrowth',
+  'epsGrowth',
+  'dividendYield',
+] as const;
+
+// ============================================================================
+// CONVERSION
+// ============================================================================
+
+/**
+ * Convert annual statements (newest first) to AnnualData rows.
+ */
+export function statementsToAnnualData(
+  statements: DecisionSources['statements']
+): AnnualData[] {
+  if (!statements) return [];
+
+  return statements.incomeStatement.map((income, i) => {
+    const balance = statements.balanceSheet[i];
+    return {
+      fiscalYear: income.fiscalYear,
+      eps: income.eps || 0,
+      revenue: income.revenue || 0,
+      netIncome: income.netIncome || 0,
+      totalAssets: balance?.totalAssets || 0,
+      totalDebt: balance?.totalDebt || 0,
+      totalLiabilities: balance?.totalLiabilities || 0,
+      equity: balance?.totalEquity || 0,
+    };
+  });
+}
+
+/**
+ * Convert provider metrics into the percent / multiple units used by the scorers.
+ */
+export function normalizeFundamentals(
+  metrics: FinancialMetrics,
+  provider: ApiProvider
+): Record<string, number | null> {
+  const fundamentals: Record<string, number | null> = {};
+  for (const [field, value] of Object.entries(metrics)) {
+    if (typeof value === 'number' || value === null) fundamentals[field] = value;
+  }
+
+  for (const field of DECIMAL_RATIO_FIELDS) {
+    const value = metrics[field];
+    fundamentals[field] = value !== null ? value * 100 : null;
+  }
+
+  if (provider === 'yahoo' && metrics.deRatio !== null) {
+    fundamentals.deRatio = metrics.deRatio / 100;
+  }
+
+  return fundamentals;
+}
+
+function hasNumericMetric(metrics: FinancialMetrics | null | undefined): metrics is FinancialMetrics {
+  return !!metrics && Object.values(metrics).some((v) => typeof v === 'number' && isFinite(v));
+}
+
+// ============================================================================
+// MAIN FUNCTIONS
+// ============================================================================
+
+/**
+ * Assemble DecisionInput from whichever sources returned data.
+ *
+ * @param sources - Raw API / SETTRADE data; null or undefined when unavailable
+ * @returns DecisionInput plus a record of which sources were usable
+ */
+export function buildDecisionInput(sources: DecisionSources): {
+  input: DecisionInput;
+  dataSources: Record<DecisionDataSource, boolean>;
+} {
+  const { quote, metrics, profile, history, sectors, investors } = sources;
+  const annual = statementsToAnnualData(sources.statements);
+  const input: DecisionInput = {};
+
+  const hasQuote = !!quote && typeof quote.price === 'number' && quote.price > 0;
+  if (hasQuote) {
+    input.quote = {
+      price: quote.price,
+      volume: quote.volume,
+      marketCap: quote.marketCap,
+      dayChange: quote.change,
+      dayChangePercent: quote.changePercent,
+    };
+  }
+
+  const hasFundamentals = hasNumericMetric(metrics);
+  if (hasFundamentals) {
+    const fundamentals: Record<string, number | null> = normalizeFundamentals(metrics, metrics.provider ?? sources.provider);
+    if (hasQuote && quote.avgVolume > 0) fundamentals.avgVolume = quote.avgVolume;
+    if (typeof sources.rsRating === 'number') fundamentals.rsRating = sources.rsRating;
+
+    const intrinsicValue = calculateDCFIntrinsicValue({
+      financialMetrics: metrics,
+      annualData: annual,
+      industry: profile?.industry ?? '',
+      sector: profile?.sector ?? '',
+      currentPrice: quote?.price ?? 0,
+    });
+    if (intrinsicValue > 0) fundamentals.intrinsicValue = intrinsicValue;
+
+    input.fundamentals = fundamentals;
+  }
+
+  if (annual.length > 0) {
+    input.financials = { annual };
+  }
+  if (sources.quarterly && sources.quarterly.length > 0) {
+    input.financials = { ...input.financials, quarterly: sources.quarterly };
+  }
+
+  const hasHistory = !!history && history.length > 0;
+  if (hasHistory) {
+    input.history = {
+      prices: history.map((p) => ({
+        date: p.date,
+        open: p.open ?? undefined,
+        high: p.high ?? undefined,
+        low: p.low ?? undefined,
+        close: p.close,
+        volume: p.volume ?? undefined,
+      })),
+    };
+  }
+
+  const hasMarket = !!sectors && sectors.sectors.length > 0;
+  input.market = {
+    sector: profile?.sector || undefined,
+    industry: profile?.industry || undefined,
+    regime: hasMarket ? calculateMarketRegime(sectors.sectors, investors?.investors ?? []) : undefined,
+  };
+
+  return {
+    input,
+    dataSources: {
+      quote: hasQuote,
+      fundamentals: hasFundamentals,
+      financials: annual.length > 0,
+      history: hasHistory,
+      market: hasMarket,
+    },
+  };
+}
+
+/**
+ * Drill-down links to the evidence cards on the stock page.
+ */
+export function buildEvidenceLinks(symbol: string): EvidenceLinks {
+  const base = `/stocks/${encodeURIComponent(symbol)}`;
+  return {
+    financials: `${base}#financials`,
+    technical: `${base}#technical`,
+    peers: `${base}#peers`,
+    frameworks: `${base}#frameworks`,
+  };
+}
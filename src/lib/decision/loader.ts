@@ -0,0 +1,72 @@
+/**
+ * Decision Loader
+ *
+ * Fetches every data source the decision engine uses for one symbol and runs
+ * the engine. Shared by the decision API route and watchlist scoring.
+ *
+ * Data sources are fetched independently: a failed source is logged and
+ * left out of the input, lowering confidence instead of failing the request.
+ * SETTRADE market regime is only used for SET-listed (.BK) symbols.
+ */
+
+import { getQuote } from '@/lib/api/quotes';
+import { getCompanyMetrics, getCompanyProfile } from '@/lib/api/fundamentals';
+import { getFinancialStatements, getQuarterlyEarnings } from '@/lib/api/statements';
+import { getHistoricalPrices } from '@/lib/api/historical';
+import { getApiProvider } from '@/lib/api/stock-api';
+import { getLatestIndustrySector, getLatestInvestorType } from '@/lib/firebase/settrade';
+import { getRelativeStrength } from '@/lib/firebase/relative-strength';
+import { isThaiSymbol } from '@/lib/symbols/symbols';
+import { analyzeDecision } from './engine';
+import { buildDecisionInput, buildEvidenceLinks } from './input-builder';
+import type { DecisionResponse } from '@/types/decision';
+
+/**
+ * Unwrap a settled promise, logging and returning null on failure
+ */
+function settledValue<T>(result: PromiseSettledResult<T>, source: string, symbol: string): T | null {
+  if (result.status === 'fulfilled') return result.value;
+  console.warn(`Decision: ${source} unavailable for ${symbol}:`, (result.reason as Error)?.message);
+  return null;
+}
+
+/**
+ * Load all sources for a symbol and return its DecisionResponse.
+ *
+ * @param symbol - Upper-case stock symbol (e.g. "PTT.BK", "AAPL")
+ */
+export async function loadDecision(symbol: string): Promise<DecisionResponse> {
+  const isThaiStock = isThaiSymbol(symbol);
+
+  const [quote, metrics, profile, statements, quarterly, history, sectors, investors, relativeStrength] =
+    await Promise.allSettled([
+      getQuote(symbol),
+      getCompanyMetrics(symbol),
+      getCompanyProfile(symbol),
+      getFinancialStatements(symbol),
+      getQuarterlyEarnings(symbol).then((result) => result.data),
+      getHistoricalPrices(symbol, '2y').then((result) => result.data),
+      isThaiStock ? getLatestIndustrySector() : Promise.resolve(null),
+      isThaiStock ? getLatestInvestorType() : Promise.resolve(null),
+      getRelativeStrength(symbol),
+    ]);
+
+  const { input, dataSources } = buildDecisionInput({
+    provider: getApiProvider(),
+    quote: settledValue(quote, 'quote', symbol),
+    metrics: settledValue(metrics, 'fundamentals', symbol),
+    profile: settledValue(profile, 'profile', symbol),
+    statements: settledValue(statements, 'financial statements', symbol),
+    quarterly: settledValue(quarterly, 'quarterly earnings', symbol),
+    history: settledValue(history, 'price history', symbol),
+    sectors: settledValue(sectors, 'SETTRADE sectors', symbol),
+    investors: settledValue(investors, 'SETTRADE investor types', symbol),
+    rsRating: settledValue(relativeStrength, 'RS rating', symbol)?.rsRating,
+  });
+
+  return {
+    ...analyzeDecision(symbol, input),
+    evidence: buildEvidenceLinks(symbol),
+    dataSources,
+  };
+}
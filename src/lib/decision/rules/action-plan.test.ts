@@ -0,0 +1,276 @@
+/**
+ * Action Plan Rules Tests
+ *
+ * Phase 1.7: Rules layer test suite
+ *
+ * Tests cover:
+ * - Stop-loss selection (support → ATR → default)
+ * - Entry zone width and floor
+ * - Targets from intrinsic value
+ * - Position sizing by risk level and stop distance
+ * - Action rating thresholds and guard rules
+ * - Rationale strings for every number
+ */
+
+import { describe, test, expect } from 'vitest';
+import { buildActionPlan } from './action-plan';
+import { calculatePositionSizing } from './position-sizing';
+import { calculateActionRating, calculateOverallScore } from './action-rating';
+import type { DecisionAnswers, DecisionInput, RiskAnswer, RiskFactor } from '@/types/decision';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function buildAnswers(
+  overrides: {
+    score?: number;
+    intrinsicValue?: number;
+    riskLevel?: RiskAnswer['level'];
+    downside?: number;
+    riskFactors?: RiskFactor[];
+    regime?: DecisionAnswers['timing']['regime'];
+    technicalPosition?: string;
+  } = {}
+): DecisionAnswers {
+  const score = overrides.score ?? 70;
+  return {
+    quality: { score, rating: 'Good', keyPoints: [], metrics: { roe: 0, profitMargin: 0, fcfConversion: 0, altmanZScore: 0, competitivePosition: 0 }, summary: '' },
+    growth: { score, rating: 'Good', keyPoints: [], metrics: { revenueCagr3y: 0, revenueCagr5y: 0, epsCagr3y: 0, epsCagr5y: 0, consistency: 0 }, sustainability: 'medium', summary: '' },
+    valuation: {
+      score,
+      status: 'Fair Value',
+      marginOfSafety: 0,
+      keyPoints: [],
+      metrics: { intrinsicValue: overrides.intrinsicValue ?? 0, currentPrice: 0, upsidePotential: 0, peVsHistorical: 0, pbVsHistorical: 0 },
+      summary: '',
+    },
+    timing: {
+      score,
+      rating: 'Good',
+      regime: overrides.regime ?? 'bullish',
+      keyPoints: [],
+      metrics: { marketTrend: 'unknown', priceVs52wHigh: 0, volumeTrend: 'unknown', technicalPosition: overrides.technicalPosition ?? 'Above MA50 & MA200' },
+      summary: '',
+    },
+    risk: {
+      level: overrides.riskLevel ?? 'Medium',
+      score,
+      riskFactors: overrides.riskFactors ?? [],
+      downsideEstimate: overrides.downside ?? 20,
+      summary: '',
+    },
+  };
+}
+
+/**
+ * Flat-ish OHLC history: closes at `close`, each bar spanning ±`range`.
+ */
+function buildBars(days: number, close: number, range: number): NonNullable<DecisionInput['history']> {
+  return {
+    prices: Array.from({ length: days }, (_, i) => ({
+      date: `day-${i}`,
+      high: close + range,
+      low: close - range,
+      close,
+    })),
+  };
+}
+
+// ============================================================================
+// STOP-LOSS
+// ============================================================================
+
+describe('stop-loss selection', () => {
+  test('should use 20-day support when it is 3-15% below entry', () => {
+    // Support at 95 → stop 94.05, 5.95% below 100
+    const plan = buildActionPlan({ history: buildBars(30, 100, 5) }, 'Buy', buildAnswers());
+
+    expect(plan.stopLoss).toBe(94.05);
+    expect(plan.rationale.stopLoss).toContain('20-day support at 95');
+    expect(plan.invalidationTriggers[0]).toContain('support broken');
+  });
+
+  test('should fall back to ATR when support is too close', () => {
+    // Support at 99.5 → stop < 3% away; ATR = 1 → 2% raised to the 3% floor
+    const plan = buildActionPlan({ history: buildBars(30, 100, 0.5) }, 'Buy', buildAnswers());
+
+    expect(plan.stopLoss).toBe(97);
+    expect(plan.rationale.stopLoss).toContain('ATR(14)');
+    expect(plan.rationale.stopLoss).toContain('kept within 3-15%');
+  });
+
+  test('should use 2x ATR when support is too far away', () => {
+    // Old low at 50 (support far below), recent bars span ±2.5 → ATR 5 → 10% stop
+    const history = buildBars(30, 100, 2.5);
+    history.prices![15].low = 50;
+    const plan = buildActionPlan({ history }, 'Buy', buildAnswers());
+
+    expect(plan.stopLoss).toBe(90);
+    expect(plan.rationale.stopLoss).toContain('(10.0%)');
+  });
+
+  test('should use the default 8% stop without history', () => {
+    const plan = buildActionPlan({ quote: { price: 50 } }, 'Buy', buildAnswers());
+
+    expect(plan.stopLoss).toBe(46);
+    expect(plan.rationale.stopLoss).toContain('Default 8%');
+  });
+
+  test('should prefer quote price over the last close', () => {
+    const plan = buildActionPlan({ quote: { price: 200 } }, 'Buy', buildAnswers());
+    expect(plan.entryZone.optimal).toBe(200);
+  });
+});
+
+// ============================================================================
+// ENTRY ZONE & TARGETS
+// ============================================================================
+
+describe('entry zone', () => {
+  test('should span half an ATR around price', () => {
+    const plan = buildActionPlan({ history: buildBars(30, 100, 5) }, 'Buy', buildAnswers());
+    // ATR = 10 → ±5, floor at halfway to stop (97.03)
+    expect(plan.entryZone.max).toBe(105);
+    expect(plan.entryZone.min).toBe(97.03);
+    expect(plan.rationale.entryZone).toContain('floored halfway to the stop');
+  });
+
+  test('should default to ±3% without ATR', () => {
+    const plan = buildActionPlan({ quote: { price: 100 } }, 'Buy', buildAnswers());
+    expect(plan.entryZone).toEqual({ min: 97, optimal: 100, max: 103 });
+  });
+
+  test('should keep the stop below the entry zone', () => {
+    for (const range of [0.5, 2.5, 5, 10]) {
+      const plan = buildActionPlan({ history: buildBars(30, 100, range) }, 'Buy', buildAnswers());
+      expect(plan.stopLoss).toBeLessThan(plan.entryZone.min);
+    }
+  });
+});
+
+describe('targets', () => {
+  test('should use intrinsic value as base target', () => {
+    const plan = buildActionPlan({ quote: { price: 100 } }, 'Buy', buildAnswers({ intrinsicValue: 130, downside: 25 }));
+
+    expect(plan.targetPrice).toEqual({ base: 130, bullish: 156, bearish: 75 });
+    expect(plan.rationale.targetPrice).toContain('intrinsic value (30.0% upside)');
+  });
+
+  test('should fall back to 15% upside without intrinsic value', () => {
+    const plan = buildActionPlan({ quote: { price: 100 } }, 'Buy', buildAnswers());
+    expect(plan.targetPrice.base).toBe(115);
+    expect(plan.rationale.targetPrice).toContain('default upside');
+  });
+
+  test('should explain an intrinsic value below price', () => {
+    const plan = buildActionPlan({ quote: { price: 100 } }, 'Hold', buildAnswers({ intrinsicValue: 80 }));
+    expect(plan.rationale.targetPrice).toContain('20.0% below the current price');
+  });
+});
+
+// ============================================================================
+// PLAN OUTPUT
+// ============================================================================
+
+describe('plan output', () => {
+  test('should return an empty plan without a price', () => {
+    const plan = buildActionPlan({}, 'Buy', buildAnswers());
+
+    expect(plan.stopLoss).toBe(0);
+    expect(plan.positionSizing.maxPercent).toBe(0);
+    expect(plan.invalidationTriggers).toEqual([]);
+    expect(plan.rationale.stopLoss).toContain('No current price');
+  });
+
+  test('should provide a rationale for every number', () => {
+    const plan = buildActionPlan({ history: buildBars(30, 100, 5) }, 'Buy', buildAnswers());
+    for (const text of Object.values(plan.rationale)) {
+      expect(text.length).toBeGreaterThan(10);
+    }
+  });
+
+  test('should add MA200 and top-risk invalidation triggers', () => {
+    const plan = buildActionPlan(
+      { quote: { price: 100 } },
+      'Buy',
+      buildAnswers({
+        riskFactors: [{ category: 'financial', severity: 'high', description: 'High leverage.' }],
+      })
+    );
+    expect(plan.invalidationTriggers).toContain('Close below the 200-day moving average');
+    expect(plan.invalidationTriggers).toContain('Top risk worsens: High leverage.');
+  });
+
+  test('should zero sizing and advise selling for Sell ratings', () => {
+    const plan = buildActionPlan({ quote: { price: 100 } }, 'Sell', buildAnswers());
+    expect(plan.positionSizing).toEqual({ minPercent: 0, optimalPercent: 0, maxPercent: 0 });
+    expect(plan.reasoning).toContain('reduce exposure');
+  });
+});
+
+// ============================================================================
+// POSITION SIZING
+// ============================================================================
+
+describe('calculatePositionSizing', () => {
+  test.each([
+    ['Low', { minPercent: 5, optimalPercent: 8, maxPercent: 10 }],
+    ['Medium', { minPercent: 3, optimalPercent: 5, maxPercent: 7 }],
+    ['High', { minPercent: 1, optimalPercent: 2, maxPercent: 3 }],
+    ['Very High', { minPercent: 0, optimalPercent: 1, maxPercent: 1 }],
+  ] as const)('should size %s risk buys from the band', (riskLevel, expected) => {
+    expect(calculatePositionSizing({ rating: 'Buy', riskLevel }).sizing).toEqual(expected);
+  });
+
+  test('should keep Hold at the band minimum', () => {
+    const result = calculatePositionSizing({ rating: 'Hold', riskLevel: 'Low' });
+    expect(result.sizing).toEqual({ minPercent: 0, optimalPercent: 5, maxPercent: 5 });
+    expect(result.reasoning).toContain('no new buying');
+  });
+
+  test('should cap size so a stop-out costs at most 1% of the portfolio', () => {
+    // 15% stop → 6.7% cap below the Low band max of 10%
+    const result = calculatePositionSizing({ rating: 'Buy', riskLevel: 'Low', entryPrice: 100, stopLoss: 85 });
+    expect(result.sizing).toEqual({ minPercent: 5, optimalPercent: 6.7, maxPercent: 6.7 });
+    expect(result.reasoning).toContain('Capped at 6.7%');
+  });
+
+  test('should not cap when the stop is tight', () => {
+    const result = calculatePositionSizing({ rating: 'Buy', riskLevel: 'Low', entryPrice: 100, stopLoss: 95 });
+    expect(result.sizing.maxPercent).toBe(10);
+  });
+});
+
+// ============================================================================
+// ACTION RATING
+// ============================================================================
+
+describe('action rating', () => {
+  test.each([
+    [85, 'Strong Buy'],
+    [70, 'Buy'],
+    [50, 'Hold'],
+    [35, 'Sell'],
+    [10, 'Strong Sell'],
+  ] as const)('should rate score %i as %s', (score, rating) => {
+    expect(calculateActionRating(score)).toBe(rating);
+  });
+
+  test('should weight the five answers into the overall score', () => {
+    expect(calculateOverallScore(buildAnswers({ score: 70 }))).toBe(70);
+  });
+
+  test('should cap at Hold with a critical risk factor', () => {
+    const answers = buildAnswers({
+      riskFactors: [{ category: 'financial', severity: 'critical', description: 'Distress.' }],
+    });
+    expect(calculateActionRating(90, answers)).toBe('Hold');
+    expect(calculateActionRating(35, answers)).toBe('Sell');
+  });
+
+  test('should cap at Buy in a bearish regime', () => {
+    expect(calculateActionRating(90, buildAnswers({ regime: 'bearish' }))).toBe('Buy');
+    expect(calculateActionRating(90, buildAnswers({ regime: 'bullish' }))).toBe('Strong Buy');
+  });
+});
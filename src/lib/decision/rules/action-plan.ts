@@ -0,0 +1,313 @@
+/**
+ * Action Plan Rules
+ *
+ * Phase 1.7: Rules layer - Turns the scored answers into a concrete plan
+ *
+ * Stop-loss (first rule that applies):
+ * 1. Support: 1% below the 20-day low, if that is 3-15% below entry
+ * 2. ATR: 2 × ATR(14) below entry, kept within 3-15%
+ * 3. Default: 8% below entry (O'Neil rule)
+ *
+ * Entry zone: current price ± half an ATR (±3% without ATR), never reaching
+ * closer than halfway to the stop.
+ *
+ * Targets:
+ * - Base: valuation intrinsic value (15% default upside when unknown)
+ * - Bullish: base × 1.2
+ * - Bearish: current price less the risk downside estimate
+ *
+ * Position sizing follows the risk level (see position-sizing.ts).
+ * Every number carries a human-readable rationale.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { ActionPlan, ActionRating, DecisionAnswers, DecisionInput } from '@/types/decision';
+import { calculatePositionSizing } from './position-sizing';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ATR_PERIOD = 14;
+const ATR_STOP_MULTIPLE = 2;
+
+const SUPPORT_LOOKBACK = 20;
+const SUPPORT_BUFFER_PERCENT = 1;
+
+/**
+ * Acceptable stop distance below entry (percent)
+ */
+const STOP_BOUNDS = {
+  min: 3,
+  max: 15,
+} as const;
+
+const DEFAULT_STOP_PERCENT = 8;
+const DEFAULT_ENTRY_BAND_PERCENT = 3;
+const DEFAULT_UPSIDE_PERCENT = 15;
+const BULL_TARGET_MULTIPLE = 1.2;
+const TIME_HORIZON = '6-12 months';
+
+type StopMethod = 'support' | 'atr' | 'default';
+
+interface PriceBar {
+  high: number;
+  low: number;
+  close: number;
+}
+
+// ============================================================================
+// PRICE HISTORY HELPERS
+// ============================================================================
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Valid bars from history, oldest first. Missing high/low fall back to close.
+ */
+function extractBars(input: DecisionInput): PriceBar[] {
+  return (input.history?.prices ?? [])
+    .filter((p) => typeof p.close === 'number' && isFinite(p.close) && p.close > 0)
+    .map((p) => {
+      const close = p.close as number;
+      const high = typeof p.high === 'number' && p.high > 0 ? p.high : close;
+      const low = typeof p.low === 'number' && p.low > 0 ? p.low : close;
+      return { high: Math.max(high, close), low: Math.min(low, close), close };
+    });
+}
+
+/**
+ * Average True Range over the last `period` bars (simple average of true ranges).
+ */
+function calculateAtr(bars: PriceBar[], period = ATR_PERIOD): number | null {
+  if (bars.length < period + 1) return null;
+
+  const trueRanges: number[] = [];
+  for (let i = bars.length - period; i < bars.length; i++) {
+    const { high, low } = bars[i];
+    const prevClose = bars[i - 1].close;
+    trueRanges.push(Math.max(high - low, Math.abs(high - prevClose), Math.abs(low - prevClose)));
+  }
+  return trueRanges.reduce((sum, tr) => sum + tr, 0) / period;
+}
+
+/**
+ * Lowest low of the `lookback` bars before the latest one.
+ */
+function findSupport(bars: PriceBar[], lookback = SUPPORT_LOOKBACK): number | null {
+  if (bars.length < lookback + 1) return null;
+  return Math.min(...bars.slice(-lookback - 1, -1).map((b) => b.low));
+}
+
+function extractCurrentPrice(input: DecisionInput, bars: PriceBar[]): number | null {
+  const price = input.quote?.price;
+  if (typeof price === 'number' && price > 0) return price;
+  return bars.length > 0 ? bars[bars.length - 1].close : null;
+}
+
+// ============================================================================
+// PLAN COMPONENTS
+// ============================================================================
+
+function distancePercent(price: number, level: number): number {
+  return ((price - level) / price) * 100;
+}
+
+/**
+ * Pick the stop-loss: support first, then ATR, then the default percentage.
+ */
+function calculateStopLoss(
+  price: number,
+  atr: number | null,
+  support: number | null
+): { stopLoss: number; method: StopMethod; rationale: string } {
+  if (support !== null) {
+    const supportStop = support * (1 - SUPPORT_BUFFER_PERCENT / 100);
+    const distance = distancePercent(price, supportStop);
+    if (distance >= STOP_BOUNDS.min && distance <= STOP_BOUNDS.max) {
+      return {
+        stopLoss: supportStop,
+        method: 'support',
+        rationale: `Stop ${SUPPORT_BUFFER_PERCENT}% below ${SUPPORT_LOOKBACK}-day support at ${round2(support)} (${distance.toFixed(1)}% below entry).`,
+      };
+    }
+  }
+
+  if (atr !== null) {
+    const rawDistance = ((ATR_STOP_MULTIPLE * atr) / price) * 100;
+    const distance = Math.min(STOP_BOUNDS.max, Math.max(STOP_BOUNDS.min, rawDistance));
+    const bounded = distance !== rawDistance ? `, kept within ${STOP_BOUNDS.min}-${STOP_BOUNDS.max}%` : '';
+    return {
+      stopLoss: price * (1 - distance / 100),
+      method: 'atr',
+      rationale: `Stop ${ATR_STOP_MULTIPLE}× ATR(${ATR_PERIOD}) of ${round2(atr)} below entry (${distance.toFixed(1)}%${bounded}).`,
+    };
+  }
+
+  return {
+    stopLoss: price * (1 - DEFAULT_STOP_PERCENT / 100),
+    method: 'default',
+    rationale: `Default ${DEFAULT_STOP_PERCENT}% stop - not enough price history for support or ATR.`,
+  };
+}
+
+function calculateEntryZone(
+  price: number,
+  stopLoss: number,
+  atr: number | null
+): { entryZone: ActionPlan['entryZone']; rationale: string } {
+  const halfWidth = atr !== null ? atr / 2 : price * (DEFAULT_ENTRY_BAND_PERCENT / 100);
+  const floor = stopLoss + (price - stopLoss) / 2;
+  const min = Math.max(price - halfWidth, floor);
+  const max = price + halfWidth;
+
+  const width =
+    atr !== null
+      ? `± half an ATR (${round2(halfWidth)})`
+      : `± ${DEFAULT_ENTRY_BAND_PERCENT}%`;
+  const floored = min === floor ? ', floored halfway to the stop' : '';
+
+  return {
+    entryZone: { min: round2(min), optimal: round2(price), max: round2(max) },
+    rationale: `Entry ${round2(min)}-${round2(max)} around the current price ${round2(price)} ${width}${floored}.`,
+  };
+}
+
+function calculateTargets(
+  price: number,
+  answers: DecisionAnswers
+): { targetPrice: ActionPlan['targetPrice']; rationale: string } {
+  const intrinsicValue = answers.valuation.metrics.intrinsicValue;
+  const hasIntrinsic = intrinsicValue > 0;
+  const base = hasIntrinsic ? intrinsicValue : price * (1 + DEFAULT_UPSIDE_PERCENT / 100);
+  const bullish = base * BULL_TARGET_MULTIPLE;
+  const downside = answers.risk.downsideEstimate;
+  const bearish = price * (1 - downside / 100);
+
+  const baseSource = hasIntrinsic
+    ? base >= price
+      ? `intrinsic value (${(((base - price) / price) * 100).toFixed(1)}% upside)`
+      : `intrinsic value, ${(((price - base) / price) * 100).toFixed(1)}% below the current price`
+    : `a ${DEFAULT_UPSIDE_PERCENT}% default upside (no intrinsic value available)`;
+
+  return {
+    targetPrice: { base: round2(base), bullish: round2(bullish), bearish: round2(bearish) },
+    rationale: `Base ${round2(base)} from ${baseSource}; bull ${round2(bullish)} at ${BULL_TARGET_MULTIPLE}× base; bear ${round2(bearish)} from the ${downside.toFixed(0)}% downside estimate.`,
+  };
+}
+
+function buildInvalidationTriggers(
+  stopLoss: number,
+  method: StopMethod,
+  answers: DecisionAnswers
+): string[] {
+  const triggers = [
+    `Close below stop-loss at ${round2(stopLoss)}${method === 'support' ? ' (support broken)' : ''}`,
+  ];
+
+  if (answers.timing.metrics.technicalPosition.startsWith('Above MA50 & MA200')) {
+    triggers.push('Close below the 200-day moving average');
+  }
+
+  triggers.push('Quality score falls below 35', 'Growth turns negative for two consecutive years');
+
+  const topRisk = answers.risk.riskFactors[0];
+  if (topRisk && (topRisk.severity === 'critical' || topRisk.severity === 'high')) {
+    triggers.push(`Top risk worsens: ${topRisk.description}`);
+  }
+
+  return triggers;
+}
+
+function generateReasoning(
+  rating: ActionRating,
+  price: number,
+  stopMethod: StopMethod,
+  targetPrice: ActionPlan['targetPrice'],
+  answers: DecisionAnswers
+): string {
+  if (rating === 'Sell' || rating === 'Strong Sell') {
+    return 'Scores do not justify holding; avoid new positions and reduce exposure.';
+  }
+  if (rating === 'Hold') {
+    return 'Hold existing positions; wait for better timing or valuation before adding.';
+  }
+  const stopLabel =
+    stopMethod === 'support' ? 'support-based' : stopMethod === 'atr' ? 'ATR-based' : `${DEFAULT_STOP_PERCENT}%`;
+  const targetSource =
+    answers.valuation.metrics.intrinsicValue > 0 ? 'intrinsic value' : `a ${DEFAULT_UPSIDE_PERCENT}% default upside`;
+  return `Buy near ${round2(price)} with a ${stopLabel} stop; base target ${targetPrice.base} from ${targetSource}. Size for ${answers.risk.level.toLowerCase()} risk.`;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Build the action plan from input price history and the scored answers.
+ *
+ * @param input - Decision data (quote price and OHLC history)
+ * @param rating - Action rating from calculateActionRating
+ * @param answers - The five scored answers
+ * @returns ActionPlan with per-number rationale
+ */
+export function buildActionPlan(
+  input: DecisionInput,
+  rating: ActionRating,
+  answers: DecisionAnswers
+): ActionPlan {
+  const bars = extractBars(input);
+  const price = extractCurrentPrice(input, bars);
+
+  if (price === null) {
+    const unavailable = 'No current price available.';
+    return {
+      rating,
+      entryZone: { min: 0, optimal: 0, max: 0 },
+      targetPrice: { base: 0, bullish: 0, bearish: 0 },
+      stopLoss: 0,
+      positionSizing: { minPercent: 0, optimalPercent: 0, maxPercent: 0 },
+      timeHorizon: TIME_HORIZON,
+      invalidationTriggers: [],
+      reasoning: 'No current price available - unable to build an action plan.',
+      rationale: {
+        entryZone: unavailable,
+        targetPrice: unavailable,
+        stopLoss: unavailable,
+        positionSizing: unavailable,
+      },
+    };
+  }
+
+  const atr = calculateAtr(bars);
+  const support = findSupport(bars);
+  const stop = calculateStopLoss(price, atr, support);
+  const entry = calculateEntryZone(price, stop.stopLoss, atr);
+  const targets = calculateTargets(price, answers);
+  const sizing = calculatePositionSizing({
+    rating,
+    riskLevel: answers.risk.level,
+    entryPrice: price,
+    stopLoss: stop.stopLoss,
+  });
+
+  return {
+    rating,
+    entryZone: entry.entryZone,
+    targetPrice: targets.targetPrice,
+    stopLoss: round2(stop.stopLoss),
+    positionSizing: sizing.sizing,
+    timeHorizon: TIME_HORIZON,
+    invalidationTriggers: buildInvalidationTriggers(stop.stopLoss, stop.method, answers),
+    reasoning: generateReasoning(rating, price, stop.method, targets.targetPrice, answers),
+    rationale: {
+      entryZone: entry.rationale,
+      targetPrice: targets.rationale,
+      stopLoss: stop.rationale,
+      positionSizing: sizing.reasoning,
+    },
+  };
+}
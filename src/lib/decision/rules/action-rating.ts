@@ -0,0 +1,111 @@
+/**
+ * Action Rating Rules
+ *
+ * Phase 1.7: Rules layer - Turns the five scored answers into an action rating
+ *
+ * Overall score is a weighted average of the answer scores:
+ * - Quality 25%, Growth 20%, Valuation 20%, Timing 15%, Risk 20%
+ *
+ * Rating thresholds (overall score):
+ * - Strong Buy ≥ 80, Buy ≥ 65, Hold ≥ 45, Sell ≥ 30, Strong Sell < 30
+ *
+ * Guard rules applied after the score-based rating:
+ * - A critical risk factor caps the rating at Hold
+ * - A bearish timing regime caps the rating at Buy
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { ActionRating, DecisionAnswers } from '@/types/decision';
+import { clamp } from '../scorers/utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Question weights for the overall score - must sum to 1.0
+ */
+export const OVERALL_WEIGHTS = {
+  quality: 0.25,
+  growth: 0.20,
+  valuation: 0.20,
+  timing: 0.15,
+  risk: 0.20,
+} as const;
+
+/**
+ * Action rating thresholds based on overall score (0-100)
+ */
+const RATING_THRESHOLDS = {
+  'Strong Buy': 80,
+  Buy: 65,
+  Hold: 45,
+  Sell: 30,
+} as const;
+
+/**
+ * Ratings ordered from most bullish to most bearish
+ */
+const RATING_ORDER: ActionRating[] = ['Strong Buy', 'Buy', 'Hold', 'Sell', 'Strong Sell'];
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Weighted overall score (0-100) from the five answers.
+ */
+export function calculateOverallScore(answers: DecisionAnswers): number {
+  const score =
+    answers.quality.score * OVERALL_WEIGHTS.quality +
+    answers.growth.score * OVERALL_WEIGHTS.growth +
+    answers.valuation.score * OVERALL_WEIGHTS.valuation +
+    answers.timing.score * OVERALL_WEIGHTS.timing +
+    answers.risk.score * OVERALL_WEIGHTS.risk;
+  return Math.round(clamp(score, 0, 100));
+}
+
+function ratingFromScore(score: number): ActionRating {
+  if (score >= RATING_THRESHOLDS['Strong Buy']) return 'Strong Buy';
+  if (score >= RATING_THRESHOLDS.Buy) return 'Buy';
+  if (score >= RATING_THRESHOLDS.Hold) return 'Hold';
+  if (score >= RATING_THRESHOLDS.Sell) return 'Sell';
+  return 'Strong Sell';
+}
+
+/**
+ * Return the less bullish of the two ratings.
+ */
+function capRating(rating: ActionRating, cap: ActionRating): ActionRating {
+  return RATING_ORDER.indexOf(rating) < RATING_ORDER.indexOf(cap) ? cap : rating;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Calculate the action rating from the overall score, applying guard rules
+ * from the risk and timing answers when they are provided.
+ *
+ * @param score - Overall score (0-100)
+ * @param answers - Scored answers used by the guard rules
+ * @returns ActionRating
+ */
+export function calculateActionRating(
+  score: number,
+  answers?: Pick<DecisionAnswers, 'risk' | 'timing'>
+): ActionRating {
+  let rating = ratingFromScore(score);
+  if (!answers) return rating;
+
+  if (answers.risk.riskFactors.some((f) => f.severity === 'critical')) {
+    rating = capRating(rating, 'Hold');
+  }
+  if (answers.timing.regime === 'bearish') {
+    rating = capRating(rating, 'Buy');
+  }
+
+  return rating;
+}
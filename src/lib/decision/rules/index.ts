@@ -0,0 +1,14 @@
+/**
+ * Decision Rules - Exports
+ *
+ * Phase 1.7: Rules layer - Turns scored answers into a rating and plan
+ *
+ * Implemented:
+ * - action-rating.ts: overall score, action rating and guard rules
+ * - position-sizing.ts: sizing bands by risk level and stop distance
+ * - action-plan.ts: entry zone, targets, stop-loss and invalidation triggers
+ */
+
+export { calculateActionRating, calculateOverallScore } from './action-rating';
+export { calculatePositionSizing } from './position-sizing';
+export { buildActionPlan } from './action-plan';
@@ -0,0 +1,124 @@
+/**
+ * Position Sizing Rules
+ *
+ * Phase 1.7: Rules layer - Portfolio allocation from risk level and stop distance
+ *
+ * Base bands (% of portfolio) per risk level:
+ * - Low: 5 / 8 / 10
+ * - Medium: 3 / 5 / 7
+ * - High: 1 / 2 / 3
+ * - Very High: 0 / 1 / 1
+ *
+ * Adjustments:
+ * - Sell / Strong Sell → no position
+ * - Hold → no new buying; keep at most the band minimum
+ * - Stop-distance cap: a stop-out should cost at most 1% of the portfolio,
+ *   so size ≤ 1% / stop distance (e.g. an 8% stop caps the position at 12.5%)
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { ActionPlan, ActionRating, RiskAnswer } from '@/types/decision';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Position sizing bands (% of portfolio) per risk level
+ */
+export const POSITION_SIZING_BANDS: Record<RiskAnswer['level'], ActionPlan['positionSizing']> = {
+  Low: { minPercent: 5, optimalPercent: 8, maxPercent: 10 },
+  Medium: { minPercent: 3, optimalPercent: 5, maxPercent: 7 },
+  High: { minPercent: 1, optimalPercent: 2, maxPercent: 3 },
+  'Very High': { minPercent: 0, optimalPercent: 1, maxPercent: 1 },
+};
+
+/**
+ * Maximum portfolio loss (%) if the stop-loss is hit
+ */
+const MAX_PORTFOLIO_RISK_PERCENT = 1;
+
+const NO_POSITION: ActionPlan['positionSizing'] = {
+  minPercent: 0,
+  optimalPercent: 0,
+  maxPercent: 0,
+};
+
+export interface PositionSizingInput {
+  rating: ActionRating;
+  riskLevel: RiskAnswer['level'];
+  entryPrice?: number | null;
+  stopLoss?: number | null;
+}
+
+export interface PositionSizingResult {
+  sizing: ActionPlan['positionSizing'];
+  reasoning: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Largest position (% of portfolio) that keeps a stop-out within the risk budget.
+ */
+function calculateStopCap(entryPrice?: number | null, stopLoss?: number | null): number | null {
+  if (!entryPrice || !stopLoss || entryPrice <= 0 || stopLoss <= 0 || stopLoss >= entryPrice) {
+    return null;
+  }
+  const stopDistancePct = ((entryPrice - stopLoss) / entryPrice) * 100;
+  return (MAX_PORTFOLIO_RISK_PERCENT / stopDistancePct) * 100;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Calculate position sizing from rating, risk level and stop distance.
+ *
+ * @param input - Rating, risk level and optional entry/stop prices
+ * @returns Sizing band with a human-readable reasoning string
+ */
+export function calculatePositionSizing(input: PositionSizingInput): PositionSizingResult {
+  const { rating, riskLevel } = input;
+
+  if (rating === 'Sell' || rating === 'Strong Sell') {
+    return {
+      sizing: NO_POSITION,
+      reasoning: `No position: a ${rating} rating does not justify capital allocation.`,
+    };
+  }
+
+  const band = POSITION_SIZING_BANDS[riskLevel];
+  let sizing =
+    rating === 'Hold'
+      ? { minPercent: 0, optimalPercent: band.minPercent, maxPercent: band.minPercent }
+      : { ...band };
+
+  const parts = [
+    rating === 'Hold'
+      ? `Hold: no new buying, keep existing exposure at or below ${band.minPercent}% (the ${riskLevel.toLowerCase()}-risk minimum).`
+      : `${riskLevel} risk band: ${band.minPercent}-${band.maxPercent}% of portfolio, ${band.optimalPercent}% optimal.`,
+  ];
+
+  const stopCap = calculateStopCap(input.entryPrice, input.stopLoss);
+  if (stopCap !== null && stopCap < sizing.maxPercent) {
+    sizing = {
+      minPercent: round1(Math.min(sizing.minPercent, stopCap)),
+      optimalPercent: round1(Math.min(sizing.optimalPercent, stopCap)),
+      maxPercent: round1(stopCap),
+    };
+    parts.push(
+      `Capped at ${sizing.maxPercent}% so a stop-out costs no more than ${MAX_PORTFOLIO_RISK_PERCENT}% of the portfolio.`
+    );
+  }
+
+  return { sizing, reasoning: parts.join(' ') };
+}
@@ -0,0 +1,121 @@
+/**
+ * Growth Scorer Tests
+ *
+ * Phase 1.3: Growth scorer test suite
+ *
+ * Tests cover:
+ * - CAGR calculation from annual data
+ * - Fallback to fundamentals and 1-year growth proxies
+ * - Sustainability classification
+ * - Missing data handling
+ */
+
+import { describe, test, expect } from 'vitest';
+import { computeGrowthAnswer } from './growth';
+import type { AnnualData } from '@/types/financials';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+/**
+ * Build annual data (newest first) growing at a fixed rate per year.
+ */
+function buildAnnual(years: number, growth: number, startYear = 2024): AnnualData[] {
+  const rows: AnnualData[] = [];
+  for (let i = 0; i < years; i++) {
+    const factor = Math.pow(1 + growth, years - 1 - i);
+    rows.push({
+      fiscalYear: startYear - i,
+      eps: 2 * factor,
+      revenue: 1000 * factor,
+      netIncome: 100 * factor,
+      totalAssets: 2000,
+      totalDebt: 300,
+      totalLiabilities: 800,
+      equity: 1200,
+    });
+  }
+  return rows;
+}
+
+// ============================================================================
+// ANNUAL DATA
+// ============================================================================
+
+describe('annual data', () => {
+  test('should compute 3y and 5y CAGR from annual figures', () => {
+    const result = computeGrowthAnswer({ financials: { annual: buildAnnual(6, 0.2) } });
+
+    expect(result.metrics.revenueCagr3y).toBeCloseTo(20, 5);
+    expect(result.metrics.revenueCagr5y).toBeCloseTo(20, 5);
+    expect(result.metrics.epsCagr3y).toBeCloseTo(20, 5);
+    expect(result.metrics.consistency).toBe(100);
+  });
+
+  test('should rate consistent 20% growth as Excellent with high sustainability', () => {
+    const result = computeGrowthAnswer({ financials: { annual: buildAnnual(6, 0.2) } });
+
+    expect(result.score).toBeGreaterThanOrEqual(80);
+    expect(result.rating).toBe('Excellent');
+    expect(result.sustainability).toBe('high');
+  });
+
+  test('should rate shrinking business as Poor with low sustainability', () => {
+    const result = computeGrowthAnswer({ financials: { annual: buildAnnual(6, -0.1) } });
+
+    expect(result.score).toBeLessThan(35);
+    expect(result.sustainability).toBe('low');
+  });
+});
+
+// ============================================================================
+// FUNDAMENTALS FALLBACK
+// ============================================================================
+
+describe('fundamentals fallback', () => {
+  test('should read explicit CAGR fundamentals', () => {
+    const result = computeGrowthAnswer({
+      fundamentals: { revenueCagr3y: 10, epsCagr3y: 15, consistency: 80 },
+    });
+
+    expect(result.metrics.revenueCagr3y).toBe(10);
+    expect(result.metrics.epsCagr3y).toBe(15);
+    expect(result.metrics.consistency).toBe(80);
+  });
+
+  test('should use 1-year growth as a proxy for 3-year CAGR', () => {
+    const result = computeGrowthAnswer({ fundamentals: { revenueGrowth: 8, epsGrowth: 12 } });
+
+    expect(result.metrics.revenueCagr3y).toBe(8);
+    expect(result.metrics.epsCagr3y).toBe(12);
+  });
+
+  test('should flag acceleration when 3y EPS CAGR beats 5y', () => {
+    const result = computeGrowthAnswer({ fundamentals: { epsCagr3y: 20, epsCagr5y: 10 } });
+    expect(result.keyPoints.some((p) => p.includes('accelerating'))).toBe(true);
+  });
+});
+
+// ============================================================================
+// MISSING DATA
+// ============================================================================
+
+describe('missing data', () => {
+  test('should return neutral score with no data', () => {
+    const result = computeGrowthAnswer({});
+
+    expect(result.score).toBe(50);
+    expect(result.metrics.revenueCagr3y).toBe(0);
+    expect(result.keyPoints.some((p) => p.startsWith('Limited data'))).toBe(true);
+  });
+
+  test('should skip CAGR when the base year is non-positive', () => {
+    const annual = buildAnnual(4, 0.1);
+    annual[3].eps = -1;
+    const result = computeGrowthAnswer({ financials: { annual } });
+
+    expect(result.metrics.epsCagr3y).toBe(0);
+    expect(result.metrics.revenueCagr3y).toBeCloseTo(10, 5);
+  });
+});
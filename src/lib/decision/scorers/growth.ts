@@ -0,0 +1,268 @@
+/**
+ * Growth Scorer - Q2: "Does it really GROW?"
+ *
+ * Phase 1.3: Growth scorer module
+ *
+ * Evaluates growth and its durability using 5 weighted metrics:
+ * - Revenue CAGR 3Y (25%)
+ * - Revenue CAGR 5Y (15%)
+ * - EPS CAGR 3Y (25%)
+ * - EPS CAGR 5Y (15%)
+ * - Consistency (20%): Share of years with higher revenue/EPS (0-100)
+ *
+ * CAGRs are computed from `financials.annual` when available (via
+ * lib/analysis/growth-scoring), otherwise read from fundamentals. A 1-year
+ * revenueGrowth/epsGrowth is used as a last-resort proxy for the 3Y CAGR.
+ *
+ * CAGR scale: -5% → 0, 25%+ → 100 (percent units).
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { DecisionInput, GrowthAnswer } from '@/types/decision';
+import type { AnnualData } from '@/types/financials';
+import { calculateCAGR, calculateConsistencyScore } from '@/lib/analysis/growth-scoring';
+import {
+  calculateRating,
+  extractMetric,
+  scaleToScore,
+  toFinancialMetrics,
+  weightedScore,
+} from './utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Metric weights - must sum to 1.0
+ */
+const WEIGHTS = {
+  revenueCagr3y: 0.25,
+  revenueCagr5y: 0.15,
+  epsCagr3y: 0.25,
+  epsCagr5y: 0.15,
+  consistency: 0.20,
+} as const;
+
+type GrowthMetricKey = keyof typeof WEIGHTS;
+
+/**
+ * CAGR range mapped onto 0-100
+ */
+const CAGR_SCALE = {
+  floor: -5,
+  ceiling: 25,
+} as const;
+
+// ============================================================================
+// METRIC EXTRACTION
+// ============================================================================
+
+/**
+ * CAGR from annual data, or null when the comparison year is missing
+ * or either endpoint is non-positive.
+ */
+function cagrFromAnnual(
+  input: DecisionInput,
+  annual: AnnualData[] | undefined,
+  metric: 'revenue' | 'eps',
+  years: number
+): number | null {
+  if (!annual || annual.length === 0) return null;
+
+  const latest = annual[0];
+  const past = annual.find((a) => a.fiscalYear === latest.fiscalYear - years);
+  if (!past) return null;
+
+  const start = metric === 'revenue' ? past.revenue : past.eps;
+  const end = metric === 'revenue' ? latest.revenue : latest.eps;
+  if (start <= 0 || end <= 0) return null;
+
+  return calculateCAGR(
+    { financialMetrics: toFinancialMetrics(input), annualData: annual },
+    metric,
+    years
+  );
+}
+
+/**
+ * Extract all growth metrics from DecisionInput.
+ */
+function extractMetrics(input: DecisionInput) {
+  const { fundamentals } = input;
+  const annual = input.financials?.annual;
+
+  const revenueCagr3y =
+    cagrFromAnnual(input, annual, 'revenue', 3) ??
+    extractMetric(fundamentals, ['revenueCagr3y', 'revenueGrowth3y', 'revenueGrowth']);
+  const revenueCagr5y =
+    cagrFromAnnual(input, annual, 'revenue', 5) ??
+    extractMetric(fundamentals, ['revenueCagr5y', 'revenueGrowth5y']);
+  const epsCagr3y =
+    cagrFromAnnual(input, annual, 'eps', 3) ??
+    extractMetric(fundamentals, ['epsCagr3y', 'epsGrowth3y', 'epsGrowth']);
+  const epsCagr5y =
+    cagrFromAnnual(input, annual, 'eps', 5) ??
+    extractMetric(fundamentals, ['epsCagr5y', 'epsGrowth5y']);
+
+  let consistency = extractMetric(fundamentals, ['consistency', 'consistencyScore']);
+  if (consistency === null && annual && annual.length >= 3) {
+    consistency = calculateConsistencyScore({
+      financialMetrics: toFinancialMetrics(input),
+      annualData: annual,
+    });
+  }
+
+  return {
+    revenueCagr3y,
+    revenueCagr5y,
+    epsCagr3y,
+    epsCagr5y,
+    consistency,
+  };
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+function normalizeCagr(cagr: number | null): number | null {
+  return cagr !== null ? scaleToScore(cagr, CAGR_SCALE.floor, CAGR_SCALE.ceiling) : null;
+}
+
+/**
+ * Normalize each metric to 0-100 (null when the metric is unavailable).
+ */
+function normalizeMetrics(
+  metrics: ReturnType<typeof extractMetrics>
+): Record<GrowthMetricKey, number | null> {
+  return {
+    revenueCagr3y: normalizeCagr(metrics.revenueCagr3y),
+    revenueCagr5y: normalizeCagr(metrics.revenueCagr5y),
+    epsCagr3y: normalizeCagr(metrics.epsCagr3y),
+    epsCagr5y: normalizeCagr(metrics.epsCagr5y),
+    consistency:
+      metrics.consistency !== null ? scaleToScore(metrics.consistency, 0, 100) : null,
+  };
+}
+
+// ============================================================================
+// SUSTAINABILITY
+// ============================================================================
+
+/**
+ * Judge how durable the growth is from score and consistency.
+ */
+function calculateSustainability(
+  score: number,
+  consistency: number | null
+): GrowthAnswer['sustainability'] {
+  if (consistency === null) {
+    return score >= 65 ? 'medium' : 'low';
+  }
+  if (consistency >= 75 && score >= 65) return 'high';
+  if (consistency < 40 || score < 35) return 'low';
+  return 'medium';
+}
+
+// ============================================================================
+// KEY POINTS GENERATION
+// ============================================================================
+
+function describeCagr(label: string, cagr: number): string {
+  if (cagr >= 15) return `Strong ${label} CAGR of ${cagr.toFixed(1)}%.`;
+  if (cagr >= 5) return `Steady ${label} CAGR of ${cagr.toFixed(1)}%.`;
+  if (cagr >= 0) return `Sluggish ${label} CAGR of ${cagr.toFixed(1)}%.`;
+  return `${label.charAt(0).toUpperCase()}${label.slice(1)} is shrinking (${cagr.toFixed(1)}% CAGR).`;
+}
+
+/**
+ * Generate key insights based on metric values.
+ */
+function generateKeyPoints(
+  metrics: ReturnType<typeof extractMetrics>,
+  missingMetrics: string[]
+): string[] {
+  const points: string[] = [];
+
+  if (metrics.revenueCagr3y !== null) {
+    points.push(describeCagr('3-year revenue', metrics.revenueCagr3y));
+  }
+  if (metrics.epsCagr3y !== null) {
+    points.push(describeCagr('3-year EPS', metrics.epsCagr3y));
+  }
+  if (metrics.epsCagr3y !== null && metrics.epsCagr5y !== null) {
+    if (metrics.epsCagr3y > metrics.epsCagr5y + 2) {
+      points.push('EPS growth is accelerating versus the 5-year trend.');
+    } else if (metrics.epsCagr3y < metrics.epsCagr5y - 2) {
+      points.push('EPS growth is decelerating versus the 5-year trend.');
+    }
+  }
+  if (metrics.consistency !== null) {
+    if (metrics.consistency >= 75) {
+      points.push(`Highly consistent growth record (${Math.round(metrics.consistency)}/100).`);
+    } else if (metrics.consistency < 40) {
+      points.push(`Erratic growth record (${Math.round(metrics.consistency)}/100).`);
+    }
+  }
+
+  if (missingMetrics.length > 0) {
+    points.push(`Limited data: ${missingMetrics.join(', ')} not available`);
+  }
+
+  return points.slice(0, 6);
+}
+
+/**
+ * Generate summary sentence.
+ */
+function generateSummary(
+  rating: GrowthAnswer['rating'],
+  score: number,
+  sustainability: GrowthAnswer['sustainability']
+): string {
+  return `${rating} growth profile (${score}/100) with ${sustainability} sustainability.`;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Compute growth answer from decision input.
+ *
+ * @param input - Decision data with annual figures and/or growth fundamentals
+ * @returns GrowthAnswer with score, rating, key points, metrics, sustainability, and summary
+ *
+ * @example
+ * ```ts
+ * const answer = computeGrowthAnswer({
+ *   fundamentals: { revenueCagr3y: 12, epsCagr3y: 18, consistency: 80 }
+ * });
+ * ```
+ */
+export function computeGrowthAnswer(input: DecisionInput): GrowthAnswer {
+  const rawMetrics = extractMetrics(input);
+  const normalized = normalizeMetrics(rawMetrics);
+  const { score, missing } = weightedScore(WEIGHTS, normalized);
+
+  const roundedScore = Math.round(score);
+  const rating = calculateRating(roundedScore);
+  const sustainability = calculateSustainability(roundedScore, rawMetrics.consistency);
+
+  return {
+    score: roundedScore,
+    rating,
+    keyPoints: generateKeyPoints(rawMetrics, missing),
+    metrics: {
+      revenueCagr3y: rawMetrics.revenueCagr3y ?? 0,
+      revenueCagr5y: rawMetrics.revenueCagr5y ?? 0,
+      epsCagr3y: rawMetrics.epsCagr3y ?? 0,
+      epsCagr5y: rawMetrics.epsCagr5y ?? 0,
+      consistency: Math.round(rawMetrics.consistency ?? 0),
+    },
+    sustainability,
+    summary: generateSummary(rating, roundedScore, sustainability),
+  };
+}
@@ -7,8 +7,6 @@
  * - Phase 1.2: quality.ts
  * - Phase 1.3: growth.ts
  * - Phase 1.4: valuation.ts
- *
- * To be implemented:
  * - Phase 1.5: timing.ts
  * - Phase 1.6: risk.ts
  */
@@ -16,3 +14,5 @@
 export { computeQualityAnswer } from './quality';
 export { computeGrowthAnswer } from './growth';
 export { computeValuationAnswer } from './valuation';
+export { computeTimingAnswer } from './timing';
+export { computeRiskAnswer } from './risk';
@@ -0,0 +1,147 @@
+/**
+ * Quality Scorer Tests
+ *
+ * Phase 1.2: Quality scorer test suite
+ *
+ * Tests cover:
+ * - Strong, average and weak businesses
+ * - Derived metrics (FCF conversion, Altman Z from annual data, margin proxy)
+ * - Missing data handling
+ * - Deterministic behavior
+ */
+
+import { describe, test, expect } from 'vitest';
+import { computeQualityAnswer } from './quality';
+import type { DecisionInput } from '@/types/decision';
+import type { AnnualData } from '@/types/financials';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function createInput(
+  fundamentals: DecisionInput['fundamentals'] = {},
+  annual?: AnnualData[]
+): DecisionInput {
+  return {
+    quote: { price: 100 },
+    fundamentals,
+    financials: annual ? { annual } : undefined,
+  };
+}
+
+// ============================================================================
+// RATINGS
+// ============================================================================
+
+describe('ratings', () => {
+  test('should rate a high-return, cash-generative business as Excellent', () => {
+    const result = computeQualityAnswer(
+      createInput({
+        roe: 28,
+        profitMargin: 24,
+        freeCashFlow: 130,
+        netIncome: 100,
+        altmanZScore: 4.2,
+        grossMargin: 55,
+        operatingMargin: 32,
+      })
+    );
+
+    expect(result.score).toBeGreaterThanOrEqual(80);
+    expect(result.rating).toBe('Excellent');
+  });
+
+  test('should rate a middling business as Fair or Good', () => {
+    const result = computeQualityAnswer(
+      createInput({ roe: 14, profitMargin: 11, fcfConversion: 0.8, altmanZScore: 2.3 })
+    );
+
+    expect(result.score).toBeGreaterThanOrEqual(50);
+    expect(result.score).toBeLessThan(80);
+    expect(['Fair', 'Good']).toContain(result.rating);
+  });
+
+  test('should rate a distressed business as Poor', () => {
+    const result = computeQualityAnswer(
+      createInput({ roe: -5, profitMargin: -3, fcfConversion: -0.4, altmanZScore: 0.9 })
+    );
+
+    expect(result.score).toBeLessThan(35);
+    expect(result.rating).toBe('Poor');
+    expect(result.keyPoints.some((p) => p.includes('distress'))).toBe(true);
+  });
+});
+
+// ============================================================================
+// DERIVED METRICS
+// ============================================================================
+
+describe('derived metrics', () => {
+  test('should derive FCF conversion from free cash flow and net income', () => {
+    const result = computeQualityAnswer(createInput({ freeCashFlow: 90, netIncome: 120 }));
+    expect(result.metrics.fcfConversion).toBeCloseTo(0.75, 5);
+  });
+
+  test('should not derive FCF conversion when net income is negative', () => {
+    const result = computeQualityAnswer(createInput({ freeCashFlow: 90, netIncome: -10 }));
+    expect(result.metrics.fcfConversion).toBe(0);
+  });
+
+  test('should compute Altman Z from annual data when not supplied', () => {
+    const annual: AnnualData[] = [
+      {
+        fiscalYear: 2024,
+        eps: 5,
+        revenue: 1000,
+        netIncome: 150,
+        totalAssets: 800,
+        totalDebt: 100,
+        totalLiabilities: 300,
+        equity: 500,
+      },
+    ];
+    const result = computeQualityAnswer(createInput({ marketCap: 3000 }, annual));
+    expect(result.metrics.altmanZScore).toBeGreaterThan(3);
+  });
+
+  test('should proxy competitive position from gross and operating margins', () => {
+    const result = computeQualityAnswer(createInput({ grossMargin: 50, operatingMargin: 30 }));
+    expect(result.metrics.competitivePosition).toBe(100);
+  });
+});
+
+// ============================================================================
+// MISSING DATA
+// ============================================================================
+
+describe('missing data', () => {
+  test('should return neutral score with no data', () => {
+    const result = computeQualityAnswer({});
+
+    expect(result.score).toBe(50);
+    expect(result.rating).toBe('Fair');
+    expect(result.keyPoints.some((p) => p.startsWith('Limited data'))).toBe(true);
+  });
+
+  test('should re-normalize weights when only ROE is available', () => {
+    const result = computeQualityAnswer(createInput({ roe: 25 }));
+    expect(result.score).toBe(100);
+  });
+
+  test('should ignore non-numeric fundamentals', () => {
+    const result = computeQualityAnswer(createInput({ roe: 'N/A', profitMargin: null }));
+    expect(result.score).toBe(50);
+  });
+});
+
+// ============================================================================
+// DETERMINISM
+// ============================================================================
+
+describe('deterministic behavior', () => {
+  test('should return identical results for identical input', () => {
+    const input = createInput({ roe: 17, profitMargin: 9, fcfConversion: 1.1 });
+    expect(computeQualityAnswer(input)).toEqual(computeQualityAnswer(input));
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Quality Scorer - Q1: "Is this stock GOOD?"
+ *
+ * Phase 1.2: Quality scorer module
+ *
+ * Evaluates business strength using 5 weighted metrics:
+ * - ROE (30%): Return on equity, 0% → 0, 25%+ → 100
+ * - Profit Margin (20%): Net margin, 0% → 0, 20%+ → 100
+ * - FCF Conversion (20%): Free cash flow / net income, 0 → 0, 1.2x+ → 100
+ * - Altman Z-Score (15%): Bankruptcy risk, 1.0 → 0, 3.0+ → 100
+ * - Competitive Position (15%): Gross/operating margin strength as a moat proxy
+ *
+ * Percentages (roe, margins) are expected in percent units (18 = 18%).
+ * Missing metrics are skipped and the remaining weights are re-normalized.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { DecisionInput, QualityAnswer } from '@/types/decision';
+import { calculateAltmanZScore } from '@/lib/analysis/spea';
+import {
+  calculateRating,
+  extractMetric,
+  scaleToScore,
+  toFinancialMetrics,
+  weightedScore,
+} from './utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Metric weights - must sum to 1.0
+ */
+const WEIGHTS = {
+  roe: 0.30,
+  profitMargin: 0.20,
+  fcfConversion: 0.20,
+  altmanZScore: 0.15,
+  competitivePosition: 0.15,
+} as const;
+
+type QualityMetricKey = keyof typeof WEIGHTS;
+
+/**
+ * Altman Z-Score zones
+ */
+const ALTMAN_ZONES = {
+  safe: 3.0,
+  distress: 1.8,
+} as const;
+
+// ============================================================================
+// METRIC EXTRACTION
+// ============================================================================
+
+/**
+ * Extract all quality metrics from DecisionInput.
+ */
+function extractMetrics(input: DecisionInput) {
+  const { fundamentals } = input;
+  const annual = input.financials?.annual;
+
+  const roe = extractMetric(fundamentals, ['roe', 'returnOnEquity']);
+  const profitMargin = extractMetric(fundamentals, ['profitMargin', 'netMargin']);
+  const grossMargin = extractMetric(fundamentals, ['grossMargin']);
+  const operatingMargin = extractMetric(fundamentals, ['operatingMargin']);
+
+  // FCF conversion: explicit value, otherwise FCF / net income
+  let fcfConversion = extractMetric(fundamentals, ['fcfConversion', 'fcfConversionRatio']);
+  if (fcfConversion === null) {
+    const freeCashFlow = extractMetric(fundamentals, ['freeCashFlow']);
+    const netIncome = extractMetric(fundamentals, ['netIncome']);
+    if (freeCashFlow !== null && netIncome !== null && netIncome > 0) {
+      fcfConversion = freeCashFlow / netIncome;
+    }
+  }
+
+  // Altman Z: explicit value, otherwise computed from annual balance sheet data
+  let altmanZScore = extractMetric(fundamentals, ['altmanZScore', 'altmanZ']);
+  if (altmanZScore === null && annual && annual.length > 0) {
+    altmanZScore = calculateAltmanZScore(toFinancialMetrics(input), annual);
+  }
+
+  // Competitive position: explicit 0-100 value, otherwise margin-based proxy
+  let competitivePosition = extractMetric(fundamentals, ['competitivePosition']);
+  if (competitivePosition === null) {
+    const parts: number[] = [];
+    if (grossMargin !== null) parts.push(scaleToScore(grossMargin, 10, 50));
+    if (operatingMargin !== null) parts.push(scaleToScore(operatingMargin, 5, 30));
+    if (parts.length > 0) {
+      competitivePosition = parts.reduce((sum, v) => sum + v, 0) / parts.length;
+    }
+  }
+
+  return {
+    roe,
+    profitMargin,
+    fcfConversion,
+    altmanZScore,
+    competitivePosition,
+  };
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Normalize each metric to 0-100 (null when the metric is unavailable).
+ */
+function normalizeMetrics(
+  metrics: ReturnType<typeof extractMetrics>
+): Record<QualityMetricKey, number | null> {
+  return {
+    roe: metrics.roe !== null ? scaleToScore(metrics.roe, 0, 25) : null,
+    profitMargin:
+      metrics.profitMargin !== null ? scaleToScore(metrics.profitMargin, 0, 20) : null,
+    fcfConversion:
+      metrics.fcfConversion !== null ? scaleToScore(metrics.fcfConversion, 0, 1.2) : null,
+    altmanZScore:
+      metrics.altmanZScore !== null ? scaleToScore(metrics.altmanZScore, 1.0, 3.0) : null,
+    competitivePosition:
+      metrics.competitivePosition !== null
+        ? scaleToScore(metrics.competitivePosition, 0, 100)
+        : null,
+  };
+}
+
+// ============================================================================
+// KEY POINTS GENERATION
+// ============================================================================
+
+/**
+ * Generate key insights based on metric values.
+ */
+function generateKeyPoints(
+  metrics: ReturnType<typeof extractMetrics>,
+  missingMetrics: string[]
+): string[] {
+  const points: string[] = [];
+
+  if (metrics.roe !== null) {
+    if (metrics.roe >= 20) {
+      points.push(`High ROE (${metrics.roe.toFixed(1)}%) shows efficient use of shareholder capital.`);
+    } else if (metrics.roe >= 10) {
+      points.push(`Adequate ROE (${metrics.roe.toFixed(1)}%).`);
+    } else {
+      points.push(`Low ROE (${metrics.roe.toFixed(1)}%) suggests weak returns on capital.`);
+    }
+  }
+
+  if (metrics.profitMargin !== null) {
+    if (metrics.profitMargin >= 15) {
+      points.push(`Strong profit margin (${metrics.profitMargin.toFixed(1)}%) points to pricing power.`);
+    } else if (metrics.profitMargin >= 5) {
+      points.push(`Moderate profit margin (${metrics.profitMargin.toFixed(1)}%).`);
+    } else {
+      points.push(`Thin profit margin (${metrics.profitMargin.toFixed(1)}%) leaves little room for error.`);
+    }
+  }
+
+  if (metrics.fcfConversion !== null) {
+    if (metrics.fcfConversion >= 1.0) {
+      points.push(`Earnings are backed by cash (FCF conversion ${metrics.fcfConversion.toFixed(2)}x).`);
+    } else if (metrics.fcfConversion >= 0.6) {
+      points.push(`Partial cash backing of earnings (FCF conversion ${metrics.fcfConversion.toFixed(2)}x).`);
+    } else {
+      points.push(`Weak cash conversion (${metrics.fcfConversion.toFixed(2)}x) - check earnings quality.`);
+    }
+  }
+
+  if (metrics.altmanZScore !== null) {
+    if (metrics.altmanZScore >= ALTMAN_ZONES.safe) {
+      points.push(`Altman Z-Score ${metrics.altmanZScore.toFixed(2)} is in the safe zone.`);
+    } else if (metrics.altmanZScore >= ALTMAN_ZONES.distress) {
+      points.push(`Altman Z-Score ${metrics.altmanZScore.toFixed(2)} is in the grey zone.`);
+    } else {
+      points.push(`Altman Z-Score ${metrics.altmanZScore.toFixed(2)} signals financial distress risk.`);
+    }
+  }
+
+  if (missingMetrics.length > 0) {
+    points.push(`Limited data: ${missingMetrics.join(', ')} not available`);
+  }
+
+  return points.slice(0, 6);
+}
+
+/**
+ * Generate summary sentence.
+ */
+function generateSummary(
+  rating: QualityAnswer['rating'],
+  score: number,
+  missingMetrics: string[]
+): string {
+  const dataQual = missingMetrics.length === 0 ? 'comprehensive data' : 'available data';
+  return `${rating} business quality (${score}/100) based on ${dataQual}.`;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Compute quality answer from decision input.
+ *
+ * @param input - Decision data with fundamentals and optional annual figures
+ * @returns QualityAnswer with score, rating, key points, metrics, and summary
+ *
+ * @example
+ * ```ts
+ * const answer = computeQualityAnswer({
+ *   fundamentals: { roe: 22, profitMargin: 18, freeCashFlow: 120, netIncome: 100 }
+ * });
+ * ```
+ */
+export function computeQualityAnswer(input: DecisionInput): QualityAnswer {
+  const rawMetrics = extractMetrics(input);
+  const normalized = normalizeMetrics(rawMetrics);
+  const { score, missing } = weightedScore(WEIGHTS, normalized);
+
+  const roundedScore = Math.round(score);
+  const rating = calculateRating(roundedScore);
+
+  return {
+    score: roundedScore,
+    rating,
+    keyPoints: generateKeyPoints(rawMetrics, missing),
+    metrics: {
+      roe: rawMetrics.roe ?? 0,
+      profitMargin: rawMetrics.profitMargin ?? 0,
+      fcfConversion: rawMetrics.fcfConversion ?? 0,
+      altmanZScore: rawMetrics.altmanZScore ?? 0,
+      competitivePosition: Math.round(rawMetrics.competitivePosition ?? 0),
+    },
+    summary: generateSummary(rating, roundedScore, missing),
+  };
+}
@@ -0,0 +1,314 @@
+/**
+ * Risk Scorer Tests
+ *
+ * Phase 1.6: Risk scorer test suite
+ *
+ * Tests cover:
+ * - Leverage and interest coverage
+ * - Altman Z-Score (explicit and computed from annual data)
+ * - Volatility and max drawdown from price history
+ * - Earnings cyclicality across AnnualData
+ * - Factor ranking, level thresholds and downside estimate
+ */
+
+import { describe, test, expect } from 'vitest';
+import { computeRiskAnswer } from './risk';
+import type { DecisionInput } from '@/types/decision';
+import type { AnnualData } from '@/types/financials';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function buildPrices(closes: number[]): NonNullable<DecisionInput['history']> {
+  return { prices: closes.map((close, i) => ({ date: `day-${i}`, close })) };
+}
+
+/**
+ * Gently rising closes with a small ±0.5% daily wiggle (low volatility, tiny drawdown).
+ */
+function calmCloses(days = 260): number[] {
+  const closes: number[] = [];
+  let close = 100;
+  for (let i = 0; i < days; i++) {
+    close *= 1.001 + (i % 2 === 0 ? 0.005 : -0.005);
+    closes.push(close);
+  }
+  return closes;
+}
+
+/**
+ * Build annual data (newest first) from a list of net incomes (newest first).
+ */
+function buildAnnual(netIncomes: number[]): AnnualData[] {
+  return netIncomes.map((netIncome, i) => ({
+    fiscalYear: 2024 - i,
+    eps: netIncome / 100,
+    revenue: 1000,
+    netIncome,
+    totalAssets: 2000,
+    totalDebt: 200,
+    totalLiabilities: 600,
+    equity: 1400,
+  }));
+}
+
+function factorFor(input: DecisionInput, metric: string) {
+  return computeRiskAnswer(input).riskFactors.find((f) => f.metric === metric);
+}
+
+// ============================================================================
+// TEST CASE 1: Clean Profile
+// ============================================================================
+
+describe('low risk profile', () => {
+  test('should return Low risk with no factors for a safe company', () => {
+    const result = computeRiskAnswer({
+      fundamentals: { deRatio: 0.3, interestCoverage: 20, altmanZScore: 4.5, peRatio: 15 },
+      financials: { annual: buildAnnual([150, 140, 130, 120, 110]) },
+      history: buildPrices(calmCloses()),
+    });
+
+    expect(result.riskFactors).toEqual([]);
+    expect(result.score).toBe(100);
+    expect(result.level).toBe('Low');
+    expect(result.summary).toContain('no major red flags');
+  });
+
+  test('should fall back to default downside without price history', () => {
+    const result = computeRiskAnswer({});
+    expect(result.level).toBe('Low');
+    expect(result.downsideEstimate).toBe(15);
+  });
+});
+
+// ============================================================================
+// TEST CASE 2: Financial Risk
+// ============================================================================
+
+describe('financial risk', () => {
+  test.each([
+    [0.8, undefined],
+    [1.5, 'medium'],
+    [2.5, 'high'],
+  ] as const)('should flag D/E %s as %s', (deRatio, severity) => {
+    expect(factorFor({ fundamentals: { deRatio } }, 'deRatio')?.severity).toBe(severity);
+  });
+
+  test.each([
+    [1.2, 'critical'],
+    [2.5, 'high'],
+    [5, undefined],
+  ] as const)('should flag interest coverage %s as %s', (interestCoverage, severity) => {
+    expect(factorFor({ fundamentals: { interestCoverage } }, 'interestCoverage')?.severity).toBe(
+      severity
+    );
+  });
+
+  test.each([
+    [1.2, 'critical'],
+    [2.4, 'medium'],
+    [3.5, undefined],
+  ] as const)('should flag Altman Z %s as %s', (altmanZScore, severity) => {
+    expect(factorFor({ fundamentals: { altmanZScore } }, 'altmanZScore')?.severity).toBe(severity);
+  });
+
+  test('should compute Altman Z from annual data when not provided', () => {
+    const factor = factorFor(
+      {
+        fundamentals: { marketCap: 100 },
+        financials: {
+          annual: [
+            {
+              fiscalYear: 2024,
+              eps: -1,
+              revenue: 300,
+              netIncome: -100,
+              totalAssets: 2000,
+              totalDebt: 1500,
+              totalLiabilities: 1900,
+              equity: 100,
+            },
+          ],
+        },
+      },
+      'altmanZScore'
+    );
+
+    expect(factor?.severity).toBe('critical');
+    expect(factor?.category).toBe('financial');
+  });
+});
+
+// ============================================================================
+// TEST CASE 3: Market Risk
+// ============================================================================
+
+describe('market risk', () => {
+  test('should flag high volatility', () => {
+    const closes = Array.from({ length: 60 }, (_, i) => (i % 2 === 0 ? 100 : 106));
+    const factor = factorFor({ history: buildPrices(closes) }, 'volatility');
+    expect(factor?.severity).toBe('high');
+    expect(factor?.category).toBe('market');
+  });
+
+  test('should not flag volatility for calm price action', () => {
+    expect(factorFor({ history: buildPrices(calmCloses()) }, 'volatility')).toBeUndefined();
+  });
+
+  test('should measure max drawdown from the running peak', () => {
+    const closes = [
+      ...Array.from({ length: 30 }, (_, i) => 100 + i),
+      ...Array.from({ length: 30 }, (_, i) => 129 - i * 2),
+    ];
+    // Peak 129 → trough 71 = 45% drawdown
+    const factor = factorFor({ history: buildPrices(closes) }, 'maxDrawdown');
+    expect(factor?.severity).toBe('medium');
+    expect(factor?.value).toBeCloseTo(44.96, 1);
+  });
+
+  test('should flag a collapse over 50% as high severity', () => {
+    const closes = Array.from({ length: 60 }, (_, i) => 100 - i * 1.2);
+    expect(factorFor({ history: buildPrices(closes) }, 'maxDrawdown')?.severity).toBe('high');
+  });
+
+  test('should only measure drawdown over the last year', () => {
+    // Crash happened more than 252 days ago, flat since
+    const closes = [200, 80, ...Array.from({ length: 260 }, () => 80)];
+    expect(factorFor({ history: buildPrices(closes) }, 'maxDrawdown')).toBeUndefined();
+  });
+
+  test('should skip history-based metrics with fewer than 21 closes', () => {
+    const closes = Array.from({ length: 20 }, (_, i) => 100 - i * 4);
+    const result = computeRiskAnswer({ history: buildPrices(closes) });
+    expect(result.riskFactors).toEqual([]);
+  });
+});
+
+// ============================================================================
+// TEST CASE 4: Business Risk
+// ============================================================================
+
+describe('earnings cyclicality', () => {
+  test('should not flag steady growth', () => {
+    const input = { financials: { annual: buildAnnual([150, 140, 130, 120, 110]) } };
+    expect(factorFor(input, 'earningsCyclicality')).toBeUndefined();
+  });
+
+  test('should flag uneven earnings as medium', () => {
+    // YoY changes: -15%, +40%, -15%, +40%
+    const input = { financials: { annual: buildAnnual([141.61, 101.15, 119, 85, 100]) } };
+    const factor = factorFor(input, 'earningsCyclicality');
+    expect(factor?.severity).toBe('medium');
+    expect(factor?.category).toBe('business');
+    expect(factor?.description).toContain('2 down years in 5');
+  });
+
+  test('should flag boom-bust earnings as high', () => {
+    const input = { financials: { annual: buildAnnual([200, 60, 180, 50, 150]) } };
+    expect(factorFor(input, 'earningsCyclicality')?.severity).toBe('high');
+  });
+
+  test('should flag any loss year as high', () => {
+    const input = { financials: { annual: buildAnnual([120, 110, -20, 100]) } };
+    const factor = factorFor(input, 'earningsCyclicality');
+    expect(factor?.severity).toBe('high');
+    expect(factor?.description).toContain('1 with losses');
+  });
+
+  test('should require at least 4 years of data', () => {
+    const input = { financials: { annual: buildAnnual([200, 50, 200]) } };
+    expect(factorFor(input, 'earningsCyclicality')).toBeUndefined();
+  });
+
+  test('should flag current losses via negative P/E', () => {
+    const factor = factorFor({ fundamentals: { peRatio: -5 } }, 'peRatio');
+    expect(factor?.category).toBe('business');
+    expect(factor?.severity).toBe('high');
+  });
+});
+
+describe('valuation risk', () => {
+  test.each([
+    [20, undefined],
+    [30, 'medium'],
+    [55, 'high'],
+  ] as const)('should flag P/E %s as %s', (peRatio, severity) => {
+    expect(factorFor({ fundamentals: { peRatio } }, 'peRatio')?.severity).toBe(severity);
+  });
+});
+
+// ============================================================================
+// TEST CASE 5: Ranking, Level and Downside
+// ============================================================================
+
+describe('ranking and level', () => {
+  test('should rank factors from most to least severe', () => {
+    const result = computeRiskAnswer({
+      fundamentals: { peRatio: 30, deRatio: 2.5, interestCoverage: 1.2 },
+    });
+    expect(result.riskFactors.map((f) => f.severity)).toEqual(['critical', 'high', 'medium']);
+    expect(result.summary).toContain('led by');
+    expect(result.summary).toContain('barely covers interest');
+  });
+
+  test('should deduct severity penalties from 100', () => {
+    // high (22) + critical (35) + medium (12)
+    const result = computeRiskAnswer({
+      fundamentals: { peRatio: 30, deRatio: 2.5, interestCoverage: 1.2 },
+    });
+    expect(result.score).toBe(31);
+    expect(result.level).toBe('Very High');
+  });
+
+  test.each([
+    [{ peRatio: 30, deRatio: 1.5 }, 'Low'],
+    [{ peRatio: 55, deRatio: 2.5 }, 'Medium'],
+    [{ deRatio: 2.5, interestCoverage: 1.2 }, 'High'],
+  ] as const)('should map %o to %s risk', (fundamentals, level) => {
+    expect(computeRiskAnswer({ fundamentals }).level).toBe(level);
+  });
+
+  test('should never score below 0', () => {
+    const result = computeRiskAnswer({
+      fundamentals: { deRatio: 5, interestCoverage: 0.5, altmanZScore: 0.5, peRatio: -3 },
+      financials: { annual: buildAnnual([-50, 100, -20, 80]) },
+    });
+    expect(result.score).toBe(0);
+  });
+});
+
+describe('downside estimate', () => {
+  test('should average volatility and drawdown estimates', () => {
+    const closes = Array.from({ length: 60 }, (_, i) => 100 - i * 0.5);
+    const result = computeRiskAnswer({ history: buildPrices(closes) });
+    const drawdown = result.riskFactors.find((f) => f.metric === 'maxDrawdown');
+    // Smooth decline: volatility is near zero, so downside ≈ drawdown / 2
+    expect(drawdown).toBeUndefined();
+    expect(result.downsideEstimate).toBeGreaterThan(5);
+    expect(result.downsideEstimate).toBeLessThan(29.5 / 2 + 1);
+  });
+
+  test('should clamp downside between 5% and 80%', () => {
+    const flat = computeRiskAnswer({ history: buildPrices(Array.from({ length: 60 }, () => 100)) });
+    expect(flat.downsideEstimate).toBe(5);
+
+    const wild = Array.from({ length: 60 }, (_, i) => (i % 2 === 0 ? 100 : 160));
+    expect(computeRiskAnswer({ history: buildPrices(wild) }).downsideEstimate).toBe(80);
+  });
+
+  test('should use level defaults without price history', () => {
+    const result = computeRiskAnswer({ fundamentals: { deRatio: 2.5, interestCoverage: 1.2 } });
+    expect(result.level).toBe('High');
+    expect(result.downsideEstimate).toBe(35);
+  });
+
+  test('should be deterministic', () => {
+    const input: DecisionInput = {
+      fundamentals: { deRatio: 1.5 },
+      history: buildPrices(calmCloses()),
+      financials: { annual: buildAnnual([150, 117, 130, 100, 111]) },
+    };
+    expect(computeRiskAnswer(input)).toEqual(computeRiskAnswer(input));
+  });
+});
@@ -0,0 +1,434 @@
+/**
+ * Risk Scorer - Q5: "What are the RISKS?"
+ *
+ * Phase 1.6: Risk scorer module
+ *
+ * Collects individual risk factors and converts them into an inverse score
+ * (higher = safer). Each factor carries a severity that deducts points from
+ * a starting score of 100:
+ * - low: -5, medium: -12, high: -22, critical: -35
+ *
+ * Factors covered:
+ * - Financial: leverage (D/E, expressed as a multiple), interest coverage,
+ *   Altman Z-Score (explicit or via calculateAltmanZScore on annual data)
+ * - Market: annualized volatility and max drawdown from daily closes
+ * - Business: losses and earnings cyclicality across AnnualData
+ * - Valuation: stretched P/E
+ *
+ * Factors are ranked by severity (critical first). Ties keep the order
+ * above: financial, market, business, valuation.
+ *
+ * Level thresholds (score):
+ * - Low ≥ 75, Medium ≥ 55, High ≥ 35, Very High < 35
+ *
+ * Downside estimate (percent) is the average of ~0.8σ annual volatility and
+ * the 1-year max drawdown, falling back to a level-based default.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { DecisionInput, RiskAnswer, RiskFactor } from '@/types/decision';
+import type { AnnualData } from '@/types/financials';
+import { calculateAltmanZScore } from '@/lib/analysis/spea';
+import { clamp, extractCloses, extractMetric, toFinancialMetrics } from './utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Points deducted per factor severity
+ */
+const SEVERITY_PENALTY: Record<RiskFactor['severity'], number> = {
+  low: 5,
+  medium: 12,
+  high: 22,
+  critical: 35,
+};
+
+/**
+ * Level thresholds based on score (0-100, higher = safer)
+ */
+const LEVEL_THRESHOLDS = {
+  Low: 75,
+  Medium: 55,
+  High: 35,
+} as const;
+
+/**
+ * Default downside (percent) per level when volatility is unknown
+ */
+const DEFAULT_DOWNSIDE: Record<RiskAnswer['level'], number> = {
+  Low: 15,
+  Medium: 25,
+  High: 35,
+  'Very High': 50,
+};
+
+/**
+ * Sort order for ranking factors (lower = more severe)
+ */
+const SEVERITY_RANK: Record<RiskFactor['severity'], number> = {
+  critical: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+/**
+ * Altman Z-Score zones (same as the quality scorer)
+ */
+const ALTMAN_ZONES = {
+  distress: 1.8,
+  safe: 3.0,
+} as const;
+
+/**
+ * Cyclicality thresholds: standard deviation of YoY net income change (percent)
+ */
+const CYCLICALITY_THRESHOLDS = {
+  high: 50,
+  medium: 25,
+} as const;
+
+/**
+ * Minimum years of annual data needed to judge cyclicality (3 YoY changes)
+ */
+const MIN_CYCLICALITY_YEARS = 4;
+
+const TRADING_DAYS_PER_YEAR = 252;
+
+// ============================================================================
+// METRIC EXTRACTION
+// ============================================================================
+
+/**
+ * Annualized volatility (percent) from daily close-to-close log returns.
+ */
+function calculateAnnualizedVolatility(closes: number[]): number | null {
+  if (closes.length < 21) return null;
+
+  const returns: number[] = [];
+  for (let i = 1; i < closes.length; i++) {
+    returns.push(Math.log(closes[i] / closes[i - 1]));
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance =
+    returns.reduce((sum, r) => sum + (r - mean) * (r - mean), 0) / (returns.length - 1);
+
+  return Math.sqrt(variance) * Math.sqrt(TRADING_DAYS_PER_YEAR) * 100;
+}
+
+/**
+ * Largest peak-to-trough decline (percent) over the last year of closes.
+ */
+function calculateMaxDrawdown(closes: number[]): number | null {
+  if (closes.length < 21) return null;
+
+  const window = closes.slice(-TRADING_DAYS_PER_YEAR);
+  let peak = window[0];
+  let maxDrawdown = 0;
+  for (const close of window) {
+    peak = Math.max(peak, close);
+    maxDrawdown = Math.max(maxDrawdown, ((peak - close) / peak) * 100);
+  }
+  return maxDrawdown;
+}
+
+/**
+ * Earnings cyclicality from annual net income (newest first).
+ *
+ * Volatility is the standard deviation of YoY percentage changes, measured
+ * against the absolute prior-year value so swings through zero still count.
+ */
+function calculateEarningsCyclicality(annual: AnnualData[] | undefined) {
+  const incomes = (annual ?? [])
+    .map((a) => a.netIncome)
+    .filter((v): v is number => typeof v === 'number' && isFinite(v));
+
+  if (incomes.length < MIN_CYCLICALITY_YEARS) return null;
+
+  const chronological = [...incomes].reverse();
+  const changes: number[] = [];
+  for (let i = 1; i < chronological.length; i++) {
+    const prior = chronological[i - 1];
+    if (prior === 0) continue;
+    changes.push(((chronological[i] - prior) / Math.abs(prior)) * 100);
+  }
+  if (changes.length < MIN_CYCLICALITY_YEARS - 1) return null;
+
+  const mean = changes.reduce((sum, c) => sum + c, 0) / changes.length;
+  const variance = changes.reduce((sum, c) => sum + (c - mean) * (c - mean), 0) / changes.length;
+
+  return {
+    volatility: Math.sqrt(variance),
+    declineYears: changes.filter((c) => c < 0).length,
+    lossYears: incomes.filter((v) => v < 0).length,
+    years: incomes.length,
+  };
+}
+
+/**
+ * Extract all risk metrics from DecisionInput.
+ */
+function extractMetrics(input: DecisionInput) {
+  const { fundamentals } = input;
+  const annual = input.financials?.annual;
+  const closes = extractCloses(input);
+
+  // Altman Z: explicit value, otherwise computed from annual balance sheet data
+  let altmanZScore = extractMetric(fundamentals, ['altmanZScore', 'altmanZ']);
+  if (altmanZScore === null && annual && annual.length > 0) {
+    altmanZScore = calculateAltmanZScore(toFinancialMetrics(input), annual);
+  }
+
+  return {
+    deRatio: extractMetric(fundamentals, ['deRatio', 'debtToEquity']),
+    interestCoverage: extractMetric(fundamentals, ['interestCoverage']),
+    altmanZScore,
+    peRatio: extractMetric(fundamentals, ['peRatio', 'trailingPE', 'pe']),
+    volatility: calculateAnnualizedVolatility(closes),
+    maxDrawdown: calculateMaxDrawdown(closes),
+    cyclicality: calculateEarningsCyclicality(annual),
+  };
+}
+
+// ============================================================================
+// RISK FACTORS
+// ============================================================================
+
+/**
+ * Build the list of risk factors triggered by the metrics.
+ */
+function collectRiskFactors(metrics: ReturnType<typeof extractMetrics>): RiskFactor[] {
+  const factors: RiskFactor[] = [];
+
+  if (metrics.deRatio !== null) {
+    if (metrics.deRatio > 2) {
+      factors.push({
+        category: 'financial',
+        severity: 'high',
+        description: `High leverage: debt is ${metrics.deRatio.toFixed(2)}x equity.`,
+        metric: 'deRatio',
+        value: metrics.deRatio,
+      });
+    } else if (metrics.deRatio > 1) {
+      factors.push({
+        category: 'financial',
+        severity: 'medium',
+        description: `Elevated leverage: debt is ${metrics.deRatio.toFixed(2)}x equity.`,
+        metric: 'deRatio',
+        value: metrics.deRatio,
+      });
+    }
+  }
+
+  if (metrics.interestCoverage !== null) {
+    if (metrics.interestCoverage < 1.5) {
+      factors.push({
+        category: 'financial',
+        severity: 'critical',
+        description: `Operating profit barely covers interest (${metrics.interestCoverage.toFixed(1)}x).`,
+        metric: 'interestCoverage',
+        value: metrics.interestCoverage,
+      });
+    } else if (metrics.interestCoverage < 3) {
+      factors.push({
+        category: 'financial',
+        severity: 'high',
+        description: `Thin interest coverage (${metrics.interestCoverage.toFixed(1)}x).`,
+        metric: 'interestCoverage',
+        value: metrics.interestCoverage,
+      });
+    }
+  }
+
+  if (metrics.altmanZScore !== null) {
+    if (metrics.altmanZScore < ALTMAN_ZONES.distress) {
+      factors.push({
+        category: 'financial',
+        severity: 'critical',
+        description: `Altman Z-Score ${metrics.altmanZScore.toFixed(2)} is in the distress zone.`,
+        metric: 'altmanZScore',
+        value: metrics.altmanZScore,
+      });
+    } else if (metrics.altmanZScore < ALTMAN_ZONES.safe) {
+      factors.push({
+        category: 'financial',
+        severity: 'medium',
+        description: `Altman Z-Score ${metrics.altmanZScore.toFixed(2)} is in the grey zone.`,
+        metric: 'altmanZScore',
+        value: metrics.altmanZScore,
+      });
+    }
+  }
+
+  if (metrics.volatility !== null) {
+    if (metrics.volatility > 50) {
+      factors.push({
+        category: 'market',
+        severity: 'high',
+        description: `Very volatile: ${metrics.volatility.toFixed(0)}% annualized.`,
+        metric: 'volatility',
+        value: metrics.volatility,
+      });
+    } else if (metrics.volatility > 35) {
+      factors.push({
+        category: 'market',
+        severity: 'medium',
+        description: `Above-average volatility: ${metrics.volatility.toFixed(0)}% annualized.`,
+        metric: 'volatility',
+        value: metrics.volatility,
+      });
+    }
+  }
+
+  if (metrics.maxDrawdown !== null) {
+    if (metrics.maxDrawdown > 50) {
+      factors.push({
+        category: 'market',
+        severity: 'high',
+        description: `Fell ${metrics.maxDrawdown.toFixed(0)}% peak-to-trough over the past year.`,
+        metric: 'maxDrawdown',
+        value: metrics.maxDrawdown,
+      });
+    } else if (metrics.maxDrawdown > 30) {
+      factors.push({
+        category: 'market',
+        severity: 'medium',
+        description: `Max drawdown of ${metrics.maxDrawdown.toFixed(0)}% over the past year.`,
+        metric: 'maxDrawdown',
+        value: metrics.maxDrawdown,
+      });
+    }
+  }
+
+  if (metrics.peRatio !== null && metrics.peRatio <= 0) {
+    factors.push({
+      category: 'business',
+      severity: 'high',
+      description: 'Company is currently loss-making.',
+      metric: 'peRatio',
+      value: metrics.peRatio,
+    });
+  }
+
+  const { cyclicality } = metrics;
+  if (cyclicality !== null) {
+    const history = `${cyclicality.declineYears} down year${cyclicality.declineYears === 1 ? '' : 's'} in ${cyclicality.years}`;
+    if (cyclicality.volatility > CYCLICALITY_THRESHOLDS.high || cyclicality.lossYears > 0) {
+      factors.push({
+        category: 'business',
+        severity: 'high',
+        description: `Highly cyclical earnings (${history}${cyclicality.lossYears > 0 ? `, ${cyclicality.lossYears} with losses` : ''}).`,
+        metric: 'earningsCyclicality',
+        value: cyclicality.volatility,
+      });
+    } else if (cyclicality.volatility > CYCLICALITY_THRESHOLDS.medium) {
+      factors.push({
+        category: 'business',
+        severity: 'medium',
+        description: `Uneven earnings (${history}).`,
+        metric: 'earningsCyclicality',
+        value: cyclicality.volatility,
+      });
+    }
+  }
+
+  if (metrics.peRatio !== null && metrics.peRatio > 0) {
+    if (metrics.peRatio > 40) {
+      factors.push({
+        category: 'valuation',
+        severity: 'high',
+        description: `Stretched valuation (P/E ${metrics.peRatio.toFixed(1)}) leaves little room for disappointment.`,
+        metric: 'peRatio',
+        value: metrics.peRatio,
+      });
+    } else if (metrics.peRatio > 25) {
+      factors.push({
+        category: 'valuation',
+        severity: 'medium',
+        description: `Rich valuation (P/E ${metrics.peRatio.toFixed(1)}).`,
+        metric: 'peRatio',
+        value: metrics.peRatio,
+      });
+    }
+  }
+
+  return rankRiskFactors(factors);
+}
+
+/**
+ * Order factors by severity, most severe first. Stable for equal severity.
+ */
+function rankRiskFactors(factors: RiskFactor[]): RiskFactor[] {
+  return [...factors].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+}
+
+// ============================================================================
+// LEVEL & DOWNSIDE
+// ============================================================================
+
+function calculateLevel(score: number): RiskAnswer['level'] {
+  if (score >= LEVEL_THRESHOLDS.Low) return 'Low';
+  if (score >= LEVEL_THRESHOLDS.Medium) return 'Medium';
+  if (score >= LEVEL_THRESHOLDS.High) return 'High';
+  return 'Very High';
+}
+
+/**
+ * Estimated potential drop (percent). Averages ~0.8σ of annual volatility
+ * and the past year's max drawdown when available, otherwise a level-based default.
+ */
+function calculateDownside(
+  metrics: ReturnType<typeof extractMetrics>,
+  level: RiskAnswer['level']
+): number {
+  const estimates: number[] = [];
+  if (metrics.volatility !== null) estimates.push(metrics.volatility * 0.8);
+  if (metrics.maxDrawdown !== null) estimates.push(metrics.maxDrawdown);
+  if (estimates.length === 0) return DEFAULT_DOWNSIDE[level];
+
+  const average = estimates.reduce((sum, e) => sum + e, 0) / estimates.length;
+  return Math.round(clamp(average, 5, 80) * 10) / 10;
+}
+
+function generateSummary(
+  level: RiskAnswer['level'],
+  factors: RiskFactor[],
+  downside: number
+): string {
+  if (factors.length === 0) {
+    return `${level} risk - no major red flags found. Estimated downside ${downside.toFixed(0)}%.`;
+  }
+  return `${level} risk with ${factors.length} flagged factor${factors.length === 1 ? '' : 's'}, led by: ${factors[0].description} Estimated downside ${downside.toFixed(0)}%.`;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Compute risk answer from decision input.
+ *
+ * @param input - Decision data with fundamentals, annual financials and price history
+ * @returns RiskAnswer with level, inverse score, ranked risk factors, downside estimate, and summary
+ */
+export function computeRiskAnswer(input: DecisionInput): RiskAnswer {
+  const rawMetrics = extractMetrics(input);
+  const riskFactors = collectRiskFactors(rawMetrics);
+
+  const penalty = riskFactors.reduce((sum, f) => sum + SEVERITY_PENALTY[f.severity], 0);
+  const score = Math.round(clamp(100 - penalty, 0, 100));
+  const level = calculateLevel(score);
+  const downsideEstimate = calculateDownside(rawMetrics, level);
+
+  return {
+    level,
+    score,
+    riskFactors,
+    downsideEstimate,
+    summary: generateSummary(level, riskFactors, downsideEstimate),
+  };
+}
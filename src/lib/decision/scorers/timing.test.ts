@@ -0,0 +1,392 @@
+/**
+ * Timing Scorer Tests
+ *
+ * Phase 1.5: Timing scorer test suite
+ *
+ * Tests cover:
+ * - Full data scenarios (uptrend, downtrend, pullbacks)
+ * - Moving average position (MA50 / MA200)
+ * - 52-week high distance
+ * - Volume trend classification
+ * - SETTRADE market regime vs indexTrend fallback
+ * - Partial / no data scenarios
+ * - Deterministic behavior and weight verification
+ */
+
+import { describe, test, expect } from 'vitest';
+import { computeTimingAnswer } from './timing';
+import { calculateMarketRegime } from '@/lib/analysis/market-regime';
+import type { DecisionInput } from '@/types/decision';
+import type { MarketRegime } from '@/types/market';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+/**
+ * Linear price path from `start` to `end` over `days` trading days.
+ */
+function linearCloses(start: number, end: number, days: number): number[] {
+  const step = (end - start) / (days - 1);
+  return Array.from({ length: days }, (_, i) => start + step * i);
+}
+
+/**
+ * Build a price history with constant volume unless overridden.
+ */
+function buildHistory(
+  closes: number[],
+  volumes: number[] = closes.map(() => 1_000_000)
+): NonNullable<DecisionInput['history']> {
+  return {
+    prices: closes.map((close, i) => ({
+      date: `2024-01-${String(i + 1).padStart(3, '0')}`,
+      close,
+      volume: volumes[i],
+    })),
+  };
+}
+
+/**
+ * Build a regime by label using representative sector / investor data.
+ */
+function regimeOf(label: MarketRegime['regime']): MarketRegime {
+  const scenarios: Record<MarketRegime['regime'], { chg: number[]; net: number }> = {
+    'STRONG BULL': { chg: [1.5, 1.2, 1.1, 0.9, 1.3], net: 500 },
+    BULL: { chg: [0.8, 0.5, 0.4, -0.1, 0.2], net: 100 },
+    NEUTRAL: { chg: [0.1, -0.1, 0.2, -0.2, 0], net: 0 },
+    BEAR: { chg: [-0.5, -0.4, 0.1, -0.3, -0.2], net: 50 },
+    'STRONG BEAR': { chg: [-1.0, -0.8, -0.9, -0.6, 0.2], net: -400 },
+  };
+  const { chg, net } = scenarios[label];
+  const regime = calculateMarketRegime(
+    chg.map((chgPct) => ({ chgPct, valMn: 5000 })),
+    [
+      { id: 'FOREIGN', netValue: net },
+      { id: 'LOCAL_INST', netValue: 0 },
+    ]
+  );
+  expect(regime.regime).toBe(label);
+  return regime;
+}
+
+const UPTREND = linearCloses(50, 100, 260);
+const DOWNTREND = linearCloses(100, 50, 260);
+
+// ============================================================================
+// TEST CASE 1: Full Data
+// ============================================================================
+
+describe('full data - price history and market regime', () => {
+  test('should rate a stage-2 uptrend in a bull market as Excellent', () => {
+    const result = computeTimingAnswer({
+      history: buildHistory(UPTREND),
+      market: { regime: regimeOf('BULL') },
+    });
+
+    // trend 100, 52w 100, volume stable+rising price 60, BULL 80
+    expect(result.score).toBe(89);
+    expect(result.rating).toBe('Excellent');
+    expect(result.regime).toBe('bullish');
+    expect(result.metrics.technicalPosition).toBe('Above MA50 & MA200');
+    expect(result.metrics.priceVs52wHigh).toBe(0);
+    expect(result.metrics.volumeTrend).toBe('stable');
+    expect(result.metrics.marketTrend).toBe('BULL');
+  });
+
+  test('should rate a downtrend in a strong bear market as Poor', () => {
+    const result = computeTimingAnswer({
+      history: buildHistory(DOWNTREND),
+      market: { regime: regimeOf('STRONG BEAR') },
+    });
+
+    expect(result.score).toBeLessThan(35);
+    expect(result.rating).toBe('Poor');
+    expect(result.regime).toBe('bearish');
+    expect(result.metrics.technicalPosition).toBe('Below MA50 & MA200');
+    expect(result.metrics.priceVs52wHigh).toBeLessThan(-40);
+  });
+
+  test('should rate a neutral market with a healthy chart in the middle', () => {
+    const result = computeTimingAnswer({
+      history: buildHistory(UPTREND),
+      market: { regime: regimeOf('NEUTRAL') },
+    });
+
+    expect(result.score).toBeGreaterThanOrEqual(65);
+    expect(result.score).toBeLessThan(89);
+    expect(result.regime).toBe('neutral');
+  });
+
+  test('should use quote price over last close when available', () => {
+    const result = computeTimingAnswer({
+      quote: { price: 80 },
+      history: buildHistory(UPTREND),
+    });
+
+    // 80 vs high of 100 → -20%
+    expect(result.metrics.priceVs52wHigh).toBeCloseTo(-20, 5);
+  });
+});
+
+// ============================================================================
+// TEST CASE 2: Moving Average Position
+// ============================================================================
+
+describe('moving average position', () => {
+  test('should detect pullback above MA200 but below MA50', () => {
+    const result = computeTimingAnswer({
+      quote: { price: 90 },
+      history: buildHistory(UPTREND),
+    });
+    expect(result.metrics.technicalPosition).toBe('Above MA200, below MA50');
+  });
+
+  test('should detect a bounce above MA50 but below MA200', () => {
+    const result = computeTimingAnswer({
+      quote: { price: 60 },
+      history: buildHistory(DOWNTREND),
+    });
+    expect(result.metrics.technicalPosition).toBe('Above MA50, below MA200');
+  });
+
+  test('should score MA alignment monotonically', () => {
+    const aligned = computeTimingAnswer({ history: buildHistory(UPTREND) });
+    const pullback = computeTimingAnswer({ quote: { price: 90 }, history: buildHistory(UPTREND) });
+    const broken = computeTimingAnswer({ quote: { price: 75 }, history: buildHistory(UPTREND) });
+
+    expect(aligned.score).toBeGreaterThan(pullback.score);
+    expect(pullback.score).toBeGreaterThan(broken.score);
+  });
+
+  test('should fall back to MA50 only with less than 200 days of history', () => {
+    const result = computeTimingAnswer({ history: buildHistory(linearCloses(50, 60, 80)) });
+    expect(result.metrics.technicalPosition).toBe('Above MA50');
+  });
+
+  test('should report below MA50 with short falling history', () => {
+    const result = computeTimingAnswer({ history: buildHistory(linearCloses(60, 50, 80)) });
+    expect(result.metrics.technicalPosition).toBe('Below MA50');
+  });
+
+  test('should report insufficient data with fewer than 50 days', () => {
+    const result = computeTimingAnswer({ history: buildHistory(linearCloses(50, 60, 30)) });
+    expect(result.metrics.technicalPosition).toBe('Insufficient data');
+  });
+});
+
+// ============================================================================
+// TEST CASE 3: 52-Week High
+// ============================================================================
+
+describe('52-week high distance', () => {
+  test('should never report a positive distance above the high', () => {
+    const result = computeTimingAnswer({ quote: { price: 150 }, history: buildHistory(UPTREND) });
+    expect(result.metrics.priceVs52wHigh).toBe(0);
+  });
+
+  test('should only look back 252 trading days', () => {
+    // Spike to 500 more than a year ago, then flat at 100
+    const closes = [500, ...Array.from({ length: 260 }, () => 100)];
+    const result = computeTimingAnswer({ history: buildHistory(closes) });
+    expect(result.metrics.priceVs52wHigh).toBe(0);
+  });
+
+  test('should flag leadership territory near the high', () => {
+    const result = computeTimingAnswer({ quote: { price: 97 }, history: buildHistory(UPTREND) });
+    expect(result.keyPoints.some((p) => p.includes('leadership'))).toBe(true);
+  });
+
+  test('should flag chart repair when far below the high', () => {
+    const result = computeTimingAnswer({ quote: { price: 60 }, history: buildHistory(UPTREND) });
+    expect(result.keyPoints.some((p) => p.includes('repairing'))).toBe(true);
+  });
+});
+
+// ============================================================================
+// TEST CASE 4: Volume Trend
+// ============================================================================
+
+describe('volume trend', () => {
+  test('should classify rising volume', () => {
+    const volumes = UPTREND.map((_, i) => (i >= UPTREND.length - 20 ? 2_000_000 : 1_000_000));
+    const result = computeTimingAnswer({ history: buildHistory(UPTREND, volumes) });
+    expect(result.metrics.volumeTrend).toBe('rising');
+  });
+
+  test('should classify falling volume', () => {
+    const volumes = UPTREND.map((_, i) => (i >= UPTREND.length - 20 ? 500_000 : 1_000_000));
+    const result = computeTimingAnswer({ history: buildHistory(UPTREND, volumes) });
+    expect(result.metrics.volumeTrend).toBe('falling');
+  });
+
+  test('should reward rising volume in an uptrend', () => {
+    const rising = UPTREND.map((_, i) => (i >= UPTREND.length - 20 ? 2_000_000 : 1_000_000));
+    const withVolume = computeTimingAnswer({ history: buildHistory(UPTREND, rising) });
+    const flat = computeTimingAnswer({ history: buildHistory(UPTREND) });
+    expect(withVolume.score).toBeGreaterThan(flat.score);
+  });
+
+  test('should penalize rising volume in a downtrend', () => {
+    const rising = DOWNTREND.map((_, i) => (i >= DOWNTREND.length - 20 ? 2_000_000 : 1_000_000));
+    const withVolume = computeTimingAnswer({ history: buildHistory(DOWNTREND, rising) });
+    const flat = computeTimingAnswer({ history: buildHistory(DOWNTREND) });
+    expect(withVolume.score).toBeLessThan(flat.score);
+  });
+
+  test('should report unknown volume trend without volume data', () => {
+    const result = computeTimingAnswer({
+      history: { prices: UPTREND.map((close, i) => ({ date: String(i), close })) },
+    });
+    expect(result.metrics.volumeTrend).toBe('unknown');
+  });
+});
+
+// ============================================================================
+// TEST CASE 5: Market Regime
+// ============================================================================
+
+describe('market regime', () => {
+  test.each([
+    ['STRONG BULL', 100, 'bullish'],
+    ['BULL', 80, 'bullish'],
+    ['NEUTRAL', 50, 'neutral'],
+    ['BEAR', 25, 'bearish'],
+    ['STRONG BEAR', 5, 'bearish'],
+  ] as const)('should score %s regime as %i (%s)', (label, expectedScore, direction) => {
+    // With only market data, score equals the regime score
+    const result = computeTimingAnswer({ market: { regime: regimeOf(label) } });
+    expect(result.score).toBe(expectedScore);
+    expect(result.regime).toBe(direction);
+  });
+
+  test('should prefer SETTRADE regime over indexTrend', () => {
+    const result = computeTimingAnswer({
+      market: { regime: regimeOf('BEAR'), indexTrend: 'bullish' },
+    });
+    expect(result.regime).toBe('bearish');
+    expect(result.metrics.marketTrend).toBe('BEAR');
+  });
+
+  test.each([
+    ['bull', 'bullish'],
+    ['UP', 'bullish'],
+    ['Bearish', 'bearish'],
+    ['downtrend', 'bearish'],
+    ['sideways', 'neutral'],
+  ] as const)('should parse indexTrend "%s" as %s', (trend, expected) => {
+    const result = computeTimingAnswer({ market: { indexTrend: trend } });
+    expect(result.regime).toBe(expected);
+    expect(result.metrics.marketTrend).toBe(expected);
+  });
+
+  test('should ignore unrecognized indexTrend labels', () => {
+    const result = computeTimingAnswer({ market: { indexTrend: 'volatile' } });
+    expect(result.metrics.marketTrend).toBe('unknown');
+    expect(result.score).toBe(50);
+  });
+
+  test('should derive regime from the stock trend when market data is missing', () => {
+    expect(computeTimingAnswer({ history: buildHistory(UPTREND) }).regime).toBe('bullish');
+    expect(computeTimingAnswer({ history: buildHistory(DOWNTREND) }).regime).toBe('bearish');
+  });
+});
+
+// ============================================================================
+// TEST CASE 6: Partial / No Data
+// ============================================================================
+
+describe('partial and no data', () => {
+  test('should return neutral score with empty input', () => {
+    const result = computeTimingAnswer({});
+
+    expect(result.score).toBe(50);
+    expect(result.rating).toBe('Fair');
+    expect(result.regime).toBe('neutral');
+    expect(result.metrics).toEqual({
+      marketTrend: 'unknown',
+      priceVs52wHigh: 0,
+      volumeTrend: 'unknown',
+      technicalPosition: 'Insufficient data',
+    });
+  });
+
+  test('should list missing metrics in key points', () => {
+    const result = computeTimingAnswer({ market: { regime: regimeOf('BULL') } });
+    const limited = result.keyPoints.find((p) => p.startsWith('Limited data'));
+    expect(limited).toContain('trendPosition');
+    expect(limited).toContain('volumeTrend');
+  });
+
+  test('should skip invalid closes', () => {
+    const closes = [...UPTREND];
+    closes[100] = NaN;
+    closes[101] = 0;
+    closes[102] = -5;
+    const result = computeTimingAnswer({ history: buildHistory(closes) });
+    expect(result.metrics.technicalPosition).toBe('Above MA50 & MA200');
+  });
+
+  test('should ignore a zero or null quote price', () => {
+    const zero = computeTimingAnswer({ quote: { price: 0 }, history: buildHistory(UPTREND) });
+    const none = computeTimingAnswer({ quote: { price: null }, history: buildHistory(UPTREND) });
+    expect(zero.metrics.priceVs52wHigh).toBe(0);
+    expect(none.metrics.priceVs52wHigh).toBe(0);
+  });
+});
+
+// ============================================================================
+// TEST CASE 7: Determinism, Weights and Output
+// ============================================================================
+
+describe('deterministic behavior', () => {
+  test('should return identical results for identical input', () => {
+    const input: DecisionInput = {
+      history: buildHistory(UPTREND),
+      market: { regime: regimeOf('BULL') },
+    };
+    expect(computeTimingAnswer(input)).toEqual(computeTimingAnswer(input));
+  });
+});
+
+describe('weight verification', () => {
+  test('should weight trend position 35%, 52w 25%, volume 15%, market 25%', () => {
+    // Uptrend (100, 100, 60) + STRONG BEAR (5)
+    const result = computeTimingAnswer({
+      history: buildHistory(UPTREND),
+      market: { regime: regimeOf('STRONG BEAR') },
+    });
+    expect(result.score).toBe(Math.round(100 * 0.35 + 100 * 0.25 + 60 * 0.15 + 5 * 0.25));
+  });
+
+  test('should re-normalize weights when the market is unknown', () => {
+    const result = computeTimingAnswer({ history: buildHistory(UPTREND) });
+    expect(result.score).toBe(Math.round((100 * 0.35 + 100 * 0.25 + 60 * 0.15) / 0.75));
+  });
+});
+
+describe('key points and summary', () => {
+  test('should return at most 6 key points', () => {
+    const result = computeTimingAnswer({
+      history: buildHistory(UPTREND),
+      market: { regime: regimeOf('BULL') },
+    });
+    expect(result.keyPoints.length).toBeGreaterThan(0);
+    expect(result.keyPoints.length).toBeLessThanOrEqual(6);
+  });
+
+  test('should mention rating, score and regime in summary', () => {
+    const result = computeTimingAnswer({
+      history: buildHistory(UPTREND),
+      market: { regime: regimeOf('BULL') },
+    });
+    expect(result.summary).toContain('Excellent');
+    expect(result.summary).toContain('89/100');
+    expect(result.summary).toContain('bullish');
+  });
+
+  test('should mention the SET regime when provided', () => {
+    const result = computeTimingAnswer({ market: { regime: regimeOf('STRONG BULL') } });
+    expect(result.keyPoints).toContain('SET market regime is STRONG BULL.');
+  });
+});
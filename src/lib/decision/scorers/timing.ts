@@ -0,0 +1,332 @@
+/**
+ * Timing Scorer - Q4: "Is the TIMING right?"
+ *
+ * Phase 1.5: Timing scorer module
+ *
+ * Evaluates technical timing using 4 weighted metrics:
+ * - Trend Position (35%): Price vs MA50 / MA200 alignment
+ * - 52-Week High Distance (25%): -40% or worse → 0, at the high → 100
+ * - Volume Trend (15%): 20-day vs 50-day average volume, read with price direction
+ * - Market Trend (25%): SET market regime (`market.regime`, computed from
+ *   SETTRADE breadth and smart money flow), falling back to `market.indexTrend`
+ *
+ * Market regime scoring:
+ * - STRONG BULL → 100, BULL → 80, NEUTRAL → 50, BEAR → 25, STRONG BEAR → 5
+ *
+ * Regime comes from the market trend when available, otherwise from the
+ * stock's own trend position.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { DecisionInput, TimingAnswer } from '@/types/decision';
+import type { MarketRegimeLabel } from '@/types/market';
+import { getRegimeDirection } from '@/lib/analysis/market-regime';
+import {
+  calculateRating,
+  extractCloses,
+  scaleToScore,
+  simpleMovingAverage,
+  weightedScore,
+} from './utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Metric weights - must sum to 1.0
+ */
+const WEIGHTS = {
+  trendPosition: 0.35,
+  priceVs52wHigh: 0.25,
+  volumeTrend: 0.15,
+  marketTrend: 0.25,
+} as const;
+
+type TimingMetricKey = keyof typeof WEIGHTS;
+
+/**
+ * Trading-day windows
+ */
+const WINDOWS = {
+  shortMa: 50,
+  longMa: 200,
+  yearHigh: 252,
+  volumeShort: 20,
+  volumeLong: 50,
+} as const;
+
+/**
+ * Volume ratio thresholds (20-day avg / 50-day avg)
+ */
+const VOLUME_THRESHOLDS = {
+  rising: 1.2,
+  falling: 0.8,
+} as const;
+
+/**
+ * Market score per SETTRADE regime label
+ */
+const REGIME_SCORES: Record<MarketRegimeLabel, number> = {
+  'STRONG BULL': 100,
+  BULL: 80,
+  NEUTRAL: 50,
+  BEAR: 25,
+  'STRONG BEAR': 5,
+};
+
+type Direction = 'bullish' | 'neutral' | 'bearish';
+type VolumeTrend = 'rising' | 'stable' | 'falling';
+
+// ============================================================================
+// METRIC EXTRACTION
+// ============================================================================
+
+/**
+ * Map free-form trend labels ("bull", "UP", "STRONG BEAR", ...) onto a direction.
+ */
+function parseMarketTrend(trend: string | undefined): Direction | null {
+  if (!trend) return null;
+  const t = trend.toLowerCase();
+  if (t.includes('bull') || t === 'up' || t === 'uptrend') return 'bullish';
+  if (t.includes('bear') || t === 'down' || t === 'downtrend') return 'bearish';
+  if (t.includes('neutral') || t === 'sideways') return 'neutral';
+  return null;
+}
+
+/**
+ * Extract all timing metrics from DecisionInput.
+ */
+function extractMetrics(input: DecisionInput) {
+  const closes = extractCloses(input);
+  const volumes = (input.history?.prices ?? [])
+    .map((p) => p.volume)
+    .filter((v): v is number => typeof v === 'number' && isFinite(v) && v >= 0);
+
+  const quotePrice = input.quote?.price;
+  const price =
+    typeof quotePrice === 'number' && quotePrice > 0
+      ? quotePrice
+      : closes.length > 0
+        ? closes[closes.length - 1]
+        : null;
+
+  const ma50 = simpleMovingAverage(closes, WINDOWS.shortMa);
+  const ma200 = simpleMovingAverage(closes, WINDOWS.longMa);
+
+  const yearCloses = closes.slice(-WINDOWS.yearHigh);
+  const high52w = yearCloses.length > 0 ? Math.max(...yearCloses) : null;
+  const priceVs52wHigh =
+    price !== null && high52w !== null && high52w > 0
+      ? Math.min(0, ((price - high52w) / high52w) * 100)
+      : null;
+
+  const volShort = simpleMovingAverage(volumes, WINDOWS.volumeShort);
+  const volLong = simpleMovingAverage(volumes, WINDOWS.volumeLong);
+  const volumeRatio = volShort !== null && volLong !== null && volLong > 0 ? volShort / volLong : null;
+
+  const marketRegime = input.market?.regime?.regime ?? null;
+
+  return {
+    price,
+    ma50,
+    ma200,
+    priceVs52wHigh,
+    volumeRatio,
+    marketRegime,
+    marketTrend: marketRegime
+      ? getRegimeDirection(marketRegime)
+      : parseMarketTrend(input.market?.indexTrend),
+  };
+}
+
+// ============================================================================
+// DERIVED METRICS
+// ============================================================================
+
+/**
+ * Describe where price sits relative to its moving averages.
+ */
+function describeTechnicalPosition(metrics: ReturnType<typeof extractMetrics>): string {
+  const { price, ma50, ma200 } = metrics;
+  if (price === null || ma50 === null) return 'Insufficient data';
+  if (ma200 === null) return price >= ma50 ? 'Above MA50' : 'Below MA50';
+  if (price >= ma50 && price >= ma200) return 'Above MA50 & MA200';
+  if (price >= ma200) return 'Above MA200, below MA50';
+  if (price >= ma50) return 'Above MA50, below MA200';
+  return 'Below MA50 & MA200';
+}
+
+function classifyVolumeTrend(ratio: number | null): VolumeTrend | null {
+  if (ratio === null) return null;
+  if (ratio >= VOLUME_THRESHOLDS.rising) return 'rising';
+  if (ratio <= VOLUME_THRESHOLDS.falling) return 'falling';
+  return 'stable';
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * Score MA alignment. Price > MA50 > MA200 is the ideal stage-2 uptrend.
+ */
+function normalizeTrendPosition(metrics: ReturnType<typeof extractMetrics>): number | null {
+  const { price, ma50, ma200 } = metrics;
+  if (price === null || ma50 === null) return null;
+
+  if (ma200 === null) return price >= ma50 ? 65 : 35;
+
+  if (price >= ma50 && ma50 >= ma200) return 100;
+  if (price >= ma200 && ma50 >= ma200) return 80;
+  if (price >= ma200) return 65;
+  if (price >= ma50) return 40;
+  if (ma50 < ma200) return 10;
+  return 25;
+}
+
+/**
+ * Rising volume confirms the prevailing price direction.
+ */
+function normalizeVolumeTrend(
+  trend: VolumeTrend | null,
+  metrics: ReturnType<typeof extractMetrics>
+): number | null {
+  if (trend === null) return null;
+  const priceRising =
+    metrics.price !== null && metrics.ma50 !== null ? metrics.price >= metrics.ma50 : true;
+
+  if (priceRising) {
+    return trend === 'rising' ? 90 : trend === 'stable' ? 60 : 40;
+  }
+  return trend === 'rising' ? 20 : trend === 'stable' ? 45 : 60;
+}
+
+/**
+ * Score the broad market. The 5-level SETTRADE regime is preferred over the
+ * coarser direction parsed from indexTrend.
+ */
+function normalizeMarketTrend(
+  regime: MarketRegimeLabel | null,
+  trend: Direction | null
+): number | null {
+  if (regime !== null) return REGIME_SCORES[regime];
+  if (trend === null) return null;
+  if (trend === 'bullish') return 90;
+  if (trend === 'bearish') return 15;
+  return 50;
+}
+
+// ============================================================================
+// REGIME
+// ============================================================================
+
+/**
+ * Market regime takes precedence; fall back to the stock's own trend.
+ */
+function calculateRegime(
+  marketTrend: Direction | null,
+  trendScore: number | null
+): TimingAnswer['regime'] {
+  if (marketTrend !== null) return marketTrend;
+  if (trendScore === null) return 'neutral';
+  if (trendScore >= 65) return 'bullish';
+  if (trendScore <= 35) return 'bearish';
+  return 'neutral';
+}
+
+// ============================================================================
+// KEY POINTS GENERATION
+// ============================================================================
+
+function generateKeyPoints(
+  metrics: ReturnType<typeof extractMetrics>,
+  technicalPosition: string,
+  volumeTrend: VolumeTrend | null,
+  missingMetrics: string[]
+): string[] {
+  const points: string[] = [];
+
+  if (technicalPosition !== 'Insufficient data') {
+    points.push(`Price is ${technicalPosition.charAt(0).toLowerCase()}${technicalPosition.slice(1)}.`);
+  }
+
+  if (metrics.priceVs52wHigh !== null) {
+    const pct = Math.abs(metrics.priceVs52wHigh);
+    if (pct <= 5) {
+      points.push(`Trading within ${pct.toFixed(1)}% of the 52-week high - leadership territory.`);
+    } else if (pct <= 25) {
+      points.push(`${pct.toFixed(1)}% below the 52-week high.`);
+    } else {
+      points.push(`${pct.toFixed(1)}% below the 52-week high - still repairing the chart.`);
+    }
+  }
+
+  if (volumeTrend !== null && metrics.volumeRatio !== null) {
+    points.push(`Volume is ${volumeTrend} (20d/50d ratio ${metrics.volumeRatio.toFixed(2)}x).`);
+  }
+
+  if (metrics.marketRegime !== null) {
+    points.push(`SET market regime is ${metrics.marketRegime}.`);
+  } else if (metrics.marketTrend !== null) {
+    points.push(`Broad market trend is ${metrics.marketTrend}.`);
+  }
+
+  if (missingMetrics.length > 0) {
+    points.push(`Limited data: ${missingMetrics.join(', ')} not available`);
+  }
+
+  return points.slice(0, 6);
+}
+
+function generateSummary(
+  rating: TimingAnswer['rating'],
+  score: number,
+  regime: TimingAnswer['regime']
+): string {
+  return `${rating} timing (${score}/100) in a ${regime} regime.`;
+}
+
+// ============================================================================
+// MAIN FUNCTION
+// ============================================================================
+
+/**
+ * Compute timing answer from decision input.
+ *
+ * @param input - Decision data with price history and optional market regime/trend
+ * @returns TimingAnswer with score, rating, regime, key points, metrics, and summary
+ */
+export function computeTimingAnswer(input: DecisionInput): TimingAnswer {
+  const rawMetrics = extractMetrics(input);
+  const technicalPosition = describeTechnicalPosition(rawMetrics);
+  const volumeTrend = classifyVolumeTrend(rawMetrics.volumeRatio);
+
+  const normalized: Record<TimingMetricKey, number | null> = {
+    trendPosition: normalizeTrendPosition(rawMetrics),
+    priceVs52wHigh:
+      rawMetrics.priceVs52wHigh !== null ? scaleToScore(rawMetrics.priceVs52wHigh, -40, 0) : null,
+    volumeTrend: normalizeVolumeTrend(volumeTrend, rawMetrics),
+    marketTrend: normalizeMarketTrend(rawMetrics.marketRegime, rawMetrics.marketTrend),
+  };
+
+  const { score, missing } = weightedScore(WEIGHTS, normalized);
+  const roundedScore = Math.round(score);
+  const rating = calculateRating(roundedScore);
+  const regime = calculateRegime(rawMetrics.marketTrend, normalized.trendPosition);
+
+  return {
+    score: roundedScore,
+    rating,
+    regime,
+    keyPoints: generateKeyPoints(rawMetrics, technicalPosition, volumeTrend, missing),
+    metrics: {
+      marketTrend: rawMetrics.marketRegime ?? rawMetrics.marketTrend ?? 'unknown',
+      priceVs52wHigh: rawMetrics.priceVs52wHigh ?? 0,
+      volumeTrend: volumeTrend ?? 'unknown',
+      technicalPosition,
+    },
+    summary: generateSummary(rating, roundedScore, regime),
+  };
+}
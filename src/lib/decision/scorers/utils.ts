@@ -0,0 +1,168 @@
+/**
+ * Decision Scorers - Shared Helpers
+ *
+ * Phase 1: Foundation - Small pure helpers shared by the scorer modules
+ *
+ * Kept deliberately minimal: metric extraction, clamping, weighted
+ * averaging with missing-data handling and the common 5-step rating scale.
+ */
+
+import type { DecisionInput } from '@/types/decision';
+import type { FinancialMetrics } from '@/types/financials';
+import type { HistoricalPrice } from '@/types/market';
+
+/**
+ * 5-step rating used by the quality, growth and timing answers.
+ */
+export type ScoreRating = 'Excellent' | 'Good' | 'Fair' | 'Weak' | 'Poor';
+
+/**
+ * Rating thresholds based on score (0-100).
+ * Mirrors getCanslimRating / getSpeaRating in lib/analysis.
+ */
+export const RATING_THRESHOLDS = {
+  Excellent: 80,
+  Good: 65,
+  Fair: 50,
+  Weak: 35,
+  Poor: 0,
+} as const;
+
+/**
+ * Extract the first numeric value found under any of the given keys.
+ * Returns null for missing, non-numeric or NaN values.
+ */
+export function extractMetric(
+  fundamentals: DecisionInput['fundamentals'],
+  keys: string[]
+): number | null {
+  if (!fundamentals) return null;
+
+  for (const key of keys) {
+    const value = fundamentals[key];
+    if (typeof value === 'number' && isFinite(value)) {
+      return value;
+    }
+  }
+  return null;
+}
+
+/**
+ * Clamp a value into [min, max].
+ */
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Linearly map a value from [low, high] onto a 0-100 score.
+ * Values outside the range are clamped. Pass low > high for inverse scoring.
+ */
+export function scaleToScore(value: number, low: number, high: number): number {
+  if (low === high) return 50;
+  return clamp(((value - low) / (high - low)) * 100, 0, 100);
+}
+
+/**
+ * Weighted average of normalized scores, skipping metrics with no raw data.
+ *
+ * @returns score (50 when nothing is available) and the list of missing metric keys
+ */
+export function weightedScore<K extends string>(
+  weights: Record<K, number>,
+  normalized: Record<K, number | null>
+): { score: number; missing: K[] } {
+  let totalWeight = 0;
+  let weightedSum = 0;
+  const missing: K[] = [];
+
+  for (const key of Object.keys(weights) as K[]) {
+    const value = normalized[key];
+    if (value === null) {
+      missing.push(key);
+      continue;
+    }
+    totalWeight += weights[key];
+    weightedSum += value * weights[key];
+  }
+
+  return {
+    score: totalWeight > 0 ? weightedSum / totalWeight : 50,
+    missing,
+  };
+}
+
+/**
+ * Map a 0-100 score onto the 5-step rating scale.
+ */
+export function calculateRating(score: number): ScoreRating {
+  if (score >= RATING_THRESHOLDS.Excellent) return 'Excellent';
+  if (score >= RATING_THRESHOLDS.Good) return 'Good';
+  if (score >= RATING_THRESHOLDS.Fair) return 'Fair';
+  if (score >= RATING_THRESHOLDS.Weak) return 'Weak';
+  return 'Poor';
+}
+
+/**
+ * Closing prices from the input history, oldest first, with invalid points removed.
+ */
+export function extractCloses(input: DecisionInput): number[] {
+  const prices = input.history?.prices ?? [];
+  return prices
+    .map((p) => p.close)
+    .filter((c): c is number => typeof c === 'number' && isFinite(c) && c > 0);
+}
+
+/**
+ * Daily bars from the input history, oldest first, with invalid closes removed.
+ * A missing high or low falls back to the close and missing volume to 0.
+ */
+export function extractBars(
+  input: DecisionInput
+): Array<Pick<HistoricalPrice, 'date' | 'high' | 'low' | 'close' | 'volume'>> {
+  const prices = input.history?.prices ?? [];
+  return prices
+    .filter((p): p is typeof p & { close: number } => typeof p.close === 'number' && isFinite(p.close) && p.close > 0)
+    .map((p) => ({
+      date: p.date,
+      high: p.high || p.close,
+      low: p.low || p.close,
+      close: p.close,
+      volume: p.volume || 0,
+    }));
+}
+
+/**
+ * Simple moving average of the last `period` values, or null if not enough data.
+ */
+export function simpleMovingAverage(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  const window = values.slice(-period);
+  return window.reduce((sum, v) => sum + v, 0) / period;
+}
+
+/**
+ * Build a FinancialMetrics object from the loosely-typed fundamentals map
+ * so the existing lib/analysis calculators can be reused.
+ */
+export function toFinancialMetrics(input: DecisionInput): FinancialMetrics {
+  const f = input.fundamentals;
+  return {
+    revenue: extractMetric(f, ['revenue']),
+    revenueGrowth: extractMetric(f, ['revenueGrowth']),
+    netIncome: extractMetric(f, ['netIncome']),
+    profitMargin: extractMetric(f, ['profitMargin']),
+    grossMargin: extractMetric(f, ['grossMargin']),
+    operatingMargin: extractMetric(f, ['operatingMargin']),
+    peRatio: extractMetric(f, ['peRatio', 'trailingPE', 'pe']),
+    pbRatio: extractMetric(f, ['pbRatio', 'priceToBook', 'pb']),
+    roe: extractMetric(f, ['roe', 'returnOnEquity']),
+    deRatio: extractMetric(f, ['deRatio', 'debtToEquity']),
+    interestCoverage: extractMetric(f, ['interestCoverage']),
+    eps: extractMetric(f, ['eps']),
+    epsGrowth: extractMetric(f, ['epsGrowth']),
+    freeCashFlow: extractMetric(f, ['freeCashFlow']),
+    dividendYield: extractMetric(f, ['dividendYield']),
+    marketCap: extractMetric(f, ['marketCap']) ?? input.quote?.marketCap ?? null,
+  };
+}
@@ -26,7 +26,7 @@ import type { DecisionInput } from '@/types/decision';
 function createInput(
   overrides: {
     quote?: Partial<DecisionInput['quote']>;
-    fundamentals?: Partial<DecisionInput['fundamentals']>;
+    fundamentals?: DecisionInput['fundamentals'];
   } = {}
 ): DecisionInput {
   const quote: DecisionInput['quote'] = overrides.quote ?? {};
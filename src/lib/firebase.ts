@@ -1,6 +1,6 @@
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
 import { getDatabase, Database } from 'firebase/database';
-import { getAuth, Auth } from 'firebase/auth';
+import { getAuth, connectAuthEmulator, Auth } from 'firebase/auth';
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY,
@@ -45,12 +45,33 @@ if (existingApps.length > 0) {
 export const db: Database = getDatabase(app);
 export const auth: Auth = getAuth(app);
 
+// Local development against the Auth emulator (e.g. http://127.0.0.1:9099)
+const authEmulatorUrl = process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_URL;
+if (authEmulatorUrl && typeof window !== 'undefined' && !auth.emulatorConfig) {
+  connectAuthEmulator(auth, authEmulatorUrl, { disableWarnings: true });
+}
+
 // Database paths
+// WATCHLIST, PORTFOLIO, USER_PREFERENCES, SAVED_SCREENS, ALERT_RULES and
+// NOTIFICATIONS are user-owned and live under users/{uid}/ (see userPath);
+// SETTRADE and RELATIVE_STRENGTH paths are shared market data.
 export const DB_PATHS = {
+  USERS: 'users',
   WATCHLIST: 'watchlist',
   PORTFOLIO: 'portfolio',
   USER_PREFERENCES: 'userPreferences',
   SETTRADE: 'settrade',
   SETTRADE_INDUSTRY_SECTOR: 'settrade/industrySector',
   SETTRADE_INVESTOR_TYPE: 'settrade/investorType',
+  SAVED_SCREENS: 'savedScreens',
+  ALERT_RULES: 'alertRules',
+  NOTIFICATIONS: 'notifications',
+  RELATIVE_STRENGTH: 'relativeStrength',
 } as const;
+
+/**
+ * Path of a user-owned node, e.g. userPath(uid, DB_PATHS.WATCHLIST) → users/{uid}/watchlist
+ */
+export function userPath(uid: string, path: string): string {
+  return `${DB_PATHS.USERS}/${uid}/${path}`;
+}
@@ -0,0 +1,169 @@
+/**
+ * Firebase Realtime Database Service for Alerts
+ * Rules and triggered notifications stored per user:
+ *
+ *   users/{uid}/alertRules/{id}    = AlertRule (without id)
+ *   users/{uid}/notifications/{id} = AlertNotification (without id)
+ *
+ * Mutations return null / false when the rule does not exist.
+ */
+
+import { DB_PATHS, userPath } from '@/lib/firebase';
+import { restGet, restKeys, restPush, restRemove, restUpdate, type UserSession } from './rest';
+import type {
+  AlertNotification,
+  AlertRule,
+  AlertRuleState,
+  NewAlertNotification,
+  NewAlertRule,
+} from '@/types/alerts';
+
+/**
+ * Most notifications kept per user; older ones are pruned when new ones arrive
+ */
+const MAX_NOTIFICATIONS = 100;
+
+function rulesPath(session: UserSession): string {
+  return userPath(session.uid, DB_PATHS.ALERT_RULES);
+}
+
+function notificationsPath(session: UserSession): string {
+  return userPath(session.uid, DB_PATHS.NOTIFICATIONS);
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Get all alert rules, oldest first
+ */
+export async function getAlertRules(session: UserSession): Promise<AlertRule[]> {
+  const stored = await restGet<Record<string, Omit<AlertRule, 'id'>>>(rulesPath(session), session);
+  if (!stored) return [];
+
+  return Object.entries(stored)
+    .filter(([, rule]) => !!rule.type) // state written for a rule deleted mid-evaluation
+    .map(([id, rule]) => ({ ...rule, id }))
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Create a rule and return it with its generated id
+ */
+export async function createAlertRule(session: UserSession, input: NewAlertRule): Promise<AlertRule> {
+  const rule: Omit<AlertRule, 'id'> = { ...JSON.parse(JSON.stringify(input)), createdAt: Date.now() };
+  const id = await restPush(rulesPath(session), rule, session);
+  return { ...rule, id };
+}
+
+/**
+ * Enable or disable a rule
+ */
+export async function setAlertRuleEnabled(
+  session: UserSession,
+  id: string,
+  enabled: boolean
+): Promise<AlertRule | null> {
+  const path = `${rulesPath(session)}/${id}`;
+  const existing = await restGet<Omit<AlertRule, 'id'>>(path, session);
+  if (!existing) return null;
+
+  await restUpdate(path, { enabled }, session);
+  return { ...existing, id, enabled };
+}
+
+/**
+ * Delete a rule
+ */
+export async function deleteAlertRule(session: UserSession, id: string): Promise<boolean> {
+  const path = `${rulesPath(session)}/${id}`;
+  const existing = await restGet(path, session);
+  if (!existing) return false;
+
+  await restRemove(path, session);
+  return true;
+}
+
+/**
+ * Write back evaluation state for several rules in one request
+ */
+export async function saveAlertRuleStates(
+  session: UserSession,
+  states: Record<string, AlertRuleState>
+): Promise<void> {
+  const update: Record<string, unknown> = {};
+  for (const [id, state] of Object.entries(states)) {
+    update[`${id}/lastObserved`] = state.lastObserved ?? null;
+    if (state.lastTriggeredAt !== undefined) {
+      update[`${id}/lastTriggeredAt`] = state.lastTriggeredAt;
+    }
+  }
+
+  if (Object.keys(update).length > 0) {
+    await restUpdate(rulesPath(session), update, session);
+  }
+}
+
+// ============================================================================
+// NOTIFICATIONS
+// ============================================================================
+
+/**
+ * Get notifications, newest first
+ */
+export async function getNotifications(session: UserSession): Promise<AlertNotification[]> {
+  const stored = await restGet<Record<string, Omit<AlertNotification, 'id'>>>(notificationsPath(session), session);
+  if (!stored) return [];
+
+  return Object.entries(stored)
+    .map(([id, notification]) => ({ ...notification, id }))
+    .sort((a, b) => b.triggeredAt - a.triggeredAt);
+}
+
+/**
+ * Store triggered notifications, pruning the oldest beyond MAX_NOTIFICATIONS
+ */
+export async function addNotifications(session: UserSession, notifications: NewAlertNotification[]): Promise<void> {
+  if (notifications.length === 0) return;
+
+  for (const notification of notifications) {
+    await restPush(notificationsPath(session), notification, session);
+  }
+
+  const stale = (await getNotifications(session)).slice(MAX_NOTIFICATIONS);
+  if (stale.length > 0) {
+    await restUpdate(
+      notificationsPath(session),
+      Object.fromEntries(stale.map((notification) => [notification.id, null])),
+      session
+    );
+  }
+}
+
+/**
+ * Mark notifications as read (all of them when ids is omitted)
+ */
+export async function markNotificationsRead(session: UserSession, ids?: string[]): Promise<void> {
+  const targets = (await getNotifications(session))
+    .filter((n) => !n.read && (!ids || ids.includes(n.id)))
+    .map((n) => n.id);
+  if (targets.length === 0) return;
+
+  await restUpdate(
+    notificationsPath(session),
+    Object.fromEntries(targets.map((id) => [`${id}/read`, true])),
+    session
+  );
+}
+
+// ============================================================================
+// USERS
+// ============================================================================
+
+/**
+ * Uids with any stored data (requires a service session)
+ */
+export async function getUserIds(session: UserSession): Promise<string[]> {
+  return restKeys(DB_PATHS.USERS, session);
+}
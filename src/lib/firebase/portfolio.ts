@@ -0,0 +1,50 @@
+/**
+ * Firebase Realtime Database Service for the Portfolio
+ * Transaction log stored per user under DB_PATHS.PORTFOLIO:
+ *
+ *   users/{uid}/portfolio/transactions/{id} = PortfolioTransaction (without id)
+ *
+ * Holdings are never stored; they are derived from the log on read.
+ */
+
+import { DB_PATHS, userPath } from '@/lib/firebase';
+import { restGet, restPush, restRemove, type UserSession } from './rest';
+import type { PortfolioTransaction } from '@/types/portfolio';
+
+function transactionsPath(session: UserSession): string {
+  return `${userPath(session.uid, DB_PATHS.PORTFOLIO)}/transactions`;
+}
+
+/**
+ * Get all transactions, newest trade date first
+ */
+export async function getTransactions(session: UserSession): Promise<PortfolioTransaction[]> {
+  const stored = await restGet<Record<string, Omit<PortfolioTransaction, 'id'>>>(transactionsPath(session), session);
+
+  if (!stored) {
+    return [];
+  }
+
+  const transactions = Object.entries(stored).map(([id, tx]) => ({ ...tx, id }));
+
+  transactions.sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+  return transactions;
+}
+
+/**
+ * Save a transaction and return it with its generated id
+ */
+export async function addTransaction(
+  session: UserSession,
+  transaction: Omit<PortfolioTransaction, 'id'>
+): Promise<PortfolioTransaction> {
+  const id = await restPush(transactionsPath(session), JSON.parse(JSON.stringify(transaction)), session);
+  return { ...transaction, id };
+}
+
+/**
+ * Delete a transaction
+ */
+export async function deleteTransaction(session: UserSession, id: string): Promise<void> {
+  await restRemove(`${transactionsPath(session)}/${id}`, session);
+}
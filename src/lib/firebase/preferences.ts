@@ -0,0 +1,34 @@
+/**
+ * Firebase Realtime Database Service for User Preferences
+ * Stored per user under DB_PATHS.USER_PREFERENCES:
+ *
+ *   users/{uid}/userPreferences = { defaultMarket, currency, theme }
+ */
+
+import { DB_PATHS, userPath } from '@/lib/firebase';
+import { normalizePreferences } from '@/lib/preferences/preferences';
+import { restGet, restUpdate, type UserSession } from './rest';
+import type { UserPreferences } from '@/lib/types';
+
+function preferencesPath(session: UserSession): string {
+  return userPath(session.uid, DB_PATHS.USER_PREFERENCES);
+}
+
+/**
+ * Get the user's preferences; defaults for anything not yet saved
+ */
+export async function getPreferences(session: UserSession): Promise<UserPreferences> {
+  const stored = await restGet<Partial<UserPreferences>>(preferencesPath(session), session);
+  return normalizePreferences(stored);
+}
+
+/**
+ * Merge a (validated) update into the user's preferences and return the result
+ */
+export async function updatePreferences(
+  session: UserSession,
+  update: Partial<UserPreferences>
+): Promise<UserPreferences> {
+  await restUpdate(preferencesPath(session), update, session);
+  return getPreferences(session);
+}
@@ -0,0 +1,113 @@
+/**
+ * Firebase Realtime Database Service for Relative Strength
+ * Daily RS ratings and RS line values per symbol, written by the scheduled
+ * update and readable by anyone:
+ *
+ *   relativeStrength/latest/{symbolKey}         = RelativeStrengthEntry
+ *   relativeStrength/history/{symbolKey}/{date} = RelativeStrengthHistoryPoint (without date)
+ */
+
+import { ref, get, query, orderByKey, limitToLast } from 'firebase/database';
+import { db, DB_PATHS } from '@/lib/firebase';
+import { restUpdate, type UserSession } from './rest';
+import { symbolKey } from '@/lib/symbols/symbols';
+import type { RelativeStrengthEntry, RelativeStrengthHistoryPoint } from '@/types/technical';
+
+const LATEST_PATH = `${DB_PATHS.RELATIVE_STRENGTH}/latest`;
+const HISTORY_PATH = `${DB_PATHS.RELATIVE_STRENGTH}/history`;
+
+/**
+ * RTDB drops null fields, so restore them on read
+ */
+function toEntry(stored: Partial<RelativeStrengthEntry> & Pick<RelativeStrengthEntry, 'symbol' | 'date'>): RelativeStrengthEntry {
+  return {
+    symbol: stored.symbol,
+    date: stored.date,
+    rsScore: stored.rsScore ?? null,
+    rsRating: stored.rsRating ?? null,
+    rsLine: stored.rsLine ?? null,
+    rsLineNewHigh: stored.rsLineNewHigh ?? false,
+    benchmark: stored.benchmark ?? '',
+  };
+}
+
+/**
+ * Store a day's entries as the latest values and in each symbol's history.
+ * One multi-path update; needs a service session (the path is not client-writable).
+ */
+export async function saveRelativeStrength(entries: RelativeStrengthEntry[], session: UserSession): Promise<void> {
+  if (entries.length === 0) return;
+
+  const updates: Record<string, unknown> = {};
+  for (const entry of entries) {
+    const key = symbolKey(entry.symbol);
+    updates[`latest/${key}`] = entry;
+    updates[`history/${key}/${entry.date}`] = {
+      rsScore: entry.rsScore,
+      rsRating: entry.rsRating,
+      rsLine: entry.rsLine,
+    };
+  }
+
+  await restUpdate(DB_PATHS.RELATIVE_STRENGTH, updates, session);
+}
+
+/**
+ * Get the latest RS values for one symbol
+ */
+export async function getRelativeStrength(symbol: string): Promise<RelativeStrengthEntry | null> {
+  try {
+    const snapshot = await get(ref(db, `${LATEST_PATH}/${symbolKey(symbol)}`));
+    return snapshot.exists() ? toEntry(snapshot.val()) : null;
+  } catch (error) {
+    console.error(`Error fetching relative strength for ${symbol}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Get the latest RS values for every rated symbol, highest rating first
+ */
+export async function getLatestRelativeStrength(): Promise<RelativeStrengthEntry[]> {
+  try {
+    const snapshot = await get(ref(db, LATEST_PATH));
+    if (!snapshot.exists()) {
+      return [];
+    }
+
+    const entries = Object.values(snapshot.val() as Record<string, RelativeStrengthEntry>).map(toEntry);
+    entries.sort((a, b) => (b.rsRating ?? 0) - (a.rsRating ?? 0) || a.symbol.localeCompare(b.symbol));
+    return entries;
+  } catch (error) {
+    console.error('Error fetching relative strength ratings:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a symbol's stored daily RS values, oldest first
+ *
+ * @param days - Most recent entries to return
+ */
+export async function getRelativeStrengthHistory(symbol: string, days = 260): Promise<RelativeStrengthHistoryPoint[]> {
+  try {
+    const historyQuery = query(ref(db, `${HISTORY_PATH}/${symbolKey(symbol)}`), orderByKey(), limitToLast(days));
+    const snapshot = await get(historyQuery);
+    if (!snapshot.exists()) {
+      return [];
+    }
+
+    const stored = snapshot.val() as Record<string, Omit<RelativeStrengthHistoryPoint, 'date'>>;
+    return Object.entries(stored)
+      .map(([date, point]) => ({
+        date,
+        rsScore: point.rsScore ?? null,
+        rsRating: point.rsRating ?? null,
+        rsLine: point.rsLine ?? null,
+      }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error(`Error fetching relative strength history for ${symbol}:`, error);
+    return [];
+  }
+}
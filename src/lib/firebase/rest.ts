@@ -0,0 +1,106 @@
+/**
+ * Firebase Realtime Database REST Client
+ *
+ * User-owned data is read and written through the RTDB REST API with the
+ * signed-in user's ID token (`?auth=<token>`), so security rules are enforced
+ * for that user even though the request runs on the server.
+ *
+ * Set FIREBASE_DATABASE_EMULATOR_HOST (e.g. "127.0.0.1:9000") to target the
+ * local emulator instead of NEXT_PUBLIC_FIREBASE_DATABASE_URL.
+ */
+
+/**
+ * Signed-in user for a request: uid scopes paths, idToken authorizes them
+ */
+export interface UserSession {
+  uid: string;
+  idToken: string;
+}
+
+type RestMethod = 'GET' | 'PUT' | 'PATCH' | 'POST' | 'DELETE';
+
+function buildUrl(path: string, idToken: string, query: Record<string, string> = {}): string {
+  const emulatorHost = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+  const params = new URLSearchParams({ ...query, auth: idToken });
+
+  let base: string;
+  if (emulatorHost) {
+    base = `http://${emulatorHost}`;
+    params.set('ns', process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'demo-ministock');
+  } else {
+    base = (process.env.NEXT_PUBLIC_FIREBASE_DATABASE_URL || '').replace(/\/+$/, '');
+    if (!base) {
+      throw new Error('NEXT_PUBLIC_FIREBASE_DATABASE_URL is required for user data');
+    }
+  }
+
+  return `${base}/${path.replace(/^\/+/, '')}.json?${params.toString()}`;
+}
+
+async function request<T>(
+  method: RestMethod,
+  path: string,
+  session: UserSession,
+  body?: unknown,
+  query?: Record<string, string>
+): Promise<T> {
+  const response = await fetch(buildUrl(path, session.idToken, query), {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const reason = (data as { error?: string } | null)?.error || response.statusText;
+    throw new Error(`Firebase ${method} ${path} failed (${response.status}): ${reason}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * Read a path; null when nothing is stored there
+ */
+export async function restGet<T>(path: string, session: UserSession): Promise<T | null> {
+  return request<T | null>('GET', path, session);
+}
+
+/**
+ * Child keys of a path without downloading their values (shallow read)
+ */
+export async function restKeys(path: string, session: UserSession): Promise<string[]> {
+  const shallow = await request<Record<string, true> | null>('GET', path, session, undefined, { shallow: 'true' });
+  return shallow ? Object.keys(shallow) : [];
+}
+
+/**
+ * Replace the value at a path
+ */
+export async function restSet(path: string, value: unknown, session: UserSession): Promise<void> {
+  await request('PUT', path, session, value);
+}
+
+/**
+ * Merge children into a path; keys may be nested ("items/PTT_BK") and null deletes
+ */
+export async function restUpdate(path: string, value: Record<string, unknown>, session: UserSession): Promise<void> {
+  await request('PATCH', path, session, value);
+}
+
+/**
+ * Append a child with a generated key and return the key
+ */
+export async function restPush(path: string, value: unknown, session: UserSession): Promise<string> {
+  const { name } = await request<{ name: string }>('POST', path, session, value);
+  return name;
+}
+
+/**
+ * Delete a path
+ */
+export async function restRemove(path: string, session: UserSession): Promise<void> {
+  await request('DELETE', path, session);
+}
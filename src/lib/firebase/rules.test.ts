@@ -0,0 +1,107 @@
+/**
+ * Realtime Database Security Rules Tests
+ *
+ * Runs only against the Database emulator (FIREBASE_DATABASE_EMULATOR_HOST),
+ * e.g. via `npm run test:rules`; skipped in the regular test run.
+ *
+ * Tests cover:
+ * - Users can read and write their own users/{uid} data
+ * - Users cannot read or write another user's data; signed-out requests are denied
+ * - SETTRADE market data is publicly readable and not client-writable
+ * - Relative strength data is publicly readable and not client-writable
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, test, expect } from 'vitest';
+import { restGet, restSet, type UserSession } from './rest';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const EMULATOR_HOST = process.env.FIREBASE_DATABASE_EMULATOR_HOST;
+const NAMESPACE = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID || 'demo-ministock';
+
+/**
+ * Unsigned ID token; the emulator accepts alg "none" tokens for any uid
+ */
+function sessionFor(uid: string): UserSession {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = `${encode({ alg: 'none', typ: 'JWT' })}.${encode({
+    sub: uid,
+    user_id: uid,
+    aud: NAMESPACE,
+    iss: `https://securetoken.google.com/${NAMESPACE}`,
+    iat: now,
+    exp: now + 3600,
+  })}.`;
+  return { uid, idToken };
+}
+
+const ALICE = sessionFor('alice');
+const BOB = sessionFor('bob');
+const SIGNED_OUT: UserSession = { uid: '', idToken: '' };
+
+/**
+ * Admin request to the emulator; "Bearer owner" bypasses security rules
+ */
+async function adminRequest(method: string, path: string, body?: unknown): Promise<void> {
+  const response = await fetch(`http://${EMULATOR_HOST}/${path}?ns=${NAMESPACE}`, {
+    method,
+    headers: { Authorization: 'Bearer owner' },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  if (!response.ok) {
+    throw new Error(`Emulator ${method} ${path} failed (${response.status})`);
+  }
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+describe.skipIf(!EMULATOR_HOST)('database.rules.json', () => {
+  beforeAll(async () => {
+    const rules = JSON.parse(readFileSync(join(process.cwd(), 'database.rules.json'), 'utf8'));
+    await adminRequest('PUT', '.settings/rules.json', rules);
+    await adminRequest('PUT', '.json', {
+      users: { bob: { watchlist: { default: { name: 'My Watchlist' } } } },
+      settrade: { investorType: { date: '2025-01-15' } },
+      relativeStrength: { latest: { PTT_BK: { rsRating: 80 } } },
+    });
+  });
+
+  afterAll(async () => {
+    await adminRequest('DELETE', '.json');
+  });
+
+  test('users can write and read their own data', async () => {
+    await restSet('users/alice/watchlist/default', { name: 'My Watchlist' }, ALICE);
+    await expect(restGet('users/alice/watchlist/default', ALICE)).resolves.toEqual({ name: 'My Watchlist' });
+  });
+
+  test("users cannot read or write another user's data", async () => {
+    await expect(restGet('users/bob/watchlist', ALICE)).rejects.toThrow(/401|403/);
+    await expect(restSet('users/bob/watchlist/default', { name: 'Hijacked' }, ALICE)).rejects.toThrow(/401|403/);
+  });
+
+  test('signed-out requests cannot read user data', async () => {
+    await expect(restGet('users/bob/watchlist', SIGNED_OUT)).rejects.toThrow(/401|403/);
+  });
+
+  test('the users root is not listable', async () => {
+    await expect(restGet('users', ALICE)).rejects.toThrow(/401|403/);
+  });
+
+  test('SETTRADE data is readable by anyone and writable by no client', async () => {
+    await expect(restGet('settrade/investorType', SIGNED_OUT)).resolves.toEqual({ date: '2025-01-15' });
+    await expect(restSet('settrade/investorType', { date: 'tampered' }, BOB)).rejects.toThrow(/401|403/);
+  });
+
+  test('relative strength data is readable by anyone and writable by no client', async () => {
+    await expect(restGet('relativeStrength/latest/PTT_BK', SIGNED_OUT)).resolves.toEqual({ rsRating: 80 });
+    await expect(restSet('relativeStrength/latest/PTT_BK', { rsRating: 99 }, BOB)).rejects.toThrow(/401|403/);
+  });
+});
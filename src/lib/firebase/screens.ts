@@ -0,0 +1,87 @@
+/**
+ * Firebase Realtime Database Service for Saved Screens
+ * Named screener criteria stored per user under DB_PATHS.SAVED_SCREENS
+ * Updates return null when the screen does not exist; database and auth
+ * failures throw so routes can report them.
+ */
+
+import { DB_PATHS, userPath } from '@/lib/firebase';
+import { restGet, restPush, restRemove, restSet, type UserSession } from './rest';
+import type { SavedScreen, ScreenerSortKey, StockScreenerCriteria } from '@/types/market';
+
+export interface SaveScreenInput {
+  id?: string; // update an existing screen when provided
+  name: string;
+  criteria: StockScreenerCriteria;
+  sort?: ScreenerSortKey;
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * Realtime Database rejects undefined values, so drop them before writing
+ */
+function stripUndefined<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+function screensPath(session: UserSession): string {
+  return userPath(session.uid, DB_PATHS.SAVED_SCREENS);
+}
+
+/**
+ * Get all saved screens, sorted by name
+ */
+export async function getSavedScreens(session: UserSession): Promise<SavedScreen[]> {
+  const stored = await restGet<Record<string, Omit<SavedScreen, 'id'>>>(screensPath(session), session);
+
+  if (!stored) {
+    return [];
+  }
+
+  const screens = Object.entries(stored).map(
+    ([id, screen]) => ({
+      ...screen,
+      id,
+      criteria: screen.criteria || {},
+    })
+  );
+
+  screens.sort((a, b) => a.name.localeCompare(b.name));
+  return screens;
+}
+
+/**
+ * Create a saved screen, or update it when `id` is given (null if it does not exist)
+ */
+export async function saveScreen(session: UserSession, input: SaveScreenInput): Promise<SavedScreen | null> {
+  const now = Date.now();
+  const data = stripUndefined({
+    name: input.name,
+    criteria: input.criteria,
+    sort: input.sort,
+    order: input.order,
+    updatedAt: now,
+  });
+
+  if (input.id) {
+    const path = `${screensPath(session)}/${input.id}`;
+    const existing = await restGet<SavedScreen>(path, session);
+    if (!existing) return null;
+
+    const screen = { ...data, createdAt: existing.createdAt ?? now };
+    await restSet(path, screen, session);
+    return { ...screen, id: input.id };
+  }
+
+  const screen = { ...data, createdAt: now };
+  const id = await restPush(screensPath(session), screen, session);
+
+  return { ...screen, id };
+}
+
+/**
+ * Delete a saved screen
+ */
+export async function deleteScreen(session: UserSession, id: string): Promise<void> {
+  await restRemove(`${screensPath(session)}/${id}`, session);
+}
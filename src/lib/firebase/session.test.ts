@@ -0,0 +1,77 @@
+/**
+ * Request Session Tests
+ *
+ * Tests cover:
+ * - Decoding uid from an ID token's claims
+ * - Rejecting malformed, expired and other-project tokens
+ * - Reading the Bearer header
+ */
+
+import { describe, test, expect } from 'vitest';
+import { decodeIdToken, getUserSession } from './session';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+const NOW = Date.UTC(2025, 0, 15);
+const PROJECT_ID = 'demo-ministock';
+
+function buildToken(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+const VALID_CLAIMS = { sub: 'user_123', aud: PROJECT_ID, exp: NOW / 1000 + 3600 };
+
+// ============================================================================
+// decodeIdToken
+// ============================================================================
+
+describe('decodeIdToken', () => {
+  test('returns the uid and original token for a valid token', () => {
+    const token = buildToken(VALID_CLAIMS);
+    expect(decodeIdToken(token, PROJECT_ID, NOW)).toEqual({ uid: 'user_123', idToken: token });
+  });
+
+  test('rejects expired tokens', () => {
+    const token = buildToken({ ...VALID_CLAIMS, exp: NOW / 1000 - 1 });
+    expect(decodeIdToken(token, PROJECT_ID, NOW)).toBeNull();
+  });
+
+  test('rejects tokens issued for another project', () => {
+    const token = buildToken({ ...VALID_CLAIMS, aud: 'other-project' });
+    expect(decodeIdToken(token, PROJECT_ID, NOW)).toBeNull();
+  });
+
+  test('rejects uids that are unsafe as path segments', () => {
+    expect(decodeIdToken(buildToken({ ...VALID_CLAIMS, sub: '../admin' }), PROJECT_ID, NOW)).toBeNull();
+    expect(decodeIdToken(buildToken({ ...VALID_CLAIMS, sub: '' }), PROJECT_ID, NOW)).toBeNull();
+  });
+
+  test('rejects malformed tokens', () => {
+    expect(decodeIdToken('not-a-token', PROJECT_ID, NOW)).toBeNull();
+    expect(decodeIdToken('a.%%%.c', PROJECT_ID, NOW)).toBeNull();
+  });
+});
+
+// ============================================================================
+// getUserSession
+// ============================================================================
+
+describe('getUserSession', () => {
+  test('returns null without a Bearer header', () => {
+    expect(getUserSession(new Request('http://localhost/api/watchlist'))).toBeNull();
+    expect(
+      getUserSession(new Request('http://localhost/api/watchlist', { headers: { Authorization: 'Basic abc' } }))
+    ).toBeNull();
+  });
+
+  test('decodes the Bearer token', () => {
+    const token = buildToken({ ...VALID_CLAIMS, aud: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID, exp: Date.now() / 1000 + 3600 });
+    const session = getUserSession(
+      new Request('http://localhost/api/watchlist', { headers: { Authorization: `Bearer ${token}` } })
+    );
+    expect(session?.uid).toBe('user_123');
+  });
+});
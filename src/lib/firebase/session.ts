@@ -0,0 +1,74 @@
+/**
+ * Request Session
+ *
+ * Reads the Firebase ID token an API request carries in
+ * `Authorization: Bearer <token>` and returns the user it belongs to.
+ *
+ * The token's signature is not checked here: every user-data read and write
+ * passes the token to the Realtime Database REST API, which verifies it and
+ * applies the security rules. Decoding only picks the uid for path scoping
+ * and rejects tokens that are malformed, expired or for another project.
+ */
+
+import type { UserSession } from './rest';
+
+interface IdTokenClaims {
+  sub?: unknown;
+  aud?: unknown;
+  exp?: unknown;
+}
+
+/**
+ * Decode an ID token's claims and return its session, or null if unusable
+ */
+export function decodeIdToken(
+  idToken: string,
+  projectId: string | undefined,
+  now: number = Date.now()
+): UserSession | null {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) return null;
+
+  let claims: IdTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+
+  if (typeof claims.sub !== 'string' || !/^[A-Za-z0-9_-]{1,128}$/.test(claims.sub)) return null;
+  if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+  if (projectId && claims.aud !== projectId) return null;
+
+  return { uid: claims.sub, idToken };
+}
+
+/**
+ * Session for an API request, or null when it is not signed in
+ */
+export function getUserSession(request: Request): UserSession | null {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  if (!match) return null;
+
+  return decodeIdToken(match[1], process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID);
+}
+
+/**
+ * Server-side session for acting on a user's data without their token, e.g.
+ * the scheduled alert evaluator. Authorizes with FIREBASE_DATABASE_SECRET
+ * (a legacy database secret, or "owner" against the emulator), which bypasses
+ * security rules; null when it is not configured.
+ */
+export function getServiceSession(uid: string): UserSession | null {
+  const secret = process.env.FIREBASE_DATABASE_SECRET;
+  return secret ? { uid, idToken: secret } : null;
+}
+
+/**
+ * Whether a request comes from the scheduler (`Authorization: Bearer <CRON_SECRET>`)
+ */
+export function isCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get('authorization') === `Bearer ${secret}`;
+}
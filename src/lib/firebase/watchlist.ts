@@ -0,0 +1,188 @@
+/**
+ * Firebase Realtime Database Service for Watchlists
+ * Named watchlists stored per user under DB_PATHS.WATCHLIST:
+ *
+ *   users/{uid}/watchlist/{listId} = { name, createdAt, updatedAt, items: { [symbolKey]: WatchlistItem } }
+ *
+ * RTDB keys cannot contain ".", so items are keyed by symbolKey ("PTT.BK" → "PTT_BK").
+ * Mutations return null when the list (or item) does not exist; database and
+ * auth failures throw so routes can report them.
+ */
+
+import { DB_PATHS, userPath } from '@/lib/firebase';
+import { restGet, restPush, restRemove, restUpdate, type UserSession } from './rest';
+import { normalizeSymbol, symbolKey } from '@/lib/symbols/symbols';
+import type { Watchlist, WatchlistItem } from '@/types/watchlist';
+
+/**
+ * List used by "Add to Watchlist" when no list is chosen; created on first add
+ */
+export const DEFAULT_WATCHLIST_ID = 'default';
+export const DEFAULT_WATCHLIST_NAME = 'My Watchlist';
+
+interface StoredWatchlist {
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  items?: Record<string, WatchlistItem>;
+}
+
+/**
+ * Normalize a symbol and reject anything that is not a plausible ticker
+ */
+export function normalizeWatchlistSymbol(symbol: unknown): string | null {
+  return typeof symbol === 'string' ? normalizeSymbol(symbol) : null;
+}
+
+function listsPath(session: UserSession): string {
+  return userPath(session.uid, DB_PATHS.WATCHLIST);
+}
+
+function listPath(session: UserSession, id: string): string {
+  return `${listsPath(session)}/${id}`;
+}
+
+function toWatchlist(id: string, stored: StoredWatchlist): Watchlist {
+  const items = Object.values(stored.items || {}).sort((a, b) => b.addedAt - a.addedAt);
+
+  return {
+    id,
+    name: stored.name || (id === DEFAULT_WATCHLIST_ID ? DEFAULT_WATCHLIST_NAME : id),
+    items,
+    createdAt: stored.createdAt || 0,
+    updatedAt: stored.updatedAt || 0,
+  };
+}
+
+/**
+ * Get all watchlists: the default list first, then by name
+ */
+export async function getWatchlists(session: UserSession): Promise<Watchlist[]> {
+  const stored = await restGet<Record<string, StoredWatchlist>>(listsPath(session), session);
+
+  if (!stored) {
+    return [];
+  }
+
+  const lists = Object.entries(stored).map(([id, list]) => toWatchlist(id, list));
+
+  lists.sort((a, b) => {
+    if (a.id === DEFAULT_WATCHLIST_ID) return -1;
+    if (b.id === DEFAULT_WATCHLIST_ID) return 1;
+    return a.name.localeCompare(b.name);
+  });
+  return lists;
+}
+
+/**
+ * Get one watchlist, or null if it does not exist
+ */
+export async function getWatchlist(session: UserSession, id: string): Promise<Watchlist | null> {
+  const stored = await restGet<StoredWatchlist>(listPath(session, id), session);
+  return stored ? toWatchlist(id, stored) : null;
+}
+
+/**
+ * Create an empty named watchlist
+ */
+export async function createWatchlist(session: UserSession, name: string): Promise<Watchlist> {
+  const now = Date.now();
+  const id = await restPush(listsPath(session), { name, createdAt: now, updatedAt: now }, session);
+
+  return { id, name, items: [], createdAt: now, updatedAt: now };
+}
+
+/**
+ * Rename a watchlist
+ */
+export async function renameWatchlist(session: UserSession, id: string, name: string): Promise<Watchlist | null> {
+  const existing = await getWatchlist(session, id);
+  if (!existing) return null;
+
+  const updatedAt = Date.now();
+  await restUpdate(listPath(session, id), { name, updatedAt }, session);
+  return { ...existing, name, updatedAt };
+}
+
+/**
+ * Delete a watchlist and all of its items
+ */
+export async function deleteWatchlist(session: UserSession, id: string): Promise<void> {
+  await restRemove(listPath(session, id), session);
+}
+
+/**
+ * Add a symbol to a watchlist (keeps addedAt if it is already there).
+ * The default list is created on first add.
+ */
+export async function addToWatchlist(
+  session: UserSession,
+  listId: string,
+  symbol: string,
+  notes?: string
+): Promise<WatchlistItem | null> {
+  const now = Date.now();
+  const stored = await restGet<StoredWatchlist>(listPath(session, listId), session);
+
+  if (!stored && listId !== DEFAULT_WATCHLIST_ID) return null;
+
+  const existing = stored?.items?.[symbolKey(symbol)];
+  const itemNotes = notes ?? existing?.notes;
+  const item: WatchlistItem = {
+    symbol,
+    addedAt: existing?.addedAt ?? now,
+    ...(itemNotes ? { notes: itemNotes } : {}),
+  };
+
+  await restUpdate(
+    listPath(session, listId),
+    {
+      ...(stored ? {} : { name: DEFAULT_WATCHLIST_NAME, createdAt: now }),
+      [`items/${symbolKey(symbol)}`]: item,
+      updatedAt: now,
+    },
+    session
+  );
+  return item;
+}
+
+/**
+ * Replace an item's notes; empty notes are removed
+ */
+export async function updateWatchlistNotes(
+  session: UserSession,
+  listId: string,
+  symbol: string,
+  notes: string
+): Promise<WatchlistItem | null> {
+  const stored = await restGet<WatchlistItem>(`${listPath(session, listId)}/items/${symbolKey(symbol)}`, session);
+  if (!stored) return null;
+
+  const item: WatchlistItem = {
+    symbol: stored.symbol,
+    addedAt: stored.addedAt,
+    ...(notes ? { notes } : {}),
+  };
+
+  await restUpdate(
+    listPath(session, listId),
+    { [`items/${symbolKey(symbol)}`]: item, updatedAt: Date.now() },
+    session
+  );
+  return item;
+}
+
+/**
+ * Remove a symbol from a watchlist. Returns false if it was not on the list.
+ */
+export async function removeFromWatchlist(session: UserSession, listId: string, symbol: string): Promise<boolean> {
+  const existing = await restGet<WatchlistItem>(`${listPath(session, listId)}/items/${symbolKey(symbol)}`, session);
+  if (!existing) return false;
+
+  await restUpdate(
+    listPath(session, listId),
+    { [`items/${symbolKey(symbol)}`]: null, updatedAt: Date.now() },
+    session
+  );
+  return true;
+}
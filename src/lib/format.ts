@@ -3,27 +3,40 @@
  * Professional formatting following Thai market conventions
  */
 
-/**
- * Format currency in Thai Baht
- * Examples: ฿1,234.56, ฿1.2M, ฿1.5B
- */
-export function formatCurrency(amount: number, options: { showSymbol?: boolean; decimals?: number } = {}): string {
-  const { showSymbol = true, decimals = 2 } = options;
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  THB: '฿',
+  USD: '$',
+  HKD: 'HK$',
+  CNY: '¥',
+  JPY: 'JP¥',
+};
+
+/**
+ * Format currency in compact notation (Thai Baht unless a currency is given,
+ * e.g. the user's currency preference)
+ * Examples: ฿1,234.56, ฿1.2M, $1.5B
+ */
+export function formatCurrency(
+  amount: number,
+  options: { showSymbol?: boolean; decimals?: number; currency?: string } = {}
+): string {
+  const { showSymbol = true, decimals = 2, currency = 'THB' } = options;
+  const symbol = showSymbol ? CURRENCY_SYMBOLS[currency] ?? `${currency} ` : '';
 
   if (Math.abs(amount) >= 1e9) {
     const value = amount / 1e9;
-    return `${showSymbol ? '฿' : ''}${value.toFixed(decimals)}B`;
+    return `${symbol}${value.toFixed(decimals)}B`;
   }
   if (Math.abs(amount) >= 1e6) {
     const value = amount / 1e6;
-    return `${showSymbol ? '฿' : ''}${value.toFixed(decimals)}M`;
+    return `${symbol}${value.toFixed(decimals)}M`;
   }
   if (Math.abs(amount) >= 1e3) {
     const value = amount / 1e3;
-    return `${showSymbol ? '฿' : ''}${value.toFixed(decimals)}K`;
+    return `${symbol}${value.toFixed(decimals)}K`;
   }
 
-  return `${showSymbol ? '฿' : ''}${amount.toFixed(decimals)}`;
+  return `${symbol}${amount.toFixed(decimals)}`;
 }
 
 /**
@@ -217,3 +230,16 @@ export function abbreviateSector(name: string): string {
   }
   return name.toUpperCase();
 }
+
+/**
+ * Format an amount in a given currency with thousand separators
+ * Examples: ฿12,345.60, $1,234.50, -HK$88.00
+ */
+export function formatMoney(amount: number, currency: string, decimals: number = 2): string {
+  const symbol = CURRENCY_SYMBOLS[currency] ?? `${currency} `;
+  const formatted = Math.abs(amount).toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+  });
+  return `${amount < 0 ? '-' : ''}${symbol}${formatted}`;
+}
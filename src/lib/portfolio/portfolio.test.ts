@@ -0,0 +1,265 @@
+/**
+ * Portfolio Accounting Tests
+ *
+ * Tests cover:
+ * - Average cost, realized gains, dividends and splits
+ * - Oversell detection
+ * - Revaluation, FX conversion (and missing rates) and sector allocation
+ * - Transaction input validation
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  currencyForSymbol,
+  deriveHoldings,
+  findLedgerError,
+  parseTransactionInput,
+  valuePortfolio,
+} from './portfolio';
+import type { Quote } from '@/types/market';
+import type { PortfolioTransaction } from '@/types/portfolio';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+let nextId = 0;
+
+function tx(overrides: Partial<PortfolioTransaction> & Pick<PortfolioTransaction, 'symbol' | 'type' | 'date'>): PortfolioTransaction {
+  nextId += 1;
+  return {
+    id: `tx${nextId}`,
+    currency: currencyForSymbol(overrides.symbol),
+    createdAt: nextId,
+    ...overrides,
+  };
+}
+
+function buildQuote(symbol: string, price: number): Quote {
+  return {
+    symbol,
+    name: `${symbol} name`,
+    price,
+    change: 0,
+    changePercent: 0,
+    high: price,
+    low: price,
+    open: price,
+    previousClose: price,
+    volume: 0,
+    avgVolume: 0,
+    marketCap: 0,
+    timestamp: 0,
+  };
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+describe('deriveHoldings', () => {
+  test('should average cost across buys including fees', () => {
+    const [ledger] = deriveHoldings([
+      tx({ symbol: 'PTT.BK', type: 'buy', date: '2024-01-10', shares: 100, price: 30, fees: 10 }),
+      tx({ symbol: 'PTT.BK', type: 'buy', date: '2024-02-10', shares: 100, price: 40, fees: 10 }),
+    ]);
+
+    expect(ledger.shares).toBe(200);
+    expect(ledger.costBasis).toBe(7020);
+    expect(ledger.currency).toBe('THB');
+  });
+
+  test('should realize gains at average cost on sells', () => {
+    const [ledger] = deriveHoldings([
+      tx({ symbol: 'PTT.BK', type: 'buy', date: '2024-01-10', shares: 100, price: 30 }),
+      tx({ symbol: 'PTT.BK', type: 'buy', date: '2024-02-10', shares: 100, price: 40 }),
+      tx({ symbol: 'PTT.BK', type: 'sell', date: '2024-03-10', shares: 50, price: 50, fees: 5 }),
+    ]);
+
+    // Average cost 35 → realized (2500 − 5) − 1750
+    expect(ledger.shares).toBe(150);
+    expect(ledger.costBasis).toBe(5250);
+    expect(ledger.realizedGain).toBe(745);
+  });
+
+  test('should replay in date order regardless of input order', () => {
+    const [ledger] = deriveHoldings([
+      tx({ symbol: 'AAPL', type: 'sell', date: '2024-03-01', shares: 10, price: 200 }),
+      tx({ symbol: 'AAPL', type: 'buy', date: '2024-01-01', shares: 10, price: 150 }),
+    ]);
+
+    expect(ledger.shares).toBe(0);
+    expect(ledger.realizedGain).toBe(500);
+  });
+
+  test('should adjust shares but not cost basis on splits', () => {
+    const [ledger] = deriveHoldings([
+      tx({ symbol: 'AAPL', type: 'buy', date: '2020-01-01', shares: 10, price: 400 }),
+      tx({ symbol: 'AAPL', type: 'split', date: '2020-08-31', ratio: 4 }),
+    ]);
+
+    expect(ledger.shares).toBe(40);
+    expect(ledger.costBasis).toBe(4000);
+  });
+
+  test('should accumulate dividends without changing cost', () => {
+    const [ledger] = deriveHoldings([
+      tx({ symbol: 'KBANK.BK', type: 'buy', date: '2024-01-01', shares: 100, price: 130 }),
+      tx({ symbol: 'KBANK.BK', type: 'dividend', date: '2024-04-20', amount: 400 }),
+      tx({ symbol: 'KBANK.BK', type: 'dividend', date: '2024-09-20', amount: 50 }),
+    ]);
+
+    expect(ledger.dividends).toBe(450);
+    expect(ledger.costBasis).toBe(13000);
+  });
+});
+
+describe('findLedgerError', () => {
+  test('should accept a consistent history', () => {
+    expect(
+      findLedgerError([
+        tx({ symbol: 'PTT.BK', type: 'buy', date: '2024-01-10', shares: 100, price: 30 }),
+        tx({ symbol: 'PTT.BK', type: 'sell', date: '2024-02-10', shares: 100, price: 35 }),
+      ])
+    ).toBeNull();
+  });
+
+  test('should reject selling more than held at that date', () => {
+    const error = findLedgerError([
+      tx({ symbol: 'PTT.BK', type: 'sell', date: '2024-01-05', shares: 50, price: 35 }),
+      tx({ symbol: 'PTT.BK', type: 'buy', date: '2024-01-10', shares: 100, price: 30 }),
+    ]);
+
+    expect(error).toContain('PTT.BK');
+    expect(error).toContain('2024-01-05');
+  });
+});
+
+// ============================================================================
+// VALUATION
+// ============================================================================
+
+describe('valuePortfolio', () => {
+  const transactions = [
+    tx({ symbol: 'KBANK.BK', type: 'buy', date: '2024-01-01', shares: 100, price: 100 }),
+    tx({ symbol: 'PTT.BK', type: 'buy', date: '2024-01-01', shares: 100, price: 30 }),
+    tx({ symbol: 'AAPL', type: 'buy', date: '2024-01-01', shares: 10, price: 150 }),
+    tx({ symbol: 'AAPL', type: 'sell', date: '2024-02-01', shares: 5, price: 170 }),
+  ];
+
+  test('should revalue holdings and convert to the base currency', () => {
+    const summary = valuePortfolio(
+      deriveHoldings(transactions),
+      [buildQuote('KBANK.BK', 120), buildQuote('PTT.BK', 33), buildQuote('AAPL', 200)],
+      { USD: 35 },
+      'THB',
+      0
+    );
+
+    const aapl = summary.holdings.find((h) => h.symbol === 'AAPL')!;
+    expect(aapl.totalValue).toBe(1000);
+    expect(aapl.totalValueBase).toBe(35000);
+    expect(aapl.gainLossPercent).toBeCloseTo(33.33, 2);
+    expect(aapl.realizedGain).toBe(100);
+
+    // 12,000 + 3,300 + 35,000
+    expect(summary.totalValue).toBe(50300);
+    // 10,000 + 3,000 + 750 × 35
+    expect(summary.totalCost).toBe(39250);
+    expect(summary.realizedGain).toBe(3500);
+    expect(summary.holdings[0].symbol).toBe('AAPL');
+  });
+
+  test('should group allocation by SECTOR_PEER_GROUPS sector', () => {
+    const summary = valuePortfolio(
+      deriveHoldings(transactions),
+      [buildQuote('KBANK.BK', 120), buildQuote('PTT.BK', 33), buildQuote('AAPL', 200)],
+      { USD: 35 },
+      'THB',
+      0
+    );
+
+    const sectors = summary.allocation.map((slice) => slice.sector);
+    expect(sectors[0]).toBe('Other');
+    expect(sectors).toContain('Banking');
+    expect(summary.allocation.reduce((sum, slice) => sum + slice.weight, 0)).toBeCloseTo(100, 1);
+  });
+
+  test('should value at cost when a quote is missing', () => {
+    const summary = valuePortfolio(deriveHoldings(transactions.slice(0, 1)), [], {}, 'THB', 0);
+
+    expect(summary.holdings[0].quoteAvailable).toBe(false);
+    expect(summary.holdings[0].totalValue).toBe(10000);
+    expect(summary.totalGainLoss).toBe(0);
+  });
+
+  test('should leave holdings without an FX rate out of the totals', () => {
+    const summary = valuePortfolio(
+      deriveHoldings(transactions),
+      [buildQuote('KBANK.BK', 120), buildQuote('PTT.BK', 33), buildQuote('AAPL', 200)],
+      {},
+      'THB',
+      0
+    );
+
+    const aapl = summary.holdings.find((h) => h.symbol === 'AAPL')!;
+    expect(aapl.totalValue).toBe(1000);
+    expect(aapl.totalValueBase).toBeNull();
+    expect(aapl.gainLossBase).toBeNull();
+    expect(aapl.weight).toBe(0);
+    expect(summary.holdings[summary.holdings.length - 1].symbol).toBe('AAPL');
+
+    // 12,000 + 3,300; AAPL's realized gain is not converted either
+    expect(summary.totalValue).toBe(15300);
+    expect(summary.totalCost).toBe(13000);
+    expect(summary.realizedGain).toBe(0);
+    expect(summary.allocation.reduce((sum, slice) => sum + slice.value, 0)).toBe(15300);
+    expect(summary.warnings).toEqual(['No USD→THB FX rate: USD holdings are left out of the totals']);
+  });
+});
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+describe('parseTransactionInput', () => {
+  test('should clean a valid buy and infer its currency', () => {
+    const { transaction, error } = parseTransactionInput({
+      symbol: ' ptt.bk ',
+      type: 'buy',
+      date: '2024-01-10',
+      shares: 100,
+      price: 30,
+    });
+
+    expect(error).toBeNull();
+    expect(transaction).toEqual({
+      symbol: 'PTT.BK',
+      type: 'buy',
+      date: '2024-01-10',
+      currency: 'THB',
+      shares: 100,
+      price: 30,
+      fees: 0,
+    });
+  });
+
+  test('should infer the listing currency from the exchange suffix', () => {
+    expect(currencyForSymbol('PTT.BK')).toBe('THB');
+    expect(currencyForSymbol('0700.HK')).toBe('HKD');
+    expect(currencyForSymbol('600519.SS')).toBe('CNY');
+    expect(currencyForSymbol('7203.T')).toBe('JPY');
+    expect(currencyForSymbol('AAPL')).toBe('USD');
+  });
+
+  test('should require type-specific fields', () => {
+    expect(parseTransactionInput({ symbol: 'AAPL', type: 'dividend', date: '2024-01-10' }).error).toContain('amount');
+    expect(parseTransactionInput({ symbol: 'AAPL', type: 'split', date: '2024-01-10', ratio: 0 }).error).toContain('ratio');
+    expect(parseTransactionInput({ symbol: 'AAPL', type: 'sell', date: '2024-01-10', shares: -1, price: 1 }).error).toContain('shares');
+  });
+
+  test('should reject unknown types and bad dates', () => {
+    expect(parseTransactionInput({ symbol: 'AAPL', type: 'short', date: '2024-01-10' }).error).toContain('type');
+    expect(parseTransactionInput({ symbol: 'AAPL', type: 'buy', date: '10/01/2024' }).error).toContain('date');
+  });
+});
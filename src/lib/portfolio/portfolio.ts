@@ -0,0 +1,332 @@
+/**
+ * Portfolio Accounting
+ *
+ * Derives holdings from a transaction log (buy, sell, dividend, split) using
+ * the average-cost method, then revalues them at live quotes in the user's
+ * base currency.
+ *
+ * Cost basis rules:
+ * - Buy: basis += shares × price + fees
+ * - Sell: realized += (shares × price − fees) − average cost × shares sold
+ * - Dividend: cash income, basis unchanged
+ * - Split: shares × ratio, basis unchanged (average cost ÷ ratio)
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { Quote } from '@/types/market';
+import type {
+  Currency,
+  HoldingLedger,
+  NewPortfolioTransaction,
+  PortfolioPosition,
+  PortfolioSummary,
+  PortfolioTransaction,
+  SectorAllocation,
+  TransactionType,
+} from '@/types/portfolio';
+import { SECTOR_PEER_GROUPS, getSectorForSymbol } from '@/lib/sectorStandards';
+import { countryOf, normalizeSymbol } from '@/lib/symbols/symbols';
+import type { Country } from '@/types/symbols';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CURRENCIES: Currency[] = ['THB', 'USD', 'HKD', 'CNY', 'JPY'];
+
+export const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'dividend', 'split'];
+
+/**
+ * Listing country → trading currency (anything else is priced in USD)
+ */
+const COUNTRY_CURRENCY: Partial<Record<Country, Currency>> = {
+  TH: 'THB',
+  HK: 'HKD',
+  CN: 'CNY',
+  JP: 'JPY',
+};
+
+/**
+ * Share counts below this are treated as zero (float dust after splits)
+ */
+const SHARE_EPSILON = 1e-6;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function round(value: number, decimals: number = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function isPositiveNumber(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+/**
+ * Trading currency implied by a symbol's exchange suffix
+ */
+export function currencyForSymbol(symbol: string): Currency {
+  const country = countryOf(symbol);
+  return (country && COUNTRY_CURRENCY[country]) || 'USD';
+}
+
+/**
+ * Yahoo FX pair quoting `to` per 1 `from`, e.g. USDTHB=X
+ */
+export function fxPairSymbol(from: Currency, to: Currency): string {
+  return `${from}${to}=X`;
+}
+
+/**
+ * Chronological order: trade date, then entry time for same-day trades
+ */
+export function sortTransactions(transactions: PortfolioTransaction[]): PortfolioTransaction[] {
+  return [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+}
+
+// ============================================================================
+// INPUT VALIDATION
+// ============================================================================
+
+/**
+ * Validate a transaction from an API request body.
+ * Returns the cleaned transaction, or an error message.
+ */
+export function parseTransactionInput(
+  body: Record<string, unknown> | null
+): { transaction: NewPortfolioTransaction | null; error: string | null } {
+  const invalid = (error: string) => ({ transaction: null, error });
+  if (!body) return invalid('Request body is required');
+
+  const symbol = typeof body.symbol === 'string' ? normalizeSymbol(body.symbol) : null;
+  if (!symbol) return invalid('A valid symbol is required');
+
+  const type = body.type as TransactionType;
+  if (!TRANSACTION_TYPES.includes(type)) return invalid(`type must be one of: ${TRANSACTION_TYPES.join(', ')}`);
+
+  const date = typeof body.date === 'string' ? body.date : '';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(Date.parse(date))) return invalid('date must be YYYY-MM-DD');
+
+  const transaction: NewPortfolioTransaction = { symbol, type, date, currency: currencyForSymbol(symbol) };
+
+  if (type === 'buy' || type === 'sell') {
+    if (!isPositiveNumber(body.shares)) return invalid('shares must be a positive number');
+    if (!isPositiveNumber(body.price)) return invalid('price must be a positive number');
+    if (body.fees !== undefined && (typeof body.fees !== 'number' || !isFinite(body.fees) || body.fees < 0)) {
+      return invalid('fees must be zero or more');
+    }
+    transaction.shares = body.shares;
+    transaction.price = body.price;
+    transaction.fees = (body.fees as number | undefined) ?? 0;
+  } else if (type === 'dividend') {
+    if (!isPositiveNumber(body.amount)) return invalid('amount must be a positive number');
+    transaction.amount = body.amount;
+  } else {
+    if (!isPositiveNumber(body.ratio)) return invalid('ratio must be a positive number');
+    transaction.ratio = body.ratio;
+  }
+
+  if (typeof body.notes === 'string' && body.notes.trim()) {
+    transaction.notes = body.notes.trim().slice(0, 500);
+  }
+
+  return { transaction, error: null };
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/**
+ * Replay transactions in order. Returns one ledger per symbol (closed
+ * positions included, for realized gains) and the first sell larger than
+ * the shares held at the time. Oversells are clamped to the shares held.
+ */
+function replay(transactions: PortfolioTransaction[]): { ledgers: HoldingLedger[]; error: string | null } {
+  const ledgers = new Map<string, HoldingLedger>();
+  let error: string | null = null;
+
+  for (const tx of sortTransactions(transactions)) {
+    let ledger = ledgers.get(tx.symbol);
+    if (!ledger) {
+      ledger = { symbol: tx.symbol, currency: tx.currency, shares: 0, costBasis: 0, realizedGain: 0, dividends: 0 };
+      ledgers.set(tx.symbol, ledger);
+    }
+
+    const held = ledger.shares;
+
+    switch (tx.type) {
+      case 'buy': {
+        const shares = tx.shares ?? 0;
+        ledger.costBasis += shares * (tx.price ?? 0) + (tx.fees ?? 0);
+        ledger.shares += shares;
+        break;
+      }
+      case 'sell': {
+        const requested = tx.shares ?? 0;
+        if (requested > held + SHARE_EPSILON) {
+          error ??= `Sell of ${requested} ${tx.symbol} on ${tx.date} exceeds the ${round(held, 4)} shares held`;
+        }
+        const sold = Math.min(requested, held);
+        if (sold <= 0) break;
+
+        const averageCost = ledger.costBasis / held;
+        const proceeds = sold * (tx.price ?? 0) - (tx.fees ?? 0) * (sold / requested);
+        ledger.realizedGain += proceeds - averageCost * sold;
+        ledger.costBasis -= averageCost * sold;
+        ledger.shares -= sold;
+
+        if (ledger.shares < SHARE_EPSILON) {
+          ledger.shares = 0;
+          ledger.costBasis = 0;
+        }
+        break;
+      }
+      case 'dividend':
+        ledger.dividends += tx.amount ?? 0;
+        break;
+      case 'split':
+        ledger.shares *= tx.ratio ?? 1;
+        break;
+    }
+  }
+
+  return { ledgers: Array.from(ledgers.values()), error };
+}
+
+/**
+ * Derive per-symbol ledgers from the transaction log
+ */
+export function deriveHoldings(transactions: PortfolioTransaction[]): HoldingLedger[] {
+  return replay(transactions).ledgers;
+}
+
+/**
+ * First inconsistency in the transaction log, or null if it replays cleanly.
+ * Used to reject a new transaction (or a deletion) that would break history.
+ */
+export function findLedgerError(transactions: PortfolioTransaction[]): string | null {
+  return replay(transactions).error;
+}
+
+// ============================================================================
+// VALUATION
+// ============================================================================
+
+/**
+ * Group open positions by SECTOR_PEER_GROUPS sector, largest first
+ */
+export function calculateSectorAllocation(positions: PortfolioPosition[]): SectorAllocation[] {
+  const totals = new Map<string, number>();
+  for (const position of positions) {
+    if (position.totalValueBase === null) continue;
+    totals.set(position.sector, (totals.get(position.sector) ?? 0) + position.totalValueBase);
+  }
+
+  const totalValue = Array.from(totals.values()).reduce((sum, value) => sum + value, 0);
+
+  return Array.from(totals.entries())
+    .map(([sector, value]) => ({
+      sector,
+      value: round(value),
+      weight: totalValue > 0 ? round((value / totalValue) * 100) : 0,
+    }))
+    .sort((a, b) => b.value - a.value);
+}
+
+/**
+ * Revalue ledgers at the latest quotes and convert to the base currency.
+ * Holdings in a currency without an FX rate keep their own-currency figures,
+ * get null base-currency values and are left out of the totals, with a
+ * warning in the summary.
+ *
+ * @param fxRates - Base currency per 1 unit of each holding currency
+ * @param asOf - Valuation timestamp (defaults to now)
+ */
+export function valuePortfolio(
+  ledgers: HoldingLedger[],
+  quotes: Quote[],
+  fxRates: Partial<Record<Currency, number>>,
+  baseCurrency: Currency,
+  asOf: number = Date.now()
+): PortfolioSummary {
+  const quotesBySymbol = new Map(quotes.map((quote) => [quote.symbol.toUpperCase(), quote]));
+  const rateFor = (currency: Currency): number | null =>
+    currency === baseCurrency ? 1 : fxRates[currency] || null;
+  const toBase = (value: number, rate: number | null): number | null => (rate === null ? null : round(value * rate));
+
+  let realizedGain = 0;
+  let dividendIncome = 0;
+  const unconverted = new Set<Currency>();
+  const positions: PortfolioPosition[] = [];
+
+  for (const ledger of ledgers) {
+    const rate = rateFor(ledger.currency);
+    if (rate === null) {
+      unconverted.add(ledger.currency);
+    } else {
+      realizedGain += ledger.realizedGain * rate;
+      dividendIncome += ledger.dividends * rate;
+    }
+
+    if (ledger.shares <= 0) continue;
+
+    const quote = quotesBySymbol.get(ledger.symbol.toUpperCase());
+    const averagePrice = ledger.costBasis / ledger.shares;
+    const currentPrice = quote && quote.price > 0 ? quote.price : averagePrice;
+    const totalValue = ledger.shares * currentPrice;
+    const gainLoss = totalValue - ledger.costBasis;
+    const sectorKey = getSectorForSymbol(ledger.symbol);
+
+    positions.push({
+      symbol: ledger.symbol,
+      name: quote?.name || ledger.symbol,
+      currency: ledger.currency,
+      sector: sectorKey ? SECTOR_PEER_GROUPS[sectorKey].name : 'Other',
+      quoteAvailable: !!quote && quote.price > 0,
+      shares: round(ledger.shares, 4),
+      averagePrice: round(averagePrice, 4),
+      currentPrice,
+      totalValue: round(totalValue),
+      totalCost: round(ledger.costBasis),
+      gainLoss: round(gainLoss),
+      gainLossPercent: ledger.costBasis > 0 ? round((gainLoss / ledger.costBasis) * 100) : 0,
+      realizedGain: round(ledger.realizedGain),
+      dividends: round(ledger.dividends),
+      totalValueBase: toBase(totalValue, rate),
+      totalCostBase: toBase(ledger.costBasis, rate),
+      gainLossBase: toBase(gainLoss, rate),
+      weight: 0,
+    });
+  }
+
+  const totalValue = positions.reduce((sum, p) => sum + (p.totalValueBase ?? 0), 0);
+  const totalCost = positions.reduce((sum, p) => sum + (p.totalCostBase ?? 0), 0);
+
+  for (const position of positions) {
+    const value = position.totalValueBase ?? 0;
+    position.weight = totalValue > 0 ? round((value / totalValue) * 100) : 0;
+  }
+  // Unconverted holdings sort last
+  positions.sort((a, b) => (b.totalValueBase ?? -Infinity) - (a.totalValueBase ?? -Infinity));
+
+  return {
+    baseCurrency,
+    totalValue: round(totalValue),
+    totalCost: round(totalCost),
+    totalGainLoss: round(totalValue - totalCost),
+    totalGainLossPercent: totalCost > 0 ? round(((totalValue - totalCost) / totalCost) * 100) : 0,
+    holdings: positions,
+    realizedGain: round(realizedGain),
+    dividendIncome: round(dividendIncome),
+    allocation: calculateSectorAllocation(positions),
+    fxRates: { ...fxRates, [baseCurrency]: 1 },
+    warnings: Array.from(unconverted).map(
+      (currency) => `No ${currency}→${baseCurrency} FX rate: ${currency} holdings are left out of the totals`
+    ),
+    lastUpdate: asOf,
+  };
+}
@@ -0,0 +1,68 @@
+/**
+ * Portfolio Valuation Loader
+ *
+ * Revalues derived holdings with one batched getQuotes call and converts
+ * them to the base currency using Yahoo FX pairs (e.g. USDTHB=X).
+ */
+
+import { getQuotes } from '@/lib/api/quotes';
+import { getQuotesYahoo } from '@/lib/api/yahoo-finance';
+import type { Quote } from '@/types/market';
+import type { Currency, PortfolioSummary, PortfolioTransaction } from '@/types/portfolio';
+import { deriveHoldings, fxPairSymbol, valuePortfolio } from './portfolio';
+
+/**
+ * Base currency per 1 unit of each foreign currency.
+ * FX pairs come from Yahoo regardless of the configured stock provider.
+ */
+export async function getFxRates(
+  currencies: Currency[],
+  baseCurrency: Currency
+): Promise<Partial<Record<Currency, number>>> {
+  const foreign = Array.from(new Set(currencies)).filter((currency) => currency !== baseCurrency);
+  if (foreign.length === 0) return {};
+
+  const quotes = await getQuotesYahoo(foreign.map((currency) => fxPairSymbol(currency, baseCurrency)));
+  const rates: Partial<Record<Currency, number>> = {};
+
+  for (const currency of foreign) {
+    const quote = quotes.find((q) => q.symbol === fxPairSymbol(currency, baseCurrency));
+    if (quote && quote.price > 0) rates[currency] = quote.price;
+  }
+
+  return rates;
+}
+
+/**
+ * Derive holdings from the transaction log and value them in `baseCurrency`.
+ * A failed quote batch values holdings at cost, and a failed FX lookup leaves
+ * foreign holdings unconverted, instead of failing.
+ */
+export async function loadPortfolioSummary(
+  transactions: PortfolioTransaction[],
+  baseCurrency: Currency
+): Promise<PortfolioSummary> {
+  const ledgers = deriveHoldings(transactions);
+  const openSymbols = ledgers.filter((ledger) => ledger.shares > 0).map((ledger) => ledger.symbol);
+
+  let quotes: Quote[] = [];
+  if (openSymbols.length > 0) {
+    try {
+      quotes = await getQuotes(openSymbols);
+    } catch (error) {
+      console.warn('Portfolio: quotes unavailable:', (error as Error).message);
+    }
+  }
+
+  let fxRates: Partial<Record<Currency, number>> = {};
+  try {
+    fxRates = await getFxRates(
+      ledgers.map((ledger) => ledger.currency),
+      baseCurrency
+    );
+  } catch (error) {
+    console.warn('Portfolio: FX rates unavailable:', (error as Error).message);
+  }
+
+  return valuePortfolio(ledgers, quotes, fxRates, baseCurrency);
+}
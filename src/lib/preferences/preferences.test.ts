@@ -0,0 +1,64 @@
+/**
+ * User Preferences Tests
+ *
+ * Tests cover:
+ * - Filling missing or invalid stored fields with defaults
+ * - Validating partial updates from request bodies
+ */
+
+import { describe, test, expect } from 'vitest';
+import { MARKET_SUFFIXES, normalizePreferences, parsePreferencesUpdate } from './preferences';
+import type { UserPreferences } from '@/lib/types';
+
+const DEFAULTS: UserPreferences = { defaultMarket: 'SET', currency: 'THB', theme: 'light' };
+
+// ============================================================================
+// normalizePreferences
+// ============================================================================
+
+describe('normalizePreferences', () => {
+  test('keeps valid stored preferences', () => {
+    const stored: UserPreferences = { defaultMarket: 'US', currency: 'USD', theme: 'dark' };
+    expect(normalizePreferences(stored, DEFAULTS)).toEqual(stored);
+  });
+
+  test('falls back to defaults for missing and invalid fields', () => {
+    expect(normalizePreferences({ currency: 'EUR', theme: 'dark' }, DEFAULTS)).toEqual({
+      defaultMarket: 'SET',
+      currency: 'THB',
+      theme: 'dark',
+    });
+    expect(normalizePreferences(null, DEFAULTS)).toEqual(DEFAULTS);
+    expect(normalizePreferences('dark', DEFAULTS)).toEqual(DEFAULTS);
+  });
+
+  test('maps every market to a symbol suffix', () => {
+    expect(MARKET_SUFFIXES.SET).toBe('.BK');
+    expect(MARKET_SUFFIXES.MAI).toBe('.BK');
+    expect(MARKET_SUFFIXES.US).toBe('');
+  });
+});
+
+// ============================================================================
+// parsePreferencesUpdate
+// ============================================================================
+
+describe('parsePreferencesUpdate', () => {
+  test('accepts a partial update', () => {
+    expect(parsePreferencesUpdate({ theme: 'dark' })).toEqual({ update: { theme: 'dark' } });
+    expect(parsePreferencesUpdate({ defaultMarket: 'HK', currency: 'HKD' })).toEqual({
+      update: { defaultMarket: 'HK', currency: 'HKD' },
+    });
+  });
+
+  test('rejects invalid values', () => {
+    const { update, error } = parsePreferencesUpdate({ currency: 'EUR' });
+    expect(update).toBeNull();
+    expect(error).toContain('currency');
+  });
+
+  test('rejects empty and non-object bodies', () => {
+    expect(parsePreferencesUpdate({ unrelated: true }).update).toBeNull();
+    expect(parsePreferencesUpdate(null).update).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * User Preferences
+ *
+ * Defaults, validation and market helpers for UserPreferences
+ * (default market, display/base currency, theme).
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import { CURRENCIES } from '@/lib/portfolio/portfolio';
+import { EXCHANGES } from '@/lib/symbols/symbols';
+import type { UserPreferences } from '@/lib/types';
+import type { Exchange } from '@/types/symbols';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MARKETS: ReadonlyArray<UserPreferences['defaultMarket']> = ['SET', 'MAI', 'US', 'HK', 'CN'];
+export const THEMES: ReadonlyArray<UserPreferences['theme']> = ['light', 'dark'];
+
+/**
+ * Exchange used to normalize bare symbols for each default market
+ * (China picks Shanghai or Shenzhen from the code itself)
+ */
+export const MARKET_EXCHANGES: Record<UserPreferences['defaultMarket'], Exchange> = {
+  SET: 'SET',
+  MAI: 'MAI',
+  US: 'US',
+  HK: 'HK',
+  CN: 'CN-SS',
+};
+
+/**
+ * Yahoo Finance symbol suffix for each market (SET and MAI both trade on .BK)
+ */
+export const MARKET_SUFFIXES = Object.fromEntries(
+  MARKETS.map((market) => [market, EXCHANGES[MARKET_EXCHANGES[market]].suffix])
+) as Record<UserPreferences['defaultMarket'], string>;
+
+/**
+ * localStorage key for the client-side cache (read by the root layout's theme script)
+ */
+export const PREFERENCES_STORAGE_KEY = 'ministock:preferences';
+
+/**
+ * Defaults, overridable with NEXT_PUBLIC_DEFAULT_MARKET / NEXT_PUBLIC_DEFAULT_CURRENCY
+ */
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  defaultMarket: pick(MARKETS, process.env.NEXT_PUBLIC_DEFAULT_MARKET, 'SET'),
+  currency: pick(CURRENCIES, process.env.NEXT_PUBLIC_DEFAULT_CURRENCY, 'THB'),
+  theme: 'light',
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function pick<T extends string>(allowed: ReadonlyArray<T>, value: unknown, fallback: T): T {
+  return typeof value === 'string' && allowed.includes(value as T) ? (value as T) : fallback;
+}
+
+/**
+ * Complete preferences from stored or cached data; unknown or invalid fields fall back to defaults
+ */
+export function normalizePreferences(
+  value: unknown,
+  defaults: UserPreferences = DEFAULT_PREFERENCES
+): UserPreferences {
+  const stored = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+
+  return {
+    defaultMarket: pick(MARKETS, stored.defaultMarket, defaults.defaultMarket),
+    currency: pick(CURRENCIES, stored.currency, defaults.currency),
+    theme: pick(THEMES, stored.theme, defaults.theme),
+  };
+}
+
+/**
+ * Validate a partial update from a request body
+ */
+export function parsePreferencesUpdate(body: unknown): {
+  update: Partial<UserPreferences> | null;
+  error?: string;
+} {
+  if (!body || typeof body !== 'object') {
+    return { update: null, error: 'Request body must be an object' };
+  }
+
+  const input = body as Record<string, unknown>;
+  const update: Partial<UserPreferences> = {};
+
+  const fields: Array<[keyof UserPreferences, ReadonlyArray<string>]> = [
+    ['defaultMarket', MARKETS],
+    ['currency', CURRENCIES],
+    ['theme', THEMES],
+  ];
+
+  for (const [key, allowed] of fields) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'string' || !allowed.includes(input[key] as string)) {
+      return { update: null, error: `${key} must be one of: ${allowed.join(', ')}` };
+    }
+    (update as Record<string, string>)[key] = input[key] as string;
+  }
+
+  if (Object.keys(update).length === 0) {
+    return { update: null, error: 'At least one of defaultMarket, currency or theme is required' };
+  }
+
+  return { update };
+}
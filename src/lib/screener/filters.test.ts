@@ -0,0 +1,98 @@
+/**
+ * Screener Filter Controls Tests
+ *
+ * Tests cover:
+ * - Default sliders produce no criteria
+ * - Slider values → StockScreenerCriteria (bounds, scaling, sectors, trend toggles)
+ * - Saved criteria → slider values round trip
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  criteriaToFilters,
+  defaultFilterValues,
+  defaultTrendFilters,
+  filtersToCriteria,
+  formatFilterValue,
+  SCREENER_FILTERS,
+} from './filters';
+
+describe('filtersToCriteria', () => {
+  test('should produce no criteria with default sliders', () => {
+    expect(filtersToCriteria(defaultFilterValues(), [])).toEqual({});
+  });
+
+  test('should build "Thai banks ROE>12, PB<1"', () => {
+    const values = { ...defaultFilterValues(), roe: 12, pbRatio: 1 };
+    expect(filtersToCriteria(values, ['Banking'])).toEqual({
+      roe: { min: 12 },
+      pbRatio: { max: 1 },
+      sector: ['Banking'],
+    });
+  });
+
+  test('should scale market cap from billions', () => {
+    const values = { ...defaultFilterValues(), marketCap: 50 };
+    expect(filtersToCriteria(values, []).marketCap).toEqual({ min: 50e9 });
+  });
+
+  test('should map score sliders to minimums', () => {
+    const values = { ...defaultFilterValues(), canslimScore: 60 };
+    expect(filtersToCriteria(values, []).canslimScore).toEqual({ min: 60 });
+  });
+
+  test('should add trend template and stage criteria only when toggled', () => {
+    expect(filtersToCriteria(defaultFilterValues(), [], defaultTrendFilters())).toEqual({});
+    expect(
+      filtersToCriteria(defaultFilterValues(), [], { trendTemplate: true, stages: [2, 1], rsLineNewHigh: false })
+    ).toEqual({
+      trendTemplate: true,
+      stage: [1, 2],
+    });
+  });
+
+  test('should add RS rating and RS line criteria', () => {
+    const values = { ...defaultFilterValues(), rsRating: 80 };
+    expect(filtersToCriteria(values, [], { ...defaultTrendFilters(), rsLineNewHigh: true })).toEqual({
+      rsRating: { min: 80 },
+      rsLineNewHigh: true,
+    });
+  });
+});
+
+describe('criteriaToFilters', () => {
+  test('should round trip slider values and sectors', () => {
+    const values = { ...defaultFilterValues(), roe: 12, pbRatio: 1, marketCap: 100, speaScore: 70 };
+    const restored = criteriaToFilters(filtersToCriteria(values, ['Banking', 'Energy']));
+
+    expect(restored.values).toEqual(values);
+    expect(restored.sectors).toEqual(['Banking', 'Energy']);
+    expect(restored.trend).toEqual(defaultTrendFilters());
+  });
+
+  test('should restore trend toggles', () => {
+    expect(criteriaToFilters({ trendTemplate: true, stage: [2] }).trend).toEqual({
+      trendTemplate: true,
+      stages: [2],
+      rsLineNewHigh: false,
+    });
+    expect(criteriaToFilters({ rsRating: { min: 80 }, rsLineNewHigh: true })).toMatchObject({
+      values: { rsRating: 80 },
+      trend: { rsLineNewHigh: true },
+    });
+  });
+
+  test('should clamp values outside the slider range', () => {
+    const restored = criteriaToFilters({ peRatio: { max: 120 }, roe: { min: -5 } });
+    expect(restored.values.peRatio).toBe(50);
+    expect(restored.values.roe).toBe(0);
+  });
+});
+
+describe('formatFilterValue', () => {
+  test('should show "Any" for inactive sliders', () => {
+    const pe = SCREENER_FILTERS.find((f) => f.key === 'peRatio')!;
+    expect(formatFilterValue(pe, 50)).toBe('Any');
+    expect(formatFilterValue(pe, 15)).toBe('15x');
+  });
+});
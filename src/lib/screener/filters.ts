@@ -0,0 +1,177 @@
+/**
+ * Screener Filter Controls
+ *
+ * Maps the screener page's range sliders, sector chips and trend toggles to
+ * and from StockScreenerCriteria. Each slider sets one bound (min or max); a
+ * slider left at its "any" end adds no criterion.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { StockScreenerCriteria } from '@/types/market';
+import type { WeinsteinStage } from '@/types/technical';
+import { SECTOR_PEER_GROUPS } from '@/lib/sectorStandards';
+import { STAGE_LABELS } from '@/lib/technical/stage';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ScreenerFilterKey =
+  | 'marketCap'
+  | 'peRatio'
+  | 'pbRatio'
+  | 'dividendYield'
+  | 'roe'
+  | 'deRatio'
+  | 'revenueGrowth'
+  | 'epsGrowth'
+  | 'canslimScore'
+  | 'speaScore'
+  | 'rsRating';
+
+export interface ScreenerFilterConfig {
+  key: ScreenerFilterKey;
+  label: string;
+  bound: 'min' | 'max';
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+  scale?: number; // criteria value = slider value × scale
+}
+
+export type ScreenerFilterValues = Record<ScreenerFilterKey, number>;
+
+export interface ScreenerTrendFilters {
+  trendTemplate: boolean; // only stocks passing the trend template
+  stages: WeinsteinStage[]; // empty = any stage
+  rsLineNewHigh: boolean; // only stocks whose RS line is at a 52-week high
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SCREENER_FILTERS: ScreenerFilterConfig[] = [
+  { key: 'marketCap', label: 'Market Cap ≥', bound: 'min', min: 0, max: 500, step: 10, unit: 'B', scale: 1e9 },
+  { key: 'peRatio', label: 'P/E ≤', bound: 'max', min: 0, max: 50, step: 1, unit: 'x' },
+  { key: 'pbRatio', label: 'P/B ≤', bound: 'max', min: 0, max: 5, step: 0.1, unit: 'x' },
+  { key: 'dividendYield', label: 'Dividend Yield ≥', bound: 'min', min: 0, max: 10, step: 0.5, unit: '%' },
+  { key: 'roe', label: 'ROE ≥', bound: 'min', min: 0, max: 40, step: 1, unit: '%' },
+  { key: 'deRatio', label: 'D/E ≤', bound: 'max', min: 0, max: 3, step: 0.1, unit: 'x' },
+  { key: 'revenueGrowth', label: 'Revenue Growth ≥', bound: 'min', min: -20, max: 50, step: 1, unit: '%' },
+  { key: 'epsGrowth', label: 'EPS Growth ≥', bound: 'min', min: -20, max: 50, step: 1, unit: '%' },
+  { key: 'canslimScore', label: 'CAN SLIM ≥', bound: 'min', min: 0, max: 100, step: 5, unit: '' },
+  { key: 'speaScore', label: 'SPEA ≥', bound: 'min', min: 0, max: 100, step: 5, unit: '' },
+  { key: 'rsRating', label: 'RS Rating ≥', bound: 'min', min: 0, max: 99, step: 1, unit: '' },
+];
+
+export const SECTOR_OPTIONS: string[] = Array.from(
+  new Set(Object.values(SECTOR_PEER_GROUPS).map((group) => group.name))
+);
+
+export const STAGE_OPTIONS: Array<{ stage: WeinsteinStage; label: string }> = ([1, 2, 3, 4] as const).map(
+  (stage) => ({ stage, label: `${stage} · ${STAGE_LABELS[stage].label}` })
+);
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+/**
+ * Slider value that means "no filter" (the loosest end of the range)
+ */
+function anyValue(config: ScreenerFilterConfig): number {
+  return config.bound === 'min' ? config.min : config.max;
+}
+
+/**
+ * Every slider at its "any" end.
+ */
+export function defaultFilterValues(): ScreenerFilterValues {
+  return Object.fromEntries(SCREENER_FILTERS.map((config) => [config.key, anyValue(config)])) as ScreenerFilterValues;
+}
+
+/**
+ * Trend template off, any stage, any RS line.
+ */
+export function defaultTrendFilters(): ScreenerTrendFilters {
+  return { trendTemplate: false, stages: [], rsLineNewHigh: false };
+}
+
+/**
+ * Whether a slider value adds a criterion
+ */
+export function isFilterActive(config: ScreenerFilterConfig, value: number): boolean {
+  return value !== anyValue(config);
+}
+
+/**
+ * Build StockScreenerCriteria from slider values, selected sectors and trend toggles.
+ */
+export function filtersToCriteria(
+  values: ScreenerFilterValues,
+  sectors: string[],
+  trend: ScreenerTrendFilters = defaultTrendFilters()
+): StockScreenerCriteria {
+  const criteria: StockScreenerCriteria = {};
+
+  for (const config of SCREENER_FILTERS) {
+    const value = values[config.key];
+    if (!isFilterActive(config, value)) continue;
+
+    const scaled = Math.round(value * (config.scale ?? 1) * 1000) / 1000;
+    if (config.key === 'canslimScore' || config.key === 'speaScore' || config.key === 'rsRating') {
+      criteria[config.key] = { min: scaled };
+    } else {
+      criteria[config.key] = { [config.bound]: scaled };
+    }
+  }
+
+  if (sectors.length > 0) criteria.sector = sectors;
+  if (trend.trendTemplate) criteria.trendTemplate = true;
+  if (trend.stages.length > 0) criteria.stage = [...trend.stages].sort();
+  if (trend.rsLineNewHigh) criteria.rsLineNewHigh = true;
+  return criteria;
+}
+
+/**
+ * Restore slider values, sectors and trend toggles from saved criteria.
+ * Values outside a slider's range are clamped to it.
+ */
+export function criteriaToFilters(criteria: StockScreenerCriteria): {
+  values: ScreenerFilterValues;
+  sectors: string[];
+  trend: ScreenerTrendFilters;
+} {
+  const values = defaultFilterValues();
+
+  for (const config of SCREENER_FILTERS) {
+    const range = criteria[config.key] as { min?: number; max?: number } | undefined;
+    const raw = range?.[config.bound];
+    if (typeof raw !== 'number' || !isFinite(raw)) continue;
+
+    const value = raw / (config.scale ?? 1);
+    values[config.key] = Math.max(config.min, Math.min(config.max, value));
+  }
+
+  return {
+    values,
+    sectors: criteria.sector ?? [],
+    trend: {
+      trendTemplate: criteria.trendTemplate === true,
+      stages: criteria.stage ?? [],
+      rsLineNewHigh: criteria.rsLineNewHigh === true,
+    },
+  };
+}
+
+/**
+ * Short label for a slider value, e.g. "15x" or "Any"
+ */
+export function formatFilterValue(config: ScreenerFilterConfig, value: number): string {
+  if (!isFilterActive(config, value)) return 'Any';
+  const decimals = config.step < 1 ? 1 : 0;
+  return `${value.toFixed(decimals)}${config.unit}`;
+}
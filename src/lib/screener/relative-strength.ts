@@ -0,0 +1,76 @@
+/**
+ * Relative Strength Update
+ *
+ * Daily job behind /api/market/relative-strength/update: loads two years of
+ * prices for the screener universe and the RS benchmarks, rates every symbol
+ * against the rest of the universe and stores the day's values, so the
+ * screener, CAN SLIM "L" and the RS chart read ratings without refetching
+ * the whole universe.
+ */
+
+import { getHistoricalPrices } from '@/lib/api/historical';
+import { getLatestTopRankings } from '@/lib/firebase/settrade';
+import { saveRelativeStrength } from '@/lib/firebase/relative-strength';
+import type { UserSession } from '@/lib/firebase/rest';
+import { calculateRelativeStrength, rsBenchmarkFor } from '@/lib/technical/relative-strength';
+import type { HistoricalPrice } from '@/types/market';
+import type { RelativeStrengthEntry } from '@/types/technical';
+import { buildScreenerUniverse } from './universe';
+
+/**
+ * Price histories loaded in parallel per batch (keeps provider rate limits happy)
+ */
+const HISTORY_CONCURRENCY = 4;
+
+export interface RelativeStrengthRunResult {
+  rated: number; // symbols with an RS rating
+  stored: number; // entries written, rated or not
+  failed: string[]; // symbols without price history
+  entries: RelativeStrengthEntry[];
+}
+
+async function loadHistories(symbols: string[]): Promise<Map<string, HistoricalPrice[]>> {
+  const histories = new Map<string, HistoricalPrice[]>();
+
+  for (let i = 0; i < symbols.length; i += HISTORY_CONCURRENCY) {
+    const batch = symbols.slice(i, i + HISTORY_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map((symbol) => getHistoricalPrices(symbol, '2y')));
+
+    results.forEach((result, j) => {
+      if (result.status === 'fulfilled') {
+        histories.set(batch[j], result.value.data);
+      } else {
+        console.warn(`Relative strength: no history for ${batch[j]}:`, (result.reason as Error)?.message);
+      }
+    });
+  }
+
+  return histories;
+}
+
+/**
+ * Rate a universe (the default screener universe when omitted) and store the results.
+ */
+export async function runRelativeStrengthUpdate(
+  session: UserSession,
+  symbols?: string[]
+): Promise<RelativeStrengthRunResult> {
+  const universe = symbols ?? buildScreenerUniverse(await getLatestTopRankings());
+  const benchmarks = Array.from(new Set(universe.map(rsBenchmarkFor)));
+  const histories = await loadHistories([...universe, ...benchmarks]);
+
+  const entries = calculateRelativeStrength(
+    universe.filter((symbol) => histories.has(symbol)).map((symbol) => ({ symbol, bars: histories.get(symbol)! })),
+    Object.fromEntries(benchmarks.map((benchmark) => [benchmark, histories.get(benchmark) ?? []]))
+  );
+
+  await saveRelativeStrength(entries, session);
+
+  const stored = new Set(entries.map((entry) => entry.symbol));
+  return {
+    rated: entries.filter((entry) => entry.rsRating !== null).length,
+    stored: entries.length,
+    failed: universe.filter((symbol) => !stored.has(symbol)),
+    entries,
+  };
+}
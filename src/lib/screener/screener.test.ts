@@ -0,0 +1,360 @@
+/**
+ * Stock Screener Tests
+ *
+ * Tests cover:
+ * - Criteria evaluation (ranges, sectors, score minimums, missing data)
+ * - Sorting with nulls last
+ * - Pagination
+ * - GET query param parsing (including legacy scanner params)
+ * - POST criteria validation
+ * - Default universe
+ * - Snapshot scores match the decision engine's framework scores
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  matchesCriteria,
+  parseScreenerCriteria,
+  parseScreenerParams,
+  screenStocks,
+  sortScreenerResults,
+} from './screener';
+import { buildScreenerSnapshot, buildScreenerUniverse } from './universe';
+import { analyzeDecision } from '@/lib/decision/engine';
+import { buildDecisionInput } from '@/lib/decision/input-builder';
+import type { FinancialMetrics } from '@/types/financials';
+import type { Quote, ScreenerSnapshot } from '@/types/market';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function buildSnapshot(symbol: string, overrides: Partial<ScreenerSnapshot> = {}): ScreenerSnapshot {
+  return {
+    symbol,
+    name: symbol,
+    sector: 'Financial Services',
+    industry: 'Banks - Regional',
+    peerGroup: 'Banking',
+    marketCap: 300e9,
+    peRatio: 8,
+    pbRatio: 0.8,
+    dividendYield: 5,
+    roe: 13,
+    deRatio: 0.5,
+    revenueGrowth: 4,
+    epsGrowth: 6,
+    canslimScore: 55,
+    speaScore: 65,
+    trendTemplate: true,
+    trendTemplateCount: 7,
+    stage: 2,
+    rsRating: 85,
+    rsLineNewHigh: true,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+function buildQuote(symbol: string, changePercent: number): Quote {
+  return {
+    symbol,
+    name: `${symbol} PCL`,
+    price: 100,
+    change: changePercent,
+    changePercent,
+    high: 0,
+    low: 0,
+    open: 0,
+    previousClose: 0,
+    volume: 1000,
+    avgVolume: 0,
+    marketCap: 0,
+    timestamp: 0,
+  };
+}
+
+// ============================================================================
+// CRITERIA
+// ============================================================================
+
+describe('matchesCriteria', () => {
+  test('should pass an empty criteria object', () => {
+    expect(matchesCriteria(buildSnapshot('KBANK.BK'), {})).toBe(true);
+  });
+
+  test('should screen "Thai banks ROE>12, PB<1"', () => {
+    const criteria = { sector: ['banking'], roe: { min: 12 }, pbRatio: { max: 1 } };
+
+    expect(matchesCriteria(buildSnapshot('KBANK.BK'), criteria)).toBe(true);
+    expect(matchesCriteria(buildSnapshot('KTB.BK', { roe: 9 }), criteria)).toBe(false);
+    expect(matchesCriteria(buildSnapshot('SCB.BK', { pbRatio: 1.1 }), criteria)).toBe(false);
+    expect(matchesCriteria(buildSnapshot('PTT.BK', { sector: 'Energy', peerGroup: 'Energy' }), criteria)).toBe(false);
+  });
+
+  test('should match the provider sector as well as the peer group', () => {
+    expect(matchesCriteria(buildSnapshot('KBANK.BK'), { sector: ['Financial Services'] })).toBe(true);
+  });
+
+  test('should fail a criterion when the metric is missing', () => {
+    expect(matchesCriteria(buildSnapshot('KBANK.BK', { deRatio: null }), { deRatio: { max: 1 } })).toBe(false);
+    expect(matchesCriteria(buildSnapshot('KBANK.BK', { deRatio: null }), {})).toBe(true);
+  });
+
+  test('should apply CAN SLIM and SPEA minimums', () => {
+    const snapshot = buildSnapshot('KBANK.BK');
+    expect(matchesCriteria(snapshot, { canslimScore: { min: 50 }, speaScore: { min: 60 } })).toBe(true);
+    expect(matchesCriteria(snapshot, { speaScore: { min: 70 } })).toBe(false);
+  });
+
+  test('should apply trend template and stage criteria', () => {
+    const leader = buildSnapshot('KBANK.BK');
+    const laggard = buildSnapshot('KTB.BK', { trendTemplate: false, trendTemplateCount: 3, stage: 4 });
+    const noHistory = buildSnapshot('SCB.BK', { trendTemplate: null, trendTemplateCount: null, stage: null });
+
+    expect(matchesCriteria(leader, { trendTemplate: true, stage: [1, 2] })).toBe(true);
+    expect(matchesCriteria(laggard, { trendTemplate: true })).toBe(false);
+    expect(matchesCriteria(laggard, { stage: [4] })).toBe(true);
+    expect(matchesCriteria(noHistory, { stage: [1, 2, 3, 4] })).toBe(false);
+    expect(matchesCriteria(noHistory, { trendTemplate: false, stage: [] })).toBe(true);
+  });
+
+  test('should apply RS rating and RS line criteria', () => {
+    const leader = buildSnapshot('KBANK.BK');
+    const pulledBack = buildSnapshot('KTB.BK', { rsRating: 92, rsLineNewHigh: false });
+    const unrated = buildSnapshot('SCB.BK', { rsRating: null, rsLineNewHigh: null });
+
+    expect(matchesCriteria(leader, { rsRating: { min: 80 }, rsLineNewHigh: true })).toBe(true);
+    expect(matchesCriteria(leader, { rsRating: { min: 90 } })).toBe(false);
+    expect(matchesCriteria(pulledBack, { rsRating: { min: 80 }, rsLineNewHigh: true })).toBe(false);
+    expect(matchesCriteria(unrated, { rsRating: { min: 1 } })).toBe(false);
+    expect(matchesCriteria(unrated, { rsRating: {} })).toBe(true);
+  });
+});
+
+// ============================================================================
+// SORTING & PAGINATION
+// ============================================================================
+
+describe('screenStocks', () => {
+  const snapshots = [
+    buildSnapshot('A.BK', { canslimScore: 40, speaScore: 40 }),
+    buildSnapshot('B.BK', { canslimScore: 80, speaScore: 80 }),
+    buildSnapshot('C.BK', { canslimScore: 60, speaScore: 60, roe: 5 }),
+  ];
+  const quotes = new Map([
+    ['A.BK', buildQuote('A.BK', 3)],
+    ['B.BK', buildQuote('B.BK', -2)],
+  ]);
+
+  test('should sort by score descending by default', () => {
+    const response = screenStocks(snapshots, quotes, { criteria: {} });
+
+    expect(response.results.map((r) => r.symbol)).toEqual(['B.BK', 'C.BK', 'A.BK']);
+    expect(response.results[0]).toMatchObject({ name: 'B.BK PCL', score: 80, canslimScore: 80, sector: 'Banking' });
+    expect(response.universeSize).toBe(3);
+  });
+
+  test('should filter before paginating', () => {
+    const response = screenStocks(snapshots, quotes, { criteria: { roe: { min: 10 } }, pageSize: 1, page: 2 });
+
+    expect(response.total).toBe(2);
+    expect(response.results.map((r) => r.symbol)).toEqual(['A.BK']);
+  });
+
+  test('should clamp page size and page number', () => {
+    const response = screenStocks(snapshots, quotes, { criteria: {}, pageSize: 1000, page: 0 });
+    expect(response.pageSize).toBe(100);
+    expect(response.page).toBe(1);
+  });
+});
+
+describe('sortScreenerResults', () => {
+  test('should keep missing values last in both directions', () => {
+    const results = screenStocks(
+      [buildSnapshot('A.BK', { roe: 10 }), buildSnapshot('B.BK', { roe: null }), buildSnapshot('C.BK', { roe: 20 })],
+      new Map(),
+      { criteria: {} }
+    ).results;
+
+    expect(sortScreenerResults(results, 'roe', 'asc').map((r) => r.symbol)).toEqual(['A.BK', 'C.BK', 'B.BK']);
+    expect(sortScreenerResults(results, 'roe', 'desc').map((r) => r.symbol)).toEqual(['C.BK', 'A.BK', 'B.BK']);
+  });
+});
+
+// ============================================================================
+// QUERY PARSING
+// ============================================================================
+
+describe('parseScreenerParams', () => {
+  test('should parse range, list and score params', () => {
+    const query = parseScreenerParams(
+      new URLSearchParams('sector=Banking,Energy&minROE=12&maxPB=1&minCanslim=50&sort=roe&order=asc&page=2')
+    );
+
+    expect(query.criteria).toEqual({
+      sector: ['Banking', 'Energy'],
+      roe: { min: 12, max: undefined },
+      pbRatio: { min: undefined, max: 1 },
+      canslimScore: { min: 50 },
+    });
+    expect(query).toMatchObject({ sort: 'roe', order: 'asc', page: 2 });
+  });
+
+  test('should support legacy scanner params', () => {
+    const query = parseScreenerParams(new URLSearchParams('marketCap=mid&sort=losers'));
+
+    expect(query.criteria.marketCap).toEqual({ min: 2e9, max: 10e9 });
+    expect(query).toMatchObject({ sort: 'changePercent', order: 'asc' });
+  });
+
+  test('should parse trend template and stage params', () => {
+    expect(parseScreenerParams(new URLSearchParams('trendTemplate=true&stage=1,2&sort=stage')).criteria).toEqual({
+      trendTemplate: true,
+      stage: [1, 2],
+    });
+    expect(parseScreenerParams(new URLSearchParams('trendTemplate=no&stage=0,5,x')).criteria).toEqual({});
+  });
+
+  test('should parse RS params and sort by RS rating', () => {
+    const query = parseScreenerParams(new URLSearchParams('minRS=80&rsNewHigh=true&sort=rsRating'));
+    expect(query.criteria).toEqual({ rsRating: { min: 80 }, rsLineNewHigh: true });
+    expect(query.sort).toBe('rsRating');
+    expect(parseScreenerParams(new URLSearchParams('minRS=&rsNewHigh=no')).criteria).toEqual({});
+  });
+
+  test('should ignore unknown sort keys and bad numbers', () => {
+    const query = parseScreenerParams(new URLSearchParams('sort=price&minPE=abc&marketCap=constructor'));
+    expect(query.sort).toBeUndefined();
+    expect(query.criteria).toEqual({});
+  });
+});
+
+describe('parseScreenerCriteria', () => {
+  test('should accept every criterion type', () => {
+    const criteria = {
+      sector: ['Energy'],
+      industry: ['Oil & Gas'],
+      roe: { min: 12 },
+      peRatio: { max: 15 },
+      canslimScore: { min: 60 },
+      rsRating: { min: 80 },
+      trendTemplate: true,
+      rsLineNewHigh: false,
+      stage: [2],
+    };
+
+    const { criteria: parsed, error } = parseScreenerCriteria(criteria);
+    expect(error).toBeNull();
+    expect(parsed).toEqual({ ...criteria, roe: { min: 12, max: undefined }, peRatio: { min: undefined, max: 15 } });
+    expect(parseScreenerCriteria(undefined)).toEqual({ criteria: {}, error: null });
+  });
+
+  test('should reject malformed criteria', () => {
+    expect(parseScreenerCriteria('Energy').error).toBe('criteria must be an object');
+    expect(parseScreenerCriteria({ sector: 'Energy' }).error).toMatch(/sector/);
+    expect(parseScreenerCriteria({ sector: ['Energy', 3] }).error).toMatch(/sector/);
+    expect(parseScreenerCriteria({ roe: 12 }).error).toMatch(/roe/);
+    expect(parseScreenerCriteria({ peRatio: { max: '15' } }).error).toMatch(/peRatio/);
+    expect(parseScreenerCriteria({ canslimScore: { min: null } }).error).toMatch(/canslimScore/);
+    expect(parseScreenerCriteria({ stage: [5] }).error).toMatch(/stage/);
+    expect(parseScreenerCriteria({ trendTemplate: 'yes' }).error).toMatch(/trendTemplate/);
+    expect(parseScreenerCriteria({ price: { min: 1 } }).error).toBe('Unknown criterion: price');
+  });
+});
+
+// ============================================================================
+// UNIVERSE
+// ============================================================================
+
+describe('buildScreenerUniverse', () => {
+  test('should combine peer groups with SETTRADE rankings as unique .BK symbols', () => {
+    const row = { name: '', last: 0, change: 0, chgPct: 0, valMillion: 0, volMillion: 0 };
+    const universe = buildScreenerUniverse({
+      date: '',
+      capturedAt: '',
+      topByValue: [{ ...row, symbol: 'DELTA' }, { ...row, symbol: 'KBANK' }],
+      topByVolume: [{ ...row, symbol: 'delta' }],
+    });
+
+    expect(universe).toContain('KBANK.BK');
+    expect(universe).toContain('DELTA.BK');
+    expect(universe.filter((s) => s === 'DELTA.BK')).toHaveLength(1);
+    expect(universe.filter((s) => s === 'KBANK.BK')).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// SNAPSHOT
+// ============================================================================
+
+describe('buildScreenerSnapshot', () => {
+  // Yahoo reports ratios as decimals (ROE 0.25) and D/E in percent
+  const metrics: FinancialMetrics = {
+    revenue: 50e9,
+    revenueGrowth: 0.18,
+    netIncome: 11e9,
+    profitMargin: 0.22,
+    grossMargin: 0.4,
+    operatingMargin: 0.28,
+    peRatio: 14,
+    pbRatio: 2.2,
+    roe: 0.25,
+    deRatio: 45,
+    interestCoverage: 12,
+    eps: 7.1,
+    epsGrowth: 0.3,
+    freeCashFlow: 9e9,
+    dividendYield: 0.03,
+    marketCap: 160e9,
+    provider: 'yahoo',
+  };
+  const quote = { ...buildQuote('DELTA.BK', 1.5), volume: 2e6, avgVolume: 1.5e6, marketCap: 160e9 };
+  const profile = { sector: 'Technology', industry: 'Electronic Components' };
+
+  test('should score CAN SLIM and SPEA on percent-normalized fundamentals like the decision engine', () => {
+    const snapshot = buildScreenerSnapshot('DELTA.BK', {
+      quote,
+      metrics,
+      profile,
+      statements: null,
+      quarterly: [],
+      prices: [],
+      relativeStrength: null,
+    });
+    const { input } = buildDecisionInput({ provider: 'yahoo', quote, metrics, profile });
+    const decision = analyzeDecision('DELTA.BK', input);
+
+    expect(snapshot.roe).toBeCloseTo(25, 6);
+    expect(snapshot.canslimScore).toBe(decision.frameworkScores.canslim);
+    expect(snapshot.speaScore).toBe(decision.frameworkScores.spea);
+  });
+
+  test('should take the 52-week range from the last year of prices, not the quote', () => {
+    // Flat at 100 for 300 days with one spike to 150; the quote's intraday range is 99-101
+    const prices = (spikeAt: number) =>
+      Array.from({ length: 300 }, (_, i) => ({
+        date: new Date(Date.UTC(2023, 0, 2 + i)).toISOString().slice(0, 10),
+        open: 100,
+        high: i === spikeAt ? 150 : 101,
+        low: 99,
+        close: 100,
+        volume: 1e6,
+      }));
+    const snapshot = (spikeAt: number) =>
+      buildScreenerSnapshot('DELTA.BK', {
+        quote: { ...quote, high: 101, low: 99 },
+        metrics,
+        profile,
+        statements: null,
+        quarterly: [],
+        prices: prices(spikeAt),
+        relativeStrength: null,
+      });
+
+    // A spike within the year puts the price a third below its high and costs CAN SLIM "N";
+    // one more than a year back is out of range
+    expect(snapshot(200).canslimScore).toBeLessThan(snapshot(20).canslimScore);
+    expect(snapshot(20).canslimScore).toBe(snapshot(-1).canslimScore);
+  });
+});
@@ -0,0 +1,385 @@
+/**
+ * Stock Screener
+ *
+ * Evaluates StockScreenerCriteria against precomputed ScreenerSnapshots,
+ * then sorts and paginates the matches.
+ *
+ * Rules:
+ * - Every criterion present must pass; a missing metric fails its criterion
+ * - Sector matches the provider sector or the SECTOR_PEER_GROUPS name (case-insensitive)
+ * - Score is the CAN SLIM / SPEA aggregate from the framework aggregator
+ * - Trend template and stage criteria fail when the snapshot had no price history
+ * - RS criteria fail for symbols the daily RS update has not rated
+ * - Null sort values always sort last
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type {
+  Quote,
+  ScreenerQuery,
+  ScreenerResponse,
+  ScreenerResult,
+  ScreenerSnapshot,
+  ScreenerSortKey,
+  StockScreenerCriteria,
+} from '@/types/market';
+import type { WeinsteinStage } from '@/types/technical';
+import { aggregateFrameworkScores } from '@/lib/decision/aggregators/framework-aggregator';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Market cap buckets accepted by the legacy `marketCap` query param
+ */
+export const MARKET_CAP_BUCKETS: Record<string, { min?: number; max?: number }> = {
+  micro: { max: 300e6 },
+  small: { min: 300e6, max: 2e9 },
+  mid: { min: 2e9, max: 10e9 },
+  large: { min: 10e9, max: 200e9 },
+  mega: { min: 200e9 },
+};
+
+/**
+ * Query param names for each range criterion (min, max)
+ */
+const RANGE_PARAMS = {
+  marketCap: ['minMarketCap', 'maxMarketCap'],
+  peRatio: ['minPE', 'maxPE'],
+  pbRatio: ['minPB', 'maxPB'],
+  dividendYield: ['minDiv', 'maxDiv'],
+  roe: ['minROE', 'maxROE'],
+  deRatio: ['minDE', 'maxDE'],
+  revenueGrowth: ['minRevenueGrowth', 'maxRevenueGrowth'],
+  epsGrowth: ['minEpsGrowth', 'maxEpsGrowth'],
+} as const;
+
+type RangeKey = keyof typeof RANGE_PARAMS;
+
+const RANGE_KEYS = Object.keys(RANGE_PARAMS) as RangeKey[];
+
+const SORT_KEYS: ScreenerSortKey[] = [
+  'score',
+  'canslimScore',
+  'speaScore',
+  'stage',
+  'rsRating',
+  'marketCap',
+  'peRatio',
+  'pbRatio',
+  'roe',
+  'dividendYield',
+  'changePercent',
+  'volume',
+  'symbol',
+];
+
+// ============================================================================
+// CRITERIA
+// ============================================================================
+
+function inRange(value: number | null, range?: { min?: number; max?: number }): boolean {
+  if (!range || (range.min === undefined && range.max === undefined)) return true;
+  if (value === null || !isFinite(value)) return false;
+  if (range.min !== undefined && value < range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+}
+
+function matchesAny(values: Array<string | null>, wanted?: string[]): boolean {
+  if (!wanted || wanted.length === 0) return true;
+  const normalized = values.filter((v): v is string => !!v).map((v) => v.toLowerCase());
+  return wanted.some((w) => normalized.includes(w.toLowerCase()));
+}
+
+/**
+ * Check whether a snapshot passes every criterion.
+ */
+export function matchesCriteria(snapshot: ScreenerSnapshot, criteria: StockScreenerCriteria): boolean {
+  if (!matchesAny([snapshot.sector, snapshot.peerGroup], criteria.sector)) return false;
+  if (!matchesAny([snapshot.industry], criteria.industry)) return false;
+
+  for (const key of RANGE_KEYS) {
+    if (!inRange(snapshot[key], criteria[key])) return false;
+  }
+
+  if (criteria.canslimScore?.min !== undefined && snapshot.canslimScore < criteria.canslimScore.min) return false;
+  if (criteria.speaScore?.min !== undefined && snapshot.speaScore < criteria.speaScore.min) return false;
+
+  if (criteria.trendTemplate && snapshot.trendTemplate !== true) return false;
+  if (criteria.stage && criteria.stage.length > 0) {
+    if (snapshot.stage == null || !criteria.stage.includes(snapshot.stage)) return false;
+  }
+
+  if (criteria.rsRating?.min !== undefined) {
+    if (snapshot.rsRating == null || snapshot.rsRating < criteria.rsRating.min) return false;
+  }
+  if (criteria.rsLineNewHigh && snapshot.rsLineNewHigh !== true) return false;
+
+  return true;
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+/**
+ * Combine a snapshot with its live quote into a ScreenerResult.
+ */
+export function toScreenerResult(snapshot: ScreenerSnapshot, quote?: Quote | null): ScreenerResult {
+  const { overallScore } = aggregateFrameworkScores({
+    canslim: snapshot.canslimScore,
+    spea: snapshot.speaScore,
+  });
+
+  return {
+    symbol: snapshot.symbol,
+    name: quote?.name || snapshot.name,
+    price: quote?.price ?? 0,
+    change: quote?.change ?? 0,
+    changePercent: quote?.changePercent ?? 0,
+    marketCap: snapshot.marketCap ?? quote?.marketCap ?? 0,
+    peRatio: snapshot.peRatio ?? 0,
+    volume: quote?.volume ?? 0,
+    score: overallScore,
+    sector: snapshot.peerGroup || snapshot.sector || undefined,
+    pbRatio: snapshot.pbRatio,
+    roe: snapshot.roe,
+    dividendYield: snapshot.dividendYield,
+    canslimScore: snapshot.canslimScore,
+    speaScore: snapshot.speaScore,
+    trendTemplate: snapshot.trendTemplate ?? null,
+    stage: snapshot.stage ?? null,
+    rsRating: snapshot.rsRating ?? null,
+    rsLineNewHigh: snapshot.rsLineNewHigh ?? null,
+  };
+}
+
+/**
+ * Sort results by a key; nulls and missing values always go last.
+ */
+export function sortScreenerResults(
+  results: ScreenerResult[],
+  sort: ScreenerSortKey = 'score',
+  order: 'asc' | 'desc' = 'desc'
+): ScreenerResult[] {
+  const direction = order === 'asc' ? 1 : -1;
+
+  return [...results].sort((a, b) => {
+    if (sort === 'symbol') return a.symbol.localeCompare(b.symbol) * direction;
+
+    const av = a[sort];
+    const bv = b[sort];
+    const aMissing = typeof av !== 'number' || !isFinite(av);
+    const bMissing = typeof bv !== 'number' || !isFinite(bv);
+    if (aMissing || bMissing) return Number(aMissing) - Number(bMissing);
+    return ((av as number) - (bv as number)) * direction;
+  });
+}
+
+/**
+ * Filter, sort and paginate the universe.
+ *
+ * @param snapshots - Precomputed snapshot per universe symbol
+ * @param quotes - Live quotes keyed by symbol (missing quotes leave price fields at 0)
+ * @param query - Criteria, sort and page options
+ */
+export function screenStocks(
+  snapshots: ScreenerSnapshot[],
+  quotes: Map<string, Quote>,
+  query: ScreenerQuery
+): ScreenerResponse {
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(query.pageSize ?? DEFAULT_PAGE_SIZE)));
+  const page = Math.max(1, Math.floor(query.page ?? 1));
+
+  const matches = snapshots
+    .filter((snapshot) => matchesCriteria(snapshot, query.criteria))
+    .map((snapshot) => toScreenerResult(snapshot, quotes.get(snapshot.symbol)));
+  const sorted = sortScreenerResults(matches, query.sort, query.order);
+
+  return {
+    results: sorted.slice((page - 1) * pageSize, page * pageSize),
+    total: sorted.length,
+    page,
+    pageSize,
+    universeSize: snapshots.length,
+    criteria: query.criteria,
+  };
+}
+
+// ============================================================================
+// QUERY PARSING
+// ============================================================================
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const num = Number(value);
+  return isFinite(num) ? num : undefined;
+}
+
+function parseList(value: string | null): string[] | undefined {
+  const items = value?.split(',').map((s) => s.trim()).filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+/**
+ * Build a ScreenerQuery from GET query params.
+ *
+ * Supports the legacy scanner params (marketCap bucket, minPE/maxPE, minDiv/maxDiv,
+ * sort=gainers|losers) alongside min/max params for every range criterion,
+ * trendTemplate=true, stage=1,2 (a comma-separated list of Weinstein stages),
+ * minRS (lowest RS rating) and rsNewHigh=true (RS line at a 52-week high).
+ */
+export function parseScreenerParams(params: URLSearchParams): ScreenerQuery {
+  const criteria: StockScreenerCriteria = {};
+
+  for (const key of RANGE_KEYS) {
+    const [minParam, maxParam] = RANGE_PARAMS[key];
+    const min = parseNumber(params.get(minParam));
+    const max = parseNumber(params.get(maxParam));
+    if (min !== undefined || max !== undefined) criteria[key] = { min, max };
+  }
+
+  const bucket = params.get('marketCap')?.toLowerCase() ?? '';
+  if (Object.prototype.hasOwnProperty.call(MARKET_CAP_BUCKETS, bucket) && !criteria.marketCap) {
+    criteria.marketCap = MARKET_CAP_BUCKETS[bucket];
+  }
+
+  const sector = parseList(params.get('sector'));
+  if (sector) criteria.sector = sector;
+  const industry = parseList(params.get('industry'));
+  if (industry) criteria.industry = industry;
+
+  const minCanslim = parseNumber(params.get('minCanslim'));
+  if (minCanslim !== undefined) criteria.canslimScore = { min: minCanslim };
+  const minSpea = parseNumber(params.get('minSpea'));
+  if (minSpea !== undefined) criteria.speaScore = { min: minSpea };
+
+  const trendTemplate = params.get('trendTemplate');
+  if (trendTemplate === 'true' || trendTemplate === '1') criteria.trendTemplate = true;
+  const stage = parseList(params.get('stage'))?.map(Number).filter(isWeinsteinStage);
+  if (stage && stage.length > 0) criteria.stage = stage;
+
+  const minRS = parseNumber(params.get('minRS'));
+  if (minRS !== undefined) criteria.rsRating = { min: minRS };
+  const rsNewHigh = params.get('rsNewHigh');
+  if (rsNewHigh === 'true' || rsNewHigh === '1') criteria.rsLineNewHigh = true;
+
+  const orderParam = params.get('order');
+  let order: 'asc' | 'desc' | undefined = orderParam === 'asc' || orderParam === 'desc' ? orderParam : undefined;
+  let sort: ScreenerSortKey | undefined;
+  const sortParam = params.get('sort');
+  if (sortParam === 'gainers' || sortParam === 'losers') {
+    sort = 'changePercent';
+    order = sortParam === 'gainers' ? 'desc' : 'asc';
+  } else if (SORT_KEYS.includes(sortParam as ScreenerSortKey)) {
+    sort = sortParam as ScreenerSortKey;
+  }
+
+  return {
+    criteria,
+    sort,
+    order,
+    page: parseNumber(params.get('page')),
+    pageSize: parseNumber(params.get('pageSize')),
+    symbols: parseList(params.get('symbols')),
+  };
+}
+
+// ============================================================================
+// BODY VALIDATION
+// ============================================================================
+
+const MIN_SCORE_KEYS = ['canslimScore', 'speaScore', 'rsRating'] as const;
+const LIST_KEYS = ['sector', 'industry'] as const;
+const FLAG_KEYS = ['trendTemplate', 'rsLineNewHigh'] as const;
+
+const CRITERIA_KEYS: string[] = [...RANGE_KEYS, ...MIN_SCORE_KEYS, ...LIST_KEYS, ...FLAG_KEYS, 'stage'];
+
+function isBound(value: unknown): value is number | undefined {
+  return value === undefined || (typeof value === 'number' && isFinite(value));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Validate StockScreenerCriteria from a POST body: range bounds must be
+ * finite numbers, sector / industry string arrays, stage a list of 1-4 and
+ * flags booleans. Unknown fields are rejected.
+ */
+export function parseScreenerCriteria(
+  value: unknown
+): { criteria: StockScreenerCriteria | null; error: string | null } {
+  const invalid = (error: string) => ({ criteria: null, error });
+  if (value === undefined) return { criteria: {}, error: null };
+  if (!isPlainObject(value)) return invalid('criteria must be an object');
+
+  const unknown = Object.keys(value).find((key) => !CRITERIA_KEYS.includes(key));
+  if (unknown) return invalid(`Unknown criterion: ${unknown}`);
+
+  const criteria: StockScreenerCriteria = {};
+
+  for (const key of RANGE_KEYS) {
+    const range = value[key];
+    if (range === undefined) continue;
+    if (!isPlainObject(range) || !isBound(range.min) || !isBound(range.max)) {
+      return invalid(`${key} must be { min?, max? } with finite numbers`);
+    }
+    criteria[key] = { min: range.min, max: range.max };
+  }
+
+  for (const key of MIN_SCORE_KEYS) {
+    const range = value[key];
+    if (range === undefined) continue;
+    if (!isPlainObject(range) || !isBound(range.min)) {
+      return invalid(`${key} must be { min? } with a finite number`);
+    }
+    criteria[key] = { min: range.min };
+  }
+
+  for (const key of LIST_KEYS) {
+    const list = value[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list) || !list.every((item) => typeof item === 'string')) {
+      return invalid(`${key} must be an array of strings`);
+    }
+    criteria[key] = list;
+  }
+
+  for (const key of FLAG_KEYS) {
+    const flag = value[key];
+    if (flag === undefined) continue;
+    if (typeof flag !== 'boolean') return invalid(`${key} must be true or false`);
+    criteria[key] = flag;
+  }
+
+  if (value.stage !== undefined) {
+    if (!Array.isArray(value.stage) || !value.stage.every(isWeinsteinStage)) {
+      return invalid('stage must be an array of Weinstein stages (1-4)');
+    }
+    criteria.stage = value.stage;
+  }
+
+  return { criteria, error: null };
+}
+
+/**
+ * Validate a Weinstein stage from a query param or POST body.
+ */
+export function isWeinsteinStage(value: unknown): value is WeinsteinStage {
+  return value === 1 || value === 2 || value === 3 || value === 4;
+}
+
+/**
+ * Validate a sort key from a POST body.
+ */
+export function isScreenerSortKey(value: unknown): value is ScreenerSortKey {
+  return typeof value === 'string' && SORT_KEYS.includes(value as ScreenerSortKey);
+}
@@ -0,0 +1,221 @@
+/**
+ * Screener Universe
+ *
+ * Builds the symbol list the screener evaluates and loads a cached
+ * ScreenerSnapshot (fundamentals, CAN SLIM / SPEA scores, trend template,
+ * Weinstein stage and RS rating) per symbol. RS ratings are read once per
+ * screen by the caller (lib/firebase/relative-strength) and passed in.
+ *
+ * Default universe: every SECTOR_PEER_GROUPS member plus the latest SETTRADE
+ * top rankings by value and volume, as SET (.BK) symbols.
+ */
+
+import type { HistoricalPrice, Quote, ScreenerSnapshot } from '@/types/market';
+import type { TopRankingsResponse } from '@/types/settrade';
+import type { FinancialMetrics, QuarterlyData } from '@/types/financials';
+import type { RelativeStrengthEntry } from '@/types/technical';
+import { SECTOR_PEER_GROUPS, getSectorForSymbol } from '@/lib/sectorStandards';
+import { isValidSymbol, normalizeSymbol } from '@/lib/symbols/symbols';
+import { getQuote } from '@/lib/api/quotes';
+import { getCompanyMetrics, getCompanyProfile } from '@/lib/api/fundamentals';
+import { getFinancialStatements, getQuarterlyEarnings } from '@/lib/api/statements';
+import { getHistoricalPrices } from '@/lib/api/historical';
+import { getApiProvider } from '@/lib/api/stock-api';
+import { withCache, CACHE_TTL } from '@/lib/api/cache';
+import { calculateCanslimScore } from '@/lib/analysis/canslim';
+import { calculateSpeaScore } from '@/lib/analysis/spea';
+import { evaluateTrendTemplate } from '@/lib/technical/trend-template';
+import { classifyStage } from '@/lib/technical/stage';
+import { analyzePatterns } from '@/lib/technical/patterns';
+import { normalizeFundamentals, statementsToAnnualData, type DecisionSources } from '@/lib/decision/input-builder';
+import { toFinancialMetrics } from '@/lib/decision/scorers/utils';
+
+/**
+ * Upper bound on symbols screened per request
+ */
+export const MAX_UNIVERSE_SIZE = 100;
+
+/**
+ * Snapshots loaded in parallel per batch (keeps provider rate limits happy)
+ */
+const SNAPSHOT_CONCURRENCY = 4;
+
+/**
+ * Daily bars in the 52-week range (52 weeks of trading days)
+ */
+const YEAR_BARS = 252;
+
+/**
+ * Build the default screener universe: sector peers plus SETTRADE top rankings.
+ */
+export function buildScreenerUniverse(rankings?: TopRankingsResponse | null): string[] {
+  const symbols = new Set<string>();
+
+  for (const group of Object.values(SECTOR_PEER_GROUPS)) {
+    group.peers.filter(isValidSymbol).forEach((peer) => symbols.add(normalizeSymbol(peer, 'SET')!));
+  }
+
+  for (const row of [...(rankings?.topByValue ?? []), ...(rankings?.topByVolume ?? [])]) {
+    if (row.symbol && isValidSymbol(row.symbol)) symbols.add(normalizeSymbol(row.symbol, 'SET')!);
+  }
+
+  return Array.from(symbols).slice(0, MAX_UNIVERSE_SIZE);
+}
+
+/**
+ * Raw sources for one symbol's snapshot; null or empty when unavailable
+ */
+export interface ScreenerSources {
+  quote: Quote | null;
+  metrics: FinancialMetrics;
+  profile: { sector: string; industry: string } | null;
+  statements: DecisionSources['statements'];
+  quarterly: QuarterlyData[];
+  prices: HistoricalPrice[];
+  relativeStrength: RelativeStrengthEntry | null;
+}
+
+/**
+ * 52-week high and low from the last year of daily bars; the price alone without history
+ */
+function fiftyTwoWeekRange(prices: HistoricalPrice[], price: number): { high: number; low: number } {
+  const year = prices.slice(-YEAR_BARS);
+  if (year.length === 0) return { high: price, low: price };
+  return {
+    high: Math.max(...year.map((bar) => bar.high)),
+    low: Math.min(...year.map((bar) => bar.low)),
+  };
+}
+
+/**
+ * Precompute a symbol's screener metrics from its raw sources.
+ * CAN SLIM and SPEA read the same percent-normalized fundamentals as the
+ * decision engine, so screener scores match the stock page.
+ */
+export function buildScreenerSnapshot(symbol: string, sources: ScreenerSources): ScreenerSnapshot {
+  const { quote, metrics, profile, quarterly, prices, relativeStrength } = sources;
+  const annualData = statementsToAnnualData(sources.statements);
+  const fundamentals = normalizeFundamentals(metrics, metrics.provider ?? getApiProvider());
+  const financialMetrics = toFinancialMetrics({ fundamentals });
+  const price = quote?.price || 0;
+  const sectorKey = getSectorForSymbol(symbol);
+  const rsRating = relativeStrength?.rsRating ?? null;
+  const trendTemplate = prices.length > 0 ? evaluateTrendTemplate(prices, { rsRating }) : null;
+  const yearRange = fiftyTwoWeekRange(prices, price);
+
+  const canslim = calculateCanslimScore({
+    symbol,
+    currentPrice: price,
+    fiftyTwoWeekHigh: yearRange.high,
+    fiftyTwoWeekLow: yearRange.low,
+    marketCap: metrics.marketCap || 0,
+    volume: quote?.volume || 0,
+    avgVolume: quote?.avgVolume || quote?.volume || 0,
+    quarterlyEarnings: quarterly,
+    annualEarnings: annualData,
+    financialMetrics,
+    industry: profile?.industry || '',
+    sector: profile?.sector || '',
+    hasRecentNews: false,
+    marketTrend: 'neutral',
+    basePattern: prices.length > 0 ? analyzePatterns(prices).current : null,
+    rsRating,
+  });
+
+  const spea = calculateSpeaScore({
+    financialMetrics,
+    annualData,
+    industry: profile?.industry || '',
+    sector: profile?.sector || '',
+    currentPrice: price,
+    wacc: 0.10,
+    growthRate: 0.05,
+  });
+
+  return {
+    symbol,
+    name: quote?.name || symbol,
+    sector: profile?.sector || '',
+    industry: profile?.industry || '',
+    peerGroup: sectorKey ? SECTOR_PEER_GROUPS[sectorKey].name : null,
+    marketCap: metrics.marketCap ?? (quote?.marketCap || null),
+    peRatio: fundamentals.peRatio,
+    pbRatio: fundamentals.pbRatio,
+    dividendYield: fundamentals.dividendYield,
+    roe: fundamentals.roe,
+    deRatio: fundamentals.deRatio,
+    revenueGrowth: fundamentals.revenueGrowth,
+    epsGrowth: fundamentals.epsGrowth,
+    canslimScore: canslim.totalScore,
+    speaScore: spea.totalScore,
+    trendTemplate: trendTemplate?.passed ?? null,
+    trendTemplateCount: trendTemplate?.passedCount ?? null,
+    stage: prices.length > 0 ? classifyStage(prices).stage : null,
+    rsRating,
+    rsLineNewHigh: relativeStrength?.rsLineNewHigh ?? null,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Fetch fundamentals for one symbol and precompute its screener metrics.
+ * Cached for the fundamentals TTL; returns null when no metrics are available.
+ *
+ * @param relativeStrength - The symbol's stored RS values; null leaves it unrated
+ */
+export async function getScreenerSnapshot(
+  symbol: string,
+  relativeStrength: RelativeStrengthEntry | null = null
+): Promise<ScreenerSnapshot | null> {
+  return withCache('screener:snapshot:' + symbol, CACHE_TTL.FUNDAMENTALS, async () => {
+    const [quoteResult, metricsResult, profileResult, statementsResult, quarterlyResult, historicalResult] =
+      await Promise.allSettled([
+        getQuote(symbol),
+        getCompanyMetrics(symbol),
+        getCompanyProfile(symbol),
+        getFinancialStatements(symbol),
+        getQuarterlyEarnings(symbol),
+        getHistoricalPrices(symbol, '2y'),
+      ]);
+
+    if (metricsResult.status === 'rejected') {
+      console.warn(`Screener: metrics unavailable for ${symbol}:`, (metricsResult.reason as Error)?.message);
+      return null;
+    }
+
+    return buildScreenerSnapshot(symbol, {
+      quote: quoteResult.status === 'fulfilled' ? quoteResult.value : null,
+      metrics: metricsResult.value,
+      profile: profileResult.status === 'fulfilled' ? profileResult.value : null,
+      statements: statementsResult.status === 'fulfilled' ? statementsResult.value : null,
+      quarterly: quarterlyResult.status === 'fulfilled' ? quarterlyResult.value.data : [],
+      prices: historicalResult.status === 'fulfilled' ? historicalResult.value.data : [],
+      relativeStrength,
+    });
+  });
+}
+
+/**
+ * Load snapshots for a universe in small parallel batches, skipping failures.
+ *
+ * @param relativeStrength - Stored RS values keyed by symbol
+ */
+export async function loadScreenerSnapshots(
+  symbols: string[],
+  relativeStrength: Record<string, RelativeStrengthEntry> = {}
+): Promise<ScreenerSnapshot[]> {
+  const snapshots: ScreenerSnapshot[] = [];
+
+  for (let i = 0; i < symbols.length; i += SNAPSHOT_CONCURRENCY) {
+    const batch = symbols.slice(i, i + SNAPSHOT_CONCURRENCY);
+    const results = await Promise.allSettled(
+      batch.map((symbol) => getScreenerSnapshot(symbol, relativeStrength[symbol] ?? null))
+    );
+
+    for (const result of results) {
+      if (result.status === 'fulfilled' && result.value) snapshots.push(result.value);
+    }
+  }
+
+  return snapshots;
+}
@@ -0,0 +1,45 @@
+/**
+ * Symbol Search
+ *
+ * Server-side search over the symbol master (static seeds plus the latest
+ * SETTRADE top rankings), extended with Yahoo Finance search results when the
+ * local matches don't fill the list. Yahoo failures fall back to local only.
+ */
+
+import { withCache, CACHE_TTL } from '@/lib/api/cache';
+import { searchSymbolsYahoo } from '@/lib/api/yahoo-finance';
+import { getLatestTopRankings } from '@/lib/firebase/settrade';
+import type { SearchMarket, SymbolEntry } from '@/types/search';
+import { buildSymbolMaster, mergeSymbolEntries, searchSymbols } from './symbols';
+
+/**
+ * Symbol master with today's SETTRADE rankings, rebuilt hourly
+ */
+export async function getSymbolMaster(): Promise<SymbolEntry[]> {
+  return withCache('search:master', CACHE_TTL.FUNDAMENTALS, async () => {
+    const rankings = await getLatestTopRankings();
+    return buildSymbolMaster(rankings ? [...rankings.topByValue, ...rankings.topByVolume] : []);
+  });
+}
+
+/**
+ * Search local symbols first, then Yahoo to fill the remaining slots
+ */
+export async function searchAllSymbols(
+  query: string,
+  options: { limit: number; preferredMarket?: SearchMarket }
+): Promise<SymbolEntry[]> {
+  const master = await getSymbolMaster();
+  const local = searchSymbols(master, query, options);
+  if (local.length >= options.limit) return local;
+
+  let remote: SymbolEntry[] = [];
+  try {
+    remote = await searchSymbolsYahoo(query);
+  } catch (error) {
+    console.warn(`Yahoo symbol search failed for "${query}":`, (error as Error).message);
+  }
+
+  // Yahoo results keep Yahoo's relevance order after the local matches
+  return mergeSymbolEntries(local, remote).slice(0, options.limit);
+}
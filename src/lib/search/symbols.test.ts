@@ -0,0 +1,125 @@
+/**
+ * Symbol Master Tests
+ *
+ * Tests cover:
+ * - Market detection
+ * - Seeding from popular symbols, sector peers and SETTRADE rankings
+ * - Ranking by symbol then company name
+ * - Resolving typed input to a suffixed symbol
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  buildSymbolMaster,
+  marketOfSymbol,
+  mergeSymbolEntries,
+  resolveSymbol,
+  searchSymbols,
+} from './symbols';
+import type { TopRankingRow } from '@/types/settrade';
+import type { SymbolEntry } from '@/types/search';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function buildRanking(symbol: string, name: string): TopRankingRow {
+  return { symbol, name, last: 1, change: 0, chgPct: 0, valMillion: 0, volMillion: 0 };
+}
+
+const MASTER = buildSymbolMaster([buildRanking('DELTA', 'Delta Electronics (Thailand)')]);
+
+// ============================================================================
+// MARKETS
+// ============================================================================
+
+describe('marketOfSymbol', () => {
+  test('maps Yahoo suffixes to markets', () => {
+    expect(marketOfSymbol('PTT.BK')).toBe('TH');
+    expect(marketOfSymbol('0700.HK')).toBe('HK');
+    expect(marketOfSymbol('7203.T')).toBe('JP');
+    expect(marketOfSymbol('000001.SZ')).toBe('CN');
+    expect(marketOfSymbol('AAPL')).toBe('US');
+    expect(marketOfSymbol('BRK.B')).toBe('US');
+    expect(marketOfSymbol('VOD.L')).toBeNull();
+  });
+});
+
+// ============================================================================
+// SYMBOL MASTER
+// ============================================================================
+
+describe('buildSymbolMaster', () => {
+  test('includes popular symbols, sector peers and ranking rows once each', () => {
+    const symbols = MASTER.map((entry) => entry.symbol);
+    expect(symbols).toContain('AAPL');
+    expect(symbols).toContain('7203.T');
+    expect(symbols).toContain('000858.SZ');
+    expect(symbols).toContain('PTTEP.BK');
+    expect(symbols).toContain('DELTA.BK');
+    expect(new Set(symbols).size).toBe(symbols.length);
+  });
+
+  test('keeps names and fills in sectors from later sources', () => {
+    const ptt = MASTER.find((entry) => entry.symbol === 'PTT.BK');
+    expect(ptt).toMatchObject({ name: 'PTT Public Company Limited', market: 'TH', sector: 'Energy' });
+    expect(MASTER.find((entry) => entry.symbol === 'DELTA.BK')?.name).toBe('Delta Electronics (Thailand)');
+  });
+
+  test('mergeSymbolEntries replaces a placeholder name', () => {
+    const placeholder: SymbolEntry = { symbol: 'X.BK', name: 'X.BK', market: 'TH', source: 'local' };
+    const named: SymbolEntry = { ...placeholder, name: 'X Company', source: 'yahoo' };
+    expect(mergeSymbolEntries([placeholder], [named])).toEqual([{ ...placeholder, name: 'X Company' }]);
+  });
+});
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+describe('searchSymbols', () => {
+  test('matches a base symbol without its suffix', () => {
+    expect(searchSymbols(MASTER, 'ptt')[0].symbol).toBe('PTT.BK');
+  });
+
+  test('ranks exact and prefix symbol matches before name matches', () => {
+    const symbols = searchSymbols(MASTER, 'ptt').map((entry) => entry.symbol);
+    expect(symbols.slice(0, 3)).toEqual(['PTT.BK', 'PTTEP.BK', 'PTTGC.BK']);
+  });
+
+  test('matches company names by word', () => {
+    expect(searchSymbols(MASTER, 'toyota').map((entry) => entry.symbol)).toEqual(['7203.T']);
+    expect(searchSymbols(MASTER, 'bank').map((entry) => entry.symbol)).toContain('BBL.BK');
+  });
+
+  test('puts the preferred market first among equal matches and respects the limit', () => {
+    const entries: SymbolEntry[] = [
+      { symbol: 'ABC', name: 'ABC', market: 'US', source: 'local' },
+      { symbol: 'ABC.BK', name: 'ABC.BK', market: 'TH', source: 'local' },
+    ];
+    expect(searchSymbols(entries, 'abc', { preferredMarket: 'TH' })[0].symbol).toBe('ABC');
+    expect(searchSymbols(entries, 'ab', { preferredMarket: 'TH' })[0].symbol).toBe('ABC.BK');
+    expect(searchSymbols(MASTER, 'a', { limit: 3 })).toHaveLength(3);
+    expect(searchSymbols(MASTER, '  ')).toEqual([]);
+  });
+});
+
+// ============================================================================
+// RESOLVE
+// ============================================================================
+
+describe('resolveSymbol', () => {
+  test('adds the suffix of a known symbol', () => {
+    expect(resolveSymbol('ptt', MASTER)).toBe('PTT.BK');
+    expect(resolveSymbol('0700', MASTER)).toBe('0700.HK');
+    expect(resolveSymbol('aapl', MASTER, 'TH')).toBe('AAPL');
+  });
+
+  test('keeps explicit suffixes and falls back to the preferred market', () => {
+    expect(resolveSymbol('scb.bk', MASTER)).toBe('SCB.BK');
+    expect(resolveSymbol('XYZ', MASTER, 'TH')).toBe('XYZ.BK');
+    expect(resolveSymbol('XYZ', MASTER)).toBe('XYZ');
+    expect(resolveSymbol('000001', MASTER, 'CN')).toBe('000001.SZ');
+    expect(resolveSymbol('', MASTER)).toBe('');
+  });
+});
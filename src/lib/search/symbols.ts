@@ -0,0 +1,232 @@
+/**
+ * Symbol Master
+ *
+ * Local list of known symbols used by /api/search and the autocomplete,
+ * seeded from the popular symbols per market, the SET sector peer groups and
+ * the latest SETTRADE top rankings. Also resolves what the user typed
+ * ("ptt") to a Yahoo-style symbol with its market suffix ("PTT.BK").
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import { SECTOR_PEER_GROUPS } from '@/lib/sectorStandards';
+import {
+  baseSymbol,
+  countryOf,
+  formatSymbol,
+  isValidSymbol,
+  normalizeSymbol,
+  parseSymbol,
+} from '@/lib/symbols/symbols';
+import type { TopRankingRow } from '@/types/settrade';
+import type { SearchMarket, SymbolEntry } from '@/types/search';
+import type { Exchange } from '@/types/symbols';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * Exchange used to suffix bare codes typed while browsing each market
+ * (China picks Shanghai or Shenzhen from the code itself)
+ */
+export const MARKET_EXCHANGE: Record<SearchMarket, Exchange> = {
+  US: 'US',
+  TH: 'SET',
+  HK: 'HK',
+  JP: 'JP',
+  CN: 'CN-SS',
+};
+
+/**
+ * Popular symbols by market, without suffix
+ */
+export const POPULAR_SYMBOLS: Record<SearchMarket, string[]> = {
+  US: ['AAPL', 'MSFT', 'GOOGL', 'AMZN', 'NVDA', 'TSLA', 'META', 'BRK.B'],
+  TH: ['PTT', 'KBANK', 'CPF', 'ADVANC', 'AOT', 'BDMS', 'SCC', 'TRUE'],
+  HK: ['0700', '9988', '0941', '1299', '0968', '0883', '0005', '0017'],
+  JP: ['7203', '6758', '4755', '6702', '8604', '6954', '4519'],
+  CN: ['600519', '601318', '600036', '000858', '601012', '600276', '601888', '000002'],
+};
+
+/**
+ * Company names for the seeded symbols (others show the symbol until a
+ * ranking or Yahoo result supplies one)
+ */
+const SYMBOL_NAMES: Record<string, string> = {
+  AAPL: 'Apple Inc.',
+  MSFT: 'Microsoft Corporation',
+  GOOGL: 'Alphabet Inc.',
+  AMZN: 'Amazon.com, Inc.',
+  NVDA: 'NVIDIA Corporation',
+  TSLA: 'Tesla, Inc.',
+  META: 'Meta Platforms, Inc.',
+  'BRK.B': 'Berkshire Hathaway Inc.',
+  'PTT.BK': 'PTT Public Company Limited',
+  'KBANK.BK': 'Kasikornbank',
+  'CPF.BK': 'Charoen Pokphand Foods',
+  'ADVANC.BK': 'Advanced Info Service',
+  'AOT.BK': 'Airports of Thailand',
+  'BDMS.BK': 'Bangkok Dusit Medical Services',
+  'SCC.BK': 'The Siam Cement',
+  'TRUE.BK': 'True Corporation',
+  'BBL.BK': 'Bangkok Bank',
+  'SCB.BK': 'SCB X',
+  'KTB.BK': 'Krung Thai Bank',
+  'PTTEP.BK': 'PTT Exploration and Production',
+  'GULF.BK': 'Gulf Energy Development',
+  'CPALL.BK': 'CP ALL',
+  'INTUCH.BK': 'Intouch Holdings',
+  '0700.HK': 'Tencent Holdings',
+  '9988.HK': 'Alibaba Group',
+  '0941.HK': 'China Mobile',
+  '1299.HK': 'AIA Group',
+  '0968.HK': 'Xinyi Solar',
+  '0883.HK': 'CNOOC',
+  '0005.HK': 'HSBC Holdings',
+  '0017.HK': 'New World Development',
+  '7203.T': 'Toyota Motor',
+  '6758.T': 'Sony Group',
+  '4755.T': 'Rakuten Group',
+  '6702.T': 'Fujitsu',
+  '8604.T': 'Nomura Holdings',
+  '6954.T': 'Fanuc',
+  '4519.T': 'Chugai Pharmaceutical',
+  '600519.SS': 'Kweichow Moutai',
+  '601318.SS': 'Ping An Insurance',
+  '600036.SS': 'China Merchants Bank',
+  '000858.SZ': 'Wuliangye Yibin',
+  '601012.SS': 'LONGi Green Energy',
+  '600276.SS': 'Jiangsu Hengrui Pharmaceuticals',
+  '601888.SS': 'China Tourism Group Duty Free',
+  '000002.SZ': 'China Vanke',
+};
+
+const DEFAULT_LIMIT = 10;
+
+// ============================================================================
+// MARKETS
+// ============================================================================
+
+/**
+ * Market of a Yahoo-style symbol, or null for markets the app doesn't cover
+ * (e.g. London ".L")
+ */
+export function marketOfSymbol(symbol: string): SearchMarket | null {
+  return countryOf(symbol);
+}
+
+// ============================================================================
+// SYMBOL MASTER
+// ============================================================================
+
+function localEntry(symbol: string, market: SearchMarket, extra: Partial<SymbolEntry> = {}): SymbolEntry {
+  return { symbol, name: SYMBOL_NAMES[symbol] ?? symbol, market, source: 'local', ...extra };
+}
+
+/**
+ * Merge entry lists by symbol; earlier lists win, later ones fill in a
+ * missing name or sector
+ */
+export function mergeSymbolEntries(...lists: SymbolEntry[][]): SymbolEntry[] {
+  const merged = new Map<string, SymbolEntry>();
+
+  for (const entry of lists.flat()) {
+    const existing = merged.get(entry.symbol);
+    if (!existing) {
+      merged.set(entry.symbol, { ...entry });
+      continue;
+    }
+    if (existing.name === existing.symbol && entry.name !== entry.symbol) existing.name = entry.name;
+    if (!existing.sector && entry.sector) existing.sector = entry.sector;
+  }
+
+  return [...merged.values()];
+}
+
+/**
+ * Build the symbol master from the static seeds and SETTRADE ranking rows
+ */
+export function buildSymbolMaster(rankings: TopRankingRow[] = []): SymbolEntry[] {
+  const popular = (Object.keys(POPULAR_SYMBOLS) as SearchMarket[]).flatMap((market) =>
+    POPULAR_SYMBOLS[market].map((code) => localEntry(normalizeSymbol(code, MARKET_EXCHANGE[market])!, market))
+  );
+
+  const peers = Object.values(SECTOR_PEER_GROUPS).flatMap((group) =>
+    group.peers
+      .filter((peer) => isValidSymbol(peer))
+      .map((peer) => localEntry(formatSymbol(peer, 'SET'), 'TH', { sector: group.name }))
+  );
+
+  const ranked = rankings
+    .filter((row) => !!row.symbol && isValidSymbol(row.symbol))
+    .map((row) => {
+      const symbol = formatSymbol(row.symbol, 'SET');
+      return localEntry(symbol, 'TH', { name: SYMBOL_NAMES[symbol] ?? (row.name || symbol) });
+    });
+
+  return mergeSymbolEntries(popular, peers, ranked);
+}
+
+// ============================================================================
+// SEARCH
+// ============================================================================
+
+/**
+ * Match quality, lower is better; null when the entry doesn't match
+ */
+function matchRank(entry: SymbolEntry, query: string): number | null {
+  const base = baseSymbol(entry.symbol);
+  const name = entry.name.toUpperCase();
+
+  if (entry.symbol === query) return 0;
+  if (base === query) return 1;
+  if (entry.symbol.startsWith(query) || base.startsWith(query)) return 2;
+  if (name.split(/[\s.,&()-]+/).some((word) => word.startsWith(query))) return 3;
+  if (query.length >= 2 && name.includes(query)) return 4;
+  return null;
+}
+
+/**
+ * Rank entries matching the query by symbol then name, preferred market first
+ */
+export function searchSymbols(
+  entries: SymbolEntry[],
+  query: string,
+  options: { limit?: number; preferredMarket?: SearchMarket } = {}
+): SymbolEntry[] {
+  const q = query.trim().toUpperCase();
+  if (!q) return [];
+
+  const { limit = DEFAULT_LIMIT, preferredMarket } = options;
+
+  return entries
+    .map((entry) => ({ entry, rank: matchRank(entry, q) }))
+    .filter((match): match is { entry: SymbolEntry; rank: number } => match.rank !== null)
+    .sort((a, b) => {
+      if (a.rank !== b.rank) return a.rank - b.rank;
+      const aPreferred = a.entry.market === preferredMarket ? 0 : 1;
+      const bPreferred = b.entry.market === preferredMarket ? 0 : 1;
+      if (aPreferred !== bPreferred) return aPreferred - bPreferred;
+      if (a.entry.symbol.length !== b.entry.symbol.length) return a.entry.symbol.length - b.entry.symbol.length;
+      return a.entry.symbol.localeCompare(b.entry.symbol);
+    })
+    .slice(0, limit)
+    .map((match) => match.entry);
+}
+
+/**
+ * Resolve typed input to a symbol: kept as-is when it has a market suffix,
+ * otherwise the known symbol with that base (preferred market first), else
+ * normalized for the preferred market
+ */
+export function resolveSymbol(input: string, entries: SymbolEntry[], preferredMarket: SearchMarket = 'US'): string {
+  const parsed = parseSymbol(input);
+  if (!parsed) return input.trim().toUpperCase();
+  if (parsed.suffix) return parsed.symbol;
+
+  const matches = entries.filter((entry) => baseSymbol(entry.symbol) === parsed.base);
+  const match = matches.find((entry) => entry.market === preferredMarket) ?? matches[0];
+
+  return match ? match.symbol : normalizeSymbol(parsed.base, MARKET_EXCHANGE[preferredMarket])!;
+}
@@ -10,6 +10,8 @@
  * - Fitch Ratings, Kasikornbank Research, Thanachart Securities
  */
 
+import { baseSymbol, formatSymbol, isThaiSymbol, parseSymbol } from '@/lib/symbols/symbols';
+
 // SET Index Overall Benchmark Standards (Updated 2024-2025)
 // Latest SET metrics: P/E 15.4x, P/BV 1.22x, Dividend Yield 3.71%
 export const SET_INDEX_BENCHMARK = {
@@ -228,7 +230,10 @@ export const SECTOR_PEER_GROUPS: Record<string, {
 
 // Helper function to get sector group for a stock symbol
 export function getSectorForSymbol(symbol: string): keyof typeof SECTOR_PEER_GROUPS | null {
-  const upperSymbol = symbol.toUpperCase().replace('.BK', '');
+  // Peers are SET codes: match "PTT" or "PTT.BK", never another exchange's symbol
+  const parsed = parseSymbol(symbol);
+  if (!parsed || (parsed.suffix && !isThaiSymbol(symbol))) return null;
+  const upperSymbol = parsed.base;
 
   for (const [key, group] of Object.entries(SECTOR_PEER_GROUPS)) {
     if (group.peers.includes(upperSymbol)) {
@@ -246,11 +251,13 @@ export function getSectorBenchmark(symbol: string) {
   return SECTOR_PEER_GROUPS[sector].benchmark || null;
 }
 
-// Helper function to get peer stocks for a symbol
+// Helper function to get peer stocks for a symbol (as SET symbols, e.g. "KBANK.BK")
 export function getPeerStocks(symbol: string): string[] {
   const sector = getSectorForSymbol(symbol);
   if (!sector) return [];
-  return SECTOR_PEER_GROUPS[sector].peers.filter(p => p !== symbol.toUpperCase().replace('.BK', ''));
+  return SECTOR_PEER_GROUPS[sector].peers
+    .filter(p => p !== baseSymbol(symbol))
+    .map(p => formatSymbol(p, 'SET'));
 }
 
 // Helper function to get sector name
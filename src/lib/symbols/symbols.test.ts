@@ -0,0 +1,217 @@
+/**
+ * Symbol Normalization Tests
+ *
+ * Tests cover:
+ * - Validation and parsing of suffixes, share classes, indices and FX pairs
+ * - Formatting codes per exchange (HK zero-padding)
+ * - Normalizing bare codes for each exchange (JP ".T", Shanghai / Shenzhen)
+ * - Helpers: exchange, country, base and display symbols, RTDB keys
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  EXCHANGES,
+  baseSymbol,
+  chinaExchangeFor,
+  countryOf,
+  displaySymbol,
+  exchangeOf,
+  formatSymbol,
+  isThaiSymbol,
+  isValidSymbol,
+  normalizeSymbol,
+  parseSymbol,
+  symbolKey,
+} from './symbols';
+import type { Exchange } from '@/types/symbols';
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+describe('isValidSymbol', () => {
+  test('accepts tickers, indices and FX pairs in any case', () => {
+    for (const symbol of ['ptt.bk', 'AAPL', 'BRK.B', 'S&J.BK', '^SET.BK', '^GSPC', 'USDTHB=X', '0700.HK', 'CPF-R.BK']) {
+      expect(isValidSymbol(symbol)).toBe(true);
+    }
+  });
+
+  test('rejects empty, overlong and malformed input', () => {
+    for (const symbol of ['', '   ', '.BK', '-PTT', 'PTT BK', 'PTT/BK', 'ABCDEFGHIJKLMNOPQRSTU', '^^SET']) {
+      expect(isValidSymbol(symbol)).toBe(false);
+    }
+  });
+});
+
+// ============================================================================
+// PARSE
+// ============================================================================
+
+describe('parseSymbol', () => {
+  test('reads each covered suffix as its exchange', () => {
+    expect(parseSymbol('ptt.bk')).toEqual({ symbol: 'PTT.BK', base: 'PTT', suffix: '.BK', exchange: 'SET', isIndex: false });
+    expect(parseSymbol('0700.HK')?.exchange).toBe('HK');
+    expect(parseSymbol('7203.T')?.exchange).toBe('JP');
+    expect(parseSymbol('600519.SS')?.exchange).toBe('CN-SS');
+    expect(parseSymbol('000858.SZ')?.exchange).toBe('CN-SZ');
+  });
+
+  test('reads unsuffixed symbols and share classes as US', () => {
+    expect(parseSymbol(' aapl ')).toEqual({ symbol: 'AAPL', base: 'AAPL', suffix: '', exchange: 'US', isIndex: false });
+    expect(parseSymbol('BRK.B')).toEqual({ symbol: 'BRK.B', base: 'BRK.B', suffix: '', exchange: 'US', isIndex: false });
+  });
+
+  test('keeps unknown suffixes with a null exchange', () => {
+    expect(parseSymbol('VOD.L')).toEqual({ symbol: 'VOD.L', base: 'VOD', suffix: '.L', exchange: null, isIndex: false });
+  });
+
+  test('pads Hong Kong codes and flags indices', () => {
+    expect(parseSymbol('5.hk')?.symbol).toBe('0005.HK');
+    expect(parseSymbol('00700.HK')?.symbol).toBe('0700.HK');
+    expect(parseSymbol('^SET.BK')).toEqual({ symbol: '^SET.BK', base: '^SET', suffix: '.BK', exchange: 'SET', isIndex: true });
+    expect(parseSymbol('^HSI')?.isIndex).toBe(true);
+  });
+
+  test('returns null for invalid input', () => {
+    expect(parseSymbol('')).toBeNull();
+    expect(parseSymbol('PTT BK')).toBeNull();
+  });
+});
+
+// ============================================================================
+// FORMAT
+// ============================================================================
+
+describe('formatSymbol', () => {
+  test('adds the suffix of each exchange', () => {
+    const expected: Record<Exchange, string> = {
+      SET: 'PTT.BK',
+      MAI: 'PTT.BK',
+      US: 'PTT',
+      HK: 'PTT.HK',
+      JP: 'PTT.T',
+      'CN-SS': 'PTT.SS',
+      'CN-SZ': 'PTT.SZ',
+    };
+    for (const exchange of Object.keys(EXCHANGES) as Exchange[]) {
+      expect(formatSymbol('ptt', exchange)).toBe(expected[exchange]);
+    }
+  });
+
+  test('zero-pads Hong Kong codes to four digits', () => {
+    expect(formatSymbol('700', 'HK')).toBe('0700.HK');
+    expect(formatSymbol('5', 'HK')).toBe('0005.HK');
+    expect(formatSymbol('09988', 'HK')).toBe('9988.HK');
+    expect(formatSymbol('0', 'HK')).toBe('0000.HK');
+  });
+});
+
+describe('chinaExchangeFor', () => {
+  test('splits A-share codes between Shanghai and Shenzhen', () => {
+    expect(chinaExchangeFor('600519')).toBe('CN-SS');
+    expect(chinaExchangeFor('510300')).toBe('CN-SS');
+    expect(chinaExchangeFor('900901')).toBe('CN-SS');
+    expect(chinaExchangeFor('000858')).toBe('CN-SZ');
+    expect(chinaExchangeFor('002594')).toBe('CN-SZ');
+    expect(chinaExchangeFor('300750')).toBe('CN-SZ');
+  });
+});
+
+// ============================================================================
+// NORMALIZE
+// ============================================================================
+
+describe('normalizeSymbol', () => {
+  test('adds the default exchange suffix to bare tickers', () => {
+    expect(normalizeSymbol('ptt', 'SET')).toBe('PTT.BK');
+    expect(normalizeSymbol('ptt', 'MAI')).toBe('PTT.BK');
+    expect(normalizeSymbol('aapl')).toBe('AAPL');
+    expect(normalizeSymbol('aapl', 'US')).toBe('AAPL');
+  });
+
+  test('reads letter tickers as US when the default market only lists numbers', () => {
+    expect(normalizeSymbol('AAPL', 'HK')).toBe('AAPL');
+    expect(normalizeSymbol('AAPL', 'JP')).toBe('AAPL');
+    expect(normalizeSymbol('AAPL', 'CN-SS')).toBe('AAPL');
+  });
+
+  test('infers Hong Kong and Tokyo from numeric codes', () => {
+    expect(normalizeSymbol('700')).toBe('0700.HK');
+    expect(normalizeSymbol('700', 'HK')).toBe('0700.HK');
+    expect(normalizeSymbol('0700', 'SET')).toBe('0700.HK');
+    expect(normalizeSymbol('7203', 'JP')).toBe('7203.T');
+    expect(normalizeSymbol('7203', 'HK')).toBe('7203.HK');
+  });
+
+  test('resolves 6-digit China codes to Shanghai or Shenzhen', () => {
+    expect(normalizeSymbol('600519', 'CN-SS')).toBe('600519.SS');
+    expect(normalizeSymbol('000858', 'CN-SS')).toBe('000858.SZ');
+    expect(normalizeSymbol('000001')).toBe('000001.SZ');
+    expect(normalizeSymbol('300750', 'SET')).toBe('300750.SZ');
+  });
+
+  test('keeps explicit suffixes, share classes, indices and FX pairs', () => {
+    expect(normalizeSymbol('scb.bk', 'US')).toBe('SCB.BK');
+    expect(normalizeSymbol('600519.SZ', 'CN-SS')).toBe('600519.SZ');
+    expect(normalizeSymbol('7203.t', 'SET')).toBe('7203.T');
+    expect(normalizeSymbol('BRK.B', 'SET')).toBe('BRK.B');
+    expect(normalizeSymbol('VOD.L', 'SET')).toBe('VOD.L');
+    expect(normalizeSymbol('^GSPC', 'SET')).toBe('^GSPC');
+    expect(normalizeSymbol('usdthb=x', 'SET')).toBe('USDTHB=X');
+  });
+
+  test('is idempotent for each default exchange', () => {
+    for (const exchange of Object.keys(EXCHANGES) as Exchange[]) {
+      for (const input of ['ptt', '700', '7203', '000858', 'AAPL', 'BRK.B']) {
+        const once = normalizeSymbol(input, exchange)!;
+        expect(normalizeSymbol(once, exchange)).toBe(once);
+      }
+    }
+  });
+
+  test('returns null for invalid input', () => {
+    expect(normalizeSymbol('')).toBeNull();
+    expect(normalizeSymbol('not a symbol', 'SET')).toBeNull();
+  });
+});
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+describe('symbol helpers', () => {
+  test('exchangeOf and countryOf', () => {
+    expect(exchangeOf('PTT.BK')).toBe('SET');
+    expect(exchangeOf('VOD.L')).toBeNull();
+    expect(exchangeOf('')).toBeNull();
+    expect(countryOf('PTT.BK')).toBe('TH');
+    expect(countryOf('000858.SZ')).toBe('CN');
+    expect(countryOf('600519.SS')).toBe('CN');
+    expect(countryOf('7203.T')).toBe('JP');
+    expect(countryOf('AAPL')).toBe('US');
+    expect(countryOf('VOD.L')).toBeNull();
+  });
+
+  test('baseSymbol strips exchange suffixes but keeps share classes', () => {
+    expect(baseSymbol('ptt.bk')).toBe('PTT');
+    expect(baseSymbol('0700.HK')).toBe('0700');
+    expect(baseSymbol('BRK.B')).toBe('BRK.B');
+    expect(baseSymbol('VOD.L')).toBe('VOD');
+    expect(baseSymbol('PTT BK')).toBe('PTT BK');
+  });
+
+  test('isThaiSymbol and displaySymbol', () => {
+    expect(isThaiSymbol('PTT.BK')).toBe(true);
+    expect(isThaiSymbol('^SET.BK')).toBe(true);
+    expect(isThaiSymbol('PTT')).toBe(false);
+    expect(displaySymbol('PTT.BK')).toBe('PTT');
+    expect(displaySymbol('0700.HK')).toBe('0700.HK');
+    expect(displaySymbol('AAPL')).toBe('AAPL');
+  });
+
+  test('symbolKey replaces characters RTDB keys cannot hold', () => {
+    expect(symbolKey('PTT.BK')).toBe('PTT_BK');
+    expect(symbolKey('^SET.BK')).toBe('^SET_BK');
+    expect(symbolKey('A#B$C/D[E]')).toBe('A_B_C_D_E_');
+  });
+});
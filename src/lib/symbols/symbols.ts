@@ -0,0 +1,193 @@
+/**
+ * Symbol Normalization
+ *
+ * Single place for Yahoo-style symbol suffix rules, keyed by exchange:
+ *
+ *   SET / MAI  PTT.BK        (both trade under ".BK")
+ *   US         AAPL, BRK.B   (no suffix; ".A"/".B"/".C" are share classes)
+ *   HK         0700.HK       (numeric, zero-padded to 4 digits)
+ *   JP         7203.T        (4-digit code)
+ *   CN-SS      600519.SS     (Shanghai: codes starting 5, 6 or 9)
+ *   CN-SZ      000858.SZ     (Shenzhen: codes starting 0, 1, 2 or 3)
+ *
+ * Parse reads a symbol as written; normalize also infers the exchange of a
+ * bare code ("ptt" on SET → "PTT.BK", "000858" → "000858.SZ").
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { Country, Exchange, ExchangeInfo, ParsedSymbol } from '@/types/symbols';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const EXCHANGES: Record<Exchange, ExchangeInfo> = {
+  SET: { name: 'Stock Exchange of Thailand', suffix: '.BK', country: 'TH' },
+  MAI: { name: 'Market for Alternative Investment', suffix: '.BK', country: 'TH' },
+  US: { name: 'US (NYSE / Nasdaq)', suffix: '', country: 'US' },
+  HK: { name: 'Hong Kong Stock Exchange', suffix: '.HK', country: 'HK' },
+  JP: { name: 'Tokyo Stock Exchange', suffix: '.T', country: 'JP' },
+  'CN-SS': { name: 'Shanghai Stock Exchange', suffix: '.SS', country: 'CN' },
+  'CN-SZ': { name: 'Shenzhen Stock Exchange', suffix: '.SZ', country: 'CN' },
+};
+
+/**
+ * Suffix → exchange when parsing (".BK" reads as SET; mai can't be told apart)
+ */
+const SUFFIX_EXCHANGE: Record<string, Exchange> = {
+  BK: 'SET',
+  HK: 'HK',
+  T: 'JP',
+  SS: 'CN-SS',
+  SZ: 'CN-SZ',
+};
+
+/**
+ * US share classes written with a dot ("BRK.B"), as opposed to exchange suffixes
+ */
+const SHARE_CLASSES = ['A', 'B', 'C'];
+
+/**
+ * Optional "^" for indices, then letters, digits and . & = - (e.g. "S&J.BK", "USDTHB=X")
+ */
+const SYMBOL_PATTERN = /^\^?[A-Z0-9][A-Z0-9.&=-]{0,19}$/;
+
+// ============================================================================
+// PARSE / FORMAT
+// ============================================================================
+
+/**
+ * Whether the input is a plausible ticker (case-insensitive)
+ */
+export function isValidSymbol(input: string): boolean {
+  return SYMBOL_PATTERN.test(input.trim().toUpperCase());
+}
+
+/**
+ * Shanghai or Shenzhen for a 6-digit A-share code
+ */
+export function chinaExchangeFor(code: string): Exchange {
+  return /^[569]/.test(code) ? 'CN-SS' : 'CN-SZ';
+}
+
+function formatBase(base: string, exchange: Exchange): string {
+  const upper = base.trim().toUpperCase();
+  if (exchange === 'HK' && /^\d{1,5}$/.test(upper)) {
+    return upper.replace(/^0+(?=\d)/, '').padStart(4, '0');
+  }
+  return upper;
+}
+
+/**
+ * Yahoo symbol for a code on an exchange ("700", HK → "0700.HK")
+ */
+export function formatSymbol(base: string, exchange: Exchange): string {
+  return formatBase(base, exchange) + EXCHANGES[exchange].suffix;
+}
+
+/**
+ * Split a symbol into base, suffix and exchange as written. No suffix (or a
+ * share class) is US, as on Yahoo. Returns null for anything that isn't a
+ * plausible ticker.
+ */
+export function parseSymbol(input: string): ParsedSymbol | null {
+  const upper = input.trim().toUpperCase();
+  if (!SYMBOL_PATTERN.test(upper)) return null;
+
+  const isIndex = upper.startsWith('^');
+  const dot = upper.lastIndexOf('.');
+  const suffix = dot > 0 ? upper.slice(dot + 1) : '';
+
+  if (!suffix || SHARE_CLASSES.includes(suffix)) {
+    return { symbol: upper, base: upper, suffix: '', exchange: 'US', isIndex };
+  }
+
+  const base = upper.slice(0, dot);
+  const exchange = SUFFIX_EXCHANGE[suffix];
+  if (!exchange) {
+    return { symbol: upper, base, suffix: `.${suffix}`, exchange: null, isIndex };
+  }
+
+  const formatted = isIndex ? base : formatBase(base, exchange);
+  return { symbol: formatted + EXCHANGES[exchange].suffix, base: formatted, suffix: `.${suffix}`, exchange, isIndex };
+}
+
+// ============================================================================
+// NORMALIZE
+// ============================================================================
+
+/**
+ * Exchange for a bare code (no suffix) given the market the user is browsing:
+ * 6 digits are China A-shares, 4 digits on JP are Tokyo, other short numbers
+ * are Hong Kong, and letters use the default unless it only lists numbers
+ */
+function inferExchange(base: string, defaultExchange: Exchange): Exchange {
+  if (/^\d{6}$/.test(base)) return chinaExchangeFor(base);
+  if (/^\d{4}$/.test(base) && defaultExchange === 'JP') return 'JP';
+  if (/^\d{1,5}$/.test(base)) return 'HK';
+
+  const numericOnly = defaultExchange === 'HK' || defaultExchange === 'JP' || EXCHANGES[defaultExchange].country === 'CN';
+  return numericOnly ? 'US' : defaultExchange;
+}
+
+/**
+ * Canonical Yahoo symbol for user or URL input, or null when invalid.
+ * Suffixed symbols keep their exchange; bare codes get one inferred.
+ */
+export function normalizeSymbol(input: string, defaultExchange: Exchange = 'US'): string | null {
+  const parsed = parseSymbol(input);
+  if (!parsed) return null;
+
+  // Suffixed symbols, indices, FX pairs ("USDTHB=X") and share classes ("BRK.B") are complete
+  if (parsed.suffix || parsed.isIndex || /[.=]/.test(parsed.base)) return parsed.symbol;
+
+  return formatSymbol(parsed.base, inferExchange(parsed.base, defaultExchange));
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Exchange of a symbol as written, or null if invalid or not covered
+ */
+export function exchangeOf(symbol: string): Exchange | null {
+  return parseSymbol(symbol)?.exchange ?? null;
+}
+
+/**
+ * Country of a symbol's exchange, or null if invalid or not covered
+ */
+export function countryOf(symbol: string): Country | null {
+  const exchange = exchangeOf(symbol);
+  return exchange ? EXCHANGES[exchange].country : null;
+}
+
+/**
+ * Symbol without its exchange suffix ("PTT.BK" → "PTT", "BRK.B" unchanged)
+ */
+export function baseSymbol(symbol: string): string {
+  return parseSymbol(symbol)?.base ?? symbol.trim().toUpperCase();
+}
+
+/**
+ * SET or mai listing (".BK")
+ */
+export function isThaiSymbol(symbol: string): boolean {
+  return countryOf(symbol) === 'TH';
+}
+
+/**
+ * Short form for tables: Thai symbols without ".BK", others unchanged
+ */
+export function displaySymbol(symbol: string): string {
+  return isThaiSymbol(symbol) ? baseSymbol(symbol) : symbol;
+}
+
+/**
+ * RTDB-safe key for a symbol (keys cannot contain . # $ / [ ])
+ */
+export function symbolKey(symbol: string): string {
+  return symbol.replace(/[.#$/[\]]/g, '_');
+}
@@ -0,0 +1,202 @@
+/**
+ * Technical Indicator Tests
+ *
+ * Tests cover:
+ * - Warm-up nulls aligned with the input bars
+ * - Moving averages (SMA, EMA) and composing indicators over other indicators
+ * - RSI against Wilder's worked example
+ * - MACD, Bollinger Bands, Stochastic, ATR, OBV and VWAP on hand-checked series
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  atr,
+  bollingerBands,
+  ema,
+  lastValue,
+  macd,
+  obv,
+  rsi,
+  sma,
+  stochastic,
+  trueRange,
+  vwap,
+} from './indicators';
+import type { IndicatorSeries, PriceBar } from '@/types/technical';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function bar(close: number, overrides: Partial<PriceBar> = {}): PriceBar {
+  return { high: close, low: close, close, volume: 1000, ...overrides };
+}
+
+function rounded(series: IndicatorSeries, digits = 4): IndicatorSeries {
+  return series.map((value) => (value === null ? null : Number(value.toFixed(digits))));
+}
+
+// Wilder's RSI example (as used by StockCharts)
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.1, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28, 46.0,
+  46.03, 46.41, 46.22,
+];
+
+// ============================================================================
+// MOVING AVERAGES
+// ============================================================================
+
+describe('sma', () => {
+  test('averages each window, null before the first full window', () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toEqual([null, null, 2, 3, 4]);
+    expect(sma([1, 2], 3)).toEqual([null, null]);
+  });
+
+  test('skips leading nulls from another indicator', () => {
+    expect(sma([null, null, 2, 4, 6], 2)).toEqual([null, null, null, 3, 5]);
+  });
+});
+
+describe('ema', () => {
+  test('is seeded with the SMA and weights recent values by 2 / (period + 1)', () => {
+    // k = 0.5: a steady +1 trend settles one step behind the price
+    expect(ema([1, 2, 3, 4, 5, 6], 3)).toEqual([null, null, 2, 3, 4, 5]);
+    expect(rounded(ema([10, 10, 10, 20], 3))).toEqual([null, null, 10, 15]);
+  });
+
+  test('returns all nulls without enough values', () => {
+    expect(ema([null, 1, 2], 3)).toEqual([null, null, null]);
+  });
+});
+
+describe('bollingerBands', () => {
+  test('bands sit two population standard deviations from the SMA', () => {
+    const { upper, middle, lower } = bollingerBands([1, 2, 3, 4, 5], 5);
+    expect(middle[4]).toBe(3);
+    expect(upper[4]).toBeCloseTo(3 + 2 * Math.SQRT2, 10);
+    expect(lower[4]).toBeCloseTo(3 - 2 * Math.SQRT2, 10);
+    expect(upper.slice(0, 4)).toEqual([null, null, null, null]);
+  });
+
+  test('collapse onto the average when prices are flat', () => {
+    const { upper, lower } = bollingerBands(new Array(25).fill(50));
+    expect(lastValue(upper)).toBe(50);
+    expect(lastValue(lower)).toBe(50);
+  });
+});
+
+describe('vwap', () => {
+  test('weights the typical price by volume, cumulatively or over a window', () => {
+    const bars = [
+      bar(10, { high: 12, low: 8, volume: 100 }), // typical 10
+      bar(20, { high: 20, low: 20, volume: 300 }), // typical 20
+      bar(30, { high: 30, low: 30, volume: 100 }), // typical 30
+    ];
+    expect(vwap(bars)).toEqual([10, 17.5, 20]);
+    expect(vwap(bars, 2)).toEqual([null, 17.5, 22.5]);
+  });
+
+  test('is null until volume has traded', () => {
+    expect(vwap([bar(10, { volume: 0 }), bar(12, { volume: 10 })])).toEqual([null, 12]);
+  });
+});
+
+// ============================================================================
+// OSCILLATORS
+// ============================================================================
+
+describe('rsi', () => {
+  test("matches Wilder's worked example", () => {
+    const result = rsi(RSI_CLOSES, 14);
+    expect(result.slice(0, 14).every((value) => value === null)).toBe(true);
+    expect(rounded(result.slice(14), 2)).toEqual([70.46, 66.25, 66.48, 69.35, 66.29]);
+  });
+
+  test('reads 100 with no losses and 50 with no movement', () => {
+    expect(lastValue(rsi([1, 2, 3, 4, 5, 6], 3))).toBe(100);
+    expect(lastValue(rsi([5, 5, 5, 5, 5], 3))).toBe(50);
+    expect(lastValue(rsi([6, 5, 4, 3, 2], 3))).toBe(0);
+  });
+});
+
+describe('macd', () => {
+  test('line starts with the slow EMA and the signal one signal period later', () => {
+    const closes = Array.from({ length: 40 }, (_, i) => 100 + i);
+    const { macd: line, signal, histogram } = macd(closes);
+
+    expect(line.findIndex((value) => value !== null)).toBe(25);
+    expect(signal.findIndex((value) => value !== null)).toBe(33);
+    expect(histogram.findIndex((value) => value !== null)).toBe(33);
+    // A steady uptrend keeps the fast EMA above the slow one
+    expect(lastValue(line)).toBeGreaterThan(0);
+  });
+
+  test('is flat at zero for flat prices', () => {
+    const { macd: line, signal, histogram } = macd(new Array(40).fill(25));
+    expect([lastValue(line), lastValue(signal), lastValue(histogram)]).toEqual([0, 0, 0]);
+  });
+});
+
+describe('stochastic', () => {
+  test('places the close within the high-low range, smoothed for %K and %D', () => {
+    const bars = [
+      bar(10, { high: 11, low: 9 }),
+      bar(12, { high: 13, low: 10 }),
+      bar(11, { high: 12, low: 10 }), // range 9-13: (11-9)/4 = 50
+      bar(13, { high: 14, low: 12 }), // range 10-14: 75
+      bar(14, { high: 14, low: 13 }), // range 10-14: 100
+    ];
+    const fast = stochastic(bars, 3, 2, 1);
+    expect(fast.k).toEqual([null, null, 50, 75, 100]);
+    expect(fast.d).toEqual([null, null, null, 62.5, 87.5]);
+
+    const slow = stochastic(bars, 3, 2, 2);
+    expect(slow.k).toEqual([null, null, null, 62.5, 87.5]);
+    expect(slow.d).toEqual([null, null, null, null, 75]);
+  });
+
+  test('reads 50 when the range is flat', () => {
+    expect(lastValue(stochastic(new Array(20).fill(bar(10))).k)).toBe(50);
+  });
+});
+
+// ============================================================================
+// VOLATILITY AND VOLUME
+// ============================================================================
+
+describe('atr', () => {
+  const bars = [
+    bar(10, { high: 11, low: 9 }), // TR 2
+    bar(12, { high: 13, low: 11 }), // TR max(2, 3, 1) = 3
+    bar(9, { high: 12, low: 8 }), // TR max(4, 0, 4) = 4
+    bar(10, { high: 11, low: 10 }), // TR max(1, 2, 1) = 2
+  ];
+
+  test('true range reaches back to the previous close', () => {
+    expect(trueRange(bars)).toEqual([2, 3, 4, 2]);
+  });
+
+  test('seeds with the mean true range then smooths like Wilder', () => {
+    expect(atr(bars, 3)).toEqual([null, null, 3, (3 * 2 + 2) / 3]);
+    expect(atr(bars, 5)).toEqual([null, null, null, null]);
+  });
+});
+
+describe('obv', () => {
+  test('adds volume on up closes and subtracts it on down closes', () => {
+    const bars = [
+      bar(10, { volume: 500 }),
+      bar(11, { volume: 100 }),
+      bar(11, { volume: 900 }),
+      bar(9, { volume: 300 }),
+    ];
+    expect(obv(bars)).toEqual([0, 100, 100, -200]);
+  });
+});
+
+describe('lastValue', () => {
+  test('returns the latest number, skipping trailing nulls', () => {
+    expect(lastValue([null, 1, 2, null])).toBe(2);
+    expect(lastValue([null, null])).toBeNull();
+  });
+});
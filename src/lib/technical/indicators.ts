@@ -0,0 +1,265 @@
+/**
+ * Technical Indicators
+ *
+ * Moving averages, oscillators and volume indicators over daily bars
+ * (oldest first). Every function returns one value per input bar, null
+ * until the indicator has enough history, so results line up with the
+ * bars by index and can be charted directly.
+ *
+ * Inputs may start with nulls (another indicator's warm-up, e.g. the EMA of
+ * the MACD line); values after the first number must all be numbers.
+ *
+ * Each indicator is a single pass over the series (O(n), or O(n × period)
+ * for rolling highs and lows).
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type {
+  BollingerSeries,
+  IndicatorSeries,
+  MacdSeries,
+  PriceBar,
+  StochasticSeries,
+} from '@/types/technical';
+
+type Values = ReadonlyArray<number | null>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Index of the first number in a series (its length when there is none)
+ */
+function firstValueIndex(values: Values): number {
+  const index = values.findIndex((value) => value !== null);
+  return index === -1 ? values.length : index;
+}
+
+function emptySeries(length: number): IndicatorSeries {
+  return new Array(length).fill(null);
+}
+
+/**
+ * Most recent non-null value of a series, or null
+ */
+export function lastValue(series: Values): number | null {
+  for (let i = series.length - 1; i >= 0; i--) {
+    if (series[i] !== null) return series[i];
+  }
+  return null;
+}
+
+// ============================================================================
+// MOVING AVERAGES
+// ============================================================================
+
+/**
+ * Simple moving average over `period` values
+ */
+export function sma(values: Values, period: number): IndicatorSeries {
+  const result = emptySeries(values.length);
+  const start = firstValueIndex(values);
+  let sum = 0;
+
+  for (let i = start; i < values.length; i++) {
+    sum += values[i] as number;
+    if (i - start >= period) sum -= values[i - period] as number;
+    if (i - start >= period - 1) result[i] = sum / period;
+  }
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export function ema(values: Values, period: number): IndicatorSeries {
+  const result = emptySeries(values.length);
+  const start = firstValueIndex(values);
+  const seedIndex = start + period - 1;
+  if (seedIndex >= values.length) return result;
+
+  const k = 2 / (period + 1);
+  let sum = 0;
+  for (let i = start; i <= seedIndex; i++) sum += values[i] as number;
+  let previous = sum / period;
+  result[seedIndex] = previous;
+
+  for (let i = seedIndex + 1; i < values.length; i++) {
+    previous = ((values[i] as number) - previous) * k + previous;
+    result[i] = previous;
+  }
+  return result;
+}
+
+/**
+ * Bollinger Bands: SMA ± `multiplier` population standard deviations
+ */
+export function bollingerBands(closes: Values, period = 20, multiplier = 2): BollingerSeries {
+  const middle = sma(closes, period);
+  const upper = emptySeries(closes.length);
+  const lower = emptySeries(closes.length);
+
+  for (let i = 0; i < closes.length; i++) {
+    const mean = middle[i];
+    if (mean === null) continue;
+    let squares = 0;
+    for (let j = i - period + 1; j <= i; j++) squares += ((closes[j] as number) - mean) ** 2;
+    const deviation = Math.sqrt(squares / period);
+    upper[i] = mean + multiplier * deviation;
+    lower[i] = mean - multiplier * deviation;
+  }
+  return { upper, middle, lower };
+}
+
+/**
+ * Volume-weighted average price of the typical price (H+L+C)/3
+ * Cumulative from the first bar, or over a rolling window of `period` bars.
+ * Null until some volume has traded.
+ */
+export function vwap(bars: ReadonlyArray<PriceBar>, period?: number): IndicatorSeries {
+  const result = emptySeries(bars.length);
+  let priceVolume = 0;
+  let volume = 0;
+
+  for (let i = 0; i < bars.length; i++) {
+    const bar = bars[i];
+    priceVolume += ((bar.high + bar.low + bar.close) / 3) * bar.volume;
+    volume += bar.volume;
+    if (period !== undefined && i >= period) {
+      const old = bars[i - period];
+      priceVolume -= ((old.high + old.low + old.close) / 3) * old.volume;
+      volume -= old.volume;
+    }
+    if ((period === undefined || i >= period - 1) && volume > 0) result[i] = priceVolume / volume;
+  }
+  return result;
+}
+
+// ============================================================================
+// OSCILLATORS
+// ============================================================================
+
+/**
+ * Relative Strength Index with Wilder smoothing (0-100)
+ * The first value needs `period` price changes, so it lands on bar `period`.
+ * A window with no losses reads 100, one with no movement at all 50.
+ */
+export function rsi(closes: Values, period = 14): IndicatorSeries {
+  const result = emptySeries(closes.length);
+  const start = firstValueIndex(closes);
+  if (start + period >= closes.length) return result;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = start + 1; i <= start + period; i++) {
+    const change = (closes[i] as number) - (closes[i - 1] as number);
+    avgGain += Math.max(change, 0) / period;
+    avgLoss += Math.max(-change, 0) / period;
+  }
+  result[start + period] = rsiValue(avgGain, avgLoss);
+
+  for (let i = start + period + 1; i < closes.length; i++) {
+    const change = (closes[i] as number) - (closes[i - 1] as number);
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = rsiValue(avgGain, avgLoss);
+  }
+  return result;
+}
+
+function rsiValue(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  return 100 - 100 / (1 + avgGain / avgLoss);
+}
+
+/**
+ * MACD: fast EMA − slow EMA, its `signalPeriod` EMA, and the difference
+ */
+export function macd(closes: Values, fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MacdSeries {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const line = fast.map((value, i) => (value !== null && slow[i] !== null ? value - (slow[i] as number) : null));
+  const signal = ema(line, signalPeriod);
+  const histogram = line.map((value, i) => (value !== null && signal[i] !== null ? value - (signal[i] as number) : null));
+  return { macd: line, signal, histogram };
+}
+
+/**
+ * Stochastic oscillator (0-100)
+ * Raw %K is where the close sits in the `kPeriod` high-low range (50 when the
+ * range is flat), smoothed over `slowing` bars; %D is the `dPeriod` SMA of %K.
+ * The defaults (14, 3, 3) are the slow stochastic; slowing 1 gives the fast one.
+ */
+export function stochastic(
+  bars: ReadonlyArray<PriceBar>,
+  kPeriod = 14,
+  dPeriod = 3,
+  slowing = 3
+): StochasticSeries {
+  const rawK = emptySeries(bars.length);
+  for (let i = kPeriod - 1; i < bars.length; i++) {
+    let highest = -Infinity;
+    let lowest = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highest = Math.max(highest, bars[j].high);
+      lowest = Math.min(lowest, bars[j].low);
+    }
+    rawK[i] = highest === lowest ? 50 : ((bars[i].close - lowest) / (highest - lowest)) * 100;
+  }
+
+  const k = slowing > 1 ? sma(rawK, slowing) : rawK;
+  return { k, d: sma(k, dPeriod) };
+}
+
+// ============================================================================
+// VOLATILITY AND VOLUME
+// ============================================================================
+
+/**
+ * True range: the bar's range extended to the previous close (high − low on the first bar)
+ */
+export function trueRange(bars: ReadonlyArray<PriceBar>): number[] {
+  return bars.map((bar, i) => {
+    if (i === 0) return bar.high - bar.low;
+    const previousClose = bars[i - 1].close;
+    return Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+  });
+}
+
+/**
+ * Average True Range with Wilder smoothing, seeded with the mean of the first
+ * `period` true ranges
+ */
+export function atr(bars: ReadonlyArray<PriceBar>, period = 14): IndicatorSeries {
+  const ranges = trueRange(bars);
+  const result = emptySeries(bars.length);
+  if (period > bars.length) return result;
+
+  let previous = ranges.slice(0, period).reduce((sum, range) => sum + range, 0) / period;
+  result[period - 1] = previous;
+  for (let i = period; i < bars.length; i++) {
+    previous = (previous * (period - 1) + ranges[i]) / period;
+    result[i] = previous;
+  }
+  return result;
+}
+
+/**
+ * On-Balance Volume: running total adding volume on up closes and
+ * subtracting it on down closes, starting at 0
+ */
+export function obv(bars: ReadonlyArray<PriceBar>): number[] {
+  const result: number[] = [];
+  let total = 0;
+  bars.forEach((bar, i) => {
+    if (i > 0) {
+      const previousClose = bars[i - 1].close;
+      if (bar.close > previousClose) total += bar.volume;
+      else if (bar.close < previousClose) total -= bar.volume;
+    }
+    result.push(total);
+  });
+  return result;
+}
@@ -0,0 +1,147 @@
+/**
+ * Chart Pattern Tests
+ *
+ * Tests cover:
+ * - Alternating swing pivots
+ * - Cup-with-handle, flat base, double bottom and VCP on piecewise-linear
+ *   price paths, with their buy points and depths
+ * - Breakout status (breakout, extended, failed, forming) and breakout volume
+ * - No bases without a prior advance
+ */
+
+import { describe, test, expect } from 'vitest';
+import { analyzePatterns, detectBases, findPivots } from './patterns';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+/**
+ * Closes along straight legs: [target, bars] from `start`
+ */
+function path(start: number, legs: Array<[number, number]>): number[] {
+  const closes = [start];
+  for (const [to, length] of legs) {
+    const from = closes[closes.length - 1];
+    for (let i = 1; i <= length; i++) closes.push(from + ((to - from) * i) / length);
+  }
+  return closes;
+}
+
+function barsFrom(closes: number[], volumes: Record<number, number> = {}) {
+  return closes.map((close, i) => ({
+    date: new Date(Date.UTC(2023, 0, 2 + i)).toISOString().slice(0, 10),
+    high: close * 1.005,
+    low: close * 0.995,
+    close,
+    volume: volumes[i] ?? 1000,
+  }));
+}
+
+// Fifty percent advance into every base
+const ADVANCE: Array<[number, number]> = [[100, 60]];
+
+// ============================================================================
+// PIVOTS
+// ============================================================================
+
+describe('findPivots', () => {
+  test('marks swing highs and lows, alternating', () => {
+    const bars = barsFrom(path(50, [[60, 10], [55, 10], [58, 10], [52, 10], [70, 10]]));
+    const pivots = findPivots(bars, 3);
+
+    expect(pivots.map((p) => [p.type, p.index])).toEqual([
+      ['high', 10],
+      ['low', 20],
+      ['high', 30],
+      ['low', 40],
+    ]);
+    expect(pivots[0].price).toBeCloseTo(60 * 1.005, 10);
+  });
+});
+
+// ============================================================================
+// BASES
+// ============================================================================
+
+describe('detectBases', () => {
+  test('finds a cup with handle and buys above the handle high', () => {
+    const closes = path(50, [...ADVANCE, [70, 30], [97, 30], [91, 8], [99, 6]]);
+    const [base] = detectBases(barsFrom(closes));
+
+    expect(base).toMatchObject({ type: 'cup-with-handle', startIndex: 60, status: 'breakout' });
+    expect(base.buyPoint).toBeCloseTo(97 * 1.005, 6);
+    expect(base.depthPct).toBeCloseTo(30.7, 1);
+    expect(base.contractions[1]).toBeCloseTo(7.1, 1);
+    // Handle low at bar 128; the fifth bar of the last leg closes above 97.485
+    expect(base.breakoutIndex).toBe(133);
+  });
+
+  test('finds a flat base with the left-side high as the buy point', () => {
+    const closes = path(50, [...ADVANCE, [94, 10], [98, 10], [91, 10], [99, 10], [102, 3]]);
+    const [base] = detectBases(barsFrom(closes));
+
+    expect(base).toMatchObject({ type: 'flat-base', status: 'breakout' });
+    expect(base.buyPoint).toBeCloseTo(100.5, 6);
+    expect(base.depthPct).toBeLessThan(15);
+  });
+
+  test('finds a double bottom and buys above the middle peak', () => {
+    const closes = path(50, [...ADVANCE, [75, 25], [88, 15], [74, 15], [92, 20]]);
+    const [base] = detectBases(barsFrom(closes));
+
+    expect(base).toMatchObject({ type: 'double-bottom', status: 'breakout' });
+    expect(base.buyPoint).toBeCloseTo(88 * 1.005, 6);
+    expect(base.depthPct).toBeCloseTo(26.7, 1);
+  });
+
+  test('finds a VCP with each contraction shallower than the last', () => {
+    const closes = path(50, [...ADVANCE, [80, 20], [96, 16], [86, 10], [94, 10], [89, 8], [97, 8]]);
+    const [base] = detectBases(barsFrom(closes));
+
+    expect(base.type).toBe('vcp');
+    expect(base.contractions).toHaveLength(3);
+    expect(base.contractions[0]).toBeGreaterThan(base.contractions[1]);
+    expect(base.contractions[1]).toBeGreaterThan(base.contractions[2]);
+    expect(base.buyPoint).toBeCloseTo(94 * 1.005, 6);
+  });
+
+  test('needs a prior advance', () => {
+    expect(detectBases(barsFrom(path(100, [[50, 150]])))).toEqual([]);
+    expect(detectBases(barsFrom(path(100, [[100, 60], [70, 30], [97, 30], [91, 8], [99, 6]])))).toEqual([]);
+  });
+});
+
+// ============================================================================
+// BREAKOUT STATUS
+// ============================================================================
+
+describe('breakout status', () => {
+  const cup: Array<[number, number]> = [...ADVANCE, [70, 30], [97, 30], [91, 8]];
+
+  test('is extended more than 5% above the buy point and failed 8% below it', () => {
+    expect(detectBases(barsFrom(path(50, [...cup, [99, 6], [110, 6]])))[0].status).toBe('extended');
+    expect(detectBases(barsFrom(path(50, [...cup, [99, 6], [85, 6]])))[0].status).toBe('failed');
+  });
+
+  test('is forming before a close above the buy point', () => {
+    const [base] = detectBases(barsFrom(path(50, [...cup, [93, 4]])));
+    expect(base).toMatchObject({ type: 'cup-with-handle', status: 'forming', breakoutIndex: null, breakoutDate: null });
+  });
+
+  test('compares breakout volume with the 50-day average', () => {
+    const [base] = detectBases(barsFrom(path(50, [...cup, [99, 6]]), { 133: 2500 }));
+    expect(base.breakoutVolumeRatio).toBe(2.5);
+  });
+});
+
+describe('analyzePatterns', () => {
+  test('a base that broke out over a month ago is no longer current', () => {
+    const recent = analyzePatterns(barsFrom(path(50, [...ADVANCE, [70, 30], [97, 30], [91, 8], [99, 6]])));
+    expect(recent.current?.type).toBe('cup-with-handle');
+
+    const old = analyzePatterns(barsFrom(path(50, [...ADVANCE, [70, 30], [97, 30], [91, 8], [99, 6], [140, 40]])));
+    expect(old.bases).toHaveLength(1);
+    expect(old.current).toBeNull();
+  });
+});
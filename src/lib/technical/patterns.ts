@@ -0,0 +1,334 @@
+/**
+ * Chart Pattern and Base Detection
+ *
+ * Finds swing pivots in daily OHLCV (oldest first) and the bases William
+ * O'Neil and Mark Minervini buy from: cup-with-handle, flat base, double
+ * bottom and the volatility contraction pattern (VCP).
+ *
+ * Every base starts at a swing high after a prior advance (the left side)
+ * and lives until the first close back above that high. Inside it the
+ * patterns are tried in order, the first match wins:
+ *
+ * 1. Double bottom: two comparable lows around a middle peak; buy point = the middle peak
+ * 2. Cup with handle: a 12-50% cup whose right side recovers to within 15% of
+ *    the left, then a 5+ bar handle in the upper half; buy point = the handle high
+ * 3. VCP: two or more pullbacks, each shallower than the last and the final
+ *    one under 10%; buy point = the high of the final contraction
+ * 4. Flat base: 5+ weeks within 15% of the left-side high; buy point = that high
+ *
+ * The breakout is the first close above the buy point. Its status then
+ * depends on the latest close: within 5% above the buy point is a breakout,
+ * further is extended, and 8% below it is a failed breakout.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { HistoricalPrice } from '@/types/market';
+import type { BasePattern, BasePatternType, BreakoutStatus, PatternAnalysis, Pivot } from '@/types/technical';
+
+type PatternBar = Pick<HistoricalPrice, 'date' | 'high' | 'low' | 'close' | 'volume'>;
+type Bars = ReadonlyArray<PatternBar>;
+
+/**
+ * What a pattern matcher found, before the shared breakout bookkeeping
+ */
+interface PatternMatch {
+  type: BasePatternType;
+  buyPoint: number;
+  baseLow: number;
+  contractions: number[];
+  breakoutIndex: number | null;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const PATTERN_RULES = {
+  pivotStrength: 5, // bars on each side a swing high/low must exceed
+  priorAdvanceBars: 126, // look back six months for the prior uptrend...
+  minPriorAdvancePct: 25, // ...which must have lifted price at least this far off its low
+  maxBaseBars: 325, // 65 weeks
+  flatBase: { minBars: 25, maxDepthPct: 15 },
+  cup: { minBars: 35, minDepthPct: 12, maxDepthPct: 50, minRightSidePct: 85, minHandleBars: 5, maxHandleDepthPct: 15 },
+  doubleBottom: { minBars: 35, minDepthPct: 12, maxDepthPct: 50, maxMiddlePct: 95, minBounceMultiple: 1.08, lowTolerancePct: 3, maxUndercutPct: 8 },
+  vcp: { minBars: 15, minContractions: 2, maxFirstDepthPct: 50, maxFinalDepthPct: 10 },
+  buyRangePct: 5,
+  failurePct: 8,
+  volumeAverageBars: 50,
+  recentBreakoutBars: 21, // a base broken out this recently is still "current"
+} as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Lowest low over bars [from, to)
+ */
+function minLow(bars: Bars, from: number, to: number): number {
+  let low = Infinity;
+  for (let i = Math.max(0, from); i < Math.min(to, bars.length); i++) low = Math.min(low, bars[i].low);
+  return low;
+}
+
+/**
+ * Index of the first close above `level` at or after `from`, or null
+ */
+function firstCloseAbove(bars: Bars, level: number, from: number): number | null {
+  for (let i = from; i < bars.length; i++) {
+    if (bars[i].close > level) return i;
+  }
+  return null;
+}
+
+function pctBelow(high: number, low: number): number {
+  return ((high - low) / high) * 100;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// ============================================================================
+// PIVOTS
+// ============================================================================
+
+/**
+ * Swing highs and lows, alternating high/low.
+ * A swing high is above the `strength` bars before it and not below the
+ * `strength` bars after it (swing lows mirror that), so the last `strength`
+ * bars cannot be pivots yet. Of consecutive pivots of one type only the most
+ * extreme is kept.
+ */
+export function findPivots(bars: Bars, strength: number = PATTERN_RULES.pivotStrength): Pivot[] {
+  const pivots: Pivot[] = [];
+
+  const add = (pivot: Pivot) => {
+    const last = pivots[pivots.length - 1];
+    if (last?.type !== pivot.type) pivots.push(pivot);
+    else if (pivot.type === 'high' ? pivot.price > last.price : pivot.price < last.price) {
+      pivots[pivots.length - 1] = pivot;
+    }
+  };
+
+  for (let i = strength; i < bars.length - strength; i++) {
+    let isHigh = true;
+    let isLow = true;
+    for (let j = i - strength; j <= i + strength && (isHigh || isLow); j++) {
+      if (j === i) continue;
+      if (j < i ? bars[j].high >= bars[i].high : bars[j].high > bars[i].high) isHigh = false;
+      if (j < i ? bars[j].low <= bars[i].low : bars[j].low < bars[i].low) isLow = false;
+    }
+    if (isHigh) add({ index: i, date: bars[i].date, price: bars[i].high, type: 'high' });
+    if (isLow) add({ index: i, date: bars[i].date, price: bars[i].low, type: 'low' });
+  }
+  return pivots;
+}
+
+// ============================================================================
+// PATTERN MATCHERS
+// ============================================================================
+
+function matchDoubleBottom(bars: Bars, left: Pivot, inner: Pivot[], end: number): PatternMatch | null {
+  const rules = PATTERN_RULES.doubleBottom;
+
+  for (const middle of inner) {
+    if (middle.type !== 'high' || middle.price > left.price * (rules.maxMiddlePct / 100)) continue;
+
+    const firstLow = minLow(bars, left.index + 1, middle.index);
+    const breakoutIndex = firstCloseAbove(bars, middle.price, middle.index + 1);
+    const rightEnd = Math.min(breakoutIndex ?? end, end);
+    const secondLows = inner.filter((p) => p.type === 'low' && p.index > middle.index && p.index < rightEnd);
+    if (secondLows.length === 0) continue;
+    const secondLow = secondLows.reduce((low, p) => (p.price < low.price ? p : low));
+
+    const baseLow = Math.min(firstLow, secondLow.price);
+    const depth = pctBelow(left.price, baseLow);
+    if (
+      middle.price >= firstLow * rules.minBounceMultiple &&
+      secondLow.price <= firstLow * (1 + rules.lowTolerancePct / 100) &&
+      secondLow.price >= firstLow * (1 - rules.maxUndercutPct / 100) &&
+      depth >= rules.minDepthPct &&
+      depth <= rules.maxDepthPct &&
+      secondLow.index - left.index >= rules.minBars
+    ) {
+      return { type: 'double-bottom', buyPoint: middle.price, baseLow, contractions: [round(depth)], breakoutIndex };
+    }
+  }
+  return null;
+}
+
+function matchCupWithHandle(bars: Bars, left: Pivot, inner: Pivot[]): PatternMatch | null {
+  const rules = PATTERN_RULES.cup;
+
+  for (const rim of inner) {
+    if (rim.type !== 'high' || rim.price < left.price * (rules.minRightSidePct / 100)) continue;
+    if (rim.index - left.index < rules.minBars) continue;
+
+    const cupLow = minLow(bars, left.index + 1, rim.index);
+    const depth = pctBelow(left.price, cupLow);
+    if (depth < rules.minDepthPct || depth > rules.maxDepthPct) continue;
+
+    const breakoutIndex = firstCloseAbove(bars, rim.price, rim.index + 1);
+    const handleEnd = breakoutIndex ?? bars.length;
+    if (handleEnd - rim.index - 1 < rules.minHandleBars) continue;
+
+    const handleLow = minLow(bars, rim.index + 1, handleEnd);
+    const handleDepth = pctBelow(rim.price, handleLow);
+    if (handleDepth > rules.maxHandleDepthPct || handleLow <= cupLow + (left.price - cupLow) / 2) continue;
+
+    return {
+      type: 'cup-with-handle',
+      buyPoint: rim.price,
+      baseLow: cupLow,
+      contractions: [round(depth), round(handleDepth)],
+      breakoutIndex,
+    };
+  }
+  return null;
+}
+
+function matchVcp(bars: Bars, left: Pivot, inner: Pivot[]): PatternMatch | null {
+  const rules = PATTERN_RULES.vcp;
+  const highs = [left, ...inner.filter((p) => p.type === 'high')];
+  const contractions: Array<{ high: Pivot; low: Pivot; depth: number }> = [];
+
+  for (const high of highs) {
+    const low = inner.find((p) => p.type === 'low' && p.index > high.index);
+    if (!low) break;
+
+    const previous = contractions[contractions.length - 1];
+    if (previous) {
+      // The previous contraction already broke out: later swings are not part of the base
+      const breakout = firstCloseAbove(bars, previous.high.price, previous.low.index + 1);
+      if (breakout !== null && breakout < high.index) break;
+    }
+
+    const depth = pctBelow(high.price, low.price);
+    if (previous && depth >= previous.depth) break;
+    contractions.push({ high, low, depth });
+  }
+
+  const last = contractions[contractions.length - 1];
+  if (
+    contractions.length < rules.minContractions ||
+    contractions[0].depth > rules.maxFirstDepthPct ||
+    last.depth > rules.maxFinalDepthPct ||
+    last.low.index - left.index < rules.minBars
+  ) {
+    return null;
+  }
+
+  return {
+    type: 'vcp',
+    buyPoint: last.high.price,
+    baseLow: Math.min(...contractions.map((c) => c.low.price)),
+    contractions: contractions.map((c) => round(c.depth)),
+    breakoutIndex: firstCloseAbove(bars, last.high.price, last.low.index + 1),
+  };
+}
+
+function matchFlatBase(bars: Bars, left: Pivot, end: number, rimBreakout: number | null): PatternMatch | null {
+  const rules = PATTERN_RULES.flatBase;
+  // A base capped at the maximum length without breaking out is not a base
+  if (end !== (rimBreakout ?? bars.length) || end - left.index < rules.minBars) return null;
+
+  const baseLow = minLow(bars, left.index + 1, end);
+  const depth = pctBelow(left.price, baseLow);
+  if (depth > rules.maxDepthPct) return null;
+
+  return { type: 'flat-base', buyPoint: left.price, baseLow, contractions: [round(depth)], breakoutIndex: rimBreakout };
+}
+
+// ============================================================================
+// BASES
+// ============================================================================
+
+function hadPriorAdvance(bars: Bars, left: Pivot): boolean {
+  const low = minLow(bars, left.index - PATTERN_RULES.priorAdvanceBars, left.index);
+  return isFinite(low) && left.price >= low * (1 + PATTERN_RULES.minPriorAdvancePct / 100);
+}
+
+function breakoutStatus(bars: Bars, match: PatternMatch): BreakoutStatus {
+  const lastClose = bars[bars.length - 1].close;
+  if (match.breakoutIndex === null) return lastClose < match.baseLow ? 'failed' : 'forming';
+  if (lastClose < match.buyPoint * (1 - PATTERN_RULES.failurePct / 100)) return 'failed';
+  if (lastClose > match.buyPoint * (1 + PATTERN_RULES.buyRangePct / 100)) return 'extended';
+  return 'breakout';
+}
+
+function breakoutVolumeRatio(bars: Bars, breakoutIndex: number | null): number | null {
+  if (breakoutIndex === null) return null;
+  const from = Math.max(0, breakoutIndex - PATTERN_RULES.volumeAverageBars);
+  const window = bars.slice(from, breakoutIndex);
+  const average = window.reduce((sum, bar) => sum + bar.volume, 0) / (window.length || 1);
+  return average > 0 ? round(bars[breakoutIndex].volume / average) : null;
+}
+
+function toBasePattern(bars: Bars, left: Pivot, match: PatternMatch): BasePattern {
+  const endIndex = (match.breakoutIndex ?? bars.length) - 1;
+  return {
+    type: match.type,
+    startIndex: left.index,
+    endIndex,
+    startDate: left.date,
+    endDate: bars[endIndex].date,
+    buyPoint: match.buyPoint,
+    depthPct: round(pctBelow(left.price, match.baseLow)),
+    baseLow: match.baseLow,
+    contractions: match.contractions,
+    breakoutIndex: match.breakoutIndex,
+    breakoutDate: match.breakoutIndex !== null ? bars[match.breakoutIndex].date : null,
+    breakoutVolumeRatio: breakoutVolumeRatio(bars, match.breakoutIndex),
+    status: breakoutStatus(bars, match),
+  };
+}
+
+/**
+ * Detect bases, oldest first. Bases do not overlap: the search for the
+ * next one resumes after the previous breakout.
+ *
+ * @param bars - Daily bars, oldest first
+ * @param pivots - Pivots from findPivots (computed when omitted)
+ */
+export function detectBases(bars: Bars, pivots: Pivot[] = findPivots(bars)): BasePattern[] {
+  const bases: BasePattern[] = [];
+  let resumeAt = 0;
+
+  for (const left of pivots) {
+    if (left.type !== 'high' || left.index < resumeAt || !hadPriorAdvance(bars, left)) continue;
+
+    const rimBreakout = firstCloseAbove(bars, left.price, left.index + 1);
+    const end = Math.min(rimBreakout ?? bars.length, left.index + PATTERN_RULES.maxBaseBars + 1);
+    const inner = pivots.filter((p) => p.index > left.index && p.index < end);
+
+    const match =
+      matchDoubleBottom(bars, left, inner, end) ??
+      matchCupWithHandle(bars, left, inner) ??
+      matchVcp(bars, left, inner) ??
+      matchFlatBase(bars, left, end, rimBreakout);
+    if (!match) continue;
+
+    bases.push(toBasePattern(bars, left, match));
+    resumeAt = match.breakoutIndex ?? bars.length;
+  }
+  return bases;
+}
+
+/**
+ * Pivots, every base, and the current one: still forming, or broken out
+ * within the last month.
+ */
+export function analyzePatterns(bars: Bars): PatternAnalysis {
+  const pivots = findPivots(bars);
+  const bases = detectBases(bars, pivots);
+  const latest = bases[bases.length - 1];
+  const current =
+    latest &&
+    (latest.breakoutIndex === null || bars.length - 1 - latest.breakoutIndex <= PATTERN_RULES.recentBreakoutBars)
+      ? latest
+      : null;
+
+  return { pivots, bases, current };
+}
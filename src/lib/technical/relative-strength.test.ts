@@ -0,0 +1,141 @@
+/**
+ * Relative Strength Tests
+ *
+ * Tests cover:
+ * - Weighted 3/6/9/12-month score, renormalized for short histories
+ * - Percentile ratings across a universe, ties and a universe of one
+ * - RS line alignment with benchmark gaps and its 52-week new high
+ * - Benchmark choice and the full universe calculation
+ */
+
+import { describe, test, expect } from 'vitest';
+import {
+  calculateRelativeStrength,
+  calculateRsLine,
+  calculateRsScore,
+  isRsLineNewHigh,
+  rankRsRatings,
+  rsBenchmarkFor,
+} from './relative-strength';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function dateAt(i: number): string {
+  return new Date(Date.UTC(2023, 0, 2 + i)).toISOString().slice(0, 10);
+}
+
+function barsFrom(closes: number[]) {
+  return closes.map((close, i) => ({ date: dateAt(i), close }));
+}
+
+function line(from: number, to: number, length: number): number[] {
+  return Array.from({ length }, (_, i) => from + ((to - from) * i) / (length - 1));
+}
+
+// ============================================================================
+// SCORE AND RATING
+// ============================================================================
+
+describe('calculateRsScore', () => {
+  test('weights the latest quarter double', () => {
+    // 100 → 110 over the last quarter only: +10% × 2/5 of the weight
+    const closes = [...new Array(190).fill(100), ...line(100, 110, 64)];
+    expect(calculateRsScore(closes)).toBeCloseTo((10 * 2 + 10 + 10 + 10) / 5, 6);
+
+    const flatThenUp = [...new Array(253).fill(100)];
+    flatThenUp[252] = 120;
+    expect(calculateRsScore(flatThenUp)).toBeCloseTo(20, 6);
+  });
+
+  test('renormalizes over the periods available and needs three months', () => {
+    const closes = [...new Array(100).fill(100), 150];
+    expect(calculateRsScore(closes)).toBeCloseTo(50, 6);
+    expect(calculateRsScore(new Array(63).fill(100))).toBeNull();
+  });
+});
+
+describe('rankRsRatings', () => {
+  test('ranks from 1 to 99 and skips symbols without a score', () => {
+    expect(rankRsRatings({ A: -10, B: 0, C: 10, D: 20, E: 30, F: null })).toEqual({
+      A: 1,
+      B: 26,
+      C: 50,
+      D: 75,
+      E: 99,
+      F: null,
+    });
+  });
+
+  test('ties share the average rank and a single symbol rates 50', () => {
+    const ratings = rankRsRatings({ A: 5, B: 5, C: 1 });
+    expect(ratings.A).toBe(ratings.B);
+    expect(ratings.A).toBe(75);
+    expect(rankRsRatings({ A: 12 })).toEqual({ A: 50 });
+  });
+});
+
+// ============================================================================
+// RS LINE
+// ============================================================================
+
+describe('calculateRsLine', () => {
+  test('divides by the benchmark, carrying it over missing days', () => {
+    const stock = barsFrom([10, 11, 12, 13]);
+    const benchmark = [
+      { date: dateAt(1), close: 100 },
+      { date: dateAt(3), close: 200 },
+    ];
+
+    expect(calculateRsLine(stock, benchmark)).toEqual([
+      { date: dateAt(1), value: 11 },
+      { date: dateAt(2), value: 12 },
+      { date: dateAt(3), value: 6.5 },
+    ]);
+  });
+
+  test('flags a new high only above the previous 52 weeks', () => {
+    const rising = barsFrom(line(10, 20, 300)).map(({ date, close }) => ({ date, value: close }));
+    expect(isRsLineNewHigh(rising)).toBe(true);
+
+    const pulledBack = [...rising, { date: dateAt(300), value: 19 }];
+    expect(isRsLineNewHigh(pulledBack)).toBe(false);
+    expect(isRsLineNewHigh(rising.slice(0, 1))).toBe(false);
+  });
+});
+
+// ============================================================================
+// UNIVERSE
+// ============================================================================
+
+describe('calculateRelativeStrength', () => {
+  test('picks the benchmark by market', () => {
+    expect(rsBenchmarkFor('PTT.BK')).toBe('^SET.BK');
+    expect(rsBenchmarkFor('AAPL')).toBe('^GSPC');
+  });
+
+  test('rates the universe and computes each RS line', () => {
+    const setIndex = barsFrom(new Array(260).fill(1000));
+    const entries = calculateRelativeStrength(
+      [
+        { symbol: 'LEAD.BK', bars: barsFrom(line(10, 30, 260)) },
+        { symbol: 'LAG.BK', bars: barsFrom(line(30, 10, 260)) },
+        { symbol: 'NEW.BK', bars: barsFrom(line(10, 11, 20)) },
+        { symbol: 'EMPTY.BK', bars: [] },
+      ],
+      { '^SET.BK': setIndex }
+    );
+
+    expect(entries.map((entry) => entry.symbol)).toEqual(['LEAD.BK', 'LAG.BK', 'NEW.BK']);
+    expect(entries[0]).toMatchObject({ rsRating: 99, rsLine: 3, rsLineNewHigh: true, benchmark: '^SET.BK' });
+    expect(entries[0].date).toBe(dateAt(259));
+    expect(entries[1]).toMatchObject({ rsRating: 1, rsLineNewHigh: false });
+    expect(entries[2]).toMatchObject({ rsScore: null, rsRating: null });
+  });
+
+  test('leaves the RS line empty without the benchmark', () => {
+    const [entry] = calculateRelativeStrength([{ symbol: 'AAPL', bars: barsFrom(line(10, 20, 100)) }], {});
+    expect(entry).toMatchObject({ rsRating: 50, rsLine: null, rsLineNewHigh: false, benchmark: '^GSPC' });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Relative Strength
+ *
+ * IBD-style relative strength over daily closes (oldest first):
+ *
+ * - RS score: weighted 3/6/9/12-month price change, the latest quarter
+ *   counting double (40/20/20/20). Younger listings are scored on the
+ *   periods they have, with the weights renormalized; under three months
+ *   of history there is no score.
+ * - RS rating: the score's percentile across the symbol universe, 1-99
+ *   (ties share the average rank; a universe of one rates 50).
+ * - RS line: close / benchmark close × 100 against the SET index for Thai
+ *   symbols and the S&P 500 otherwise. A rising line is outperforming the
+ *   market whatever the market itself is doing; a line at a 52-week high
+ *   often leads price to a new high.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { HistoricalPrice } from '@/types/market';
+import type { RelativeStrengthEntry, RsLinePoint } from '@/types/technical';
+import { isThaiSymbol } from '@/lib/symbols/symbols';
+
+type RsBar = Pick<HistoricalPrice, 'date' | 'close'>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const RS_RULES = {
+  periods: [63, 126, 189, 252], // 3, 6, 9 and 12 months of trading days
+  weights: [2, 1, 1, 1],
+  newHighBars: 252, // RS line new high: above the previous 52 weeks
+} as const;
+
+export const RS_BENCHMARKS = {
+  TH: '^SET.BK',
+  US: '^GSPC',
+} as const;
+
+// ============================================================================
+// SCORE AND RATING
+// ============================================================================
+
+/**
+ * Benchmark index for a symbol's RS line
+ */
+export function rsBenchmarkFor(symbol: string): string {
+  return isThaiSymbol(symbol) ? RS_BENCHMARKS.TH : RS_BENCHMARKS.US;
+}
+
+/**
+ * Weighted 3/6/9/12-month return (%) at the latest close; null with less
+ * than three months of history.
+ */
+export function calculateRsScore(closes: ReadonlyArray<number>): number | null {
+  const last = closes.length - 1;
+  let weighted = 0;
+  let totalWeight = 0;
+
+  RS_RULES.periods.forEach((period, i) => {
+    const base = closes[last - period];
+    if (last - period < 0 || !base) return;
+    weighted += ((closes[last] - base) / base) * 100 * RS_RULES.weights[i];
+    totalWeight += RS_RULES.weights[i];
+  });
+
+  return totalWeight > 0 ? weighted / totalWeight : null;
+}
+
+/**
+ * Percentile-rank RS scores into 1-99 ratings. Symbols without a score get
+ * a null rating and do not count towards the ranking.
+ */
+export function rankRsRatings(scores: Record<string, number | null>): Record<string, number | null> {
+  const values = Object.values(scores).filter((score): score is number => score !== null && isFinite(score));
+  const ratings: Record<string, number | null> = {};
+
+  for (const [symbol, score] of Object.entries(scores)) {
+    if (score === null || !isFinite(score)) {
+      ratings[symbol] = null;
+      continue;
+    }
+    if (values.length === 1) {
+      ratings[symbol] = 50;
+      continue;
+    }
+
+    const below = values.filter((value) => value < score).length;
+    const ties = values.filter((value) => value === score).length - 1;
+    const percentile = (below + ties / 2) / (values.length - 1);
+    ratings[symbol] = Math.min(99, Math.max(1, Math.round(1 + percentile * 98)));
+  }
+
+  return ratings;
+}
+
+// ============================================================================
+// RS LINE
+// ============================================================================
+
+/**
+ * RS line of a stock against a benchmark, one point per stock bar. The
+ * benchmark close carries forward over days it did not trade; stock bars
+ * before the benchmark's first bar are skipped.
+ *
+ * @param bars - Stock daily bars, oldest first
+ * @param benchmark - Benchmark daily bars, oldest first
+ */
+export function calculateRsLine(
+  bars: ReadonlyArray<RsBar>,
+  benchmark: ReadonlyArray<RsBar>
+): RsLinePoint[] {
+  const points: RsLinePoint[] = [];
+  let j = 0;
+  let benchmarkClose: number | null = null;
+
+  for (const bar of bars) {
+    while (j < benchmark.length && benchmark[j].date <= bar.date) {
+      benchmarkClose = benchmark[j].close;
+      j++;
+    }
+    if (benchmarkClose) points.push({ date: bar.date, value: (bar.close / benchmarkClose) * 100 });
+  }
+
+  return points;
+}
+
+/**
+ * Whether the latest RS line value is at or above every value in the
+ * previous 52 weeks
+ */
+export function isRsLineNewHigh(line: ReadonlyArray<RsLinePoint>): boolean {
+  if (line.length < 2) return false;
+  const latest = line[line.length - 1].value;
+  const previous = line.slice(-RS_RULES.newHighBars - 1, -1);
+  return previous.every((point) => latest >= point.value);
+}
+
+// ============================================================================
+// UNIVERSE
+// ============================================================================
+
+/**
+ * Score, rate and compute the RS line for every symbol in a universe.
+ *
+ * @param universe - Daily bars per symbol, oldest first
+ * @param benchmarks - Daily bars per benchmark symbol (see rsBenchmarkFor);
+ *   a missing benchmark leaves rsLine null
+ */
+export function calculateRelativeStrength(
+  universe: ReadonlyArray<{ symbol: string; bars: ReadonlyArray<RsBar> }>,
+  benchmarks: Record<string, ReadonlyArray<RsBar>>
+): RelativeStrengthEntry[] {
+  const withBars = universe.filter((item) => item.bars.length > 0);
+  const scores: Record<string, number | null> = {};
+  for (const item of withBars) {
+    scores[item.symbol] = calculateRsScore(item.bars.map((bar) => bar.close));
+  }
+  const ratings = rankRsRatings(scores);
+
+  return withBars.map(({ symbol, bars }) => {
+    const benchmark = rsBenchmarkFor(symbol);
+    const line = calculateRsLine(bars, benchmarks[benchmark] ?? []);
+
+    return {
+      symbol,
+      date: bars[bars.length - 1].date,
+      rsScore: scores[symbol],
+      rsRating: ratings[symbol],
+      rsLine: line.length > 0 ? line[line.length - 1].value : null,
+      rsLineNewHigh: isRsLineNewHigh(line),
+      benchmark,
+    };
+  });
+}
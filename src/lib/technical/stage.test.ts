@@ -0,0 +1,69 @@
+/**
+ * Weinstein Stage Tests
+ *
+ * Tests cover:
+ * - Stage 2 and 4 from price against a rising or falling 30-week MA
+ * - Stage 1 and 3 told apart by the trend before the MA flattened
+ * - Too little history for the MA
+ */
+
+import { describe, test, expect } from 'vitest';
+import { classifyStage } from './stage';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function barsFrom(closes: number[]) {
+  return closes.map((close, i) => ({
+    date: new Date(Date.UTC(2023, 0, 2 + i)).toISOString().slice(0, 10),
+    close,
+  }));
+}
+
+function line(from: number, to: number, length: number): number[] {
+  return Array.from({ length }, (_, i) => from + ((to - from) * i) / (length - 1));
+}
+
+// ============================================================================
+// STAGES
+// ============================================================================
+
+describe('classifyStage', () => {
+  test('price above a rising MA is Stage 2', () => {
+    const result = classifyStage(barsFrom(line(50, 150, 300)));
+    expect(result).toMatchObject({ stage: 2, label: 'Advancing' });
+    expect(result.maSlopePct).toBeGreaterThan(1);
+    expect(result.priceVsMaPct).toBeGreaterThan(0);
+  });
+
+  test('price below a falling MA is Stage 4', () => {
+    const result = classifyStage(barsFrom(line(150, 50, 300)));
+    expect(result).toMatchObject({ stage: 4, label: 'Declining' });
+    expect(result.maSlopePct).toBeLessThan(-1);
+  });
+
+  test('losing a still-rising MA after an advance is Stage 3', () => {
+    const result = classifyStage(barsFrom([...line(50, 150, 260), ...new Array(40).fill(118)]));
+    expect(result).toMatchObject({ stage: 3, label: 'Topping' });
+    expect(result.priceVsMaPct).toBeLessThan(0);
+    expect(result.priorSlopePct).toBeGreaterThan(3);
+  });
+
+  test('reclaiming a still-falling MA after a decline is Stage 1', () => {
+    const result = classifyStage(barsFrom([...line(150, 50, 260), ...new Array(40).fill(82)]));
+    expect(result).toMatchObject({ stage: 1, label: 'Basing' });
+    expect(result.priceVsMaPct).toBeGreaterThan(0);
+  });
+
+  test('a long sideways range is Stage 1', () => {
+    const closes = Array.from({ length: 300 }, (_, i) => 100 + (i % 10 < 5 ? 2 : -2));
+    expect(classifyStage(barsFrom(closes)).stage).toBe(1);
+  });
+
+  test('needs the 30-week MA and a month of its slope', () => {
+    const result = classifyStage(barsFrom(line(50, 100, 160)));
+    expect(result).toMatchObject({ stage: null, label: 'Unknown', maSlopePct: null });
+    expect(result.ma150).not.toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Weinstein Stage Analysis
+ *
+ * Classifies the latest bar into one of Stan Weinstein's four stages from
+ * the 30-week moving average (150 trading days) and where price sits
+ * against it:
+ *
+ * - Stage 2 (advancing): price above a rising MA
+ * - Stage 4 (declining): price below a falling MA
+ * - Otherwise the MA is flat or price is fighting its slope, and the trend
+ *   before the last month decides: after an advance it is Stage 3 (topping),
+ *   after a decline or a long sideways stretch Stage 1 (basing)
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { HistoricalPrice } from '@/types/market';
+import type { StageResult, WeinsteinStage } from '@/types/technical';
+import { sma } from './indicators';
+
+type StageBar = Pick<HistoricalPrice, 'date' | 'close'>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const STAGE_RULES = {
+  maPeriod: 150, // 30 weeks of trading days
+  slopeBars: 21, // "current" slope: the last month
+  priorBars: 84, // prior trend: the four months before that
+  flatSlopePct: 1, // MA moving less than this over a month is flat
+  flatPriorPct: 3, // ...and less than this over the prior four months
+} as const;
+
+export const STAGE_LABELS: Record<WeinsteinStage, { label: string; description: string }> = {
+  1: { label: 'Basing', description: 'Price is moving sideways around a flattening 30-week MA after a decline' },
+  2: { label: 'Advancing', description: 'Price is above a rising 30-week MA' },
+  3: { label: 'Topping', description: 'The 30-week MA is flattening after an advance and price is losing it' },
+  4: { label: 'Declining', description: 'Price is below a falling 30-week MA' },
+};
+
+// ============================================================================
+// CLASSIFICATION
+// ============================================================================
+
+function changePct(from: number | null | undefined, to: number | null | undefined): number | null {
+  if (from === null || from === undefined || to === null || to === undefined || from === 0) return null;
+  return ((to - from) / from) * 100;
+}
+
+/**
+ * Classify the Weinstein stage of the latest bar.
+ * Needs 150 bars for the MA plus a month for its slope; the prior trend
+ * counts as flat when there is less history than that.
+ *
+ * @param bars - Daily bars, oldest first
+ */
+export function classifyStage(bars: ReadonlyArray<StageBar>): StageResult {
+  const rules = STAGE_RULES;
+  const last = bars.length - 1;
+  const ma = sma(bars.map((bar) => bar.close), rules.maPeriod);
+
+  const current = last >= 0 ? ma[last] : null;
+  const monthAgo = ma[last - rules.slopeBars];
+  const maSlopePct = changePct(monthAgo, current);
+  const priorSlopePct = changePct(ma[last - rules.slopeBars - rules.priorBars], monthAgo);
+  const priceVsMaPct = changePct(current, last >= 0 ? bars[last].close : null);
+  const asOf = last >= 0 ? bars[last].date : null;
+
+  if (current === null || maSlopePct === null || priceVsMaPct === null) {
+    return {
+      stage: null,
+      label: 'Unknown',
+      description: 'Not enough history for the 30-week moving average',
+      ma150: current,
+      maSlopePct,
+      priorSlopePct,
+      priceVsMaPct,
+      asOf,
+    };
+  }
+
+  const rising = maSlopePct > rules.flatSlopePct;
+  const falling = maSlopePct < -rules.flatSlopePct;
+  const above = priceVsMaPct > 0;
+
+  let stage: WeinsteinStage;
+  if (rising && above) stage = 2;
+  else if (falling && !above) stage = 4;
+  else if ((priorSlopePct ?? 0) > rules.flatPriorPct) stage = 3;
+  else stage = 1;
+
+  return { stage, ...STAGE_LABELS[stage], ma150: current, maSlopePct, priorSlopePct, priceVsMaPct, asOf };
+}
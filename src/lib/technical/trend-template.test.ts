@@ -0,0 +1,110 @@
+/**
+ * Trend Template Tests
+ *
+ * Tests cover:
+ * - A steady uptrend passing all seven price criteria
+ * - The RS criterion: unevaluated without a rating, deciding the result with one
+ * - Downtrends, deep pullbacks and short histories failing the template
+ */
+
+import { describe, test, expect } from 'vitest';
+import { evaluateTrendTemplate } from './trend-template';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function barsFrom(closes: number[]) {
+  return closes.map((close, i) => ({
+    date: new Date(Date.UTC(2023, 0, 2 + i)).toISOString().slice(0, 10),
+    high: close * 1.01,
+    low: close * 0.99,
+    close,
+  }));
+}
+
+function line(from: number, to: number, length: number): number[] {
+  return Array.from({ length }, (_, i) => from + ((to - from) * i) / (length - 1));
+}
+
+function statuses(result: ReturnType<typeof evaluateTrendTemplate>) {
+  return Object.fromEntries(result.criteria.map((c) => [c.id, c.passed]));
+}
+
+// ============================================================================
+// TREND TEMPLATE
+// ============================================================================
+
+describe('evaluateTrendTemplate', () => {
+  const uptrend = barsFrom(line(50, 150, 300));
+
+  test('a steady uptrend passes every price criterion', () => {
+    const result = evaluateTrendTemplate(uptrend);
+
+    expect(result.passed).toBe(true);
+    expect(result.passedCount).toBe(7);
+    expect(result.evaluatedCount).toBe(7);
+    expect(result.criteria).toHaveLength(8);
+    expect(result.criteria[7]).toMatchObject({ id: 'relativeStrength', passed: null });
+    expect(result.price).toBe(150);
+    expect(result.ma50).toBeGreaterThan(result.ma150 as number);
+    expect(result.ma150).toBeGreaterThan(result.ma200 as number);
+    expect(result.high52w).toBeCloseTo(151.5, 6);
+    expect(result.asOf).toBe(uptrend[299].date);
+  });
+
+  test('the RS rating decides criterion 8 when given', () => {
+    expect(evaluateTrendTemplate(uptrend, { rsRating: 85 })).toMatchObject({
+      passed: true,
+      passedCount: 8,
+      evaluatedCount: 8,
+    });
+    expect(evaluateTrendTemplate(uptrend, { rsRating: 60 })).toMatchObject({
+      passed: false,
+      passedCount: 7,
+      evaluatedCount: 8,
+    });
+  });
+
+  test('a downtrend fails the moving average criteria', () => {
+    const result = evaluateTrendTemplate(barsFrom(line(150, 50, 300)));
+
+    expect(result.passed).toBe(false);
+    expect(statuses(result)).toMatchObject({
+      priceAboveMa150Ma200: false,
+      ma150AboveMa200: false,
+      ma200Rising: false,
+      ma50AboveMa150Ma200: false,
+      priceAboveMa50: false,
+      aboveLow52w: false,
+      nearHigh52w: false,
+    });
+  });
+
+  test('a pullback of more than 25% from the high fails criterion 7', () => {
+    const result = evaluateTrendTemplate(barsFrom([...line(50, 200, 280), ...line(195, 140, 20)]));
+    expect(statuses(result)).toMatchObject({ nearHigh52w: false, aboveLow52w: true, ma200Rising: true });
+    expect(result.passed).toBe(false);
+  });
+
+  test('moving average criteria stay unevaluated without enough history', () => {
+    const result = evaluateTrendTemplate(barsFrom(line(50, 100, 120)));
+
+    expect(statuses(result)).toMatchObject({
+      priceAboveMa150Ma200: null,
+      ma150AboveMa200: null,
+      ma200Rising: null,
+      ma50AboveMa150Ma200: null,
+      priceAboveMa50: true,
+      aboveLow52w: true,
+      nearHigh52w: true,
+    });
+    expect(result.passed).toBe(false);
+    expect(result.evaluatedCount).toBe(3);
+  });
+
+  test('an empty series evaluates nothing', () => {
+    const result = evaluateTrendTemplate([]);
+    expect(result).toMatchObject({ passed: false, passedCount: 0, evaluatedCount: 0, price: null, asOf: null });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Minervini Trend Template
+ *
+ * Evaluates Mark Minervini's eight trend template criteria on the latest
+ * daily bar (bars oldest first, e.g. getHistoricalPrices output):
+ *
+ * 1. Price above the 150-day and 200-day moving averages
+ * 2. 150-day MA above the 200-day MA
+ * 3. 200-day MA rising for at least one month
+ * 4. 50-day MA above the 150-day and 200-day MAs
+ * 5. Price above the 50-day MA
+ * 6. Price at least 30% above its 52-week low
+ * 7. Price within 25% of its 52-week high
+ * 8. Relative strength rating of at least 70
+ *
+ * The RS rating ranks a stock against the rest of the market, so it cannot
+ * be derived from one price series; it is passed in, and the criterion is
+ * left unevaluated (null) without it. A criterion whose moving averages
+ * have not warmed up is also null and fails the template.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { HistoricalPrice } from '@/types/market';
+import type { TrendCriterion, TrendTemplateResult } from '@/types/technical';
+import { sma } from './indicators';
+
+type TrendBar = Pick<HistoricalPrice, 'date' | 'high' | 'low' | 'close'>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TREND_TEMPLATE_RULES = {
+  ma200RisingBars: 21, // one month of trading days
+  yearBars: 252, // 52 weeks of trading days
+  minAboveLowPct: 30,
+  maxBelowHighPct: 25,
+  minRsRating: 70,
+} as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function valueAt(series: Array<number | null>, index: number): number | null {
+  return index >= 0 && index < series.length ? series[index] : null;
+}
+
+function format(value: number): string {
+  return value.toFixed(2);
+}
+
+function criterion(
+  id: TrendCriterion['id'],
+  label: string,
+  passed: boolean | null,
+  detail: string
+): TrendCriterion {
+  return { id, label, passed, detail };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate the trend template on the latest bar.
+ *
+ * @param bars - Daily bars, oldest first (about 11 months are needed for every MA criterion)
+ * @param options.rsRating - RS rating (1-99) for criterion 8; omitted or null leaves it unevaluated
+ */
+export function evaluateTrendTemplate(
+  bars: ReadonlyArray<TrendBar>,
+  options: { rsRating?: number | null } = {}
+): TrendTemplateResult {
+  const rules = TREND_TEMPLATE_RULES;
+  const closes = bars.map((bar) => bar.close);
+  const last = bars.length - 1;
+
+  const price = last >= 0 ? closes[last] : null;
+  const ma50 = valueAt(sma(closes, 50), last);
+  const ma150 = valueAt(sma(closes, 150), last);
+  const ma200Series = sma(closes, 200);
+  const ma200 = valueAt(ma200Series, last);
+  const ma200MonthAgo = valueAt(ma200Series, last - rules.ma200RisingBars);
+
+  const year = bars.slice(-rules.yearBars);
+  const high52w = year.length > 0 ? Math.max(...year.map((bar) => bar.high)) : null;
+  const low52w = year.length > 0 ? Math.min(...year.map((bar) => bar.low)) : null;
+
+  const aboveLowPct = price !== null && low52w ? ((price - low52w) / low52w) * 100 : null;
+  const belowHighPct = price !== null && high52w ? ((high52w - price) / high52w) * 100 : null;
+  const rsRating = options.rsRating ?? null;
+
+  const criteria: TrendCriterion[] = [
+    criterion(
+      'priceAboveMa150Ma200',
+      'Price above the 150-day and 200-day MA',
+      price !== null && ma150 !== null && ma200 !== null ? price > ma150 && price > ma200 : null,
+      ma150 !== null && ma200 !== null ? `MA150 ${format(ma150)}, MA200 ${format(ma200)}` : 'Not enough history'
+    ),
+    criterion(
+      'ma150AboveMa200',
+      '150-day MA above the 200-day MA',
+      ma150 !== null && ma200 !== null ? ma150 > ma200 : null,
+      ma150 !== null && ma200 !== null ? `MA150 ${format(ma150)} vs MA200 ${format(ma200)}` : 'Not enough history'
+    ),
+    criterion(
+      'ma200Rising',
+      '200-day MA rising for at least a month',
+      ma200 !== null && ma200MonthAgo !== null ? ma200 > ma200MonthAgo : null,
+      ma200 !== null && ma200MonthAgo !== null
+        ? `MA200 ${format(ma200)}, a month ago ${format(ma200MonthAgo)}`
+        : 'Not enough history'
+    ),
+    criterion(
+      'ma50AboveMa150Ma200',
+      '50-day MA above the 150-day and 200-day MA',
+      ma50 !== null && ma150 !== null && ma200 !== null ? ma50 > ma150 && ma50 > ma200 : null,
+      ma50 !== null ? `MA50 ${format(ma50)}` : 'Not enough history'
+    ),
+    criterion(
+      'priceAboveMa50',
+      'Price above the 50-day MA',
+      price !== null && ma50 !== null ? price > ma50 : null,
+      price !== null && ma50 !== null ? `Price ${format(price)} vs MA50 ${format(ma50)}` : 'Not enough history'
+    ),
+    criterion(
+      'aboveLow52w',
+      `Price at least ${rules.minAboveLowPct}% above the 52-week low`,
+      aboveLowPct !== null ? aboveLowPct >= rules.minAboveLowPct : null,
+      aboveLowPct !== null ? `${aboveLowPct.toFixed(1)}% above ${format(low52w as number)}` : 'No price history'
+    ),
+    criterion(
+      'nearHigh52w',
+      `Price within ${rules.maxBelowHighPct}% of the 52-week high`,
+      belowHighPct !== null ? belowHighPct <= rules.maxBelowHighPct : null,
+      belowHighPct !== null ? `${belowHighPct.toFixed(1)}% below ${format(high52w as number)}` : 'No price history'
+    ),
+    criterion(
+      'relativeStrength',
+      `RS rating at least ${rules.minRsRating}`,
+      rsRating !== null ? rsRating >= rules.minRsRating : null,
+      rsRating !== null ? `RS rating ${Math.round(rsRating)}` : 'RS rating not available'
+    ),
+  ];
+
+  const priceCriteria = criteria.filter((c) => c.id !== 'relativeStrength');
+  const evaluated = criteria.filter((c) => c.passed !== null);
+
+  return {
+    passed: priceCriteria.every((c) => c.passed === true) && criteria[7].passed !== false,
+    passedCount: evaluated.filter((c) => c.passed).length,
+    evaluatedCount: evaluated.length,
+    criteria,
+    price,
+    ma50,
+    ma150,
+    ma200,
+    high52w,
+    low52w,
+    asOf: last >= 0 ? bars[last].date : null,
+  };
+}
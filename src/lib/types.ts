@@ -48,6 +48,6 @@ export interface Portfolio {
 // User preferences
 export interface UserPreferences {
   defaultMarket: 'SET' | 'MAI' | 'US' | 'HK' | 'CN';
-  currency: 'THB' | 'USD' | 'HKD' | 'CNY';
+  currency: 'THB' | 'USD' | 'HKD' | 'CNY' | 'JPY';
   theme: 'light' | 'dark';
 }
@@ -0,0 +1,60 @@
+/**
+ * Watchlist Row Loader
+ *
+ * Loads live quotes (one batched getQuotes call) and cached decision scores
+ * for every symbol on a watchlist.
+ */
+
+import { getQuotes } from '@/lib/api/quotes';
+import { withCache, CACHE_TTL } from '@/lib/api/cache';
+import { loadDecision } from '@/lib/decision/loader';
+import type { Quote } from '@/types/market';
+import type { WatchlistItem, WatchlistRow, WatchlistScores } from '@/types/watchlist';
+import { buildWatchlistRows, toWatchlistScores } from './watchlist';
+
+/**
+ * Decision pipelines run in parallel per batch (keeps provider rate limits happy)
+ */
+const SCORE_CONCURRENCY = 4;
+
+/**
+ * Decision and framework scores for one symbol, cached for the fundamentals TTL
+ */
+export async function getWatchlistScores(symbol: string): Promise<WatchlistScores> {
+  return withCache('watchlist:scores:' + symbol, CACHE_TTL.FUNDAMENTALS, async () =>
+    toWatchlistScores(await loadDecision(symbol))
+  );
+}
+
+/**
+ * Quote and score every item. A failed quote batch or decision leaves that
+ * part of the row null instead of failing the whole watchlist.
+ */
+export async function loadWatchlistRows(items: WatchlistItem[]): Promise<WatchlistRow[]> {
+  const symbols = items.map((item) => item.symbol.toUpperCase());
+  if (symbols.length === 0) return [];
+
+  let quotes: Quote[] = [];
+  try {
+    quotes = await getQuotes(symbols);
+  } catch (error) {
+    console.warn('Watchlist: quotes unavailable:', (error as Error).message);
+  }
+
+  const scores: Record<string, WatchlistScores | null> = {};
+  for (let i = 0; i < symbols.length; i += SCORE_CONCURRENCY) {
+    const batch = symbols.slice(i, i + SCORE_CONCURRENCY);
+    const results = await Promise.allSettled(batch.map((symbol) => getWatchlistScores(symbol)));
+
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        scores[batch[index]] = result.value;
+      } else {
+        console.warn(`Watchlist: scores unavailable for ${batch[index]}:`, (result.reason as Error)?.message);
+        scores[batch[index]] = null;
+      }
+    });
+  }
+
+  return buildWatchlistRows(items, quotes, scores);
+}
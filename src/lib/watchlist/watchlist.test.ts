@@ -0,0 +1,97 @@
+/**
+ * Watchlist Rows Tests
+ *
+ * Tests cover:
+ * - DecisionSummary → row scores
+ * - Joining items with quotes and scores (case-insensitive, missing data)
+ */
+
+import { describe, test, expect } from 'vitest';
+import { buildWatchlistRows, toWatchlistScores } from './watchlist';
+import { analyzeDecision } from '@/lib/decision/engine';
+import type { Quote } from '@/types/market';
+import type { WatchlistScores } from '@/types/watchlist';
+
+// ============================================================================
+// TEST UTILITIES
+// ============================================================================
+
+function buildQuote(symbol: string, price: number): Quote {
+  return {
+    symbol,
+    name: symbol,
+    price,
+    change: 0,
+    changePercent: 0,
+    high: price,
+    low: price,
+    open: price,
+    previousClose: price,
+    volume: 0,
+    avgVolume: 0,
+    marketCap: 0,
+    timestamp: 0,
+  };
+}
+
+const SCORES: WatchlistScores = {
+  decisionScore: 72,
+  rating: 'Buy',
+  confidence: 'medium',
+  canslimScore: 60,
+  speaScore: 70,
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe('toWatchlistScores', () => {
+  test('should take the overall verdict and CAN SLIM / SPEA framework scores', () => {
+    const summary = analyzeDecision('AAPL', {
+      quote: { price: 190 },
+      fundamentals: { roe: 150, profitMargin: 25, peRatio: 30 },
+    });
+
+    expect(toWatchlistScores(summary)).toEqual({
+      decisionScore: summary.overall.score,
+      rating: summary.overall.rating,
+      confidence: summary.overall.confidence,
+      canslimScore: summary.frameworkScores.canslim,
+      speaScore: summary.frameworkScores.spea,
+    });
+  });
+});
+
+describe('buildWatchlistRows', () => {
+  test('should keep item order and attach quotes and scores by symbol', () => {
+    const rows = buildWatchlistRows(
+      [
+        { symbol: 'PTT.BK', addedAt: 2, notes: 'Oil proxy' },
+        { symbol: 'KBANK.BK', addedAt: 1 },
+      ],
+      [buildQuote('KBANK.BK', 140), buildQuote('PTT.BK', 34)],
+      { 'PTT.BK': SCORES }
+    );
+
+    expect(rows.map((row) => row.symbol)).toEqual(['PTT.BK', 'KBANK.BK']);
+    expect(rows[0].quote?.price).toBe(34);
+    expect(rows[0].notes).toBe('Oil proxy');
+    expect(rows[0].scores).toEqual(SCORES);
+    expect(rows[1].quote?.price).toBe(140);
+    expect(rows[1].scores).toBeNull();
+  });
+
+  test('should match symbols case-insensitively', () => {
+    const rows = buildWatchlistRows([{ symbol: 'aapl', addedAt: 1 }], [buildQuote('AAPL', 190)], { AAPL: SCORES });
+
+    expect(rows[0].quote?.price).toBe(190);
+    expect(rows[0].scores).toEqual(SCORES);
+  });
+
+  test('should leave quote null when the provider returned nothing', () => {
+    const rows = buildWatchlistRows([{ symbol: 'DELISTED.BK', addedAt: 1 }], [], {});
+    expect(rows[0].quote).toBeNull();
+    expect(rows[0].scores).toBeNull();
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Watchlist Rows
+ *
+ * Joins stored watchlist items with batched live quotes and decision scores.
+ *
+ * All functions are pure and deterministic for testing.
+ */
+
+import type { DecisionSummary } from '@/types/decision';
+import type { Quote } from '@/types/market';
+import type { WatchlistItem, WatchlistRow, WatchlistScores } from '@/types/watchlist';
+
+/**
+ * Reduce a DecisionSummary to the scores shown on a watchlist row
+ */
+export function toWatchlistScores(summary: DecisionSummary): WatchlistScores {
+  return {
+    decisionScore: summary.overall.score,
+    rating: summary.overall.rating,
+    confidence: summary.overall.confidence,
+    canslimScore: summary.frameworkScores.canslim,
+    speaScore: summary.frameworkScores.spea,
+  };
+}
+
+/**
+ * Build one row per item, matching quotes and scores by symbol (case-insensitive).
+ * Items without a quote or scores keep null so the page can show a placeholder.
+ */
+export function buildWatchlistRows(
+  items: WatchlistItem[],
+  quotes: Quote[],
+  scores: Record<string, WatchlistScores | null>
+): WatchlistRow[] {
+  const quotesBySymbol = new Map(quotes.map((quote) => [quote.symbol.toUpperCase(), quote]));
+
+  return items.map((item) => {
+    const symbol = item.symbol.toUpperCase();
+    return {
+      ...item,
+      quote: quotesBySymbol.get(symbol) ?? null,
+      scores: scores[symbol] ?? null,
+    };
+  });
+}
@@ -0,0 +1,64 @@
+/**
+ * Alert type definitions
+ * Alert rules and triggered notifications persisted in Firebase under
+ * users/{uid}/alertRules and users/{uid}/notifications
+ */
+
+import type { MarketRegimeLabel } from './market';
+
+/**
+ * - price:        a symbol's price crosses a level
+ * - regime:       the SET market regime label changes
+ * - foreignFlow:  foreign investor net flow flips sign
+ * - sectorChange: a sector's % change crosses a threshold (any sector when sectorId is omitted)
+ * - canslimScore: a CAN SLIM score crosses a threshold (every watchlisted stock when symbol is omitted)
+ */
+export type AlertRuleType = 'price' | 'regime' | 'foreignFlow' | 'sectorChange' | 'canslimScore';
+
+export type AlertDirection = 'above' | 'below';
+
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  symbol?: string; // price (required), canslimScore (optional)
+  sectorId?: string; // sectorChange (optional)
+  direction?: AlertDirection; // price, sectorChange, canslimScore
+  threshold?: number; // price level, sector % change or score
+  enabled: boolean;
+  createdAt: number;
+  lastObserved?: Record<string, number | string>; // last value per subject key, for crossing detection
+  lastTriggeredAt?: number;
+}
+
+export type NewAlertRule = Omit<AlertRule, 'id' | 'createdAt' | 'lastObserved' | 'lastTriggeredAt'>;
+
+/**
+ * Evaluation state written back to a rule after each run
+ */
+export type AlertRuleState = Pick<AlertRule, 'lastObserved' | 'lastTriggeredAt'>;
+
+export interface AlertNotification {
+  id: string;
+  ruleId: string;
+  type: AlertRuleType;
+  subject: string; // symbol, sector id, "SET" or "FOREIGN"
+  title: string;
+  message: string;
+  value: number | string;
+  triggeredAt: number;
+  read: boolean;
+}
+
+export type NewAlertNotification = Omit<AlertNotification, 'id'>;
+
+/**
+ * Everything the evaluator looks at, loaded once per run
+ */
+export interface AlertSnapshot {
+  prices: Record<string, number>; // symbol → last price
+  regime: MarketRegimeLabel | null;
+  foreignNet: number | null; // THB million
+  sectors: Array<{ id: string; name: string; chgPct: number }>;
+  canslimScores: Record<string, number>; // symbol → 0-100
+  watchlistSymbols: string[];
+}
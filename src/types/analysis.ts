@@ -49,6 +49,18 @@ export interface QualityMetrics {
   altmanZScore: number; // bankruptcy risk
 }
 
+export type FrameworkKey = 'canslim' | 'spea' | 'value' | 'growth' | 'quality';
+
+export type FrameworkWeights = Record<FrameworkKey, number>;
+
+export interface FrameworkContribution {
+  framework: FrameworkKey;
+  score: number | null; // 0-100, null when not available
+  weight: number; // configured weight
+  effectiveWeight: number; // share of the overall score after re-normalization (0-1)
+  contribution: number; // points added to the overall score
+}
+
 export interface AnalysisSummary {
   symbol: string;
   canslim: CanslimScore;
@@ -57,4 +69,5 @@ export interface AnalysisSummary {
   growthMetrics: GrowthMetrics;
   qualityMetrics: QualityMetrics;
   overallScore: number; // 0-100 weighted average
+  scoreBreakdown: FrameworkContribution[];
 }
@@ -0,0 +1,123 @@
+/**
+ * Backtest type definitions
+ * Strategies over decision engine and CAN SLIM signals, replayed day by day
+ * on historical OHLCV (see lib/backtest)
+ */
+
+import type { ActionRating } from './decision';
+
+// ============================================================================
+// STRATEGY
+// ============================================================================
+
+/**
+ * Values a strategy can test, read from the day's DecisionSummary:
+ * - overallScore, qualityScore, growthScore, valuationScore, timingScore, riskScore: 0-100
+ * - canslimScore, speaScore: framework scores, 0-100
+ * - timingRegime: 'bullish' | 'neutral' | 'bearish'
+ * - rating: ActionRating, e.g. 'Buy'
+ */
+export type BacktestSignal =
+  | 'overallScore'
+  | 'qualityScore'
+  | 'growthScore'
+  | 'valuationScore'
+  | 'timingScore'
+  | 'riskScore'
+  | 'canslimScore'
+  | 'speaScore'
+  | 'timingRegime'
+  | 'rating';
+
+export type BacktestOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+export interface BacktestCondition {
+  signal: BacktestSignal;
+  operator: BacktestOperator;
+  value: number | string;
+}
+
+/**
+ * Long-only, one position at a time.
+ * Entry needs every entry condition at a close; any exit condition closes the
+ * position. Orders fill at the next bar's open.
+ */
+export interface BacktestStrategy {
+  name: string;
+  entry: BacktestCondition[];
+  exit?: BacktestCondition[];
+  stopLoss?: 'plan' | number; // ActionPlan.stopLoss on the signal day, or % below the entry price
+  takeProfit?: 'plan' | number; // ActionPlan base target, or % above the entry price
+  maxHoldingDays?: number; // trading days
+}
+
+export interface BacktestOptions {
+  initialCapital?: number; // default 1,000,000
+  positionSizePct?: number; // % of equity per trade, default 100
+  commissionPct?: number; // per side, default 0.15
+  riskFreeRatePct?: number; // annual, for Sharpe; default 0
+  warmupBars?: number; // bars before the first signal, default 200
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export type BacktestExitReason = 'signal' | 'stopLoss' | 'takeProfit' | 'maxHolding' | 'end';
+
+export interface BacktestTrade {
+  entryDate: string;
+  entryPrice: number;
+  exitDate: string;
+  exitPrice: number;
+  shares: number;
+  stopLoss: number | null;
+  takeProfit: number | null;
+  exitReason: BacktestExitReason;
+  holdingDays: number; // trading days
+  pnl: number; // after commissions
+  returnPct: number; // on the cost including commission
+}
+
+export interface EquityPoint {
+  date: string;
+  equity: number;
+  drawdownPct: number; // below the running peak (%)
+  inPosition: boolean;
+}
+
+export interface BacktestMetrics {
+  initialCapital: number;
+  finalEquity: number;
+  totalReturnPct: number;
+  cagrPct: number | null; // null for less than a day
+  maxDrawdownPct: number;
+  sharpeRatio: number | null; // annualized; null without return variance
+  winRatePct: number | null; // null without closed trades
+  trades: number;
+  avgWinPct: number | null;
+  avgLossPct: number | null;
+  profitFactor: number | null; // gross profit / gross loss; null without losses
+  exposurePct: number; // share of days holding a position
+  buyAndHoldReturnPct: number; // first to last close over the same days
+}
+
+export interface BacktestSignalPoint {
+  date: string;
+  overallScore: number;
+  rating: ActionRating;
+  timingRegime: 'bullish' | 'neutral' | 'bearish';
+  valuationScore: number;
+  canslimScore: number;
+}
+
+export interface BacktestResult {
+  symbol: string;
+  strategy: BacktestStrategy;
+  startDate: string; // first simulated day (after warm-up)
+  endDate: string;
+  metrics: BacktestMetrics;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  signals: BacktestSignalPoint[];
+}
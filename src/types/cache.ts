@@ -0,0 +1,39 @@
+/**
+ * Cache type definitions
+ * Entries, pluggable storage backends and hit/miss stats (see src/lib/cache)
+ */
+
+export type CacheBackendName = 'memory' | 'filesystem' | 'redis';
+
+export interface CacheEntry<T = unknown> {
+  data: T;
+  timestamp: number; // when the data was fetched (ms)
+  ttl: number; // seconds the data is fresh
+  staleTtl: number; // further seconds it may be served while revalidating
+}
+
+/**
+ * Storage for cache entries. Backends only store and expire entries;
+ * freshness, stale-while-revalidate and coalescing live in withCache.
+ */
+export interface CacheBackend {
+  readonly name: CacheBackendName;
+  get(key: string): Promise<CacheEntry | null>;
+  /** Store an entry, dropping it after expiresIn seconds */
+  set(key: string, entry: CacheEntry, expiresIn: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  /** Number of stored entries, or null when the backend can't count cheaply */
+  size(): Promise<number | null>;
+}
+
+export interface CacheStats {
+  backend: CacheBackendName;
+  size: number | null;
+  hits: number; // fresh entries served
+  staleHits: number; // stale entries served while revalidating
+  misses: number; // fetched before responding
+  coalesced: number; // fetches joined instead of started
+  errors: number; // backend reads or writes that failed
+  hitRate: number | null; // (hits + staleHits) / lookups, null before any lookup
+}
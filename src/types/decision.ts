@@ -7,6 +7,9 @@
  * that answers 6 key investment questions and provides actionable guidance.
  */
 
+import type { AnnualData, QuarterlyData } from '@/types/financials';
+import type { MarketRegime } from '@/types/market';
+
 // ============================================================================
 // INPUT TYPE
 // ============================================================================
@@ -22,7 +25,7 @@
 export interface DecisionInput {
   /** Current quote data (price, volume, etc.) */
   quote?: {
-    price?: number;
+    price?: number | null;
     volume?: number;
     currency?: string;
     marketCap?: number;
@@ -38,12 +41,19 @@ export interface DecisionInput {
     income?: unknown;
     balance?: unknown;
     cashflow?: unknown;
+    /** Annual figures, newest first (used for CAGR, consistency and Altman Z) */
+    annual?: AnnualData[];
+    /** Quarterly figures, newest first (CAN SLIM "C") */
+    quarterly?: QuarterlyData[];
   };
 
   /** Historical price data for technical analysis */
   history?: {
     prices?: Array<{
       date: string;
+      open?: number;
+      high?: number;
+      low?: number;
       close?: number;
       volume?: number;
     }>;
@@ -54,6 +64,8 @@ export interface DecisionInput {
     sector?: string;
     industry?: string;
     indexTrend?: string;
+    /** SET market regime from SETTRADE breadth/flow (see lib/analysis/market-regime) */
+    regime?: MarketRegime;
   };
 }
 
@@ -191,8 +203,23 @@ export interface ActionPlan {
   timeHorizon: string; // e.g., "6-12 months"
   invalidationTriggers: string[];
   reasoning: string;
+  /** Human-readable explanation behind each number in the plan */
+  rationale: {
+    entryZone: string;
+    targetPrice: string;
+    stopLoss: string;
+    positionSizing: string;
+  };
 }
 
+/**
+ * The five scored answers (Q1-Q5) that feed the rules layer.
+ */
+export type DecisionAnswers = Pick<
+  DecisionSummary,
+  'quality' | 'growth' | 'valuation' | 'timing' | 'risk'
+>;
+
 // ============================================================================
 // MAIN OUTPUT TYPE
 // ============================================================================
@@ -242,3 +269,19 @@ export interface EvidenceLinks {
   peers: string; // link to peer comparison
   frameworks: string; // link to detailed framework scores
 }
+
+/**
+ * Data sources assembled into DecisionInput by the decision API route.
+ */
+export type DecisionDataSource = 'quote' | 'fundamentals' | 'financials' | 'history' | 'market';
+
+/**
+ * Response of GET /api/stock/[symbol]/decision.
+ *
+ * `dataSources` records which sources returned usable data; missing
+ * sources lower `overall.confidence` rather than failing the request.
+ */
+export interface DecisionResponse extends DecisionSummary {
+  evidence: EvidenceLinks;
+  dataSources: Record<DecisionDataSource, boolean>;
+}
@@ -3,6 +3,8 @@
  * Phase 1: Data Layer Foundation
  */
 
+import type { ApiProvider } from './market';
+
 export interface FinancialMetrics {
   revenue: number | null;
   revenueGrowth: number | null;
@@ -20,6 +22,7 @@ export interface FinancialMetrics {
   freeCashFlow: number | null;
   dividendYield: number | null;
   marketCap: number | null;
+  provider?: ApiProvider; // provider that served the metrics
 }
 
 export interface QuarterlyData {
@@ -82,3 +85,23 @@ export interface CashFlowStatement {
   dividendPayments: number;
   stockBuybacks: number;
 }
+
+export interface FinancialStatements {
+  incomeStatement: IncomeStatement[];
+  balanceSheet: BalanceSheet[];
+  cashFlow: CashFlowStatement[];
+  provider?: ApiProvider; // provider that served the statements
+}
+
+export interface CompanyProfile {
+  symbol: string;
+  name: string;
+  description: string;
+  industry: string;
+  sector: string;
+  website: string;
+  marketCap: number;
+  country: string;
+  currency: string;
+  provider?: ApiProvider; // provider that served the profile
+}
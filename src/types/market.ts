@@ -3,6 +3,21 @@
  * Phase 1: Data Layer Foundation
  */
 
+import type { WeinsteinStage } from './technical';
+
+/**
+ * Market data providers (see src/lib/api/providers.ts for the fallback chain)
+ */
+export type ApiProvider = 'yahoo' | 'fmp' | 'alphavantage';
+
+/**
+ * Data from the first provider in the chain that succeeded
+ */
+export interface ProviderResult<T> {
+  data: T;
+  provider: ApiProvider;
+}
+
 export interface Quote {
   symbol: string;
   name: string;
@@ -17,8 +32,13 @@ export interface Quote {
   avgVolume: number;
   marketCap: number;
   timestamp: number;
+  provider?: ApiProvider; // provider that served the quote
 }
 
+export type MoverDirection = 'gainers' | 'losers';
+
+export type HistoricalPeriod = '1d' | '5d' | '1mo' | '3mo' | '6mo' | '1y' | '2y' | '5y' | '10y' | 'ytd' | 'max';
+
 export interface HistoricalPrice {
   date: string;
   open: number;
@@ -26,7 +46,7 @@ export interface HistoricalPrice {
   low: number;
   close: number;
   volume: number;
-  adjClose: number;
+  adjClose?: number; // split/dividend-adjusted close, when the provider reports it
 }
 
 export interface MarketIndex {
@@ -72,15 +92,119 @@ export interface StockScreenerCriteria {
   epsGrowth?: { min?: number; max?: number };
   canslimScore?: { min?: number };
   speaScore?: { min?: number };
+  trendTemplate?: boolean; // must pass the Minervini trend template
+  stage?: WeinsteinStage[]; // Weinstein stages to keep
+  rsRating?: { min?: number }; // 1-99 RS rating
+  rsLineNewHigh?: boolean; // RS line must be at a 52-week high
 }
 
 export interface ScreenerResult {
   symbol: string;
   name: string;
   price: number;
+  change: number;
   changePercent: number;
   marketCap: number;
   peRatio: number;
   volume: number;
   score?: number;
+  sector?: string;
+  pbRatio?: number | null;
+  roe?: number | null; // percent
+  dividendYield?: number | null; // percent
+  canslimScore?: number;
+  speaScore?: number;
+  trendTemplate?: boolean | null;
+  stage?: WeinsteinStage | null;
+  rsRating?: number | null;
+  rsLineNewHigh?: boolean | null;
+}
+
+/**
+ * Precomputed fundamentals and scores for one screener symbol.
+ * Ratios are in percent (roe, yield, growth) and D/E is a multiple.
+ */
+export interface ScreenerSnapshot {
+  symbol: string;
+  name: string;
+  sector: string;
+  industry: string;
+  peerGroup: string | null; // SECTOR_PEER_GROUPS name
+  marketCap: number | null;
+  peRatio: number | null;
+  pbRatio: number | null;
+  dividendYield: number | null;
+  roe: number | null;
+  deRatio: number | null;
+  revenueGrowth: number | null;
+  epsGrowth: number | null;
+  canslimScore: number;
+  speaScore: number;
+  trendTemplate: boolean | null; // null without price history
+  trendTemplateCount: number | null; // trend template criteria passed
+  stage: WeinsteinStage | null;
+  rsRating: number | null; // null until the daily RS update rates the symbol
+  rsLineNewHigh: boolean | null;
+  updatedAt: number;
+}
+
+export type ScreenerSortKey =
+  | 'score'
+  | 'canslimScore'
+  | 'speaScore'
+  | 'stage'
+  | 'rsRating'
+  | 'marketCap'
+  | 'peRatio'
+  | 'pbRatio'
+  | 'roe'
+  | 'dividendYield'
+  | 'changePercent'
+  | 'volume'
+  | 'symbol';
+
+export interface ScreenerQuery {
+  criteria: StockScreenerCriteria;
+  sort?: ScreenerSortKey;
+  order?: 'asc' | 'desc';
+  page?: number; // 1-based
+  pageSize?: number;
+  symbols?: string[]; // overrides the default universe
+}
+
+export interface ScreenerResponse {
+  results: ScreenerResult[];
+  total: number; // matches before pagination
+  page: number;
+  pageSize: number;
+  universeSize: number;
+  criteria: StockScreenerCriteria;
+}
+
+export interface SavedScreen {
+  id: string;
+  name: string;
+  criteria: StockScreenerCriteria;
+  sort?: ScreenerSortKey;
+  order?: 'asc' | 'desc';
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type MarketRegimeLabel = 'STRONG BULL' | 'BULL' | 'NEUTRAL' | 'BEAR' | 'STRONG BEAR';
+
+export interface MarketRegime {
+  regime: MarketRegimeLabel;
+  icon: string;
+  description: string;
+  recommendation: string;
+  riskLevel: string;
+  positionSize: string;
+  breadthPct: number; // % of sectors advancing
+  avgChange: number; // mean sector change (%)
+  advancingSectors: number;
+  decliningSectors: number;
+  totalValue: number; // total value traded (THB million)
+  smartMoneyNet: number; // foreign + local institution net (THB million)
+  regimeScore: number; // roughly -100 (bearish) to +100 (bullish)
 }
@@ -0,0 +1,79 @@
+/**
+ * Portfolio type definitions
+ * Transaction-based portfolio persisted in Firebase under users/{uid}/portfolio
+ */
+
+import type { Portfolio, PortfolioHolding, UserPreferences } from '@/lib/types';
+
+export type Currency = UserPreferences['currency'];
+
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'split';
+
+export interface PortfolioTransaction {
+  id: string;
+  symbol: string;
+  type: TransactionType;
+  date: string; // YYYY-MM-DD
+  currency: Currency; // trading currency of the symbol
+  shares?: number; // buy / sell
+  price?: number; // buy / sell, per share
+  fees?: number; // buy / sell, commission + taxes
+  amount?: number; // dividend, total cash received
+  ratio?: number; // split, new shares per old share (2 = 2-for-1)
+  notes?: string;
+  createdAt: number;
+}
+
+export type NewPortfolioTransaction = Omit<PortfolioTransaction, 'id' | 'createdAt'>;
+
+/**
+ * Replayed position for one symbol, in its trading currency
+ */
+export interface HoldingLedger {
+  symbol: string;
+  currency: Currency;
+  shares: number;
+  costBasis: number; // average-cost basis of the open shares, incl. buy fees
+  realizedGain: number; // sell proceeds (net of fees) minus average cost sold
+  dividends: number;
+}
+
+/**
+ * Open holding revalued at the latest quote.
+ * PortfolioHolding money fields are in the holding's own currency;
+ * the *Base fields are converted to the portfolio's base currency.
+ */
+export interface PortfolioPosition extends PortfolioHolding {
+  name: string;
+  currency: Currency;
+  sector: string; // SECTOR_PEER_GROUPS name, or "Other"
+  quoteAvailable: boolean; // false → valued at average cost
+  realizedGain: number;
+  dividends: number;
+  totalValueBase: number | null; // null when there is no FX rate for the currency
+  totalCostBase: number | null;
+  gainLossBase: number | null;
+  weight: number; // % of portfolio value (0 when unconverted)
+}
+
+export interface SectorAllocation {
+  sector: string;
+  value: number; // base currency
+  weight: number; // %
+}
+
+export interface PortfolioSummary extends Portfolio {
+  baseCurrency: Currency;
+  holdings: PortfolioPosition[];
+  realizedGain: number; // base currency, includes closed positions
+  dividendIncome: number; // base currency
+  allocation: SectorAllocation[];
+  fxRates: Partial<Record<Currency, number>>; // base currency per 1 unit
+  warnings: string[]; // e.g. currencies without an FX rate, left out of the totals
+}
+
+export interface PortfolioResponse {
+  summary: PortfolioSummary;
+  transactions: PortfolioTransaction[]; // newest first
+  provider: string;
+}
@@ -0,0 +1,24 @@
+/**
+ * Symbol search type definitions
+ * Entries in the symbol master and /api/search responses
+ */
+
+import type { Country } from './symbols';
+
+/**
+ * Markets the search groups symbols by (TH = SET and mai)
+ */
+export type SearchMarket = Country;
+
+export interface SymbolEntry {
+  symbol: string; // Yahoo-style, with market suffix (e.g. "PTT.BK")
+  name: string; // company name, or the symbol when unknown
+  market: SearchMarket;
+  sector?: string; // SECTOR_PEER_GROUPS name for SET stocks
+  source: 'local' | 'yahoo';
+}
+
+export interface SymbolSearchResponse {
+  query: string;
+  results: SymbolEntry[];
+}
@@ -0,0 +1,26 @@
+/**
+ * Symbol type definitions
+ * Exchanges and parsed Yahoo-style symbols (see src/lib/symbols)
+ */
+
+/**
+ * Exchanges with their own Yahoo suffix rules (SET and mai share ".BK";
+ * China splits into Shanghai ".SS" and Shenzhen ".SZ")
+ */
+export type Exchange = 'SET' | 'MAI' | 'US' | 'HK' | 'JP' | 'CN-SS' | 'CN-SZ';
+
+export type Country = 'US' | 'TH' | 'HK' | 'JP' | 'CN';
+
+export interface ExchangeInfo {
+  name: string;
+  suffix: string; // Yahoo suffix including the dot, '' for US
+  country: Country;
+}
+
+export interface ParsedSymbol {
+  symbol: string; // canonical Yahoo symbol, e.g. "0700.HK"
+  base: string; // without the exchange suffix, e.g. "0700"
+  suffix: string; // exchange suffix as written ('' when none)
+  exchange: Exchange | null; // null for exchanges the app doesn't cover (e.g. ".L")
+  isIndex: boolean; // "^SET.BK", "^GSPC"
+}
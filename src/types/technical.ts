@@ -0,0 +1,185 @@
+/**
+ * Technical indicator type definitions
+ * Series and bar shapes used by src/lib/technical
+ */
+
+/**
+ * One value per input bar; null while the indicator is warming up
+ */
+export type IndicatorSeries = Array<number | null>;
+
+/**
+ * The price fields indicators read (a HistoricalPrice satisfies it)
+ */
+export interface PriceBar {
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface MacdSeries {
+  macd: IndicatorSeries; // fast EMA - slow EMA
+  signal: IndicatorSeries; // EMA of the MACD line
+  histogram: IndicatorSeries; // MACD - signal
+}
+
+export interface BollingerSeries {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries; // SMA
+  lower: IndicatorSeries;
+}
+
+export interface StochasticSeries {
+  k: IndicatorSeries; // %K (0-100)
+  d: IndicatorSeries; // %D, SMA of %K
+}
+
+// ============================================================================
+// TREND TEMPLATE AND STAGE ANALYSIS
+// ============================================================================
+
+export type TrendCriterionId =
+  | 'priceAboveMa150Ma200'
+  | 'ma150AboveMa200'
+  | 'ma200Rising'
+  | 'ma50AboveMa150Ma200'
+  | 'priceAboveMa50'
+  | 'aboveLow52w'
+  | 'nearHigh52w'
+  | 'relativeStrength';
+
+export interface TrendCriterion {
+  id: TrendCriterionId;
+  label: string;
+  passed: boolean | null; // null when there is not enough data to evaluate it
+  detail: string;
+}
+
+/**
+ * Minervini trend template evaluated on the latest bar
+ */
+export interface TrendTemplateResult {
+  passed: boolean; // all seven price criteria passed, and RS too when a rating was given
+  passedCount: number;
+  evaluatedCount: number;
+  criteria: TrendCriterion[];
+  price: number | null;
+  ma50: number | null;
+  ma150: number | null;
+  ma200: number | null;
+  high52w: number | null;
+  low52w: number | null;
+  asOf: string | null; // date of the latest bar
+}
+
+/**
+ * Weinstein stages: 1 basing, 2 advancing, 3 topping, 4 declining
+ */
+export type WeinsteinStage = 1 | 2 | 3 | 4;
+
+export interface StageResult {
+  stage: WeinsteinStage | null; // null without enough history
+  label: string;
+  description: string;
+  ma150: number | null; // 30-week moving average
+  maSlopePct: number | null; // MA change over the last month (%)
+  priorSlopePct: number | null; // MA change over the months before that (%)
+  priceVsMaPct: number | null; // price distance from the MA (%)
+  asOf: string | null;
+}
+
+// ============================================================================
+// CHART PATTERNS
+// ============================================================================
+
+/**
+ * Confirmed swing high or low (the extreme of the bars on either side)
+ */
+export interface Pivot {
+  index: number; // bar index
+  date: string;
+  price: number; // the bar's high (swing high) or low (swing low)
+  type: 'high' | 'low';
+}
+
+export type BasePatternType = 'cup-with-handle' | 'flat-base' | 'double-bottom' | 'vcp';
+
+/**
+ * forming: no close above the buy point yet
+ * breakout: closed above it and still within the buy range
+ * extended: more than the buy range above it
+ * failed: fell back well below the buy point, or under the base low before breaking out
+ */
+export type BreakoutStatus = 'forming' | 'breakout' | 'extended' | 'failed';
+
+export interface BasePattern {
+  type: BasePatternType;
+  startIndex: number; // left-side high
+  endIndex: number; // last bar before the breakout, or the latest bar
+  startDate: string;
+  endDate: string;
+  buyPoint: number; // pivot price a close above confirms the breakout
+  depthPct: number; // left-side high to base low (%)
+  baseLow: number;
+  contractions: number[]; // successive pullback depths (%), e.g. cup then handle
+  breakoutIndex: number | null;
+  breakoutDate: string | null;
+  breakoutVolumeRatio: number | null; // breakout volume / 50-day average
+  status: BreakoutStatus;
+}
+
+export interface PatternAnalysis {
+  pivots: Pivot[];
+  bases: BasePattern[]; // oldest first
+  current: BasePattern | null; // still forming, or broke out in the last month
+}
+
+// ============================================================================
+// RELATIVE STRENGTH
+// ============================================================================
+
+/**
+ * One point of a relative strength line (stock close / benchmark close × 100)
+ */
+export interface RsLinePoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * A symbol's relative strength on one trading day
+ */
+export interface RelativeStrengthEntry {
+  symbol: string;
+  date: string; // the symbol's latest bar
+  rsScore: number | null; // weighted 3/6/9/12-month return (%)
+  rsRating: number | null; // 1-99 percentile of rsScore across the universe
+  rsLine: number | null;
+  rsLineNewHigh: boolean; // RS line at its highest in 52 weeks
+  benchmark: string; // e.g. "^SET.BK"
+}
+
+/**
+ * A stored daily RS value (relativeStrength/history/{symbol}/{date})
+ */
+export interface RelativeStrengthHistoryPoint {
+  date: string;
+  rsScore: number | null;
+  rsRating: number | null;
+  rsLine: number | null;
+}
+
+/**
+ * GET /api/stock/[symbol]/relative-strength
+ */
+export interface RelativeStrengthResponse {
+  symbol: string;
+  benchmark: string;
+  rsRating: number | null; // from the latest daily update; null until rated
+  rsScore: number | null;
+  ratedAt: string | null;
+  rsLine: RsLinePoint[] | null; // null without benchmark prices
+  rsLineNewHigh: boolean;
+  history: RelativeStrengthHistoryPoint[];
+}
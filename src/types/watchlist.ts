@@ -0,0 +1,41 @@
+/**
+ * Watchlist type definitions
+ * Named watchlists persisted in Firebase under users/{uid}/watchlist
+ */
+
+import type { WatchlistItem } from '@/lib/types';
+import type { Quote } from './market';
+import type { ActionRating } from './decision';
+
+export type { WatchlistItem };
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  items: WatchlistItem[]; // newest first
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Decision and framework scores shown per watchlist row
+ */
+export interface WatchlistScores {
+  decisionScore: number; // 0-100
+  rating: ActionRating;
+  confidence: 'high' | 'medium' | 'low';
+  canslimScore: number; // 0-100
+  speaScore: number; // 0-100
+}
+
+export interface WatchlistRow extends WatchlistItem {
+  quote: Quote | null; // null when the quote provider has no data
+  scores: WatchlistScores | null; // null when the decision engine failed
+}
+
+export interface WatchlistResponse {
+  watchlist: Omit<Watchlist, 'items'>;
+  rows: WatchlistRow[];
+  provider: string;
+  timestamp: number;
+}